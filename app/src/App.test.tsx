@@ -3,6 +3,7 @@ import userEvent from '@testing-library/user-event'
 import { describe, it, expect, beforeEach } from 'vitest'
 import App from './App'
 import { useSceneStore } from './stores/useSceneStore'
+import { useHistoryStore } from './stores/useHistoryStore'
 import { useUIStore } from './stores/useUIStore'
 
 // Reset store between tests
@@ -13,9 +14,8 @@ beforeEach(() => {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useHistoryStore.getState().clear()
   useUIStore.setState({
     sidebarCollapsed: false,
     pivotMode: 'individual',
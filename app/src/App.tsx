@@ -11,6 +11,8 @@ import { RightSidebar } from './components/RightSidebar'
 import { BottomPanel } from './components/BottomPanel'
 import { useKeyboardShortcuts } from './hooks/useKeyboardShortcuts'
 import { useUIStore } from './stores/useUIStore'
+import { useStorageStore } from './stores/useStorageStore'
+import { sceneStorage } from './core/sceneStorage'
 import './index.css'
 
 function App() {
@@ -33,6 +35,14 @@ function App() {
     setExportDialogOpen(prev => !prev)
   }, [])
 
+  // Populate the saved-scene index from persistent storage
+  useEffect(() => {
+    sceneStorage.hydrate().catch(err => {
+      console.error('Failed to load saved scenes:', err)
+      useStorageStore.getState().setSaveStatus('error')
+    })
+  }, [])
+
   useEffect(() => {
     window.addEventListener('toggle-shortcut-help', toggleShortcutHelp)
     return () => window.removeEventListener('toggle-shortcut-help', toggleShortcutHelp)
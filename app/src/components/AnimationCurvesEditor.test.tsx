@@ -1,4 +1,4 @@
-import { render, screen } from '@testing-library/react'
+import { render, screen, fireEvent } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { AnimationCurvesEditor } from './AnimationCurvesEditor'
@@ -91,4 +91,33 @@ describe('AnimationCurvesEditor', () => {
     render(<AnimationCurvesEditor trackId={trackId} keyframeId="nonexistent" onClose={onClose} />)
     expect(screen.getByText('Linear')).toHaveAttribute('aria-pressed', 'true')
   })
+
+  it('lists step, back, elastic and bounce easings', () => {
+    render(<AnimationCurvesEditor trackId={trackId} keyframeId={keyframeId} onClose={onClose} />)
+    for (const label of ['Step (Hold)', 'Back Out', 'Elastic In-Out', 'Bounce In']) {
+      expect(screen.getByRole('button', { name: label })).toBeInTheDocument()
+    }
+  })
+
+  it('switching to bezier starts the handles from the current curve', async () => {
+    const user = userEvent.setup()
+    useAnimationStore.getState().updateKeyframe(trackId, keyframeId, { easing: 'easeIn' })
+    render(<AnimationCurvesEditor trackId={trackId} keyframeId={keyframeId} onClose={onClose} />)
+    expect(screen.queryByLabelText('Handle 1 time')).not.toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Bezier' }))
+    const kf = useAnimationStore.getState().tracks[0].keyframes[0]
+    expect(kf.easing).toBe('bezier')
+    expect(kf.bezier).toEqual([1 / 3, 0, 2 / 3, 1 / 3])
+    expect(screen.getByRole('img', { name: /shaped by two handles/ })).toBeInTheDocument()
+  })
+
+  it('edits handle values, clamping time into the segment', () => {
+    useAnimationStore.getState().updateKeyframe(trackId, keyframeId, { easing: 'bezier', bezier: [0.25, 0.1, 0.25, 1] })
+    render(<AnimationCurvesEditor trackId={trackId} keyframeId={keyframeId} onClose={onClose} />)
+
+    fireEvent.change(screen.getByLabelText('Handle 2 value'), { target: { value: '1.3' } })
+    fireEvent.change(screen.getByLabelText('Handle 1 time'), { target: { value: '1.8' } })
+    expect(useAnimationStore.getState().tracks[0].keyframes[0].bezier).toEqual([1, 0.1, 0.25, 1.3])
+  })
 })
@@ -1,5 +1,7 @@
+import { useState } from 'react'
 import { useAnimationStore } from '../stores/useAnimationStore'
-import type { EasingType } from '../types/scene'
+import { applyEasing, clampBezier, getPresetBezier } from '../core/animation'
+import type { BezierHandles, EasingType } from '../types/scene'
 
 interface AnimationCurvesEditorProps {
   trackId: string
@@ -12,32 +14,109 @@ const EASING_OPTIONS: { type: EasingType; label: string }[] = [
   { type: 'easeIn', label: 'Ease In' },
   { type: 'easeOut', label: 'Ease Out' },
   { type: 'easeInOut', label: 'Ease In-Out' },
+  { type: 'step', label: 'Step (Hold)' },
+  { type: 'bezier', label: 'Bezier' },
+  { type: 'backIn', label: 'Back In' },
+  { type: 'backOut', label: 'Back Out' },
+  { type: 'backInOut', label: 'Back In-Out' },
+  { type: 'elasticIn', label: 'Elastic In' },
+  { type: 'elasticOut', label: 'Elastic Out' },
+  { type: 'elasticInOut', label: 'Elastic In-Out' },
+  { type: 'bounceIn', label: 'Bounce In' },
+  { type: 'bounceOut', label: 'Bounce Out' },
+  { type: 'bounceInOut', label: 'Bounce In-Out' },
 ]
 
-const EASING_PATHS: Record<EasingType, string> = {
-  linear: 'M 10,140 L 190,10',
-  easeIn: 'M 10,140 C 100,140 180,30 190,10',
-  easeOut: 'M 10,140 C 20,110 100,10 190,10',
-  easeInOut: 'M 10,140 C 10,80 190,70 190,10',
-}
-
 const EASING_LABELS: Record<EasingType, string> = {
   linear: 'Linear easing curve: constant speed from start to end',
   easeIn: 'Ease in curve: starts slow and accelerates',
   easeOut: 'Ease out curve: starts fast and decelerates',
   easeInOut: 'Ease in-out curve: starts slow, speeds up, then slows down',
+  step: 'Step curve: holds the previous value, then jumps at the keyframe',
+  backIn: 'Back in curve: pulls back before moving',
+  backOut: 'Back out curve: overshoots, then settles',
+  backInOut: 'Back in-out curve: pulls back, then overshoots and settles',
+  elasticIn: 'Elastic in curve: winds up with growing oscillation',
+  elasticOut: 'Elastic out curve: springs past the value and oscillates to rest',
+  elasticInOut: 'Elastic in-out curve: oscillates at both ends',
+  bounceIn: 'Bounce in curve: bounces with growing height before moving',
+  bounceOut: 'Bounce out curve: lands and bounces to rest',
+  bounceInOut: 'Bounce in-out curve: bounces at both ends',
+  bezier: 'Bezier easing curve: shaped by two handles',
+}
+
+// Plot area in SVG units; progress from -0.5 to 1.5 fits so overshoot stays visible
+const VIEW_WIDTH = 200
+const VIEW_HEIGHT = 160
+const PLOT_LEFT = 10
+const PLOT_RIGHT = 190
+const PLOT_ZERO = 120
+const PLOT_ONE = 40
+const MIN_PROGRESS = -0.5
+const MAX_PROGRESS = 1.5
+const CURVE_SAMPLES = 96
+
+const toX = (t: number) => PLOT_LEFT + t * (PLOT_RIGHT - PLOT_LEFT)
+const toY = (p: number) => PLOT_ZERO + p * (PLOT_ONE - PLOT_ZERO)
+
+function getCurvePath(easing: EasingType, bezier: BezierHandles | undefined): string {
+  if (easing === 'bezier' && bezier) {
+    const [x1, y1, x2, y2] = bezier
+    return `M ${toX(0)},${toY(0)} C ${toX(x1)},${toY(y1)} ${toX(x2)},${toY(y2)} ${toX(1)},${toY(1)}`
+  }
+  const points = Array.from({ length: CURVE_SAMPLES + 1 }, (_, i) => {
+    const t = i / CURVE_SAMPLES
+    // Step jumps at the keyframe, so draw its riser at the end rather than as a slope
+    const p = easing === 'step' && i === CURVE_SAMPLES ? 0 : applyEasing(t, easing)
+    return `${toX(t).toFixed(2)},${toY(p).toFixed(2)}`
+  })
+  if (easing === 'step') points.push(`${toX(1)},${toY(1)}`)
+  return `M ${points.join(' L ')}`
 }
 
+const HANDLE_FIELDS: { index: 0 | 1 | 2 | 3; label: string }[] = [
+  { index: 0, label: 'Handle 1 time' },
+  { index: 1, label: 'Handle 1 value' },
+  { index: 2, label: 'Handle 2 time' },
+  { index: 3, label: 'Handle 2 value' },
+]
+
 export function AnimationCurvesEditor({ trackId, keyframeId, onClose }: AnimationCurvesEditorProps) {
   const tracks = useAnimationStore(s => s.tracks)
   const updateKeyframe = useAnimationStore(s => s.updateKeyframe)
+  const [dragHandle, setDragHandle] = useState<0 | 1 | null>(null)
 
   const track = tracks.find(t => t.id === trackId)
   const keyframe = track?.keyframes.find(kf => kf.id === keyframeId)
   const currentEasing: EasingType = keyframe?.easing ?? 'linear'
+  const bezier = currentEasing === 'bezier' ? keyframe?.bezier ?? getPresetBezier('linear') : undefined
 
   const handleSelect = (type: EasingType) => {
-    updateKeyframe(trackId, keyframeId, { easing: type })
+    if (type === 'bezier') {
+      // Start the handles from the curve being replaced
+      updateKeyframe(trackId, keyframeId, { easing: type, bezier: keyframe?.bezier ?? getPresetBezier(currentEasing) })
+    } else {
+      updateKeyframe(trackId, keyframeId, { easing: type })
+    }
+  }
+
+  const setBezier = (handles: BezierHandles) => {
+    const [x1, y1, x2, y2] = clampBezier(handles)
+    const clampProgress = (p: number) => Math.min(MAX_PROGRESS, Math.max(MIN_PROGRESS, p))
+    updateKeyframe(trackId, keyframeId, { bezier: [x1, clampProgress(y1), x2, clampProgress(y2)] })
+  }
+
+  const handlePointerMove = (e: React.PointerEvent<SVGSVGElement>) => {
+    if (dragHandle === null || !bezier) return
+    const rect = e.currentTarget.getBoundingClientRect()
+    const x = ((e.clientX - rect.left) / rect.width) * VIEW_WIDTH
+    const y = ((e.clientY - rect.top) / rect.height) * VIEW_HEIGHT
+    const t = (x - PLOT_LEFT) / (PLOT_RIGHT - PLOT_LEFT)
+    const p = (y - PLOT_ZERO) / (PLOT_ONE - PLOT_ZERO)
+    const next: BezierHandles = [...bezier]
+    next[dragHandle * 2] = Math.round(t * 1000) / 1000
+    next[dragHandle * 2 + 1] = Math.round(p * 1000) / 1000
+    setBezier(next)
   }
 
   return (
@@ -56,38 +135,88 @@ export function AnimationCurvesEditor({ trackId, keyframeId, onClose }: Animatio
 
       {/* SVG Curve Preview */}
       <svg
-        width={200}
-        height={150}
-        viewBox="0 0 200 150"
+        width={VIEW_WIDTH}
+        height={VIEW_HEIGHT}
+        viewBox={`0 0 ${VIEW_WIDTH} ${VIEW_HEIGHT}`}
         role="img"
         aria-label={EASING_LABELS[currentEasing]}
-        className="w-full bg-dust-900 rounded mb-2"
+        className="w-full bg-dust-900 rounded mb-2 touch-none"
+        onPointerMove={handlePointerMove}
+        onPointerUp={() => setDragHandle(null)}
+        onPointerCancel={() => setDragHandle(null)}
       >
-        {/* Grid lines */}
-        <line x1={10} y1={10} x2={10} y2={140} stroke="currentColor" strokeWidth={0.5} className="text-dust-700" />
-        <line x1={190} y1={10} x2={190} y2={140} stroke="currentColor" strokeWidth={0.5} className="text-dust-700" />
-        <line x1={10} y1={10} x2={190} y2={10} stroke="currentColor" strokeWidth={0.5} className="text-dust-700" />
-        <line x1={10} y1={140} x2={190} y2={140} stroke="currentColor" strokeWidth={0.5} className="text-dust-700" />
-        <line x1={100} y1={10} x2={100} y2={140} stroke="currentColor" strokeWidth={0.5} className="text-dust-700" />
-        <line x1={10} y1={75} x2={190} y2={75} stroke="currentColor" strokeWidth={0.5} className="text-dust-700" />
+        {/* Grid lines: start and end of the segment, 0 and 1 progress */}
+        <line x1={PLOT_LEFT} y1={toY(MAX_PROGRESS)} x2={PLOT_LEFT} y2={toY(MIN_PROGRESS)} stroke="currentColor" strokeWidth={0.5} className="text-dust-700" />
+        <line x1={PLOT_RIGHT} y1={toY(MAX_PROGRESS)} x2={PLOT_RIGHT} y2={toY(MIN_PROGRESS)} stroke="currentColor" strokeWidth={0.5} className="text-dust-700" />
+        <line x1={toX(0.5)} y1={toY(MAX_PROGRESS)} x2={toX(0.5)} y2={toY(MIN_PROGRESS)} stroke="currentColor" strokeWidth={0.5} className="text-dust-700" />
+        <line x1={PLOT_LEFT} y1={toY(1)} x2={PLOT_RIGHT} y2={toY(1)} stroke="currentColor" strokeWidth={0.5} className="text-dust-700" />
+        <line x1={PLOT_LEFT} y1={toY(0)} x2={PLOT_RIGHT} y2={toY(0)} stroke="currentColor" strokeWidth={0.5} className="text-dust-700" />
 
         {/* Easing curve */}
         <path
-          d={EASING_PATHS[currentEasing]}
+          d={getCurvePath(currentEasing, bezier)}
           fill="none"
           className="stroke-rust-500"
           strokeWidth={2}
         />
+
+        {/* Bezier handles */}
+        {bezier && ([0, 1] as const).map(handle => {
+          const anchorT = handle === 0 ? 0 : 1
+          const cx = toX(bezier[handle * 2])
+          const cy = toY(bezier[handle * 2 + 1])
+          return (
+            <g key={handle}>
+              <line x1={toX(anchorT)} y1={toY(anchorT)} x2={cx} y2={cy} stroke="currentColor" strokeWidth={1} className="text-dust-400" />
+              <circle
+                cx={cx}
+                cy={cy}
+                r={5}
+                className={`fill-sand-200 cursor-grab ${dragHandle === handle ? 'stroke-rust-500' : 'stroke-dust-600'}`}
+                strokeWidth={1.5}
+                onPointerDown={e => {
+                  e.currentTarget.ownerSVGElement?.setPointerCapture(e.pointerId)
+                  setDragHandle(handle)
+                }}
+              />
+            </g>
+          )
+        })}
       </svg>
 
+      {/* Exact handle values */}
+      {bezier && (
+        <div className="grid grid-cols-4 gap-1 mb-2">
+          {HANDLE_FIELDS.map(({ index, label }) => (
+            <input
+              key={index}
+              type="number"
+              step={0.01}
+              min={index % 2 === 0 ? 0 : MIN_PROGRESS}
+              max={index % 2 === 0 ? 1 : MAX_PROGRESS}
+              value={bezier[index]}
+              onChange={e => {
+                const value = Number(e.target.value)
+                if (!Number.isFinite(value)) return
+                const next: BezierHandles = [...bezier]
+                next[index] = value
+                setBezier(next)
+              }}
+              aria-label={label}
+              className="w-full bg-dust-900 border border-dust-600/50 rounded px-1 py-0.5 text-[10px] text-sand-200 tabular-nums focus:border-rust-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rust-500"
+            />
+          ))}
+        </div>
+      )}
+
       {/* Easing Type Buttons */}
-      <div className="flex flex-col gap-1">
+      <div className="grid grid-cols-3 gap-1">
         {EASING_OPTIONS.map(({ type, label }) => (
           <button
             key={type}
             onClick={() => handleSelect(type)}
             aria-pressed={currentEasing === type}
-            className={`w-full text-xs px-3 py-1.5 rounded transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 ${
+            className={`w-full text-[10px] px-1.5 py-1.5 rounded transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 ${
               currentEasing === type
                 ? 'bg-rust-500 text-white'
                 : 'text-dust-300 hover:bg-dust-700 hover:text-sand-200'
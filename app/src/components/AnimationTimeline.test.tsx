@@ -4,6 +4,8 @@ import { describe, it, expect, beforeEach } from 'vitest'
 import { AnimationTimeline } from './AnimationTimeline'
 import { useAnimationStore } from '../stores/useAnimationStore'
 import { useSceneStore } from '../stores/useSceneStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
+import { useUIStore } from '../stores/useUIStore'
 import { resetKeyframeIdCounter, CAMERA_TRACK_OBJECT_ID } from '../core/animation'
 
 function resetStores() {
@@ -21,9 +23,9 @@ function resetStores() {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useHistoryStore.getState().clear()
+  useUIStore.setState({ timelineView: 'tracks' })
   resetKeyframeIdCounter()
 }
 
@@ -282,4 +284,42 @@ describe('AnimationTimeline', () => {
     const diamonds = screen.getAllByText('◆')
     expect(diamonds).toHaveLength(2)
   })
+
+  // ── Dope Sheet ─────────────────────────────────────────────────────
+
+  it('switches between track rows and the dope sheet', async () => {
+    const user = userEvent.setup()
+    render(<AnimationTimeline />)
+    const toggle = screen.getByRole('button', { name: 'Dope Sheet' })
+    expect(toggle).toHaveAttribute('aria-pressed', 'false')
+
+    await user.click(toggle)
+    expect(toggle).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByRole('region', { name: 'Dope sheet' })).toBeInTheDocument()
+    expect(screen.queryByRole('slider', { name: 'Animation timeline' })).not.toBeInTheDocument()
+    // Transport controls stay available in either view
+    expect(screen.getByRole('button', { name: 'Play animation' })).toBeInTheDocument()
+
+    await user.click(toggle)
+    expect(screen.getByRole('slider', { name: 'Animation timeline' })).toBeInTheDocument()
+  })
+
+  // ── Graph Editor ───────────────────────────────────────────────────
+
+  it('switches to the graph editor from either view', async () => {
+    const user = userEvent.setup()
+    const trackId = useAnimationStore.getState().addTrack(CAMERA_TRACK_OBJECT_ID)
+    useAnimationStore.getState().addKeyframe(trackId, 0, 'cameraPosition', { x: 0, y: 0, z: 0 })
+    render(<AnimationTimeline />)
+
+    await user.click(screen.getByRole('button', { name: 'Dope Sheet' }))
+    const graph = screen.getByRole('button', { name: 'Graph' })
+    await user.click(graph)
+    expect(graph).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByRole('button', { name: 'Dope Sheet' })).toHaveAttribute('aria-pressed', 'false')
+    expect(screen.getByRole('region', { name: 'Graph editor' })).toBeInTheDocument()
+
+    await user.click(graph)
+    expect(screen.getByRole('slider', { name: 'Animation timeline' })).toBeInTheDocument()
+  })
 })
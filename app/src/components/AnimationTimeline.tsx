@@ -3,9 +3,16 @@ import { Vector3 } from 'three'
 import { useAnimationStore } from '../stores/useAnimationStore'
 import { useSceneStore } from '../stores/useSceneStore'
 import { useCameraStore } from '../stores/useCameraStore'
+import { useUIStore } from '../stores/useUIStore'
 import { AnimationCurvesEditor } from './AnimationCurvesEditor'
-import { CAMERA_TRACK_OBJECT_ID, isCameraTrack } from '../core/animation'
-import type { AnimationTrack } from '../types/scene'
+import { DopeSheet } from './DopeSheet'
+import { GraphEditor } from './GraphEditor'
+import { CAMERA_TRACK_OBJECT_ID, ENVIRONMENT_TRACK_OBJECT_ID, isCameraTrack, isEnvironmentTrack } from '../core/animation'
+import { ENVIRONMENT_PROPERTY_PATHS, readEnvironmentPath } from '../core/propertyPaths'
+import { getLightChannels } from '../core/lights'
+import { getLensChannel } from '../core/lens'
+import { getFocusChannel, getFocusDistance } from '../core/focus'
+import type { AnimationTrack, SceneObject, Vec3 } from '../types/scene'
 
 // ── Helpers ──────────────────────────────────────────────────────────────
 
@@ -15,6 +22,12 @@ function formatTime(t: number): string {
 
 const SPEED_OPTIONS = [0.25, 0.5, 1, 2, 4]
 
+// Keys the distance the lens is actually focused at, even while tracking an object
+function getCurrentFocusChannel(cameraPosition: Vec3, objects: SceneObject[]): Vec3 {
+  const { focus } = useCameraStore.getState()
+  return getFocusChannel(focus, getFocusDistance(focus, cameraPosition, objects))
+}
+
 const TRACK_LABEL_WIDTH = 140
 const TRACK_HEIGHT = 28
 const RULER_HEIGHT = 24
@@ -44,10 +57,15 @@ export function AnimationTimeline() {
   const addTrack = useAnimationStore(s => s.addTrack)
   const removeTrack = useAnimationStore(s => s.removeTrack)
   const addKeyframe = useAnimationStore(s => s.addKeyframe)
+  const keyPropertyPath = useAnimationStore(s => s.keyPropertyPath)
   const removeKeyframe = useAnimationStore(s => s.removeKeyframe)
   const getTrackForObject = useAnimationStore(s => s.getTrackForObject)
   const captureSceneKeyframe = useAnimationStore(s => s.captureSceneKeyframe)
 
+  // Track rows or the per-property dope sheet
+  const timelineView = useUIStore(s => s.timelineView)
+  const setTimelineView = useUIStore(s => s.setTimelineView)
+
   // Scene store
   const objects = useSceneStore(s => s.objects)
   const selectedId = useSceneStore(s => s.selectedId)
@@ -143,12 +161,17 @@ export function AnimationTimeline() {
         position: { ...o.position },
         rotation: { ...o.rotation },
         scale: { ...o.scale },
+        ...(o.light ? getLightChannels(o.light) : {}),
       }))
 
     captureSceneKeyframe(
       { x: _pos.x, y: _pos.y, z: _pos.z },
       { x: _tgt.x, y: _tgt.y, z: _tgt.z },
       trackedObjects,
+      undefined,
+      undefined,
+      getLensChannel(useCameraStore.getState().lens),
+      getCurrentFocusChannel({ x: _pos.x, y: _pos.y, z: _pos.z }, objects),
     )
   }, [tracks, objects, selectedIds, captureSceneKeyframe])
 
@@ -188,7 +211,7 @@ export function AnimationTimeline() {
     e.preventDefault()
     e.stopPropagation()
 
-    // For camera tracks, remove all keyframes at the same time (cameraPosition + cameraTarget pair)
+    // For camera tracks, remove all keyframes at the same time (position, target, lens and focus)
     const track = tracks.find(t => t.id === trackId)
     const kf = track?.keyframes.find(k => k.id === keyframeId)
     if (track && kf && isCameraTrack(track)) {
@@ -219,19 +242,30 @@ export function AnimationTimeline() {
       controlsRef.getTarget(_t)
       addKeyframe(trackId, time, 'cameraPosition', { x: _p.x, y: _p.y, z: _p.z })
       addKeyframe(trackId, time, 'cameraTarget', { x: _t.x, y: _t.y, z: _t.z })
+      addKeyframe(trackId, time, 'cameraLens', getLensChannel(useCameraStore.getState().lens))
+      addKeyframe(trackId, time, 'cameraFocus', getCurrentFocusChannel({ x: _p.x, y: _p.y, z: _p.z }, objects))
+    } else if (isEnvironmentTrack(track)) {
+      // Environment track: key the current value of each animated path
+      const environment = useSceneStore.getState().environment
+      for (const path of ENVIRONMENT_PROPERTY_PATHS) {
+        const value = readEnvironmentPath(environment, path)
+        if (value === undefined || !track.keyframes.some(kf => kf.property === path)) continue
+        keyPropertyPath(track.objectId, path, value, time)
+      }
     } else {
       // Object track: capture current position
       const obj = objects.find(o => o.id === track.objectId)
       const value = obj ? { ...obj.position } : { x: 0, y: 0, z: 0 }
       addKeyframe(trackId, time, 'position', value)
     }
-  }, [getTimeFromMouseX, addKeyframe, tracks, objects])
+  }, [getTimeFromMouseX, addKeyframe, keyPropertyPath, tracks, objects])
 
   // ── Resolve object name for a track ────────────────────────────────
 
   const getObjectName = useCallback(
     (objectId: string): string => {
       if (objectId === CAMERA_TRACK_OBJECT_ID) return 'Camera'
+      if (objectId === ENVIRONMENT_TRACK_OBJECT_ID) return 'Environment'
       const obj = objects.find(o => o.id === objectId)
       return obj ? obj.name : '(deleted)'
     },
@@ -352,106 +386,136 @@ export function AnimationTimeline() {
         >
           + Add Track
         </button>
+
+        {/* Dope sheet toggle */}
+        <button
+          onClick={() => setTimelineView(timelineView === 'dopeSheet' ? 'tracks' : 'dopeSheet')}
+          aria-pressed={timelineView === 'dopeSheet'}
+          title="Show every property as a row to select, retime and copy keys in groups"
+          className={`ml-auto px-2 py-0.5 rounded text-xs font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 ${
+            timelineView === 'dopeSheet'
+              ? 'bg-rust-500/30 text-rust-300 border border-rust-500/50'
+              : 'bg-dust-700 text-dust-400 hover:bg-dust-600'
+          }`}
+        >
+          Dope Sheet
+        </button>
+
+        {/* Graph editor toggle */}
+        <button
+          onClick={() => setTimelineView(timelineView === 'graph' ? 'tracks' : 'graph')}
+          aria-pressed={timelineView === 'graph'}
+          title="Show the X, Y and Z curves of each property to shape them key by key"
+          className={`px-2 py-0.5 rounded text-xs font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 ${
+            timelineView === 'graph'
+              ? 'bg-rust-500/30 text-rust-300 border border-rust-500/50'
+              : 'bg-dust-700 text-dust-400 hover:bg-dust-600'
+          }`}
+        >
+          Graph
+        </button>
       </div>
 
       {/* ── Timeline area ───────────────────────────────────────────── */}
-      <div
-        ref={timelineRef}
-        className="flex-1 overflow-y-auto overflow-x-hidden relative select-none"
-        onMouseDown={handleTimelineMouseDown}
-        role="slider"
-        aria-label="Animation timeline"
-        aria-valuemin={0}
-        aria-valuemax={duration}
-        aria-valuenow={currentTime}
-        tabIndex={0}
-        onKeyDown={e => {
-          if (e.key === 'ArrowRight') {
-            e.preventDefault()
-            setCurrentTime(Math.min(duration, currentTime + 0.1))
-          } else if (e.key === 'ArrowLeft') {
-            e.preventDefault()
-            setCurrentTime(Math.max(0, currentTime - 0.1))
-          }
-        }}
-      >
-        {/* Ruler */}
+      {timelineView === 'dopeSheet' ? <DopeSheet /> : timelineView === 'graph' ? <GraphEditor /> : (
         <div
-          className="flex border-b border-dust-600/25 bg-dust-900 sticky top-0 z-10"
-          style={{ height: RULER_HEIGHT }}
+          ref={timelineRef}
+          className="flex-1 overflow-y-auto overflow-x-hidden relative select-none"
+          onMouseDown={handleTimelineMouseDown}
+          role="slider"
+          aria-label="Animation timeline"
+          aria-valuemin={0}
+          aria-valuemax={duration}
+          aria-valuenow={currentTime}
+          tabIndex={0}
+          onKeyDown={e => {
+            if (e.key === 'ArrowRight') {
+              e.preventDefault()
+              setCurrentTime(Math.min(duration, currentTime + 0.1))
+            } else if (e.key === 'ArrowLeft') {
+              e.preventDefault()
+              setCurrentTime(Math.max(0, currentTime - 0.1))
+            }
+          }}
         >
-          {/* Label gutter */}
+          {/* Ruler */}
           <div
-            className="shrink-0 border-r border-dust-600/25 flex items-center px-2"
-            style={{ width: TRACK_LABEL_WIDTH }}
+            className="flex border-b border-dust-600/25 bg-dust-900 sticky top-0 z-10"
+            style={{ height: RULER_HEIGHT }}
           >
-            <span className="text-[10px] text-dust-500 uppercase tracking-wider">Tracks</span>
-          </div>
+            {/* Label gutter */}
+            <div
+              className="shrink-0 border-r border-dust-600/25 flex items-center px-2"
+              style={{ width: TRACK_LABEL_WIDTH }}
+            >
+              <span className="text-[10px] text-dust-500 uppercase tracking-wider">Tracks</span>
+            </div>
 
-          {/* Ruler ticks */}
-          <div className="flex-1 relative">
-            {ticks.map(t => {
-              const pct = (t / duration) * 100
-              const isWhole = t % 1 === 0
-              return (
-                <div
-                  key={t}
-                  className="absolute top-0 flex flex-col items-center"
-                  style={{ left: `${pct}%` }}
-                >
+            {/* Ruler ticks */}
+            <div className="flex-1 relative">
+              {ticks.map(t => {
+                const pct = (t / duration) * 100
+                const isWhole = t % 1 === 0
+                return (
                   <div
-                    className={`w-px ${isWhole ? 'h-3 bg-dust-400' : 'h-2 bg-dust-600'}`}
-                  />
-                  {isWhole && (
-                    <span className="text-[9px] text-dust-500 mt-0.5 tabular-nums">
-                      {t.toFixed(0)}s
-                    </span>
-                  )}
-                </div>
-              )
-            })}
+                    key={t}
+                    className="absolute top-0 flex flex-col items-center"
+                    style={{ left: `${pct}%` }}
+                  >
+                    <div
+                      className={`w-px ${isWhole ? 'h-3 bg-dust-400' : 'h-2 bg-dust-600'}`}
+                    />
+                    {isWhole && (
+                      <span className="text-[9px] text-dust-500 mt-0.5 tabular-nums">
+                        {t.toFixed(0)}s
+                      </span>
+                    )}
+                  </div>
+                )
+              })}
+            </div>
           </div>
-        </div>
 
-        {/* Track rows */}
-        {sortedTracks.length === 0 ? (
-          <div className="flex items-center justify-center h-16 text-xs text-dust-500">
-            No tracks. Click &quot;Capture Keyframe&quot; or select an object and click &quot;+ Add Track&quot;.
-          </div>
-        ) : (
-          sortedTracks.map(track => (
-            <TrackRow
-              key={track.id}
-              track={track}
-              objectName={getObjectName(track.objectId)}
-              duration={duration}
-              isCamera={isCameraTrack(track)}
-              onRemove={removeTrack}
-              onKeyframeClick={handleKeyframeClick}
-              onKeyframeRightClick={handleKeyframeRightClick}
-              onTrackDoubleClick={handleTrackDoubleClick}
-            />
-          ))
-        )}
+          {/* Track rows */}
+          {sortedTracks.length === 0 ? (
+            <div className="flex items-center justify-center h-16 text-xs text-dust-500">
+              No tracks. Click &quot;Capture Keyframe&quot; or select an object and click &quot;+ Add Track&quot;.
+            </div>
+          ) : (
+            sortedTracks.map(track => (
+              <TrackRow
+                key={track.id}
+                track={track}
+                objectName={getObjectName(track.objectId)}
+                duration={duration}
+                isCamera={isCameraTrack(track)}
+                onRemove={removeTrack}
+                onKeyframeClick={handleKeyframeClick}
+                onKeyframeRightClick={handleKeyframeRightClick}
+                onTrackDoubleClick={handleTrackDoubleClick}
+              />
+            ))
+          )}
+
+          {/* Playhead */}
+          <PlayheadLine
+            percent={playheadPercent}
+            labelWidth={TRACK_LABEL_WIDTH}
+            isDragging={isDragging}
+          />
 
-        {/* Playhead */}
-        <PlayheadLine
-          percent={playheadPercent}
-          labelWidth={TRACK_LABEL_WIDTH}
-          isDragging={isDragging}
-        />
-
-        {/* Curves editor popup */}
-        {curveEditor && (
-          <div style={{ position: 'fixed', left: curveEditor.x - 128, top: curveEditor.y - 320, zIndex: 100 }}>
-            <AnimationCurvesEditor
-              trackId={curveEditor.trackId}
-              keyframeId={curveEditor.keyframeId}
-              onClose={() => setCurveEditor(null)}
-            />
-          </div>
-        )}
-      </div>
+          {/* Curves editor popup */}
+          {curveEditor && (
+            <div style={{ position: 'fixed', left: curveEditor.x - 128, top: curveEditor.y - 420, zIndex: 100 }}>
+              <AnimationCurvesEditor
+                trackId={curveEditor.trackId}
+                keyframeId={curveEditor.keyframeId}
+                onClose={() => setCurveEditor(null)}
+              />
+            </div>
+          )}
+        </div>
+      )}
     </div>
   )
 }
@@ -512,7 +576,7 @@ function TrackRow({
     [track.id, onRemove],
   )
 
-  // For camera tracks, deduplicate diamonds by time (cameraPosition+cameraTarget come in pairs)
+  // For camera tracks, deduplicate diamonds by time (position, target, lens and focus keys come together)
   const displayKeyframes = useMemo(() => {
     if (!isCamera) return track.keyframes
 
@@ -573,7 +637,7 @@ function TrackRow({
               style={{ left: `${pct}%`, fontSize: 14, padding: '2px 4px' }}
               title={isCamera
                 ? `Camera @ ${kf.time.toFixed(2)}s - Click: edit easing, Right-click: delete`
-                : `${kf.property} @ ${kf.time.toFixed(2)}s (${kf.easing}) - Click: edit easing, Right-click: delete`
+                : `${kf.property}${kf.channel ? `.${kf.channel}` : ''} @ ${kf.time.toFixed(2)}s (${kf.easing}) - Click: edit easing, Right-click: delete`
               }
               onClick={e => { e.stopPropagation(); onKeyframeClick(track.id, kf.id, e.nativeEvent) }}
               onContextMenu={e => onKeyframeRightClick(track.id, kf.id, e.nativeEvent)}
@@ -1,15 +1,23 @@
 import { useCallback, useRef, useEffect } from 'react'
-import { useUIStore } from '../stores/useUIStore'
+import { useUIStore, type BottomPanelTab } from '../stores/useUIStore'
 import { AnimationTimeline } from './AnimationTimeline'
+import { SequenceEditor } from './SequenceEditor'
 
 const MIN_HEIGHT = 120
 const MAX_HEIGHT = 500
 
+const PANEL_TABS: { id: BottomPanelTab; label: string }[] = [
+  { id: 'timeline', label: 'Animation Timeline' },
+  { id: 'sequence', label: 'Sequence' },
+]
+
 export function BottomPanel() {
   const panelHeight = useUIStore(s => s.bottomPanelHeight)
   const setPanelHeight = useUIStore(s => s.setBottomPanelHeight)
   const collapsed = useUIStore(s => s.bottomPanelCollapsed)
   const setCollapsed = useUIStore(s => s.setBottomPanelCollapsed)
+  const activeTab = useUIStore(s => s.bottomPanelTab)
+  const setActiveTab = useUIStore(s => s.setBottomPanelTab)
 
   const dragStartY = useRef(0)
   const dragStartHeight = useRef(0)
@@ -64,27 +72,47 @@ export function BottomPanel() {
         />
       )}
 
-      {/* Header bar — entire bar is clickable to toggle */}
-      <button
-        onClick={() => setCollapsed(!collapsed)}
-        className="flex items-center w-full border-b border-dust-600/25 shrink-0 hover:bg-dust-600/20 transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-rust-500/60 cursor-pointer"
-        aria-label={collapsed ? 'Expand timeline' : 'Collapse timeline'}
-        aria-expanded={!collapsed}
-      >
-        <span className="px-4 py-2 text-[11px] uppercase tracking-[0.12em] font-semibold text-sand-100 flex items-center gap-1.5 label-engraved">
-          <span className="text-[10px]" aria-hidden="true">{collapsed ? '\u25B6' : '\u25BC'}</span>
-          Animation Timeline
-        </span>
-        <div className="flex-1" />
-        <span className="px-2 py-1.5 text-[10px] text-dust-400">
-          {collapsed ? '\u25B2' : '\u25BC'}
-        </span>
-      </button>
+      {/* Header bar — tabs switch (and expand) the panel, the rest of the bar toggles it */}
+      <div className="flex items-center w-full border-b border-dust-600/25 shrink-0">
+        <div className="flex items-center" role="tablist" aria-label="Bottom panel">
+          {PANEL_TABS.map(tab => (
+            <button
+              key={tab.id}
+              role="tab"
+              aria-selected={activeTab === tab.id}
+              aria-controls={`bottom-tabpanel-${tab.id}`}
+              onClick={() => setActiveTab(tab.id)}
+              className={`px-4 py-2 text-[11px] uppercase tracking-[0.12em] font-semibold label-engraved transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-rust-500/60 ${
+                activeTab === tab.id && !collapsed
+                  ? 'text-sand-100 bg-dust-600/20'
+                  : 'text-dust-400 hover:text-sand-200 hover:bg-dust-600/20'
+              }`}
+            >
+              {tab.label}
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => setCollapsed(!collapsed)}
+          className="flex-1 flex justify-end self-stretch hover:bg-dust-600/20 transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-rust-500/60 cursor-pointer"
+          aria-label={collapsed ? 'Expand bottom panel' : 'Collapse bottom panel'}
+          aria-expanded={!collapsed}
+        >
+          <span className="px-2 py-1.5 text-[10px] text-dust-400">
+            {collapsed ? '\u25B2' : '\u25BC'}
+          </span>
+        </button>
+      </div>
 
       {/* Panel content */}
       {!collapsed && (
-        <div style={{ height: panelHeight }} className="overflow-hidden">
-          <AnimationTimeline />
+        <div
+          role="tabpanel"
+          id={`bottom-tabpanel-${activeTab}`}
+          style={{ height: panelHeight }}
+          className="overflow-hidden"
+        >
+          {activeTab === 'sequence' ? <SequenceEditor /> : <AnimationTimeline />}
         </div>
       )}
     </div>
@@ -0,0 +1,60 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { CameraLensPanel } from './CameraLensPanel'
+import { useCameraStore } from '../stores/useCameraStore'
+import { useSceneStore } from '../stores/useSceneStore'
+import { createDefaultLens } from '../core/lens'
+import { createDefaultFocus } from '../core/focus'
+import { createSceneObject } from '../core/sceneOperations'
+
+describe('CameraLensPanel', () => {
+  beforeEach(() => {
+    useCameraStore.setState({ lens: createDefaultLens(), focus: createDefaultFocus(), focusPicking: false })
+    useSceneStore.setState({ objects: [] })
+  })
+
+  it('picks an aperture', async () => {
+    const user = userEvent.setup()
+    render(<CameraLensPanel />)
+
+    const group = screen.getByRole('group', { name: 'Apertures' })
+    expect(group.querySelector('[aria-pressed="true"]')).toHaveTextContent('f/2.8')
+
+    await user.click(screen.getByRole('button', { name: 'f/1.4' }))
+    expect(useCameraStore.getState().focus.fStop).toBe(1.4)
+  })
+
+  it('turning the focus knob pulls focus manually', () => {
+    useCameraStore.getState().setFocus({ targetId: 'hero' })
+    render(<CameraLensPanel />)
+
+    fireEvent.keyDown(screen.getByRole('slider', { name: 'Focus distance' }), { key: 'ArrowUp' })
+    expect(useCameraStore.getState().focus).toEqual({ distance: 5.1, fStop: 2.8, targetId: null })
+  })
+
+  it('focuses on an object chosen from the list', async () => {
+    const user = userEvent.setup()
+    const box = { ...createSceneObject('box', []), name: 'Hero Box' }
+    useSceneStore.setState({ objects: [box] })
+    render(<CameraLensPanel />)
+
+    await user.selectOptions(screen.getByLabelText('Focus target'), box.id)
+    expect(useCameraStore.getState().focus.targetId).toBe(box.id)
+    expect(screen.getByText('Tracking Hero Box at f/2.8')).toBeInTheDocument()
+
+    await user.selectOptions(screen.getByLabelText('Focus target'), '')
+    expect(useCameraStore.getState().focus.targetId).toBeNull()
+  })
+
+  it('arms the viewport focus picker', async () => {
+    const user = userEvent.setup()
+    render(<CameraLensPanel />)
+
+    const pick = screen.getByRole('button', { name: 'Pick focus target in viewport' })
+    await user.click(pick)
+    expect(useCameraStore.getState().focusPicking).toBe(true)
+    expect(pick).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByText('Click an object in the viewport')).toBeInTheDocument()
+  })
+})
@@ -0,0 +1,118 @@
+import { useCameraStore } from '../stores/useCameraStore'
+import { useSceneStore } from '../stores/useSceneStore'
+import { CollapsibleSection } from './ui/CollapsibleSection'
+import { LensSettings } from './ui/LensSettings'
+import { RotaryKnob } from './ui/RotaryKnob'
+import { F_STOPS, MIN_FOCUS_DISTANCE, formatFStop, getDepthOfField } from '../core/focus'
+
+/** Upper end of the focus knob; typed or keyed distances can go further */
+const FOCUS_KNOB_MAX = 100
+
+function formatDistance(metres: number): string {
+  return Number.isFinite(metres) ? `${metres.toFixed(2)} m` : '∞'
+}
+
+/** Focus distance, aperture and the focus-on-object picker */
+function FocusControls() {
+  const lens = useCameraStore(s => s.lens)
+  const focus = useCameraStore(s => s.focus)
+  const focusPicking = useCameraStore(s => s.focusPicking)
+  const setFocus = useCameraStore(s => s.setFocus)
+  const setFocusPicking = useCameraStore(s => s.setFocusPicking)
+  const objects = useSceneStore(s => s.objects)
+
+  const target = focus.targetId ? objects.find(o => o.id === focus.targetId) : undefined
+  const limits = getDepthOfField(lens, focus.distance, focus.fStop)
+
+  return (
+    <>
+      <div className="grid grid-cols-9 gap-0.5 mb-2" role="group" aria-label="Apertures">
+        {F_STOPS.map(stop => {
+          const active = focus.fStop === stop
+          return (
+            <button
+              key={stop}
+              onClick={() => setFocus({ fStop: stop })}
+              aria-pressed={active}
+              className={`py-1 rounded text-[8px] font-mono transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500/50 ${
+                active ? 'bg-rust-500/20 text-rust-300' : 'text-dust-400 hover:bg-dust-600/40'
+              }`}
+            >
+              {formatFStop(stop)}
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center justify-around gap-1 mb-2">
+        <RotaryKnob
+          value={focus.distance}
+          onChange={v => setFocus({ distance: v, targetId: null })}
+          label="Focus"
+          aria-label="Focus distance"
+          size="sm"
+          min={MIN_FOCUS_DISTANCE}
+          max={FOCUS_KNOB_MAX}
+          step={0.1}
+          precision={1}
+          unit="m"
+          accent="cyan"
+        />
+      </div>
+
+      <div className="mb-1">
+        <label htmlFor="viewport-focus-target" className="text-[10px] text-dust-300 mb-1 block font-medium">
+          Focus target
+        </label>
+        <div className="flex gap-1">
+          <select
+            id="viewport-focus-target"
+            value={target?.id ?? ''}
+            onChange={e => setFocus({ targetId: e.target.value || null })}
+            className="flex-1 min-w-0 bg-dust-900/80 border border-dust-600/50 rounded px-2 py-1 text-[11px] text-sand-200 hover:border-dust-500/70 focus:border-rust-500/50 focus:ring-1 focus:ring-rust-500/20 focus:outline-none transition-all duration-150"
+          >
+            <option value="">None (manual distance)</option>
+            {objects.map(o => (
+              <option key={o.id} value={o.id}>{o.name}</option>
+            ))}
+          </select>
+          <button
+            onClick={() => setFocusPicking(!focusPicking)}
+            aria-pressed={focusPicking}
+            aria-label="Pick focus target in viewport"
+            title="Click an object in the viewport to focus on it"
+            className={`px-2 rounded text-[10px] transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500/50 ${
+              focusPicking ? 'bg-rust-500/20 text-rust-300' : 'text-dust-400 hover:bg-dust-600/40'
+            }`}
+          >
+            Pick
+          </button>
+        </div>
+      </div>
+      <p className="text-[9px] text-dust-500 font-mono">
+        {focusPicking
+          ? 'Click an object in the viewport'
+          : target
+            ? `Tracking ${target.name} at ${formatFStop(focus.fStop)}`
+            : `Sharp ${formatDistance(limits.near)} – ${formatDistance(limits.far)}`}
+      </p>
+    </>
+  )
+}
+
+/** Lens and focus on the viewport camera; captured shots and path points inherit them */
+export function CameraLensPanel() {
+  const lens = useCameraStore(s => s.lens)
+  const setLens = useCameraStore(s => s.setLens)
+
+  return (
+    <CollapsibleSection title="Camera Lens" variant="primary" defaultOpen>
+      <div className="p-3">
+        <LensSettings lens={lens} onChange={setLens} idPrefix="viewport-lens" />
+        <div className="mt-3 pt-3 border-t border-dust-600/25">
+          <FocusControls />
+        </div>
+      </div>
+    </CollapsibleSection>
+  )
+}
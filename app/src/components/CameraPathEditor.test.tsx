@@ -616,6 +616,22 @@ describe('CameraPathEditor', () => {
       expect(knob).toHaveAttribute('aria-valuemax', '1')
     })
 
+    it('edits the point lens in millimetres, sensor and roll', async () => {
+      const user = userEvent.setup()
+      const { pathId, ptId } = setupSelectedPoint()
+
+      render(<CameraPathEditor />)
+
+      expect(screen.getByRole('slider', { name: 'Focal length' })).toHaveAttribute('aria-valuenow', '24')
+      await user.click(screen.getByRole('button', { name: '85mm' }))
+      fireEvent.keyDown(screen.getByRole('slider', { name: 'Dutch roll' }), { key: 'ArrowUp' })
+      await user.selectOptions(screen.getByLabelText('Sensor'), 'alexa-lf')
+
+      const point = useCameraPathStore.getState().getPoint(pathId, ptId)
+      expect(point?.lens).toEqual({ focalLength: 85, sensor: 'alexa-lf', roll: 0.5 })
+      expect(screen.getByRole('button', { name: '85mm' })).toHaveAttribute('aria-pressed', 'true')
+    })
+
     it('time knob max matches path duration', () => {
       const pathId = addPath()
       useCameraPathStore.getState().updatePath(pathId, { duration: 20 })
@@ -3,6 +3,8 @@ import { useCameraPathStore } from '../stores/useCameraPathStore'
 import { CollapsibleSection } from './ui/CollapsibleSection'
 import { RotaryKnob } from './ui/RotaryKnob'
 import { Vec3KnobGroup } from './ui/Vec3KnobGroup'
+import { LensSettings } from './ui/LensSettings'
+import { createDefaultLens } from '../core/lens'
 import type { CameraPathEasing } from '../types/cameraPath'
 import type { Vec3 } from '../types/scene'
 
@@ -431,6 +433,13 @@ export function CameraPathEditor() {
                     accent="rust"
                   />
                 </div>
+                <LensSettings
+                  lens={selectedPoint.lens ?? createDefaultLens()}
+                  onChange={updates => updatePoint(activePath.id, selectedPoint.id, {
+                    lens: { ...(selectedPoint.lens ?? createDefaultLens()), ...updates },
+                  })}
+                  idPrefix="path-point-lens"
+                />
               </CollapsibleSection>
             )}
           </>
@@ -1,15 +1,17 @@
-import { render, screen, fireEvent } from '@testing-library/react'
+import { render, screen, fireEvent, waitFor } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
 import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { CloudSaveModal } from './CloudSaveModal'
 import { useStorageStore } from '../stores/useStorageStore'
 import { useSceneStore } from '../stores/useSceneStore'
+import { sceneStorage } from '../core/sceneStorage'
 
 describe('CloudSaveModal', () => {
   const onClose = vi.fn()
 
-  beforeEach(() => {
+  beforeEach(async () => {
     onClose.mockReset()
+    await sceneStorage.adapter.clear()
     useStorageStore.getState().clearAll()
     useSceneStore.setState({
       objects: [],
@@ -148,4 +150,68 @@ describe('CloudSaveModal', () => {
       expect(loadBtn).toBeDisabled()
     }
   })
+
+  it('Save to Cloud persists the scene through the storage adapter', async () => {
+    const user = userEvent.setup()
+    useSceneStore.getState().addObject('box')
+    render(<CloudSaveModal isOpen={true} onClose={onClose} />)
+
+    await user.clear(screen.getByLabelText('Scene Name'))
+    await user.type(screen.getByLabelText('Scene Name'), 'Mesa')
+    await user.click(screen.getByRole('button', { name: 'Save to Cloud' }))
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled())
+    const saved = await sceneStorage.adapter.list()
+    expect(saved).toHaveLength(1)
+    expect(saved[0].name).toBe('Mesa')
+    expect(useStorageStore.getState().scenes).toEqual(saved)
+    expect(useStorageStore.getState().activeSceneId).toBe(saved[0].id)
+  })
+
+  it('Load Scene restores the selected saved scene', async () => {
+    const user = userEvent.setup()
+    useSceneStore.getState().addObject('box')
+    useSceneStore.getState().addObject('sphere')
+    await sceneStorage.save({ name: 'Mesa' })
+    useSceneStore.getState().clearScene()
+
+    render(<CloudSaveModal isOpen={true} onClose={onClose} />)
+    await user.click(screen.getByRole('tab', { name: 'Load' }))
+    await user.click(screen.getByRole('option', { name: /Mesa/ }))
+    await user.click(screen.getByRole('button', { name: 'Load selected scene' }))
+
+    await waitFor(() => expect(onClose).toHaveBeenCalled())
+    expect(useSceneStore.getState().objects.map(o => o.type)).toEqual(['box', 'sphere'])
+  })
+
+  it('deleting a scene removes it from storage', async () => {
+    const user = userEvent.setup()
+    useSceneStore.getState().addObject('box')
+    await sceneStorage.save({ name: 'Mesa' })
+
+    render(<CloudSaveModal isOpen={true} onClose={onClose} />)
+    await user.click(screen.getByRole('tab', { name: 'Load' }))
+    await user.click(screen.getByRole('button', { name: 'Delete Mesa' }))
+
+    await waitFor(() => expect(screen.getByText('No saved scenes yet')).toBeInTheDocument())
+    expect(await sceneStorage.adapter.list()).toEqual([])
+  })
+
+  it('pre-fills the name of the active scene', () => {
+    useStorageStore.getState().addScene({
+      id: 'scene_1',
+      name: 'Ghost Town',
+      createdAt: '2026-01-01T00:00:00.000Z',
+      updatedAt: '2026-01-01T00:00:00.000Z',
+      version: 3,
+      fileSize: 100,
+      objectCount: 1,
+      tags: ['night'],
+    })
+    useStorageStore.getState().setActiveScene('scene_1')
+
+    render(<CloudSaveModal isOpen={true} onClose={onClose} />)
+    expect(screen.getByLabelText('Scene Name')).toHaveValue('Ghost Town')
+    expect(screen.getByLabelText(/Tags/)).toHaveValue('night')
+  })
 })
@@ -1,6 +1,7 @@
 import { useState, useEffect, useRef, useCallback } from 'react'
 import { useStorageStore } from '../stores/useStorageStore'
 import { useSceneStore } from '../stores/useSceneStore'
+import { sceneStorage } from '../core/sceneStorage'
 import type { SceneSortField, SortDirection } from '../types/storage'
 
 interface CloudSaveModalProps {
@@ -45,6 +46,8 @@ export function CloudSaveModal({ isOpen, onClose }: CloudSaveModalProps) {
   const [description, setDescription] = useState('')
   const [selectedSceneId, setSelectedSceneId] = useState<string | null>(null)
   const [sortDirection, setSortDirection] = useState<SortDirection>('desc')
+  const [busy, setBusy] = useState(false)
+  const [storageError, setStorageError] = useState<string | null>(null)
   const backdropRef = useRef<HTMLDivElement>(null)
   const closeButtonRef = useRef<HTMLButtonElement>(null)
 
@@ -53,13 +56,9 @@ export function CloudSaveModal({ isOpen, onClose }: CloudSaveModalProps) {
   const setFilter = useStorageStore(s => s.setFilter)
   const clearFilter = useStorageStore(s => s.clearFilter)
   const getFilteredScenes = useStorageStore(s => s.getFilteredScenes)
-  const removeScene = useStorageStore(s => s.removeScene)
-  const addScene = useStorageStore(s => s.addScene)
   const setSaveStatus = useStorageStore(s => s.setSaveStatus)
-  const setLastSavedAt = useStorageStore(s => s.setLastSavedAt)
 
   const objects = useSceneStore(s => s.objects)
-  const saveScene = useSceneStore(s => s.saveScene)
 
   const filteredScenes = getFilteredScenes()
 
@@ -69,7 +68,16 @@ export function CloudSaveModal({ isOpen, onClose }: CloudSaveModalProps) {
       setActiveTab('save')
       setTags('')
       setSelectedSceneId(null)
+      setStorageError(null)
       clearFilter()
+
+      // Default to overwriting the scene that is currently open
+      const { activeSceneId, getScene } = useStorageStore.getState()
+      const active = activeSceneId ? getScene(activeSceneId) : undefined
+      if (active) {
+        setSceneName(active.name)
+        setTags(active.tags.join(', '))
+      }
     }
   }, [isOpen, clearFilter])
 
@@ -124,35 +132,58 @@ export function CloudSaveModal({ isOpen, onClose }: CloudSaveModalProps) {
     }
   }, [sortDirection, filter.sortBy, setFilter])
 
-  const handleSave = useCallback(() => {
+  const handleSave = useCallback(async () => {
     const trimmedName = sceneName.trim() || 'Untitled Scene'
-    const sceneData = saveScene(trimmedName)
     const tagList = tags.split(',').map(t => t.trim()).filter(Boolean)
-    const now = new Date().toISOString()
-    const id = `scene_${Date.now()}`
-
-    addScene({
-      id,
-      name: trimmedName,
-      createdAt: now,
-      updatedAt: now,
-      version: sceneData.metadata.version,
-      fileSize: JSON.stringify(sceneData).length,
-      objectCount: objects.length,
-      tags: tagList,
-    })
-
-    setSaveStatus('saved')
-    setLastSavedAt(now)
-    onClose()
-  }, [sceneName, tags, saveScene, addScene, objects.length, setSaveStatus, setLastSavedAt, onClose])
-
-  const handleDelete = useCallback((sceneId: string) => {
-    removeScene(sceneId)
+    const { activeSceneId, getScene } = useStorageStore.getState()
+    const active = activeSceneId ? getScene(activeSceneId) : undefined
+
+    setBusy(true)
+    setStorageError(null)
+    setSaveStatus('saving')
+    try {
+      await sceneStorage.save({
+        name: trimmedName,
+        tags: tagList,
+        overwriteId: active?.name === trimmedName ? active.id : null,
+      })
+      onClose()
+    } catch (err) {
+      console.error('Failed to save scene:', err)
+      setSaveStatus('error')
+      setStorageError(err instanceof Error ? err.message : 'Failed to save scene')
+    } finally {
+      setBusy(false)
+    }
+  }, [sceneName, tags, setSaveStatus, onClose])
+
+  const handleLoad = useCallback(async () => {
+    if (!selectedSceneId) return
+
+    setBusy(true)
+    setStorageError(null)
+    try {
+      await sceneStorage.load(selectedSceneId)
+      onClose()
+    } catch (err) {
+      console.error('Failed to load scene:', err)
+      setStorageError(err instanceof Error ? err.message : 'Failed to load scene')
+    } finally {
+      setBusy(false)
+    }
+  }, [selectedSceneId, onClose])
+
+  const handleDelete = useCallback(async (sceneId: string) => {
     if (selectedSceneId === sceneId) {
       setSelectedSceneId(null)
     }
-  }, [removeScene, selectedSceneId])
+    try {
+      await sceneStorage.remove(sceneId)
+    } catch (err) {
+      console.error('Failed to delete scene:', err)
+      setStorageError(err instanceof Error ? err.message : 'Failed to delete scene')
+    }
+  }, [selectedSceneId])
 
   if (!isOpen) return null
 
@@ -204,6 +235,12 @@ export function CloudSaveModal({ isOpen, onClose }: CloudSaveModalProps) {
           ))}
         </div>
 
+        {storageError && (
+          <p role="alert" className="px-5 pt-3 text-[11px] text-red-400">
+            {storageError}
+          </p>
+        )}
+
         {/* Save Panel */}
         {activeTab === 'save' && (
           <div role="tabpanel" className="px-5 py-4 space-y-3">
@@ -267,7 +304,7 @@ export function CloudSaveModal({ isOpen, onClose }: CloudSaveModalProps) {
 
             <button
               onClick={handleSave}
-              disabled={objects.length === 0}
+              disabled={objects.length === 0 || busy}
               className="w-full px-3 py-2 text-[12px] font-semibold text-white bg-rust-500/90 rounded hover:bg-rust-500 disabled:opacity-30 disabled:cursor-not-allowed transition-all duration-150 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500/60"
               style={{ boxShadow: '0 0 8px rgba(255,255,255,0.04)' }}
             >
@@ -419,7 +456,8 @@ export function CloudSaveModal({ isOpen, onClose }: CloudSaveModalProps) {
                 {filteredScenes.length} of {scenes.length} scene{scenes.length !== 1 ? 's' : ''}
               </span>
               <button
-                disabled={!selectedSceneId}
+                onClick={handleLoad}
+                disabled={!selectedSceneId || busy}
                 className="px-3 py-1.5 text-[11px] font-medium text-sand-200 bg-rust-500/80 rounded hover:bg-rust-500 disabled:opacity-30 disabled:cursor-not-allowed transition-all duration-150 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500/50"
                 aria-label="Load selected scene"
               >
@@ -0,0 +1,117 @@
+import { render, screen, cleanup } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
+import { CollaborationPanel } from './CollaborationPanel'
+import { useCollaborationStore } from '../stores/useCollaborationStore'
+import { joinRoom, leaveRoom } from '../core/collaboration'
+import { createFakeSocketFactory } from '../test/fakeSocket'
+
+describe('CollaborationPanel', () => {
+  beforeEach(() => {
+    useCollaborationStore.getState().reset()
+  })
+
+  afterEach(() => {
+    cleanup()
+    leaveRoom()
+  })
+
+  it('shows the join form while offline', () => {
+    render(<CollaborationPanel />)
+    expect(screen.getByRole('status')).toHaveTextContent('Offline')
+    expect(screen.getByRole('form', { name: 'Join room' })).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Join Room' })).toBeDisabled()
+  })
+
+  it('rejects room names the server would refuse', async () => {
+    const user = userEvent.setup()
+    render(<CollaborationPanel />)
+
+    await user.type(screen.getByRole('textbox', { name: 'Room' }), 'my room')
+    await user.click(screen.getByRole('button', { name: 'Join Room' }))
+
+    expect(screen.getByRole('alert')).toHaveTextContent('Room names may only contain')
+    expect(useCollaborationStore.getState().status).toBe('disconnected')
+  })
+
+  it('lists connected peers and the host', () => {
+    const { factory, sockets } = createFakeSocketFactory()
+    const session = joinRoom({ serverUrl: 'ws://localhost:8787', roomId: 'canyon', userName: 'Alice', createSocket: factory })
+    sockets[0].open()
+    sockets[0].receive('joined', session.client.peerId, {
+      isHost: false,
+      peers: [{ peerId: 'host', userName: 'Hana', isHost: true }],
+      hostPeerId: 'host',
+    })
+
+    render(<CollaborationPanel />)
+
+    expect(screen.getByRole('status')).toHaveTextContent('Connected')
+    expect(screen.getByRole('status')).toHaveTextContent('canyon')
+    const list = screen.getByRole('list', { name: 'Connected peers' })
+    expect(list).toHaveTextContent('Alice (you)')
+    expect(list).toHaveTextContent('Hana')
+    expect(list).toHaveTextContent('Host')
+  })
+
+  it('marks viewers as view only', () => {
+    const { factory, sockets } = createFakeSocketFactory()
+    const session = joinRoom({ serverUrl: 'ws://localhost:8787', roomId: 'canyon', userName: 'Alice', createSocket: factory })
+    sockets[0].open()
+    sockets[0].receive('joined', session.client.peerId, {
+      isHost: false,
+      peers: [{ peerId: 'host', userName: 'Hana', isHost: true, role: 'owner' }],
+      hostPeerId: 'host',
+      role: 'viewer',
+    })
+
+    render(<CollaborationPanel />)
+
+    expect(screen.getByText(/View only/)).toBeInTheDocument()
+    const list = screen.getByRole('list', { name: 'Connected peers' })
+    expect(list).toHaveTextContent('Viewer')
+    expect(list).toHaveTextContent('Owner')
+  })
+
+  it('follows a peer that shares a camera', async () => {
+    const user = userEvent.setup()
+    const { factory, sockets } = createFakeSocketFactory()
+    const session = joinRoom({ serverUrl: 'ws://localhost:8787', roomId: 'canyon', userName: 'Alice', createSocket: factory })
+    sockets[0].open()
+    sockets[0].receive('joined', session.client.peerId, {
+      isHost: true,
+      peers: [{ peerId: 'p2', userName: 'Hana', isHost: false }, { peerId: 'p3', userName: 'Bo', isHost: false }],
+      hostPeerId: session.client.peerId,
+    })
+    sockets[0].receive('presence', 'p2', {
+      userName: 'Hana',
+      selectedIds: [],
+      camera: { position: { x: 1, y: 2, z: 3 }, target: { x: 0, y: 0, z: 0 }, fov: 50, aspect: 1 },
+    })
+    render(<CollaborationPanel />)
+
+    expect(screen.getByRole('button', { name: 'Follow Bo' })).toBeDisabled()
+    const follow = screen.getByRole('button', { name: 'Follow Hana' })
+    await user.click(follow)
+    expect(follow).toHaveAttribute('aria-pressed', 'true')
+    expect(useCollaborationStore.getState().followPeerId).toBe('p2')
+
+    await user.click(follow)
+    expect(useCollaborationStore.getState().followPeerId).toBeNull()
+  })
+
+  it('leaves the room', async () => {
+    const user = userEvent.setup()
+    const { factory, sockets } = createFakeSocketFactory()
+    const session = joinRoom({ serverUrl: 'ws://localhost:8787', roomId: 'canyon', userName: 'Alice', createSocket: factory })
+    sockets[0].open()
+    sockets[0].receive('joined', session.client.peerId, { isHost: true, peers: [], hostPeerId: session.client.peerId })
+    render(<CollaborationPanel />)
+
+    await user.click(screen.getByRole('button', { name: 'Leave Room' }))
+
+    expect(sockets[0].sentOfType('leave')).toHaveLength(1)
+    expect(screen.getByRole('status')).toHaveTextContent('Offline')
+    expect(screen.getByRole('form', { name: 'Join room' })).toBeInTheDocument()
+  })
+})
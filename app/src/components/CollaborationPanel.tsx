@@ -0,0 +1,217 @@
+import { useState, useCallback, type FormEvent } from 'react'
+import { useCollaborationStore } from '../stores/useCollaborationStore'
+import { joinRoom, leaveRoom } from '../core/collaboration'
+import { isValidRoomId } from '../core/wsClient'
+import { getPeerColor } from '../core/presence'
+import type { CollabRole, ConnectionStatus } from '../types/collaboration'
+import { CollapsibleSection } from './ui/CollapsibleSection'
+
+const STATUS_LABELS: Record<ConnectionStatus, string> = {
+  disconnected: 'Offline',
+  connecting: 'Connecting...',
+  connected: 'Connected',
+  reconnecting: 'Reconnecting...',
+  error: 'Connection failed',
+}
+
+const STATUS_COLORS: Record<ConnectionStatus, string> = {
+  disconnected: 'bg-dust-500',
+  connecting: 'bg-sand-400',
+  connected: 'bg-green-500',
+  reconnecting: 'bg-sand-400',
+  error: 'bg-red-500',
+}
+
+const ROLE_LABELS: Record<CollabRole, string> = {
+  owner: 'Owner',
+  editor: 'Editor',
+  viewer: 'Viewer',
+}
+
+const inputClass = 'w-full bg-dust-700 border border-dust-600/40 rounded px-2 py-1 text-[11px] text-sand-200 placeholder-dust-500 focus:outline-none focus:ring-1 focus:ring-rust-500/60'
+
+export function CollaborationPanel() {
+  const status = useCollaborationStore(s => s.status)
+  const roomId = useCollaborationStore(s => s.roomId)
+  const peerId = useCollaborationStore(s => s.peerId)
+  const storedServerUrl = useCollaborationStore(s => s.serverUrl)
+  const storedUserName = useCollaborationStore(s => s.userName)
+  const isHost = useCollaborationStore(s => s.isHost)
+  const role = useCollaborationStore(s => s.role)
+  const peers = useCollaborationStore(s => s.peers)
+  const followPeerId = useCollaborationStore(s => s.followPeerId)
+  const setFollowPeer = useCollaborationStore(s => s.setFollowPeer)
+  const error = useCollaborationStore(s => s.error)
+
+  const [serverUrl, setServerUrl] = useState(storedServerUrl)
+  const [room, setRoom] = useState('')
+  const [userName, setUserName] = useState(storedUserName === 'Anonymous' ? '' : storedUserName)
+  const [password, setPassword] = useState('')
+  const [token, setToken] = useState('')
+  const [formError, setFormError] = useState<string | null>(null)
+
+  const inSession = status === 'connecting' || status === 'connected' || status === 'reconnecting'
+
+  const handleJoin = useCallback((e: FormEvent) => {
+    e.preventDefault()
+    const trimmedRoom = room.trim()
+    if (!isValidRoomId(trimmedRoom)) {
+      setFormError('Room names may only contain letters, numbers, - and _')
+      return
+    }
+    setFormError(null)
+    try {
+      joinRoom({
+        serverUrl: serverUrl.trim(),
+        roomId: trimmedRoom,
+        userName: userName.trim() || 'Anonymous',
+        password: password || undefined,
+        token: token.trim() || undefined,
+      })
+    } catch (err) {
+      console.error('Failed to join room:', err)
+      setFormError(err instanceof Error ? err.message : 'Failed to join room')
+    }
+  }, [room, serverUrl, userName, password, token])
+
+  return (
+    <CollapsibleSection title="Collaboration" variant="primary" defaultOpen>
+      <div className="p-3 space-y-3">
+        {/* Status */}
+        <div className="flex items-center gap-2" role="status" aria-live="polite">
+          <span className={`w-2 h-2 rounded-full shrink-0 ${STATUS_COLORS[status]}`} aria-hidden="true" />
+          <span className="text-[11px] text-dust-300">
+            {STATUS_LABELS[status]}
+            {roomId && inSession && <span className="text-dust-500"> &middot; {roomId}</span>}
+          </span>
+        </div>
+
+        {(error || formError) && (
+          <p role="alert" className="text-[11px] text-red-400">{formError ?? error}</p>
+        )}
+
+        {inSession ? (
+          <>
+            {role === 'viewer' && (
+              <p className="text-[11px] text-sand-400">View only &mdash; your changes are not shared with the room.</p>
+            )}
+
+            {/* Peer list */}
+            <div>
+              <h3 className="text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1">
+                Peers ({peers.length + 1})
+              </h3>
+              <ul aria-label="Connected peers" className="space-y-1">
+                <li className="flex items-center gap-2 px-2 py-1 rounded bg-rust-500/10 text-[11px] text-sand-100">
+                  <span className="flex-1 truncate">{storedUserName} (you)</span>
+                  {role && <span className="text-[9px] uppercase tracking-wider text-dust-400">{ROLE_LABELS[role]}</span>}
+                  {isHost && <span className="text-[9px] uppercase tracking-wider text-rust-400">Host</span>}
+                </li>
+                {peers.filter(p => p.peerId !== peerId).map(peer => (
+                  <li key={peer.peerId} className="flex items-center gap-2 px-2 py-1 rounded text-[11px] text-dust-300">
+                    <span
+                      className="w-2 h-2 rounded-full shrink-0"
+                      style={{ background: getPeerColor(peer.peerId) }}
+                      aria-hidden="true"
+                    />
+                    <span className="flex-1 truncate">{peer.userName}</span>
+                    {peer.role && <span className="text-[9px] uppercase tracking-wider text-dust-400">{ROLE_LABELS[peer.role]}</span>}
+                    {peer.isHost && <span className="text-[9px] uppercase tracking-wider text-rust-400">Host</span>}
+                    <button
+                      onClick={() => setFollowPeer(followPeerId === peer.peerId ? null : peer.peerId)}
+                      disabled={!peer.camera}
+                      aria-pressed={followPeerId === peer.peerId}
+                      aria-label={`Follow ${peer.userName}`}
+                      title={peer.camera ? "Follow this peer's view" : 'No camera shared yet'}
+                      className={`text-[9px] uppercase tracking-wider rounded-sm disabled:opacity-30 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500/60 ${
+                        followPeerId === peer.peerId ? 'text-rust-400' : 'text-dust-500 hover:text-dust-300'
+                      }`}
+                    >
+                      Follow
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+
+            <button
+              onClick={leaveRoom}
+              className="w-full px-3 py-2 text-[11px] font-semibold uppercase tracking-[0.12em] btn-glass text-red-400 rounded focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500/60"
+            >
+              Leave Room
+            </button>
+          </>
+        ) : (
+          <form onSubmit={handleJoin} className="space-y-2" aria-label="Join room">
+            <label className="block space-y-1">
+              <span className="text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em]">Server</span>
+              <input
+                type="text"
+                value={serverUrl}
+                onChange={e => setServerUrl(e.target.value)}
+                className={inputClass}
+                spellCheck={false}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em]">Room</span>
+              <input
+                type="text"
+                value={room}
+                onChange={e => setRoom(e.target.value)}
+                placeholder="my-scene"
+                className={inputClass}
+                maxLength={64}
+                spellCheck={false}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em]">Your name</span>
+              <input
+                type="text"
+                value={userName}
+                onChange={e => setUserName(e.target.value)}
+                placeholder="Anonymous"
+                className={inputClass}
+                maxLength={32}
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em]">Password</span>
+              <input
+                type="password"
+                value={password}
+                onChange={e => setPassword(e.target.value)}
+                placeholder="Optional"
+                className={inputClass}
+                autoComplete="off"
+              />
+            </label>
+            <label className="block space-y-1">
+              <span className="text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em]">Join token</span>
+              <input
+                type="text"
+                value={token}
+                onChange={e => setToken(e.target.value)}
+                placeholder="Optional"
+                className={inputClass}
+                spellCheck={false}
+              />
+            </label>
+            <button
+              type="submit"
+              disabled={!room.trim() || !serverUrl.trim()}
+              className="w-full px-3 py-2 text-[11px] font-semibold uppercase tracking-[0.12em] btn-glass text-rust-400 rounded disabled:opacity-40 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500/60"
+            >
+              Join Room
+            </button>
+            <p className="text-dust-500 text-[10px]">
+              Joining replaces your scene with the room's scene. A new room starts from yours;
+              a password entered when creating a room protects it.
+            </p>
+          </form>
+        )}
+      </div>
+    </CollapsibleSection>
+  )
+}
@@ -0,0 +1,217 @@
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { DopeSheet } from './DopeSheet'
+import { useAnimationStore } from '../stores/useAnimationStore'
+import { useSceneStore } from '../stores/useSceneStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
+import { resetKeyframeIdCounter, CAMERA_TRACK_OBJECT_ID } from '../core/animation'
+
+function resetStores() {
+  useAnimationStore.setState({
+    tracks: [],
+    duration: 5,
+    currentTime: 0,
+    isPlaying: false,
+    frameRate: 24,
+    snapToFrames: true,
+    keyframeClipboard: null,
+  })
+  useSceneStore.getState().clearScene()
+  useHistoryStore.getState().clear()
+  resetKeyframeIdCounter()
+}
+
+/** Box 1 with position keys at 1s and 2s and a rotation key at 2s */
+function animateBox(): string {
+  useSceneStore.getState().addObject('box')
+  const boxId = useSceneStore.getState().objects[0].id
+  const { addTrack, addKeyframe } = useAnimationStore.getState()
+  const trackId = addTrack(boxId)
+  addKeyframe(trackId, 1, 'position', { x: 1, y: 0, z: 0 })
+  addKeyframe(trackId, 2, 'position', { x: 2, y: 0, z: 0 })
+  addKeyframe(trackId, 2, 'rotation', { x: 0, y: 1, z: 0 })
+  return boxId
+}
+
+function positionTimes(objectId: string): number[] {
+  const track = useAnimationStore.getState().getTrackForObject(objectId)
+  return track?.keyframes.filter(kf => kf.property === 'position').map(kf => kf.time) ?? []
+}
+
+/** Lay the sheet out 640px wide so lanes run 500px for 5 seconds, 100px per second */
+function layOut(sheet: HTMLElement) {
+  sheet.getBoundingClientRect = () => ({
+    left: 0, top: 0, right: 640, bottom: 300, width: 640, height: 300, x: 0, y: 0, toJSON: () => ({}),
+  })
+}
+
+describe('DopeSheet', () => {
+  beforeEach(resetStores)
+
+  it('shows a summary row per track and a row per animated property', () => {
+    animateBox()
+    render(<DopeSheet />)
+
+    expect(screen.getByText('Box 1')).toBeInTheDocument()
+    expect(screen.getByText('Position')).toBeInTheDocument()
+    expect(screen.getByText('Rotation')).toBeInTheDocument()
+    // Summary keys at 1s and 2s, plus two position keys and one rotation key
+    expect(screen.getAllByRole('button', { name: /key at frame/ })).toHaveLength(5)
+  })
+
+  it('labels camera rows by channel', () => {
+    const trackId = useAnimationStore.getState().addTrack(CAMERA_TRACK_OBJECT_ID)
+    useAnimationStore.getState().addKeyframe(trackId, 0, 'cameraTarget', { x: 0, y: 0, z: 0 })
+    render(<DopeSheet />)
+
+    expect(screen.getByText('Camera')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Camera Target key at frame 0' })).toBeInTheDocument()
+  })
+
+  it('selects a key on press and adds to the selection with shift', () => {
+    animateBox()
+    render(<DopeSheet />)
+    const first = screen.getByRole('button', { name: 'Box 1 Position key at frame 24' })
+    const second = screen.getByRole('button', { name: 'Box 1 Rotation key at frame 48' })
+
+    fireEvent.mouseDown(first, { button: 0 })
+    fireEvent.mouseUp(window)
+    expect(first).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByText('1 key')).toBeInTheDocument()
+
+    fireEvent.mouseDown(second, { button: 0, shiftKey: true })
+    fireEvent.mouseUp(window)
+    expect(screen.getByText('2 keys')).toBeInTheDocument()
+
+    fireEvent.mouseDown(first, { button: 0, shiftKey: true })
+    expect(first).toHaveAttribute('aria-pressed', 'false')
+    expect(screen.getByText('1 key')).toBeInTheDocument()
+  })
+
+  it('selects every key of the track at a time from its summary row', () => {
+    animateBox()
+    render(<DopeSheet />)
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Box 1 key at frame 48' }), { button: 0 })
+    fireEvent.mouseUp(window)
+    expect(screen.getByText('2 keys')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Box 1 Rotation key at frame 48' })).toHaveAttribute('aria-pressed', 'true')
+  })
+
+  it('box-selects keys across property rows', () => {
+    animateBox()
+    render(<DopeSheet />)
+    const sheet = screen.getByRole('region', { name: 'Dope sheet' })
+    layOut(sheet)
+
+    // From 0.5s on the position row (24px ruler + 22px summary row) to 2.5s on the rotation row
+    fireEvent.mouseDown(sheet, { button: 0, clientX: 190, clientY: 50 })
+    fireEvent.mouseMove(window, { clientX: 390, clientY: 80 })
+    fireEvent.mouseUp(window, { clientX: 390, clientY: 80 })
+
+    expect(screen.getByText('3 keys')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Box 1 Position key at frame 24' })).toHaveAttribute('aria-pressed', 'true')
+  })
+
+  it('clears the selection and moves the playhead on a click in empty sheet', () => {
+    animateBox()
+    render(<DopeSheet />)
+    const sheet = screen.getByRole('region', { name: 'Dope sheet' })
+    layOut(sheet)
+    fireEvent.keyDown(sheet, { key: 'a', ctrlKey: true })
+    expect(screen.getByText('3 keys')).toBeInTheDocument()
+
+    fireEvent.mouseDown(sheet, { button: 0, clientX: 440, clientY: 50 })
+    fireEvent.mouseUp(window, { clientX: 440, clientY: 50 })
+
+    expect(screen.getByText('0 keys')).toBeInTheDocument()
+    expect(useAnimationStore.getState().currentTime).toBe(3)
+  })
+
+  it('drags selected keys to retime them in whole frames', () => {
+    const boxId = animateBox()
+    render(<DopeSheet />)
+    layOut(screen.getByRole('region', { name: 'Dope sheet' }))
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Box 1 Position key at frame 24' }), { button: 0, clientX: 240 })
+    fireEvent.mouseMove(window, { clientX: 290 })
+    fireEvent.mouseMove(window, { clientX: 291 })
+    fireEvent.mouseUp(window, { clientX: 291 })
+
+    expect(positionTimes(boxId)).toEqual([1.5, 2])
+    expect(useHistoryStore.getState().entries.at(-1)?.label).toBe('Move keyframe')
+  })
+
+  it('nudges the selection a frame with the arrow keys', () => {
+    const boxId = animateBox()
+    useAnimationStore.getState().setFrameRate(10)
+    render(<DopeSheet />)
+    const sheet = screen.getByRole('region', { name: 'Dope sheet' })
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Box 1 Position key at frame 10' }), { button: 0 })
+    fireEvent.mouseUp(window)
+    fireEvent.keyDown(sheet, { key: 'ArrowRight' })
+    fireEvent.keyDown(sheet, { key: 'ArrowRight' })
+
+    expect(positionTimes(boxId)).toEqual([1.2, 2])
+  })
+
+  it('deletes the selection with the Delete key', () => {
+    const boxId = animateBox()
+    render(<DopeSheet />)
+    const sheet = screen.getByRole('region', { name: 'Dope sheet' })
+
+    fireEvent.keyDown(sheet, { key: 'a', ctrlKey: true })
+    fireEvent.keyDown(sheet, { key: 'Delete' })
+
+    expect(positionTimes(boxId)).toEqual([])
+    expect(screen.getByText('0 keys')).toBeInTheDocument()
+  })
+
+  it('copies keys and pastes them onto the selected object at the playhead', async () => {
+    const user = userEvent.setup()
+    animateBox()
+    useSceneStore.getState().addObject('sphere')
+    const sphereId = useSceneStore.getState().objects[1].id
+    render(<DopeSheet />)
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Box 1 Position key at frame 24' }), { button: 0 })
+    fireEvent.mouseUp(window)
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Box 1 Position key at frame 48' }), { button: 0, shiftKey: true })
+    fireEvent.mouseUp(window)
+    await user.click(screen.getByRole('button', { name: 'Copy selected keys' }))
+
+    act(() => {
+      useSceneStore.getState().selectObject(sphereId)
+      useAnimationStore.getState().setCurrentTime(3)
+    })
+    await user.click(screen.getByRole('button', { name: 'Paste keys at the playhead' }))
+
+    expect(positionTimes(sphereId)).toEqual([3, 4])
+    expect(screen.getByText('2 keys')).toBeInTheDocument()
+  })
+
+  it('scales the selection around the playhead by a percentage', async () => {
+    const user = userEvent.setup()
+    const boxId = animateBox()
+    useAnimationStore.getState().setCurrentTime(1)
+    render(<DopeSheet />)
+
+    fireEvent.keyDown(screen.getByRole('region', { name: 'Dope sheet' }), { key: 'a', ctrlKey: true })
+    await user.type(screen.getByRole('textbox', { name: /Scale selected keys/ }), '150{Enter}')
+
+    expect(positionTimes(boxId)).toEqual([1, 2.5])
+  })
+
+  it('sets the snapping frame rate and toggles snapping', async () => {
+    const user = userEvent.setup()
+    render(<DopeSheet />)
+
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Frame rate' }), '30')
+    expect(useAnimationStore.getState().frameRate).toBe(30)
+
+    await user.click(screen.getByRole('button', { name: 'Snap to frames' }))
+    expect(useAnimationStore.getState().snapToFrames).toBe(false)
+  })
+})
@@ -0,0 +1,463 @@
+import { useState, useCallback, useMemo, useRef, type MouseEvent, type KeyboardEvent } from 'react'
+import { useAnimationStore } from '../stores/useAnimationStore'
+import { useSceneStore } from '../stores/useSceneStore'
+import { sealHistory } from '../stores/useHistoryStore'
+import { CAMERA_TRACK_OBJECT_ID, ENVIRONMENT_TRACK_OBJECT_ID, isCameraTrack } from '../core/animation'
+import {
+  FRAME_RATES,
+  PROPERTY_LABELS,
+  getDopeSheetRows,
+  isKeyframeSelected,
+  selectKeyframesInBox,
+  snapToFrame,
+  type DopeSheetRow,
+  type KeyframeRef,
+} from '../core/dopeSheet'
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+const LABEL_WIDTH = 140
+const ROW_HEIGHT = 22
+const RULER_HEIGHT = 24
+
+/** Mouse travel below this is a click, not a marquee */
+const CLICK_SLOP_PX = 3
+
+/** Marquee corners in client coordinates, plus where the sheet's content started */
+interface Marquee {
+  originX: number
+  originY: number
+  x0: number
+  y0: number
+  x1: number
+  y1: number
+}
+
+/** One diamond per time on a summary row, standing for every key of the track at that time */
+function getDiamonds(row: DopeSheetRow): { time: number; keyframeIds: string[] }[] {
+  if (row.property) return row.keyframes.map(kf => ({ time: kf.time, keyframeIds: [kf.id] }))
+
+  const byTime = new Map<string, { time: number; keyframeIds: string[] }>()
+  for (const kf of row.keyframes) {
+    const key = kf.time.toFixed(4)
+    const diamond = byTime.get(key) ?? { time: kf.time, keyframeIds: [] }
+    diamond.keyframeIds.push(kf.id)
+    byTime.set(key, diamond)
+  }
+  return [...byTime.values()]
+}
+
+/** Union of two selections, or the first with the second's keys toggled */
+function combineSelection(current: KeyframeRef[], refs: KeyframeRef[], toggle: boolean): KeyframeRef[] {
+  const allSelected = refs.every(ref => isKeyframeSelected(current, ref.trackId, ref.keyframeId))
+  if (toggle && allSelected) {
+    return current.filter(ref => !isKeyframeSelected(refs, ref.trackId, ref.keyframeId))
+  }
+  return [...current, ...refs.filter(ref => !isKeyframeSelected(current, ref.trackId, ref.keyframeId))]
+}
+
+// ── Component ────────────────────────────────────────────────────────────
+
+/**
+ * Keys of every track laid out one row per property. Drag a marquee to
+ * select across rows, drag a selected key to retime the group, and use the
+ * toolbar or Ctrl+C / Ctrl+V / Delete / arrow keys on the focused sheet.
+ */
+export function DopeSheet() {
+  const [selection, setSelection] = useState<KeyframeRef[]>([])
+  const [marquee, setMarquee] = useState<Marquee | null>(null)
+  const [scaleInput, setScaleInput] = useState('')
+  const sheetRef = useRef<HTMLDivElement>(null)
+
+  const tracks = useAnimationStore(s => s.tracks)
+  const duration = useAnimationStore(s => s.duration)
+  const currentTime = useAnimationStore(s => s.currentTime)
+  const frameRate = useAnimationStore(s => s.frameRate)
+  const snapToFrames = useAnimationStore(s => s.snapToFrames)
+  const keyframeClipboard = useAnimationStore(s => s.keyframeClipboard)
+
+  const setCurrentTime = useAnimationStore(s => s.setCurrentTime)
+  const setFrameRate = useAnimationStore(s => s.setFrameRate)
+  const setSnapToFrames = useAnimationStore(s => s.setSnapToFrames)
+  const moveKeyframes = useAnimationStore(s => s.moveKeyframes)
+  const scaleKeyframes = useAnimationStore(s => s.scaleKeyframes)
+  const removeKeyframes = useAnimationStore(s => s.removeKeyframes)
+  const copyKeyframes = useAnimationStore(s => s.copyKeyframes)
+  const pasteKeyframes = useAnimationStore(s => s.pasteKeyframes)
+
+  const objects = useSceneStore(s => s.objects)
+  const selectedIds = useSceneStore(s => s.selectedIds)
+
+  // Camera first, then objects, as in the track view
+  const sortedTracks = useMemo(
+    () => [...tracks.filter(isCameraTrack), ...tracks.filter(t => !isCameraTrack(t))],
+    [tracks],
+  )
+  const rows = useMemo(() => getDopeSheetRows(sortedTracks), [sortedTracks])
+
+  // Undo or a delete elsewhere can remove selected keys; only count the ones still there
+  const liveSelection = useMemo(
+    () => selection.filter(ref =>
+      tracks.some(t => t.id === ref.trackId && t.keyframes.some(kf => kf.id === ref.keyframeId)),
+    ),
+    [selection, tracks],
+  )
+
+  const getObjectName = useCallback(
+    (objectId: string): string => {
+      if (objectId === CAMERA_TRACK_OBJECT_ID) return 'Camera'
+      if (objectId === ENVIRONMENT_TRACK_OBJECT_ID) return 'Environment'
+      return objects.find(o => o.id === objectId)?.name ?? '(deleted)'
+    },
+    [objects],
+  )
+
+  // ── Mouse position to time and row ─────────────────────────────────
+
+  const getTimeFromX = useCallback(
+    (clientX: number): number => {
+      const el = sheetRef.current
+      if (!el) return 0
+      const rect = el.getBoundingClientRect()
+      const width = rect.width - LABEL_WIDTH
+      if (width <= 0) return 0
+      const ratio = Math.max(0, Math.min(1, (clientX - rect.left - LABEL_WIDTH) / width))
+      return ratio * duration
+    },
+    [duration],
+  )
+
+  const getRowFromY = useCallback((clientY: number): number => {
+    const el = sheetRef.current
+    if (!el) return 0
+    const rect = el.getBoundingClientRect()
+    return Math.floor((clientY - rect.top + el.scrollTop - RULER_HEIGHT) / ROW_HEIGHT)
+  }, [])
+
+  // ── Marquee selection ──────────────────────────────────────────────
+
+  const handleSheetMouseDown = useCallback(
+    (e: MouseEvent) => {
+      if (e.button !== 0) return
+      const el = sheetRef.current
+      if (!el) return
+      const rect = el.getBoundingClientRect()
+      if (e.clientX - rect.left < LABEL_WIDTH) return
+
+      const start = { x: e.clientX, y: e.clientY }
+      const origin = { originX: rect.left, originY: rect.top - el.scrollTop }
+      const additive = e.shiftKey
+      setMarquee({ ...origin, x0: start.x, y0: start.y, x1: start.x, y1: start.y })
+
+      const onMouseMove = (moveEvent: globalThis.MouseEvent) => {
+        setMarquee({ ...origin, x0: start.x, y0: start.y, x1: moveEvent.clientX, y1: moveEvent.clientY })
+      }
+
+      const onMouseUp = (upEvent: globalThis.MouseEvent) => {
+        setMarquee(null)
+        window.removeEventListener('mousemove', onMouseMove)
+        window.removeEventListener('mouseup', onMouseUp)
+
+        const moved = Math.abs(upEvent.clientX - start.x) + Math.abs(upEvent.clientY - start.y)
+        if (moved < CLICK_SLOP_PX) {
+          // A click on empty sheet clears the selection and moves the playhead
+          if (!additive) setSelection([])
+          setCurrentTime(getTimeFromX(upEvent.clientX))
+          return
+        }
+
+        const boxed = selectKeyframesInBox(rows, {
+          fromTime: getTimeFromX(start.x),
+          toTime: getTimeFromX(upEvent.clientX),
+          fromRow: getRowFromY(start.y),
+          toRow: getRowFromY(upEvent.clientY),
+        })
+        setSelection(current => additive ? combineSelection(current, boxed, false) : boxed)
+      }
+
+      window.addEventListener('mousemove', onMouseMove)
+      window.addEventListener('mouseup', onMouseUp)
+    },
+    [rows, getTimeFromX, getRowFromY, setCurrentTime],
+  )
+
+  // ── Key selection and drag to retime ───────────────────────────────
+
+  const handleKeyMouseDown = useCallback(
+    (refs: KeyframeRef[], e: MouseEvent) => {
+      e.stopPropagation()
+      if (e.button !== 0) return
+      sheetRef.current?.focus()
+
+      const wasSelected = refs.every(ref => isKeyframeSelected(liveSelection, ref.trackId, ref.keyframeId))
+      let dragged: KeyframeRef[]
+      if (e.shiftKey) {
+        dragged = combineSelection(liveSelection, refs, true)
+      } else {
+        // Pressing a key of the selection drags the whole group
+        dragged = wasSelected ? liveSelection : refs
+      }
+      setSelection(dragged)
+      if (e.shiftKey && wasSelected) return
+
+      const startTime = getTimeFromX(e.clientX)
+      let applied = 0
+      sealHistory()
+
+      const onMouseMove = (moveEvent: globalThis.MouseEvent) => {
+        const { snapToFrames: snap, frameRate: fps } = useAnimationStore.getState()
+        const raw = getTimeFromX(moveEvent.clientX) - startTime
+        // Whole-frame steps keep keys that sit on frames on frames
+        const target = snap ? snapToFrame(raw, fps) : raw
+        if (target !== applied) applied += moveKeyframes(dragged, target - applied)
+      }
+
+      const onMouseUp = () => {
+        window.removeEventListener('mousemove', onMouseMove)
+        window.removeEventListener('mouseup', onMouseUp)
+      }
+
+      window.addEventListener('mousemove', onMouseMove)
+      window.addEventListener('mouseup', onMouseUp)
+    },
+    [liveSelection, getTimeFromX, moveKeyframes],
+  )
+
+  // ── Toolbar actions ────────────────────────────────────────────────
+
+  const handleCopy = useCallback(() => copyKeyframes(liveSelection), [copyKeyframes, liveSelection])
+
+  const handlePaste = useCallback(() => {
+    // Paste onto the selected objects, or back onto the keys' own objects
+    const pasted = pasteKeyframes(selectedIds)
+    if (pasted.length > 0) setSelection(pasted)
+  }, [pasteKeyframes, selectedIds])
+
+  const handleDelete = useCallback(() => {
+    removeKeyframes(liveSelection)
+    setSelection([])
+  }, [removeKeyframes, liveSelection])
+
+  const handleScaleCommit = useCallback(() => {
+    const percent = parseFloat(scaleInput)
+    if (!isNaN(percent) && percent > 0 && liveSelection.length > 0) {
+      scaleKeyframes(liveSelection, percent / 100)
+    }
+    setScaleInput('')
+  }, [scaleInput, liveSelection, scaleKeyframes])
+
+  const handleSheetKeyDown = useCallback(
+    (e: KeyboardEvent) => {
+      const mod = e.ctrlKey || e.metaKey
+      const key = e.key.toLowerCase()
+      let handled = true
+      if (mod && key === 'c') handleCopy()
+      else if (mod && key === 'v') handlePaste()
+      else if (mod && key === 'a') setSelection(selectKeyframesInBox(rows, { fromTime: 0, toTime: duration, fromRow: 0, toRow: rows.length - 1 }))
+      else if (e.key === 'Delete' || e.key === 'Backspace') handleDelete()
+      else if (e.key === 'Escape') setSelection([])
+      else if (e.key === 'ArrowLeft' || e.key === 'ArrowRight') {
+        // Nudge the selection a frame, or scrub the playhead when nothing is selected
+        const step = (e.key === 'ArrowLeft' ? -1 : 1) / frameRate
+        if (liveSelection.length > 0) moveKeyframes(liveSelection, step)
+        else setCurrentTime(currentTime + step)
+      } else handled = false
+
+      if (handled) {
+        // Keep the editor-wide shortcuts (object copy, paste and delete) from also firing
+        e.preventDefault()
+        e.stopPropagation()
+      }
+    },
+    [handleCopy, handlePaste, handleDelete, rows, duration, frameRate, liveSelection, moveKeyframes, setCurrentTime, currentTime],
+  )
+
+  // ── Ruler ──────────────────────────────────────────────────────────
+
+  const seconds: number[] = []
+  for (let t = 0; t <= duration; t++) seconds.push(t)
+
+  const playheadPercent = duration > 0 ? (currentTime / duration) * 100 : 0
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {/* ── Dope sheet toolbar ───────────────────────────────────────── */}
+      <div className="flex items-center gap-2 px-3 py-1 border-b border-dust-600/25 shrink-0 text-xs">
+        <label className="flex items-center gap-1 text-dust-400">
+          <span>FPS</span>
+          <select
+            value={frameRate}
+            onChange={e => setFrameRate(Number(e.target.value))}
+            aria-label="Frame rate"
+            className="px-1 py-0.5 rounded bg-dust-900 border border-dust-600 text-sand-200 text-xs focus:outline-none focus:ring-1 focus:ring-rust-500"
+          >
+            {FRAME_RATES.map(fps => (
+              <option key={fps} value={fps}>{fps}</option>
+            ))}
+          </select>
+        </label>
+
+        <button
+          onClick={() => setSnapToFrames(!snapToFrames)}
+          aria-pressed={snapToFrames}
+          className={`px-2 py-0.5 rounded text-[10px] font-semibold tracking-[0.06em] transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 ${
+            snapToFrames
+              ? 'bg-rust-500/30 text-rust-300 border border-rust-500/50'
+              : 'bg-dust-700 text-dust-400 hover:bg-dust-600'
+          }`}
+        >
+          Snap to frames
+        </button>
+
+        <div className="w-px h-4 bg-dust-600 mx-1" />
+
+        <span className="text-dust-400 tabular-nums min-w-[72px]">
+          {liveSelection.length === 1 ? '1 key' : `${liveSelection.length} keys`}
+        </span>
+
+        <label className="flex items-center gap-1 text-dust-400">
+          <span>Scale</span>
+          <input
+            type="text"
+            value={scaleInput}
+            onChange={e => setScaleInput(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter') handleScaleCommit()
+            }}
+            onBlur={() => setScaleInput('')}
+            disabled={liveSelection.length === 0}
+            placeholder="100"
+            aria-label="Scale selected keys around the playhead, in percent"
+            className="w-12 px-1 py-0.5 rounded bg-dust-900 border border-dust-600 text-sand-200 text-xs text-center focus:outline-none focus:ring-1 focus:ring-rust-500 disabled:opacity-40"
+            maxLength={6}
+          />
+          <span>%</span>
+        </label>
+
+        <button
+          onClick={handleCopy}
+          disabled={liveSelection.length === 0}
+          aria-label="Copy selected keys"
+          className="px-2 py-0.5 rounded text-xs btn-glass text-sand-200 disabled:opacity-40 disabled:cursor-default focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500"
+        >
+          Copy
+        </button>
+        <button
+          onClick={handlePaste}
+          disabled={!keyframeClipboard}
+          aria-label="Paste keys at the playhead"
+          title={selectedIds.length > 0 ? 'Paste onto the selected objects' : 'Paste onto the objects the keys came from'}
+          className="px-2 py-0.5 rounded text-xs btn-glass text-sand-200 disabled:opacity-40 disabled:cursor-default focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500"
+        >
+          Paste
+        </button>
+        <button
+          onClick={handleDelete}
+          disabled={liveSelection.length === 0}
+          aria-label="Delete selected keys"
+          className="px-2 py-0.5 rounded text-xs btn-glass text-rust-300 disabled:opacity-40 disabled:cursor-default focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500"
+        >
+          Delete
+        </button>
+      </div>
+
+      {/* ── Sheet ────────────────────────────────────────────────────── */}
+      <div
+        ref={sheetRef}
+        className="flex-1 overflow-y-auto overflow-x-hidden relative select-none focus:outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-rust-500/60"
+        onMouseDown={handleSheetMouseDown}
+        onKeyDown={handleSheetKeyDown}
+        role="region"
+        aria-label="Dope sheet"
+        tabIndex={0}
+      >
+        {/* Ruler in frames at whole seconds */}
+        <div className="flex border-b border-dust-600/25 bg-dust-900 sticky top-0 z-10" style={{ height: RULER_HEIGHT }}>
+          <div className="shrink-0 border-r border-dust-600/25 flex items-center px-2" style={{ width: LABEL_WIDTH }}>
+            <span className="text-[10px] text-dust-500 uppercase tracking-wider">Channels</span>
+          </div>
+          <div className="flex-1 relative">
+            {seconds.map(t => (
+              <div key={t} className="absolute top-0 flex flex-col items-center" style={{ left: `${(t / duration) * 100}%` }}>
+                <div className="w-px h-3 bg-dust-400" />
+                <span className="text-[9px] text-dust-500 mt-0.5 tabular-nums">{Math.round(t * frameRate)}</span>
+              </div>
+            ))}
+          </div>
+        </div>
+
+        {rows.length === 0 ? (
+          <div className="flex items-center justify-center h-16 text-xs text-dust-500">
+            No keyframes yet. Capture a keyframe to start blocking.
+          </div>
+        ) : (
+          rows.map(row => {
+            const track = sortedTracks.find(t => t.id === row.trackId)
+            const trackName = track ? getObjectName(track.objectId) : ''
+            const isCamera = !!track && isCameraTrack(track)
+            const rowLabel = row.property ? `${trackName} ${PROPERTY_LABELS[row.property]}` : trackName
+            return (
+              <div
+                key={`${row.trackId}:${row.property ?? 'summary'}`}
+                className={`flex border-b border-dust-700/50 ${row.property ? '' : 'bg-dust-800/40'}`}
+                style={{ height: ROW_HEIGHT }}
+              >
+                <div
+                  className="shrink-0 border-r border-dust-600/25 flex items-center px-2 overflow-hidden"
+                  style={{ width: LABEL_WIDTH }}
+                >
+                  <span
+                    className={`text-xs truncate ${row.property ? 'pl-3 text-dust-300' : 'font-medium text-sand-200'}`}
+                    title={rowLabel}
+                  >
+                    {row.property ? PROPERTY_LABELS[row.property] : trackName}
+                  </span>
+                </div>
+                <div className="flex-1 relative">
+                  {getDiamonds(row).map(diamond => {
+                    const refs = diamond.keyframeIds.map(keyframeId => ({ trackId: row.trackId, keyframeId }))
+                    const selected = refs.every(ref => isKeyframeSelected(liveSelection, ref.trackId, ref.keyframeId))
+                    return (
+                      <button
+                        key={diamond.keyframeIds[0]}
+                        type="button"
+                        tabIndex={-1}
+                        aria-label={`${rowLabel} key at frame ${Math.round(diamond.time * frameRate)}`}
+                        aria-pressed={selected}
+                        onMouseDown={e => handleKeyMouseDown(refs, e)}
+                        className={`absolute top-1/2 -translate-y-1/2 -translate-x-1/2 leading-none cursor-ew-resize ${
+                          selected ? 'text-sand-100' : isCamera ? 'text-cyan-400' : 'text-sunset-400'
+                        }`}
+                        style={{ left: `${duration > 0 ? (diamond.time / duration) * 100 : 0}%`, fontSize: row.property ? 11 : 13 }}
+                      >
+                        ◆
+                      </button>
+                    )
+                  })}
+                </div>
+              </div>
+            )
+          })
+        )}
+
+        {/* Playhead */}
+        <div className="absolute top-0 bottom-0 pointer-events-none z-20" style={{ left: LABEL_WIDTH, right: 0 }}>
+          <div className="absolute top-0 bottom-0 w-0.5 bg-rust-500" style={{ left: `${playheadPercent}%` }} />
+        </div>
+
+        {/* Marquee */}
+        {marquee && (
+          <div
+            className="absolute border border-rust-400/70 bg-rust-500/10 pointer-events-none z-30"
+            style={{
+              left: Math.min(marquee.x0, marquee.x1) - marquee.originX,
+              top: Math.min(marquee.y0, marquee.y1) - marquee.originY,
+              width: Math.abs(marquee.x1 - marquee.x0),
+              height: Math.abs(marquee.y1 - marquee.y0),
+            }}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
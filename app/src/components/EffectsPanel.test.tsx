@@ -111,4 +111,18 @@ describe('EffectsPanel', () => {
     await user.click(enabledCheckboxes[0]) // bloom enabled
     expect(usePostProcessingStore.getState().bloom.enabled).toBe(true)
   })
+
+  it('toggles depth of field and adjusts bokeh', async () => {
+    const user = userEvent.setup()
+    usePostProcessingStore.getState().setEnabled(true)
+    render(<EffectsPanel />)
+
+    await user.click(screen.getByText('Depth of Field'))
+    const enabledCheckboxes = screen.getAllByRole('checkbox', { name: 'Enabled' })
+    await user.click(enabledCheckboxes[3]) // bloom, ssao, vignette, depth of field
+    expect(usePostProcessingStore.getState().depthOfField.enabled).toBe(true)
+
+    fireEvent.keyDown(screen.getByRole('slider', { name: 'Bokeh scale' }), { key: 'ArrowUp' })
+    expect(usePostProcessingStore.getState().depthOfField.bokehScale).toBeCloseTo(1.1, 6)
+  })
 })
@@ -32,10 +32,12 @@ export function EffectsPanel() {
   const bloom = usePostProcessingStore(s => s.bloom)
   const ssao = usePostProcessingStore(s => s.ssao)
   const vignette = usePostProcessingStore(s => s.vignette)
+  const depthOfField = usePostProcessingStore(s => s.depthOfField)
   const setEnabled = usePostProcessingStore(s => s.setEnabled)
   const updateBloom = usePostProcessingStore(s => s.updateBloom)
   const updateSSAO = usePostProcessingStore(s => s.updateSSAO)
   const updateVignette = usePostProcessingStore(s => s.updateVignette)
+  const updateDepthOfField = usePostProcessingStore(s => s.updateDepthOfField)
   const resetDefaults = usePostProcessingStore(s => s.resetDefaults)
 
   const muted = !enabled
@@ -193,6 +195,33 @@ export function EffectsPanel() {
             />
           </div>
         </CollapsibleSection>
+
+        {/* Depth of Field */}
+        <CollapsibleSection title="Depth of Field" defaultOpen={false}>
+          <EffectToggle
+            label="Enabled"
+            enabled={depthOfField.enabled}
+            onChange={v => updateDepthOfField({ enabled: v })}
+            disabled={muted}
+          />
+          <div className="flex items-center justify-around gap-1 mb-2">
+            <RotaryKnob
+              value={depthOfField.bokehScale}
+              onChange={v => updateDepthOfField({ bokehScale: v })}
+              label="Bokeh"
+              aria-label="Bokeh scale"
+              size="sm"
+              min={0}
+              max={5}
+              step={0.1}
+              accent="cyan"
+              disabled={muted || !depthOfField.enabled}
+            />
+          </div>
+          <p className="text-[10px] text-dust-500 mb-2">
+            Focus distance and aperture are set on the camera lens
+          </p>
+        </CollapsibleSection>
       </div>
 
       {/* Reset button */}
@@ -4,6 +4,8 @@ import { describe, it, expect, vi, beforeEach } from 'vitest'
 import { ExportDialog } from './ExportDialog'
 import { useExportStore } from '../stores/useExportStore'
 import { useCameraPathStore } from '../stores/useCameraPathStore'
+import { useCameraStore } from '../stores/useCameraStore'
+import { useSequenceStore } from '../stores/useSequenceStore'
 
 describe('ExportDialog', () => {
   const onClose = vi.fn()
@@ -29,13 +31,15 @@ describe('ExportDialog', () => {
     expect(screen.getByText('Export Scene')).toBeInTheDocument()
   })
 
-  // ── Test 3: Shows 3 format tabs ───────────────────────────────────
+  // ── Test 3: Shows 5 format tabs ───────────────────────────────────
 
-  it('shows 3 format tabs: glTF, Screenshot, Video', () => {
+  it('shows 5 format tabs: glTF, Screenshot, Video, Storyboard, Editorial', () => {
     render(<ExportDialog isOpen={true} onClose={onClose} />)
     expect(screen.getByRole('tab', { name: 'glTF' })).toBeInTheDocument()
     expect(screen.getByRole('tab', { name: 'Screenshot' })).toBeInTheDocument()
     expect(screen.getByRole('tab', { name: 'Video' })).toBeInTheDocument()
+    expect(screen.getByRole('tab', { name: 'Storyboard' })).toBeInTheDocument()
+    expect(screen.getByRole('tab', { name: 'Editorial' })).toBeInTheDocument()
   })
 
   // ── Test 4: Default tab is glTF with binary format toggle ─────────
@@ -406,6 +410,17 @@ describe('ExportDialog', () => {
       await user.click(checkbox)
       expect(useExportStore.getState().screenshotOptions.transparentBackground).toBe(true)
     })
+
+    it('toggling burn in overlays updates store', async () => {
+      const user = userEvent.setup()
+      render(<ExportDialog isOpen={true} onClose={onClose} />)
+
+      const checkbox = screen.getByLabelText('Burn In Overlays')
+      expect(checkbox).not.toBeChecked()
+
+      await user.click(checkbox)
+      expect(useExportStore.getState().screenshotOptions.burnInOverlays).toBe(true)
+    })
   })
 
   describe('video tab controls', () => {
@@ -481,10 +496,151 @@ describe('ExportDialog', () => {
       await user.selectOptions(formatSelect, 'mp4')
       expect(useExportStore.getState().videoOptions.format).toBe('mp4')
     })
+
+    it('toggling burn in overlays updates video options', async () => {
+      const user = userEvent.setup()
+      render(<ExportDialog isOpen={true} onClose={onClose} />)
+
+      await user.click(screen.getByLabelText('Burn In Overlays'))
+      expect(useExportStore.getState().videoOptions.burnInOverlays).toBe(true)
+    })
   })
 
   // ── Edge cases ────────────────────────────────────────────────────
 
+  describe('offline image sequence', () => {
+    beforeEach(() => {
+      useCameraStore.setState({ viewRenderer: null })
+      useExportStore.getState().setActiveFormat('video')
+    })
+
+    it('swaps the video codec settings for the frame format', async () => {
+      const user = userEvent.setup()
+      render(<ExportDialog isOpen={true} onClose={onClose} />)
+      expect(screen.getByLabelText('Video format')).toBeInTheDocument()
+
+      await user.selectOptions(screen.getByLabelText('Video output'), 'image-sequence')
+      expect(screen.queryByLabelText('Video format')).not.toBeInTheDocument()
+      expect(screen.queryByLabelText('Video bitrate')).not.toBeInTheDocument()
+
+      await user.selectOptions(screen.getByLabelText('Frame format'), 'jpeg')
+      expect(useExportStore.getState().videoOptions).toMatchObject({ output: 'image-sequence', frameFormat: 'jpeg' })
+    })
+
+    it('counts the frames to render', () => {
+      useExportStore.getState().updateVideoOptions({ output: 'image-sequence', fps: 24, duration: 2.5 })
+      render(<ExportDialog isOpen={true} onClose={onClose} />)
+      expect(screen.getByText('0 = camera path or timeline duration · 60 frames at 24 fps')).toBeInTheDocument()
+    })
+
+    it('reports an error when the viewport cannot render', async () => {
+      const user = userEvent.setup()
+      useExportStore.getState().updateVideoOptions({ output: 'image-sequence' })
+      render(<ExportDialog isOpen={true} onClose={onClose} />)
+      await user.click(screen.getByRole('button', { name: 'Start export' }))
+      expect(screen.getByText('The viewport is not ready to render')).toBeInTheDocument()
+    })
+  })
+
+  describe('video file', () => {
+    beforeEach(() => {
+      useCameraStore.setState({ viewRenderer: null, viewportCanvas: null })
+      useExportStore.getState().setActiveFormat('video')
+    })
+
+    it('falls back to real-time recording without WebCodecs', () => {
+      render(<ExportDialog isOpen={true} onClose={onClose} />)
+      expect(screen.getByText(/no WebCodecs encoder, so the viewport is recorded in real time/)).toBeInTheDocument()
+    })
+
+    it('reports an error when there is no viewport to record', async () => {
+      const user = userEvent.setup()
+      render(<ExportDialog isOpen={true} onClose={onClose} />)
+      await user.click(screen.getByRole('button', { name: 'Start export' }))
+      expect(screen.getByText('The viewport is not ready to render')).toBeInTheDocument()
+    })
+  })
+
+  describe('storyboard tab', () => {
+    beforeEach(() => {
+      useCameraStore.setState({ shots: [], viewRenderer: null })
+      useExportStore.getState().setActiveFormat('storyboard')
+    })
+
+    it('defaults to a 6-up landscape PDF', () => {
+      render(<ExportDialog isOpen={true} onClose={onClose} />)
+      expect(screen.getByRole('tab', { name: 'Storyboard' })).toHaveAttribute('aria-selected', 'true')
+      expect(screen.getByLabelText('Storyboard format')).toHaveValue('pdf')
+      expect(screen.getByLabelText('Page orientation')).toHaveValue('landscape')
+      expect(screen.getByLabelText('Panels per page')).toHaveValue('3x2')
+    })
+
+    it('updates layout and resolution options', async () => {
+      const user = userEvent.setup()
+      render(<ExportDialog isOpen={true} onClose={onClose} />)
+
+      await user.selectOptions(screen.getByLabelText('Panels per page'), '2x2')
+      await user.selectOptions(screen.getByLabelText('Storyboard format'), 'png')
+      await user.selectOptions(screen.getByLabelText('Page size'), 'letter')
+      fireEvent.change(screen.getByLabelText('Storyboard render width'), { target: { value: '1920' } })
+      await user.click(screen.getByLabelText('Include Shot Notes'))
+
+      const options = useExportStore.getState().storyboardOptions
+      expect(options).toMatchObject({ columns: 2, rows: 2, format: 'png', pageSize: 'letter', imageWidth: 1920, includeNotes: false })
+    })
+
+    it('counts pages for the captured shots', () => {
+      const shot = { id: 's', name: 'S', position: { x: 0, y: 0, z: 5 }, target: { x: 0, y: 0, z: 0 }, createdAt: '' }
+      useCameraStore.setState({ shots: Array.from({ length: 7 }, (_, i) => ({ ...shot, id: `s${i}` })) })
+      render(<ExportDialog isOpen={true} onClose={onClose} />)
+      expect(screen.getByText('7 shots on 2 pages')).toBeInTheDocument()
+    })
+
+    it('reports an error when there are no shots to export', async () => {
+      const user = userEvent.setup()
+      render(<ExportDialog isOpen={true} onClose={onClose} />)
+      await user.click(screen.getByRole('button', { name: 'Start export' }))
+      expect(screen.getByText('Capture at least one camera shot first')).toBeInTheDocument()
+    })
+  })
+
+  describe('editorial tab', () => {
+    const shot = { id: 's', name: 'S', position: { x: 0, y: 0, z: 5 }, target: { x: 0, y: 0, z: 0 }, createdAt: '' }
+
+    beforeEach(() => {
+      useCameraStore.setState({ shots: [] })
+      useSequenceStore.getState().clearSequence()
+      useExportStore.getState().setActiveFormat('editorial')
+    })
+
+    it('switches format and shot media', async () => {
+      const user = userEvent.setup()
+      render(<ExportDialog isOpen={true} onClose={onClose} />)
+      expect(screen.getByLabelText('Editorial format')).toHaveValue('edl')
+
+      await user.selectOptions(screen.getByLabelText('Editorial format'), 'otio')
+      await user.selectOptions(screen.getByLabelText('Shot media'), 'image-sequence')
+      expect(useExportStore.getState().editorialOptions).toEqual({ format: 'otio', media: 'image-sequence' })
+    })
+
+    it('counts events from the shot list until a sequence exists', () => {
+      useCameraStore.setState({ shots: [{ ...shot, id: 'a' }, { ...shot, id: 'b' }] })
+      const { rerender } = render(<ExportDialog isOpen={true} onClose={onClose} />)
+      expect(screen.getByText('2 events from the shot list (3s per shot) at 30 fps')).toBeInTheDocument()
+
+      useSequenceStore.getState().addClip('b')
+      rerender(<ExportDialog isOpen={true} onClose={onClose} />)
+      expect(screen.getByText('1 event from the sequence at 30 fps')).toBeInTheDocument()
+    })
+
+    it('reports an error when there are no shots to export', async () => {
+      const user = userEvent.setup()
+      render(<ExportDialog isOpen={true} onClose={onClose} />)
+      await user.click(screen.getByRole('button', { name: 'Start export' }))
+      expect(screen.getByText('Capture at least one camera shot first')).toBeInTheDocument()
+    })
+  })
+
   describe('edge cases', () => {
     it('Escape does not call onClose when dialog is closed', () => {
       render(<ExportDialog isOpen={false} onClose={onClose} />)
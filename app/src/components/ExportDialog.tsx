@@ -1,7 +1,39 @@
-import { useEffect, useRef, useCallback } from 'react'
+import { useEffect, useRef, useCallback, useMemo } from 'react'
 import { useExportStore } from '../stores/useExportStore'
 import { useCameraPathStore } from '../stores/useCameraPathStore'
-import type { ExportFormat, ImageFormat, VideoFormat } from '../types/export'
+import { useSceneStore } from '../stores/useSceneStore'
+import { useCameraStore } from '../stores/useCameraStore'
+import { useStorageStore } from '../stores/useStorageStore'
+import { useSequenceStore } from '../stores/useSequenceStore'
+import { useAnimationStore } from '../stores/useAnimationStore'
+import {
+  createGltfExport,
+  downloadExport,
+  formatFileSize,
+  generateExportFileName,
+  startVideoRecording,
+} from '../core/exportPipeline'
+import { loadModelExportSources } from '../core/modelExport'
+import {
+  STORYBOARD_GRIDS,
+  STORYBOARD_PAGE_SIZES,
+  exportStoryboard,
+} from '../core/storyboard'
+import { buildEditEvents, createEditorialExport } from '../core/editorial'
+import { DEFAULT_CLIP_DURATION } from '../core/sequence'
+import {
+  findVideoEncoderConfig,
+  getOfflineRenderPlan,
+  isVideoEncoderAvailable,
+  renderImageSequence,
+  renderVideo,
+} from '../core/offlineRender'
+import type { VideoEncoderSetup } from '../core/offlineRender'
+import { applyAnimationValues } from '../core/animationPlayback'
+import { isCameraTrack } from '../core/animation'
+import type { ExportFormat, FrameFormat, ImageFormat, VideoFormat, VideoOutput } from '../types/export'
+import type { StoryboardFormat, StoryboardOrientation, StoryboardPageSize } from '../types/storyboard'
+import type { EditorialFormat, EditorialMedia } from '../types/editorial'
 
 interface ExportDialogProps {
   isOpen: boolean
@@ -12,6 +44,8 @@ const FORMAT_TABS: { id: ExportFormat; label: string }[] = [
   { id: 'gltf', label: 'glTF' },
   { id: 'screenshot', label: 'Screenshot' },
   { id: 'video', label: 'Video' },
+  { id: 'storyboard', label: 'Storyboard' },
+  { id: 'editorial', label: 'Editorial' },
 ]
 
 const IMAGE_FORMATS: { value: ImageFormat; label: string }[] = [
@@ -25,11 +59,45 @@ const VIDEO_FORMATS: { value: VideoFormat; label: string }[] = [
   { value: 'mp4', label: 'MP4' },
 ]
 
+const VIDEO_OUTPUTS: { value: VideoOutput; label: string }[] = [
+  { value: 'video', label: 'Video file' },
+  { value: 'image-sequence', label: 'Image sequence (ZIP, offline render)' },
+]
+
+const FRAME_FORMATS: { value: FrameFormat; label: string }[] = [
+  { value: 'png', label: 'PNG' },
+  { value: 'jpeg', label: 'JPEG' },
+]
+
 const FPS_OPTIONS = [24, 30, 60] as const
 
+const STORYBOARD_FORMATS: { value: StoryboardFormat; label: string }[] = [
+  { value: 'pdf', label: 'PDF' },
+  { value: 'png', label: 'PNG contact sheets' },
+]
+
+const EDITORIAL_FORMATS: { value: EditorialFormat; label: string }[] = [
+  { value: 'edl', label: 'CMX3600 EDL' },
+  { value: 'otio', label: 'OpenTimelineIO (.otio)' },
+  { value: 'csv', label: 'CSV shot breakdown' },
+]
+
+const EDITORIAL_MEDIA: { value: EditorialMedia; label: string }[] = [
+  { value: 'movie', label: 'Movie file per shot' },
+  { value: 'image-sequence', label: 'PNG image sequence per shot' },
+]
+
+type DialogTab = 'gltf' | 'screenshot' | 'video' | 'storyboard' | 'editorial'
+
+function getActiveSceneName(): string | undefined {
+  const storage = useStorageStore.getState()
+  return storage.activeSceneId ? storage.getScene(storage.activeSceneId)?.name : undefined
+}
+
 export function ExportDialog({ isOpen, onClose }: ExportDialogProps) {
   const backdropRef = useRef<HTMLDivElement>(null)
   const closeButtonRef = useRef<HTMLButtonElement>(null)
+  const renderAbortRef = useRef<AbortController | null>(null)
 
   const activeFormat = useExportStore(s => s.activeFormat)
   const setActiveFormat = useExportStore(s => s.setActiveFormat)
@@ -39,13 +107,33 @@ export function ExportDialog({ isOpen, onClose }: ExportDialogProps) {
   const updateScreenshotOptions = useExportStore(s => s.updateScreenshotOptions)
   const videoOptions = useExportStore(s => s.videoOptions)
   const updateVideoOptions = useExportStore(s => s.updateVideoOptions)
+  const storyboardOptions = useExportStore(s => s.storyboardOptions)
+  const updateStoryboardOptions = useExportStore(s => s.updateStoryboardOptions)
+  const editorialOptions = useExportStore(s => s.editorialOptions)
+  const updateEditorialOptions = useExportStore(s => s.updateEditorialOptions)
   const progress = useExportStore(s => s.progress)
 
   const cameraPaths = useCameraPathStore(s => s.paths)
+  const timelineDuration = useAnimationStore(s => s.duration)
+  const shots = useCameraStore(s => s.shots)
+  const shotCount = shots.length
+  const clips = useSequenceStore(s => s.clips)
+
+  const editEventCount = useMemo(
+    () => buildEditEvents(shots, clips, { sceneName: '', fps: videoOptions.fps, media: 'movie', movieExtension: '' }).length,
+    [shots, clips, videoOptions.fps],
+  )
 
   // Determine tab key: gltf and glb both map to 'gltf' tab
-  const activeTab: 'gltf' | 'screenshot' | 'video' =
-    activeFormat === 'glb' ? 'gltf' : activeFormat
+  const activeTab: DialogTab = activeFormat === 'glb' ? 'gltf' : activeFormat
+
+  const selectedPath = cameraPaths.find(p => p.id === videoOptions.cameraPathId)
+  const renderPlan = getOfflineRenderPlan(videoOptions, selectedPath?.duration ?? null, timelineDuration)
+
+  // Closing the dialog cancels an offline render between frames
+  useEffect(() => {
+    if (!isOpen) renderAbortRef.current?.abort()
+  }, [isOpen])
 
   // Auto-focus close button on mount
   useEffect(() => {
@@ -79,7 +167,7 @@ export function ExportDialog({ isOpen, onClose }: ExportDialogProps) {
   )
 
   const handleTabChange = useCallback(
-    (tab: 'gltf' | 'screenshot' | 'video') => {
+    (tab: DialogTab) => {
       if (tab === 'gltf') {
         // Preserve binary toggle: if currently glb keep glb, otherwise default to gltf
         setActiveFormat(gltfOptions.binary ? 'glb' : 'gltf')
@@ -98,6 +186,244 @@ export function ExportDialog({ isOpen, onClose }: ExportDialogProps) {
     [updateGltfOptions, setActiveFormat],
   )
 
+  const handleStoryboardExport = useCallback(async () => {
+    const { setProgress, setLastExportFileName } = useExportStore.getState()
+    const { shots, viewRenderer } = useCameraStore.getState()
+
+    if (shots.length === 0) {
+      setProgress({ status: 'error', progress: 0, message: '', error: 'Capture at least one camera shot first' })
+      return
+    }
+    if (!viewRenderer) {
+      setProgress({ status: 'error', progress: 0, message: '', error: 'The viewport is not ready to render' })
+      return
+    }
+
+    try {
+      setProgress({ status: 'exporting', progress: 0, message: '', error: undefined, warnings: undefined })
+      const results = await exportStoryboard(
+        shots,
+        useSequenceStore.getState().clips,
+        storyboardOptions,
+        viewRenderer,
+        getActiveSceneName() ?? '',
+        (value, message) => setProgress({ progress: value, message }),
+      )
+
+      results.forEach(downloadExport)
+      setLastExportFileName(results[0]?.fileName ?? null)
+      const totalSize = formatFileSize(results.reduce((sum, r) => sum + r.fileSize, 0))
+      setProgress({
+        status: 'complete',
+        progress: 1,
+        message: results.length === 1
+          ? `Exported ${results[0].fileName} (${totalSize})`
+          : `Exported ${results.length} contact sheets (${totalSize})`,
+      })
+    } catch (err) {
+      setProgress({ status: 'error', error: err instanceof Error ? err.message : 'Export failed' })
+    }
+  }, [storyboardOptions])
+
+  const handleEditorialExport = useCallback(() => {
+    const { setProgress, setLastExportFileName } = useExportStore.getState()
+    const sceneName = getActiveSceneName() ?? ''
+    const events = buildEditEvents(useCameraStore.getState().shots, useSequenceStore.getState().clips, {
+      sceneName,
+      fps: videoOptions.fps,
+      media: editorialOptions.media,
+      movieExtension: videoOptions.format,
+    })
+
+    if (events.length === 0) {
+      setProgress({ status: 'error', progress: 0, message: '', error: 'Capture at least one camera shot first' })
+      return
+    }
+
+    const result = createEditorialExport(events, editorialOptions.format, sceneName, videoOptions.fps)
+    downloadExport(result)
+    setLastExportFileName(result.fileName)
+    setProgress({
+      status: 'complete',
+      progress: 1,
+      message: `Exported ${result.fileName} (${formatFileSize(result.fileSize)})`,
+      error: undefined,
+      warnings: undefined,
+    })
+  }, [editorialOptions, videoOptions.fps, videoOptions.format])
+
+  // Steps the timeline frame by frame; encodes with WebCodecs when given a setup, else writes a ZIP of frames
+  const handleOfflineVideoExport = useCallback(async (setup: VideoEncoderSetup | null) => {
+    const { setProgress, setLastExportFileName, resetProgress } = useExportStore.getState()
+    const { viewRenderer, lens, overlays, shots, activeShotId, getCurrentView } = useCameraStore.getState()
+    const view = getCurrentView()
+
+    if (!viewRenderer || !view) {
+      setProgress({ status: 'error', progress: 0, message: '', error: 'The viewport is not ready to render' })
+      return
+    }
+
+    // Hold live playback still while frames are stepped
+    const animation = useAnimationStore.getState()
+    if (animation.isPlaying) animation.pause()
+    if (useCameraPathStore.getState().playbackState === 'playing') useCameraPathStore.getState().pause()
+    if (useSequenceStore.getState().playbackState === 'playing') useSequenceStore.getState().pause()
+    const startTime = animation.currentTime
+
+    const controller = new AbortController()
+    renderAbortRef.current = controller
+
+    try {
+      setProgress({ status: 'exporting', progress: 0, message: '', error: undefined, warnings: undefined })
+      const camera = {
+        path: selectedPath,
+        cameraTrack: animation.tracks.find(isCameraTrack),
+        fallback: { position: view.position, target: view.target, lens },
+      }
+      const target = {
+        render: viewRenderer,
+        seek: (time: number) => {
+          const state = useAnimationStore.getState()
+          state.setCurrentTime(time)
+          applyAnimationValues(time, state.tracks)
+        },
+        overlay: videoOptions.burnInOverlays
+          ? { settings: overlays, shotName: shots.find(shot => shot.id === activeShotId)?.name ?? null }
+          : undefined,
+      }
+      const sceneName = getActiveSceneName() ?? ''
+      const onProgress = (value: number, message: string) => setProgress({ progress: value, message })
+      const result = setup
+        ? await renderVideo(renderPlan, videoOptions, setup, camera, target, sceneName, onProgress, controller.signal)
+        : await renderImageSequence(renderPlan, videoOptions, camera, target, sceneName, onProgress, controller.signal)
+
+      downloadExport(result)
+      setLastExportFileName(result.fileName)
+      setProgress({
+        status: 'complete',
+        progress: 1,
+        message: `Exported ${renderPlan.frameCount} frames ${setup ? 'as' : 'to'} ${result.fileName} (${formatFileSize(result.fileSize)})`,
+      })
+    } catch (err) {
+      if (controller.signal.aborted) resetProgress()
+      else setProgress({ status: 'error', error: err instanceof Error ? err.message : 'Export failed' })
+    } finally {
+      renderAbortRef.current = null
+      useAnimationStore.getState().setCurrentTime(startTime)
+    }
+  }, [renderPlan, selectedPath, videoOptions])
+
+  // Without WebCodecs: play the scene live and record the viewport, as before offline rendering
+  const handleRealtimeVideoExport = useCallback(async () => {
+    const { setProgress, setLastExportFileName, resetProgress } = useExportStore.getState()
+    const { viewportCanvas, overlays, shots, activeShotId } = useCameraStore.getState()
+
+    if (!viewportCanvas) {
+      setProgress({ status: 'error', progress: 0, message: '', error: 'The viewport is not ready to render' })
+      return
+    }
+
+    const controller = new AbortController()
+    renderAbortRef.current = controller
+    const shotName = shots.find(shot => shot.id === activeShotId)?.name ?? null
+
+    try {
+      setProgress({ status: 'exporting', progress: 0, message: 'Recording in real time...', error: undefined, warnings: undefined })
+      const recording = startVideoRecording(viewportCanvas, { ...videoOptions, duration: renderPlan.duration }, {
+        settings: overlays,
+        getHud: () => ({
+          shotName,
+          lens: useCameraStore.getState().lens,
+          time: useAnimationStore.getState().currentTime,
+          fps: videoOptions.fps,
+        }),
+      })
+
+      if (selectedPath) {
+        const paths = useCameraPathStore.getState()
+        paths.setActivePath(selectedPath.id)
+        paths.setPlaybackTime(0)
+        paths.play()
+      }
+      useAnimationStore.getState().setCurrentTime(0)
+      useAnimationStore.getState().play()
+
+      const start = performance.now()
+      const durationMs = renderPlan.duration * 1000
+      while (!controller.signal.aborted && performance.now() - start < durationMs) {
+        setProgress({ progress: (performance.now() - start) / durationMs, message: 'Recording in real time...' })
+        await new Promise(resolve => setTimeout(resolve, 100))
+      }
+
+      const blob = await recording.stop()
+      controller.signal.throwIfAborted()
+
+      const result = {
+        format: 'video' as const,
+        blob,
+        fileName: generateExportFileName(getActiveSceneName() ?? '', videoOptions.format),
+        fileSize: blob.size,
+        duration: durationMs,
+      }
+      downloadExport(result)
+      setLastExportFileName(result.fileName)
+      setProgress({
+        status: 'complete',
+        progress: 1,
+        message: `Recorded ${result.fileName} in real time (${formatFileSize(result.fileSize)})`,
+      })
+    } catch (err) {
+      if (controller.signal.aborted) resetProgress()
+      else setProgress({ status: 'error', error: err instanceof Error ? err.message : 'Export failed' })
+    } finally {
+      renderAbortRef.current = null
+      useAnimationStore.getState().pause()
+      if (useCameraPathStore.getState().playbackState === 'playing') useCameraPathStore.getState().pause()
+    }
+  }, [renderPlan, selectedPath, videoOptions])
+
+  const handleVideoExport = useCallback(async () => {
+    if (videoOptions.output === 'image-sequence') return handleOfflineVideoExport(null)
+    const setup = await findVideoEncoderConfig(videoOptions)
+    return setup ? handleOfflineVideoExport(setup) : handleRealtimeVideoExport()
+  }, [videoOptions, handleOfflineVideoExport, handleRealtimeVideoExport])
+
+  const handleExport = useCallback(async () => {
+    if (activeTab === 'storyboard') return handleStoryboardExport()
+    if (activeTab === 'editorial') return handleEditorialExport()
+    if (activeTab === 'video') return handleVideoExport()
+    if (activeTab !== 'gltf') return
+    const { setProgress, setLastExportFileName } = useExportStore.getState()
+
+    try {
+      setProgress({ status: 'preparing', progress: 0, message: 'Loading models...', error: undefined, warnings: undefined })
+      const sceneName = getActiveSceneName()
+      const sceneData = useSceneStore.getState().saveScene(sceneName)
+      const { sources: models, warnings } = await loadModelExportSources(sceneData.objects)
+
+      setProgress({ status: 'exporting', progress: 0.5, message: '' })
+      const view = useCameraStore.getState().getCurrentView()
+      const result = createGltfExport(sceneData, {
+        ...gltfOptions,
+        cameraPosition: view?.position,
+        cameraTarget: view?.target,
+        cameraFov: view?.fov,
+        cameraAspectRatio: view?.aspect,
+      }, models)
+
+      downloadExport(result)
+      setLastExportFileName(result.fileName)
+      setProgress({
+        status: 'complete',
+        progress: 1,
+        message: `Exported ${result.fileName} (${formatFileSize(result.fileSize)})`,
+        warnings: warnings.length > 0 ? warnings : undefined,
+      })
+    } catch (err) {
+      setProgress({ status: 'error', error: err instanceof Error ? err.message : 'Export failed' })
+    }
+  }, [activeTab, gltfOptions, handleStoryboardExport, handleEditorialExport, handleVideoExport])
+
   const isExporting = progress.status !== 'idle' && progress.status !== 'complete' && progress.status !== 'error'
 
   if (!isOpen) return null
@@ -140,7 +466,7 @@ export function ExportDialog({ isOpen, onClose }: ExportDialogProps) {
               role="tab"
               aria-selected={activeTab === tab.id}
               aria-controls={`tabpanel-${tab.id}`}
-              onClick={() => handleTabChange(tab.id as 'gltf' | 'screenshot' | 'video')}
+              onClick={() => handleTabChange(tab.id as DialogTab)}
               className={`flex-1 px-4 py-2.5 text-sm font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 focus-visible:ring-inset ${
                 activeTab === tab.id
                   ? 'text-sand-200 border-b-2 border-rust-500 bg-dust-750'
@@ -328,12 +654,38 @@ export function ExportDialog({ isOpen, onClose }: ExportDialogProps) {
                 checked={screenshotOptions.transparentBackground}
                 onChange={v => updateScreenshotOptions({ transparentBackground: v })}
               />
+
+              {/* Frame guides and HUD */}
+              <Checkbox
+                id="screenshot-burn-in"
+                label="Burn In Overlays"
+                checked={screenshotOptions.burnInOverlays ?? false}
+                onChange={v => updateScreenshotOptions({ burnInOverlays: v })}
+              />
             </div>
           )}
 
           {/* Video Tab */}
           {activeTab === 'video' && (
             <div role="tabpanel" id="tabpanel-video" className="px-6 py-4 space-y-4">
+              {/* Output: video file or offline image sequence */}
+              <div>
+                <label htmlFor="video-output" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
+                  Output
+                </label>
+                <select
+                  id="video-output"
+                  value={videoOptions.output}
+                  onChange={e => updateVideoOptions({ output: e.target.value as VideoOutput })}
+                  className="w-full bg-dust-900 border border-dust-600/50 rounded px-2.5 py-1.5 text-[11px] text-sand-200 focus:border-rust-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 transition-colors"
+                  aria-label="Video output"
+                >
+                  {VIDEO_OUTPUTS.map(o => (
+                    <option key={o.value} value={o.value}>{o.label}</option>
+                  ))}
+                </select>
+              </div>
+
               {/* Width / Height */}
               <div className="grid grid-cols-2 gap-3">
                 <div>
@@ -386,48 +738,70 @@ export function ExportDialog({ isOpen, onClose }: ExportDialogProps) {
                 </select>
               </div>
 
-              {/* Format dropdown */}
-              <div>
-                <label htmlFor="video-format" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
-                  Format
-                </label>
-                <select
-                  id="video-format"
-                  value={videoOptions.format}
-                  onChange={e => updateVideoOptions({ format: e.target.value as VideoFormat })}
-                  className="w-full bg-dust-900 border border-dust-600/50 rounded px-2.5 py-1.5 text-[11px] text-sand-200 focus:border-rust-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 transition-colors"
-                  aria-label="Video format"
-                >
-                  {VIDEO_FORMATS.map(f => (
-                    <option key={f.value} value={f.value}>{f.label}</option>
-                  ))}
-                </select>
-              </div>
-
-              {/* Bitrate */}
-              <div>
-                <label htmlFor="video-bitrate" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
-                  Bitrate ({formatBitrate(videoOptions.bitrate)})
-                </label>
-                <input
-                  id="video-bitrate"
-                  type="range"
-                  min={100000}
-                  max={50000000}
-                  step={100000}
-                  value={videoOptions.bitrate}
-                  onChange={e => updateVideoOptions({ bitrate: Number(e.target.value) })}
-                  className="w-full accent-rust-500"
-                  aria-label="Video bitrate"
-                  aria-valuemin={100000}
-                  aria-valuemax={50000000}
-                  aria-valuenow={videoOptions.bitrate}
-                />
-                <div className="flex justify-between text-[10px] text-dust-500 mt-0.5">
-                  <span>0.1 Mbps</span>
-                  <span>50 Mbps</span>
+              {videoOptions.output === 'image-sequence' ? (
+                /* Frame format */
+                <div>
+                  <label htmlFor="video-frame-format" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
+                    Frame Format
+                  </label>
+                  <select
+                    id="video-frame-format"
+                    value={videoOptions.frameFormat}
+                    onChange={e => updateVideoOptions({ frameFormat: e.target.value as FrameFormat })}
+                    className="w-full bg-dust-900 border border-dust-600/50 rounded px-2.5 py-1.5 text-[11px] text-sand-200 focus:border-rust-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 transition-colors"
+                    aria-label="Frame format"
+                  >
+                    {FRAME_FORMATS.map(f => (
+                      <option key={f.value} value={f.value}>{f.label}</option>
+                    ))}
+                  </select>
                 </div>
-              </div>
+              ) : (
+                <>
+                  {/* Format dropdown */}
+                  <div>
+                    <label htmlFor="video-format" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
+                      Format
+                    </label>
+                    <select
+                      id="video-format"
+                      value={videoOptions.format}
+                      onChange={e => updateVideoOptions({ format: e.target.value as VideoFormat })}
+                      className="w-full bg-dust-900 border border-dust-600/50 rounded px-2.5 py-1.5 text-[11px] text-sand-200 focus:border-rust-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 transition-colors"
+                      aria-label="Video format"
+                    >
+                      {VIDEO_FORMATS.map(f => (
+                        <option key={f.value} value={f.value}>{f.label}</option>
+                      ))}
+                    </select>
+                  </div>
+
+                  {/* Bitrate */}
+                  <div>
+                    <label htmlFor="video-bitrate" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
+                      Bitrate ({formatBitrate(videoOptions.bitrate)})
+                    </label>
+                    <input
+                      id="video-bitrate"
+                      type="range"
+                      min={100000}
+                      max={50000000}
+                      step={100000}
+                      value={videoOptions.bitrate}
+                      onChange={e => updateVideoOptions({ bitrate: Number(e.target.value) })}
+                      className="w-full accent-rust-500"
+                      aria-label="Video bitrate"
+                      aria-valuemin={100000}
+                      aria-valuemax={50000000}
+                      aria-valuenow={videoOptions.bitrate}
+                    />
+                    <div className="flex justify-between text-[10px] text-dust-500 mt-0.5">
+                      <span>0.1 Mbps</span>
+                      <span>50 Mbps</span>
+                    </div>
+                  </div>
+                </>
+              )}
 
               {/* Duration */}
               <div>
@@ -445,8 +819,15 @@ export function ExportDialog({ isOpen, onClose }: ExportDialogProps) {
                   aria-label="Video duration in seconds"
                 />
                 <p className="text-[10px] text-dust-500 mt-0.5">
-                  0 = use camera path duration
+                  0 = camera path or timeline duration · {renderPlan.frameCount} frames at {renderPlan.fps} fps
                 </p>
+                {videoOptions.output === 'video' && (
+                  <p className="text-[10px] text-dust-500 mt-0.5">
+                    {isVideoEncoderAvailable()
+                      ? 'Encoded offline frame by frame (WebCodecs)'
+                      : 'This browser has no WebCodecs encoder, so the viewport is recorded in real time'}
+                  </p>
+                )}
               </div>
 
               {/* Camera path selector */}
@@ -467,6 +848,189 @@ export function ExportDialog({ isOpen, onClose }: ExportDialogProps) {
                   ))}
                 </select>
               </div>
+
+              {/* Frame guides and HUD */}
+              <Checkbox
+                id="video-burn-in"
+                label="Burn In Overlays"
+                checked={videoOptions.burnInOverlays ?? false}
+                onChange={v => updateVideoOptions({ burnInOverlays: v })}
+              />
+            </div>
+          )}
+
+          {/* Storyboard Tab */}
+          {activeTab === 'storyboard' && (
+            <div role="tabpanel" id="tabpanel-storyboard" className="px-6 py-4 space-y-4">
+              {/* Output format */}
+              <div>
+                <label htmlFor="storyboard-format" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
+                  Format
+                </label>
+                <select
+                  id="storyboard-format"
+                  value={storyboardOptions.format}
+                  onChange={e => updateStoryboardOptions({ format: e.target.value as StoryboardFormat })}
+                  className="w-full bg-dust-900 border border-dust-600/50 rounded px-2.5 py-1.5 text-[11px] text-sand-200 focus:border-rust-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 transition-colors"
+                  aria-label="Storyboard format"
+                >
+                  {STORYBOARD_FORMATS.map(f => (
+                    <option key={f.value} value={f.value}>{f.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Page size / orientation */}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="storyboard-page-size" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
+                    Page Size
+                  </label>
+                  <select
+                    id="storyboard-page-size"
+                    value={storyboardOptions.pageSize}
+                    onChange={e => updateStoryboardOptions({ pageSize: e.target.value as StoryboardPageSize })}
+                    className="w-full bg-dust-900 border border-dust-600/50 rounded px-2.5 py-1.5 text-[11px] text-sand-200 focus:border-rust-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 transition-colors"
+                    aria-label="Page size"
+                  >
+                    {Object.entries(STORYBOARD_PAGE_SIZES).map(([id, size]) => (
+                      <option key={id} value={id}>{size.label}</option>
+                    ))}
+                  </select>
+                </div>
+                <div>
+                  <label htmlFor="storyboard-orientation" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
+                    Orientation
+                  </label>
+                  <select
+                    id="storyboard-orientation"
+                    value={storyboardOptions.orientation}
+                    onChange={e => updateStoryboardOptions({ orientation: e.target.value as StoryboardOrientation })}
+                    className="w-full bg-dust-900 border border-dust-600/50 rounded px-2.5 py-1.5 text-[11px] text-sand-200 focus:border-rust-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 transition-colors"
+                    aria-label="Page orientation"
+                  >
+                    <option value="landscape">Landscape</option>
+                    <option value="portrait">Portrait</option>
+                  </select>
+                </div>
+              </div>
+
+              {/* Panels per page */}
+              <div>
+                <label htmlFor="storyboard-grid" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
+                  Panels per Page
+                </label>
+                <select
+                  id="storyboard-grid"
+                  value={`${storyboardOptions.columns}x${storyboardOptions.rows}`}
+                  onChange={e => {
+                    const [columns, rows] = e.target.value.split('x').map(Number)
+                    updateStoryboardOptions({ columns, rows })
+                  }}
+                  className="w-full bg-dust-900 border border-dust-600/50 rounded px-2.5 py-1.5 text-[11px] text-sand-200 focus:border-rust-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 transition-colors"
+                  aria-label="Panels per page"
+                >
+                  {STORYBOARD_GRIDS.map(grid => (
+                    <option key={grid.label} value={`${grid.columns}x${grid.rows}`}>
+                      {grid.label} ({grid.columns} × {grid.rows})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Render resolution */}
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label htmlFor="storyboard-width" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
+                    Render Width (px)
+                  </label>
+                  <input
+                    id="storyboard-width"
+                    type="number"
+                    min={64}
+                    max={4096}
+                    value={storyboardOptions.imageWidth}
+                    onChange={e => updateStoryboardOptions({ imageWidth: Number(e.target.value) })}
+                    className="w-full bg-dust-900 border border-dust-600/50 rounded px-2.5 py-1.5 text-[11px] text-sand-200 focus:border-rust-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 transition-colors"
+                    aria-label="Storyboard render width"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="storyboard-height" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
+                    Render Height (px)
+                  </label>
+                  <input
+                    id="storyboard-height"
+                    type="number"
+                    min={64}
+                    max={4096}
+                    value={storyboardOptions.imageHeight}
+                    onChange={e => updateStoryboardOptions({ imageHeight: Number(e.target.value) })}
+                    className="w-full bg-dust-900 border border-dust-600/50 rounded px-2.5 py-1.5 text-[11px] text-sand-200 focus:border-rust-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 transition-colors"
+                    aria-label="Storyboard render height"
+                  />
+                </div>
+              </div>
+
+              {/* Shot notes */}
+              <Checkbox
+                id="storyboard-notes"
+                label="Include Shot Notes"
+                checked={storyboardOptions.includeNotes}
+                onChange={v => updateStoryboardOptions({ includeNotes: v })}
+              />
+
+              <p className="text-[10px] text-dust-500">
+                {shotCount === 0
+                  ? 'No camera shots yet — capture shots to build a storyboard.'
+                  : `${shotCount} ${shotCount === 1 ? 'shot' : 'shots'} on ${storyboardPageCount(shotCount, storyboardOptions.columns * storyboardOptions.rows)}`}
+              </p>
+            </div>
+          )}
+          {/* Editorial Tab */}
+          {activeTab === 'editorial' && (
+            <div role="tabpanel" id="tabpanel-editorial" className="px-6 py-4 space-y-4">
+              {/* Output format */}
+              <div>
+                <label htmlFor="editorial-format" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
+                  Format
+                </label>
+                <select
+                  id="editorial-format"
+                  value={editorialOptions.format}
+                  onChange={e => updateEditorialOptions({ format: e.target.value as EditorialFormat })}
+                  className="w-full bg-dust-900 border border-dust-600/50 rounded px-2.5 py-1.5 text-[11px] text-sand-200 focus:border-rust-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 transition-colors"
+                  aria-label="Editorial format"
+                >
+                  {EDITORIAL_FORMATS.map(f => (
+                    <option key={f.value} value={f.value}>{f.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              {/* Media each event references */}
+              <div>
+                <label htmlFor="editorial-media" className="block text-[10px] font-medium text-dust-400 uppercase tracking-[0.06em] mb-1.5">
+                  Shot Media
+                </label>
+                <select
+                  id="editorial-media"
+                  value={editorialOptions.media}
+                  onChange={e => updateEditorialOptions({ media: e.target.value as EditorialMedia })}
+                  className="w-full bg-dust-900 border border-dust-600/50 rounded px-2.5 py-1.5 text-[11px] text-sand-200 focus:border-rust-500 focus:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 transition-colors"
+                  aria-label="Shot media"
+                >
+                  {EDITORIAL_MEDIA.map(m => (
+                    <option key={m.value} value={m.value}>{m.label}</option>
+                  ))}
+                </select>
+              </div>
+
+              <p className="text-[10px] text-dust-500">
+                {editEventCount === 0
+                  ? 'No camera shots yet — capture shots to build an edit.'
+                  : `${editEventCount} ${editEventCount === 1 ? 'event' : 'events'} ${clips.length > 0 ? 'from the sequence' : `from the shot list (${DEFAULT_CLIP_DURATION}s per shot)`} at ${videoOptions.fps} fps`}
+              </p>
             </div>
           )}
         </div>
@@ -502,6 +1066,11 @@ export function ExportDialog({ isOpen, onClose }: ExportDialogProps) {
                 {progress.error}
               </p>
             )}
+            {progress.status === 'complete' && progress.warnings?.map((warning, i) => (
+              <p key={i} className="mt-1.5 text-[11px] text-yellow-400">
+                {warning}
+              </p>
+            ))}
           </div>
         )}
 
@@ -515,6 +1084,7 @@ export function ExportDialog({ isOpen, onClose }: ExportDialogProps) {
             Cancel
           </button>
           <button
+            onClick={handleExport}
             disabled={isExporting}
             className={`px-4 py-2 text-sm font-semibold text-white rounded transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 ${
               isExporting
@@ -568,6 +1138,11 @@ function formatBitrate(bps: number): string {
   return `${(bps / 1000).toFixed(0)} kbps`
 }
 
+function storyboardPageCount(shots: number, perPage: number): string {
+  const pages = Math.ceil(shots / Math.max(perPage, 1))
+  return `${pages} ${pages === 1 ? 'page' : 'pages'}`
+}
+
 function statusLabel(status: string): string {
   switch (status) {
     case 'preparing': return 'Preparing...'
@@ -0,0 +1,78 @@
+import { useEffect, useRef, useState } from 'react'
+import { useCameraStore } from '../stores/useCameraStore'
+import { useCameraPathStore } from '../stores/useCameraPathStore'
+import { useAnimationStore } from '../stores/useAnimationStore'
+import { useExportStore } from '../stores/useExportStore'
+import { useSequenceStore } from '../stores/useSequenceStore'
+import { drawFrameOverlay, hasActiveOverlays } from '../core/overlays'
+import { locateClip } from '../core/sequence'
+import type { HudInfo } from '../types/overlay'
+
+// Camera path time while a path is running, otherwise the timeline's
+function useHudInfo(): HudInfo {
+  const lens = useCameraStore(s => s.lens)
+  const activeShotId = useCameraStore(s => s.activeShotId)
+  const shots = useCameraStore(s => s.shots)
+  const pathTime = useCameraPathStore(s => (s.playbackState === 'stopped' ? null : s.playbackTime))
+  const timelineTime = useAnimationStore(s => s.currentTime)
+  const fps = useExportStore(s => s.videoOptions.fps)
+
+  // While the animatic runs, the HUD follows the edit instead
+  const sequenceTime = useSequenceStore(s => (s.playbackState === 'stopped' ? null : s.playbackTime))
+  const sequenceShotId = useSequenceStore(s => {
+    if (s.playbackState === 'stopped') return null
+    const located = locateClip(s.clips, s.playbackTime)
+    return located ? s.clips[located.index].shotId : null
+  })
+
+  const shotId = sequenceTime !== null ? sequenceShotId : activeShotId
+  const shotName = shots.find(shot => shot.id === shotId)?.name ?? null
+
+  return { shotName, lens, time: sequenceTime ?? pathTime ?? timelineTime, fps }
+}
+
+/**
+ * Delivery mask, safe frames, composition guides and HUD drawn on a 2D canvas
+ * over the viewport. Uses the same renderer as the screenshot/video burn-in.
+ */
+export function FrameOverlay() {
+  const canvasRef = useRef<HTMLCanvasElement>(null)
+  const [size, setSize] = useState({ width: 0, height: 0 })
+  const overlays = useCameraStore(s => s.overlays)
+  const hud = useHudInfo()
+  const active = hasActiveOverlays(overlays)
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    if (!canvas) return
+    const observer = new ResizeObserver(([entry]) => {
+      const dpr = window.devicePixelRatio || 1
+      setSize({
+        width: Math.round(entry.contentRect.width * dpr),
+        height: Math.round(entry.contentRect.height * dpr),
+      })
+    })
+    observer.observe(canvas)
+    return () => observer.disconnect()
+  }, [active])
+
+  useEffect(() => {
+    const canvas = canvasRef.current
+    const ctx = canvas?.getContext('2d')
+    if (!canvas || !ctx) return
+    canvas.width = size.width
+    canvas.height = size.height
+    ctx.clearRect(0, 0, size.width, size.height)
+    drawFrameOverlay(ctx, size.width, size.height, overlays, hud)
+  }, [size, overlays, hud])
+
+  if (!active) return null
+
+  return (
+    <canvas
+      ref={canvasRef}
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      aria-hidden="true"
+    />
+  )
+}
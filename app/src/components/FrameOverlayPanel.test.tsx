@@ -0,0 +1,60 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { FrameOverlayPanel } from './FrameOverlayPanel'
+import { useCameraStore } from '../stores/useCameraStore'
+import { createDefaultOverlaySettings } from '../core/overlays'
+
+describe('FrameOverlayPanel', () => {
+  beforeEach(() => {
+    useCameraStore.setState({ overlays: createDefaultOverlaySettings() })
+  })
+
+  it('offers every delivery aspect plus the full canvas', () => {
+    render(<FrameOverlayPanel />)
+
+    const select = screen.getByLabelText('Delivery aspect')
+    expect(select).toHaveValue('')
+    const options = Array.from(select.querySelectorAll('option')).map(o => o.textContent)
+    expect(options).toEqual([
+      'None (full canvas)',
+      'Scope 2.39:1',
+      'Flat 1.85:1',
+      'HD 16:9',
+      'Vertical 9:16',
+      'Portrait 4:5',
+    ])
+  })
+
+  it('selecting an aspect masks the viewport and shows the opacity knob', async () => {
+    const user = userEvent.setup()
+    render(<FrameOverlayPanel />)
+    expect(screen.queryByRole('slider', { name: 'Mask opacity' })).not.toBeInTheDocument()
+
+    await user.selectOptions(screen.getByLabelText('Delivery aspect'), '2.39:1')
+    expect(useCameraStore.getState().overlays.aspect).toBe('2.39:1')
+
+    const knob = screen.getByRole('slider', { name: 'Mask opacity' })
+    fireEvent.keyDown(knob, { key: 'ArrowUp' })
+    expect(useCameraStore.getState().overlays.maskOpacity).toBeCloseTo(0.9, 6)
+
+    await user.selectOptions(screen.getByLabelText('Delivery aspect'), '')
+    expect(useCameraStore.getState().overlays.aspect).toBeNull()
+  })
+
+  it('toggles safe frames, guides and the HUD', async () => {
+    const user = userEvent.setup()
+    render(<FrameOverlayPanel />)
+
+    await user.click(screen.getByRole('checkbox', { name: 'Title safe' }))
+    await user.click(screen.getByRole('checkbox', { name: 'Golden ratio' }))
+    await user.click(screen.getByRole('checkbox', { name: /HUD/ }))
+
+    const overlays = useCameraStore.getState().overlays
+    expect(overlays.titleSafe).toBe(true)
+    expect(overlays.goldenRatio).toBe(true)
+    expect(overlays.hud).toBe(true)
+    expect(overlays.actionSafe).toBe(false)
+    expect(screen.getByRole('checkbox', { name: 'Title safe' })).toBeChecked()
+  })
+})
@@ -0,0 +1,77 @@
+import { useCameraStore } from '../stores/useCameraStore'
+import { CollapsibleSection } from './ui/CollapsibleSection'
+import { RotaryKnob } from './ui/RotaryKnob'
+import { FRAME_ASPECTS, isFrameAspect } from '../core/overlays'
+import type { OverlaySettings } from '../types/overlay'
+
+type OverlayToggle = 'actionSafe' | 'titleSafe' | 'ruleOfThirds' | 'goldenRatio' | 'centerCross' | 'hud'
+
+const TOGGLES: { key: OverlayToggle; label: string }[] = [
+  { key: 'actionSafe', label: 'Action safe' },
+  { key: 'titleSafe', label: 'Title safe' },
+  { key: 'ruleOfThirds', label: 'Rule of thirds' },
+  { key: 'goldenRatio', label: 'Golden ratio' },
+  { key: 'centerCross', label: 'Center cross' },
+  { key: 'hud', label: 'HUD (shot, lens, timecode)' },
+]
+
+/** Delivery mask, safe frames, composition guides and HUD over the viewport */
+export function FrameOverlayPanel() {
+  const overlays = useCameraStore(s => s.overlays)
+  const updateOverlays = useCameraStore(s => s.updateOverlays)
+
+  const setToggle = (key: OverlayToggle, value: boolean) => {
+    updateOverlays({ [key]: value } as Partial<OverlaySettings>)
+  }
+
+  return (
+    <CollapsibleSection title="Frame Guides" variant="primary" defaultOpen>
+      <div className="p-3">
+        <div className="mb-2">
+          <label htmlFor="frame-overlay-aspect" className="text-[10px] text-dust-300 mb-1 block font-medium">
+            Delivery aspect
+          </label>
+          <select
+            id="frame-overlay-aspect"
+            value={overlays.aspect ?? ''}
+            onChange={e => updateOverlays({ aspect: isFrameAspect(e.target.value) ? e.target.value : null })}
+            className="w-full bg-dust-900/80 border border-dust-600/50 rounded px-2 py-1 text-[11px] text-sand-200 hover:border-dust-500/70 focus:border-rust-500/50 focus:ring-1 focus:ring-rust-500/20 focus:outline-none transition-all duration-150"
+          >
+            <option value="">None (full canvas)</option>
+            {FRAME_ASPECTS.map(aspect => (
+              <option key={aspect.id} value={aspect.id}>{aspect.label}</option>
+            ))}
+          </select>
+        </div>
+
+        {overlays.aspect && (
+          <div className="flex justify-center mb-2">
+            <RotaryKnob
+              value={overlays.maskOpacity}
+              onChange={v => updateOverlays({ maskOpacity: v })}
+              label="Mask"
+              aria-label="Mask opacity"
+              size="sm"
+              min={0}
+              max={1}
+              step={0.05}
+              precision={2}
+            />
+          </div>
+        )}
+
+        {TOGGLES.map(({ key, label }) => (
+          <label key={key} className="flex items-center gap-2 cursor-pointer mb-1.5">
+            <input
+              type="checkbox"
+              checked={overlays[key]}
+              onChange={e => setToggle(key, e.target.checked)}
+              className="accent-rust-500"
+            />
+            <span className="text-xs text-dust-300">{label}</span>
+          </label>
+        ))}
+      </div>
+    </CollapsibleSection>
+  )
+}
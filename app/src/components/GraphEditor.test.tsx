@@ -0,0 +1,217 @@
+import { render, screen, fireEvent, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { GraphEditor } from './GraphEditor'
+import { useAnimationStore } from '../stores/useAnimationStore'
+import { useSceneStore } from '../stores/useSceneStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
+import { evaluateProperty, resetKeyframeIdCounter } from '../core/animation'
+
+function resetStores() {
+  useAnimationStore.setState({
+    tracks: [],
+    duration: 5,
+    currentTime: 0,
+    isPlaying: false,
+    frameRate: 24,
+    snapToFrames: true,
+    keyframeClipboard: null,
+  })
+  useSceneStore.getState().clearScene()
+  useHistoryStore.getState().clear()
+  resetKeyframeIdCounter()
+}
+
+/** Box 1 with position keys at 0s (origin) and 2s (4, 2, 0) */
+function animateBox(): string {
+  useSceneStore.getState().addObject('box')
+  const boxId = useSceneStore.getState().objects[0].id
+  const { addTrack, addKeyframe } = useAnimationStore.getState()
+  const trackId = addTrack(boxId)
+  addKeyframe(trackId, 0, 'position', { x: 0, y: 0, z: 0 })
+  addKeyframe(trackId, 2, 'position', { x: 4, y: 2, z: 0 })
+  return trackId
+}
+
+/** A key's offset along the plot, as a number of percent */
+function leftPercent(el: HTMLElement): number {
+  return parseFloat(el.style.left)
+}
+
+function positionKeys() {
+  return useAnimationStore.getState().tracks[0].keyframes.filter(kf => kf.property === 'position')
+}
+
+/**
+ * Lay the plot out 240 x 480. Framing all keys shows -0.2s to 2.2s and
+ * values -0.4 to 4.4, so the plot runs 100px per second and per unit.
+ */
+function layOut() {
+  const plot = screen.getByRole('region', { name: 'Graph editor' })
+  plot.getBoundingClientRect = () => ({
+    left: 0, top: 0, right: 240, bottom: 480, width: 240, height: 480, x: 0, y: 0, toJSON: () => ({}),
+  })
+  return plot
+}
+
+describe('GraphEditor', () => {
+  beforeEach(resetStores)
+
+  it('shows X, Y and Z keys for each animated property', () => {
+    animateBox()
+    render(<GraphEditor />)
+
+    expect(screen.getByRole('combobox', { name: 'Graph track' })).toHaveDisplayValue('Box 1')
+    expect(screen.getByRole('button', { name: 'Position X' })).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getAllByRole('button', { name: /^Position [XYZ] key at frame/ })).toHaveLength(6)
+    expect(screen.getByRole('button', { name: 'Position Y key at frame 48' })).toBeInTheDocument()
+  })
+
+  it('hides and shows a channel', async () => {
+    const user = userEvent.setup()
+    animateBox()
+    render(<GraphEditor />)
+
+    await user.click(screen.getByRole('button', { name: 'Position Z' }))
+    expect(screen.getByRole('button', { name: 'Position Z' })).toHaveAttribute('aria-pressed', 'false')
+    expect(screen.queryByRole('button', { name: /Position Z key/ })).not.toBeInTheDocument()
+    expect(screen.getAllByRole('button', { name: /key at frame/ })).toHaveLength(4)
+  })
+
+  it('shows the selected object’s track and switches tracks', async () => {
+    const user = userEvent.setup()
+    animateBox()
+    useSceneStore.getState().addObject('sphere')
+    const sphereId = useSceneStore.getState().objects[1].id
+    const sphereTrack = useAnimationStore.getState().addTrack(sphereId)
+    useAnimationStore.getState().addKeyframe(sphereTrack, 1, 'scale', { x: 2, y: 2, z: 2 })
+    act(() => {
+      useSceneStore.getState().selectObject(sphereId)
+    })
+    render(<GraphEditor />)
+
+    expect(screen.getByRole('button', { name: 'Scale X key at frame 24' })).toBeInTheDocument()
+    await user.selectOptions(screen.getByRole('combobox', { name: 'Graph track' }), 'Box 1')
+    expect(screen.getByRole('button', { name: 'Position X key at frame 0' })).toBeInTheDocument()
+  })
+
+  it('drags one channel of a key, splitting it, as one undo step', () => {
+    animateBox()
+    useHistoryStore.getState().clear()
+    render(<GraphEditor />)
+    layOut()
+
+    const key = screen.getByRole('button', { name: 'Position X key at frame 48' })
+    fireEvent.mouseDown(key, { button: 0, clientX: 220, clientY: 40 })
+    fireEvent.mouseMove(window, { clientX: 170, clientY: 90 })
+    fireEvent.mouseMove(window, { clientX: 120, clientY: 140 })
+    fireEvent.mouseUp(window)
+
+    const x = positionKeys().filter(kf => kf.channel === 'x')
+    expect(x.map(kf => [kf.time, kf.value.x])).toEqual([[0, 0], [1, 3]])
+    expect(positionKeys().find(kf => kf.channel === 'y' && kf.time === 2)?.value.y).toBe(2)
+    expect(useHistoryStore.getState().entries).toHaveLength(2)
+    expect(screen.getByRole('button', { name: 'Position X key at frame 24' })).toHaveAttribute('aria-pressed', 'true')
+
+    act(() => {
+      useHistoryStore.getState().undo()
+    })
+    expect(positionKeys().map(kf => kf.channel)).toEqual([undefined, undefined])
+  })
+
+  it('sets tangent modes on the selected keys', async () => {
+    const user = userEvent.setup()
+    animateBox()
+    render(<GraphEditor />)
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Position Y key at frame 0' }), { button: 0 })
+    fireEvent.mouseUp(window)
+    await user.click(screen.getByRole('button', { name: 'Set flat tangents' }))
+
+    expect(positionKeys().find(kf => kf.channel === 'y' && kf.time === 0)?.tangent).toBe('flat')
+    expect(screen.getByRole('button', { name: 'Set flat tangents' })).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByRole('button', { name: 'Position Y key at frame 0' })).toHaveAttribute('aria-pressed', 'true')
+  })
+
+  it('drags a tangent handle to break it', () => {
+    const trackId = animateBox()
+    render(<GraphEditor />)
+    layOut()
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Position X key at frame 0' }), { button: 0 })
+    fireEvent.mouseUp(window)
+    // One second right of the key and 3 units up: a slope of 3
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Position X out handle' }), { button: 0 })
+    fireEvent.mouseMove(window, { clientX: 120, clientY: 140 })
+    fireEvent.mouseUp(window)
+
+    const key = positionKeys().find(kf => kf.channel === 'x' && kf.time === 0)
+    expect(key).toMatchObject({ tangent: 'broken', inSlope: 2 })
+    expect(key?.outSlope).toBeCloseTo(3)
+    expect(screen.getByRole('textbox', { name: 'Out slope' })).toHaveValue('3')
+    const track = useAnimationStore.getState().tracks.find(t => t.id === trackId)!
+    expect(evaluateProperty(track, 'position', 1)!.x).toBeGreaterThan(2)
+  })
+
+  it('adds a key on the nearest curve with a double-click', () => {
+    animateBox()
+    render(<GraphEditor />)
+    const plot = layOut()
+
+    // At 1s the Y curve passes through 1
+    fireEvent.doubleClick(plot, { clientX: 120, clientY: 340 })
+
+    expect(screen.getByRole('button', { name: 'Position Y key at frame 24' })).toHaveAttribute('aria-pressed', 'true')
+    expect(positionKeys().filter(kf => kf.channel === 'y').map(kf => kf.time)).toEqual([0, 1, 2])
+  })
+
+  it('edits the frame and value of a single key', async () => {
+    const user = userEvent.setup()
+    animateBox()
+    render(<GraphEditor />)
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Position Z key at frame 48' }), { button: 0 })
+    fireEvent.mouseUp(window)
+    const value = screen.getByRole('textbox', { name: 'Value' })
+    await user.clear(value)
+    await user.type(value, '5{Enter}')
+
+    expect(positionKeys().find(kf => kf.channel === 'z' && kf.time === 2)?.value.z).toBe(5)
+    expect(screen.getByRole('button', { name: 'Position Z key at frame 48' })).toHaveAttribute('aria-pressed', 'true')
+  })
+
+  it('frames the selection and everything', async () => {
+    const user = userEvent.setup()
+    animateBox()
+    render(<GraphEditor />)
+    const key = screen.getByRole('button', { name: 'Position X key at frame 48' })
+    expect(leftPercent(key)).toBeCloseTo((2.2 / 2.4) * 100)
+
+    fireEvent.mouseDown(key, { button: 0 })
+    fireEvent.mouseUp(window)
+    await user.click(screen.getByRole('button', { name: 'Frame Selected' }))
+    expect(leftPercent(key)).toBeCloseTo(50)
+    expect(parseFloat(key.style.top)).toBeCloseTo(50)
+
+    fireEvent.keyDown(screen.getByRole('region', { name: 'Graph editor' }), { key: 'Home' })
+    expect(leftPercent(key)).toBeCloseTo((2.2 / 2.4) * 100)
+  })
+
+  it('deletes one channel of a key with the Delete key', () => {
+    animateBox()
+    render(<GraphEditor />)
+
+    fireEvent.mouseDown(screen.getByRole('button', { name: 'Position X key at frame 48' }), { button: 0 })
+    fireEvent.mouseUp(window)
+    fireEvent.keyDown(screen.getByRole('region', { name: 'Graph editor' }), { key: 'Delete' })
+
+    expect(positionKeys()).toHaveLength(5)
+    expect(screen.queryByRole('button', { name: 'Position X key at frame 48' })).not.toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Position Y key at frame 48' })).toBeInTheDocument()
+  })
+
+  it('shows a hint without any tracks', () => {
+    render(<GraphEditor />)
+    expect(screen.getByText(/No keyframes yet/)).toBeInTheDocument()
+  })
+})
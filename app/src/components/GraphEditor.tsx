@@ -0,0 +1,621 @@
+import { useState, useCallback, useMemo, useRef, type MouseEvent, type KeyboardEvent } from 'react'
+import { useAnimationStore } from '../stores/useAnimationStore'
+import { useSceneStore } from '../stores/useSceneStore'
+import { sealHistory } from '../stores/useHistoryStore'
+import { CAMERA_TRACK_OBJECT_ID, ENVIRONMENT_TRACK_OBJECT_ID, TANGENT_MODES, getKeySlopes, interpolateChannel, isCameraTrack } from '../core/animation'
+import { PROPERTY_LABELS, snapToFrame } from '../core/dopeSheet'
+import {
+  frameCurvePoints,
+  getChannelCurves,
+  getChannelKey,
+  getChannelName,
+  getCurveLabel,
+  getCurveProperties,
+  sampleChannel,
+  type ChannelCurve,
+  type ChannelKeyRef,
+  type CurvePoint,
+  type GraphView,
+} from '../core/graphEditor'
+import type { ChannelAxis } from '../types/scene'
+
+// ── Helpers ──────────────────────────────────────────────────────────────
+
+const AXIS_COLORS: Record<ChannelAxis, string> = {
+  x: '#f87171',
+  y: '#4ade80',
+  z: '#60a5fa',
+}
+
+const LABEL_WIDTH = 140
+
+/** Samples drawn across the view for each curve */
+const CURVE_SAMPLES = 160
+
+/** Tangent handles reach this fraction of the visible time range */
+const HANDLE_REACH = 0.06
+
+/** Shortest handle, in seconds, so a handle dragged onto its key keeps a direction */
+const MIN_HANDLE_SPAN = 1e-3
+
+/** Ticks along each edge of the graph */
+const GRID_LINES = 5
+
+function curveId(curve: { property: string; axis: ChannelAxis }): string {
+  return `${curve.property}:${curve.axis}`
+}
+
+function isRefSelected(refs: ChannelKeyRef[], keyframeId: string, axis: ChannelAxis): boolean {
+  return refs.some(ref => ref.keyframeId === keyframeId && ref.axis === axis)
+}
+
+/** Points that frame a curve: its keys and the overshoot of the segments between them */
+function getCurveExtent(curve: ChannelCurve): CurvePoint[] {
+  const first = curve.keyframes[0]
+  const last = curve.keyframes[curve.keyframes.length - 1]
+  if (!first) return []
+  if (first.time === last.time) return [{ time: first.time, value: first.value[curve.axis] }]
+  return sampleChannel(curve, first.time, last.time, CURVE_SAMPLES)
+}
+
+/** Number input that commits on Enter or blur; remount it with a key to show a new value */
+function NumberField({ label, value, onCommit }: { label: string; value: number; onCommit: (value: number) => void }) {
+  const [draft, setDraft] = useState(String(+value.toFixed(3)))
+  const commit = () => {
+    const parsed = parseFloat(draft)
+    if (Number.isFinite(parsed) && parsed !== value) onCommit(parsed)
+  }
+  return (
+    <label className="flex items-center gap-1 text-dust-400">
+      <span>{label}</span>
+      <input
+        type="text"
+        value={draft}
+        onChange={e => setDraft(e.target.value)}
+        onKeyDown={e => {
+          if (e.key === 'Enter') commit()
+        }}
+        onBlur={commit}
+        aria-label={label}
+        className="w-14 px-1 py-0.5 rounded bg-dust-900 border border-dust-600 text-sand-200 text-xs text-center focus:outline-none focus:ring-1 focus:ring-rust-500"
+        maxLength={10}
+      />
+    </label>
+  )
+}
+
+// ── Component ────────────────────────────────────────────────────────────
+
+/**
+ * X, Y and Z curves of one track's properties. Drag keys to retime and
+ * reshape them, pick a tangent mode for the selection, drag the handles of
+ * a selected key to break its tangent, and double-click to add a key on
+ * the nearest curve. Whole-Vec3 keys split into channel keys on first edit.
+ */
+export function GraphEditor() {
+  const [trackChoice, setTrackChoice] = useState<string | null>(null)
+  const [hidden, setHidden] = useState<Set<string>>(() => new Set())
+  const [selection, setSelection] = useState<ChannelKeyRef[]>([])
+  // null follows the curves as they change; framing or dragging pins it
+  const [view, setView] = useState<GraphView | null>(null)
+  const plotRef = useRef<HTMLDivElement>(null)
+
+  const tracks = useAnimationStore(s => s.tracks)
+  const duration = useAnimationStore(s => s.duration)
+  const currentTime = useAnimationStore(s => s.currentTime)
+  const frameRate = useAnimationStore(s => s.frameRate)
+
+  const setCurrentTime = useAnimationStore(s => s.setCurrentTime)
+  const updateChannelKeys = useAnimationStore(s => s.updateChannelKeys)
+  const setTangentMode = useAnimationStore(s => s.setTangentMode)
+  const addChannelKey = useAnimationStore(s => s.addChannelKey)
+  const removeChannelKeys = useAnimationStore(s => s.removeChannelKeys)
+
+  const objects = useSceneStore(s => s.objects)
+  const selectedId = useSceneStore(s => s.selectedId)
+
+  // Camera first, then objects, as in the track view
+  const sortedTracks = useMemo(
+    () => [...tracks.filter(isCameraTrack), ...tracks.filter(t => !isCameraTrack(t))],
+    [tracks],
+  )
+
+  // The chosen track, else the selected object's, else the first
+  const track = sortedTracks.find(t => t.id === trackChoice)
+    ?? sortedTracks.find(t => t.objectId === selectedId)
+    ?? sortedTracks[0]
+
+  const curves = useMemo(
+    () => track ? getCurveProperties(track).flatMap(property => getChannelCurves(track, property)) : [],
+    [track],
+  )
+  const visibleCurves = useMemo(
+    () => curves.filter(curve => curve.keyframes.length > 0 && !hidden.has(curveId(curve))),
+    [curves, hidden],
+  )
+
+  // Undo or an edit elsewhere can remove selected keys; only keep the ones still there
+  const liveSelection = useMemo(
+    () => track ? selection.filter(ref => getChannelKey(track, ref)) : [],
+    [selection, track],
+  )
+
+  const allView = useMemo(() => frameCurvePoints(visibleCurves.flatMap(getCurveExtent)), [visibleCurves])
+  const activeView = useMemo<GraphView>(
+    () => view ?? allView ?? { fromTime: 0, toTime: duration, minValue: -1, maxValue: 1 },
+    [view, allView, duration],
+  )
+
+  const getObjectName = useCallback(
+    (objectId: string): string => {
+      if (objectId === CAMERA_TRACK_OBJECT_ID) return 'Camera'
+      if (objectId === ENVIRONMENT_TRACK_OBJECT_ID) return 'Environment'
+      return objects.find(o => o.id === objectId)?.name ?? '(deleted)'
+    },
+    [objects],
+  )
+
+  // ── Curve space to plot percentages and back ───────────────────────
+
+  const timeRange = activeView.toTime - activeView.fromTime
+  const valueRange = activeView.maxValue - activeView.minValue
+  const toX = (time: number) => ((time - activeView.fromTime) / timeRange) * 100
+  const toY = (value: number) => ((activeView.maxValue - value) / valueRange) * 100
+
+  const toCurvePoint = useCallback((clientX: number, clientY: number, frame: GraphView): CurvePoint => {
+    const rect = plotRef.current?.getBoundingClientRect()
+    if (!rect || rect.width <= 0 || rect.height <= 0) return { time: frame.fromTime, value: frame.maxValue }
+    return {
+      time: frame.fromTime + ((clientX - rect.left) / rect.width) * (frame.toTime - frame.fromTime),
+      value: frame.maxValue - ((clientY - rect.top) / rect.height) * (frame.maxValue - frame.minValue),
+    }
+  }, [])
+
+  // ── Framing ────────────────────────────────────────────────────────
+
+  const frameAll = useCallback(() => setView(allView), [allView])
+
+  const frameSelected = useCallback(() => {
+    if (!track || liveSelection.length === 0) return frameAll()
+    const points = liveSelection.map(ref => {
+      const key = getChannelKey(track, ref)!
+      return { time: key.time, value: key.value[ref.axis] }
+    })
+    setView(frameCurvePoints(points))
+  }, [track, liveSelection, frameAll])
+
+  // ── Key selection and drag ─────────────────────────────────────────
+
+  const handleKeyMouseDown = useCallback(
+    (ref: ChannelKeyRef, e: MouseEvent) => {
+      e.stopPropagation()
+      if (e.button !== 0 || !track) return
+      plotRef.current?.focus()
+
+      const wasSelected = isRefSelected(liveSelection, ref.keyframeId, ref.axis)
+      let dragged: ChannelKeyRef[]
+      if (e.shiftKey) {
+        dragged = wasSelected
+          ? liveSelection.filter(r => !(r.keyframeId === ref.keyframeId && r.axis === ref.axis))
+          : [...liveSelection, ref]
+      } else {
+        // Pressing a key of the selection drags the whole group
+        dragged = wasSelected ? liveSelection : [ref]
+      }
+      setSelection(dragged)
+      if (e.shiftKey && wasSelected) return
+
+      // Pin the view so the graph doesn't reframe under the mouse
+      const frame = activeView
+      setView(frame)
+      const start = toCurvePoint(e.clientX, e.clientY, frame)
+      const origins = dragged.map(r => {
+        const key = getChannelKey(track, r)!
+        return { time: key.time, value: key.value[r.axis] }
+      })
+      const pressed = origins[Math.max(0, dragged.findIndex(r => r.keyframeId === ref.keyframeId && r.axis === ref.axis))]
+      let refs = dragged
+      sealHistory()
+
+      const onMouseMove = (moveEvent: globalThis.MouseEvent) => {
+        const { snapToFrames: snap, frameRate: fps } = useAnimationStore.getState()
+        const point = toCurvePoint(moveEvent.clientX, moveEvent.clientY, frame)
+        let dt = point.time - start.time
+        // Land the pressed key on a frame; the rest keep their spacing
+        if (snap) dt = snapToFrame(pressed.time + dt, fps) - pressed.time
+        const dv = point.value - start.value
+        refs = updateChannelKeys(track.id, refs.map((r, i) => ({
+          ref: r,
+          time: origins[i].time + dt,
+          value: origins[i].value + dv,
+        })))
+        setSelection(refs)
+      }
+
+      const onMouseUp = () => {
+        window.removeEventListener('mousemove', onMouseMove)
+        window.removeEventListener('mouseup', onMouseUp)
+      }
+
+      window.addEventListener('mousemove', onMouseMove)
+      window.addEventListener('mouseup', onMouseUp)
+    },
+    [track, liveSelection, activeView, toCurvePoint, updateChannelKeys],
+  )
+
+  const handleHandleMouseDown = useCallback(
+    (ref: ChannelKeyRef, side: 'in' | 'out', e: MouseEvent) => {
+      e.stopPropagation()
+      if (e.button !== 0 || !track) return
+      const key = getChannelKey(track, ref)
+      if (!key) return
+
+      const frame = activeView
+      setView(frame)
+      const origin = { time: key.time, value: key.value[ref.axis] }
+      let current = ref
+      sealHistory()
+
+      const onMouseMove = (moveEvent: globalThis.MouseEvent) => {
+        const point = toCurvePoint(moveEvent.clientX, moveEvent.clientY, frame)
+        // Handles stay on their own side of the key
+        const span = Math.max(MIN_HANDLE_SPAN, side === 'out' ? point.time - origin.time : origin.time - point.time)
+        const rise = side === 'out' ? point.value - origin.value : origin.value - point.value
+        const slope = rise / span
+        const [next] = updateChannelKeys(track.id, [side === 'out' ? { ref: current, outSlope: slope } : { ref: current, inSlope: slope }])
+        if (next.keyframeId !== current.keyframeId) {
+          const renamed = current
+          setSelection(sel => sel.map(r => r.keyframeId === renamed.keyframeId && r.axis === renamed.axis ? next : r))
+        }
+        current = next
+      }
+
+      const onMouseUp = () => {
+        window.removeEventListener('mousemove', onMouseMove)
+        window.removeEventListener('mouseup', onMouseUp)
+      }
+
+      window.addEventListener('mousemove', onMouseMove)
+      window.addEventListener('mouseup', onMouseUp)
+    },
+    [track, activeView, toCurvePoint, updateChannelKeys],
+  )
+
+  // ── Plot clicks ────────────────────────────────────────────────────
+
+  const handlePlotMouseDown = useCallback(
+    (e: MouseEvent) => {
+      if (e.button !== 0) return
+      // A click on empty graph clears the selection and moves the playhead
+      if (!e.shiftKey) setSelection([])
+      setCurrentTime(toCurvePoint(e.clientX, e.clientY, activeView).time)
+    },
+    [toCurvePoint, activeView, setCurrentTime],
+  )
+
+  const handlePlotDoubleClick = useCallback(
+    (e: MouseEvent) => {
+      if (!track || visibleCurves.length === 0) return
+      const { snapToFrames: snap } = useAnimationStore.getState()
+      const point = toCurvePoint(e.clientX, e.clientY, activeView)
+      const time = snap ? snapToFrame(point.time, frameRate) : point.time
+
+      // The key goes on the visible curve passing closest to the click
+      let nearest = visibleCurves[0]
+      let distance = Infinity
+      for (const curve of visibleCurves) {
+        const value = interpolateChannel(curve.keyframes, time, curve.axis) ?? 0
+        if (Math.abs(value - point.value) < distance) {
+          distance = Math.abs(value - point.value)
+          nearest = curve
+        }
+      }
+      const ref = addChannelKey(track.id, nearest.property, nearest.axis, time)
+      if (ref) setSelection([ref])
+    },
+    [track, visibleCurves, toCurvePoint, activeView, frameRate, addChannelKey],
+  )
+
+  // ── Toolbar actions ────────────────────────────────────────────────
+
+  const handleDelete = useCallback(() => {
+    if (!track) return
+    removeChannelKeys(track.id, liveSelection)
+    setSelection([])
+  }, [track, removeChannelKeys, liveSelection])
+
+  const handlePlotKeyDown = useCallback(
+    (e: KeyboardEvent) => {
+      const mod = e.ctrlKey || e.metaKey
+      let handled = true
+      if (mod && e.key.toLowerCase() === 'a') {
+        setSelection(visibleCurves.flatMap(curve => curve.keyframes.map(kf => ({ keyframeId: kf.id, axis: curve.axis }))))
+      } else if (e.key === 'Delete' || e.key === 'Backspace') handleDelete()
+      else if (e.key === 'Escape') setSelection([])
+      else if (e.key === 'Home') frameAll()
+      else if (!mod && e.key.toLowerCase() === 'f') frameSelected()
+      else handled = false
+
+      if (handled) {
+        // Keep the editor-wide shortcuts (select all, delete, focus) from also firing
+        e.preventDefault()
+        e.stopPropagation()
+      }
+    },
+    [visibleCurves, handleDelete, frameAll, frameSelected],
+  )
+
+  const toggleCurve = (id: string) => {
+    setHidden(current => {
+      const next = new Set(current)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  if (!track) {
+    return (
+      <div className="flex-1 flex items-center justify-center text-xs text-dust-500">
+        No keyframes yet. Capture a keyframe to start blocking.
+      </div>
+    )
+  }
+
+  const selectedKeys = liveSelection.map(ref => ({ ref, key: getChannelKey(track, ref)! }))
+  const single = selectedKeys.length === 1 ? selectedKeys[0] : null
+  const handleSpan = timeRange * HANDLE_REACH
+  const timeTicks = Array.from({ length: GRID_LINES }, (_, i) => activeView.fromTime + (timeRange * (i + 0.5)) / GRID_LINES)
+  const valueTicks = Array.from({ length: GRID_LINES }, (_, i) => activeView.minValue + (valueRange * (i + 0.5)) / GRID_LINES)
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {/* ── Graph toolbar ────────────────────────────────────────────── */}
+      <div className="flex items-center gap-2 px-3 py-1 border-b border-dust-600/25 shrink-0 text-xs">
+        <select
+          value={track.id}
+          onChange={e => {
+            setTrackChoice(e.target.value)
+            setSelection([])
+            setView(null)
+          }}
+          aria-label="Graph track"
+          className="px-1 py-0.5 rounded bg-dust-900 border border-dust-600 text-sand-200 text-xs focus:outline-none focus:ring-1 focus:ring-rust-500"
+        >
+          {sortedTracks.map(t => (
+            <option key={t.id} value={t.id}>{getObjectName(t.objectId)}</option>
+          ))}
+        </select>
+
+        <div className="w-px h-4 bg-dust-600 mx-1" />
+
+        {TANGENT_MODES.map(mode => {
+          const active = selectedKeys.length > 0 && selectedKeys.every(({ key }) => key.tangent === mode)
+          return (
+            <button
+              key={mode}
+              onClick={() => setSelection(setTangentMode(track.id, liveSelection, mode))}
+              disabled={liveSelection.length === 0}
+              aria-pressed={active}
+              aria-label={`Set ${mode} tangents`}
+              className={`px-2 py-0.5 rounded text-[10px] font-semibold capitalize tracking-[0.06em] transition-colors disabled:opacity-40 disabled:cursor-default focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 ${
+                active
+                  ? 'bg-rust-500/30 text-rust-300 border border-rust-500/50'
+                  : 'bg-dust-700 text-dust-400 hover:bg-dust-600'
+              }`}
+            >
+              {mode}
+            </button>
+          )
+        })}
+
+        <div className="w-px h-4 bg-dust-600 mx-1" />
+
+        <button
+          onClick={frameAll}
+          title="Frame all visible curves (Home)"
+          className="px-2 py-0.5 rounded text-xs btn-glass text-sand-200 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500"
+        >
+          Frame All
+        </button>
+        <button
+          onClick={frameSelected}
+          disabled={liveSelection.length === 0}
+          title="Frame the selected keys (F)"
+          className="px-2 py-0.5 rounded text-xs btn-glass text-sand-200 disabled:opacity-40 disabled:cursor-default focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500"
+        >
+          Frame Selected
+        </button>
+
+        {single && (
+          <>
+            <div className="w-px h-4 bg-dust-600 mx-1" />
+            <NumberField
+              key={`frame:${single.key.id}:${single.key.time}`}
+              label="Frame"
+              value={single.key.time * frameRate}
+              onCommit={frame => setSelection(updateChannelKeys(track.id, [{ ref: single.ref, time: frame / frameRate }]))}
+            />
+            <NumberField
+              key={`value:${single.key.id}:${single.key.value[single.ref.axis]}`}
+              label="Value"
+              value={single.key.value[single.ref.axis]}
+              onCommit={value => setSelection(updateChannelKeys(track.id, [{ ref: single.ref, value }]))}
+            />
+            {single.key.tangent === 'broken' && (
+              <>
+                <NumberField
+                  key={`in:${single.key.id}:${single.key.inSlope}`}
+                  label="In slope"
+                  value={single.key.inSlope ?? 0}
+                  onCommit={inSlope => setSelection(updateChannelKeys(track.id, [{ ref: single.ref, inSlope }]))}
+                />
+                <NumberField
+                  key={`out:${single.key.id}:${single.key.outSlope}`}
+                  label="Out slope"
+                  value={single.key.outSlope ?? 0}
+                  onCommit={outSlope => setSelection(updateChannelKeys(track.id, [{ ref: single.ref, outSlope }]))}
+                />
+              </>
+            )}
+          </>
+        )}
+
+        <button
+          onClick={handleDelete}
+          disabled={liveSelection.length === 0}
+          aria-label="Delete selected curve keys"
+          className="ml-auto px-2 py-0.5 rounded text-xs btn-glass text-rust-300 disabled:opacity-40 disabled:cursor-default focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500"
+        >
+          Delete
+        </button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* ── Channel list ─────────────────────────────────────────────── */}
+        <div className="shrink-0 border-r border-dust-600/25 overflow-y-auto py-1" style={{ width: LABEL_WIDTH }}>
+          {getCurveProperties(track).map(property => (
+            <div key={property} className="flex items-center gap-1 px-2 py-0.5">
+              <span className="flex-1 text-xs text-dust-300 truncate">{PROPERTY_LABELS[property]}</span>
+              {curves.filter(curve => curve.property === property).map(curve => {
+                const id = curveId(curve)
+                const visible = !hidden.has(id)
+                return (
+                  <button
+                    key={id}
+                    onClick={() => toggleCurve(id)}
+                    aria-pressed={visible}
+                    aria-label={getCurveLabel(property, curve.axis)}
+                    className={`w-5 h-5 rounded text-[10px] font-semibold uppercase transition-opacity focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500 ${
+                      visible ? 'bg-dust-700' : 'opacity-40'
+                    }`}
+                    style={{ color: AXIS_COLORS[curve.axis] }}
+                  >
+                    {getChannelName(property, curve.axis) || '•'}
+                  </button>
+                )
+              })}
+            </div>
+          ))}
+        </div>
+
+        {/* ── Plot ─────────────────────────────────────────────────────── */}
+        <div
+          ref={plotRef}
+          className="flex-1 relative overflow-hidden select-none bg-dust-900/40 focus:outline-none focus-visible:ring-1 focus-visible:ring-inset focus-visible:ring-rust-500/60"
+          onMouseDown={handlePlotMouseDown}
+          onDoubleClick={handlePlotDoubleClick}
+          onKeyDown={handlePlotKeyDown}
+          role="region"
+          aria-label="Graph editor"
+          tabIndex={0}
+        >
+          <svg className="absolute inset-0 w-full h-full pointer-events-none" viewBox="0 0 100 100" preserveAspectRatio="none">
+            {timeTicks.map(t => (
+              <line key={`t${t}`} x1={toX(t)} x2={toX(t)} y1={0} y2={100} stroke="currentColor" className="text-dust-700" vectorEffect="non-scaling-stroke" />
+            ))}
+            {valueTicks.map(v => (
+              <line key={`v${v}`} x1={0} x2={100} y1={toY(v)} y2={toY(v)} stroke="currentColor" className="text-dust-700" vectorEffect="non-scaling-stroke" />
+            ))}
+            {visibleCurves.map(curve => {
+              const points = sampleChannel(curve, activeView.fromTime, activeView.toTime, CURVE_SAMPLES)
+              const d = points.map((p, i) => `${i === 0 ? 'M' : 'L'}${toX(p.time)},${toY(p.value)}`).join(' ')
+              return (
+                <path
+                  key={curveId(curve)}
+                  d={d}
+                  fill="none"
+                  stroke={AXIS_COLORS[curve.axis]}
+                  strokeWidth={1.5}
+                  vectorEffect="non-scaling-stroke"
+                  data-testid={`curve-${curveId(curve)}`}
+                />
+              )
+            })}
+            {selectedKeys.map(({ ref, key }) => {
+              const curve = visibleCurves.find(c => c.property === key.property && c.axis === ref.axis)
+              if (!curve) return null
+              const slopes = getKeySlopes(curve.keyframes, curve.keyframes.indexOf(key), ref.axis)
+              const value = key.value[ref.axis]
+              return (
+                <polyline
+                  key={`${ref.keyframeId}:${ref.axis}`}
+                  points={`${toX(key.time - handleSpan)},${toY(value - slopes.inSlope * handleSpan)} ${toX(key.time)},${toY(value)} ${toX(key.time + handleSpan)},${toY(value + slopes.outSlope * handleSpan)}`}
+                  fill="none"
+                  stroke="currentColor"
+                  className="text-dust-400"
+                  vectorEffect="non-scaling-stroke"
+                />
+              )
+            })}
+            {currentTime >= activeView.fromTime && currentTime <= activeView.toTime && (
+              <line x1={toX(currentTime)} x2={toX(currentTime)} y1={0} y2={100} stroke="currentColor" className="text-rust-500" strokeWidth={2} vectorEffect="non-scaling-stroke" />
+            )}
+          </svg>
+
+          {/* Grid labels: frames along the bottom, values down the left */}
+          {timeTicks.map(t => (
+            <span key={`t${t}`} className="absolute bottom-0.5 -translate-x-1/2 text-[9px] text-dust-500 tabular-nums pointer-events-none" style={{ left: `${toX(t)}%` }}>
+              {Math.round(t * frameRate)}
+            </span>
+          ))}
+          {valueTicks.map(v => (
+            <span key={`v${v}`} className="absolute left-1 -translate-y-1/2 text-[9px] text-dust-500 tabular-nums pointer-events-none" style={{ top: `${toY(v)}%` }}>
+              {+v.toFixed(2)}
+            </span>
+          ))}
+
+          {/* Tangent handles of the selected keys */}
+          {selectedKeys.map(({ ref, key }) => {
+            const curve = visibleCurves.find(c => c.property === key.property && c.axis === ref.axis)
+            if (!curve) return null
+            const slopes = getKeySlopes(curve.keyframes, curve.keyframes.indexOf(key), ref.axis)
+            const value = key.value[ref.axis]
+            const label = getCurveLabel(key.property, ref.axis)
+            return (['in', 'out'] as const).map(side => {
+              const dt = side === 'in' ? -handleSpan : handleSpan
+              const slope = side === 'in' ? slopes.inSlope : slopes.outSlope
+              return (
+                <button
+                  key={`${ref.keyframeId}:${ref.axis}:${side}`}
+                  type="button"
+                  tabIndex={-1}
+                  aria-label={`${label} ${side} handle`}
+                  onMouseDown={e => handleHandleMouseDown(ref, side, e)}
+                  onDoubleClick={e => e.stopPropagation()}
+                  className="absolute w-2 h-2 -translate-x-1/2 -translate-y-1/2 rounded-full bg-dust-300 cursor-move"
+                  style={{ left: `${toX(key.time + dt)}%`, top: `${toY(value + slope * dt)}%` }}
+                />
+              )
+            })
+          })}
+
+          {/* Keys */}
+          {visibleCurves.map(curve => curve.keyframes.map(kf => {
+            const selected = isRefSelected(liveSelection, kf.id, curve.axis)
+            const ref = { keyframeId: kf.id, axis: curve.axis }
+            return (
+              <button
+                key={`${kf.id}:${curve.axis}`}
+                type="button"
+                tabIndex={-1}
+                aria-label={`${getCurveLabel(curve.property, curve.axis)} key at frame ${Math.round(kf.time * frameRate)}`}
+                aria-pressed={selected}
+                onMouseDown={e => handleKeyMouseDown(ref, e)}
+                onDoubleClick={e => e.stopPropagation()}
+                className={`absolute w-2.5 h-2.5 -translate-x-1/2 -translate-y-1/2 rotate-45 border cursor-move ${
+                  selected ? 'bg-sand-100 border-sand-100' : 'bg-dust-900'
+                }`}
+                style={{
+                  left: `${toX(kf.time)}%`,
+                  top: `${toY(kf.value[curve.axis])}%`,
+                  borderColor: selected ? undefined : AXIS_COLORS[curve.axis],
+                }}
+              />
+            )
+          }))}
+        </div>
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,51 @@
+import { render, screen, act } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { HistoryPanel } from './HistoryPanel'
+import { useSceneStore } from '../stores/useSceneStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
+
+describe('HistoryPanel', () => {
+  beforeEach(() => {
+    useSceneStore.getState().clearScene()
+    useHistoryStore.getState().clear()
+  })
+
+  it('lists every step with the current one marked', () => {
+    useSceneStore.getState().addObject('box')
+    useSceneStore.getState().addObject('sphere')
+    render(<HistoryPanel />)
+
+    const steps = screen.getAllByRole('listitem').map(item => item.textContent)
+    expect(steps).toEqual(['0New scene', '1Add Box 1', '2Add Sphere 1'])
+    expect(screen.getByRole('button', { name: /Add Sphere 1/ })).toHaveAttribute('aria-current', 'step')
+  })
+
+  it('jumps back and forward when a step is clicked', async () => {
+    const user = userEvent.setup()
+    useSceneStore.getState().addObject('box')
+    useSceneStore.getState().addObject('sphere')
+    render(<HistoryPanel />)
+
+    await user.click(screen.getByRole('button', { name: /New scene/ }))
+    expect(useSceneStore.getState().objects).toHaveLength(0)
+    expect(screen.getByRole('button', { name: /New scene/ })).toHaveAttribute('aria-current', 'step')
+
+    await user.click(screen.getByRole('button', { name: /Add Sphere 1/ }))
+    expect(useSceneStore.getState().objects).toHaveLength(2)
+  })
+
+  it('undoes and redoes from its buttons', async () => {
+    const user = userEvent.setup()
+    render(<HistoryPanel />)
+    expect(screen.getByRole('button', { name: 'Undo' })).toBeDisabled()
+    expect(screen.getByText(/show up here/)).toBeInTheDocument()
+
+    act(() => useSceneStore.getState().addObject('box'))
+    await user.click(screen.getByRole('button', { name: 'Undo' }))
+    expect(useSceneStore.getState().objects).toHaveLength(0)
+
+    await user.click(screen.getByRole('button', { name: 'Redo' }))
+    expect(useSceneStore.getState().objects).toHaveLength(1)
+  })
+})
@@ -0,0 +1,75 @@
+import { useHistoryStore } from '../stores/useHistoryStore'
+import { getHistorySize } from '../core/history'
+import { formatStorageSize } from '../core/storageEngine'
+import { CollapsibleSection } from './ui/CollapsibleSection'
+
+/** Every undo step across the editor; clicking one undoes or redoes to it */
+export function HistoryPanel() {
+  const entries = useHistoryStore(s => s.entries)
+  const index = useHistoryStore(s => s.index)
+  const budget = useHistoryStore(s => s.budget)
+  const undo = useHistoryStore(s => s.undo)
+  const redo = useHistoryStore(s => s.redo)
+  const jumpTo = useHistoryStore(s => s.jumpTo)
+
+  return (
+    <CollapsibleSection title="History" variant="primary" defaultOpen>
+      <div className="p-3 space-y-2">
+        <div className="flex gap-1.5">
+          <button
+            onClick={() => undo()}
+            disabled={index === 0}
+            className="flex-1 px-2 py-1.5 text-[10px] font-semibold uppercase tracking-[0.12em] btn-glass text-dust-300 rounded disabled:opacity-30 disabled:cursor-not-allowed focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500/60"
+          >
+            Undo
+          </button>
+          <button
+            onClick={() => redo()}
+            disabled={index >= entries.length - 1}
+            className="flex-1 px-2 py-1.5 text-[10px] font-semibold uppercase tracking-[0.12em] btn-glass text-dust-300 rounded disabled:opacity-30 disabled:cursor-not-allowed focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500/60"
+          >
+            Redo
+          </button>
+        </div>
+
+        <ol className="space-y-0.5" aria-label="Undo history">
+          {entries.map((entry, i) => {
+            const isCurrent = i === index
+            // Steps after the current one have been undone and can still be redone
+            const isUndone = i > index
+            return (
+              <li key={entry.id}>
+                <button
+                  onClick={() => jumpTo(i)}
+                  aria-current={isCurrent ? 'step' : undefined}
+                  className={`w-full flex items-center gap-2 px-2.5 py-1.5 rounded text-left text-[11px] transition-all duration-150 border focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500/60 ${
+                    isCurrent
+                      ? 'bg-rust-500/15 border-rust-500/30 text-sand-100'
+                      : isUndone
+                        ? 'border-transparent text-dust-500 italic hover:bg-dust-600/20'
+                        : 'border-transparent text-dust-300 hover:bg-dust-600/20 hover:border-dust-600/20'
+                  }`}
+                >
+                  <span className={`text-[10px] font-mono w-5 text-right shrink-0 ${isCurrent ? 'text-rust-400' : 'text-dust-500'}`}>
+                    {i}
+                  </span>
+                  <span className="flex-1 min-w-0 truncate">{entry.label}</span>
+                </button>
+              </li>
+            )
+          })}
+        </ol>
+
+        {entries.length === 1 ? (
+          <p className="text-dust-500 text-[10px] text-center py-2">
+            Edits to objects, animation, cameras and effects show up here.
+          </p>
+        ) : (
+          <p className="text-dust-500 text-[10px] text-right font-mono">
+            {formatStorageSize(getHistorySize({ entries, index }))} of {formatStorageSize(budget)}
+          </p>
+        )}
+      </div>
+    </CollapsibleSection>
+  )
+}
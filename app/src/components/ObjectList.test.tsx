@@ -1,8 +1,10 @@
 import { render, screen, fireEvent, within } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { ObjectList } from './ObjectList'
 import { useSceneStore } from '../stores/useSceneStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
+import { useCollaborationStore } from '../stores/useCollaborationStore'
 
 function resetStore() {
   useSceneStore.setState({
@@ -11,9 +13,8 @@ function resetStore() {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useHistoryStore.getState().clear()
 }
 
 describe('ObjectList', () => {
@@ -244,9 +245,8 @@ describe('ObjectList', () => {
         objects: [parent, child],
         selectedId: null,
         selectedIds: [],
-        history: [{ objects: [parent, child], selectedId: null, selectedIds: [] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
     }
 
     it('child objects are rendered', () => {
@@ -361,4 +361,35 @@ describe('ObjectList', () => {
       expect(options[2]).toHaveAttribute('aria-selected', 'false')
     })
   })
+
+  describe('collaboration', () => {
+    afterEach(() => useCollaborationStore.getState().reset())
+
+    it('marks objects selected by remote peers', () => {
+      useSceneStore.getState().addObject('box')
+      const id = useSceneStore.getState().objects[0].id
+      useSceneStore.getState().selectObject(null)
+      useCollaborationStore.getState().setSession({ roomId: 'room', peerId: 'me' })
+      useCollaborationStore.getState().setJoined({
+        isHost: true,
+        hostPeerId: 'me',
+        peers: [{ peerId: 'p2', userName: 'Hana', isHost: false, selectedIds: [id] }],
+      })
+      render(<ObjectList />)
+
+      const row = within(screen.getByRole('listbox', { name: 'Scene objects' })).getByRole('option')
+      expect(within(row).getByRole('img', { name: 'Selected by Hana' })).toBeInTheDocument()
+      expect(row).toHaveAttribute('aria-selected', 'false')
+    })
+
+    it('marks objects another peer is editing', () => {
+      useSceneStore.getState().addObject('box')
+      const id = useSceneStore.getState().objects[0].id
+      useCollaborationStore.getState().setSession({ roomId: 'room', peerId: 'me' })
+      useCollaborationStore.getState().setLeases([{ objectId: id, peerId: 'p2', userName: 'Hana', expiresAt: 0 }])
+      render(<ObjectList />)
+
+      expect(screen.getByRole('img', { name: 'Being edited by Hana' })).toBeInTheDocument()
+    })
+  })
 })
@@ -1,5 +1,9 @@
 import { useState, useCallback, useRef, useMemo } from 'react'
 import { useSceneStore } from '../stores/useSceneStore'
+import { useCollaborationStore } from '../stores/useCollaborationStore'
+import { recordHistory } from '../stores/useHistoryStore'
+import { countLabel } from '../core/history'
+import { buildPeerSelectionMap, getPeerColor, getForeignLease } from '../core/presence'
 import { ContextMenu } from './ui/ContextMenu'
 import type { ContextMenuItem } from './ui/ContextMenu'
 import { SceneSearchFilter } from './ui/SceneSearchFilter'
@@ -15,6 +19,11 @@ const TYPE_ICONS: Record<ObjectType, string> = {
   plane: '\u25AD',
   torus: '\u25CE',
   model: '\uD83D\uDCE6',
+  directionalLight: '\u2600',
+  pointLight: '\u2739',
+  spotLight: '\u25BC',
+  areaLight: '\u25A4',
+  hemisphereLight: '\u25D2',
 }
 
 // ── Tree Helpers ─────────────────────────────────────────────────────────
@@ -117,6 +126,12 @@ export function ObjectList() {
   const copySelected = useSceneStore(s => s.copySelected)
   const pasteClipboard = useSceneStore(s => s.pasteClipboard)
 
+  // Remote peers' selections (collaboration)
+  const peers = useCollaborationStore(s => s.peers)
+  const selfPeerId = useCollaborationStore(s => s.peerId)
+  const leases = useCollaborationStore(s => s.leases)
+  const peerSelections = useMemo(() => buildPeerSelectionMap(peers, selfPeerId), [peers, selfPeerId])
+
   // Search/filter state
   const [searchQuery, setSearchQuery] = useState('')
   const [typeFilter, setTypeFilter] = useState<string | null>(null)
@@ -231,7 +246,9 @@ export function ObjectList() {
         icon: obj.visible ? '👁' : '—',
         onClick: () => {
           if (isMulti) {
-            for (const sid of selectedIds) updateObject(sid, { visible: !obj.visible })
+            recordHistory(`${obj.visible ? 'Hide' : 'Show'} ${countLabel(selectedIds.length, 'object')}`, () => {
+              for (const sid of selectedIds) updateObject(sid, { visible: !obj.visible })
+            })
           } else {
             updateObject(obj.id, { visible: !obj.visible })
           }
@@ -242,7 +259,9 @@ export function ObjectList() {
         icon: obj.locked ? '🔓' : '🔒',
         onClick: () => {
           if (isMulti) {
-            for (const sid of selectedIds) updateObject(sid, { locked: !obj.locked })
+            recordHistory(`${obj.locked ? 'Unlock' : 'Lock'} ${countLabel(selectedIds.length, 'object')}`, () => {
+              for (const sid of selectedIds) updateObject(sid, { locked: !obj.locked })
+            })
           } else {
             updateObject(obj.id, { locked: !obj.locked })
           }
@@ -253,7 +272,9 @@ export function ObjectList() {
         icon: '🏠',
         onClick: () => {
           if (isMulti) {
-            for (const sid of selectedIds) setParent(sid, undefined)
+            recordHistory(`Unparent ${countLabel(selectedIds.length, 'object')}`, () => {
+              for (const sid of selectedIds) setParent(sid, undefined)
+            })
           } else {
             setParent(obj.id, undefined)
           }
@@ -317,14 +338,17 @@ export function ObjectList() {
     if (!sourceId || sourceId === targetId) return
 
     if (isDraggingMulti.current) {
-      // Multi-select drag: reparent all selected items
-      for (const sid of selectedIds) {
-        if (sid === targetId) continue
-        const descendantIds = getDescendantIds(objects, sid)
-        if (!descendantIds.has(targetId)) {
-          setParent(sid, targetId)
+      // Multi-select drag: reparent all selected items as one undo step
+      const target = objects.find(o => o.id === targetId)
+      recordHistory(`Parent ${countLabel(selectedIds.length, 'object')} to ${target?.name ?? 'object'}`, () => {
+        for (const sid of selectedIds) {
+          if (sid === targetId) continue
+          const descendantIds = getDescendantIds(objects, sid)
+          if (!descendantIds.has(targetId)) {
+            setParent(sid, targetId)
+          }
         }
-      }
+      })
     } else {
       // Single drag
       const descendantIds = getDescendantIds(objects, sourceId)
@@ -361,9 +385,11 @@ export function ObjectList() {
   const handleRootDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     if (isDraggingMulti.current) {
-      for (const sid of selectedIds) {
-        setParent(sid, undefined)
-      }
+      recordHistory(`Unparent ${countLabel(selectedIds.length, 'object')}`, () => {
+        for (const sid of selectedIds) {
+          setParent(sid, undefined)
+        }
+      })
     } else {
       const sourceId = dragSourceId.current
       if (sourceId) {
@@ -386,6 +412,8 @@ export function ObjectList() {
     const isPrimary = selectedId === obj.id
     const isSelected = selectedIds.includes(obj.id)
     const isDragTarget = dragOverId === obj.id
+    const selectingPeers = peerSelections[obj.id]
+    const lease = getForeignLease(leases, obj.id, selfPeerId)
 
     let rowClasses: string
     let rowStyle: React.CSSProperties | undefined
@@ -404,6 +432,12 @@ export function ObjectList() {
       rowClasses += ' ring-1 ring-inset ring-rust-400/60'
     }
 
+    // Outline rows selected by remote peers in the first peer's color
+    if (selectingPeers) {
+      const outline = `inset 0 0 0 1px ${getPeerColor(selectingPeers[0].peerId)}`
+      rowStyle = { ...rowStyle, boxShadow: rowStyle?.boxShadow ? `${outline}, ${rowStyle.boxShadow}` : outline }
+    }
+
     return (
       <div
         key={obj.id}
@@ -450,6 +484,18 @@ export function ObjectList() {
         {/* Name */}
         <span className="flex-1 text-[12px] truncate">{obj.name}</span>
 
+        {/* Remote peers selecting this object */}
+        {selectingPeers?.map(peer => (
+          <span
+            key={peer.peerId}
+            role="img"
+            aria-label={`Selected by ${peer.userName}`}
+            title={`Selected by ${peer.userName}`}
+            className="w-1.5 h-1.5 rounded-full flex-shrink-0"
+            style={{ background: getPeerColor(peer.peerId) }}
+          />
+        ))}
+
         {/* Lock indicator (always visible when locked) */}
         {obj.locked && (
           <span className="text-[10px] text-sunset-400/70" aria-label="Locked">
@@ -457,6 +503,19 @@ export function ObjectList() {
           </span>
         )}
 
+        {/* Edit lease held by another peer */}
+        {lease && (
+          <span
+            className="text-[10px]"
+            style={{ color: getPeerColor(lease.peerId) }}
+            role="img"
+            aria-label={`Being edited by ${lease.userName}`}
+            title={`Being edited by ${lease.userName}`}
+          >
+            {'\u270E'}
+          </span>
+        )}
+
         {/* Lock/Unlock toggle (visible on hover) */}
         <button
           onClick={(e) => {
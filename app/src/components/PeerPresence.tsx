@@ -0,0 +1,80 @@
+import { memo, useMemo } from 'react'
+import { Html, Line } from '@react-three/drei'
+import { useCollaborationStore } from '../stores/useCollaborationStore'
+import { getPeerColor, getFrustumCorners } from '../core/presence'
+import type { Peer, PresenceCamera } from '../types/collaboration'
+import type { Vec3 } from '../types/scene'
+
+// Length of the drawn frustum, in world units
+const FRUSTUM_DEPTH = 0.8
+
+const noRaycast = () => null
+
+const PeerCameraGizmo = memo(function PeerCameraGizmo({ camera, color, userName }: {
+  camera: PresenceCamera
+  color: string
+  userName: string
+}) {
+  const points = useMemo(() => {
+    const apex = camera.position
+    const [tl, tr, br, bl] = getFrustumCorners(camera, FRUSTUM_DEPTH)
+    // Apex to each corner, then the view rectangle
+    const segments: Vec3[] = [apex, tl, apex, tr, apex, br, apex, bl, tl, tr, tr, br, br, bl, bl, tl]
+    return segments.map(v => [v.x, v.y, v.z] as [number, number, number])
+  }, [camera])
+
+  return (
+    <group>
+      <Line points={points} segments color={color} lineWidth={1.5} raycast={noRaycast} />
+      <Html
+        position={[camera.position.x, camera.position.y + 0.25, camera.position.z]}
+        center
+        style={{ pointerEvents: 'none' }}
+      >
+        <div
+          className="px-1.5 py-0.5 rounded text-[10px] font-medium whitespace-nowrap text-dust-900 select-none"
+          style={{ background: color }}
+        >
+          {userName}
+        </div>
+      </Html>
+    </group>
+  )
+})
+
+const PeerCursor = memo(function PeerCursor({ cursor, color }: { cursor: Vec3; color: string }) {
+  return (
+    <mesh position={[cursor.x, 0.02, cursor.z]} rotation={[-Math.PI / 2, 0, 0]} raycast={noRaycast}>
+      <ringGeometry args={[0.1, 0.16, 24]} />
+      <meshBasicMaterial color={color} transparent opacity={0.9} depthWrite={false} />
+    </mesh>
+  )
+})
+
+function RemotePeer({ peer, following }: { peer: Peer; following: boolean }) {
+  const color = getPeerColor(peer.peerId)
+  return (
+    <>
+      {/* Hidden while following: our camera sits inside it */}
+      {peer.camera && !following && (
+        <PeerCameraGizmo camera={peer.camera} color={color} userName={peer.userName} />
+      )}
+      {peer.cursor && <PeerCursor cursor={peer.cursor} color={color} />}
+    </>
+  )
+}
+
+/** Remote peers' cameras (labeled frustum gizmos) and ground cursors */
+export function PeerPresence() {
+  const peers = useCollaborationStore(s => s.peers)
+  const selfPeerId = useCollaborationStore(s => s.peerId)
+  const followPeerId = useCollaborationStore(s => s.followPeerId)
+
+  return (
+    <>
+      {peers.filter(p => p.peerId !== selfPeerId).map(peer => (
+        <RemotePeer key={peer.peerId} peer={peer} following={peer.peerId === followPeerId} />
+      ))}
+    </>
+  )
+}
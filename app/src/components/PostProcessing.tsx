@@ -1,6 +1,11 @@
+import { useRef } from 'react'
+import { useFrame } from '@react-three/fiber'
 import { usePostProcessingStore } from '../stores/usePostProcessingStore'
-import { EffectComposer, Bloom, SSAO, Vignette } from '@react-three/postprocessing'
-import { BlendFunction } from 'postprocessing'
+import { useCameraStore } from '../stores/useCameraStore'
+import { useSceneStore } from '../stores/useSceneStore'
+import { EffectComposer, Bloom, SSAO, Vignette, DepthOfField } from '@react-three/postprocessing'
+import { BlendFunction, type DepthOfFieldEffect as DepthOfFieldEffectImpl } from 'postprocessing'
+import { getDepthOfFieldParams, getFocusDistance } from '../core/focus'
 
 function SSAOEffect() {
   const ssao = usePostProcessingStore(s => s.ssao)
@@ -44,20 +49,42 @@ function VignetteEffect() {
   )
 }
 
+// Focus follows the camera store every frame, so a tracked target stays sharp as things move
+function DepthOfFieldEffect() {
+  const depthOfField = usePostProcessingStore(s => s.depthOfField)
+  const ref = useRef<DepthOfFieldEffectImpl>(null)
+
+  useFrame(({ camera }) => {
+    const effect = ref.current
+    if (!effect) return
+    const { lens, focus } = useCameraStore.getState()
+    const distance = getFocusDistance(focus, camera.position, useSceneStore.getState().objects)
+    const params = getDepthOfFieldParams(lens, distance, focus.fStop, depthOfField.bokehScale)
+    effect.cocMaterial.focusDistance = params.focusDistance
+    effect.cocMaterial.focusRange = params.focusRange
+    effect.bokehScale = params.bokehScale
+  })
+
+  if (!depthOfField.enabled) return null
+  return <DepthOfField ref={ref} />
+}
+
 export function PostProcessingEffects() {
   const enabled = usePostProcessingStore(s => s.enabled)
   const bloomEnabled = usePostProcessingStore(s => s.bloom.enabled)
   const ssaoEnabled = usePostProcessingStore(s => s.ssao.enabled)
   const vignetteEnabled = usePostProcessingStore(s => s.vignette.enabled)
+  const depthOfFieldEnabled = usePostProcessingStore(s => s.depthOfField.enabled)
 
   if (!enabled) return null
 
-  const hasActiveEffect = bloomEnabled || ssaoEnabled || vignetteEnabled
+  const hasActiveEffect = bloomEnabled || ssaoEnabled || vignetteEnabled || depthOfFieldEnabled
   if (!hasActiveEffect) return null
 
   return (
     <EffectComposer multisampling={4}>
       <SSAOEffect />
+      <DepthOfFieldEffect />
       <BloomEffect />
       <VignetteEffect />
     </EffectComposer>
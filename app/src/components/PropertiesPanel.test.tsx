@@ -1,8 +1,12 @@
-import { render, screen, fireEvent } from '@testing-library/react'
+import { render, screen, fireEvent, cleanup } from '@testing-library/react'
 import userEvent from '@testing-library/user-event'
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { PropertiesPanel } from './PropertiesPanel'
 import { useSceneStore } from '../stores/useSceneStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
+import { useAnimationStore } from '../stores/useAnimationStore'
+import { joinRoom, leaveRoom } from '../core/collaboration'
+import { createFakeSocketFactory } from '../test/fakeSocket'
 
 function resetStore() {
   useSceneStore.setState({
@@ -11,9 +15,9 @@ function resetStore() {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useAnimationStore.setState({ tracks: [], duration: 5, currentTime: 0 })
+  useHistoryStore.getState().clear()
 }
 
 describe('PropertiesPanel', () => {
@@ -143,6 +147,25 @@ describe('PropertiesPanel', () => {
     expect(useSceneStore.getState().objects[0].visible).toBe(false)
   })
 
+  it('keys material and visibility fields at the playhead', async () => {
+    const user = userEvent.setup()
+    useSceneStore.getState().addObject('box')
+    useAnimationStore.setState({ currentTime: 2 })
+    render(<PropertiesPanel />)
+
+    await user.click(screen.getByRole('button', { name: 'Key opacity' }))
+    await user.click(screen.getByRole('button', { name: 'Key visibility' }))
+
+    const [track] = useAnimationStore.getState().tracks
+    expect(track.objectId).toBe(useSceneStore.getState().objects[0].id)
+    expect(track.keyframes.map(kf => [kf.property, kf.time, kf.value.x])).toEqual([
+      ['material.opacity', 2, 1],
+      ['visible', 2, 1],
+    ])
+    expect(screen.getByRole('button', { name: 'Key opacity' })).toHaveAttribute('aria-pressed', 'true')
+    expect(screen.getByRole('button', { name: 'Key color' })).toHaveAttribute('aria-pressed', 'false')
+  })
+
   it('position knob has correct aria-valuenow', () => {
     useSceneStore.getState().addObject('box')
     render(<PropertiesPanel />)
@@ -150,4 +173,88 @@ describe('PropertiesPanel', () => {
     const posX = screen.getByRole('slider', { name: 'Position X' })
     expect(posX).toHaveAttribute('aria-valuenow', '0')
   })
+
+  describe('light objects', () => {
+    it('shows light settings instead of material and scale', () => {
+      useSceneStore.getState().addObject('spotLight')
+      render(<PropertiesPanel />)
+
+      expect(screen.getByRole('slider', { name: 'Intensity' })).toHaveAttribute('aria-valuenow', '20')
+      expect(screen.getByRole('slider', { name: 'Outer cone angle' })).toBeInTheDocument()
+      expect(screen.getByRole('checkbox', { name: 'Cast shadows' })).toBeChecked()
+      expect(screen.queryByLabelText('Material color hex')).not.toBeInTheDocument()
+      expect(screen.queryByRole('slider', { name: 'Scale X' })).not.toBeInTheDocument()
+    })
+
+    it('edits light settings and keeps the object color in sync', async () => {
+      const user = userEvent.setup()
+      useSceneStore.getState().addObject('pointLight')
+      render(<PropertiesPanel />)
+
+      fireEvent.keyDown(screen.getByRole('slider', { name: 'Intensity' }), { key: 'ArrowUp' })
+      expect(useSceneStore.getState().objects[0].light?.intensity).toBeCloseTo(10.1)
+
+      const hexInput = screen.getByLabelText('Light color hex')
+      await user.clear(hexInput)
+      await user.type(hexInput, '#ff0000')
+      expect(useSceneStore.getState().objects[0].light?.color).toBe('#ff0000')
+      expect(useSceneStore.getState().objects[0].color).toBe('#ff0000')
+    })
+
+    it('shows sky and ground colors for hemisphere lights', () => {
+      useSceneStore.getState().addObject('hemisphereLight')
+      render(<PropertiesPanel />)
+
+      expect(screen.getByLabelText('Sky color hex')).toHaveValue('#c8d8ff')
+      expect(screen.getByLabelText('Ground color hex')).toBeInTheDocument()
+      expect(screen.queryByRole('checkbox', { name: 'Cast shadows' })).not.toBeInTheDocument()
+    })
+  })
+
+  describe('edit leases', () => {
+    afterEach(() => {
+      cleanup()
+      leaveRoom()
+    })
+
+    function joinWithPeer() {
+      const { factory, sockets } = createFakeSocketFactory()
+      const session = joinRoom({ serverUrl: 'ws://localhost:8787', roomId: 'room', userName: 'Alice', createSocket: factory })
+      sockets[0].open()
+      sockets[0].receive('joined', session.client.peerId, {
+        isHost: true,
+        peers: [{ peerId: 'p2', userName: 'Hana', isHost: false }],
+        hostPeerId: session.client.peerId,
+      })
+      return sockets[0]
+    }
+
+    it('leases the object while the panel is focused', () => {
+      useSceneStore.getState().addObject('box')
+      const id = useSceneStore.getState().selectedId!
+      const socket = joinWithPeer()
+      render(<PropertiesPanel />)
+
+      const nameInput = screen.getByLabelText('Object name')
+      fireEvent.focus(nameInput)
+      expect(socket.sentOfType('lease-acquire').map(m => m.payload)).toEqual([{ objectIds: [id] }])
+
+      fireEvent.blur(nameInput)
+      expect(socket.sentOfType('lease-release').map(m => m.payload)).toEqual([{ objectIds: [id] }])
+    })
+
+    it('is read-only while another peer edits the object', () => {
+      useSceneStore.getState().addObject('box')
+      const id = useSceneStore.getState().selectedId!
+      const socket = joinWithPeer()
+      socket.receive('lease-state', 'server', {
+        leases: [{ objectId: id, peerId: 'p2', userName: 'Hana', expiresAt: Date.now() + 10_000 }],
+      })
+      render(<PropertiesPanel />)
+
+      expect(screen.getByRole('status')).toHaveTextContent('Hana is editing this object')
+      expect(screen.getByLabelText('Object name')).toBeDisabled()
+      expect(screen.getAllByRole('slider')[0]).toHaveAttribute('aria-disabled', 'true')
+    })
+  })
 })
@@ -1,11 +1,18 @@
-import { useRef, useCallback } from 'react'
+import { useRef, useCallback, useEffect, type FocusEvent, type PointerEvent } from 'react'
 import { useSceneStore } from '../stores/useSceneStore'
+import { useCollaborationStore } from '../stores/useCollaborationStore'
+import { getForeignLease } from '../core/presence'
+import { getActiveSession } from '../core/collaboration'
+import { registerBlobUrl } from '../core/blobStore'
+import { isLightObject } from '../core/lights'
 import { CollapsibleSection } from './ui/CollapsibleSection'
 import { MaterialPresets } from './ui/MaterialPresets'
 import { EmptyState } from './ui/EmptyState'
 import { RotaryKnob } from './ui/RotaryKnob'
 import { Vec3KnobGroup } from './ui/Vec3KnobGroup'
-import type { MaterialType, MaterialData, TextureMap, Vec2 } from '../types/scene'
+import { LightSettings } from './ui/LightSettings'
+import { PropertyKeyButton } from './ui/PropertyKeyButton'
+import type { MaterialType, MaterialData, TextureMap, Vec2, LightData } from '../types/scene'
 
 
 function TextureMapInput({
@@ -24,6 +31,7 @@ function TextureMapInput({
     const file = e.target.files?.[0]
     if (!file) return
     const url = URL.createObjectURL(file)
+    registerBlobUrl(url, file)
     const defaultUV: Vec2 = { x: 1, y: 1 }
     const defaultOffset: Vec2 = { x: 0, y: 0 }
     onChange({ url, scale: map?.scale ?? defaultUV, offset: map?.offset ?? defaultOffset })
@@ -112,6 +120,32 @@ export function PropertiesPanel() {
   const selectedId = useSceneStore(s => s.selectedId)
   const objects = useSceneStore(s => s.objects)
   const updateObject = useSceneStore(s => s.updateObject)
+  const lease = useCollaborationStore(s => selectedId ? getForeignLease(s.leases, selectedId, s.peerId) : null)
+
+  // In shared sessions, lease the object while the panel is being used
+  const leasedIdRef = useRef<string | null>(null)
+
+  const acquireLease = useCallback(() => {
+    if (!selectedId || leasedIdRef.current === selectedId) return
+    if (getActiveSession()?.acquireLease([selectedId])) leasedIdRef.current = selectedId
+  }, [selectedId])
+
+  const releaseLease = useCallback(() => {
+    if (!leasedIdRef.current) return
+    getActiveSession()?.releaseLease([leasedIdRef.current])
+    leasedIdRef.current = null
+  }, [])
+
+  // Selection changes and unmounting end the edit
+  useEffect(() => releaseLease, [selectedId, releaseLease])
+
+  const handleBlur = useCallback((e: FocusEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(e.relatedTarget as Node | null)) releaseLease()
+  }, [releaseLease])
+
+  const handlePointerLeave = useCallback((e: PointerEvent<HTMLDivElement>) => {
+    if (!e.currentTarget.contains(document.activeElement)) releaseLease()
+  }, [releaseLease])
 
   const selected = objects.find(o => o.id === selectedId)
 
@@ -141,6 +175,16 @@ export function PropertiesPanel() {
     })
   }
 
+  const lightObject = isLightObject(selected) ? selected : null
+
+  const updateLight = (updates: Partial<LightData>) => {
+    if (!lightObject) return
+    updateObject(selected.id, {
+      light: { ...lightObject.light, ...updates },
+      ...(updates.color ? { color: updates.color } : {}),
+    })
+  }
+
   return (
     <div className="w-60 flex flex-col shrink-0">
       <div className="px-3 py-3 border-b border-dust-600/25 section-header">
@@ -149,259 +193,311 @@ export function PropertiesPanel() {
         </h2>
       </div>
 
-      <div className="flex-1 overflow-y-auto">
-        {/* Object Info (always visible) */}
-        <div className="px-3 py-2.5 border-b border-dust-600/25">
-          <input
-            id="obj-name"
-            type="text"
-            value={selected.name}
-            maxLength={64}
-            aria-label="Object name"
-            onChange={e => updateObject(selected.id, { name: e.target.value })}
-            className="w-full bg-dust-900/80 border border-dust-600/50 rounded px-2 py-1 text-[12px] text-sand-200 hover:border-dust-500/70 focus:border-rust-500/50 focus:ring-1 focus:ring-rust-500/20 focus:outline-none transition-all duration-150"
-          />
-          <div className="text-[10px] text-dust-500 capitalize mt-1 tracking-wide">{selected.type}</div>
+      {lease && (
+        <div role="status" className="px-3 py-1.5 border-b border-dust-600/25 text-[11px] text-sand-400">
+          {'\uD83D\uDD12'} {lease.userName} is editing this object
         </div>
+      )}
 
-        {/* Transform Section (collapsible) */}
-        <CollapsibleSection title="Transform" variant="primary">
-          <Vec3KnobGroup
-            label="Position"
-            value={selected.position}
-            onChange={pos => updateObject(selected.id, { position: pos })}
-          />
-          <Vec3KnobGroup
-            label="Rotation"
-            value={selected.rotation}
-            onChange={rot => updateObject(selected.id, { rotation: rot })}
-            step={5}
-            min={-360}
-            max={360}
-          />
-          <Vec3KnobGroup
-            label="Scale"
-            value={selected.scale}
-            onChange={scl => updateObject(selected.id, { scale: scl })}
-            step={0.1}
-            min={0.01}
-            max={100}
-          />
-        </CollapsibleSection>
-
-        {/* Material Presets (collapsible) */}
-        <CollapsibleSection title="Material Presets" variant="tertiary">
-          <MaterialPresets onApply={updates => updateMaterial(updates)} />
-        </CollapsibleSection>
-
-        {/* Material Section (collapsible) */}
-        <CollapsibleSection title="Material" variant="primary">
-          {/* Material Type */}
-          <div className="mb-2.5">
-            <label htmlFor="mat-type" className="text-[10px] text-dust-300 mb-1 block font-medium">Type</label>
-            <select
-              id="mat-type"
-              value={material.type}
-              onChange={e => updateMaterial({ type: e.target.value as MaterialType })}
-              className="w-full bg-dust-900/80 border border-dust-600/50 rounded px-2 py-1 text-[11px] text-sand-200 hover:border-dust-500/70 focus:border-rust-500/50 focus:ring-1 focus:ring-rust-500/20 focus:outline-none transition-all duration-150"
-            >
-              {MATERIAL_TYPES.map(mt => (
-                <option key={mt.value} value={mt.value}>
-                  {mt.label}
-                </option>
-              ))}
-            </select>
+      <div
+        className="flex-1 overflow-y-auto"
+        onFocus={acquireLease}
+        onPointerDown={acquireLease}
+        onBlur={handleBlur}
+        onPointerLeave={handlePointerLeave}
+      >
+        <fieldset disabled={!!lease} className="contents">
+          {/* Object Info (always visible) */}
+          <div className="px-3 py-2.5 border-b border-dust-600/25">
+            <input
+              id="obj-name"
+              type="text"
+              value={selected.name}
+              maxLength={64}
+              aria-label="Object name"
+              onChange={e => updateObject(selected.id, { name: e.target.value })}
+              className="w-full bg-dust-900/80 border border-dust-600/50 rounded px-2 py-1 text-[12px] text-sand-200 hover:border-dust-500/70 focus:border-rust-500/50 focus:ring-1 focus:ring-rust-500/20 focus:outline-none transition-all duration-150"
+            />
+            <div className="text-[10px] text-dust-500 capitalize mt-1 tracking-wide">{selected.type}</div>
           </div>
 
-          {/* Color */}
-          <div className="mb-2.5">
-            <label className="text-[10px] text-dust-300 mb-1 block font-medium">Color</label>
-            <div className="flex items-center gap-2">
-              <input
-                type="color"
-                value={material.color}
-                aria-label="Material color picker"
-                onChange={e => updateMaterial({ color: e.target.value })}
-                className="w-7 h-7 rounded border border-dust-600 cursor-pointer bg-transparent"
-              />
-              <input
-                type="text"
-                value={material.color}
-                aria-label="Material color hex"
-                pattern="#[0-9a-fA-F]{6}"
-                maxLength={7}
-                onChange={e => {
-                  const val = e.target.value
-                  if (val === '' || /^#[0-9a-fA-F]{0,6}$/.test(val)) {
-                    updateMaterial({ color: val })
-                  }
-                }}
-                className="flex-1 bg-dust-900/80 border border-dust-600 rounded px-2 py-1 text-[11px] text-sand-200 font-mono focus:border-rust-500/50 focus:ring-1 focus:ring-rust-500/20 focus:outline-none transition-all duration-150"
+          {/* Transform Section (collapsible) */}
+          <CollapsibleSection title="Transform" variant="primary">
+            <Vec3KnobGroup
+              label="Position"
+              value={selected.position}
+              onChange={pos => updateObject(selected.id, { position: pos })}
+              disabled={!!lease}
+            />
+            <Vec3KnobGroup
+              label="Rotation"
+              value={selected.rotation}
+              onChange={rot => updateObject(selected.id, { rotation: rot })}
+              disabled={!!lease}
+              step={5}
+              min={-360}
+              max={360}
+            />
+            {/* Lights are sized by their own settings, not by scale */}
+            {!lightObject && (
+              <Vec3KnobGroup
+                label="Scale"
+                value={selected.scale}
+                onChange={scl => updateObject(selected.id, { scale: scl })}
+                disabled={!!lease}
+                step={0.1}
+                min={0.01}
+                max={100}
               />
-            </div>
-          </div>
+            )}
+          </CollapsibleSection>
 
-          {/* Metalness & Roughness (standard material only) */}
-          {material.type === 'standard' && (
-            <div className="flex items-center justify-around gap-1 mb-2">
-              <RotaryKnob
-                value={material.metalness}
-                onChange={v => updateMaterial({ metalness: v })}
-                label="Metal"
-                size="sm"
-                accent="cyan"
-              />
-              <RotaryKnob
-                value={material.roughness}
-                onChange={v => updateMaterial({ roughness: v })}
-                label="Rough"
-                size="sm"
-                accent="rust"
+          {lightObject && (
+            <CollapsibleSection title="Light" variant="primary">
+              <LightSettings
+                type={lightObject.type}
+                light={lightObject.light}
+                onChange={updateLight}
+                disabled={!!lease}
               />
-            </div>
+            </CollapsibleSection>
           )}
 
-          {/* Opacity */}
-          <div className="flex justify-center mb-2">
-            <RotaryKnob
-              value={material.opacity}
-              onChange={v => updateMaterial({ opacity: v, transparent: v < 1 })}
-              label="Opacity"
-              size="sm"
-            />
-          </div>
+          {/* Lights have no surface material */}
+          {!lightObject && (
+            <>
+              {/* Material Presets (collapsible) */}
+              <CollapsibleSection title="Material Presets" variant="tertiary">
+                <MaterialPresets onApply={updates => updateMaterial(updates)} />
+              </CollapsibleSection>
 
-          {/* Wireframe */}
-          <div className="mb-1.5">
-            <label className="flex items-center gap-2 cursor-pointer">
-              <input
-                type="checkbox"
-                checked={material.wireframe}
-                onChange={e => updateMaterial({ wireframe: e.target.checked })}
-                className="accent-rust-500"
-              />
-              <span className="text-[11px] text-dust-300">Wireframe</span>
-            </label>
-          </div>
-        </CollapsibleSection>
-
-        {/* PBR Textures (standard material only) */}
-        {material.type === 'standard' && (
-          <CollapsibleSection title="PBR Textures" variant="tertiary">
-            <TextureMapInput
-              label="Normal Map"
-              map={material.normalMap}
-              onChange={m => updateMaterial({ normalMap: m })}
-              onClear={() => updateMaterial({ normalMap: undefined })}
-            />
-            <TextureMapInput
-              label="Roughness Map"
-              map={material.roughnessMap}
-              onChange={m => updateMaterial({ roughnessMap: m })}
-              onClear={() => updateMaterial({ roughnessMap: undefined })}
-            />
-            <TextureMapInput
-              label="Metalness Map"
-              map={material.metalnessMap}
-              onChange={m => updateMaterial({ metalnessMap: m })}
-              onClear={() => updateMaterial({ metalnessMap: undefined })}
-            />
-            <TextureMapInput
-              label="AO Map"
-              map={material.aoMap}
-              onChange={m => updateMaterial({ aoMap: m })}
-              onClear={() => updateMaterial({ aoMap: undefined })}
-            />
+              {/* Material Section (collapsible) */}
+              <CollapsibleSection title="Material" variant="primary">
+                {/* Material Type */}
+                <div className="mb-2.5">
+                  <label htmlFor="mat-type" className="text-[10px] text-dust-300 mb-1 block font-medium">Type</label>
+                  <select
+                    id="mat-type"
+                    value={material.type}
+                    onChange={e => updateMaterial({ type: e.target.value as MaterialType })}
+                    className="w-full bg-dust-900/80 border border-dust-600/50 rounded px-2 py-1 text-[11px] text-sand-200 hover:border-dust-500/70 focus:border-rust-500/50 focus:ring-1 focus:ring-rust-500/20 focus:outline-none transition-all duration-150"
+                  >
+                    {MATERIAL_TYPES.map(mt => (
+                      <option key={mt.value} value={mt.value}>
+                        {mt.label}
+                      </option>
+                    ))}
+                  </select>
+                </div>
 
-            {/* Emissive */}
-            <div className="mt-2 pt-2 border-t border-dust-600/20">
-              <TextureMapInput
-                label="Emissive Map"
-                map={material.emissiveMap}
-                onChange={m => updateMaterial({ emissiveMap: m })}
-                onClear={() => updateMaterial({ emissiveMap: undefined })}
-              />
-              <div className="mb-2">
-                <span className="text-xs text-dust-400 mb-1 block">Emissive Color</span>
-                <div className="flex items-center gap-2">
-                  <input
-                    type="color"
-                    value={material.emissiveColor ?? '#000000'}
-                    aria-label="Emissive color picker"
-                    onChange={e => updateMaterial({ emissiveColor: e.target.value })}
-                    className="w-6 h-6 rounded border border-dust-600 cursor-pointer bg-transparent"
-                  />
-                  <input
-                    type="text"
-                    value={material.emissiveColor ?? '#000000'}
-                    aria-label="Emissive color hex"
-                    maxLength={7}
-                    onChange={e => {
-                      const val = e.target.value
-                      if (val === '' || /^#[0-9a-fA-F]{0,6}$/.test(val)) {
-                        updateMaterial({ emissiveColor: val })
-                      }
-                    }}
-                    className="flex-1 bg-dust-900 border border-dust-600 rounded px-1.5 py-0.5 text-[10px] text-sand-200 font-mono focus:border-rust-500 focus:outline-none"
+                {/* Color */}
+                <div className="mb-2.5">
+                  <label className="text-[10px] text-dust-300 mb-1 block font-medium">Color</label>
+                  <div className="flex items-center gap-2">
+                    <PropertyKeyButton objectId={selected.id} path="material.color" value={material.color} disabled={!!lease} />
+                    <input
+                      type="color"
+                      value={material.color}
+                      aria-label="Material color picker"
+                      onChange={e => updateMaterial({ color: e.target.value })}
+                      className="w-7 h-7 rounded border border-dust-600 cursor-pointer bg-transparent"
+                    />
+                    <input
+                      type="text"
+                      value={material.color}
+                      aria-label="Material color hex"
+                      pattern="#[0-9a-fA-F]{6}"
+                      maxLength={7}
+                      onChange={e => {
+                        const val = e.target.value
+                        if (val === '' || /^#[0-9a-fA-F]{0,6}$/.test(val)) {
+                          updateMaterial({ color: val })
+                        }
+                      }}
+                      className="flex-1 bg-dust-900/80 border border-dust-600 rounded px-2 py-1 text-[11px] text-sand-200 font-mono focus:border-rust-500/50 focus:ring-1 focus:ring-rust-500/20 focus:outline-none transition-all duration-150"
+                    />
+                  </div>
+                </div>
+
+                {/* Metalness & Roughness (standard material only) */}
+                {material.type === 'standard' && (
+                  <div className="flex items-center justify-around gap-1 mb-2">
+                    <RotaryKnob
+                      value={material.metalness}
+                      onChange={v => updateMaterial({ metalness: v })}
+                      disabled={!!lease}
+                      label="Metal"
+                      size="sm"
+                      accent="cyan"
+                    />
+                    <RotaryKnob
+                      value={material.roughness}
+                      onChange={v => updateMaterial({ roughness: v })}
+                      disabled={!!lease}
+                      label="Rough"
+                      size="sm"
+                      accent="rust"
+                    />
+                  </div>
+                )}
+
+                {/* Opacity */}
+                <div className="flex items-center justify-center gap-1 mb-2">
+                  <RotaryKnob
+                    value={material.opacity}
+                    onChange={v => updateMaterial({ opacity: v, transparent: v < 1 })}
+                    disabled={!!lease}
+                    label="Opacity"
+                    size="sm"
                   />
+                  <PropertyKeyButton objectId={selected.id} path="material.opacity" value={material.opacity} disabled={!!lease} />
                 </div>
-              </div>
-              <div className="flex justify-center mb-2">
-                <RotaryKnob
-                  value={material.emissiveIntensity ?? 0}
-                  onChange={v => updateMaterial({ emissiveIntensity: v })}
-                  label="Emissive Int."
-                  size="sm"
-                  min={0}
-                  max={5}
-                  step={0.1}
-                  accent="rust"
+
+                {/* Wireframe */}
+                <div className="mb-1.5">
+                  <label className="flex items-center gap-2 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={material.wireframe}
+                      onChange={e => updateMaterial({ wireframe: e.target.checked })}
+                      className="accent-rust-500"
+                    />
+                    <span className="text-[11px] text-dust-300">Wireframe</span>
+                  </label>
+                </div>
+              </CollapsibleSection>
+
+              {/* PBR Textures (standard material only) */}
+              {material.type === 'standard' && (
+                <CollapsibleSection title="PBR Textures" variant="tertiary">
+                  <TextureMapInput
+                    label="Normal Map"
+                    map={material.normalMap}
+                    onChange={m => updateMaterial({ normalMap: m })}
+                    onClear={() => updateMaterial({ normalMap: undefined })}
+                  />
+                  <TextureMapInput
+                    label="Roughness Map"
+                    map={material.roughnessMap}
+                    onChange={m => updateMaterial({ roughnessMap: m })}
+                    onClear={() => updateMaterial({ roughnessMap: undefined })}
+                  />
+                  <TextureMapInput
+                    label="Metalness Map"
+                    map={material.metalnessMap}
+                    onChange={m => updateMaterial({ metalnessMap: m })}
+                    onClear={() => updateMaterial({ metalnessMap: undefined })}
+                  />
+                  <TextureMapInput
+                    label="AO Map"
+                    map={material.aoMap}
+                    onChange={m => updateMaterial({ aoMap: m })}
+                    onClear={() => updateMaterial({ aoMap: undefined })}
+                  />
+
+                  {/* Emissive */}
+                  <div className="mt-2 pt-2 border-t border-dust-600/20">
+                    <TextureMapInput
+                      label="Emissive Map"
+                      map={material.emissiveMap}
+                      onChange={m => updateMaterial({ emissiveMap: m })}
+                      onClear={() => updateMaterial({ emissiveMap: undefined })}
+                    />
+                    <div className="mb-2">
+                      <span className="text-xs text-dust-400 mb-1 block">Emissive Color</span>
+                      <div className="flex items-center gap-2">
+                        <input
+                          type="color"
+                          value={material.emissiveColor ?? '#000000'}
+                          aria-label="Emissive color picker"
+                          onChange={e => updateMaterial({ emissiveColor: e.target.value })}
+                          className="w-6 h-6 rounded border border-dust-600 cursor-pointer bg-transparent"
+                        />
+                        <input
+                          type="text"
+                          value={material.emissiveColor ?? '#000000'}
+                          aria-label="Emissive color hex"
+                          maxLength={7}
+                          onChange={e => {
+                            const val = e.target.value
+                            if (val === '' || /^#[0-9a-fA-F]{0,6}$/.test(val)) {
+                              updateMaterial({ emissiveColor: val })
+                            }
+                          }}
+                          className="flex-1 bg-dust-900 border border-dust-600 rounded px-1.5 py-0.5 text-[10px] text-sand-200 font-mono focus:border-rust-500 focus:outline-none"
+                        />
+                      </div>
+                    </div>
+                    <div className="flex items-center justify-center gap-1 mb-2">
+                      <RotaryKnob
+                        value={material.emissiveIntensity ?? 0}
+                        onChange={v => updateMaterial({ emissiveIntensity: v })}
+                        disabled={!!lease}
+                        label="Emissive Int."
+                        size="sm"
+                        min={0}
+                        max={5}
+                        step={0.1}
+                        accent="rust"
+                      />
+                      <PropertyKeyButton
+                        objectId={selected.id}
+                        path="material.emissiveIntensity"
+                        value={material.emissiveIntensity ?? 0}
+                        disabled={!!lease}
+                      />
+                    </div>
+                  </div>
+
+                  {/* Environment Map Intensity */}
+                  <div className="flex justify-center mb-2">
+                    <RotaryKnob
+                      value={material.envMapIntensity ?? 1}
+                      onChange={v => updateMaterial({ envMapIntensity: v })}
+                      disabled={!!lease}
+                      label="Env Map Int."
+                      size="sm"
+                      min={0}
+                      max={2}
+                      step={0.05}
+                      accent="cyan"
+                    />
+                  </div>
+                </CollapsibleSection>
+              )}
+            </>
+          )}
+
+          {/* Display Section (collapsible) */}
+          <CollapsibleSection title="Display">
+            <div className="flex items-center gap-2 mb-1.5">
+              <label className="flex flex-1 items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={selected.visible}
+                  onChange={e =>
+                    updateObject(selected.id, { visible: e.target.checked })
+                  }
+                  className="accent-rust-500"
                 />
-              </div>
+                <span className="text-[11px] text-dust-300">Visible</span>
+              </label>
+              <PropertyKeyButton objectId={selected.id} path="visible" value={selected.visible} />
             </div>
 
-            {/* Environment Map Intensity */}
-            <div className="flex justify-center mb-2">
-              <RotaryKnob
-                value={material.envMapIntensity ?? 1}
-                onChange={v => updateMaterial({ envMapIntensity: v })}
-                label="Env Map Int."
-                size="sm"
-                min={0}
-                max={2}
-                step={0.05}
-                accent="cyan"
+            <label className="flex items-center gap-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={selected.locked}
+                onChange={e =>
+                  updateObject(selected.id, { locked: e.target.checked })
+                }
+                className="accent-rust-500"
               />
-            </div>
+              <span className="text-[11px] text-dust-300">Locked</span>
+            </label>
           </CollapsibleSection>
-        )}
-
-        {/* Display Section (collapsible) */}
-        <CollapsibleSection title="Display">
-          <label className="flex items-center gap-2 cursor-pointer mb-1.5">
-            <input
-              type="checkbox"
-              checked={selected.visible}
-              onChange={e =>
-                updateObject(selected.id, { visible: e.target.checked })
-              }
-              className="accent-rust-500"
-            />
-            <span className="text-[11px] text-dust-300">Visible</span>
-          </label>
-
-          <label className="flex items-center gap-2 cursor-pointer">
-            <input
-              type="checkbox"
-              checked={selected.locked}
-              onChange={e =>
-                updateObject(selected.id, { locked: e.target.checked })
-              }
-              className="accent-rust-500"
-            />
-            <span className="text-[11px] text-dust-300">Locked</span>
-          </label>
-        </CollapsibleSection>
+        </fieldset>
       </div>
     </div>
   )
@@ -1,15 +1,21 @@
 import { useUIStore, type RightSidebarTab } from '../stores/useUIStore'
 import { SidebarTabBar } from './ui/SidebarTabBar'
 import { PropertiesPanel } from './PropertiesPanel'
+import { CameraLensPanel } from './CameraLensPanel'
+import { FrameOverlayPanel } from './FrameOverlayPanel'
 import { ShotList } from './ShotList'
 import { CameraPathEditor } from './CameraPathEditor'
 import { EffectsPanel } from './EffectsPanel'
 import { AssetBrowserPanel } from './AssetBrowserPanel'
+import { CollaborationPanel } from './CollaborationPanel'
+import { HistoryPanel } from './HistoryPanel'
 
 const TABS = [
   { id: 'object' as const, icon: '\u25C7', label: 'Object' },      // ◇
   { id: 'render' as const, icon: '\u25CE', label: 'Render' },       // ◎
   { id: 'assets' as const, icon: '\u229A', label: 'Assets' },       // ⊚
+  { id: 'collab' as const, icon: '\u21C4', label: 'Collab' },       // ⇄
+  { id: 'history' as const, icon: '\u21BA', label: 'History' },    // ↺
 ]
 
 function TabContent({ tab }: { tab: RightSidebarTab }) {
@@ -17,6 +23,8 @@ function TabContent({ tab }: { tab: RightSidebarTab }) {
     case 'render':
       return (
         <>
+          <CameraLensPanel />
+          <FrameOverlayPanel />
           <ShotList />
           <CameraPathEditor />
           <EffectsPanel />
@@ -24,6 +32,10 @@ function TabContent({ tab }: { tab: RightSidebarTab }) {
       )
     case 'assets':
       return <AssetBrowserPanel />
+    case 'collab':
+      return <CollaborationPanel />
+    case 'history':
+      return <HistoryPanel />
     case 'object':
     default:
       return <PropertiesPanel />
@@ -0,0 +1,165 @@
+import { memo, useLayoutEffect, useRef, useState } from 'react'
+import { useHelper } from '@react-three/drei'
+import * as THREE from 'three'
+import { RectAreaLightHelper } from 'three/examples/jsm/helpers/RectAreaLightHelper.js'
+import { RectAreaLightUniformsLib } from 'three/examples/jsm/lights/RectAreaLightUniformsLib.js'
+import { getSpotPenumbra } from '../core/lights'
+import type { LightData, LightType } from '../types/scene'
+
+const DEG2RAD = Math.PI / 180
+
+// Half-extent of the directional shadow camera, in world units
+const DIRECTIONAL_SHADOW_EXTENT = 10
+
+let rectAreaUniformsReady = false
+
+interface LightProps {
+  light: LightData
+  showHelper: boolean
+}
+
+// Aimed lights look at a target one unit down their local -Z axis
+function useLightTarget() {
+  const [target] = useState(() => {
+    const object = new THREE.Object3D()
+    object.position.set(0, 0, -1)
+    return object
+  })
+  return target
+}
+
+function shadowProps(light: LightData) {
+  return {
+    castShadow: light.castShadow,
+    'shadow-mapSize': [light.shadowMapSize, light.shadowMapSize] as [number, number],
+    'shadow-bias': light.shadowBias,
+    'shadow-radius': light.shadowRadius,
+  }
+}
+
+function DirectionalLightObject({ light, showHelper }: LightProps) {
+  const ref = useRef<THREE.DirectionalLight>(null!)
+  const target = useLightTarget()
+  useHelper(showHelper && ref, THREE.DirectionalLightHelper, 0.5)
+
+  return (
+    <>
+      <directionalLight
+        ref={ref}
+        color={light.color}
+        intensity={light.intensity}
+        target={target}
+        {...shadowProps(light)}
+        shadow-camera-left={-DIRECTIONAL_SHADOW_EXTENT}
+        shadow-camera-right={DIRECTIONAL_SHADOW_EXTENT}
+        shadow-camera-top={DIRECTIONAL_SHADOW_EXTENT}
+        shadow-camera-bottom={-DIRECTIONAL_SHADOW_EXTENT}
+      />
+      <primitive object={target} />
+    </>
+  )
+}
+
+function PointLightObject({ light, showHelper }: LightProps) {
+  const ref = useRef<THREE.PointLight>(null!)
+  useHelper(showHelper && ref, THREE.PointLightHelper, 0.25)
+
+  return (
+    <pointLight
+      ref={ref}
+      color={light.color}
+      intensity={light.intensity}
+      distance={light.range}
+      decay={light.decay}
+      {...shadowProps(light)}
+    />
+  )
+}
+
+function SpotLightObject({ light, showHelper }: LightProps) {
+  const ref = useRef<THREE.SpotLight>(null!)
+  const target = useLightTarget()
+  useHelper(showHelper && ref, THREE.SpotLightHelper)
+
+  return (
+    <>
+      <spotLight
+        ref={ref}
+        color={light.color}
+        intensity={light.intensity}
+        distance={light.range}
+        decay={light.decay}
+        angle={light.outerConeAngle * DEG2RAD}
+        penumbra={getSpotPenumbra(light)}
+        target={target}
+        {...shadowProps(light)}
+      />
+      <primitive object={target} />
+    </>
+  )
+}
+
+function AreaLightObject({ light, showHelper }: LightProps) {
+  const ref = useRef<THREE.RectAreaLight>(null!)
+  useHelper(showHelper && ref, RectAreaLightHelper)
+
+  // Area lights need extra shader uniforms, set up before the first frame that uses them
+  useLayoutEffect(() => {
+    if (rectAreaUniformsReady) return
+    RectAreaLightUniformsLib.init()
+    rectAreaUniformsReady = true
+  }, [])
+
+  return (
+    <rectAreaLight
+      ref={ref}
+      color={light.color}
+      intensity={light.intensity}
+      width={light.width}
+      height={light.height}
+    />
+  )
+}
+
+function HemisphereLightObject({ light, showHelper }: LightProps) {
+  const ref = useRef<THREE.HemisphereLight>(null!)
+  useHelper(showHelper && ref, THREE.HemisphereLightHelper, 0.4)
+
+  return (
+    <hemisphereLight
+      ref={ref}
+      color={light.color}
+      groundColor={light.groundColor}
+      intensity={light.intensity}
+    />
+  )
+}
+
+/**
+ * A light object's contents: the three.js light, its viewport helper and a
+ * small icon that makes the light clickable. Rendered inside the object's
+ * transform group.
+ */
+export const SceneLight3D = memo(function SceneLight3D({ type, light, visible }: {
+  type: LightType
+  light: LightData
+  visible: boolean
+}) {
+  const props = { light, showHelper: visible }
+  // three.js allocates a shadow map once, so a new map size needs a fresh light
+  const shadowKey = light.shadowMapSize
+
+  return (
+    <>
+      {type === 'directionalLight' && <DirectionalLightObject key={shadowKey} {...props} />}
+      {type === 'pointLight' && <PointLightObject key={shadowKey} {...props} />}
+      {type === 'spotLight' && <SpotLightObject key={shadowKey} {...props} />}
+      {type === 'areaLight' && <AreaLightObject {...props} />}
+      {type === 'hemisphereLight' && <HemisphereLightObject {...props} />}
+      <mesh>
+        <octahedronGeometry args={[0.15, 0]} />
+        <meshBasicMaterial color={light.color} wireframe />
+      </mesh>
+    </>
+  )
+})
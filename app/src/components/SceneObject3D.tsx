@@ -1,8 +1,16 @@
 import { memo, useRef, useMemo, useCallback, useEffect, useState, Suspense } from 'react'
-import { TransformControls, useGLTF } from '@react-three/drei'
+import { TransformControls, useGLTF, Edges } from '@react-three/drei'
+import { useFrame } from '@react-three/fiber'
 import { useSceneStore } from '../stores/useSceneStore'
 import { useUIStore } from '../stores/useUIStore'
-import { isGltfFormat } from '../core/modelLoader'
+import { useCollaborationStore } from '../stores/useCollaborationStore'
+import { useCameraStore } from '../stores/useCameraStore'
+import { sealHistory } from '../stores/useHistoryStore'
+import { getPeerSelectionColor, getForeignLease } from '../core/presence'
+import { getActiveSession } from '../core/collaboration'
+import { isGltfFormat, isModelMaterialCustomized } from '../core/modelLoader'
+import { isLightObject } from '../core/lights'
+import { SceneLight3D } from './SceneLight3D'
 import type { SceneObject, MaterialData } from '../types/scene'
 import * as THREE from 'three'
 import { FBXLoader } from 'three/examples/jsm/loaders/FBXLoader.js'
@@ -70,30 +78,6 @@ const ObjectMaterial = memo(function ObjectMaterial({ material, fallbackColor }:
   }
 })
 
-// Default material values for models - used to detect user customization
-const MODEL_DEFAULT_COLOR = '#c49a5c'
-const MODEL_DEFAULT_MATERIAL: MaterialData = {
-  type: 'standard',
-  color: MODEL_DEFAULT_COLOR,
-  opacity: 1,
-  transparent: false,
-  wireframe: false,
-  metalness: 0.1,
-  roughness: 0.7,
-}
-
-function isMaterialCustomized(material: MaterialData): boolean {
-  return (
-    material.color !== MODEL_DEFAULT_MATERIAL.color ||
-    material.type !== MODEL_DEFAULT_MATERIAL.type ||
-    material.opacity !== MODEL_DEFAULT_MATERIAL.opacity ||
-    material.transparent !== MODEL_DEFAULT_MATERIAL.transparent ||
-    material.wireframe !== MODEL_DEFAULT_MATERIAL.wireframe ||
-    material.metalness !== MODEL_DEFAULT_MATERIAL.metalness ||
-    material.roughness !== MODEL_DEFAULT_MATERIAL.roughness
-  )
-}
-
 // Apply material overrides to all meshes in a cloned GLTF scene
 function applyMaterialOverrides(root: THREE.Object3D, material: MaterialData) {
   root.traverse((child) => {
@@ -142,7 +126,7 @@ function applyMaterialOverrides(root: THREE.Object3D, material: MaterialData) {
 function GltfModel({ url, material }: { url: string; material: MaterialData }) {
   const { scene } = useGLTF(url)
   const clonedScene = useMemo(() => scene.clone(), [scene])
-  const customized = isMaterialCustomized(material)
+  const customized = isModelMaterialCustomized(material)
 
   // Apply material overrides when user has customized material properties
   useEffect(() => {
@@ -197,7 +181,7 @@ function GenericModel({ url, format, material }: { url: string; format: string;
   }, [url, format])
 
   const clonedScene = useMemo(() => loadedScene?.clone() ?? null, [loadedScene])
-  const customized = isMaterialCustomized(material)
+  const customized = isModelMaterialCustomized(material)
 
   useEffect(() => {
     if (clonedScene && customized) {
@@ -235,6 +219,20 @@ function ModelRenderer({ url, format, material }: { url: string; format?: string
   return <GenericModel url={url} format={format} material={material} />
 }
 
+// World-space bounding box around a model selected by a remote peer
+function ModelPeerOutline({ target, color }: { target: React.RefObject<THREE.Group | null>; color: string }) {
+  const helper = useMemo(() => new THREE.Box3Helper(new THREE.Box3(), color), [color])
+
+  useEffect(() => () => helper.dispose(), [helper])
+
+  // Models load asynchronously, so refit on every rendered frame
+  useFrame(() => {
+    if (target.current) helper.box.setFromObject(target.current)
+  })
+
+  return <primitive object={helper} raycast={() => null} />
+}
+
 export const SceneObject3D = memo(function SceneObject3D({ obj }: { obj: SceneObject }) {
   const meshRef = useRef<THREE.Mesh>(null)
   const groupRef = useRef<THREE.Group>(null)
@@ -247,7 +245,12 @@ export const SceneObject3D = memo(function SceneObject3D({ obj }: { obj: SceneOb
   const snapEnabled = useSceneStore((s) => s.snapEnabled)
   const snapValue = useSceneStore((s) => s.snapValue)
   const showContextMenu = useUIStore((s) => s.showContextMenu)
+  const peerColor = useCollaborationStore((s) => getPeerSelectionColor(s.peers, s.peerId, obj.id))
+  // Another peer is editing this object: treat it as locked
+  const leasedByPeer = useCollaborationStore((s) => getForeignLease(s.leases, obj.id, s.peerId) !== null)
   const isActive = selectedId === obj.id
+  // Models and lights render inside a transform group rather than a single mesh
+  const usesGroup = obj.type === 'model' || isLightObject(obj)
 
   // Map tool mode to TransformControls mode
   const transformMode = useMemo(() => {
@@ -259,9 +262,16 @@ export const SceneObject3D = memo(function SceneObject3D({ obj }: { obj: SceneOb
     }
   }, [toolMode])
 
-  // Sync transform back to store after gizmo interaction (history only on mouseUp)
+  // Lease the object for the duration of a gizmo drag in shared sessions. Each
+  // drag is its own undo step, even when it follows the last one quickly.
+  const handleTransformStart = useCallback(() => {
+    sealHistory()
+    getActiveSession()?.acquireLease([obj.id])
+  }, [obj.id])
+
+  // Sync transform back to store after gizmo interaction (one history entry per drag)
   const handleTransformEnd = useCallback(() => {
-    const ref = obj.type === 'model' ? groupRef.current : meshRef.current
+    const ref = usesGroup ? groupRef.current : meshRef.current
     if (!ref) return
     const { position, rotation, scale } = ref
     updateObject(obj.id, {
@@ -273,11 +283,19 @@ export const SceneObject3D = memo(function SceneObject3D({ obj }: { obj: SceneOb
       },
       scale: { x: scale.x, y: scale.y, z: scale.z },
     })
-  }, [obj.id, obj.type, updateObject])
+    getActiveSession()?.releaseLease([obj.id])
+  }, [obj.id, usesGroup, updateObject])
 
   // Handle click with Ctrl support for multi-select
   const handleClick = useCallback((e: THREE.Event) => {
     (e as unknown as { stopPropagation: () => void }).stopPropagation()
+    // Focus picking takes the click instead of selection
+    const camera = useCameraStore.getState()
+    if (camera.focusPicking) {
+      camera.setFocus({ targetId: obj.id })
+      camera.setFocusPicking(false)
+      return
+    }
     const nativeEvent = (e as unknown as { nativeEvent?: MouseEvent }).nativeEvent
     if (nativeEvent?.ctrlKey || nativeEvent?.metaKey) {
       toggleSelectObject(obj.id)
@@ -293,8 +311,23 @@ export const SceneObject3D = memo(function SceneObject3D({ obj }: { obj: SceneOb
     showContextMenu(nativeEvent.clientX, nativeEvent.clientY, obj.id)
   }, [obj.id, selectObject, showContextMenu])
 
-  // For GLTF models, use a group instead of mesh
-  if (obj.type === 'model' && obj.gltfUrl) {
+  // For GLTF models and lights, use a group instead of mesh
+  const groupContent = isLightObject(obj)
+    ? <SceneLight3D type={obj.type} light={obj.light} visible={obj.visible} />
+    : obj.type === 'model' && obj.gltfUrl
+      ? (
+        <Suspense fallback={
+          <mesh>
+            <boxGeometry args={[1, 1, 1]} />
+            <meshStandardMaterial color="#c49a5c" wireframe />
+          </mesh>
+        }>
+          <ModelRenderer url={obj.gltfUrl} format={obj.modelFormat} material={obj.material} />
+        </Suspense>
+      )
+      : null
+
+  if (groupContent) {
     const transformRef = groupRef
     const group = (
       <group
@@ -310,34 +343,35 @@ export const SceneObject3D = memo(function SceneObject3D({ obj }: { obj: SceneOb
         onClick={handleClick}
         onContextMenu={handleContextMenu}
       >
-        <Suspense fallback={
-          <mesh>
-            <boxGeometry args={[1, 1, 1]} />
-            <meshStandardMaterial color="#c49a5c" wireframe />
-          </mesh>
-        }>
-          <ModelRenderer url={obj.gltfUrl} format={obj.modelFormat} material={obj.material} />
-        </Suspense>
+        {groupContent}
       </group>
     )
+    const outline = peerColor && <ModelPeerOutline target={groupRef} color={peerColor} />
 
-    if (isActive && transformMode && !obj.locked && transformRef.current) {
+    if (isActive && transformMode && !obj.locked && !leasedByPeer && transformRef.current) {
       return (
         <>
           {group}
+          {outline}
           <TransformControls
             object={transformRef.current}
             mode={transformMode}
             translationSnap={snapEnabled ? snapValue : null}
             rotationSnap={snapEnabled ? (Math.PI / 12) : null}
             scaleSnap={snapEnabled ? snapValue : null}
+            onMouseDown={handleTransformStart}
             onMouseUp={handleTransformEnd}
           />
         </>
       )
     }
 
-    return group
+    return (
+      <>
+        {group}
+        {outline}
+      </>
+    )
   }
 
   // Standard primitive rendering
@@ -359,12 +393,14 @@ export const SceneObject3D = memo(function SceneObject3D({ obj }: { obj: SceneOb
     >
       <ObjectGeometry type={obj.type} />
       <ObjectMaterial material={obj.material} fallbackColor={obj.color} />
+      {/* Outline objects selected by remote peers in their color */}
+      {peerColor && <Edges color={peerColor} lineWidth={2} />}
     </mesh>
   )
 
   // Wrap active object with TransformControls when a transform tool is active
-  // Don't show transform gizmo for locked objects
-  if (isActive && transformMode && !obj.locked) {
+  // Don't show transform gizmo for locked objects or objects other peers are editing
+  if (isActive && transformMode && !obj.locked && !leasedByPeer) {
     return (
       <>
         {mesh}
@@ -375,6 +411,7 @@ export const SceneObject3D = memo(function SceneObject3D({ obj }: { obj: SceneOb
             translationSnap={snapEnabled ? snapValue : null}
             rotationSnap={snapEnabled ? (Math.PI / 12) : null}
             scaleSnap={snapEnabled ? snapValue : null}
+            onMouseDown={handleTransformStart}
             onMouseUp={handleTransformEnd}
           />
         )}
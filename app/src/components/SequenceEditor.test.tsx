@@ -0,0 +1,101 @@
+import { render, screen, fireEvent } from '@testing-library/react'
+import userEvent from '@testing-library/user-event'
+import { describe, it, expect, beforeEach } from 'vitest'
+import { SequenceEditor } from './SequenceEditor'
+import { useSequenceStore } from '../stores/useSequenceStore'
+import { useCameraStore } from '../stores/useCameraStore'
+import type { CameraShot } from '../types/cameraPath'
+
+function makeShot(id: string, name: string): CameraShot {
+  return {
+    id,
+    name,
+    position: { x: 0, y: 2, z: 8 },
+    target: { x: 0, y: 0, z: 0 },
+    createdAt: '2026-01-01T00:00:00.000Z',
+  }
+}
+
+describe('SequenceEditor', () => {
+  beforeEach(() => {
+    useSequenceStore.getState().clearSequence()
+    useCameraStore.setState({ shots: [makeShot('wide', 'Wide'), makeShot('close', 'Close Up')] })
+  })
+
+  it('prompts for shots when there are none', () => {
+    useCameraStore.setState({ shots: [] })
+    render(<SequenceEditor />)
+    expect(screen.getByText('Capture camera shots to start an edit')).toBeInTheDocument()
+    expect(screen.getByRole('button', { name: 'Add shot to sequence' })).toBeDisabled()
+  })
+
+  it('adds shots to the end of the edit', async () => {
+    const user = userEvent.setup()
+    render(<SequenceEditor />)
+
+    await user.click(screen.getByRole('button', { name: 'Add shot to sequence' }))
+    await user.selectOptions(screen.getByLabelText('Shot to add'), 'close')
+    await user.click(screen.getByRole('button', { name: 'Add shot to sequence' }))
+
+    expect(useSequenceStore.getState().clips.map(c => c.shotId)).toEqual(['wide', 'close'])
+    expect(screen.getByRole('button', { name: 'Close Up, 3.0s' })).toHaveAttribute('aria-pressed', 'true')
+  })
+
+  it('edits duration and transition of the selected clip', async () => {
+    const user = userEvent.setup()
+    useSequenceStore.getState().addClip('wide')
+    const id = useSequenceStore.getState().addClip('close')
+    render(<SequenceEditor />)
+
+    fireEvent.keyDown(screen.getByRole('slider', { name: 'Clip duration' }), { key: 'ArrowUp' })
+    expect(useSequenceStore.getState().clips[1].duration).toBeCloseTo(3.1, 6)
+
+    await user.selectOptions(screen.getByLabelText('Transition in'), 'dissolve')
+    expect(useSequenceStore.getState().clips.find(c => c.id === id)?.transition).toBe('dissolve')
+    expect(screen.getByRole('slider', { name: 'Dissolve length' })).toBeInTheDocument()
+  })
+
+  it('shows path and track controls for the chosen motion', async () => {
+    const user = userEvent.setup()
+    useSequenceStore.getState().addClip('wide')
+    render(<SequenceEditor />)
+
+    await user.selectOptions(screen.getByLabelText('Motion'), 'path')
+    expect(screen.getByLabelText('Camera path')).toBeInTheDocument()
+
+    await user.selectOptions(screen.getByLabelText('Motion'), 'track')
+    expect(screen.getByRole('slider', { name: 'Camera track in' })).toBeInTheDocument()
+    expect(screen.getByRole('slider', { name: 'Camera track out' })).toBeInTheDocument()
+  })
+
+  it('runs the transport with a timecode readout', async () => {
+    const user = userEvent.setup()
+    useSequenceStore.getState().addClip('wide')
+    render(<SequenceEditor />)
+
+    await user.click(screen.getByRole('button', { name: 'Play sequence' }))
+    expect(useSequenceStore.getState().playbackState).toBe('playing')
+    expect(screen.getByRole('button', { name: 'Pause sequence' })).toBeInTheDocument()
+
+    await user.click(screen.getByRole('button', { name: 'Stop sequence' }))
+    expect(useSequenceStore.getState().playbackState).toBe('stopped')
+
+    fireEvent.change(screen.getByRole('slider', { name: 'Sequence position' }), { target: { value: '1.5' } })
+    expect(useSequenceStore.getState().playbackState).toBe('paused')
+    expect(useSequenceStore.getState().playbackTime).toBe(1.5)
+    expect(screen.getByLabelText('Sequence timecode')).toHaveTextContent('00:00:01:')
+  })
+
+  it('reorders and removes clips', async () => {
+    const user = userEvent.setup()
+    useSequenceStore.getState().addClip('wide')
+    useSequenceStore.getState().addClip('close')
+    render(<SequenceEditor />)
+
+    await user.click(screen.getByRole('button', { name: 'Move clip earlier' }))
+    expect(useSequenceStore.getState().clips.map(c => c.shotId)).toEqual(['close', 'wide'])
+
+    await user.click(screen.getByRole('button', { name: 'Remove clip' }))
+    expect(useSequenceStore.getState().clips.map(c => c.shotId)).toEqual(['wide'])
+  })
+})
@@ -0,0 +1,370 @@
+import { useState } from 'react'
+import { useSequenceStore } from '../stores/useSequenceStore'
+import { useCameraStore } from '../stores/useCameraStore'
+import { useCameraPathStore } from '../stores/useCameraPathStore'
+import { useAnimationStore } from '../stores/useAnimationStore'
+import { useExportStore } from '../stores/useExportStore'
+import { getSequenceDuration, MIN_CLIP_DURATION } from '../core/sequence'
+import { formatTimecode } from '../core/overlays'
+import { RotaryKnob } from './ui/RotaryKnob'
+import type { ClipMotion, SequenceClip, TransitionType } from '../types/sequence'
+
+const PX_PER_SECOND = 40
+const MIN_CLIP_WIDTH = 56
+const MAX_CLIP_DURATION = 60
+
+const TRANSITIONS: { id: TransitionType; label: string }[] = [
+  { id: 'cut', label: 'Cut' },
+  { id: 'dissolve', label: 'Dissolve' },
+]
+
+const MOTIONS: { id: ClipMotion; label: string }[] = [
+  { id: 'static', label: 'Static shot' },
+  { id: 'path', label: 'Camera path' },
+  { id: 'track', label: 'Camera track segment' },
+]
+
+const selectClass = 'w-full bg-dust-900/80 border border-dust-600/50 rounded px-2 py-1 text-[11px] text-sand-200 hover:border-dust-500/70 focus:border-rust-500/50 focus:ring-1 focus:ring-rust-500/20 focus:outline-none transition-all duration-150'
+const labelClass = 'text-[10px] text-dust-300 mb-1 block font-medium'
+const buttonClass = 'px-2 py-0.5 rounded text-[10px] font-semibold tracking-[0.06em] btn-raised text-sand-200 hover:text-sand-100 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 disabled:opacity-40 disabled:cursor-default'
+
+/** Shot sequencer: clips cut together with durations and transitions, played back as an animatic */
+export function SequenceEditor() {
+  const clips = useSequenceStore(s => s.clips)
+  const selectedClipId = useSequenceStore(s => s.selectedClipId)
+  const playbackState = useSequenceStore(s => s.playbackState)
+  const playbackTime = useSequenceStore(s => s.playbackTime)
+  const addClip = useSequenceStore(s => s.addClip)
+  const selectClip = useSequenceStore(s => s.selectClip)
+  const play = useSequenceStore(s => s.play)
+  const pause = useSequenceStore(s => s.pause)
+  const stop = useSequenceStore(s => s.stop)
+  const setPlaybackTime = useSequenceStore(s => s.setPlaybackTime)
+  const shots = useCameraStore(s => s.shots)
+  const fps = useExportStore(s => s.videoOptions.fps)
+
+  const [shotToAdd, setShotToAdd] = useState('')
+
+  const duration = getSequenceDuration(clips)
+  const isPlaying = playbackState === 'playing'
+  const addShotId = shots.some(s => s.id === shotToAdd) ? shotToAdd : shots[0]?.id ?? ''
+  const selectedClip = clips.find(c => c.id === selectedClipId) ?? null
+
+  const handleScrub = (time: number) => {
+    // Scrubbing from stopped parks the playhead so the viewport follows it
+    if (playbackState === 'stopped') pause()
+    setPlaybackTime(time)
+  }
+
+  return (
+    <div className="bg-dust-900 flex flex-col h-full relative z-10">
+      {/* ── Transport ───────────────────────────────────────────────── */}
+      <div className="flex items-center gap-2 px-3 py-1.5 border-b border-dust-600/25 shrink-0">
+        <button
+          onClick={isPlaying ? pause : play}
+          disabled={clips.length === 0}
+          aria-label={isPlaying ? 'Pause sequence' : 'Play sequence'}
+          className={`px-2 py-0.5 rounded text-xs font-medium transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 disabled:opacity-40 ${
+            isPlaying
+              ? 'bg-rust-500 text-white'
+              : 'bg-dust-700 text-sand-200 hover:bg-dust-600'
+          }`}
+        >
+          {isPlaying ? '⏸' : '▶'}
+        </button>
+
+        <button onClick={stop} aria-label="Stop sequence" className={buttonClass}>
+          ⏹
+        </button>
+
+        {/* Running timecode */}
+        <span className="text-xs text-sand-200 tabular-nums min-w-[150px]" aria-label="Sequence timecode">
+          {formatTimecode(playbackTime, fps)} / {formatTimecode(duration, fps)}
+        </span>
+
+        <input
+          type="range"
+          min={0}
+          max={duration}
+          step={1 / fps}
+          value={Math.min(playbackTime, duration)}
+          onChange={e => handleScrub(Number(e.target.value))}
+          disabled={clips.length === 0}
+          aria-label="Sequence position"
+          className="flex-1 accent-rust-500"
+        />
+
+        <div className="w-px h-4 bg-dust-600 mx-1" />
+
+        {/* Add a shot to the end of the edit */}
+        <select
+          value={addShotId}
+          onChange={e => setShotToAdd(e.target.value)}
+          disabled={shots.length === 0}
+          aria-label="Shot to add"
+          className="bg-dust-900/80 border border-dust-600/50 rounded px-2 py-0.5 text-[11px] text-sand-200 focus:outline-none focus:ring-1 focus:ring-rust-500/20 max-w-[140px]"
+        >
+          {shots.length === 0 && <option value="">No shots</option>}
+          {shots.map(shot => (
+            <option key={shot.id} value={shot.id}>{shot.name}</option>
+          ))}
+        </select>
+        <button
+          onClick={() => addClip(addShotId)}
+          disabled={!addShotId}
+          aria-label="Add shot to sequence"
+          className="px-2 py-0.5 rounded text-xs font-medium btn-glass text-rust-300 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 disabled:opacity-40"
+        >
+          + Add Shot
+        </button>
+      </div>
+
+      <div className="flex flex-1 min-h-0">
+        {/* ── Clip strip ────────────────────────────────────────────── */}
+        <div className="flex-1 overflow-x-auto overflow-y-hidden p-3">
+          {clips.length === 0 ? (
+            <p className="text-[11px] text-dust-400 italic">
+              {shots.length === 0
+                ? 'Capture camera shots to start an edit'
+                : 'Add shots to build the animatic'}
+            </p>
+          ) : (
+            <div className="flex items-stretch gap-px h-16" role="list" aria-label="Sequence clips">
+              {clips.map((clip, index) => (
+                <ClipBlock
+                  key={clip.id}
+                  clip={clip}
+                  index={index}
+                  shotName={shots.find(s => s.id === clip.shotId)?.name ?? null}
+                  selected={clip.id === selectedClipId}
+                  onSelect={() => selectClip(clip.id)}
+                />
+              ))}
+            </div>
+          )}
+        </div>
+
+        {/* ── Clip inspector ────────────────────────────────────────── */}
+        {selectedClip && (
+          <ClipInspector
+            clip={selectedClip}
+            index={clips.indexOf(selectedClip)}
+            clipCount={clips.length}
+          />
+        )}
+      </div>
+    </div>
+  )
+}
+
+function ClipBlock({
+  clip,
+  index,
+  shotName,
+  selected,
+  onSelect,
+}: {
+  clip: SequenceClip
+  index: number
+  shotName: string | null
+  selected: boolean
+  onSelect: () => void
+}) {
+  const width = Math.max(MIN_CLIP_WIDTH, clip.duration * PX_PER_SECOND)
+  const dissolves = index > 0 && clip.transition === 'dissolve' && clip.transitionDuration > 0
+
+  return (
+    <div role="listitem" className="relative shrink-0" style={{ width }}>
+      <button
+        onClick={onSelect}
+        aria-pressed={selected}
+        aria-label={`${shotName ?? 'Missing shot'}, ${clip.duration.toFixed(1)}s`}
+        className={`w-full h-full rounded px-2 py-1 text-left overflow-hidden transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500 ${
+          selected
+            ? 'bg-rust-500/25 border border-rust-500/60'
+            : 'bg-dust-700/60 border border-dust-600/40 hover:bg-dust-600/60'
+        }`}
+      >
+        <span className={`block text-[11px] truncate ${shotName ? 'text-sand-200' : 'text-red-400 italic'}`}>
+          {shotName ?? 'Missing shot'}
+        </span>
+        <span className="block text-[10px] text-dust-400 tabular-nums">
+          {clip.duration.toFixed(1)}s{clip.motion !== 'static' ? ` · ${clip.motion}` : ''}
+        </span>
+      </button>
+      {/* Dissolve ramp over the head of the clip */}
+      {dissolves && (
+        <div
+          aria-hidden="true"
+          className="absolute top-0 left-0 h-1 rounded-tl bg-gradient-to-r from-cyan-400/0 to-cyan-400/70 pointer-events-none"
+          style={{ width: Math.min(width, clip.transitionDuration * PX_PER_SECOND) }}
+        />
+      )}
+    </div>
+  )
+}
+
+function ClipInspector({ clip, index, clipCount }: { clip: SequenceClip; index: number; clipCount: number }) {
+  const updateClip = useSequenceStore(s => s.updateClip)
+  const moveClip = useSequenceStore(s => s.moveClip)
+  const removeClip = useSequenceStore(s => s.removeClip)
+  const shots = useCameraStore(s => s.shots)
+  const paths = useCameraPathStore(s => s.paths)
+  const timelineDuration = useAnimationStore(s => s.duration)
+
+  const update = (updates: Partial<Omit<SequenceClip, 'id'>>) => updateClip(clip.id, updates)
+
+  return (
+    <div className="w-64 shrink-0 border-l border-dust-600/25 overflow-y-auto p-3 space-y-2" aria-label="Clip settings" role="group">
+      <div>
+        <label htmlFor="sequence-clip-shot" className={labelClass}>Shot</label>
+        <select
+          id="sequence-clip-shot"
+          value={clip.shotId}
+          onChange={e => update({ shotId: e.target.value })}
+          className={selectClass}
+        >
+          {!shots.some(s => s.id === clip.shotId) && <option value={clip.shotId}>Missing shot</option>}
+          {shots.map(shot => (
+            <option key={shot.id} value={shot.id}>{shot.name}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex justify-around">
+        <RotaryKnob
+          value={clip.duration}
+          onChange={v => update({ duration: v })}
+          label="Duration"
+          aria-label="Clip duration"
+          size="sm"
+          min={MIN_CLIP_DURATION}
+          max={MAX_CLIP_DURATION}
+          step={0.1}
+          precision={1}
+          unit="s"
+        />
+        {index > 0 && clip.transition === 'dissolve' && (
+          <RotaryKnob
+            value={clip.transitionDuration}
+            onChange={v => update({ transitionDuration: v })}
+            label="Dissolve"
+            aria-label="Dissolve length"
+            size="sm"
+            accent="cyan"
+            min={0}
+            max={clip.duration}
+            step={0.1}
+            precision={1}
+            unit="s"
+          />
+        )}
+      </div>
+
+      {index > 0 && (
+        <div>
+          <label htmlFor="sequence-clip-transition" className={labelClass}>Transition in</label>
+          <select
+            id="sequence-clip-transition"
+            value={clip.transition}
+            onChange={e => update({ transition: e.target.value as TransitionType })}
+            className={selectClass}
+          >
+            {TRANSITIONS.map(t => (
+              <option key={t.id} value={t.id}>{t.label}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      <div>
+        <label htmlFor="sequence-clip-motion" className={labelClass}>Motion</label>
+        <select
+          id="sequence-clip-motion"
+          value={clip.motion}
+          onChange={e => update({ motion: e.target.value as ClipMotion })}
+          className={selectClass}
+        >
+          {MOTIONS.map(m => (
+            <option key={m.id} value={m.id}>{m.label}</option>
+          ))}
+        </select>
+      </div>
+
+      {clip.motion === 'path' && (
+        <div>
+          <label htmlFor="sequence-clip-path" className={labelClass}>Camera path</label>
+          <select
+            id="sequence-clip-path"
+            value={clip.pathId ?? ''}
+            onChange={e => update({ pathId: e.target.value || null })}
+            className={selectClass}
+          >
+            <option value="">None (hold the shot)</option>
+            {paths.map(path => (
+              <option key={path.id} value={path.id}>{path.name}</option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {clip.motion === 'track' && (
+        <div className="flex justify-around">
+          <RotaryKnob
+            value={clip.trackIn}
+            onChange={v => update({ trackIn: v })}
+            label="In"
+            aria-label="Camera track in"
+            size="sm"
+            accent="cyan"
+            min={0}
+            max={timelineDuration}
+            step={0.1}
+            precision={1}
+            unit="s"
+          />
+          <RotaryKnob
+            value={clip.trackOut}
+            onChange={v => update({ trackOut: v })}
+            label="Out"
+            aria-label="Camera track out"
+            size="sm"
+            accent="cyan"
+            min={0}
+            max={timelineDuration}
+            step={0.1}
+            precision={1}
+            unit="s"
+          />
+        </div>
+      )}
+
+      <div className="flex gap-1 pt-1">
+        <button
+          onClick={() => moveClip(index, index - 1)}
+          disabled={index === 0}
+          aria-label="Move clip earlier"
+          className={buttonClass}
+        >
+          ◀
+        </button>
+        <button
+          onClick={() => moveClip(index, index + 1)}
+          disabled={index === clipCount - 1}
+          aria-label="Move clip later"
+          className={buttonClass}
+        >
+          ▶
+        </button>
+        <div className="flex-1" />
+        <button
+          onClick={() => removeClip(clip.id)}
+          aria-label="Remove clip"
+          className="px-2 py-0.5 rounded text-[10px] font-semibold text-red-400 hover:text-red-300 hover:bg-red-500/10 transition-colors focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500"
+        >
+          Remove
+        </button>
+      </div>
+    </div>
+  )
+}
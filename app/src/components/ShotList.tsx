@@ -1,5 +1,7 @@
 import { useState, useCallback } from 'react'
 import { useCameraStore } from '../stores/useCameraStore'
+import { formatLens } from '../core/lens'
+import { formatFStop } from '../core/focus'
 import { CollapsibleSection } from './ui/CollapsibleSection'
 
 export function ShotList() {
@@ -119,15 +121,22 @@ export function ShotList() {
                       maxLength={64}
                     />
                   ) : (
-                    <span
-                      className={`flex-1 min-w-0 truncate text-[11px] ${isActive ? 'text-sand-100' : 'text-dust-300'}`}
-                      onDoubleClick={(e) => {
-                        e.stopPropagation()
-                        handleStartEdit(shot.id, shot.name)
-                      }}
-                      title="Double-click to rename"
-                    >
-                      {shot.name}
+                    <span className="flex-1 min-w-0 flex flex-col">
+                      <span
+                        className={`truncate text-[11px] ${isActive ? 'text-sand-100' : 'text-dust-300'}`}
+                        onDoubleClick={(e) => {
+                          e.stopPropagation()
+                          handleStartEdit(shot.id, shot.name)
+                        }}
+                        title="Double-click to rename"
+                      >
+                        {shot.name}
+                      </span>
+                      {shot.lens && (
+                        <span className="truncate text-[9px] text-dust-500 font-mono">
+                          {formatLens(shot.lens)}{shot.lens.roll !== 0 && ` · ${shot.lens.roll.toFixed(1)}° roll`}{shot.focus && ` · ${formatFStop(shot.focus.fStop)}`}
+                        </span>
+                      )}
                     </span>
                   )}
 
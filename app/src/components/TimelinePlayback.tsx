@@ -1,8 +1,8 @@
 import { useFrame, useThree } from '@react-three/fiber'
 import { useAnimationStore } from '../stores/useAnimationStore'
-import { useSceneStore } from '../stores/useSceneStore'
 import { useCameraStore } from '../stores/useCameraStore'
-import { evaluateTrack, isCameraTrack } from '../core/animation'
+import { isCameraTrack } from '../core/animation'
+import { applyAnimationValues } from '../core/animationPlayback'
 import { useEffect, useRef } from 'react'
 
 /**
@@ -68,69 +68,6 @@ export function TimelinePlayback() {
   return null
 }
 
-/**
- * Apply interpolated animation values to scene objects and camera.
- * Called from useFrame and scrub invalidator — optimized for hot-path performance.
- */
-function applyAnimationValues(
-  time: number,
-  tracks: ReturnType<typeof useAnimationStore.getState>['tracks'],
-) {
-  if (tracks.length === 0) return
-
-  const sceneState = useSceneStore.getState()
-
-  // Build a Map for O(1) object lookup instead of O(n) find per track
-  const objectMap = new Map<string, number>()
-  for (let i = 0; i < sceneState.objects.length; i++) {
-    objectMap.set(sceneState.objects[i].id, i)
-  }
-
-  const updateMap = new Map<string, Partial<Pick<import('../types/scene').SceneObject, 'position' | 'rotation' | 'scale'>>>()
-
-  for (const track of tracks) {
-    // Handle camera tracks separately
-    if (isCameraTrack(track)) {
-      const values = evaluateTrack(track, time)
-      const camPos = values.cameraPosition
-      const camTarget = values.cameraTarget
-      if (camPos && camTarget) {
-        const controlsRef = useCameraStore.getState().controlsRef
-        if (controlsRef) {
-          controlsRef.setLookAt(
-            camPos.x, camPos.y, camPos.z,
-            camTarget.x, camTarget.y, camTarget.z,
-            false,
-          )
-        }
-      }
-      continue
-    }
-
-    const values = evaluateTrack(track, time)
-
-    // Check for any animated properties without Object.keys allocation
-    const hasValues = values.position !== undefined || values.rotation !== undefined || values.scale !== undefined
-    if (!hasValues) continue
-
-    // Check object exists via Map
-    if (!objectMap.has(track.objectId)) continue
-
-    updateMap.set(track.objectId, values)
-  }
-
-  // Batch update objects without pushing to history (animation is ephemeral)
-  if (updateMap.size > 0) {
-    useSceneStore.setState(state => ({
-      objects: state.objects.map(obj => {
-        const changes = updateMap.get(obj.id)
-        if (!changes) return obj
-        return { ...obj, ...changes }
-      }),
-    }))
-  }
-}
-
 /**
  * Renders as a child of Canvas. Subscribes to animation store
  * and invalidates the canvas when scrubbing (not playing).
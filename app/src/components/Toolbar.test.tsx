@@ -3,6 +3,7 @@ import userEvent from '@testing-library/user-event'
 import { describe, it, expect, beforeEach } from 'vitest'
 import { Toolbar } from './Toolbar'
 import { useSceneStore } from '../stores/useSceneStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
 import { useUIStore } from '../stores/useUIStore'
 
 function resetStore() {
@@ -12,9 +13,8 @@ function resetStore() {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useHistoryStore.getState().clear()
   useUIStore.setState({
     sidebarCollapsed: false,
     pivotMode: 'individual',
@@ -76,6 +76,17 @@ describe('Toolbar', () => {
     expect(useSceneStore.getState().objects[0].type).toBe('box')
   })
 
+  it('adds a light via the light dropdown', async () => {
+    const user = userEvent.setup()
+    render(<Toolbar />)
+
+    await user.click(screen.getByRole('button', { name: 'Add lights' }))
+    await user.click(screen.getByRole('menuitem', { name: 'Spot' }))
+    const [light] = useSceneStore.getState().objects
+    expect(light.type).toBe('spotLight')
+    expect(light.light?.castShadow).toBe(true)
+  })
+
   it('disables delete when nothing selected', () => {
     render(<Toolbar />)
     const deleteBtn = screen.getByRole('button', { name: /delete selected/i })
@@ -2,11 +2,13 @@ import { useState, useCallback, useRef, useMemo } from 'react'
 import { useSceneStore } from '../stores/useSceneStore'
 import { useUIStore, type PivotMode } from '../stores/useUIStore'
 import { useCameraStore } from '../stores/useCameraStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
 import { AutoSaveIndicator } from './ui/AutoSaveIndicator'
 import { ToolbarDropdown } from './ui/ToolbarDropdown'
 import { downloadScene, uploadScene } from '../core/serialization'
 import { CAMERA_PRESETS } from '../core/cameraPresets'
 import { detectModelFormat, getAcceptString } from '../core/modelLoader'
+import { registerBlobUrl } from '../core/blobStore'
 import type { ToolMode, ObjectType } from '../types/scene'
 
 const CAMERA_ICONS: Record<string, string> = {
@@ -40,6 +42,14 @@ const PRIMITIVES: { type: ObjectType; label: string; icon: string }[] = [
   { type: 'plane', label: 'Plane', icon: '\u25AD' },
 ]
 
+const LIGHTS: { type: ObjectType; label: string; icon: string }[] = [
+  { type: 'directionalLight', label: 'Directional', icon: '\u2600' },
+  { type: 'pointLight', label: 'Point', icon: '\u2739' },
+  { type: 'spotLight', label: 'Spot', icon: '\u25BC' },
+  { type: 'areaLight', label: 'Area', icon: '\u25A4' },
+  { type: 'hemisphereLight', label: 'Hemisphere', icon: '\u25D2' },
+]
+
 // Reusable button classes — refined for industrial aesthetic
 const btnBase = 'w-7 h-7 flex items-center justify-center rounded text-xs transition-all duration-150 focus-visible:outline-none focus-visible:ring-2 focus-visible:ring-rust-500/50'
 const btnDefault = `${btnBase} btn-raised text-dust-300 hover:text-sand-100`
@@ -55,10 +65,13 @@ export function Toolbar() {
   const duplicateObject = useSceneStore(s => s.duplicateObject)
   const removeSelected = useSceneStore(s => s.removeSelected)
   const duplicateSelected = useSceneStore(s => s.duplicateSelected)
-  const undo = useSceneStore(s => s.undo)
-  const redo = useSceneStore(s => s.redo)
-  const canUndo = useSceneStore(s => s.canUndo)
-  const canRedo = useSceneStore(s => s.canRedo)
+  // History spans every store, so subscribe to it rather than the scene
+  const undo = useHistoryStore(s => s.undo)
+  const redo = useHistoryStore(s => s.redo)
+  const canUndo = useHistoryStore(s => s.index > 0)
+  const canRedo = useHistoryStore(s => s.index < s.entries.length - 1)
+  const undoLabel = useHistoryStore(s => (s.index > 0 ? s.entries[s.index].label : null))
+  const redoLabel = useHistoryStore(s => s.entries[s.index + 1]?.label ?? null)
   const saveScene = useSceneStore(s => s.saveScene)
   const loadScene = useSceneStore(s => s.loadScene)
   const clearScene = useSceneStore(s => s.clearScene)
@@ -129,6 +142,7 @@ export function Toolbar() {
 
     setIsImporting(true)
     const url = URL.createObjectURL(file)
+    registerBlobUrl(url, file)
     const name = file.name.replace(/\.(glb|gltf|fbx|obj|dae)$/i, '')
     addModelObject(name, url, format)
     setIsImporting(false)
@@ -163,6 +177,15 @@ export function Toolbar() {
     },
   ], [addObject, isImporting, handleImportModel])
 
+  const lightItems = useMemo(() =>
+    LIGHTS.map(light => ({
+      id: light.type,
+      icon: light.icon,
+      label: light.label,
+      onClick: () => addObject(light.type),
+    })),
+  [addObject])
+
   const fileItems = useMemo(() => [
     { id: 'save', icon: '\uD83D\uDCBE', label: 'Save Scene', shortcut: 'Ctrl+S', onClick: handleSave },
     { id: 'load', icon: '\uD83D\uDCC2', label: 'Load Scene', onClick: handleLoad },
@@ -245,6 +268,11 @@ export function Toolbar() {
         columns={3}
         ariaLabel="Add objects"
       />
+      <ToolbarDropdown
+        trigger="Light"
+        items={lightItems}
+        ariaLabel="Add lights"
+      />
       <input
         ref={fileInputRef}
         type="file"
@@ -279,10 +307,10 @@ export function Toolbar() {
 
         <div className="w-px h-4 bg-dust-600/20 mx-0.5" />
 
-        <button onClick={undo} disabled={!canUndo()} aria-label="Undo" title="Undo (Ctrl+Z)" className={btnDisabled}>
+        <button onClick={undo} disabled={!canUndo} aria-label="Undo" title={undoLabel ? `Undo ${undoLabel} (Ctrl+Z)` : 'Undo (Ctrl+Z)'} className={btnDisabled}>
           {'\u21B6'}
         </button>
-        <button onClick={redo} disabled={!canRedo()} aria-label="Redo" title="Redo (Ctrl+Shift+Z)" className={btnDisabled}>
+        <button onClick={redo} disabled={!canRedo} aria-label="Redo" title={redoLabel ? `Redo ${redoLabel} (Ctrl+Shift+Z)` : 'Redo (Ctrl+Shift+Z)'} className={btnDisabled}>
           {'\u21B7'}
         </button>
       </div>
@@ -2,20 +2,32 @@ import { useCallback, useEffect, useRef } from 'react'
 import { Canvas, useThree, useFrame } from '@react-three/fiber'
 import { CameraControls, Grid, Environment, GizmoHelper, GizmoViewport } from '@react-three/drei'
 import type CameraControlsImpl from 'camera-controls'
+import * as THREE from 'three'
 import { useSceneStore } from '../stores/useSceneStore'
 import { useUIStore } from '../stores/useUIStore'
 import { usePostProcessingStore } from '../stores/usePostProcessingStore'
 import { useCameraStore } from '../stores/useCameraStore'
 import { useCameraPathStore } from '../stores/useCameraPathStore'
 import { useAnimationStore } from '../stores/useAnimationStore'
-import { evaluatePath } from '../core/cameraPath'
+import { useCollaborationStore } from '../stores/useCollaborationStore'
+import { useSequenceStore } from '../stores/useSequenceStore'
+import { getActiveSession } from '../core/collaboration'
+import { evaluatePath, toEvaluatorPath } from '../core/cameraPath'
 import { isCameraTrack } from '../core/animation'
-import type { CameraPath as CoreCameraPath } from '../core/cameraPath'
+import { getPeerColor } from '../core/presence'
+import { STUDIO_LIGHTS } from '../core/studioLights'
+import { hasSceneLights } from '../core/lights'
+import { getCanvasFov } from '../core/lens'
+import type { ViewRenderer } from '../types/export'
+import { getFrameAspectRatio } from '../core/overlays'
+import { evaluateSequence, locateClip, type SequenceCameraState } from '../core/sequence'
 import { SceneObject3D } from './SceneObject3D'
 import { ContextMenu, type ContextMenuItem } from './ui/ContextMenu'
 import { StatsCollector, SceneStatsOverlay } from './ui/SceneStats'
 import { PostProcessingEffects } from './PostProcessing'
 import { TimelinePlayback, TimelineScrubInvalidator } from './TimelinePlayback'
+import { PeerPresence } from './PeerPresence'
+import { FrameOverlay } from './FrameOverlay'
 
 function GroundPlane() {
   return (
@@ -72,13 +84,18 @@ function StoreInvalidator() {
   const bloom = usePostProcessingStore(s => s.bloom)
   const ssao = usePostProcessingStore(s => s.ssao)
   const vignette = usePostProcessingStore(s => s.vignette)
+  const depthOfField = usePostProcessingStore(s => s.depthOfField)
+  const focus = useCameraStore(s => s.focus)
 
   // Invalidate when animation playback starts so useFrame loop kicks off
   const isPlaying = useAnimationStore(s => s.isPlaying)
 
+  // Remote cameras, cursors and selections
+  const peers = useCollaborationStore(s => s.peers)
+
   useEffect(() => {
     invalidate()
-  }, [objects, selectedId, selectedIds, environment, toolMode, ppEnabled, bloom, ssao, vignette, isPlaying, invalidate])
+  }, [objects, selectedId, selectedIds, environment, toolMode, ppEnabled, bloom, ssao, vignette, depthOfField, focus, isPlaying, peers, invalidate])
 
   return null
 }
@@ -93,7 +110,13 @@ function CameraControlsBridge() {
     setControlsRef(controls)
   }, [setControlsRef])
 
-  const handleChange = useCallback(() => invalidate(), [invalidate])
+  const handleChange = useCallback(() => {
+    invalidate()
+    // Share our view with the room (the session throttles and de-duplicates)
+    const session = getActiveSession()
+    const view = session && useCameraStore.getState().getCurrentView()
+    if (session && view) session.updatePresence({ camera: view })
+  }, [invalidate])
 
   return (
     <CameraControls
@@ -140,29 +163,14 @@ function CameraPathPlayback() {
 
     useCameraPathStore.getState().setPlaybackTime(clampedTime)
 
-    // Convert store path format to core evaluator format
-    const corePath: CoreCameraPath = {
-      id: path.id,
-      name: path.name,
-      duration: path.duration,
-      loop: path.loop,
-      tension: path.points[0]?.tension ?? 0.5,
-      points: path.points.map(pt => ({
-        id: pt.id,
-        position: pt.position,
-        lookAt: pt.target,
-        fov: 50,
-        time: pt.time,
-      })),
-    }
-
-    const state = evaluatePath(corePath, clampedTime)
+    const state = evaluatePath(toEvaluatorPath(path), clampedTime)
 
     controlsRef.setLookAt(
       state.position.x, state.position.y, state.position.z,
       state.lookAt.x, state.lookAt.y, state.lookAt.z,
       false, // no smooth transition during playback
     )
+    if (state.lens) useCameraStore.getState().setLens(state.lens)
     invalidate()
   })
 
@@ -174,28 +182,14 @@ function CameraPathPlayback() {
     const path = useCameraPathStore.getState().getActivePath()
     if (!path || path.points.length < 2) return
 
-    const corePath: CoreCameraPath = {
-      id: path.id,
-      name: path.name,
-      duration: path.duration,
-      loop: path.loop,
-      tension: path.points[0]?.tension ?? 0.5,
-      points: path.points.map(pt => ({
-        id: pt.id,
-        position: pt.position,
-        lookAt: pt.target,
-        fov: 50,
-        time: pt.time,
-      })),
-    }
-
-    const state = evaluatePath(corePath, playbackTime)
+    const state = evaluatePath(toEvaluatorPath(path), playbackTime)
 
     controlsRef.setLookAt(
       state.position.x, state.position.y, state.position.z,
       state.lookAt.x, state.lookAt.y, state.lookAt.z,
       false,
     )
+    if (state.lens) useCameraStore.getState().setLens(state.lens)
     invalidate()
     lastTimeRef.current = playbackTime
   }, [playbackTime, playbackState, controlsRef, invalidate])
@@ -203,6 +197,237 @@ function CameraPathPlayback() {
   return null
 }
 
+const DEG2RAD = Math.PI / 180
+
+// Offscreen renders for exports: the renderer is resized to the requested
+// resolution, drawn from a throwaway camera, copied out and restored in one
+// task, so the viewport never shows the intermediate frame
+function ViewRendererBridge() {
+  const gl = useThree(s => s.gl)
+  const scene = useThree(s => s.scene)
+  const invalidate = useThree(s => s.invalidate)
+
+  useEffect(() => {
+    const render: ViewRenderer = (view, width, height) => {
+      const aspect = width / Math.max(height, 1)
+      const camera = new THREE.PerspectiveCamera(getCanvasFov(view.lens, aspect), aspect, 0.1, 1000)
+      camera.position.set(view.position.x, view.position.y, view.position.z)
+      camera.lookAt(view.target.x, view.target.y, view.target.z)
+      if (view.lens.roll !== 0) camera.rotateZ(view.lens.roll * DEG2RAD)
+
+      const size = gl.getSize(new THREE.Vector2())
+      const pixelRatio = gl.getPixelRatio()
+      gl.setPixelRatio(1)
+      gl.setSize(width, height, false)
+      gl.render(scene, camera)
+
+      const out = document.createElement('canvas')
+      out.width = width
+      out.height = height
+      out.getContext('2d')?.drawImage(gl.domElement, 0, 0)
+
+      gl.setPixelRatio(pixelRatio)
+      gl.setSize(size.x, size.y, false)
+      invalidate()
+      return out
+    }
+
+    useCameraStore.getState().setViewRenderer(render, gl.domElement)
+    return () => useCameraStore.getState().setViewRenderer(null)
+  }, [gl, scene, invalidate])
+
+  return null
+}
+
+// Points the controls at a sequence camera and takes over the active lens and focus
+function applySequenceCamera(controls: CameraControlsImpl, state: SequenceCameraState) {
+  controls.setLookAt(
+    state.position.x, state.position.y, state.position.z,
+    state.target.x, state.target.y, state.target.z,
+    false,
+  )
+  const cameraStore = useCameraStore.getState()
+  cameraStore.setLens(state.lens)
+  cameraStore.setFocus(state.focus)
+}
+
+// Renders one still from a sequence camera, for the outgoing side of a dissolve.
+// Read back in the same task as the render, so the canvas doesn't need
+// preserveDrawingBuffer; post-processing is skipped for this one frame.
+function renderSequenceStill(
+  controls: CameraControlsImpl,
+  camera: THREE.Camera,
+  gl: THREE.WebGLRenderer,
+  scene: THREE.Scene,
+  aspect: number,
+  state: SequenceCameraState,
+): string {
+  applySequenceCamera(controls, state)
+  controls.update(0)
+  if (camera instanceof THREE.PerspectiveCamera) {
+    const { aspect: frameAspect } = useCameraStore.getState().overlays
+    camera.fov = getCanvasFov(state.lens, aspect, frameAspect ? getFrameAspectRatio(frameAspect) : null)
+    camera.updateProjectionMatrix()
+  }
+  if (state.lens.roll !== 0) camera.rotateZ(state.lens.roll * DEG2RAD)
+  gl.render(scene, camera)
+  return gl.domElement.toDataURL('image/jpeg', 0.85)
+}
+
+// Plays the shot sequence through the viewport camera. A dissolve grabs the
+// outgoing clip's last frame once and SequenceDissolve fades it out over the
+// incoming clip.
+function SequencePlayback() {
+  const controlsRef = useCameraStore(s => s.controlsRef)
+  const playbackState = useSequenceStore(s => s.playbackState)
+  const playbackTime = useSequenceStore(s => s.playbackTime)
+  const invalidate = useThree(s => s.invalidate)
+  const pendingRef = useRef(false)
+
+  // Scrubbing or pausing re-applies the camera on the next frame
+  useEffect(() => {
+    if (playbackState === 'stopped') return
+    pendingRef.current = true
+    invalidate()
+  }, [playbackTime, playbackState, invalidate])
+
+  useFrame(({ camera, gl, scene, size }, delta) => {
+    const sequence = useSequenceStore.getState()
+    if (sequence.playbackState === 'stopped' || !controlsRef) return
+    if (sequence.playbackState !== 'playing' && !pendingRef.current) return
+    pendingRef.current = false
+
+    let time = sequence.playbackTime
+    if (sequence.playbackState === 'playing') {
+      const duration = sequence.getDuration()
+      time = Math.min(time + delta, duration)
+      sequence.setPlaybackTime(time)
+      // Hold the last frame; playing again starts the edit over
+      if (time >= duration) sequence.pause()
+      invalidate()
+    }
+
+    const frame = evaluateSequence(sequence.clips, time, {
+      shots: useCameraStore.getState().shots,
+      paths: useCameraPathStore.getState().paths,
+      cameraTrack: useAnimationStore.getState().tracks.find(isCameraTrack),
+    })
+    if (!frame) return
+
+    const snapshot = sequence.dissolveSnapshot
+    if (frame.dissolve?.from) {
+      if (snapshot?.clipId !== frame.clip.id) {
+        const image = renderSequenceStill(
+          controlsRef, camera, gl, scene, size.width / Math.max(size.height, 1), frame.dissolve.from,
+        )
+        sequence.setDissolveSnapshot({ clipId: frame.clip.id, image })
+      }
+    } else if (snapshot) {
+      sequence.setDissolveSnapshot(null)
+    }
+
+    if (frame.camera) applySequenceCamera(controlsRef, frame.camera)
+  })
+
+  return null
+}
+
+
+// Applies the active lens to the viewport camera: FOV from focal length and
+// sensor (fitted to the delivery frame when one is masked), then Dutch roll on
+// top of the orientation CameraControls just set
+function LensRig() {
+  const lens = useCameraStore(s => s.lens)
+  const frameAspect = useCameraStore(s => s.overlays.aspect)
+  const invalidate = useThree(s => s.invalidate)
+
+  useEffect(() => {
+    invalidate()
+  }, [lens, frameAspect, invalidate])
+
+  // Runs after CameraControls' own update (priority -1)
+  useFrame(({ camera, size }) => {
+    const { lens: current, overlays, controlsRef } = useCameraStore.getState()
+    if (camera instanceof THREE.PerspectiveCamera) {
+      const frameRatio = overlays.aspect ? getFrameAspectRatio(overlays.aspect) : null
+      const fov = getCanvasFov(current, size.width / Math.max(size.height, 1), frameRatio)
+      if (Math.abs(camera.fov - fov) > 1e-6) {
+        camera.fov = fov
+        camera.updateProjectionMatrix()
+      }
+    }
+    // CameraControls re-aims the camera on every update, so the roll never accumulates
+    if (controlsRef && current.roll !== 0) camera.rotateZ(current.roll * DEG2RAD)
+  })
+
+  return null
+}
+
+// Slaves the viewport camera to the followed peer's camera
+function PeerFollower() {
+  const controlsRef = useCameraStore(s => s.controlsRef)
+  const camera = useCollaborationStore(s =>
+    s.followPeerId ? s.peers.find(p => p.peerId === s.followPeerId)?.camera ?? null : null)
+  const invalidate = useThree(s => s.invalidate)
+
+  useEffect(() => {
+    if (!controlsRef || !camera) return
+    controlsRef.setLookAt(
+      camera.position.x, camera.position.y, camera.position.z,
+      camera.target.x, camera.target.y, camera.target.z,
+      true,
+    )
+    invalidate()
+  }, [camera, controlsRef, invalidate])
+
+  // Orbiting, panning or zooming ourselves ends follow mode
+  useEffect(() => {
+    if (!controlsRef) return
+    const stopFollowing = () => useCollaborationStore.getState().setFollowPeer(null)
+    controlsRef.addEventListener('controlstart', stopFollowing)
+    return () => controlsRef.removeEventListener('controlstart', stopFollowing)
+  }, [controlsRef])
+
+  return null
+}
+
+function StudioLightRig() {
+  return (
+    <>
+      {STUDIO_LIGHTS.map(light => {
+        const position: [number, number, number] | undefined = light.position
+          ? [light.position.x, light.position.y, light.position.z]
+          : undefined
+        switch (light.type) {
+          case 'ambient':
+            return <ambientLight key={light.name} intensity={light.intensity} color={light.color} />
+          case 'directional':
+            return (
+              <directionalLight
+                key={light.name}
+                position={position}
+                intensity={light.intensity}
+                castShadow={light.castShadow}
+                color={light.color}
+              />
+            )
+          case 'point':
+            return (
+              <pointLight
+                key={light.name}
+                position={position}
+                intensity={light.intensity}
+                color={light.color}
+                distance={light.distance}
+                decay={light.decay}
+              />
+            )
+        }
+      })}
+    </>
+  )
+}
+
 function SceneBackground() {
   const bg = useSceneStore(s => s.environment.backgroundColor)
   return <color attach="background" args={[bg]} />
@@ -211,26 +436,12 @@ function SceneBackground() {
 function SceneContent() {
   const objects = useSceneStore(s => s.objects)
   const selectObject = useSceneStore(s => s.selectObject)
+  const sceneLit = hasSceneLights(objects)
 
   return (
     <>
-      {/* Lighting — industrial studio */}
-      <ambientLight intensity={0.2} color="#e0d8e8" />
-      <directionalLight
-        position={[5, 10, 4]}
-        intensity={1.0}
-        castShadow
-        color="#ffffff"
-      />
-      <directionalLight
-        position={[-4, 6, -3]}
-        intensity={0.2}
-        color="#88ccff"
-      />
-      {/* Subtle warm rim from below-right */}
-      <pointLight position={[8, 0.5, 0]} intensity={0.12} color="#e8e0d8" distance={20} decay={2} />
-      {/* Cool fill from back-left */}
-      <pointLight position={[-6, 2, -6]} intensity={0.06} color="#d0d0e0" distance={15} decay={2} />
+      {/* Lighting — industrial studio, until the scene has lights of its own */}
+      {!sceneLit && <StudioLightRig />}
 
       {/* Environment — dark studio, no visible background */}
       <Environment preset="night" background={false} />
@@ -254,6 +465,8 @@ function SceneContent() {
         rotation={[-Math.PI / 2, 0, 0]}
         position={[0, -0.02, 0]}
         onClick={() => selectObject(null)}
+        onPointerMove={(e) => getActiveSession()?.updatePresence({ cursor: { x: e.point.x, y: 0, z: e.point.z } })}
+        onPointerOut={() => getActiveSession()?.updatePresence({ cursor: null })}
         visible={false}
       >
         <planeGeometry args={[100, 100]} />
@@ -281,6 +494,19 @@ function SceneContent() {
       {/* Camera path playback */}
       <CameraPathPlayback />
 
+      {/* Shot sequence (animatic) playback */}
+      <SequencePlayback />
+
+      {/* Lens: focal length, sensor and Dutch roll */}
+      <LensRig />
+
+      {/* Offscreen renders for storyboard export */}
+      <ViewRendererBridge />
+
+      {/* Collaboration: remote peers and follow mode */}
+      <PeerPresence />
+      <PeerFollower />
+
       {/* Stats collector (writes FPS/draw calls to shared ref) */}
       <StatsCollector />
 
@@ -296,6 +522,10 @@ function ViewportOverlay() {
   const objects = useSceneStore(s => s.objects)
   const toolMode = useSceneStore(s => s.toolMode)
 
+  const followPeerId = useCollaborationStore(s => s.followPeerId)
+  const followedName = useCollaborationStore(s => s.peers.find(p => p.peerId === s.followPeerId)?.userName)
+  const setFollowPeer = useCollaborationStore(s => s.setFollowPeer)
+
   const selected = objects.find(o => o.id === selectedId)
 
   return (
@@ -316,6 +546,22 @@ function ViewportOverlay() {
         </div>
       )}
 
+      {/* Follow mode - top center */}
+      {followPeerId && (
+        <div
+          className="absolute top-2.5 left-1/2 -translate-x-1/2 flex items-center gap-2 bg-dust-900/95 border rounded px-2.5 py-1 backdrop-blur-sm"
+          style={{ borderColor: getPeerColor(followPeerId) }}
+        >
+          <span className="text-sand-200 text-[11px]">Following {followedName}</span>
+          <button
+            onClick={() => setFollowPeer(null)}
+            className="text-[10px] uppercase tracking-wider text-rust-400 hover:text-rust-300 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500/60 rounded-sm"
+          >
+            Stop
+          </button>
+        </div>
+      )}
+
       {/* Controls help - bottom left HUD */}
       <div className="absolute bottom-2.5 left-2.5 select-none pointer-events-none space-y-0.5">
         <div className="text-dust-500/70 text-[10px] font-mono tracking-wide">LMB Orbit · MMB Pan · Scroll Zoom</div>
@@ -393,6 +639,30 @@ function SceneContextMenu() {
   )
 }
 
+// Outgoing frame of a sequence dissolve, faded out over the live viewport
+function SequenceDissolve() {
+  const snapshot = useSequenceStore(s => s.dissolveSnapshot)
+  const opacity = useSequenceStore(s => {
+    if (!s.dissolveSnapshot) return 0
+    const located = locateClip(s.clips, s.playbackTime)
+    const clip = located ? s.clips[located.index] : null
+    if (!located || !clip || clip.id !== s.dissolveSnapshot.clipId || clip.transitionDuration <= 0) return 0
+    return Math.max(0, 1 - located.localTime / clip.transitionDuration)
+  })
+
+  if (!snapshot || opacity <= 0) return null
+
+  return (
+    <img
+      src={snapshot.image}
+      alt=""
+      aria-hidden="true"
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      style={{ opacity }}
+    />
+  )
+}
+
 export function Viewport() {
   const hideContextMenu = useUIStore(s => s.hideContextMenu)
   const backgroundColor = useSceneStore(s => s.environment.backgroundColor)
@@ -419,6 +689,12 @@ export function Viewport() {
         <SceneContent />
       </Canvas>
 
+      {/* Sequence dissolves */}
+      <SequenceDissolve />
+
+      {/* Delivery mask, safe frames, guides and HUD */}
+      <FrameOverlay />
+
       {/* Viewport overlays */}
       <ViewportOverlay />
 
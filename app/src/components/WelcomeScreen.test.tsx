@@ -3,6 +3,7 @@ import userEvent from '@testing-library/user-event'
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { WelcomeScreen } from './WelcomeScreen'
 import { useSceneStore } from '../stores/useSceneStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
 import { useStorageStore } from '../stores/useStorageStore'
 import { useUIStore } from '../stores/useUIStore'
 import type { SavedSceneMetadata } from '../types/storage'
@@ -16,9 +17,8 @@ function resetStores() {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useHistoryStore.getState().clear()
   useStorageStore.setState({
     scenes: [],
     activeSceneId: null,
@@ -6,6 +6,7 @@ import { ObjectList } from './ObjectList'
 import { PropertiesPanel } from './PropertiesPanel'
 import { EnvironmentPanel } from './ui/EnvironmentPanel'
 import { useSceneStore } from '../stores/useSceneStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
 
 function resetStore() {
   useSceneStore.setState({
@@ -15,9 +16,8 @@ function resetStore() {
     clipboard: [],
     toolMode: 'select',
     snapEnabled: false,
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useHistoryStore.getState().clear()
 }
 
 // ---------------------------------------------------------------------------
@@ -3,7 +3,10 @@ import userEvent from '@testing-library/user-event'
 import { describe, it, expect, beforeEach } from 'vitest'
 import { EnvironmentPanel } from './EnvironmentPanel'
 import { useSceneStore } from '../../stores/useSceneStore'
+import { useHistoryStore } from '../../stores/useHistoryStore'
+import { useAnimationStore } from '../../stores/useAnimationStore'
 import { createDefaultEnvironment } from '../../core/sceneOperations'
+import { ENVIRONMENT_TRACK_OBJECT_ID } from '../../core/animation'
 
 function resetStore() {
   useSceneStore.setState({
@@ -13,9 +16,9 @@ function resetStore() {
     clipboard: [],
     toolMode: 'select',
     environment: createDefaultEnvironment(),
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useAnimationStore.setState({ tracks: [], duration: 5, currentTime: 0 })
+  useHistoryStore.getState().clear()
 }
 
 /** Click the Environment section toggle to expand it */
@@ -155,4 +158,33 @@ describe('EnvironmentPanel', () => {
 
     expect(useSceneStore.getState().environment.backgroundColor).toBe('#ff0000')
   })
+
+  it('keys the background color on the environment track', async () => {
+    const user = userEvent.setup()
+    useAnimationStore.setState({ currentTime: 1 })
+    render(<EnvironmentPanel />)
+    await expandSection(user)
+
+    const key = screen.getByRole('button', { name: 'Key background' })
+    expect(key).toHaveAttribute('aria-pressed', 'false')
+    await user.click(key)
+
+    const [track] = useAnimationStore.getState().tracks
+    expect(track.objectId).toBe(ENVIRONMENT_TRACK_OBJECT_ID)
+    expect(track.keyframes).toMatchObject([{ time: 1, property: 'environment.backgroundColor' }])
+    expect(key).toHaveAttribute('aria-pressed', 'true')
+  })
+
+  it('keys fog distances once fog is on', async () => {
+    const user = userEvent.setup()
+    useSceneStore.getState().updateEnvironment({ fogEnabled: true })
+    render(<EnvironmentPanel />)
+    await expandSection(user)
+
+    await user.click(screen.getByRole('button', { name: 'Key fog far' }))
+    expect(useAnimationStore.getState().tracks[0].keyframes[0]).toMatchObject({
+      property: 'environment.fogFar',
+      value: { x: 50, y: 0, z: 0 },
+    })
+  })
 })
@@ -1,5 +1,7 @@
 import { useSceneStore } from '../../stores/useSceneStore'
+import { ENVIRONMENT_TRACK_OBJECT_ID } from '../../core/animation'
 import { CollapsibleSection } from './CollapsibleSection'
+import { PropertyKeyButton } from './PropertyKeyButton'
 import { RotaryKnob } from './RotaryKnob'
 
 export function EnvironmentPanel() {
@@ -55,6 +57,7 @@ export function EnvironmentPanel() {
                 accent="cyan"
                 aria-label="Fog near distance"
               />
+              <PropertyKeyButton objectId={ENVIRONMENT_TRACK_OBJECT_ID} path="environment.fogNear" value={environment.fogNear} />
               <RotaryKnob
                 value={environment.fogFar}
                 onChange={v => updateEnvironment({ fogFar: Math.round(v) })}
@@ -66,6 +69,7 @@ export function EnvironmentPanel() {
                 accent="rust"
                 aria-label="Fog far distance"
               />
+              <PropertyKeyButton objectId={ENVIRONMENT_TRACK_OBJECT_ID} path="environment.fogFar" value={environment.fogFar} />
             </div>
           </div>
         )}
@@ -81,7 +85,12 @@ export function EnvironmentPanel() {
               onChange={e => updateEnvironment({ backgroundColor: e.target.value })}
               className="w-6 h-6 rounded border border-dust-600 cursor-pointer bg-transparent"
             />
-            <span className="text-xs text-dust-500 font-mono">{environment.backgroundColor}</span>
+            <span className="flex-1 text-xs text-dust-500 font-mono">{environment.backgroundColor}</span>
+            <PropertyKeyButton
+              objectId={ENVIRONMENT_TRACK_OBJECT_ID}
+              path="environment.backgroundColor"
+              value={environment.backgroundColor}
+            />
           </div>
         </div>
       </CollapsibleSection>
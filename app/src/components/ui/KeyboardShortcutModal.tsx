@@ -44,6 +44,23 @@ const sections: ShortcutSection[] = [
       { keys: ['Ctrl', 'Y'], description: 'Redo' },
     ],
   },
+  {
+    title: 'Dope Sheet',
+    shortcuts: [
+      { keys: ['Shift', 'Click'], description: 'Add keys to the selection' },
+      { keys: ['←', '→'], description: 'Nudge keys one frame' },
+      { keys: ['Ctrl', 'C'], description: 'Copy keys' },
+      { keys: ['Ctrl', 'V'], description: 'Paste keys at the playhead' },
+    ],
+  },
+  {
+    title: 'Graph Editor',
+    shortcuts: [
+      { keys: ['F'], description: 'Frame selected keys' },
+      { keys: ['Home'], description: 'Frame all curves' },
+      { keys: ['Double-click'], description: 'Add a key on the nearest curve' },
+    ],
+  },
   {
     title: 'View',
     shortcuts: [
@@ -0,0 +1,93 @@
+import { RotaryKnob } from './RotaryKnob'
+import {
+  SENSOR_PRESETS,
+  PRIME_FOCAL_LENGTHS,
+  MIN_FOCAL_LENGTH,
+  MAX_FOCAL_LENGTH,
+  MAX_ROLL,
+  getHorizontalFov,
+  isSensorId,
+} from '../../core/lens'
+import type { CameraLens } from '../../types/cameraPath'
+
+interface LensSettingsProps {
+  lens: CameraLens
+  onChange: (updates: Partial<CameraLens>) => void
+  /** Distinguishes the sensor select when several lens editors are on screen */
+  idPrefix: string
+}
+
+/** Focal length, sensor and Dutch roll controls, in the units DPs use */
+export function LensSettings({ lens, onChange, idPrefix }: LensSettingsProps) {
+  const sensorId = `${idPrefix}-sensor`
+
+  return (
+    <>
+      <div className="grid grid-cols-7 gap-0.5 mb-2" role="group" aria-label="Prime lenses">
+        {PRIME_FOCAL_LENGTHS.map(mm => {
+          const active = Math.round(lens.focalLength) === mm
+          return (
+            <button
+              key={mm}
+              onClick={() => onChange({ focalLength: mm })}
+              aria-pressed={active}
+              className={`py-1 rounded text-[9px] font-mono transition-colors focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500/50 ${
+                active ? 'bg-rust-500/20 text-rust-300' : 'text-dust-400 hover:bg-dust-600/40'
+              }`}
+            >
+              {mm}mm
+            </button>
+          )
+        })}
+      </div>
+
+      <div className="flex items-center justify-around gap-1 mb-2">
+        <RotaryKnob
+          value={lens.focalLength}
+          onChange={v => onChange({ focalLength: v })}
+          label="Focal"
+          aria-label="Focal length"
+          size="sm"
+          min={MIN_FOCAL_LENGTH}
+          max={MAX_FOCAL_LENGTH}
+          step={1}
+          unit="mm"
+          accent="cyan"
+        />
+        <RotaryKnob
+          value={lens.roll}
+          onChange={v => onChange({ roll: v })}
+          label="Roll"
+          aria-label="Dutch roll"
+          size="sm"
+          min={-MAX_ROLL}
+          max={MAX_ROLL}
+          step={0.5}
+          precision={1}
+          unit="°"
+        />
+      </div>
+
+      <div className="mb-1">
+        <label htmlFor={sensorId} className="text-[10px] text-dust-300 mb-1 block font-medium">Sensor</label>
+        <select
+          id={sensorId}
+          value={lens.sensor}
+          onChange={e => {
+            if (isSensorId(e.target.value)) onChange({ sensor: e.target.value })
+          }}
+          className="w-full bg-dust-900/80 border border-dust-600/50 rounded px-2 py-1 text-[11px] text-sand-200 hover:border-dust-500/70 focus:border-rust-500/50 focus:ring-1 focus:ring-rust-500/20 focus:outline-none transition-all duration-150"
+        >
+          {SENSOR_PRESETS.map(sensor => (
+            <option key={sensor.id} value={sensor.id}>
+              {sensor.name} ({sensor.width} × {sensor.height} mm)
+            </option>
+          ))}
+        </select>
+      </div>
+      <p className="text-[9px] text-dust-500 font-mono">
+        Horizontal FOV {getHorizontalFov(lens).toFixed(1)}°
+      </p>
+    </>
+  )
+}
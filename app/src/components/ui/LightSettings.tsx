@@ -0,0 +1,242 @@
+import { RotaryKnob } from './RotaryKnob'
+import { canCastShadow, hasRange, SHADOW_MAP_SIZES } from '../../core/lights'
+import type { LightData, LightType, ShadowMapSize } from '../../types/scene'
+
+interface LightSettingsProps {
+  type: LightType
+  light: LightData
+  onChange: (updates: Partial<LightData>) => void
+  disabled?: boolean
+}
+
+// Point and spot intensities are in candela, so they need a much wider range
+const MAX_INTENSITY: Record<LightType, number> = {
+  directionalLight: 10,
+  pointLight: 200,
+  spotLight: 200,
+  areaLight: 50,
+  hemisphereLight: 10,
+}
+
+const inputClass = 'flex-1 bg-dust-900/80 border border-dust-600 rounded px-2 py-1 text-[11px] text-sand-200 font-mono focus:border-rust-500/50 focus:ring-1 focus:ring-rust-500/20 focus:outline-none transition-all duration-150'
+
+function ColorField({ label, name, value, onChange }: {
+  label: string
+  name: string
+  value: string
+  onChange: (color: string) => void
+}) {
+  return (
+    <div className="mb-2.5">
+      <label className="text-[10px] text-dust-300 mb-1 block font-medium">{label}</label>
+      <div className="flex items-center gap-2">
+        <input
+          type="color"
+          value={value}
+          aria-label={`${name} picker`}
+          onChange={e => onChange(e.target.value)}
+          className="w-7 h-7 rounded border border-dust-600 cursor-pointer bg-transparent"
+        />
+        <input
+          type="text"
+          value={value}
+          aria-label={`${name} hex`}
+          pattern="#[0-9a-fA-F]{6}"
+          maxLength={7}
+          onChange={e => {
+            const val = e.target.value
+            if (val === '' || /^#[0-9a-fA-F]{0,6}$/.test(val)) onChange(val)
+          }}
+          className={inputClass}
+        />
+      </div>
+    </div>
+  )
+}
+
+/** Light-specific controls shown in the properties panel for light objects */
+export function LightSettings({ type, light, onChange, disabled = false }: LightSettingsProps) {
+  const isSpot = type === 'spotLight'
+  const isArea = type === 'areaLight'
+  const isHemisphere = type === 'hemisphereLight'
+
+  return (
+    <>
+      <ColorField
+        label={isHemisphere ? 'Sky' : 'Color'}
+        name={isHemisphere ? 'Sky color' : 'Light color'}
+        value={light.color}
+        onChange={color => onChange({ color })}
+      />
+      {isHemisphere && (
+        <ColorField
+          label="Ground"
+          name="Ground color"
+          value={light.groundColor}
+          onChange={groundColor => onChange({ groundColor })}
+        />
+      )}
+
+      <div className="flex items-center justify-around gap-1 mb-2">
+        <RotaryKnob
+          value={light.intensity}
+          onChange={v => onChange({ intensity: v })}
+          disabled={disabled}
+          label="Power"
+          aria-label="Intensity"
+          size="sm"
+          min={0}
+          max={MAX_INTENSITY[type]}
+          step={0.1}
+          precision={1}
+        />
+        {hasRange(type) && (
+          <>
+            <RotaryKnob
+              value={light.range}
+              onChange={v => onChange({ range: v })}
+              disabled={disabled}
+              label="Range"
+              size="sm"
+              min={0}
+              max={100}
+              step={0.5}
+              precision={1}
+              accent="cyan"
+            />
+            <RotaryKnob
+              value={light.decay}
+              onChange={v => onChange({ decay: v })}
+              disabled={disabled}
+              label="Decay"
+              size="sm"
+              min={0}
+              max={4}
+              step={0.1}
+              precision={1}
+            />
+          </>
+        )}
+      </div>
+
+      {isSpot && (
+        <div className="flex items-center justify-around gap-1 mb-2">
+          <RotaryKnob
+            value={light.outerConeAngle}
+            // Keep the inner cone inside the outer one
+            onChange={v => onChange({ outerConeAngle: v, innerConeAngle: Math.min(light.innerConeAngle, v) })}
+            disabled={disabled}
+            label="Outer"
+            aria-label="Outer cone angle"
+            size="sm"
+            min={1}
+            max={90}
+            step={1}
+            unit="°"
+            accent="cyan"
+          />
+          <RotaryKnob
+            value={light.innerConeAngle}
+            onChange={v => onChange({ innerConeAngle: Math.min(v, light.outerConeAngle) })}
+            disabled={disabled}
+            label="Inner"
+            aria-label="Inner cone angle"
+            size="sm"
+            min={0}
+            max={90}
+            step={1}
+            unit="°"
+          />
+        </div>
+      )}
+
+      {isArea && (
+        <div className="flex items-center justify-around gap-1 mb-2">
+          <RotaryKnob
+            value={light.width}
+            onChange={v => onChange({ width: v })}
+            disabled={disabled}
+            label="Width"
+            size="sm"
+            min={0.1}
+            max={20}
+            step={0.1}
+            precision={1}
+            accent="cyan"
+          />
+          <RotaryKnob
+            value={light.height}
+            onChange={v => onChange({ height: v })}
+            disabled={disabled}
+            label="Height"
+            size="sm"
+            min={0.1}
+            max={20}
+            step={0.1}
+            precision={1}
+            accent="cyan"
+          />
+        </div>
+      )}
+
+      {canCastShadow(type) && (
+        <>
+          <label className="flex items-center gap-2 cursor-pointer mb-1.5">
+            <input
+              type="checkbox"
+              checked={light.castShadow}
+              onChange={e => onChange({ castShadow: e.target.checked })}
+              className="accent-rust-500"
+            />
+            <span className="text-[11px] text-dust-300">Cast shadows</span>
+          </label>
+
+          {light.castShadow && (
+            <>
+              <div className="mb-2">
+                <label htmlFor="shadow-map-size" className="text-[10px] text-dust-300 mb-1 block font-medium">Shadow map</label>
+                <select
+                  id="shadow-map-size"
+                  value={light.shadowMapSize}
+                  onChange={e => onChange({ shadowMapSize: Number(e.target.value) as ShadowMapSize })}
+                  className="w-full bg-dust-900/80 border border-dust-600/50 rounded px-2 py-1 text-[11px] text-sand-200 hover:border-dust-500/70 focus:border-rust-500/50 focus:ring-1 focus:ring-rust-500/20 focus:outline-none transition-all duration-150"
+                >
+                  {SHADOW_MAP_SIZES.map(size => (
+                    <option key={size} value={size}>{size} px</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex items-center justify-around gap-1 mb-1">
+                <RotaryKnob
+                  value={light.shadowBias}
+                  onChange={v => onChange({ shadowBias: v })}
+                  disabled={disabled}
+                  label="Bias"
+                  aria-label="Shadow bias"
+                  size="sm"
+                  min={-0.01}
+                  max={0.01}
+                  step={0.0001}
+                  precision={4}
+                  accent="cyan"
+                />
+                <RotaryKnob
+                  value={light.shadowRadius}
+                  onChange={v => onChange({ shadowRadius: v })}
+                  disabled={disabled}
+                  label="Soft"
+                  aria-label="Shadow softness"
+                  size="sm"
+                  min={0}
+                  max={10}
+                  step={0.5}
+                  precision={1}
+                />
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </>
+  )
+}
@@ -0,0 +1,43 @@
+import { useAnimationStore } from '../../stores/useAnimationStore'
+import { PROPERTY_LABELS } from '../../core/dopeSheet'
+import type { PropertyValue } from '../../core/propertyPaths'
+import type { PropertyPath } from '../../types/scene'
+
+/** Keys closer than this to the playhead count as on it */
+const TIME_THRESHOLD = 0.001
+
+interface PropertyKeyButtonProps {
+  /** Object id, or the environment track id for environment paths */
+  objectId: string
+  path: PropertyPath
+  /** The field's current value, keyed at the playhead */
+  value: PropertyValue
+  disabled?: boolean
+}
+
+/** Diamond next to a field that keys its current value at the playhead; filled when a key sits there */
+export function PropertyKeyButton({ objectId, path, value, disabled }: PropertyKeyButtonProps) {
+  const keyPropertyPath = useAnimationStore(s => s.keyPropertyPath)
+  const currentTime = useAnimationStore(s => s.currentTime)
+  const track = useAnimationStore(s => s.tracks.find(t => t.objectId === objectId))
+
+  const keys = track?.keyframes.filter(kf => kf.property === path) ?? []
+  const keyed = keys.some(kf => Math.abs(kf.time - currentTime) < TIME_THRESHOLD)
+  const label = PROPERTY_LABELS[path].toLowerCase()
+
+  return (
+    <button
+      type="button"
+      onClick={() => keyPropertyPath(objectId, path, value)}
+      disabled={disabled}
+      aria-label={`Key ${label}`}
+      aria-pressed={keyed}
+      title={keyed ? `Replace the ${label} key at the playhead` : `Key ${label} at the playhead`}
+      className={`w-4 h-4 shrink-0 text-[10px] leading-none rounded transition-colors disabled:opacity-40 focus-visible:outline-none focus-visible:ring-1 focus-visible:ring-rust-500 ${
+        keys.length > 0 ? 'text-rust-400' : 'text-dust-500 hover:text-sand-200'
+      }`}
+    >
+      {keyed ? '◆' : '◇'}
+    </button>
+  )
+}
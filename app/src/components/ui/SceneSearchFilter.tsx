@@ -1,4 +1,6 @@
 import type { ObjectType } from '../../types/scene'
+import { OBJECT_LABELS } from '../../core/sceneOperations'
+import { LIGHT_TYPES } from '../../core/lights'
 
 interface SceneSearchFilterProps {
   searchQuery: string
@@ -13,7 +15,7 @@ interface SceneSearchFilterProps {
   filteredCount: number
 }
 
-const OBJECT_TYPES: ObjectType[] = ['box', 'sphere', 'cylinder', 'cone', 'plane', 'torus', 'model']
+const OBJECT_TYPES: ObjectType[] = ['box', 'sphere', 'cylinder', 'cone', 'plane', 'torus', 'model', ...LIGHT_TYPES]
 
 export function SceneSearchFilter({
   searchQuery,
@@ -65,7 +67,7 @@ export function SceneSearchFilter({
           <option value="">All Types</option>
           {OBJECT_TYPES.map((type) => (
             <option key={type} value={type}>
-              {type.charAt(0).toUpperCase() + type.slice(1)}
+              {OBJECT_LABELS[type]}
             </option>
           ))}
         </select>
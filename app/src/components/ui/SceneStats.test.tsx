@@ -2,6 +2,7 @@ import { render, screen, act } from '@testing-library/react'
 import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest'
 import { SceneStatsOverlay } from './SceneStats'
 import { useSceneStore } from '../../stores/useSceneStore'
+import { useHistoryStore } from '../../stores/useHistoryStore'
 import type { SceneObject } from '../../types/scene'
 import { createDefaultMaterial } from '../../core/sceneOperations'
 
@@ -12,9 +13,8 @@ function resetStore() {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useHistoryStore.getState().clear()
 }
 
 function makeObj(id: string, type: SceneObject['type'] = 'box'): SceneObject {
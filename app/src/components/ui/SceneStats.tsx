@@ -21,6 +21,11 @@ const TRIANGLE_COUNTS: Record<ObjectType, number> = {
   torus: 1024,     // 16 tube * 32 radial * 2
   plane: 2,
   model: 0,        // Unknown until loaded; approximation only
+  directionalLight: 0,
+  pointLight: 0,
+  spotLight: 0,
+  areaLight: 0,
+  hemisphereLight: 0,
 }
 
 // ── StatsCollector (R3F component, goes inside Canvas) ───────────────
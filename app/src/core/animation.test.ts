@@ -1,6 +1,10 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import {
   applyEasing,
+  cubicBezier,
+  getPresetBezier,
+  clampBezier,
+  EASING_TYPES,
   lerpVec3,
   interpolateKeyframes,
   getPropertyKeyframes,
@@ -9,7 +13,19 @@ import {
   generateTrackId,
   resetKeyframeIdCounter,
   CAMERA_TRACK_OBJECT_ID,
+  ENVIRONMENT_TRACK_OBJECT_ID,
   isCameraTrack,
+  isEnvironmentTrack,
+  getTrackProperties,
+  getPropertyAxes,
+  hasChannelCurves,
+  getChannelKeyframes,
+  getKeySlopes,
+  interpolateChannel,
+  evaluateProperty,
+  splitKeyframe,
+  splitPropertyChannels,
+  isPropertySplit,
 } from './animation'
 import type { AnimationKeyframe, AnimationTrack } from '../types/scene'
 
@@ -60,6 +76,78 @@ describe('animation', () => {
       // The switch has a default case that returns t (same as linear)
       expect(applyEasing(0.5, 'linear')).toBe(0.5)
     })
+
+    it('every easing starts at 0 and ends at 1', () => {
+      for (const easing of EASING_TYPES) {
+        expect(applyEasing(0, easing, [0.2, 1.4, 0.6, -0.3])).toBe(0)
+        expect(applyEasing(1, easing, [0.2, 1.4, 0.6, -0.3])).toBe(1)
+      }
+    })
+
+    it('step holds the previous value until the keyframe', () => {
+      expect(applyEasing(0.5, 'step')).toBe(0)
+      expect(applyEasing(0.999, 'step')).toBe(0)
+    })
+
+    it('back curves pull back and overshoot', () => {
+      expect(applyEasing(0.2, 'backIn')).toBeLessThan(0)
+      expect(applyEasing(0.8, 'backOut')).toBeGreaterThan(1)
+      expect(applyEasing(0.5, 'backInOut')).toBeCloseTo(0.5, 12)
+    })
+
+    it('elastic curves oscillate around the end value', () => {
+      expect(applyEasing(0.1, 'elasticOut')).toBeGreaterThan(1)
+      expect(applyEasing(0.9, 'elasticIn')).toBeLessThan(0)
+      expect(applyEasing(0.5, 'elasticInOut')).toBeCloseTo(0.5, 12)
+    })
+
+    it('bounce curves stay within range and touch down exactly', () => {
+      for (let i = 0; i <= 100; i++) {
+        const p = applyEasing(i / 100, 'bounceOut')
+        expect(p).toBeGreaterThanOrEqual(0)
+        expect(p).toBeLessThanOrEqual(1)
+      }
+      expect(applyEasing(1 / 2.75, 'bounceOut')).toBeCloseTo(1, 12)
+      expect(applyEasing(0.5, 'bounceInOut')).toBeCloseTo(0.5, 12)
+      expect(applyEasing(0.3, 'bounceIn')).toBeCloseTo(1 - applyEasing(0.7, 'bounceOut'), 15)
+    })
+
+    it('bezier easing uses the keyframe handles, defaulting to linear', () => {
+      expect(applyEasing(0.3, 'bezier', [0.25, 0.1, 0.25, 1])).toBe(cubicBezier(0.3, [0.25, 0.1, 0.25, 1]))
+      expect(applyEasing(0.3, 'bezier')).toBe(0.3)
+    })
+  })
+
+  describe('cubicBezier', () => {
+    it('reproduces the quadratic presets to double precision', () => {
+      for (let i = 0; i <= 50; i++) {
+        const t = i / 50
+        expect(cubicBezier(t, getPresetBezier('easeIn'))).toBeCloseTo(applyEasing(t, 'easeIn'), 14)
+        expect(cubicBezier(t, getPresetBezier('easeOut'))).toBeCloseTo(applyEasing(t, 'easeOut'), 14)
+      }
+    })
+
+    it('matches the CSS ease curve', () => {
+      // Reference values for cubic-bezier(0.25, 0.1, 0.25, 1), solved in exact rational arithmetic
+      expect(cubicBezier(0.25, [0.25, 0.1, 0.25, 1])).toBeCloseTo(0.40851059135539586, 14)
+      expect(cubicBezier(0.5, [0.25, 0.1, 0.25, 1])).toBeCloseTo(0.802403387584857, 14)
+    })
+
+    it('solves flat-slope curves by bisection', () => {
+      // x'(0.5) = 0 for these handles, which stalls Newton's method
+      const handles: [number, number, number, number] = [1, 0, 0, 1]
+      for (const t of [0.1, 0.49, 0.5, 0.51, 0.9]) {
+        const p = cubicBezier(t, handles)
+        expect(p).toBeGreaterThanOrEqual(0)
+        expect(p).toBeLessThanOrEqual(1)
+      }
+      expect(cubicBezier(0.5, handles)).toBeCloseTo(0.5, 12)
+    })
+
+    it('keeps y overshoot and clamps handle x into 0-1', () => {
+      expect(cubicBezier(0.5, [0.3, 1.5, 0.7, 1.5])).toBeGreaterThan(1)
+      expect(clampBezier([-0.5, -1, 1.5, 2])).toEqual([0, -1, 1, 2])
+    })
   })
 
   describe('lerpVec3', () => {
@@ -239,6 +327,21 @@ describe('animation', () => {
       expect(result.scale).toBeUndefined()
     })
 
+    it('evaluates light channels on object tracks', () => {
+      const track: AnimationTrack = {
+        id: 'track_1',
+        objectId: 'light_1',
+        keyframes: [
+          { id: 'kf_1', time: 0, property: 'lightParams', value: { x: 0, y: 10, z: 30 }, easing: 'linear' },
+          { id: 'kf_2', time: 2, property: 'lightParams', value: { x: 20, y: 10, z: 30 }, easing: 'linear' },
+        ],
+      }
+
+      const result = evaluateTrack(track, 1)
+      expect(result.lightParams).toEqual({ x: 10, y: 10, z: 30 })
+      expect(result.lightColor).toBeUndefined()
+    })
+
     it('evaluates all three properties when all have keyframes', () => {
       const track: AnimationTrack = {
         id: 'track_1',
@@ -310,6 +413,19 @@ describe('animation', () => {
       expect(result.cameraTarget).toEqual({ x: 2.5, y: 0.5, z: 0 })
     })
 
+    it('evaluates the camera lens channel', () => {
+      const track: AnimationTrack = {
+        id: 'track_1',
+        objectId: CAMERA_TRACK_OBJECT_ID,
+        keyframes: [
+          { id: 'kf_1', time: 0, property: 'cameraLens', value: { x: 35, y: 0, z: 0 }, easing: 'linear' },
+          { id: 'kf_2', time: 2, property: 'cameraLens', value: { x: 85, y: 10, z: 0 }, easing: 'linear' },
+        ],
+      }
+
+      expect(evaluateTrack(track, 1).cameraLens).toEqual({ x: 60, y: 5, z: 0 })
+    })
+
     it('does not return position/rotation/scale for camera tracks', () => {
       const track: AnimationTrack = {
         id: 'track_1',
@@ -399,6 +515,206 @@ describe('animation', () => {
     })
   })
 
+  describe('channel curves', () => {
+    const channelKey = (
+      id: string,
+      time: number,
+      axis: 'x' | 'y' | 'z',
+      value: number,
+      extra: Partial<AnimationKeyframe> = {},
+    ): AnimationKeyframe => ({
+      id, time, property: 'position', value: { x: 0, y: 0, z: 0, [axis]: value }, easing: 'linear', channel: axis, ...extra,
+    })
+
+    it('only treats channel or curve keys as needing per-channel evaluation', () => {
+      const whole: AnimationKeyframe = { id: 'a', time: 0, property: 'position', value: { x: 0, y: 0, z: 0 }, easing: 'easeIn' }
+      expect(hasChannelCurves([whole])).toBe(false)
+      expect(hasChannelCurves([whole, channelKey('b', 1, 'x', 1)])).toBe(true)
+      expect(hasChannelCurves([{ ...whole, tangent: 'auto' }])).toBe(true)
+    })
+
+    it('collects the keys of one channel along with whole keys', () => {
+      const whole: AnimationKeyframe = { id: 'a', time: 0, property: 'position', value: { x: 0, y: 0, z: 0 }, easing: 'linear' }
+      const keys = [whole, channelKey('b', 1, 'x', 1), channelKey('c', 2, 'y', 1)]
+      expect(getChannelKeyframes(keys, 'x').map(kf => kf.id)).toEqual(['a', 'b'])
+      expect(getChannelKeyframes(keys, 'z').map(kf => kf.id)).toEqual(['a'])
+    })
+
+    it('times and eases each channel on its own', () => {
+      const track: AnimationTrack = {
+        id: 'track_1',
+        objectId: 'obj_1',
+        keyframes: [
+          channelKey('x0', 0, 'x', 0),
+          channelKey('y0', 0, 'y', 0),
+          channelKey('x1', 1, 'x', 10),
+          channelKey('y1', 2, 'y', 10, { easing: 'step' }),
+        ],
+      }
+
+      expect(evaluateProperty(track, 'position', 0.5)).toEqual({ x: 5, y: 0, z: 0 })
+      expect(evaluateProperty(track, 'position', 1.5)).toEqual({ x: 10, y: 0, z: 0 })
+      expect(evaluateTrack(track, 2).position).toEqual({ x: 10, y: 10, z: 0 })
+    })
+
+    it('rests a channel without keys at zero, or one for scale', () => {
+      const track: AnimationTrack = {
+        id: 'track_1',
+        objectId: 'obj_1',
+        keyframes: [
+          { id: 'p', time: 0, property: 'position', value: { x: 3, y: 3, z: 3 }, easing: 'linear', channel: 'x' },
+          { id: 's', time: 0, property: 'scale', value: { x: 2, y: 2, z: 2 }, easing: 'linear', channel: 'x' },
+        ],
+      }
+      expect(evaluateProperty(track, 'position', 0)).toEqual({ x: 3, y: 0, z: 0 })
+      expect(evaluateProperty(track, 'scale', 0)).toEqual({ x: 2, y: 1, z: 1 })
+    })
+
+    it('gives flat and linear tangents their slopes', () => {
+      const keys = [channelKey('a', 0, 'x', 0), channelKey('b', 1, 'x', 2), channelKey('c', 3, 'x', 0)]
+      expect(getKeySlopes(keys, 1, 'x')).toEqual({ inSlope: 2, outSlope: -1 })
+      expect(getKeySlopes(keys, 0, 'x')).toEqual({ inSlope: 2, outSlope: 2 })
+      keys[1] = { ...keys[1], tangent: 'flat' }
+      expect(getKeySlopes(keys, 1, 'x')).toEqual({ inSlope: 0, outSlope: 0 })
+    })
+
+    it('levels auto tangents at extremes and limits them between neighbours', () => {
+      const peak = [channelKey('a', 0, 'x', 0), channelKey('b', 1, 'x', 2, { tangent: 'auto' }), channelKey('c', 2, 'x', 0)]
+      expect(getKeySlopes(peak, 1, 'x')).toEqual({ inSlope: 0, outSlope: 0 })
+
+      const rise = [channelKey('a', 0, 'x', 0), channelKey('b', 1, 'x', 1, { tangent: 'auto' }), channelKey('c', 2, 'x', 2)]
+      expect(getKeySlopes(rise, 1, 'x')).toEqual({ inSlope: 1, outSlope: 1 })
+
+      // A near-flat side keeps the slope small so the curve doesn't overshoot
+      const shelf = [channelKey('a', 0, 'x', 0), channelKey('b', 1, 'x', 10, { tangent: 'auto' }), channelKey('c', 2, 'x', 10.1)]
+      expect(getKeySlopes(shelf, 1, 'x').outSlope).toBeCloseTo(0.3)
+    })
+
+    it('keeps the slopes of broken tangents', () => {
+      const keys = [channelKey('a', 0, 'x', 0), channelKey('b', 1, 'x', 1, { tangent: 'broken', inSlope: 4, outSlope: -2 })]
+      expect(getKeySlopes(keys, 1, 'x')).toEqual({ inSlope: 4, outSlope: -2 })
+    })
+
+    it('follows cubic tangents on segments touching a curve key', () => {
+      const keys = [
+        channelKey('a', 0, 'x', 0, { tangent: 'flat' }),
+        channelKey('b', 1, 'x', 1, { tangent: 'flat' }),
+      ]
+      expect(interpolateChannel(keys, 0.5, 'x')).toBeCloseTo(0.5)
+      expect(interpolateChannel(keys, 0.25, 'x')).toBeCloseTo(0.15625)
+
+      // An out slope steeper than the segment bows the curve upward
+      keys[0] = { ...keys[0], tangent: 'broken', inSlope: 0, outSlope: 3 }
+      expect(interpolateChannel(keys, 0.25, 'x')!).toBeGreaterThan(0.25)
+    })
+
+    it('holds the first and last values outside the keys', () => {
+      const keys = [channelKey('a', 1, 'x', 4), channelKey('b', 2, 'x', 8, { tangent: 'auto' })]
+      expect(interpolateChannel(keys, 0, 'x')).toBe(4)
+      expect(interpolateChannel(keys, 3, 'x')).toBe(8)
+      expect(interpolateChannel([], 1, 'x')).toBeNull()
+    })
+  })
+
+  describe('channel migration', () => {
+    const wholeKeys: AnimationKeyframe[] = [
+      { id: 'a', time: 0, property: 'position', value: { x: 0, y: 1, z: 2 }, easing: 'linear' },
+      { id: 'b', time: 2, property: 'position', value: { x: 4, y: -1, z: 6 }, easing: 'bezier', bezier: [0.2, 0, 0.3, 1] },
+      { id: 'r', time: 1, property: 'rotation', value: { x: 1, y: 1, z: 1 }, easing: 'linear' },
+    ]
+
+    it('splits a key into one key per channel with derived ids', () => {
+      const split = splitKeyframe(wholeKeys[1])
+      expect(split.map(kf => [kf.id, kf.channel])).toEqual([['b_x', 'x'], ['b_y', 'y'], ['b_z', 'z']])
+      expect(split.every(kf => kf.easing === 'bezier' && kf.time === 2)).toBe(true)
+      expect(splitKeyframe(split[0])).toEqual([split[0]])
+    })
+
+    it('splits only the given property', () => {
+      const keyframes = splitPropertyChannels(wholeKeys, 'position')
+      expect(keyframes).toHaveLength(7)
+      expect(keyframes.find(kf => kf.id === 'r')).toBe(wholeKeys[2])
+      expect(isPropertySplit(keyframes, 'position')).toBe(true)
+      expect(isPropertySplit(keyframes, 'rotation')).toBe(false)
+      expect(splitPropertyChannels(keyframes, 'position')).toBe(keyframes)
+    })
+
+    it('evaluates split keys exactly as the whole keys did', () => {
+      const before: AnimationTrack = { id: 't', objectId: 'o', keyframes: wholeKeys }
+      const after: AnimationTrack = { ...before, keyframes: splitPropertyChannels(wholeKeys, 'position') }
+      for (const time of [0, 0.3, 1, 1.7, 2, 3]) {
+        const expected = evaluateProperty(before, 'position', time)!
+        const actual = evaluateProperty(after, 'position', time)!
+        expect(actual.x).toBeCloseTo(expected.x, 10)
+        expect(actual.y).toBeCloseTo(expected.y, 10)
+        expect(actual.z).toBeCloseTo(expected.z, 10)
+      }
+    })
+  })
+
+  describe('property paths', () => {
+    const pathTrack: AnimationTrack = {
+      id: 't',
+      objectId: 'o',
+      keyframes: [
+        { id: 'o1', time: 0, property: 'material.opacity', value: { x: 1, y: 0, z: 0 }, easing: 'linear' },
+        { id: 'c1', time: 0, property: 'material.color', value: { x: 0, y: 0, z: 0 }, easing: 'linear' },
+        { id: 'v1', time: 0, property: 'visible', value: { x: 1, y: 0, z: 0 }, easing: 'linear' },
+        { id: 'o2', time: 2, property: 'material.opacity', value: { x: 0, y: 0, z: 0 }, easing: 'easeIn' },
+        { id: 'c2', time: 2, property: 'material.color', value: { x: 1, y: 1, z: 1 }, easing: 'linear' },
+        { id: 'v2', time: 2, property: 'visible', value: { x: 0, y: 0, z: 0 }, easing: 'backOut' },
+      ],
+    }
+
+    it('eases numbers with the arriving key', () => {
+      expect(evaluateProperty(pathTrack, 'material.opacity', 1)!.x).toBeCloseTo(1 - applyEasing(0.5, 'easeIn'))
+    })
+
+    it('blends colors in RGB', () => {
+      const mid = evaluateProperty(pathTrack, 'material.color', 1)!
+      expect(mid.x).toBeCloseTo(128 / 255)
+      expect(mid).toEqual({ x: mid.x, y: mid.x, z: mid.x })
+    })
+
+    it('steps booleans at the key whatever the easing', () => {
+      // backOut passes 1 well before the end of the segment
+      expect(applyEasing(0.8, 'backOut')).toBeGreaterThan(1)
+      expect(evaluateProperty(pathTrack, 'visible', 1.6)!.x).toBe(1)
+      expect(evaluateProperty(pathTrack, 'visible', 2)!.x).toBe(0)
+    })
+
+    it('evaluates object paths with the transform', () => {
+      const values = evaluateTrack(pathTrack, 2)
+      expect(Object.keys(values).sort()).toEqual(['material.color', 'material.opacity', 'visible'])
+    })
+
+    it('evaluates only environment paths on the environment track', () => {
+      const track: AnimationTrack = {
+        id: 'env',
+        objectId: ENVIRONMENT_TRACK_OBJECT_ID,
+        keyframes: [
+          { id: 'f1', time: 0, property: 'environment.fogFar', value: { x: 50, y: 0, z: 0 }, easing: 'linear' },
+          { id: 'f2', time: 1, property: 'environment.fogFar', value: { x: 10, y: 0, z: 0 }, easing: 'linear' },
+          { id: 'p', time: 0, property: 'position', value: { x: 1, y: 1, z: 1 }, easing: 'linear' },
+        ],
+      }
+      expect(isEnvironmentTrack(track)).toBe(true)
+      expect(isEnvironmentTrack(pathTrack)).toBe(false)
+      expect(getTrackProperties(track)).not.toContain('position')
+      expect(evaluateTrack(track, 0.5)).toEqual({ 'environment.fogFar': { x: 30, y: 0, z: 0 } })
+    })
+
+    it('splits a number path into a single channel', () => {
+      expect(getPropertyAxes('material.opacity')).toEqual(['x'])
+      expect(getPropertyAxes('material.color')).toEqual(['x', 'y', 'z'])
+      const split = splitKeyframe(pathTrack.keyframes[0])
+      expect(split.map(kf => kf.id)).toEqual(['o1_x'])
+
+      const after = { ...pathTrack, keyframes: splitPropertyChannels(pathTrack.keyframes, 'material.opacity') }
+      expect(evaluateProperty(after, 'material.opacity', 1)!.x).toBeCloseTo(evaluateProperty(pathTrack, 'material.opacity', 1)!.x)
+    })
+  })
+
   describe('ID generation', () => {
     it('generateKeyframeId returns unique IDs', () => {
       const id1 = generateKeyframeId()
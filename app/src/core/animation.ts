@@ -1,6 +1,15 @@
 /** Pure functions for animation interpolation and keyframe operations */
 
-import type { Vec3, AnimationKeyframe, AnimationTrack, EasingType, AnimatableProperty } from '../types/scene'
+import type { Vec3, AnimationKeyframe, AnimationTrack, BezierHandles, ChannelAxis, EasingType, AnimatableProperty, TangentMode } from '../types/scene'
+import {
+  ENVIRONMENT_PROPERTY_PATHS,
+  OBJECT_PROPERTY_PATHS,
+  decodePropertyValue,
+  encodePropertyValue,
+  getPropertyValueType,
+  interpolatePropertyValue,
+  isPropertyPath,
+} from './propertyPaths'
 
 // ── Camera Track Constants ────────────────────────────────────────────
 
@@ -12,15 +21,155 @@ export function isCameraTrack(track: AnimationTrack): boolean {
   return track.objectId === CAMERA_TRACK_OBJECT_ID
 }
 
+/** Virtual object ID used for the environment animation track */
+export const ENVIRONMENT_TRACK_OBJECT_ID = '__environment__'
+
+/** Check whether a track animates the environment rather than an object */
+export function isEnvironmentTrack(track: AnimationTrack): boolean {
+  return track.objectId === ENVIRONMENT_TRACK_OBJECT_ID
+}
+
 /** Properties iterated for camera tracks */
-const CAMERA_PROPERTIES: readonly AnimatableProperty[] = ['cameraPosition', 'cameraTarget']
+const CAMERA_PROPERTIES: readonly AnimatableProperty[] = ['cameraPosition', 'cameraTarget', 'cameraLens', 'cameraFocus']
 
-/** Properties iterated for object tracks */
-const OBJECT_PROPERTIES: readonly AnimatableProperty[] = ['position', 'rotation', 'scale']
+/** Properties iterated for object tracks (light channels only exist on light objects) */
+const OBJECT_PROPERTIES: readonly AnimatableProperty[] = [
+  'position', 'rotation', 'scale', 'lightColor', 'lightParams', ...OBJECT_PROPERTY_PATHS,
+]
 
 // ── Easing Functions ─────────────────────────────────────────────────
 
-export function applyEasing(t: number, easing: EasingType): number {
+export const EASING_TYPES: readonly EasingType[] = [
+  'linear', 'easeIn', 'easeOut', 'easeInOut',
+  'step',
+  'backIn', 'backOut', 'backInOut',
+  'elasticIn', 'elasticOut', 'elasticInOut',
+  'bounceIn', 'bounceOut', 'bounceInOut',
+  'bezier',
+]
+
+export function isEasingType(value: unknown): value is EasingType {
+  return typeof value === 'string' && (EASING_TYPES as readonly string[]).includes(value)
+}
+
+/** Handles that trace the linear curve, used when 'bezier' easing has none */
+export const LINEAR_BEZIER: BezierHandles = [1 / 3, 1 / 3, 2 / 3, 2 / 3]
+
+/**
+ * Bezier handles matching a preset curve. The quadratic ease-in and ease-out
+ * are exact cubic beziers; the piecewise ease-in-out and the overshooting
+ * presets get the closest standard curve, as a starting point for editing.
+ */
+export function getPresetBezier(easing: EasingType): BezierHandles {
+  switch (easing) {
+    case 'easeIn':
+      return [1 / 3, 0, 2 / 3, 1 / 3]
+    case 'easeOut':
+      return [1 / 3, 2 / 3, 2 / 3, 1]
+    case 'easeInOut':
+      return [0.42, 0, 0.58, 1]
+    case 'backIn':
+      return [0.36, 0, 0.66, -0.56]
+    case 'backOut':
+      return [0.34, 1.56, 0.64, 1]
+    case 'backInOut':
+      return [0.68, -0.6, 0.32, 1.6]
+    default:
+      return [...LINEAR_BEZIER]
+  }
+}
+
+/** Clamp handle x into 0-1 so the curve stays a function of time */
+export function clampBezier([x1, y1, x2, y2]: BezierHandles): BezierHandles {
+  const clamp01 = (v: number) => Math.min(1, Math.max(0, v))
+  return [clamp01(x1), y1, clamp01(x2), y2]
+}
+
+/** One coordinate of a cubic bezier from 0 to 1 with control values p1, p2 */
+function bezierAt(s: number, p1: number, p2: number): number {
+  const u = 1 - s
+  return 3 * u * u * s * p1 + 3 * u * s * s * p2 + s * s * s
+}
+
+function bezierSlope(s: number, p1: number, p2: number): number {
+  const u = 1 - s
+  return 3 * u * u * p1 + 6 * u * s * (p2 - p1) + 3 * s * s * (1 - p2)
+}
+
+/**
+ * Progress of a cubic-bezier curve at time t. Solves x(s) = t with Newton's
+ * method, falling back to bisection where the slope flattens, until the
+ * parameter is exact to double precision.
+ */
+export function cubicBezier(t: number, handles: BezierHandles): number {
+  if (t <= 0) return 0
+  if (t >= 1) return 1
+  const [x1, y1, x2, y2] = clampBezier(handles)
+  if (x1 === y1 && x2 === y2) return t
+
+  let s = t
+  for (let i = 0; i < 8; i++) {
+    const error = bezierAt(s, x1, x2) - t
+    if (Math.abs(error) < 1e-15) return bezierAt(s, y1, y2)
+    const slope = bezierSlope(s, x1, x2)
+    if (Math.abs(slope) < 1e-9) break
+    s -= error / slope
+    if (s < 0 || s > 1) break
+  }
+
+  // x(s) is monotonic for handles within 0-1, so bisection always converges
+  let lo = 0
+  let hi = 1
+  s = t
+  for (let i = 0; i < 64 && lo < hi; i++) {
+    const x = bezierAt(s, x1, x2)
+    if (x === t) break
+    if (x < t) lo = s
+    else hi = s
+    s = (lo + hi) / 2
+  }
+  return bezierAt(s, y1, y2)
+}
+
+// Overshoot of the back curves (about 10%) and period of the elastic ones, as popularised by Robert Penner
+const BACK_OVERSHOOT = 1.70158
+const ELASTIC_PERIOD = (2 * Math.PI) / 3
+
+function backIn(t: number): number {
+  if (t <= 0) return 0
+  // (s + 1)t³ - st², arranged to land exactly on 1
+  return t * t * (t + BACK_OVERSHOOT * (t - 1))
+}
+
+function elasticIn(t: number): number {
+  if (t <= 0) return 0
+  if (t >= 1) return 1
+  return -(2 ** (10 * t - 10)) * Math.sin((t * 10 - 10.75) * ELASTIC_PERIOD)
+}
+
+function bounceOut(t: number): number {
+  const n = 7.5625
+  const d = 2.75
+  if (t >= 1) return 1
+  if (t < 1 / d) return n * t * t
+  if (t < 2 / d) return n * (t - 1.5 / d) ** 2 + 0.75
+  if (t < 2.5 / d) return n * (t - 2.25 / d) ** 2 + 0.9375
+  return n * (t - 2.625 / d) ** 2 + 0.984375
+}
+
+/** Ease-out and ease-in-out variants mirror an ease-in curve */
+function easeOutOf(easeIn: (t: number) => number, t: number): number {
+  return 1 - easeIn(1 - t)
+}
+
+function easeInOutOf(easeIn: (t: number) => number, t: number): number {
+  return t < 0.5 ? easeIn(2 * t) / 2 : 1 - easeIn(2 - 2 * t) / 2
+}
+
+const bounceIn = (t: number) => 1 - bounceOut(1 - t)
+
+/** Eased progress for t in 0-1; `bezier` supplies the handles for 'bezier' easing */
+export function applyEasing(t: number, easing: EasingType, bezier?: BezierHandles): number {
   switch (easing) {
     case 'easeIn':
       return t * t
@@ -28,6 +177,28 @@ export function applyEasing(t: number, easing: EasingType): number {
       return t * (2 - t)
     case 'easeInOut':
       return t < 0.5 ? 2 * t * t : -1 + (4 - 2 * t) * t
+    case 'step':
+      return t >= 1 ? 1 : 0
+    case 'backIn':
+      return backIn(t)
+    case 'backOut':
+      return easeOutOf(backIn, t)
+    case 'backInOut':
+      return easeInOutOf(backIn, t)
+    case 'elasticIn':
+      return elasticIn(t)
+    case 'elasticOut':
+      return easeOutOf(elasticIn, t)
+    case 'elasticInOut':
+      return easeInOutOf(elasticIn, t)
+    case 'bounceIn':
+      return bounceIn(t)
+    case 'bounceOut':
+      return bounceOut(t)
+    case 'bounceInOut':
+      return easeInOutOf(bounceIn, t)
+    case 'bezier':
+      return cubicBezier(t, bezier ?? LINEAR_BEZIER)
     case 'linear':
       return t
   }
@@ -45,6 +216,31 @@ export function lerpVec3(a: Vec3, b: Vec3, t: number): Vec3 {
 
 // ── Keyframe Interpolation ──────────────────────────────────────────
 
+/** Blends the values of two neighbouring keys at raw progress t (0-1) between them */
+export type KeyframeBlend = (a: AnimationKeyframe, b: AnimationKeyframe, t: number) => Vec3
+
+/** Lerp the whole Vec3 with the arriving key's easing */
+function easeKeyframes(a: AnimationKeyframe, b: AnimationKeyframe, t: number): Vec3 {
+  return lerpVec3(a.value, b.value, applyEasing(t, b.easing, b.bezier))
+}
+
+/**
+ * Blend property path keys with their value type's interpolator. Numbers
+ * and colors follow the arriving key's easing; booleans step at the key.
+ */
+function blendPathKeyframes(a: AnimationKeyframe, b: AnimationKeyframe, t: number): Vec3 {
+  if (!isPropertyPath(b.property)) return easeKeyframes(a, b, t)
+  const type = getPropertyValueType(b.property)
+  const progress = type === 'boolean' ? t : applyEasing(t, b.easing, b.bezier)
+  const value = interpolatePropertyValue(
+    type,
+    decodePropertyValue(type, a.value),
+    decodePropertyValue(type, b.value),
+    progress,
+  )
+  return encodePropertyValue(type, value)
+}
+
 /**
  * Interpolate a value at the given time from a sorted array of keyframes
  * for a single property. Returns null if no keyframes exist.
@@ -52,6 +248,7 @@ export function lerpVec3(a: Vec3, b: Vec3, t: number): Vec3 {
 export function interpolateKeyframes(
   keyframes: AnimationKeyframe[],
   time: number,
+  blend: KeyframeBlend = easeKeyframes,
 ): Vec3 | null {
   if (keyframes.length === 0) return null
   if (keyframes.length === 1) return { ...keyframes[0].value }
@@ -75,10 +272,134 @@ export function interpolateKeyframes(
   const span = kfB.time - kfA.time
   if (span === 0) return { ...kfB.value }
 
-  const rawT = (time - kfA.time) / span
-  const easedT = applyEasing(rawT, kfB.easing)
+  return blend(kfA, kfB, (time - kfA.time) / span)
+}
+
+// ── Channel Curves ──────────────────────────────────────────────────
+
+export const CHANNEL_AXES: readonly ChannelAxis[] = ['x', 'y', 'z']
+
+export const TANGENT_MODES: readonly TangentMode[] = ['auto', 'flat', 'linear', 'broken']
+
+export function isTangentMode(value: unknown): value is TangentMode {
+  return typeof value === 'string' && (TANGENT_MODES as readonly string[]).includes(value)
+}
+
+/** Whether a property's keys need per-channel evaluation rather than whole-Vec3 easing */
+export function hasChannelCurves(keyframes: AnimationKeyframe[]): boolean {
+  return keyframes.some(kf => kf.channel !== undefined || kf.tangent !== undefined)
+}
+
+/** Keys that shape one component: its channel keys plus any whole-Vec3 keys, in time order */
+export function getChannelKeyframes(keyframes: AnimationKeyframe[], axis: ChannelAxis): AnimationKeyframe[] {
+  return keyframes.filter(kf => kf.channel === undefined || kf.channel === axis)
+}
+
+function secantSlope(a: AnimationKeyframe, b: AnimationKeyframe, axis: ChannelAxis): number {
+  const span = b.time - a.time
+  return span > 0 ? (b.value[axis] - a.value[axis]) / span : 0
+}
+
+/**
+ * In and out slopes of one key on a channel, in units per second. Eased
+ * keys without a tangent mode behave as 'linear' so a curve key next to
+ * them meets a straight line. 'auto' is a Catmull-Rom slope limited so the
+ * curve never overshoots its neighbours, and flat at the ends.
+ */
+export function getKeySlopes(keys: AnimationKeyframe[], index: number, axis: ChannelAxis): { inSlope: number; outSlope: number } {
+  const key = keys[index]
+  const prev = keys[index - 1]
+  const next = keys[index + 1]
+  const before = prev ? secantSlope(prev, key, axis) : undefined
+  const after = next ? secantSlope(key, next, axis) : undefined
+
+  switch (key.tangent ?? 'linear') {
+    case 'flat':
+      return { inSlope: 0, outSlope: 0 }
+    case 'broken':
+      return { inSlope: key.inSlope ?? 0, outSlope: key.outSlope ?? 0 }
+    case 'auto': {
+      if (before === undefined || after === undefined || before * after <= 0) return { inSlope: 0, outSlope: 0 }
+      const smooth = (next.value[axis] - prev.value[axis]) / (next.time - prev.time)
+      const limit = 3 * Math.min(Math.abs(before), Math.abs(after))
+      const slope = Math.sign(smooth) * Math.min(Math.abs(smooth), limit)
+      return { inSlope: slope, outSlope: slope }
+    }
+    default:
+      return { inSlope: before ?? after ?? 0, outSlope: after ?? before ?? 0 }
+  }
+}
+
+/** Value of one component at a time from its channel keys; null without keys */
+export function interpolateChannel(keys: AnimationKeyframe[], time: number, axis: ChannelAxis): number | null {
+  if (keys.length === 0) return null
+  const last = keys.length - 1
+  if (time <= keys[0].time) return keys[0].value[axis]
+  if (time >= keys[last].time) return keys[last].value[axis]
+
+  let i = 0
+  while (i < last - 1 && keys[i + 1].time < time) i++
+
+  const a = keys[i]
+  const b = keys[i + 1]
+  const span = b.time - a.time
+  if (span === 0) return b.value[axis]
+
+  const s = (time - a.time) / span
+  const va = a.value[axis]
+  const vb = b.value[axis]
+  if (!a.tangent && !b.tangent) return va + (vb - va) * applyEasing(s, b.easing, b.bezier)
+
+  // Cubic Hermite between the two keys' slopes
+  const outA = getKeySlopes(keys, i, axis).outSlope
+  const inB = getKeySlopes(keys, i + 1, axis).inSlope
+  const s2 = s * s
+  const s3 = s2 * s
+  return (2 * s3 - 3 * s2 + 1) * va
+    + (s3 - 2 * s2 + s) * span * outA
+    + (-2 * s3 + 3 * s2) * vb
+    + (s3 - s2) * span * inB
+}
+
+/** Where a channel rests once all of its keys are deleted */
+function getChannelRestValue(property: AnimatableProperty): number {
+  return property === 'scale' ? 1 : 0
+}
+
+/** Id of the channel key split from a whole-Vec3 key */
+export function getChannelKeyId(keyframeId: string, axis: ChannelAxis): string {
+  return `${keyframeId}_${axis}`
+}
 
-  return lerpVec3(kfA.value, kfB.value, easedT)
+/** The components a property animates: a number path keeps its value in x alone */
+export function getPropertyAxes(property: AnimatableProperty): readonly ChannelAxis[] {
+  return isPropertyPath(property) && getPropertyValueType(property) === 'number' ? ['x'] : CHANNEL_AXES
+}
+
+/** A whole-Vec3 key as a channel key per component, evaluating exactly as it did */
+export function splitKeyframe(keyframe: AnimationKeyframe): AnimationKeyframe[] {
+  if (keyframe.channel) return [keyframe]
+  return getPropertyAxes(keyframe.property).map(axis => ({
+    ...keyframe,
+    id: getChannelKeyId(keyframe.id, axis),
+    value: { ...keyframe.value },
+    ...(keyframe.bezier ? { bezier: [...keyframe.bezier] as BezierHandles } : {}),
+    channel: axis,
+  }))
+}
+
+/**
+ * Migrate a property's whole-Vec3 keys to per-channel keys, keeping the
+ * animation as it was. Other properties' keys are returned untouched.
+ */
+export function splitPropertyChannels(keyframes: AnimationKeyframe[], property: AnimatableProperty): AnimationKeyframe[] {
+  if (!keyframes.some(kf => kf.property === property && !kf.channel)) return keyframes
+  return keyframes.flatMap(kf => kf.property === property ? splitKeyframe(kf) : [kf])
+}
+
+/** Whether a property of a track has been split into channel keys */
+export function isPropertySplit(keyframes: AnimationKeyframe[], property: AnimatableProperty): boolean {
+  return keyframes.some(kf => kf.property === property && kf.channel !== undefined)
 }
 
 // ── Track Helpers ───────────────────────────────────────────────────
@@ -95,10 +416,18 @@ export function getPropertyKeyframes(
     .sort((a, b) => a.time - b.time)
 }
 
+/** The properties a track can animate: camera, environment or object ones */
+export function getTrackProperties(track: AnimationTrack): readonly AnimatableProperty[] {
+  if (isCameraTrack(track)) return CAMERA_PROPERTIES
+  if (isEnvironmentTrack(track)) return ENVIRONMENT_PROPERTY_PATHS
+  return OBJECT_PROPERTIES
+}
+
 /**
  * Evaluate all animated properties for a track at a given time.
- * Returns an object with position/rotation/scale (object tracks) or
- * cameraPosition/cameraTarget (camera tracks) if they have keyframes.
+ * Returns an object with position/rotation/scale, light channels and object
+ * paths (object tracks), cameraPosition/cameraTarget/cameraLens/cameraFocus
+ * (camera tracks) or environment paths (the environment track) if they have keyframes.
  */
 export function evaluateTrack(
   track: AnimationTrack,
@@ -106,11 +435,8 @@ export function evaluateTrack(
 ): Partial<Record<AnimatableProperty, Vec3>> {
   const result: Partial<Record<AnimatableProperty, Vec3>> = {}
 
-  const properties = isCameraTrack(track) ? CAMERA_PROPERTIES : OBJECT_PROPERTIES
-
-  for (const property of properties) {
-    const keyframes = getPropertyKeyframes(track, property)
-    const value = interpolateKeyframes(keyframes, time)
+  for (const property of getTrackProperties(track)) {
+    const value = evaluateProperty(track, property, time)
     if (value) {
       result[property] = value
     }
@@ -119,6 +445,29 @@ export function evaluateTrack(
   return result
 }
 
+/**
+ * Evaluate one property of a track. Whole-Vec3 keys ease all components
+ * together, property paths blend by value type; once the property has
+ * channel or curve keys, each component follows its own keys.
+ */
+export function evaluateProperty(
+  track: AnimationTrack,
+  property: AnimatableProperty,
+  time: number,
+): Vec3 | null {
+  const keyframes = getPropertyKeyframes(track, property)
+  if (!hasChannelCurves(keyframes)) {
+    return interpolateKeyframes(keyframes, time, isPropertyPath(property) ? blendPathKeyframes : easeKeyframes)
+  }
+
+  const rest = getChannelRestValue(property)
+  const value = { x: rest, y: rest, z: rest }
+  for (const axis of CHANNEL_AXES) {
+    value[axis] = interpolateChannel(getChannelKeyframes(keyframes, axis), time, axis) ?? rest
+  }
+  return value
+}
+
 // ── Keyframe ID Generation ──────────────────────────────────────────
 
 let nextKfId = 1
@@ -0,0 +1,63 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { applyAnimationValues } from './animationPlayback'
+import { ENVIRONMENT_TRACK_OBJECT_ID } from './animation'
+import { useSceneStore } from '../stores/useSceneStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
+import type { AnimationTrack } from '../types/scene'
+
+function boxTrack(objectId: string): AnimationTrack {
+  return {
+    id: 'box',
+    objectId,
+    keyframes: [
+      { id: 'p', time: 0, property: 'position', value: { x: 2, y: 0, z: 0 }, easing: 'linear' },
+      { id: 'o1', time: 0, property: 'material.opacity', value: { x: 1, y: 0, z: 0 }, easing: 'linear' },
+      { id: 'o2', time: 2, property: 'material.opacity', value: { x: 0, y: 0, z: 0 }, easing: 'linear' },
+      { id: 'v1', time: 0, property: 'visible', value: { x: 1, y: 0, z: 0 }, easing: 'linear' },
+      { id: 'v2', time: 2, property: 'visible', value: { x: 0, y: 0, z: 0 }, easing: 'linear' },
+    ],
+  }
+}
+
+describe('applyAnimationValues', () => {
+  beforeEach(() => {
+    useSceneStore.getState().clearScene()
+    useHistoryStore.getState().clear()
+  })
+
+  it('applies transforms and property paths to objects', () => {
+    useSceneStore.getState().addObject('box')
+    const box = useSceneStore.getState().objects[0]
+
+    applyAnimationValues(1, [boxTrack(box.id)])
+    const mid = useSceneStore.getState().objects[0]
+    expect(mid.position.x).toBe(2)
+    expect(mid.material).toMatchObject({ opacity: 0.5, transparent: true })
+    expect(mid.visible).toBe(true)
+
+    applyAnimationValues(2, [boxTrack(box.id)])
+    expect(useSceneStore.getState().objects[0].visible).toBe(false)
+  })
+
+  it('applies the environment track', () => {
+    const fogNear = useSceneStore.getState().environment.fogNear
+    applyAnimationValues(0.5, [{
+      id: 'env',
+      objectId: ENVIRONMENT_TRACK_OBJECT_ID,
+      keyframes: [
+        { id: 'f1', time: 0, property: 'environment.fogFar', value: { x: 100, y: 0, z: 0 }, easing: 'linear' },
+        { id: 'f2', time: 1, property: 'environment.fogFar', value: { x: 50, y: 0, z: 0 }, easing: 'linear' },
+        { id: 'b', time: 0, property: 'environment.backgroundColor', value: { x: 0, y: 0, z: 1 }, easing: 'linear' },
+      ],
+    }])
+
+    expect(useSceneStore.getState().environment).toMatchObject({ fogNear, fogFar: 75, backgroundColor: '#0000ff' })
+  })
+
+  it('leaves the history alone', () => {
+    useSceneStore.getState().addObject('box')
+    useHistoryStore.getState().clear()
+    applyAnimationValues(1, [boxTrack(useSceneStore.getState().objects[0].id)])
+    expect(useHistoryStore.getState().entries).toHaveLength(1)
+  })
+})
@@ -0,0 +1,105 @@
+/** Applies evaluated animation tracks to the scene objects, environment and viewport camera */
+
+import { useAnimationStore } from '../stores/useAnimationStore'
+import { useSceneStore } from '../stores/useSceneStore'
+import { useCameraStore } from '../stores/useCameraStore'
+import { evaluateTrack, isCameraTrack, isEnvironmentTrack } from './animation'
+import { applyLightChannels } from './lights'
+import { ENVIRONMENT_PROPERTY_PATHS, OBJECT_PROPERTY_PATHS, applyEnvironmentPaths, applyObjectPaths } from './propertyPaths'
+import { applyLensChannel } from './lens'
+import { applyFocusChannel } from './focus'
+import type { SceneObject } from '../types/scene'
+
+/**
+ * Apply interpolated animation values to scene objects, the environment and camera.
+ * Called from useFrame, the scrub invalidator and offline renders — optimized
+ * for hot-path performance.
+ */
+export function applyAnimationValues(
+  time: number,
+  tracks: ReturnType<typeof useAnimationStore.getState>['tracks'],
+) {
+  if (tracks.length === 0) return
+
+  const sceneState = useSceneStore.getState()
+
+  // Build a Map for O(1) object lookup instead of O(n) find per track
+  const objectMap = new Map<string, number>()
+  for (let i = 0; i < sceneState.objects.length; i++) {
+    objectMap.set(sceneState.objects[i].id, i)
+  }
+
+  const updateMap = new Map<string, ReturnType<typeof evaluateTrack>>()
+
+  for (const track of tracks) {
+    // Handle camera tracks separately
+    if (isCameraTrack(track)) {
+      const values = evaluateTrack(track, time)
+      const camPos = values.cameraPosition
+      const camTarget = values.cameraTarget
+      const cameraState = useCameraStore.getState()
+      if (camPos && camTarget) {
+        const controlsRef = cameraState.controlsRef
+        if (controlsRef) {
+          controlsRef.setLookAt(
+            camPos.x, camPos.y, camPos.z,
+            camTarget.x, camTarget.y, camTarget.z,
+            false,
+          )
+        }
+      }
+      if (values.cameraLens) {
+        cameraState.setLens(applyLensChannel(cameraState.lens, values.cameraLens))
+      }
+      if (values.cameraFocus) {
+        cameraState.setFocus(applyFocusChannel(cameraState.focus, values.cameraFocus))
+      }
+      continue
+    }
+
+    const values = evaluateTrack(track, time)
+
+    if (isEnvironmentTrack(track)) {
+      if (ENVIRONMENT_PROPERTY_PATHS.some(path => values[path] !== undefined)) {
+        const { environment } = useSceneStore.getState()
+        const next = applyEnvironmentPaths(environment, values)
+        if (next !== environment) useSceneStore.setState({ environment: next })
+      }
+      continue
+    }
+
+    // Check for any animated properties without Object.keys allocation
+    const hasValues = values.position !== undefined || values.rotation !== undefined || values.scale !== undefined
+      || values.lightColor !== undefined || values.lightParams !== undefined
+      || OBJECT_PROPERTY_PATHS.some(path => values[path] !== undefined)
+    if (!hasValues) continue
+
+    // Check object exists via Map
+    if (!objectMap.has(track.objectId)) continue
+
+    updateMap.set(track.objectId, values)
+  }
+
+  // Batch update objects without pushing to history (animation is ephemeral)
+  if (updateMap.size > 0) {
+    useSceneStore.setState(state => ({
+      objects: state.objects.map(obj => {
+        const values = updateMap.get(obj.id)
+        if (!values) return obj
+        return applyTrackValues(obj, values)
+      }),
+    }))
+  }
+}
+
+function applyTrackValues(obj: SceneObject, values: ReturnType<typeof evaluateTrack>): SceneObject {
+  const next = { ...obj }
+  if (values.position) next.position = values.position
+  if (values.rotation) next.rotation = values.rotation
+  if (values.scale) next.scale = values.scale
+  if (obj.light && (values.lightColor || values.lightParams)) {
+    next.light = applyLightChannels(obj.light, values)
+    next.color = next.light.color
+  }
+  return applyObjectPaths(next, values)
+}
@@ -9,6 +9,7 @@ import type {
   TextureAssetData,
 } from '../types/asset'
 import { createMeshAsset, createTextureAsset, createMaterialAsset, createPrefabAsset, generateAssetId } from './assetLibrary'
+import { registerBlobUrl, unregisterBlobUrl } from './blobStore'
 
 // ── File Extension Utilities ──────────────────────────────────────────
 
@@ -288,6 +289,7 @@ export async function extractTextureMetadata(file: File): Promise<{
 /* v8 ignore start */
 export async function importMeshFromFile(file: File): Promise<MeshAsset> {
   const url = URL.createObjectURL(file)
+  registerBlobUrl(url, file)
   const metadata = await extractMeshMetadata(file)
   const asset = createMeshAsset(metadata.name, url, file.name, metadata.format)
   asset.fileSize = metadata.fileSize
@@ -296,6 +298,7 @@ export async function importMeshFromFile(file: File): Promise<MeshAsset> {
 
 export async function importTextureFromFile(file: File): Promise<TextureAsset> {
   const url = URL.createObjectURL(file)
+  registerBlobUrl(url, file)
   const metadata = await extractTextureMetadata(file)
   const asset = createTextureAsset(metadata.name, url, file.name, metadata.format)
   asset.fileSize = metadata.fileSize
@@ -373,11 +376,13 @@ export function revokeAssetUrls(asset: Asset): void {
     case 'mesh':
       if (asset.data.url.startsWith('blob:')) {
         URL.revokeObjectURL(asset.data.url)
+        unregisterBlobUrl(asset.data.url)
       }
       break
     case 'texture':
       if (asset.data.url.startsWith('blob:')) {
         URL.revokeObjectURL(asset.data.url)
+        unregisterBlobUrl(asset.data.url)
       }
       break
     case 'material':
@@ -0,0 +1,193 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  toAssetUrl,
+  parseAssetUrl,
+  hashBytes,
+  collectSceneUrls,
+  rewriteSceneUrls,
+  registerBlobUrl,
+  unregisterBlobUrl,
+  isRegisteredBlobUrl,
+  clearBlobRegistry,
+  persistSceneAssets,
+  restoreSceneAssets,
+} from './blobStore'
+import { InMemoryAdapter } from './storageEngine'
+import { createSceneData } from './serialization'
+import { createSceneObject, createModelObject, createDefaultEnvironment } from './sceneOperations'
+import type { SceneData, TextureMap } from '../types/scene'
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+const HASH_A = 'a'.repeat(64)
+
+function textureMap(url: string): TextureMap {
+  return { url, scale: { x: 1, y: 1 }, offset: { x: 0, y: 0 } }
+}
+
+function makeScene(): SceneData {
+  const model = createModelObject('Cactus', 'blob:model-1', [], 'glb')
+  const box = createSceneObject('box', [])
+  box.material.normalMap = textureMap('blob:tex-1')
+  box.material.aoMap = textureMap('https://example.com/ao.png')
+  const sphere = createSceneObject('sphere', [])
+  sphere.material.roughnessMap = textureMap('blob:tex-1')
+  return createSceneData([model, box, sphere], createDefaultEnvironment(), 'Desert')
+}
+
+function blobOf(text: string): Blob {
+  return new Blob([text], { type: 'application/octet-stream' })
+}
+
+// ── 1. Asset URLs ────────────────────────────────────────────────────
+
+describe('asset URLs', () => {
+  it('round-trips a hash through toAssetUrl/parseAssetUrl', () => {
+    expect(toAssetUrl(HASH_A)).toBe(`asset://${HASH_A}`)
+    expect(parseAssetUrl(toAssetUrl(HASH_A))).toBe(HASH_A)
+  })
+
+  it('rejects non-asset URLs and malformed hashes', () => {
+    expect(parseAssetUrl('blob:abc')).toBeNull()
+    expect(parseAssetUrl('asset://not-a-hash')).toBeNull()
+  })
+})
+
+describe('hashBytes', () => {
+  it('returns the SHA-256 hex digest', async () => {
+    const bytes = new TextEncoder().encode('abc').buffer as ArrayBuffer
+    expect(await hashBytes(bytes)).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad')
+  })
+})
+
+// ── 2. Scene URL Rewriting ───────────────────────────────────────────
+
+describe('collectSceneUrls', () => {
+  it('collects model and texture URLs without duplicates', () => {
+    expect(collectSceneUrls(makeScene()).sort()).toEqual([
+      'blob:model-1',
+      'blob:tex-1',
+      'https://example.com/ao.png',
+    ])
+  })
+})
+
+describe('rewriteSceneUrls', () => {
+  it('maps every URL without mutating the input', () => {
+    const scene = makeScene()
+    const rewritten = rewriteSceneUrls(scene, url => url.toUpperCase())
+
+    expect(rewritten.objects[0].gltfUrl).toBe('BLOB:MODEL-1')
+    expect(rewritten.objects[1].material.normalMap!.url).toBe('BLOB:TEX-1')
+    expect(rewritten.objects[1].material.normalMap!.scale).toEqual({ x: 1, y: 1 })
+    expect(rewritten.objects[2].material.roughnessMap!.url).toBe('BLOB:TEX-1')
+    expect(scene.objects[0].gltfUrl).toBe('blob:model-1')
+  })
+
+  it('leaves objects without URLs unchanged', () => {
+    const scene = createSceneData([createSceneObject('box', [])], createDefaultEnvironment())
+    const rewritten = rewriteSceneUrls(scene, () => 'changed')
+    expect(rewritten.objects[0]).toEqual(scene.objects[0])
+  })
+})
+
+// ── 3. Persist / Restore ─────────────────────────────────────────────
+
+describe('persistSceneAssets / restoreSceneAssets', () => {
+  let adapter: InMemoryAdapter
+
+  beforeEach(() => {
+    clearBlobRegistry()
+    adapter = new InMemoryAdapter()
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('stores registered blobs and rewrites their URLs to asset:// references', async () => {
+    registerBlobUrl('blob:model-1', blobOf('model bytes'))
+    registerBlobUrl('blob:tex-1', blobOf('texture bytes'))
+
+    const { sceneData, blobHashes } = await persistSceneAssets(makeScene(), adapter)
+
+    expect(blobHashes).toHaveLength(2)
+    for (const hash of blobHashes) {
+      expect(await adapter.hasBlob(hash)).toBe(true)
+    }
+    expect(parseAssetUrl(sceneData.objects[0].gltfUrl!)).not.toBeNull()
+    expect(sceneData.objects[1].material.normalMap!.url).toBe(sceneData.objects[2].material.roughnessMap!.url)
+    // Unregistered URLs are not touched
+    expect(sceneData.objects[1].material.aoMap!.url).toBe('https://example.com/ao.png')
+  })
+
+  it('deduplicates identical bytes behind different blob URLs', async () => {
+    registerBlobUrl('blob:model-1', blobOf('same'))
+    registerBlobUrl('blob:tex-1', blobOf('same'))
+
+    const { blobHashes } = await persistSceneAssets(makeScene(), adapter)
+    expect(blobHashes).toHaveLength(1)
+  })
+
+  it('keeps asset:// references whose blob is still stored', async () => {
+    await adapter.putBlob(HASH_A, blobOf('x'))
+    const scene = createSceneData(
+      [createModelObject('Stored', toAssetUrl(HASH_A), [], 'glb')],
+      createDefaultEnvironment(),
+    )
+
+    const { sceneData, blobHashes } = await persistSceneAssets(scene, adapter)
+    expect(blobHashes).toEqual([HASH_A])
+    expect(sceneData.objects[0].gltfUrl).toBe(toAssetUrl(HASH_A))
+  })
+
+  it('re-materializes asset:// references as blob URLs on restore', async () => {
+    registerBlobUrl('blob:model-1', blobOf('model bytes'))
+    registerBlobUrl('blob:tex-1', blobOf('texture bytes'))
+    const { sceneData } = await persistSceneAssets(makeScene(), adapter)
+
+    clearBlobRegistry()
+    let counter = 0
+    const createSpy = vi.spyOn(URL, 'createObjectURL').mockImplementation(() => `blob:restored-${++counter}`)
+
+    const restored = await restoreSceneAssets(sceneData, adapter)
+
+    expect(createSpy).toHaveBeenCalledTimes(2)
+    expect(restored.objects[0].gltfUrl).toMatch(/^blob:restored-/)
+    expect(restored.objects[1].material.normalMap!.url).toBe(restored.objects[2].material.roughnessMap!.url)
+    expect(isRegisteredBlobUrl(restored.objects[0].gltfUrl!)).toBe(true)
+  })
+
+  it('reuses blob URLs already materialized in this session', async () => {
+    registerBlobUrl('blob:model-1', blobOf('model bytes'))
+    const { sceneData } = await persistSceneAssets(makeScene(), adapter)
+    const createSpy = vi.spyOn(URL, 'createObjectURL')
+
+    const restored = await restoreSceneAssets(sceneData, adapter)
+
+    expect(createSpy).not.toHaveBeenCalled()
+    expect(restored.objects[0].gltfUrl).toBe('blob:model-1')
+  })
+
+  it('materializes again after the original blob URL is unregistered', async () => {
+    registerBlobUrl('blob:model-1', blobOf('model bytes'))
+    const { sceneData } = await persistSceneAssets(makeScene(), adapter)
+    unregisterBlobUrl('blob:model-1')
+    vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:fresh')
+
+    const restored = await restoreSceneAssets(sceneData, adapter)
+    expect(restored.objects[0].gltfUrl).toBe('blob:fresh')
+  })
+
+  it('leaves asset:// URLs in place when the blob is missing', async () => {
+    const warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {})
+    const scene = createSceneData(
+      [createModelObject('Gone', toAssetUrl(HASH_A), [], 'glb')],
+      createDefaultEnvironment(),
+    )
+
+    const restored = await restoreSceneAssets(scene, adapter)
+    expect(restored.objects[0].gltfUrl).toBe(toAssetUrl(HASH_A))
+    expect(warnSpy).toHaveBeenCalled()
+  })
+})
@@ -0,0 +1,183 @@
+/** Content-addressed blob store — keeps imported model/texture bytes alive
+ *  across reloads by rewriting blob URLs in SceneData to `asset://<hash>`. */
+
+import type { SceneData, SceneObject, MaterialData } from '../types/scene'
+import type { StorageAdapter } from '../types/storage'
+
+// ── Asset URLs (pure) ─────────────────────────────────────────────────
+
+export const ASSET_URL_SCHEME = 'asset://'
+
+const TEXTURE_MAP_KEYS = ['normalMap', 'roughnessMap', 'metalnessMap', 'emissiveMap', 'aoMap'] as const
+
+export function toAssetUrl(hash: string): string {
+  return `${ASSET_URL_SCHEME}${hash}`
+}
+
+/** Returns the hash of an `asset://` URL, or null for any other URL */
+export function parseAssetUrl(url: string): string | null {
+  if (!url.startsWith(ASSET_URL_SCHEME)) return null
+  const hash = url.slice(ASSET_URL_SCHEME.length)
+  return /^[0-9a-f]{64}$/.test(hash) ? hash : null
+}
+
+/** SHA-256 of the given bytes as lowercase hex */
+export async function hashBytes(data: ArrayBuffer): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new Uint8Array(data))
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, '0')).join('')
+}
+
+// ── Scene URL Rewriting (pure) ────────────────────────────────────────
+
+/** Every model and texture URL referenced by the scene, deduplicated */
+export function collectSceneUrls(sceneData: SceneData): string[] {
+  const urls = new Set<string>()
+  for (const obj of sceneData.objects) {
+    if (obj.gltfUrl) urls.add(obj.gltfUrl)
+    for (const key of TEXTURE_MAP_KEYS) {
+      const map = obj.material[key]
+      if (map) urls.add(map.url)
+    }
+  }
+  return [...urls]
+}
+
+/** Return a copy of the scene with every model/texture URL passed through `mapUrl` */
+export function rewriteSceneUrls(sceneData: SceneData, mapUrl: (url: string) => string): SceneData {
+  const objects = sceneData.objects.map((obj): SceneObject => {
+    const material: MaterialData = { ...obj.material }
+    for (const key of TEXTURE_MAP_KEYS) {
+      const map = material[key]
+      if (map) material[key] = { ...map, url: mapUrl(map.url) }
+    }
+    const result: SceneObject = { ...obj, material }
+    if (obj.gltfUrl) result.gltfUrl = mapUrl(obj.gltfUrl)
+    return result
+  })
+  return { ...sceneData, objects }
+}
+
+// ── Blob URL Registry ─────────────────────────────────────────────────
+
+interface RegisteredBlob {
+  blob: Blob
+  hash: string | null   // computed lazily on first save
+}
+
+const registry = new Map<string, RegisteredBlob>()
+const urlsByHash = new Map<string, string>()
+
+/** Remember the bytes behind a blob URL created on import so they can be persisted */
+export function registerBlobUrl(url: string, blob: Blob, hash: string | null = null): void {
+  registry.set(url, { blob, hash })
+  if (hash) urlsByHash.set(hash, url)
+}
+
+/** Forget a blob URL once it has been revoked */
+export function unregisterBlobUrl(url: string): void {
+  const entry = registry.get(url)
+  registry.delete(url)
+  if (entry?.hash && urlsByHash.get(entry.hash) === url) {
+    urlsByHash.delete(entry.hash)
+  }
+}
+
+export function isRegisteredBlobUrl(url: string): boolean {
+  return registry.has(url)
+}
+
+export function clearBlobRegistry(): void {
+  registry.clear()
+  urlsByHash.clear()
+}
+
+async function hashRegisteredBlob(url: string, entry: RegisteredBlob): Promise<string> {
+  if (entry.hash) return entry.hash
+  const hash = await hashBytes(await entry.blob.arrayBuffer())
+  entry.hash = hash
+  if (!urlsByHash.has(hash)) urlsByHash.set(hash, url)
+  return hash
+}
+
+// ── Persist / Restore ─────────────────────────────────────────────────
+
+/** Hash every registered blob the scene uses and replace its URL with
+ *  `asset://<hash>`, without writing anything: `blobs` holds the bytes still
+ *  to be stored. Unregistered URLs (http, data) are left as-is. */
+export async function prepareSceneAssets(
+  sceneData: SceneData,
+  adapter: StorageAdapter,
+): Promise<{ sceneData: SceneData; blobHashes: string[]; blobs: Map<string, Blob> }> {
+  const replacements = new Map<string, string>()
+  const blobHashes = new Set<string>()
+  const blobs = new Map<string, Blob>()
+
+  for (const url of collectSceneUrls(sceneData)) {
+    const existingHash = parseAssetUrl(url)
+    if (existingHash) {
+      // Restored from storage but never re-materialized (e.g. the blob was missing)
+      if (await adapter.hasBlob(existingHash)) blobHashes.add(existingHash)
+      continue
+    }
+
+    const entry = registry.get(url)
+    if (!entry) continue
+
+    const hash = await hashRegisteredBlob(url, entry)
+    blobs.set(hash, entry.blob)
+    replacements.set(url, toAssetUrl(hash))
+    blobHashes.add(hash)
+  }
+
+  return {
+    sceneData: rewriteSceneUrls(sceneData, (url) => replacements.get(url) ?? url),
+    blobHashes: [...blobHashes],
+    blobs,
+  }
+}
+
+/** Write every registered blob the scene uses to the adapter and replace its
+ *  URL with `asset://<hash>`. Unregistered URLs (http, data) are left as-is. */
+export async function persistSceneAssets(
+  sceneData: SceneData,
+  adapter: StorageAdapter,
+): Promise<{ sceneData: SceneData; blobHashes: string[] }> {
+  const prepared = await prepareSceneAssets(sceneData, adapter)
+  for (const [hash, blob] of prepared.blobs) {
+    await adapter.putBlob(hash, blob)
+  }
+  return { sceneData: prepared.sceneData, blobHashes: prepared.blobHashes }
+}
+
+/** Replace `asset://<hash>` URLs with blob URLs backed by the adapter's blobs.
+ *  Blobs already materialized this session reuse their existing URL.
+ *  Missing blobs are logged and their asset URL is left in place. */
+export async function restoreSceneAssets(
+  sceneData: SceneData,
+  adapter: StorageAdapter,
+): Promise<SceneData> {
+  const replacements = new Map<string, string>()
+
+  for (const url of collectSceneUrls(sceneData)) {
+    const hash = parseAssetUrl(url)
+    if (!hash) continue
+
+    const cached = urlsByHash.get(hash)
+    if (cached && registry.has(cached)) {
+      replacements.set(url, cached)
+      continue
+    }
+
+    const stored = await adapter.getBlob(hash)
+    if (!stored) {
+      console.warn(`Missing stored asset: ${hash}`)
+      continue
+    }
+
+    const blobUrl = URL.createObjectURL(stored.blob)
+    registerBlobUrl(blobUrl, stored.blob, hash)
+    replacements.set(url, blobUrl)
+  }
+
+  return rewriteSceneUrls(sceneData, (url) => replacements.get(url) ?? url)
+}
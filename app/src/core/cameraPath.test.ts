@@ -316,6 +316,45 @@ describe('evaluatePath with loop', () => {
   })
 })
 
+describe('evaluatePath with lenses', () => {
+  function withLens(point: CameraPathPoint, focalLength: number, roll = 0): CameraPathPoint {
+    return { ...point, lens: { focalLength, sensor: 'super35', roll } }
+  }
+
+  it('leaves the lens out for paths without lenses', () => {
+    expect(evaluatePath(makeLinearPath(), 1.5).lens).toBeUndefined()
+  })
+
+  it('interpolates focal length and roll between points', () => {
+    const path = makePath([
+      withLens(makePoint('a', vec3(0, 0, 0), vec3(0, 0, -1), 60, 0), 35, 0),
+      withLens(makePoint('b', vec3(10, 0, 0), vec3(0, 0, -1), 60, 2), 85, 10),
+    ])
+    expect(evaluatePath(path, 0).lens).toEqual({ focalLength: 35, sensor: 'super35', roll: 0 })
+    expect(evaluatePath(path, 2).lens).toEqual({ focalLength: 85, sensor: 'super35', roll: 10 })
+
+    const mid = evaluatePath(path, 1).lens!
+    expect(mid.focalLength).toBeCloseTo(60)
+    expect(mid.roll).toBeCloseTo(5)
+  })
+
+  it('returns a copy of a single point lens', () => {
+    const point = withLens(makePoint('a', vec3(0, 0, 0), vec3(0, 0, -1), 60, 0), 50)
+    const state = evaluatePath(makePath([point]), 0)
+    expect(state.lens).toEqual(point.lens)
+    expect(state.lens).not.toBe(point.lens)
+  })
+
+  it('uses the default lens for points without one', () => {
+    const path = makePath([
+      makePoint('a', vec3(0, 0, 0), vec3(0, 0, -1), 60, 0),
+      withLens(makePoint('b', vec3(10, 0, 0), vec3(0, 0, -1), 60, 1), 24),
+    ])
+    expect(evaluatePath(path, 0).lens?.focalLength).toBe(24)
+    expect(evaluatePath(path, 0).lens?.sensor).toBe('full-frame')
+  })
+})
+
 // ── createCameraPath ────────────────────────────────────────────────
 
 describe('createCameraPath', () => {
@@ -1,6 +1,8 @@
 /** Pure functions for camera path spline interpolation and management */
 
 import type { Vec3 } from '../types/scene'
+import type { CameraLens, CameraPath as EditorCameraPath } from '../types/cameraPath'
+import { clampFocalLength, clampRoll, createDefaultLens } from './lens'
 
 // ── Types ───────────────────────────────────────────────────────────
 
@@ -10,6 +12,7 @@ export interface CameraPathPoint {
   lookAt: Vec3
   fov: number           // field of view in degrees (1-179)
   time: number           // time in seconds along path
+  lens?: CameraLens      // physical lens; overrides fov in the viewport when set
 }
 
 export interface CameraPath {
@@ -25,6 +28,7 @@ export interface CameraPathState {
   position: Vec3
   lookAt: Vec3
   fov: number
+  lens?: CameraLens      // only when the path's points carry lenses
 }
 
 // ── ID Generation ────────────────────────────────────────────────────
@@ -143,6 +147,29 @@ export function getSegmentIndex(
   return { segIndex: points.length - 2, localT: 1 }
 }
 
+// ── Lens Interpolation ──────────────────────────────────────────────
+
+/**
+ * Interpolate the lens between p1 and p2. Focal length and roll follow the
+ * same spline as the move; the sensor is swapped at p2. Points without a lens
+ * use the default one. Returns undefined when neither end of the span has a lens.
+ */
+export function interpolateLens(
+  p0: CameraPathPoint, p1: CameraPathPoint, p2: CameraPathPoint, p3: CameraPathPoint,
+  t: number, tension: number = 0.5,
+): CameraLens | undefined {
+  if (!p1.lens && !p2.lens) return undefined
+
+  const fallback = createDefaultLens()
+  const [l0, l1, l2, l3] = [p0, p1, p2, p3].map(p => p.lens ?? fallback)
+
+  return {
+    focalLength: clampFocalLength(catmullRom(l0.focalLength, l1.focalLength, l2.focalLength, l3.focalLength, t, tension)),
+    sensor: t < 1 ? l1.sensor : l2.sensor,
+    roll: clampRoll(catmullRom(l0.roll, l1.roll, l2.roll, l3.roll, t, tension)),
+  }
+}
+
 // ── Path Evaluation ─────────────────────────────────────────────────
 
 /**
@@ -163,11 +190,13 @@ export function evaluatePath(path: CameraPath, time: number): CameraPathState {
 
   // Single point: return it directly
   if (points.length === 1) {
-    return {
+    const state: CameraPathState = {
       position: { ...points[0].position },
       lookAt: { ...points[0].lookAt },
       fov: points[0].fov,
     }
+    if (points[0].lens) state.lens = { ...points[0].lens }
+    return state
   }
 
   // Handle looping
@@ -199,11 +228,36 @@ export function evaluatePath(path: CameraPath, time: number): CameraPathState {
     p3 = points[Math.min(points.length - 1, segIndex + 2)]
   }
 
-  return {
+  const state: CameraPathState = {
     position: catmullRomVec3(p0.position, p1.position, p2.position, p3.position, localT, tension),
     lookAt: catmullRomVec3(p0.lookAt, p1.lookAt, p2.lookAt, p3.lookAt, localT, tension),
     fov: catmullRom(p0.fov, p1.fov, p2.fov, p3.fov, localT, tension),
   }
+  const lens = interpolateLens(p0, p1, p2, p3, localT, tension)
+  if (lens) state.lens = lens
+  return state
+}
+
+/**
+ * The editor stores paths with a target and tension per point; the evaluator
+ * takes a lookAt per point and a single tension for the whole spline.
+ */
+export function toEvaluatorPath(path: EditorCameraPath): CameraPath {
+  return {
+    id: path.id,
+    name: path.name,
+    duration: path.duration,
+    loop: path.loop,
+    tension: path.points[0]?.tension ?? 0.5,
+    points: path.points.map(pt => ({
+      id: pt.id,
+      position: pt.position,
+      lookAt: pt.target,
+      fov: 50,
+      time: pt.time,
+      lens: pt.lens,
+    })),
+  }
 }
 
 // ── Path Operations ─────────────────────────────────────────────────
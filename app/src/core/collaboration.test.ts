@@ -0,0 +1,653 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { joinRoom, leaveRoom, getActiveSession, captureSceneSnapshot, applyRemoteOps } from './collaboration'
+import { createFakeSocketFactory, type FakeSocket } from '../test/fakeSocket'
+import { useSceneStore } from '../stores/useSceneStore'
+import { useAnimationStore } from '../stores/useAnimationStore'
+import { useCameraStore } from '../stores/useCameraStore'
+import { useCollaborationStore } from '../stores/useCollaborationStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
+import { createSceneObject } from './sceneOperations'
+import { materializeObjects, seedCrdtDocument } from './crdt'
+import type { CameraShot } from '../types/cameraPath'
+import type {
+  SceneDiffPayload,
+  SceneFullPayload,
+  SceneDiffOp,
+  CrdtOp,
+  HLCTimestamp,
+  PresencePayload,
+} from '../types/collaboration'
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+const SHOT: CameraShot = {
+  id: 'shot_1',
+  name: 'Wide',
+  position: { x: 5, y: 5, z: 5 },
+  target: { x: 0, y: 0, z: 0 },
+  createdAt: '2026-01-01T00:00:00.000Z',
+}
+
+function resetStores() {
+  useSceneStore.getState().clearScene()
+  useAnimationStore.setState({ isPlaying: false, currentTime: 0 })
+  useCameraStore.getState().clearShots()
+  useCollaborationStore.getState().reset()
+}
+
+let sockets: FakeSocket[]
+
+function join() {
+  const fake = createFakeSocketFactory()
+  sockets = fake.sockets
+  const session = joinRoom({
+    serverUrl: 'ws://localhost:8787',
+    roomId: 'room',
+    userName: 'Alice',
+    createSocket: fake.factory,
+  })
+  sockets[0].open()
+  return session
+}
+
+function joinAsHost() {
+  const session = join()
+  sockets[0].receive('joined', session.client.peerId, { isHost: true, peers: [], hostPeerId: session.client.peerId })
+  return session
+}
+
+function joinAsGuest() {
+  const session = join()
+  sockets[0].receive('joined', session.client.peerId, {
+    isHost: false,
+    peers: [{ peerId: 'host', userName: 'Hana', isHost: true }],
+    hostPeerId: 'host',
+  })
+  return session
+}
+
+function sentOps(): SceneDiffOp[] {
+  return sockets[0].sentOfType('scene-diff').flatMap(m => (m.payload as SceneDiffPayload).ops)
+}
+
+function sentCrdtOps(): CrdtOp[] {
+  return sockets[0].sentOfType('scene-diff').flatMap(m => (m.payload as SceneDiffPayload).crdtOps ?? [])
+}
+
+function ts(wallTime: number, peerId = 'p2'): HLCTimestamp {
+  return { wallTime, counter: 0, peerId }
+}
+
+describe('collaboration', () => {
+  beforeEach(() => {
+    vi.useFakeTimers()
+    resetStores()
+  })
+
+  afterEach(() => {
+    leaveRoom()
+    vi.useRealTimers()
+  })
+
+  // ── 1. Snapshots ────────────────────────────────────────────────────
+
+  describe('captureSceneSnapshot', () => {
+    it('collects objects, environment, tracks, duration and shots', () => {
+      useSceneStore.getState().addObject('box')
+      useCameraStore.getState().loadShots([{ ...SHOT, thumbnail: 'blob:thumb' }])
+
+      const snapshot = captureSceneSnapshot()
+
+      expect(snapshot.objects).toBe(useSceneStore.getState().objects)
+      expect(snapshot.duration).toBe(useAnimationStore.getState().duration)
+      expect(snapshot.shots).toEqual([SHOT])
+    })
+  })
+
+  // ── 2. applyRemoteOps ───────────────────────────────────────────────
+
+  describe('applyRemoteOps', () => {
+    it('applies object ops without creating undo entries', () => {
+      useSceneStore.getState().addObject('box')
+      const before = useSceneStore.getState()
+      const historyBefore = useHistoryStore.getState()
+      const remote = createSceneObject('sphere', before.objects)
+
+      applyRemoteOps([{ op: 'add', collection: 'objects', item: remote, index: 1 }])
+
+      const after = useSceneStore.getState()
+      expect(after.objects.map(o => o.id)).toEqual([before.objects[0].id, remote.id])
+      expect(useHistoryStore.getState().entries).toHaveLength(historyBefore.entries.length)
+      expect(useHistoryStore.getState().index).toBe(historyBefore.index)
+    })
+
+    it('keeps remote edits when the local user undoes', () => {
+      useSceneStore.getState().addObject('box')
+      const id = useSceneStore.getState().objects[0].id
+      useSceneStore.getState().updateObject(id, { name: 'Local' })
+
+      applyRemoteOps([{ op: 'update', collection: 'objects', id, changes: { color: '#123456' } }])
+      useSceneStore.getState().undo()
+
+      const obj = useSceneStore.getState().objects[0]
+      expect(obj.name).not.toBe('Local')
+      expect(obj.color).toBe('#123456')
+    })
+
+    it('keeps remote keyframe, duration, shot and environment edits when the local user undoes', () => {
+      const animation = useAnimationStore.getState()
+      const trackId = animation.addTrack('o1')
+      const kfId = animation.addKeyframe(trackId, 0, 'position', { x: 0, y: 0, z: 0 })
+      animation.updateKeyframe(trackId, kfId, { value: { x: 1, y: 0, z: 0 } })
+      animation.setDuration(8)
+      useCameraStore.getState().loadShots([SHOT])
+      useCameraStore.getState().updateShot(SHOT.id, { name: 'Mine' })
+      useSceneStore.getState().updateEnvironment({ fogEnabled: true })
+
+      const keyframe = useAnimationStore.getState().tracks[0].keyframes[0]
+      applyRemoteOps([
+        {
+          op: 'update',
+          collection: 'tracks',
+          id: trackId,
+          changes: { keyframes: [{ ...keyframe, value: { x: 9, y: 9, z: 9 } }] },
+        },
+        { op: 'duration', duration: 12 },
+        { op: 'update', collection: 'shots', id: SHOT.id, changes: { name: 'Theirs' } },
+        { op: 'environment', changes: { fogEnabled: false } },
+      ])
+      while (useHistoryStore.getState().canUndo()) useHistoryStore.getState().undo()
+
+      // The local keyframe is gone, but nothing the peer set was reverted
+      expect(useAnimationStore.getState().tracks).toEqual([])
+      expect(useAnimationStore.getState().duration).toBe(12)
+      expect(useCameraStore.getState().shots[0].name).toBe('Theirs')
+      expect(useSceneStore.getState().environment.fogEnabled).toBe(false)
+    })
+
+    it('keeps a peer\'s later edit to the same keyframe field when undoing', () => {
+      const animation = useAnimationStore.getState()
+      const trackId = animation.addTrack('o1')
+      const kfId = animation.addKeyframe(trackId, 0, 'position', { x: 0, y: 0, z: 0 })
+      animation.updateKeyframe(trackId, kfId, { value: { x: 1, y: 0, z: 0 } })
+
+      const keyframe = useAnimationStore.getState().tracks[0].keyframes[0]
+      applyRemoteOps([{
+        op: 'update',
+        collection: 'tracks',
+        id: trackId,
+        changes: { keyframes: [{ ...keyframe, value: { x: 9, y: 9, z: 9 }, easing: 'easeIn' }] },
+      }])
+      useHistoryStore.getState().undo()
+
+      expect(useAnimationStore.getState().tracks[0].keyframes[0]).toMatchObject({
+        value: { x: 9, y: 9, z: 9 },
+        easing: 'easeIn',
+      })
+    })
+
+    it('drops the selection of removed objects', () => {
+      useSceneStore.getState().addObject('box')
+      const id = useSceneStore.getState().objects[0].id
+
+      applyRemoteOps([{ op: 'remove', collection: 'objects', id }])
+
+      const scene = useSceneStore.getState()
+      expect(scene.objects).toEqual([])
+      expect(scene.selectedId).toBeNull()
+      expect(scene.selectedIds).toEqual([])
+    })
+
+    it('updates animation tracks, duration and shots', () => {
+      useCameraStore.getState().loadShots([{ ...SHOT, thumbnail: 'blob:thumb' }])
+
+      applyRemoteOps([
+        { op: 'add', collection: 'tracks', item: { id: 't1', objectId: 'o1', keyframes: [] }, index: 0 },
+        { op: 'duration', duration: 12 },
+        { op: 'update', collection: 'shots', id: SHOT.id, changes: { name: 'Close' } },
+      ])
+
+      expect(useAnimationStore.getState().tracks.map(t => t.id)).toEqual(['t1'])
+      expect(useAnimationStore.getState().duration).toBe(12)
+      // Local thumbnails survive remote edits
+      expect(useCameraStore.getState().shots[0]).toMatchObject({ name: 'Close', thumbnail: 'blob:thumb' })
+    })
+  })
+
+  // ── 3. Session lifecycle ────────────────────────────────────────────
+
+  describe('session', () => {
+    it('tracks connection status and peers in the collaboration store', () => {
+      const session = join()
+      expect(useCollaborationStore.getState()).toMatchObject({
+        status: 'connecting', roomId: 'room', peerId: session.client.peerId, userName: 'Alice',
+      })
+
+      sockets[0].receive('joined', session.client.peerId, {
+        isHost: false,
+        peers: [{ peerId: 'host', userName: 'Hana', isHost: true }],
+        hostPeerId: 'host',
+      })
+      sockets[0].receive('peer-joined', 'p3', { peerId: 'p3', userName: 'Cal' })
+      sockets[0].receive('peer-left', 'host', { peerId: 'host' })
+
+      const state = useCollaborationStore.getState()
+      expect(state.status).toBe('connected')
+      expect(state.isHost).toBe(false)
+      expect(state.peers.map(p => p.userName)).toEqual(['Cal'])
+    })
+
+    it('replaces a previous session when joining again', () => {
+      const first = join()
+      const firstSocket = sockets[0]
+      const second = join()
+
+      expect(firstSocket.closedWith?.code).toBe(1000)
+      expect(getActiveSession()).toBe(second)
+      expect(getActiveSession()).not.toBe(first)
+    })
+
+    it('leaves the room and resets the store', () => {
+      joinAsHost()
+      leaveRoom()
+
+      expect(sockets[0].sentOfType('leave')).toHaveLength(1)
+      expect(getActiveSession()).toBeNull()
+      expect(useCollaborationStore.getState().status).toBe('disconnected')
+
+      // Local edits are no longer replicated
+      useSceneStore.getState().addObject('box')
+      vi.advanceTimersByTime(100)
+      expect(sockets[0].sentOfType('scene-diff')).toEqual([])
+    })
+
+    it('reports fatal closes as errors', () => {
+      join()
+      sockets[0].drop(4001, 'Room is full')
+
+      expect(useCollaborationStore.getState()).toMatchObject({ status: 'error', error: 'Room is full' })
+      expect(getActiveSession()).toBeNull()
+    })
+
+    it('shows reconnecting while the client retries', () => {
+      joinAsHost()
+      sockets[0].drop(1006)
+      expect(useCollaborationStore.getState().status).toBe('reconnecting')
+    })
+  })
+
+  // ── 4. Broadcasting local changes ───────────────────────────────────
+
+  describe('broadcasting', () => {
+    it('coalesces local edits into one scene-diff', () => {
+      joinAsHost()
+      useSceneStore.getState().addObject('box')
+      const id = useSceneStore.getState().objects[0].id
+      useSceneStore.getState().updateObject(id, { name: 'Crate' })
+      useAnimationStore.getState().setDuration(9)
+
+      expect(sockets[0].sentOfType('scene-diff')).toEqual([])
+      vi.advanceTimersByTime(50)
+
+      expect(sockets[0].sentOfType('scene-diff')).toHaveLength(1)
+      expect(sentOps()).toEqual([{ op: 'duration', duration: 9 }])
+      expect(sentCrdtOps()).toEqual([
+        expect.objectContaining({ type: 'add', id, object: expect.objectContaining({ name: 'Crate' }) }),
+      ])
+    })
+
+    it('does not broadcast timeline playback', () => {
+      useSceneStore.getState().addObject('box')
+      joinAsHost()
+      const id = useSceneStore.getState().objects[0].id
+
+      // TimelinePlayback writes objects without touching history
+      useSceneStore.setState(state => ({
+        objects: state.objects.map(o => o.id === id ? { ...o, position: { x: 9, y: 0, z: 0 } } : o),
+      }))
+      vi.advanceTimersByTime(50)
+
+      expect(sockets[0].sentOfType('scene-diff')).toEqual([])
+    })
+
+    it('does not broadcast environment playback', () => {
+      joinAsHost()
+
+      // Environment tracks also write without touching history
+      useSceneStore.setState(state => ({
+        environment: { ...state.environment, fogNear: 3 },
+      }))
+      vi.advanceTimersByTime(50)
+
+      expect(sockets[0].sentOfType('scene-diff')).toEqual([])
+    })
+
+    it('does not echo remote ops back to the room', () => {
+      joinAsHost()
+      const remote = createSceneObject('cone', [])
+
+      sockets[0].receive<SceneDiffPayload>('scene-diff', 'p2', {
+        ops: [],
+        crdtOps: [{ type: 'add', id: remote.id, object: remote, ts: ts(1) }],
+      })
+      vi.advanceTimersByTime(50)
+
+      expect(useSceneStore.getState().objects.map(o => o.id)).toEqual([remote.id])
+      expect(sockets[0].sentOfType('scene-diff')).toEqual([])
+    })
+
+    it('keeps pending local edits when a remote diff arrives first', () => {
+      joinAsHost()
+      useSceneStore.getState().addObject('box')
+      const remote = createSceneObject('cone', [])
+
+      sockets[0].receive<SceneDiffPayload>('scene-diff', 'p2', {
+        ops: [],
+        crdtOps: [{ type: 'add', id: remote.id, object: remote, ts: ts(1) }],
+      })
+      vi.advanceTimersByTime(50)
+
+      const ops = sentCrdtOps()
+      expect(ops).toHaveLength(1)
+      expect(ops[0]).toMatchObject({ type: 'add' })
+      expect(ops[0].type === 'add' && ops[0].id).not.toBe(remote.id)
+      expect(useSceneStore.getState().objects).toHaveLength(2)
+    })
+
+    it('resolves concurrent edits to one field by timestamp, not arrival order', () => {
+      vi.setSystemTime(10_000)
+      useSceneStore.getState().addObject('box')
+      joinAsHost()
+      const id = useSceneStore.getState().objects[0].id
+      useSceneStore.getState().updateObject(id, { name: 'Local' })
+      vi.advanceTimersByTime(50)
+
+      // A peer renamed the object just before us, but their op arrives last
+      sockets[0].receive<SceneDiffPayload>('scene-diff', 'p2', {
+        ops: [],
+        crdtOps: [{ type: 'update-field', id, field: 'name', value: 'Earlier', ts: ts(10_000) }],
+      })
+      expect(useSceneStore.getState().objects[0].name).toBe('Local')
+
+      sockets[0].receive<SceneDiffPayload>('scene-diff', 'p2', {
+        ops: [],
+        crdtOps: [{ type: 'update-field', id, field: 'name', value: 'Later', ts: ts(20_000) }],
+      })
+      expect(useSceneStore.getState().objects[0].name).toBe('Later')
+
+      // Our next edit is stamped after everything we have seen
+      useSceneStore.getState().updateObject(id, { name: 'Last' })
+      vi.advanceTimersByTime(50)
+      const last = sentCrdtOps().at(-1)!
+      expect(last).toMatchObject({ type: 'update-field', field: 'name', value: 'Last' })
+      expect(last.ts.wallTime).toBeGreaterThanOrEqual(20_000)
+    })
+
+    it('viewers keep their edits local', () => {
+      const session = join()
+      sockets[0].receive('joined', session.client.peerId, {
+        isHost: false,
+        peers: [{ peerId: 'host', userName: 'Hana', isHost: true, role: 'owner' }],
+        hostPeerId: 'host',
+        hasSnapshot: true,
+        role: 'viewer',
+      })
+      sockets[0].receive<SceneFullPayload>('scene-full', 'server', {
+        targetPeerId: session.client.peerId,
+        scene: useSceneStore.getState().saveScene('room'),
+      })
+
+      useSceneStore.getState().addObject('box')
+      vi.advanceTimersByTime(50)
+
+      expect(useCollaborationStore.getState().role).toBe('viewer')
+      expect(useSceneStore.getState().objects).toHaveLength(1)
+      expect(sockets[0].sentOfType('scene-diff')).toEqual([])
+    })
+  })
+
+  // ── 5. Full scene handshake ─────────────────────────────────────────
+
+  describe('scene-full', () => {
+    it('host answers request-full with the current scene', () => {
+      useSceneStore.getState().addObject('box')
+      useCameraStore.getState().loadShots([{ ...SHOT, thumbnail: 'blob:thumb' }])
+      joinAsHost()
+
+      sockets[0].receive('request-full', 'guest', { requesterPeerId: 'guest' })
+
+      const [msg] = sockets[0].sentOfType('scene-full')
+      const payload = msg.payload as SceneFullPayload
+      expect(payload.targetPeerId).toBe('guest')
+      expect(payload.scene.objects).toHaveLength(1)
+      expect(payload.scene.shots).toEqual([SHOT])
+      expect(materializeObjects(payload.crdt!)).toEqual(payload.scene.objects)
+    })
+
+    it('non-hosts ignore request-full', () => {
+      joinAsGuest()
+      sockets[0].receive('request-full', 'other', { requesterPeerId: 'other' })
+      expect(sockets[0].sentOfType('scene-full')).toEqual([])
+    })
+
+    it('guests replace their scene with the host scene and stay silent until then', () => {
+      useSceneStore.getState().addObject('sphere')
+      const session = joinAsGuest()
+
+      useSceneStore.getState().addObject('box')
+      vi.advanceTimersByTime(50)
+      expect(sockets[0].sentOfType('scene-diff')).toEqual([])
+
+      const hostObject = createSceneObject('cone', [])
+      const scene = { ...useSceneStore.getState().saveScene('room'), objects: [hostObject] }
+      sockets[0].receive<SceneFullPayload>('scene-full', 'host', { targetPeerId: session.client.peerId, scene })
+      vi.advanceTimersByTime(50)
+
+      expect(useSceneStore.getState().objects.map(o => o.id)).toEqual([hostObject.id])
+      expect(sockets[0].sentOfType('scene-diff')).toEqual([])
+
+      // Edits after the handshake are replicated
+      useSceneStore.getState().addObject('box')
+      vi.advanceTimersByTime(50)
+      expect(sentCrdtOps()).toHaveLength(1)
+    })
+
+    it('host seeds the server snapshot when the server requests it', () => {
+      useSceneStore.getState().addObject('box')
+      joinAsHost()
+
+      sockets[0].receive('request-full', 'server', { requesterPeerId: 'server' })
+
+      const [msg] = sockets[0].sentOfType('scene-full')
+      expect((msg.payload as SceneFullPayload).targetPeerId).toBe('server')
+    })
+
+    it('first client of a persisted room loads the server snapshot before sending edits', () => {
+      useSceneStore.getState().addObject('sphere')
+      const session = join()
+      sockets[0].receive('joined', session.client.peerId, {
+        isHost: true, peers: [], hostPeerId: session.client.peerId, hasSnapshot: true,
+      })
+
+      useSceneStore.getState().addObject('box')
+      vi.advanceTimersByTime(50)
+      expect(sockets[0].sentOfType('scene-diff')).toEqual([])
+
+      const stored = createSceneObject('cone', [])
+      const scene = { ...useSceneStore.getState().saveScene('room'), objects: [stored] }
+      sockets[0].receive<SceneFullPayload>('scene-full', 'server', { targetPeerId: session.client.peerId, scene })
+
+      expect(useSceneStore.getState().objects.map(o => o.id)).toEqual([stored.id])
+      useSceneStore.getState().addObject('box')
+      vi.advanceTimersByTime(50)
+      expect(sentCrdtOps()).toHaveLength(1)
+    })
+
+    it('adopts the room\'s CRDT document from scene-full', () => {
+      const session = joinAsGuest()
+      const stored = createSceneObject('cone', [])
+      const crdt = seedCrdtDocument({ objects: [stored], tracks: [] })
+      crdt.objects[stored.id].fields.name = { value: 'Stored', ts: ts(50_000, 'host') }
+      const scene = { ...useSceneStore.getState().saveScene('room'), objects: materializeObjects(crdt) }
+      sockets[0].receive<SceneFullPayload>('scene-full', 'host', { targetPeerId: session.client.peerId, scene, crdt })
+
+      // Older than the stored name, so it loses
+      sockets[0].receive<SceneDiffPayload>('scene-diff', 'p2', {
+        ops: [],
+        crdtOps: [{ type: 'update-field', id: stored.id, field: 'name', value: 'Stale', ts: ts(40_000) }],
+      })
+      expect(useSceneStore.getState().objects[0].name).toBe('Stored')
+    })
+
+    it('a waiting guest promoted to host keeps its own scene', () => {
+      const session = joinAsGuest()
+      sockets[0].receive('host-assigned', session.client.peerId, null)
+
+      expect(useCollaborationStore.getState().isHost).toBe(true)
+      useSceneStore.getState().addObject('box')
+      vi.advanceTimersByTime(50)
+      expect(sentCrdtOps()).toHaveLength(1)
+    })
+  })
+
+  // ── 6. Presence ─────────────────────────────────────────────────────
+
+  describe('presence', () => {
+    const VIEW = { position: { x: 5, y: 5, z: 5 }, target: { x: 0, y: 0, z: 0 }, fov: 50, aspect: 1.5 }
+
+    function sentPresence(): PresencePayload[] {
+      return sockets[0].sentOfType('presence').map(m => m.payload as PresencePayload)
+    }
+
+    it('announces selection and camera after joining, throttled', () => {
+      useSceneStore.getState().addObject('box')
+      const id = useSceneStore.getState().objects[0].id
+      const session = joinAsHost()
+
+      session.updatePresence({ camera: VIEW })
+      useSceneStore.getState().selectObject(id)
+      session.updatePresence({ camera: { ...VIEW, position: { x: 6, y: 5, z: 5 } } })
+      expect(sentPresence()).toEqual([])
+
+      vi.advanceTimersByTime(100)
+      expect(sentPresence()).toEqual([{
+        userName: 'Alice',
+        selectedIds: [id],
+        camera: { ...VIEW, position: { x: 6, y: 5, z: 5 } },
+        cursor: null,
+      }])
+    })
+
+    it('skips updates that do not change the view', () => {
+      const session = joinAsHost()
+      session.updatePresence({ camera: VIEW, cursor: { x: 1, y: 0, z: 1 } })
+      vi.advanceTimersByTime(100)
+
+      session.updatePresence({ camera: { ...VIEW }, cursor: { x: 1, y: 0, z: 1 } })
+      vi.advanceTimersByTime(100)
+
+      expect(sentPresence()).toHaveLength(1)
+    })
+
+    it('re-announces when a peer joins', () => {
+      joinAsHost()
+      vi.advanceTimersByTime(100)
+      sockets[0].receive('peer-joined', 'p2', { peerId: 'p2', userName: 'Bob' })
+      vi.advanceTimersByTime(100)
+
+      expect(sentPresence()).toHaveLength(2)
+    })
+
+    it('stores remote cameras, cursors and selections on the peer', () => {
+      joinAsGuest()
+      sockets[0].receive<PresencePayload>('presence', 'host', {
+        userName: 'Hana',
+        selectedIds: ['obj_1'],
+        camera: VIEW,
+        cursor: { x: 2, y: 0, z: 3 },
+      })
+
+      expect(useCollaborationStore.getState().peers[0]).toMatchObject({
+        peerId: 'host', selectedIds: ['obj_1'], camera: VIEW, cursor: { x: 2, y: 0, z: 3 },
+      })
+    })
+
+    it('stops following a peer that leaves', () => {
+      joinAsGuest()
+      sockets[0].receive<PresencePayload>('presence', 'host', { userName: 'Hana', selectedIds: [], camera: VIEW })
+      useCollaborationStore.getState().setFollowPeer('host')
+      expect(useCollaborationStore.getState().followPeerId).toBe('host')
+
+      sockets[0].receive('peer-left', 'host', { peerId: 'host' })
+      expect(useCollaborationStore.getState().followPeerId).toBeNull()
+    })
+  })
+
+  // ── 7. Edit leases ──────────────────────────────────────────────────
+
+  describe('edit leases', () => {
+    const HANA_LEASE = { objectId: 'obj_1', peerId: 'host', userName: 'Hana', expiresAt: 0 }
+
+    function leasePayloads(type: 'lease-acquire' | 'lease-release') {
+      return sockets[0].sentOfType(type).map(m => m.payload)
+    }
+
+    it('acquires, renews and releases leases', () => {
+      const session = joinAsHost()
+
+      expect(session.acquireLease(['obj_1'])).toBe(true)
+      expect(leasePayloads('lease-acquire')).toEqual([{ objectIds: ['obj_1'] }])
+
+      vi.advanceTimersByTime(3_000)
+      expect(leasePayloads('lease-acquire')).toHaveLength(2)
+
+      session.releaseLease(['obj_1'])
+      expect(leasePayloads('lease-release')).toEqual([{ objectIds: ['obj_1'] }])
+      vi.advanceTimersByTime(10_000)
+      expect(leasePayloads('lease-acquire')).toHaveLength(2)
+    })
+
+    it('mirrors the room lease table into the store', () => {
+      joinAsGuest()
+      sockets[0].receive('lease-state', 'server', { leases: [HANA_LEASE] })
+      expect(useCollaborationStore.getState().leases).toEqual([HANA_LEASE])
+    })
+
+    it('does not request objects another peer holds', () => {
+      const session = joinAsGuest()
+      sockets[0].receive('lease-state', 'server', { leases: [HANA_LEASE] })
+
+      expect(session.acquireLease(['obj_1'])).toBe(false)
+      expect(leasePayloads('lease-acquire')).toEqual([])
+    })
+
+    it('stops renewing a denied lease', () => {
+      const session = joinAsHost()
+      session.acquireLease(['obj_1'])
+      sockets[0].receive('lease-denied', 'server', { objectIds: ['obj_1'], holderPeerId: 'p2', holderName: 'Bob' })
+
+      vi.advanceTimersByTime(3_000)
+      expect(leasePayloads('lease-acquire')).toHaveLength(1)
+    })
+
+    it('re-requests held leases after reconnecting', () => {
+      const session = joinAsHost()
+      session.acquireLease(['obj_1'])
+      sockets[0].drop(1006)
+      vi.advanceTimersByTime(500)
+
+      sockets[1].open()
+      sockets[1].receive('joined', session.client.peerId, { isHost: true, peers: [], hostPeerId: session.client.peerId })
+      expect(sockets[1].sentOfType('lease-acquire').map(m => m.payload)).toEqual([{ objectIds: ['obj_1'] }])
+    })
+
+    it('releases leases when leaving', () => {
+      const session = joinAsHost()
+      session.acquireLease(['obj_1', 'obj_2'])
+      leaveRoom()
+
+      expect(leasePayloads('lease-release')).toEqual([{ objectIds: ['obj_1', 'obj_2'] }])
+      expect(useCollaborationStore.getState().leases).toEqual([])
+    })
+  })
+})
@@ -0,0 +1,585 @@
+/** Collaboration session — wires WSClient to the editor stores.
+ *
+ *  Local store mutations are diffed against the last replicated snapshot and
+ *  broadcast as scene-diff ops; objects and keyframes travel as timestamped CRDT
+ *  ops instead, so concurrent edits to them converge on every peer. Remote ops
+ *  are patched into the stores without creating undo entries. Joiners receive the room's scene as scene-full, either
+ *  from the server's snapshot or from the room host. Presence (camera, cursor and
+ *  selection) is broadcast separately at a throttled rate, and objects being
+ *  edited are soft-locked through server-arbitrated leases. */
+
+import type {
+  CollabMessage,
+  JoinedPayload,
+  PeerJoinedPayload,
+  PeerLeftPayload,
+  RequestFullPayload,
+  SceneFullPayload,
+  SceneDiffPayload,
+  SceneDiffOp,
+  SceneCollectionName,
+  SceneSnapshot,
+  PresencePayload,
+  PresenceCamera,
+  LeaseRequestPayload,
+  LeaseStatePayload,
+  LeaseDeniedPayload,
+  ErrorPayload,
+  CrdtOp,
+  CrdtDocument,
+} from '../types/collaboration'
+import type { CameraShot } from '../types/cameraPath'
+import type { Vec3, AnimationTrack } from '../types/scene'
+import { deepEqual, diffFields, diffCollection, diffScenes, applySceneDiff, applyCollectionOps } from './sceneDiff'
+import {
+  createClock,
+  receiveClock,
+  applyCrdtOps,
+  deriveCrdtOps,
+  getLatestTimestamp,
+  materializeObjects,
+  materializeTracks,
+  seedCrdtDocument,
+} from './crdt'
+import { WSClient, generatePeerId, type SocketFactory } from './wsClient'
+import { rebaseItems, rebaseNestedItems, rebaseRecord } from './history'
+import { camerasEqual, getForeignLease } from './presence'
+import { useSceneStore } from '../stores/useSceneStore'
+import { useAnimationStore } from '../stores/useAnimationStore'
+import { useCameraStore } from '../stores/useCameraStore'
+import { useCollaborationStore } from '../stores/useCollaborationStore'
+import { rebaseHistory, useHistoryStore } from '../stores/useHistoryStore'
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export interface JoinRoomOptions {
+  serverUrl: string
+  roomId: string
+  userName: string
+  /** Signed join token issued for this room */
+  token?: string
+  /** Room password (sets it when an owner creates the room) */
+  password?: string
+  /** Coalescing window for local edits (ms) */
+  flushDelayMs?: number
+  createSocket?: SocketFactory
+}
+
+export interface CollaborationSession {
+  readonly client: WSClient
+  /** Send pending local changes immediately */
+  flush: () => void
+  /** Report our viewport camera and/or ground cursor (sent throttled) */
+  updatePresence: (update: { camera?: PresenceCamera | null; cursor?: Vec3 | null }) => void
+  /**
+   * Lease objects before editing them (renewed until released). Returns false
+   * without asking the server when another peer already holds one of them.
+   */
+  acquireLease: (objectIds: string[]) => boolean
+  /** Release leased objects (all of ours when omitted) */
+  releaseLease: (objectIds?: string[]) => void
+  /** Leave the room and stop replicating */
+  leave: () => void
+}
+
+const DEFAULT_FLUSH_DELAY_MS = 50
+const PRESENCE_INTERVAL_MS = 100
+// Well inside the server's 10s lease TTL
+const LEASE_RENEW_INTERVAL_MS = 3_000
+
+// ── 1. Snapshots ──────────────────────────────────────────────────────
+
+/** Shot thumbnails are tab-local blob URLs and are never replicated */
+function stripThumbnail(shot: CameraShot): CameraShot {
+  if (shot.thumbnail === undefined) return shot
+  const rest = { ...shot }
+  delete rest.thumbnail
+  return rest
+}
+
+/** Capture the replicated part of the editor state */
+export function captureSceneSnapshot(): SceneSnapshot {
+  const scene = useSceneStore.getState()
+  const animation = useAnimationStore.getState()
+  return {
+    objects: scene.objects,
+    environment: scene.environment,
+    tracks: animation.tracks,
+    duration: animation.duration,
+    shots: useCameraStore.getState().shots.map(stripThumbnail),
+  }
+}
+
+// ── 2. Remote Application ─────────────────────────────────────────────
+
+/** Objects and tracks are replicated through CRDT ops, never scene-diff ops */
+function isCrdtReplicated(op: SceneDiffOp): boolean {
+  return 'collection' in op && (op.collection === 'objects' || op.collection === 'tracks')
+}
+
+/** Merge a peer's CRDT ops into `doc`. What the merge changed in the
+ *  materialized objects and tracks is returned as scene-diff ops, ready for
+ *  applyRemoteOps. */
+export function mergeRemoteCrdtOps(
+  doc: CrdtDocument,
+  crdtOps: CrdtOp[],
+): { doc: CrdtDocument; ops: SceneDiffOp[] } {
+  const merged = applyCrdtOps(doc, crdtOps)
+  if (merged === doc) return { doc, ops: [] }
+  return {
+    doc: merged,
+    ops: [
+      ...diffCollection('objects', materializeObjects(doc), materializeObjects(merged)),
+      ...diffCollection('tracks', materializeTracks(doc), materializeTracks(merged)),
+    ],
+  }
+}
+
+/** The items a peer deleted and the fields they set, per item id */
+function getItemEdits(collection: SceneCollectionName, ops: SceneDiffOp[]) {
+  const removed = new Set<string>()
+  const updates = new Map<string, Record<string, unknown>>()
+  for (const op of ops) {
+    if (!('collection' in op) || op.collection !== collection) continue
+    if (op.op === 'remove') {
+      removed.add(op.id)
+    } else {
+      const id = op.op === 'add' ? op.item.id : op.id
+      const fields: Record<string, unknown> = { ...updates.get(id), ...(op.op === 'add' ? op.item : op.changes) }
+      if (op.op === 'update') for (const key of op.unset ?? []) fields[key] = undefined
+      updates.set(id, fields)
+    }
+  }
+  return { removed, updates }
+}
+
+/** The keyframes a peer deleted and the fields they set, from their track
+ *  updates (which carry each edited track's whole keyframe list) */
+function getKeyframeEdits(tracks: AnimationTrack[], ops: SceneDiffOp[]) {
+  const removed = new Set<string>()
+  const updates = new Map<string, Record<string, unknown>>()
+  const byId = new Map(tracks.map(track => [track.id, track]))
+  for (const op of ops) {
+    if (op.op !== 'update' || op.collection !== 'tracks' || !op.changes.keyframes) continue
+    const before = new Map((byId.get(op.id)?.keyframes ?? []).map(k => [k.id, k]))
+    const ids = new Set(op.changes.keyframes.map(k => k.id))
+    for (const id of before.keys()) if (!ids.has(id)) removed.add(id)
+    for (const keyframe of op.changes.keyframes) {
+      const previous = before.get(keyframe.id)
+      const diff = previous ? diffFields(previous, keyframe) : { changes: keyframe, unset: [] }
+      if (!diff) continue
+      const fields: Record<string, unknown> = { ...diff.changes }
+      for (const key of diff.unset) fields[key] = undefined
+      updates.set(keyframe.id, fields)
+    }
+  }
+  return { removed, updates }
+}
+
+/** Track-level edits without the keyframe lists, which are rebased per keyframe */
+function getTrackEdits(ops: SceneDiffOp[]) {
+  const { removed, updates } = getItemEdits('tracks', ops)
+  for (const [id, fields] of updates) {
+    const rest = { ...fields }
+    delete rest.keyframes
+    if (Object.keys(rest).length > 0) updates.set(id, rest)
+    else updates.delete(id)
+  }
+  return { removed, updates }
+}
+
+/** Apply remote ops to the stores. They are also rebased into every undo
+ *  history entry so that undoing a local edit never reverts a peer's. */
+export function applyRemoteOps(ops: SceneDiffOp[]): void {
+  if (ops.length === 0) return
+
+  const scene = useSceneStore.getState()
+  const objects = applyCollectionOps('objects', scene.objects, ops)
+  let environment = scene.environment
+  for (const op of ops) {
+    if (op.op === 'environment') environment = { ...environment, ...op.changes }
+  }
+
+  if (objects !== scene.objects || environment !== scene.environment) {
+    const ids = new Set(objects.map(o => o.id))
+    const selectedId = scene.selectedId && ids.has(scene.selectedId) ? scene.selectedId : null
+    const selectedIds = scene.selectedIds.filter(id => ids.has(id))
+    if (objects !== scene.objects) {
+      const { removed, updates } = getItemEdits('objects', ops)
+      rebaseHistory('objects', patch => rebaseItems(patch, removed, updates))
+    }
+    if (environment !== scene.environment) {
+      const keys = new Set(ops.flatMap(op => (op.op === 'environment' ? Object.keys(op.changes) : [])))
+      rebaseHistory('environment', patch => rebaseRecord(patch, (key, field) => (keys.has(key) ? null : field)))
+    }
+    useSceneStore.setState({ objects, environment, selectedId, selectedIds })
+  }
+
+  const animation = useAnimationStore.getState()
+  const tracks = applyCollectionOps('tracks', animation.tracks, ops)
+  let duration = animation.duration
+  for (const op of ops) {
+    if (op.op === 'duration') duration = op.duration
+  }
+  if (tracks !== animation.tracks || duration !== animation.duration) {
+    const trackEdits = getTrackEdits(ops)
+    const keyframeEdits = getKeyframeEdits(animation.tracks, ops)
+    rebaseHistory('animation', patch => rebaseRecord(patch, (key, field) => {
+      if (key === 'duration') return duration !== animation.duration ? null : field
+      if (key !== 'tracks' || tracks === animation.tracks) return field
+      const rebased = rebaseItems(field, trackEdits.removed, trackEdits.updates)
+      return rebased && rebaseNestedItems(rebased, 'keyframes', keyframeEdits.removed, keyframeEdits.updates)
+    }))
+    useAnimationStore.setState({
+      tracks,
+      duration,
+      currentTime: Math.min(animation.currentTime, duration),
+    })
+  }
+
+  const camera = useCameraStore.getState()
+  const shots = applyCollectionOps('shots', camera.shots, ops)
+  if (shots !== camera.shots) {
+    const { removed, updates } = getItemEdits('shots', ops)
+    rebaseHistory('shots', patch => rebaseItems(patch, removed, updates))
+    const activeShotId = shots.some(s => s.id === camera.activeShotId) ? camera.activeShotId : null
+    useCameraStore.setState({ shots, activeShotId })
+  }
+}
+
+// ── 3. Session ────────────────────────────────────────────────────────
+
+let activeSession: CollaborationSession | null = null
+
+export function getActiveSession(): CollaborationSession | null {
+  return activeSession
+}
+
+/** Join a room, replacing any existing session */
+export function joinRoom(options: JoinRoomOptions): CollaborationSession {
+  activeSession?.leave()
+
+  const collab = useCollaborationStore.getState()
+  const peerId = generatePeerId()
+  const flushDelayMs = options.flushDelayMs ?? DEFAULT_FLUSH_DELAY_MS
+
+  let baseline = captureSceneSnapshot()
+  // Object and environment changes are only replicated when they come from
+  // history-tracked mutations; timeline playback and scrubbing write both
+  // without history.
+  let historyDirty = false
+  // Replicated objects and keyframes, and the clock that stamps our edits to them
+  let crdtDoc = seedCrdtDocument(baseline)
+  let clock = createClock(peerId)
+  // Joiners stay silent until the room's scene-full replaces their scene
+  let awaitingFull = true
+  let applyingRemote = false
+  let flushTimer: ReturnType<typeof setTimeout> | null = null
+  let left = false
+  // Latest local presence; camera and cursor are reported by the Viewport
+  let presence: PresencePayload = {
+    userName: options.userName,
+    selectedIds: useSceneStore.getState().selectedIds,
+    camera: null,
+    cursor: null,
+  }
+  let presenceTimer: ReturnType<typeof setTimeout> | null = null
+  // Objects we hold (or have asked for) leases on
+  const heldLeases = new Set<string>()
+  let leaseRenewTimer: ReturnType<typeof setInterval> | null = null
+
+  const withRemote = (fn: () => void) => {
+    applyingRemote = true
+    try {
+      fn()
+    } finally {
+      applyingRemote = false
+    }
+  }
+
+  const cancelFlush = () => {
+    if (flushTimer !== null) {
+      clearTimeout(flushTimer)
+      flushTimer = null
+    }
+  }
+
+  const flush = () => {
+    cancelFlush()
+    if (awaitingFull || !client.isOpen) return
+
+    const current = captureSceneSnapshot()
+    let ops = diffScenes(baseline, current).filter(op => !isCrdtReplicated(op))
+    if (!historyDirty) ops = ops.filter(op => op.op !== 'environment')
+    const replicated = { objects: historyDirty ? baseline.objects : current.objects, tracks: baseline.tracks }
+    baseline = current
+    historyDirty = false
+    // Viewers may edit locally, but the server would reject their diffs
+    if (useCollaborationStore.getState().role === 'viewer') return
+
+    const derived = deriveCrdtOps(replicated, current, clock)
+    clock = derived.clock
+    crdtDoc = applyCrdtOps(crdtDoc, derived.ops)
+    if (ops.length > 0 || derived.ops.length > 0) {
+      client.send<SceneDiffPayload>('scene-diff', { ops, crdtOps: derived.ops })
+    }
+  }
+
+  const scheduleFlush = () => {
+    if (applyingRemote || left || flushTimer !== null) return
+    flushTimer = setTimeout(flush, flushDelayMs)
+  }
+
+  const sendPresence = () => {
+    presenceTimer = null
+    if (left || !client.isOpen) return
+    client.send<PresencePayload>('presence', { ...presence, userName: useCollaborationStore.getState().userName })
+  }
+
+  const schedulePresence = () => {
+    if (left || presenceTimer !== null) return
+    presenceTimer = setTimeout(sendPresence, PRESENCE_INTERVAL_MS)
+  }
+
+  const updatePresence: CollaborationSession['updatePresence'] = ({ camera, cursor }) => {
+    const cameraChanged = camera !== undefined && !camerasEqual(camera, presence.camera)
+    const cursorChanged = cursor !== undefined && !deepEqual(cursor, presence.cursor)
+    if (!cameraChanged && !cursorChanged) return
+    presence = {
+      ...presence,
+      camera: cameraChanged ? camera : presence.camera,
+      cursor: cursorChanged ? cursor : presence.cursor,
+    }
+    schedulePresence()
+  }
+
+  /** Adopt the current stores as the replicated scene, described by `doc` when
+   *  it came from the room, or seeded from the stores when it did not */
+  const resync = (doc?: CrdtDocument) => {
+    cancelFlush()
+    baseline = captureSceneSnapshot()
+    historyDirty = false
+    crdtDoc = doc ?? seedCrdtDocument(baseline)
+    const latest = getLatestTimestamp(crdtDoc)
+    if (latest) clock = receiveClock(clock, latest)
+  }
+
+  const stopLeaseRenewal = () => {
+    if (leaseRenewTimer !== null) {
+      clearInterval(leaseRenewTimer)
+      leaseRenewTimer = null
+    }
+  }
+
+  const renewLeases = () => {
+    if (heldLeases.size > 0) {
+      client.send<LeaseRequestPayload>('lease-acquire', { objectIds: [...heldLeases] })
+    }
+  }
+
+  const acquireLease: CollaborationSession['acquireLease'] = (objectIds) => {
+    const { leases, role } = useCollaborationStore.getState()
+    if (left || role === 'viewer' || objectIds.length === 0) return false
+    if (objectIds.some(id => getForeignLease(leases, id, peerId))) return false
+
+    objectIds.forEach(id => heldLeases.add(id))
+    client.send<LeaseRequestPayload>('lease-acquire', { objectIds })
+    leaseRenewTimer ??= setInterval(renewLeases, LEASE_RENEW_INTERVAL_MS)
+    return true
+  }
+
+  const releaseLease: CollaborationSession['releaseLease'] = (objectIds) => {
+    const released = (objectIds ?? [...heldLeases]).filter(id => heldLeases.delete(id))
+    if (heldLeases.size === 0) stopLeaseRenewal()
+    if (released.length > 0 && !left) {
+      client.send<LeaseRequestPayload>('lease-release', { objectIds: released })
+    }
+  }
+
+  const handleMessage = (msg: CollabMessage) => {
+    const store = useCollaborationStore.getState()
+
+    switch (msg.type) {
+      case 'joined': {
+        const payload = msg.payload as JoinedPayload
+        store.setJoined(payload)
+        store.setLeases(payload.leases ?? [])
+        if (payload.userName) store.setUserName(payload.userName)
+        schedulePresence()
+        // Leases do not survive a reconnect; ask for ours again
+        renewLeases()
+        awaitingFull = !payload.isHost || payload.hasSnapshot === true
+        if (!awaitingFull) resync()
+        break
+      }
+      case 'peer-joined': {
+        const payload = msg.payload as PeerJoinedPayload
+        store.addPeer({ peerId: payload.peerId, userName: payload.userName, isHost: false, role: payload.role })
+        // Newcomers have not seen our camera or selection yet
+        schedulePresence()
+        break
+      }
+      case 'peer-left': {
+        store.removePeer((msg.payload as PeerLeftPayload).peerId)
+        break
+      }
+      case 'host-assigned': {
+        store.setHost(msg.peerId)
+        if (msg.peerId === peerId && awaitingFull) {
+          // Nobody is left to send us the room's scene — ours becomes it
+          awaitingFull = false
+          resync()
+        }
+        break
+      }
+      case 'request-full': {
+        if (!useCollaborationStore.getState().isHost) break
+        flush()
+        const scene = useSceneStore.getState().saveScene(options.roomId)
+        scene.shots = scene.shots?.map(stripThumbnail)
+        client.send<SceneFullPayload>('scene-full', {
+          targetPeerId: (msg.payload as RequestFullPayload).requesterPeerId,
+          scene,
+          crdt: crdtDoc,
+        })
+        break
+      }
+      case 'scene-full': {
+        const payload = msg.payload as SceneFullPayload
+        if (payload.targetPeerId !== peerId) break
+        withRemote(() => useSceneStore.getState().loadScene(payload.scene))
+        awaitingFull = false
+        resync(payload.crdt)
+        break
+      }
+      case 'scene-diff': {
+        const { ops, crdtOps = [] } = msg.payload as SceneDiffPayload
+        if (!Array.isArray(ops) || !Array.isArray(crdtOps) || awaitingFull) break
+        // Stamp pending local edits first, so that they take part in the merge
+        flush()
+        const merged = mergeRemoteCrdtOps(crdtDoc, crdtOps)
+        crdtDoc = merged.doc
+        for (const op of crdtOps) clock = receiveClock(clock, op.ts)
+        const remoteOps = [...merged.ops, ...ops.filter(op => !isCrdtReplicated(op))]
+        withRemote(() => applyRemoteOps(remoteOps))
+        baseline = applySceneDiff(baseline, remoteOps)
+        break
+      }
+      case 'presence': {
+        const payload = msg.payload as PresencePayload
+        store.updatePeer(msg.peerId, {
+          userName: payload.userName,
+          selectedIds: payload.selectedIds,
+          camera: payload.camera ?? null,
+          cursor: payload.cursor ?? null,
+        })
+        break
+      }
+      case 'lease-state': {
+        store.setLeases((msg.payload as LeaseStatePayload).leases)
+        break
+      }
+      case 'lease-denied': {
+        // Another peer got there first; their lease arrives via lease-state
+        const { objectIds } = msg.payload as LeaseDeniedPayload
+        objectIds.forEach(id => heldLeases.delete(id))
+        if (heldLeases.size === 0) stopLeaseRenewal()
+        break
+      }
+      case 'error': {
+        store.setError((msg.payload as ErrorPayload).message)
+        break
+      }
+    }
+  }
+
+  const unsubscribers = [
+    useHistoryStore.subscribe((state, prev) => {
+      if (state.entries !== prev.entries || state.index !== prev.index) {
+        if (!applyingRemote) historyDirty = true
+      }
+    }),
+    useSceneStore.subscribe((state, prev) => {
+      if (state.objects !== prev.objects || state.environment !== prev.environment) scheduleFlush()
+      if (state.selectedIds !== prev.selectedIds) {
+        presence = { ...presence, selectedIds: state.selectedIds }
+        schedulePresence()
+      }
+    }),
+    useAnimationStore.subscribe((state, prev) => {
+      if (state.tracks !== prev.tracks || state.duration !== prev.duration) scheduleFlush()
+    }),
+    useCameraStore.subscribe((state, prev) => {
+      if (state.shots !== prev.shots) scheduleFlush()
+    }),
+  ]
+
+  const teardown = () => {
+    left = true
+    cancelFlush()
+    if (presenceTimer !== null) clearTimeout(presenceTimer)
+    stopLeaseRenewal()
+    unsubscribers.forEach(unsubscribe => unsubscribe())
+    if (activeSession === session) activeSession = null
+  }
+
+  const client = new WSClient({
+    serverUrl: options.serverUrl,
+    roomId: options.roomId,
+    peerId,
+    userName: options.userName,
+    token: options.token,
+    password: options.password,
+    createSocket: options.createSocket,
+    onMessage: handleMessage,
+    onClose: ({ code, reason, willReconnect }) => {
+      if (left) return
+      const store = useCollaborationStore.getState()
+      if (willReconnect) {
+        // The server re-runs the join handshake on reconnect
+        awaitingFull = true
+        store.setStatus('reconnecting')
+        return
+      }
+      teardown()
+      store.setStatus('error')
+      store.setError(reason || `Connection closed (${code})`)
+    },
+  })
+
+  const session: CollaborationSession = {
+    client,
+    flush,
+    updatePresence,
+    acquireLease,
+    releaseLease,
+    leave: () => {
+      if (left) return
+      flush()
+      releaseLease()
+      teardown()
+      client.disconnect()
+      useCollaborationStore.getState().reset()
+    },
+  }
+
+  collab.setServerUrl(options.serverUrl)
+  collab.setUserName(options.userName)
+  collab.setSession({ roomId: options.roomId, peerId })
+  collab.setStatus('connecting')
+
+  activeSession = session
+  try {
+    client.connect()
+  } catch (err) {
+    teardown()
+    useCollaborationStore.getState().reset()
+    throw err
+  }
+  return session
+}
+
+/** Leave the active room, if any */
+export function leaveRoom(): void {
+  activeSession?.leave()
+}
@@ -0,0 +1,447 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createClock,
+  compareTimestamps,
+  tickClock,
+  receiveClock,
+  createCrdtDocument,
+  applyCrdtOps,
+  mergeCrdtDocuments,
+  getLatestTimestamp,
+  materializeObjects,
+  materializeTracks,
+  deriveCrdtOps,
+  seedCrdtDocument,
+  type CrdtSceneState,
+} from './crdt'
+import { createSceneObject } from './sceneOperations'
+// The server keeps its own copy of the merge; both must materialize the same scene
+import * as serverCrdt from '../../../server/crdt'
+import type { CrdtOp, CrdtDocument, HLCTimestamp } from '../types/collaboration'
+import type { SceneObject } from '../types/scene'
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function ts(wallTime: number, peerId = 'a', counter = 0): HLCTimestamp {
+  return { wallTime, counter, peerId }
+}
+
+/** Deterministic shuffle (mulberry32) so failures are reproducible */
+function shuffle<T>(items: T[], seed: number): T[] {
+  const result = [...items]
+  let state = seed
+  const random = () => {
+    state = (state + 0x6d2b79f5) | 0
+    let t = Math.imul(state ^ (state >>> 15), 1 | state)
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+  for (let i = result.length - 1; i > 0; i--) {
+    const j = Math.floor(random() * (i + 1))
+    ;[result[i], result[j]] = [result[j], result[i]]
+  }
+  return result
+}
+
+function materialize(doc: CrdtDocument) {
+  return { objects: materializeObjects(doc), tracks: materializeTracks(doc) }
+}
+
+function makeObject(name: string, extra: Partial<SceneObject> = {}): SceneObject {
+  return { ...createSceneObject('box', []), id: `obj_${name}`, name, ...extra }
+}
+
+const emptyState: CrdtSceneState = { objects: [], tracks: [] }
+
+describe('crdt', () => {
+  // ── 1. Clocks ────────────────────────────────────────────────────────
+
+  describe('hybrid logical clock', () => {
+    it('orders by wall time, counter, then peer id', () => {
+      expect(compareTimestamps(ts(1), ts(2))).toBeLessThan(0)
+      expect(compareTimestamps(ts(2, 'a', 1), ts(2, 'a', 0))).toBeGreaterThan(0)
+      expect(compareTimestamps(ts(2, 'b'), ts(2, 'a'))).toBeGreaterThan(0)
+      expect(compareTimestamps(ts(2, 'a'), ts(2, 'a'))).toBe(0)
+    })
+
+    it('ticks monotonically even when the wall clock goes backwards', () => {
+      const first = tickClock(createClock('a'), 1000)
+      const second = tickClock(first, 900)
+      expect(first).toEqual(ts(1000, 'a', 0))
+      expect(compareTimestamps(second, first)).toBeGreaterThan(0)
+      expect(second).toEqual(ts(1000, 'a', 1))
+    })
+
+    it('moves past remote timestamps from faster clocks', () => {
+      const local = tickClock(createClock('a'), 1000)
+      const received = receiveClock(local, ts(5000, 'b', 3), 1200)
+      expect(received).toEqual(ts(5000, 'a', 4))
+      expect(compareTimestamps(tickClock(received, 1300), ts(5000, 'b', 3))).toBeGreaterThan(0)
+    })
+
+    it('resets the counter when the wall clock advances', () => {
+      expect(receiveClock(ts(1000, 'a', 7), ts(900, 'b', 2), 2000)).toEqual(ts(2000, 'a', 0))
+      expect(receiveClock(ts(1000, 'a', 7), ts(900, 'b', 2), 500)).toEqual(ts(1000, 'a', 8))
+    })
+  })
+
+  // ── 2. Object semantics ──────────────────────────────────────────────
+
+  describe('objects', () => {
+    it('materializes added objects in creation order', () => {
+      const doc = applyCrdtOps(createCrdtDocument(), [
+        { type: 'add', id: 'obj_b', object: makeObject('b'), ts: ts(2) },
+        { type: 'add', id: 'obj_a', object: makeObject('a'), ts: ts(1) },
+      ])
+      expect(materializeObjects(doc).map(o => o.name)).toEqual(['a', 'b'])
+    })
+
+    it('resolves concurrent field writes by last writer', () => {
+      const doc = applyCrdtOps(createCrdtDocument(), [
+        { type: 'add', id: 'obj_a', object: makeObject('a'), ts: ts(1) },
+        { type: 'update-field', id: 'obj_a', field: 'color', value: '#ff0000', ts: ts(5, 'b') },
+        { type: 'update-field', id: 'obj_a', field: 'color', value: '#00ff00', ts: ts(5, 'a') },
+      ])
+      expect(materializeObjects(doc)[0].color).toBe('#ff0000')
+    })
+
+    it('merges concurrent edits to different fields of the same object', () => {
+      const doc = applyCrdtOps(createCrdtDocument(), [
+        { type: 'add', id: 'obj_a', object: makeObject('a'), ts: ts(1) },
+        { type: 'update-field', id: 'obj_a', field: 'name', value: 'Renamed', ts: ts(3, 'a') },
+        { type: 'update-field', id: 'obj_a', field: 'position', value: { x: 1, y: 2, z: 3 }, ts: ts(3, 'b') },
+      ])
+      expect(materializeObjects(doc)[0]).toMatchObject({ name: 'Renamed', position: { x: 1, y: 2, z: 3 } })
+    })
+
+    it('keeps tombstones so late updates cannot resurrect removed objects', () => {
+      const doc = applyCrdtOps(createCrdtDocument(), [
+        { type: 'add', id: 'obj_a', object: makeObject('a'), ts: ts(1) },
+        { type: 'remove', id: 'obj_a', ts: ts(3) },
+        { type: 'update-field', id: 'obj_a', field: 'name', value: 'Late', ts: ts(4, 'b') },
+      ])
+      expect(materializeObjects(doc)).toEqual([])
+      expect(doc.objects.obj_a.removedAt).toEqual(ts(3))
+    })
+
+    it('lets a newer add restore a removed object', () => {
+      const doc = applyCrdtOps(createCrdtDocument(), [
+        { type: 'add', id: 'obj_a', object: makeObject('a'), ts: ts(1) },
+        { type: 'remove', id: 'obj_a', ts: ts(3) },
+        { type: 'add', id: 'obj_a', object: makeObject('a', { name: 'Restored' }), ts: ts(5) },
+      ])
+      expect(materializeObjects(doc).map(o => o.name)).toEqual(['Restored'])
+    })
+
+    it('ignores updates that arrive before the add until the add lands', () => {
+      let doc = applyCrdtOps(createCrdtDocument(), [
+        { type: 'update-field', id: 'obj_a', field: 'name', value: 'Edited', ts: ts(4) },
+      ])
+      expect(materializeObjects(doc)).toEqual([])
+
+      doc = applyCrdtOps(doc, [{ type: 'add', id: 'obj_a', object: makeObject('a'), ts: ts(2) }])
+      expect(materializeObjects(doc)[0].name).toBe('Edited')
+    })
+
+    it('drops unset fields', () => {
+      const doc = applyCrdtOps(createCrdtDocument(), [
+        { type: 'add', id: 'obj_a', object: makeObject('a', { gltfUrl: 'blob:x' }), ts: ts(1) },
+        { type: 'update-field', id: 'obj_a', field: 'gltfUrl', value: null, ts: ts(2) },
+      ])
+      expect(materializeObjects(doc)[0]).not.toHaveProperty('gltfUrl')
+    })
+  })
+
+  // ── 3. Reparenting ───────────────────────────────────────────────────
+
+  describe('reparent', () => {
+    const base: CrdtOp[] = [
+      { type: 'add', id: 'obj_a', object: makeObject('a'), ts: ts(1) },
+      { type: 'add', id: 'obj_b', object: makeObject('b'), ts: ts(2) },
+    ]
+
+    it('applies the latest parent assignment', () => {
+      const doc = applyCrdtOps(createCrdtDocument(), [
+        ...base,
+        { type: 'reparent', id: 'obj_b', parentId: 'obj_a', ts: ts(3) },
+        { type: 'reparent', id: 'obj_b', parentId: null, ts: ts(4) },
+      ])
+      expect(materializeObjects(doc)[1]).not.toHaveProperty('parentId')
+    })
+
+    it('breaks cycles from concurrent reparents by discarding the newest', () => {
+      const doc = applyCrdtOps(createCrdtDocument(), [
+        ...base,
+        { type: 'reparent', id: 'obj_b', parentId: 'obj_a', ts: ts(3, 'a') },
+        { type: 'reparent', id: 'obj_a', parentId: 'obj_b', ts: ts(3, 'b') },
+      ])
+      const objects = materializeObjects(doc)
+      expect(objects.find(o => o.id === 'obj_a')).not.toHaveProperty('parentId')
+      expect(objects.find(o => o.id === 'obj_b')!.parentId).toBe('obj_a')
+    })
+
+    it('moves children of a removed parent to the root', () => {
+      const doc = applyCrdtOps(createCrdtDocument(), [
+        ...base,
+        { type: 'reparent', id: 'obj_b', parentId: 'obj_a', ts: ts(3) },
+        { type: 'remove', id: 'obj_a', ts: ts(4) },
+      ])
+      expect(materializeObjects(doc)).toEqual([expect.not.objectContaining({ parentId: expect.anything() })])
+    })
+  })
+
+  // ── 4. Keyframes ─────────────────────────────────────────────────────
+
+  describe('keyframes', () => {
+    const key = (keyframeId: string, time: number, at: HLCTimestamp): CrdtOp => ({
+      type: 'keyframe',
+      action: 'add',
+      trackId: 'track_1',
+      objectId: 'obj_a',
+      keyframeId,
+      fields: { time, property: 'position', value: { x: time, y: 0, z: 0 }, easing: 'linear' },
+      ts: at,
+    })
+
+    it('groups keyframes into time-sorted tracks', () => {
+      const doc = applyCrdtOps(createCrdtDocument(), [key('k2', 2, ts(1)), key('k1', 1, ts(2))])
+      expect(materializeTracks(doc)).toEqual([{
+        id: 'track_1',
+        objectId: 'obj_a',
+        keyframes: [
+          { id: 'k1', time: 1, property: 'position', value: { x: 1, y: 0, z: 0 }, easing: 'linear' },
+          { id: 'k2', time: 2, property: 'position', value: { x: 2, y: 0, z: 0 }, easing: 'linear' },
+        ],
+      }])
+    })
+
+    it('resolves concurrent keyframe edits per field and honours tombstones', () => {
+      const doc = applyCrdtOps(createCrdtDocument(), [
+        key('k1', 1, ts(1)),
+        key('k2', 2, ts(1, 'b')),
+        { type: 'keyframe', action: 'update', trackId: 'track_1', objectId: 'obj_a', keyframeId: 'k1', fields: { easing: 'easeIn' }, ts: ts(2, 'a') },
+        { type: 'keyframe', action: 'update', trackId: 'track_1', objectId: 'obj_a', keyframeId: 'k1', fields: { time: 3 }, ts: ts(2, 'b') },
+        { type: 'keyframe', action: 'remove', trackId: 'track_1', objectId: 'obj_a', keyframeId: 'k2', ts: ts(3) },
+        { type: 'keyframe', action: 'update', trackId: 'track_1', objectId: 'obj_a', keyframeId: 'k2', fields: { time: 9 }, ts: ts(4) },
+      ])
+      const [track] = materializeTracks(doc)
+      expect(track.keyframes).toHaveLength(1)
+      expect(track.keyframes[0]).toMatchObject({ id: 'k1', time: 3, easing: 'easeIn' })
+    })
+
+    it('drops tracks whose keyframes were all removed', () => {
+      const doc = applyCrdtOps(createCrdtDocument(), [
+        key('k1', 1, ts(1)),
+        { type: 'keyframe', action: 'remove', trackId: 'track_1', objectId: 'obj_a', keyframeId: 'k1', ts: ts(2) },
+      ])
+      expect(materializeTracks(doc)).toEqual([])
+    })
+  })
+
+  // ── 5. deriveCrdtOps ─────────────────────────────────────────────────
+
+  describe('deriveCrdtOps', () => {
+    it('emits add, update-field, reparent and remove ops with increasing timestamps', () => {
+      const a = makeObject('a')
+      const b = makeObject('b')
+      const prev: CrdtSceneState = { objects: [a, b], tracks: [] }
+      const next: CrdtSceneState = {
+        objects: [{ ...a, name: 'A2', parentId: 'obj_c' }, makeObject('c')],
+        tracks: [],
+      }
+
+      const { ops, clock } = deriveCrdtOps(prev, next, createClock('a'), 1000)
+
+      expect(ops.map(op => op.type)).toEqual(['remove', 'update-field', 'reparent', 'add'])
+      expect(ops[1]).toMatchObject({ id: 'obj_a', field: 'name', value: 'A2' })
+      expect(ops[2]).toMatchObject({ id: 'obj_a', parentId: 'obj_c' })
+      for (let i = 1; i < ops.length; i++) {
+        expect(compareTimestamps(ops[i].ts, ops[i - 1].ts)).toBeGreaterThan(0)
+      }
+      expect(clock).toEqual(ops[ops.length - 1].ts)
+    })
+
+    it('emits keyframe ops for added, changed and removed keyframes', () => {
+      const prev: CrdtSceneState = {
+        objects: [],
+        tracks: [{ id: 't1', objectId: 'o1', keyframes: [
+          { id: 'k1', time: 0, property: 'position', value: { x: 0, y: 0, z: 0 }, easing: 'linear' },
+          { id: 'k2', time: 1, property: 'position', value: { x: 1, y: 0, z: 0 }, easing: 'linear' },
+        ] }],
+      }
+      const next: CrdtSceneState = {
+        objects: [],
+        tracks: [{ id: 't1', objectId: 'o1', keyframes: [
+          { id: 'k1', time: 0, property: 'position', value: { x: 0, y: 0, z: 0 }, easing: 'easeOut' },
+          { id: 'k3', time: 2, property: 'scale', value: { x: 2, y: 2, z: 2 }, easing: 'linear' },
+        ] }],
+      }
+
+      const { ops } = deriveCrdtOps(prev, next, createClock('a'), 1000)
+
+      expect(ops).toEqual([
+        expect.objectContaining({ type: 'keyframe', action: 'remove', keyframeId: 'k2' }),
+        expect.objectContaining({ type: 'keyframe', action: 'update', keyframeId: 'k1', fields: { easing: 'easeOut' } }),
+        expect.objectContaining({ type: 'keyframe', action: 'add', keyframeId: 'k3', trackId: 't1', objectId: 'o1' }),
+      ])
+    })
+
+    it('round-trips a scene through ops and materialization', () => {
+      const a = makeObject('a')
+      const child = makeObject('child', { parentId: a.id })
+      const next: CrdtSceneState = {
+        objects: [a, child],
+        tracks: [{ id: 't1', objectId: a.id, keyframes: [
+          { id: 'k1', time: 0, property: 'rotation', value: { x: 0, y: 1, z: 0 }, easing: 'easeInOut' },
+        ] }],
+      }
+
+      const { ops } = deriveCrdtOps(emptyState, next, createClock('a'), 1000)
+      const doc = applyCrdtOps(createCrdtDocument(), JSON.parse(JSON.stringify(ops)))
+
+      expect(materialize(doc)).toEqual(next)
+    })
+
+    it('seeds a document that any later edit overrides', () => {
+      const a = makeObject('a')
+      const doc = seedCrdtDocument({ objects: [a, makeObject('b')], tracks: [] })
+      expect(materialize(doc).objects.map(o => o.name)).toEqual(['a', 'b'])
+
+      const edited = applyCrdtOps(doc, [{ type: 'update-field', id: a.id, field: 'name', value: 'c', ts: ts(1) }])
+      expect(materializeObjects(edited)[0].name).toBe('c')
+    })
+  })
+
+  // ── 6. Convergence ───────────────────────────────────────────────────
+
+  describe('convergence', () => {
+    /** Three peers make concurrent edits from a shared starting scene */
+    function concurrentStreams(): CrdtOp[] {
+      const a = makeObject('a')
+      const b = makeObject('b')
+      const shared: CrdtSceneState = {
+        objects: [a, b],
+        tracks: [{ id: 't1', objectId: a.id, keyframes: [
+          { id: 'k1', time: 0, property: 'position', value: { x: 0, y: 0, z: 0 }, easing: 'linear' },
+        ] }],
+      }
+      const setup = deriveCrdtOps(emptyState, shared, createClock('setup'), 1000).ops
+
+      const peer1 = deriveCrdtOps(shared, {
+        objects: [{ ...a, color: '#111111', parentId: b.id }, b],
+        tracks: [{ id: 't1', objectId: a.id, keyframes: [
+          { id: 'k1', time: 0.5, property: 'position', value: { x: 0, y: 0, z: 0 }, easing: 'linear' },
+        ] }],
+      }, createClock('p1'), 2000).ops
+
+      const peer2 = deriveCrdtOps(shared, {
+        objects: [{ ...a, color: '#222222' }, { ...b, parentId: a.id }, makeObject('c')],
+        tracks: [],
+      }, createClock('p2'), 2000).ops
+
+      const peer3 = deriveCrdtOps(shared, {
+        objects: [{ ...a, name: 'Hero' }],
+        tracks: [{ id: 't1', objectId: a.id, keyframes: [
+          { id: 'k1', time: 0, property: 'position', value: { x: 0, y: 0, z: 0 }, easing: 'easeOut' },
+          { id: 'k9', time: 3, property: 'position', value: { x: 5, y: 0, z: 0 }, easing: 'linear' },
+        ] }],
+      }, createClock('p3'), 2000).ops
+
+      return [...setup, ...peer1, ...peer2, ...peer3]
+    }
+
+    it('converges for any delivery order', () => {
+      const ops = concurrentStreams()
+      const reference = materialize(applyCrdtOps(createCrdtDocument(), ops))
+
+      for (let seed = 1; seed <= 25; seed++) {
+        const doc = applyCrdtOps(createCrdtDocument(), shuffle(ops, seed))
+        expect(materialize(doc)).toEqual(reference)
+      }
+    })
+
+    it('converges when a peer removes a keyframe\'s tangent slopes', () => {
+      const curved: CrdtSceneState = {
+        objects: [],
+        tracks: [{ id: 't1', objectId: 'obj_a', keyframes: [
+          { id: 'k1', time: 0, property: 'position', value: { x: 0, y: 0, z: 0 }, easing: 'linear', inSlope: 1, outSlope: 2 },
+        ] }],
+      }
+      const setup = deriveCrdtOps(emptyState, curved, createClock('setup'), 1000).ops
+      const [k1] = curved.tracks[0].keyframes
+      const flat = { ...k1 }
+      delete flat.inSlope
+      delete flat.outSlope
+      const peer1 = deriveCrdtOps(curved, {
+        objects: [],
+        tracks: [{ ...curved.tracks[0], keyframes: [flat] }],
+      }, createClock('p1'), 2000).ops
+      const peer2 = deriveCrdtOps(curved, {
+        objects: [],
+        tracks: [{ ...curved.tracks[0], keyframes: [{ ...k1, easing: 'easeIn' }] }],
+      }, createClock('p2'), 2000).ops
+
+      expect(peer1).toEqual([expect.objectContaining({ action: 'update', fields: { inSlope: null, outSlope: null } })])
+      const ops = JSON.parse(JSON.stringify([...setup, ...peer1, ...peer2])) as CrdtOp[]
+      for (let seed = 1; seed <= 25; seed++) {
+        const [track] = materializeTracks(applyCrdtOps(createCrdtDocument(), shuffle(ops, seed)))
+        expect(track.keyframes).toEqual([{ ...flat, easing: 'easeIn' }])
+      }
+    })
+
+    it('is idempotent under duplicated delivery', () => {
+      const ops = concurrentStreams()
+      const once = applyCrdtOps(createCrdtDocument(), ops)
+      const twice = applyCrdtOps(createCrdtDocument(), shuffle([...ops, ...ops], 7))
+      expect(materialize(twice)).toEqual(materialize(once))
+    })
+
+    it('reaches the expected merged scene', () => {
+      const { objects, tracks } = materialize(applyCrdtOps(createCrdtDocument(), concurrentStreams()))
+
+      // Peer 3 removed b at the same wall time; p3 > p1/p2 so its tombstone wins
+      expect(objects.map(o => o.name)).toEqual(['Hero', 'c'])
+      // p2's colour write beats p1's (same wall time, higher peer id)
+      expect(objects[0].color).toBe('#222222')
+      // a's parent b was removed, so a sits at the root
+      expect(objects[0]).not.toHaveProperty('parentId')
+      // p2 removed k1; concurrent edits from p1 and p3 do not resurrect it
+      expect(tracks).toEqual([{ id: 't1', objectId: objects[0].id, keyframes: [
+        expect.objectContaining({ id: 'k9', time: 3 }),
+      ] }])
+    })
+
+    it('state-based merge matches op-based delivery', () => {
+      const ops = concurrentStreams()
+      const half = Math.floor(ops.length / 2)
+      const left = applyCrdtOps(createCrdtDocument(), ops.slice(0, half))
+      const right = applyCrdtOps(createCrdtDocument(), ops.slice(half))
+
+      const merged = mergeCrdtDocuments(left, right)
+
+      expect(materialize(merged)).toEqual(materialize(applyCrdtOps(createCrdtDocument(), ops)))
+      expect(materialize(mergeCrdtDocuments(right, left))).toEqual(materialize(merged))
+    })
+
+    it('materializes the same scene as the server\'s copy of the merge', () => {
+      const ops = JSON.parse(JSON.stringify(concurrentStreams())) as CrdtOp[]
+      for (let seed = 1; seed <= 10; seed++) {
+        const shuffled = shuffle(ops, seed)
+        const doc = applyCrdtOps(createCrdtDocument(), shuffled)
+        const serverDoc = serverCrdt.applyCrdtOps(serverCrdt.createCrdtDocument(), shuffled)
+        expect(serverCrdt.materializeObjects(serverDoc)).toEqual(materializeObjects(doc))
+        expect(serverCrdt.materializeTracks(serverDoc)).toEqual(materializeTracks(doc))
+      }
+
+      const seeded = seedCrdtDocument(materialize(applyCrdtOps(createCrdtDocument(), ops)))
+      const state = materialize(seeded)
+      expect(serverCrdt.seedCrdtDocument(state.objects, state.tracks)).toEqual(seeded)
+    })
+
+    it('reports the latest timestamp in a document', () => {
+      const doc = applyCrdtOps(createCrdtDocument(), concurrentStreams())
+      expect(getLatestTimestamp(doc)).toEqual(expect.objectContaining({ wallTime: 2000, peerId: 'p3' }))
+      expect(getLatestTimestamp(createCrdtDocument())).toBeNull()
+    })
+  })
+})
@@ -0,0 +1,399 @@
+/** Conflict-free replicated scene state — pure functions.
+ *
+ *  Objects and keyframes form LWW element sets: each element keeps the latest
+ *  add and remove timestamps (a removal is a tombstone) and one last-writer-wins
+ *  register per field. Every merge takes a per-register maximum, so applying
+ *  the same ops in any order, any number of times, converges to the same state. */
+
+import type {
+  HLCTimestamp,
+  CrdtOp,
+  CrdtRegister,
+  CrdtElement,
+  CrdtKeyframeElement,
+  CrdtKeyframeFields,
+  CrdtDocument,
+} from '../types/collaboration'
+import type { SceneObject, AnimationTrack, AnimationKeyframe } from '../types/scene'
+import { deepEqual } from './sceneDiff'
+
+// ── 1. Hybrid Logical Clock ───────────────────────────────────────────
+
+export function createClock(peerId: string): HLCTimestamp {
+  return { wallTime: 0, counter: 0, peerId }
+}
+
+/** Total order over timestamps: wall time, then counter, then peer id */
+export function compareTimestamps(a: HLCTimestamp, b: HLCTimestamp): number {
+  if (a.wallTime !== b.wallTime) return a.wallTime - b.wallTime
+  if (a.counter !== b.counter) return a.counter - b.counter
+  return a.peerId < b.peerId ? -1 : a.peerId > b.peerId ? 1 : 0
+}
+
+function maxTimestamp(a: HLCTimestamp | null, b: HLCTimestamp | null): HLCTimestamp | null {
+  if (!a) return b
+  if (!b) return a
+  return compareTimestamps(a, b) >= 0 ? a : b
+}
+
+/** Advance the clock for a local event */
+export function tickClock(clock: HLCTimestamp, now: number = Date.now()): HLCTimestamp {
+  const wallTime = Math.max(clock.wallTime, now)
+  const counter = wallTime === clock.wallTime ? clock.counter + 1 : 0
+  return { wallTime, counter, peerId: clock.peerId }
+}
+
+/** Advance the clock past a timestamp received from a peer */
+export function receiveClock(
+  clock: HLCTimestamp,
+  remote: HLCTimestamp,
+  now: number = Date.now(),
+): HLCTimestamp {
+  const wallTime = Math.max(clock.wallTime, remote.wallTime, now)
+  let counter = 0
+  if (wallTime === clock.wallTime && wallTime === remote.wallTime) {
+    counter = Math.max(clock.counter, remote.counter) + 1
+  } else if (wallTime === clock.wallTime) {
+    counter = clock.counter + 1
+  } else if (wallTime === remote.wallTime) {
+    counter = remote.counter + 1
+  }
+  return { wallTime, counter, peerId: clock.peerId }
+}
+
+// ── 2. Document ───────────────────────────────────────────────────────
+
+export function createCrdtDocument(): CrdtDocument {
+  return { objects: {}, keyframes: {} }
+}
+
+function mergeRegister(current: CrdtRegister | undefined, incoming: CrdtRegister): CrdtRegister {
+  if (!current) return incoming
+  return compareTimestamps(incoming.ts, current.ts) > 0 ? incoming : current
+}
+
+function setFields(
+  fields: Record<string, CrdtRegister>,
+  values: Record<string, unknown>,
+  ts: HLCTimestamp,
+): Record<string, CrdtRegister> {
+  const merged = { ...fields }
+  for (const [field, value] of Object.entries(values)) {
+    if (field === 'id') continue
+    merged[field] = mergeRegister(merged[field], { value: value ?? null, ts })
+  }
+  return merged
+}
+
+function emptyElement(id: string): CrdtElement {
+  return { id, addedAt: null, removedAt: null, fields: {} }
+}
+
+export function isElementVisible(element: CrdtElement): boolean {
+  if (!element.addedAt) return false
+  return !element.removedAt || compareTimestamps(element.addedAt, element.removedAt) > 0
+}
+
+function applyObjectOp(objects: Record<string, CrdtElement>, op: Exclude<CrdtOp, { type: 'keyframe' }>) {
+  const element = objects[op.id] ?? emptyElement(op.id)
+  let next: CrdtElement
+
+  switch (op.type) {
+    case 'add':
+      next = {
+        ...element,
+        addedAt: maxTimestamp(element.addedAt, op.ts),
+        fields: setFields(element.fields, { parentId: null, ...op.object }, op.ts),
+      }
+      break
+    case 'remove':
+      next = { ...element, removedAt: maxTimestamp(element.removedAt, op.ts) }
+      break
+    case 'update-field':
+      next = { ...element, fields: setFields(element.fields, { [op.field]: op.value }, op.ts) }
+      break
+    case 'reparent':
+      next = { ...element, fields: setFields(element.fields, { parentId: op.parentId }, op.ts) }
+      break
+  }
+
+  return { ...objects, [op.id]: next }
+}
+
+function applyKeyframeOp(
+  keyframes: Record<string, CrdtKeyframeElement>,
+  op: Extract<CrdtOp, { type: 'keyframe' }>,
+) {
+  const element: CrdtKeyframeElement = keyframes[op.keyframeId]
+    ?? { ...emptyElement(op.keyframeId), trackId: op.trackId, objectId: op.objectId }
+  let next: CrdtKeyframeElement
+
+  switch (op.action) {
+    case 'add':
+      next = {
+        ...element,
+        addedAt: maxTimestamp(element.addedAt, op.ts),
+        fields: setFields(element.fields, op.fields ?? {}, op.ts),
+      }
+      break
+    case 'update':
+      next = { ...element, fields: setFields(element.fields, op.fields ?? {}, op.ts) }
+      break
+    case 'remove':
+      next = { ...element, removedAt: maxTimestamp(element.removedAt, op.ts) }
+      break
+  }
+
+  return { ...keyframes, [op.keyframeId]: next }
+}
+
+/** Apply ops to a document. Order-independent and idempotent. */
+export function applyCrdtOps(doc: CrdtDocument, ops: CrdtOp[]): CrdtDocument {
+  let objects = doc.objects
+  let keyframes = doc.keyframes
+  for (const op of ops) {
+    if (op.type === 'keyframe') {
+      keyframes = applyKeyframeOp(keyframes, op)
+    } else {
+      objects = applyObjectOp(objects, op)
+    }
+  }
+  return objects === doc.objects && keyframes === doc.keyframes ? doc : { objects, keyframes }
+}
+
+function mergeElements<E extends CrdtElement>(a: E, b: E): E {
+  const fields = { ...a.fields }
+  for (const [field, register] of Object.entries(b.fields)) {
+    fields[field] = mergeRegister(fields[field], register)
+  }
+  return {
+    ...a,
+    addedAt: maxTimestamp(a.addedAt, b.addedAt),
+    removedAt: maxTimestamp(a.removedAt, b.removedAt),
+    fields,
+  }
+}
+
+function mergeElementSets<E extends CrdtElement>(a: Record<string, E>, b: Record<string, E>): Record<string, E> {
+  const merged = { ...a }
+  for (const [id, element] of Object.entries(b)) {
+    merged[id] = merged[id] ? mergeElements(merged[id], element) : element
+  }
+  return merged
+}
+
+/** State-based merge of two replicas (e.g. a stored room snapshot and a peer) */
+export function mergeCrdtDocuments(a: CrdtDocument, b: CrdtDocument): CrdtDocument {
+  return {
+    objects: mergeElementSets(a.objects, b.objects),
+    keyframes: mergeElementSets(a.keyframes, b.keyframes),
+  }
+}
+
+/** Highest timestamp stored in a document, for seeding a clock after a merge */
+export function getLatestTimestamp(doc: CrdtDocument): HLCTimestamp | null {
+  let latest: HLCTimestamp | null = null
+  for (const element of [...Object.values(doc.objects), ...Object.values(doc.keyframes)]) {
+    latest = maxTimestamp(latest, element.addedAt)
+    latest = maxTimestamp(latest, element.removedAt)
+    for (const register of Object.values(element.fields)) {
+      latest = maxTimestamp(latest, register.ts)
+    }
+  }
+  return latest
+}
+
+// ── 3. Materialization ────────────────────────────────────────────────
+
+function readFields(element: CrdtElement): Record<string, unknown> {
+  const values: Record<string, unknown> = {}
+  for (const [field, register] of Object.entries(element.fields)) {
+    if (register.value !== null) values[field] = register.value
+  }
+  return values
+}
+
+function byAddedAt(a: CrdtElement, b: CrdtElement): number {
+  return compareTimestamps(a.addedAt!, b.addedAt!)
+}
+
+/** Parent ids after dropping missing parents and breaking cycles. When
+ *  concurrent reparents form a cycle, the most recent reparent in it loses. */
+function resolveParents(elements: CrdtElement[]): Map<string, string> {
+  const parents = new Map<string, string>()
+  for (const element of elements) {
+    const parentId = element.fields.parentId?.value
+    if (typeof parentId === 'string') parents.set(element.id, parentId)
+  }
+  const visible = new Set(elements.map(e => e.id))
+  for (const [id, parentId] of parents) {
+    if (!visible.has(parentId)) parents.delete(id)
+  }
+
+  const byId = new Map(elements.map(e => [e.id, e]))
+  for (const element of elements) {
+    const path: string[] = []
+    let current: string | undefined = element.id
+    while (current !== undefined && !path.includes(current)) {
+      path.push(current)
+      current = parents.get(current)
+    }
+    if (current === undefined) continue
+
+    const cycle = path.slice(path.indexOf(current))
+    const newest = cycle.reduce((a, b) =>
+      compareTimestamps(byId.get(a)!.fields.parentId.ts, byId.get(b)!.fields.parentId.ts) >= 0 ? a : b)
+    parents.delete(newest)
+  }
+
+  return parents
+}
+
+/** Visible objects in creation order */
+export function materializeObjects(doc: CrdtDocument): SceneObject[] {
+  const elements = Object.values(doc.objects).filter(isElementVisible).sort(byAddedAt)
+  const parents = resolveParents(elements)
+
+  return elements.map(element => {
+    const values = readFields(element)
+    delete values.parentId
+    const parentId = parents.get(element.id)
+    return { ...values, id: element.id, ...(parentId ? { parentId } : {}) } as SceneObject
+  })
+}
+
+/** Visible keyframes grouped into tracks, sorted by time. Tracks are ordered by
+ *  their earliest keyframe and exist only while they contain keyframes. */
+export function materializeTracks(doc: CrdtDocument): AnimationTrack[] {
+  const tracks = new Map<string, AnimationTrack>()
+  const elements = Object.values(doc.keyframes).filter(isElementVisible).sort(byAddedAt)
+
+  for (const element of elements) {
+    let track = tracks.get(element.trackId)
+    if (!track) {
+      track = { id: element.trackId, objectId: element.objectId, keyframes: [] }
+      tracks.set(element.trackId, track)
+    }
+    track.keyframes.push({ ...readFields(element), id: element.id } as AnimationKeyframe)
+  }
+
+  for (const track of tracks.values()) {
+    track.keyframes.sort((a, b) => a.time - b.time || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+  }
+  return [...tracks.values()]
+}
+
+// ── 4. Deriving Ops From Local Edits ──────────────────────────────────
+
+export interface CrdtSceneState {
+  objects: SceneObject[]
+  tracks: AnimationTrack[]
+}
+
+interface FlatKeyframe {
+  trackId: string
+  objectId: string
+  keyframe: AnimationKeyframe
+}
+
+function flattenKeyframes(tracks: AnimationTrack[]): Map<string, FlatKeyframe> {
+  const flat = new Map<string, FlatKeyframe>()
+  for (const track of tracks) {
+    for (const keyframe of track.keyframes) {
+      flat.set(keyframe.id, { trackId: track.id, objectId: track.objectId, keyframe })
+    }
+  }
+  return flat
+}
+
+function keyframeFields(keyframe: AnimationKeyframe): CrdtKeyframeFields {
+  const fields: Partial<AnimationKeyframe> = { ...keyframe }
+  delete fields.id
+  return fields as CrdtKeyframeFields
+}
+
+/** Ops that turn `prev` into `next`, stamped with successive ticks of `clock` */
+export function deriveCrdtOps(
+  prev: CrdtSceneState,
+  next: CrdtSceneState,
+  clock: HLCTimestamp,
+  now: number = Date.now(),
+): { ops: CrdtOp[]; clock: HLCTimestamp } {
+  const ops: CrdtOp[] = []
+  let ts = clock
+  const stamp = () => {
+    ts = tickClock(ts, now)
+    return ts
+  }
+
+  // Objects
+  const prevObjects = new Map(prev.objects.map(o => [o.id, o]))
+  const nextIds = new Set(next.objects.map(o => o.id))
+  for (const obj of prev.objects) {
+    if (!nextIds.has(obj.id)) ops.push({ type: 'remove', id: obj.id, ts: stamp() })
+  }
+  for (const obj of next.objects) {
+    const before = prevObjects.get(obj.id)
+    if (!before) {
+      ops.push({ type: 'add', id: obj.id, object: structuredClone(obj), ts: stamp() })
+      continue
+    }
+    if (before === obj) continue
+
+    const prevRec = before as unknown as Record<string, unknown>
+    const nextRec = obj as unknown as Record<string, unknown>
+    for (const field of new Set([...Object.keys(prevRec), ...Object.keys(nextRec)])) {
+      if (field === 'id' || deepEqual(prevRec[field], nextRec[field])) continue
+      if (field === 'parentId') {
+        ops.push({ type: 'reparent', id: obj.id, parentId: obj.parentId ?? null, ts: stamp() })
+      } else {
+        ops.push({
+          type: 'update-field', id: obj.id, field, value: structuredClone(nextRec[field] ?? null), ts: stamp(),
+        })
+      }
+    }
+  }
+
+  // Keyframes
+  const prevKeyframes = flattenKeyframes(prev.tracks)
+  const nextKeyframes = flattenKeyframes(next.tracks)
+  for (const [id, entry] of prevKeyframes) {
+    if (!nextKeyframes.has(id)) {
+      ops.push({
+        type: 'keyframe', action: 'remove', trackId: entry.trackId, objectId: entry.objectId, keyframeId: id, ts: stamp(),
+      })
+    }
+  }
+  for (const [id, entry] of nextKeyframes) {
+    const before = prevKeyframes.get(id)
+    const base = { type: 'keyframe' as const, trackId: entry.trackId, objectId: entry.objectId, keyframeId: id }
+    if (!before) {
+      ops.push({ ...base, action: 'add', fields: structuredClone(keyframeFields(entry.keyframe)), ts: stamp() })
+      continue
+    }
+    if (before.keyframe === entry.keyframe) continue
+
+    // Fields the keyframe lost (e.g. tangent slopes) are sent as null, which unsets them
+    const changes: Record<string, unknown> = {}
+    const prevFields = keyframeFields(before.keyframe) as Record<string, unknown>
+    const nextFields = keyframeFields(entry.keyframe) as Record<string, unknown>
+    for (const field of new Set([...Object.keys(prevFields), ...Object.keys(nextFields)])) {
+      if (!deepEqual(prevFields[field], nextFields[field])) {
+        changes[field] = structuredClone(nextFields[field] ?? null)
+      }
+    }
+    if (Object.keys(changes).length > 0) {
+      ops.push({ ...base, action: 'update', fields: changes, ts: stamp() })
+    }
+  }
+
+  return { ops, clock: ts }
+}
+
+/** Document holding `state` at timestamps below any real edit, so every later
+ *  op wins over it. Seeds a room from a plain scene (one created before it was
+ *  shared, or stored without a document). */
+export function seedCrdtDocument(state: CrdtSceneState): CrdtDocument {
+  const { ops } = deriveCrdtOps({ objects: [], tracks: [] }, state, createClock(''), 0)
+  return applyCrdtOps(createCrdtDocument(), ops)
+}
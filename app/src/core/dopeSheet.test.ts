@@ -0,0 +1,321 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  snapToFrame,
+  getDopeSheetRows,
+  selectKeyframesInBox,
+  isKeyframeSelected,
+  moveKeyframes,
+  scaleKeyframes,
+  removeKeyframes,
+  copyKeyframes,
+  pasteKeyframes,
+  type KeyframeRef,
+} from './dopeSheet'
+import { CAMERA_TRACK_OBJECT_ID, ENVIRONMENT_TRACK_OBJECT_ID, resetKeyframeIdCounter } from './animation'
+import type { AnimatableProperty, AnimationKeyframe, AnimationTrack } from '../types/scene'
+
+function kf(id: string, time: number, property: AnimatableProperty = 'position', x = 0): AnimationKeyframe {
+  return { id, time, property, value: { x, y: 0, z: 0 }, easing: 'linear' }
+}
+
+function times(track: AnimationTrack): number[] {
+  return track.keyframes.map(k => k.time)
+}
+
+// Box: position keys at 0, 1, 2 and a rotation key at 1; camera: position and target at 0.5
+function makeTracks(): AnimationTrack[] {
+  return [
+    {
+      id: 'cam',
+      objectId: CAMERA_TRACK_OBJECT_ID,
+      keyframes: [kf('c1', 0.5, 'cameraPosition'), kf('c2', 0.5, 'cameraTarget')],
+    },
+    {
+      id: 'box',
+      objectId: 'box-obj',
+      keyframes: [kf('p0', 0, 'position', 0), kf('p1', 1, 'position', 1), kf('r1', 1, 'rotation'), kf('p2', 2, 'position', 2)],
+    },
+  ]
+}
+
+const OPTIONS = { duration: 5 }
+
+describe('dopeSheet', () => {
+  beforeEach(() => {
+    resetKeyframeIdCounter()
+  })
+
+  describe('snapToFrame', () => {
+    it('rounds to the nearest frame', () => {
+      expect(snapToFrame(0.51, 24)).toBeCloseTo(12 / 24)
+      expect(snapToFrame(1.01, 30)).toBeCloseTo(1)
+    })
+
+    it('leaves the time alone without a frame rate', () => {
+      expect(snapToFrame(0.51, 0)).toBe(0.51)
+    })
+  })
+
+  describe('getDopeSheetRows', () => {
+    it('lists a summary row per track followed by its animated properties', () => {
+      const rows = getDopeSheetRows(makeTracks())
+      expect(rows.map(r => `${r.trackId}:${r.property ?? 'summary'}`)).toEqual([
+        'cam:summary', 'cam:cameraPosition', 'cam:cameraTarget',
+        'box:summary', 'box:position', 'box:rotation',
+      ])
+      expect(rows[3].keyframes).toHaveLength(4)
+      expect(rows[4].keyframes.map(k => k.id)).toEqual(['p0', 'p1', 'p2'])
+    })
+
+    it('lists property paths after the transform', () => {
+      const rows = getDopeSheetRows([{
+        id: 'box',
+        objectId: 'box-obj',
+        keyframes: [kf('v', 0, 'visible'), kf('o', 0, 'material.opacity'), kf('p', 1)],
+      }])
+      expect(rows.map(r => r.property)).toEqual([null, 'position', 'material.opacity', 'visible'])
+    })
+
+    it('gives a track without keys just its summary row', () => {
+      expect(getDopeSheetRows([{ id: 't', objectId: 'o', keyframes: [] }])).toHaveLength(1)
+    })
+  })
+
+  describe('selectKeyframesInBox', () => {
+    it('selects keys in the time range across a run of rows', () => {
+      const rows = getDopeSheetRows(makeTracks())
+      const refs = selectKeyframesInBox(rows, { fromTime: 0.4, toTime: 1.5, fromRow: 1, toRow: 5 })
+      expect(refs).toEqual([
+        { trackId: 'cam', keyframeId: 'c1' },
+        { trackId: 'cam', keyframeId: 'c2' },
+        { trackId: 'box', keyframeId: 'p1' },
+        { trackId: 'box', keyframeId: 'r1' },
+      ])
+    })
+
+    it('accepts the box drawn in any direction', () => {
+      const rows = getDopeSheetRows(makeTracks())
+      const forward = selectKeyframesInBox(rows, { fromTime: 0, toTime: 1, fromRow: 4, toRow: 4 })
+      const backward = selectKeyframesInBox(rows, { fromTime: 1, toTime: 0, fromRow: 4, toRow: 4 })
+      expect(backward).toEqual(forward)
+      expect(forward.map(r => r.keyframeId)).toEqual(['p0', 'p1'])
+    })
+
+    it('selects every key of a track at a time through its summary row', () => {
+      const rows = getDopeSheetRows(makeTracks())
+      const refs = selectKeyframesInBox(rows, { fromTime: 1, toTime: 1, fromRow: 3, toRow: 4 })
+      expect(refs.map(r => r.keyframeId)).toEqual(['p1', 'r1'])
+    })
+
+    it('clamps rows outside the sheet', () => {
+      const rows = getDopeSheetRows(makeTracks())
+      expect(selectKeyframesInBox(rows, { fromTime: 0, toTime: 5, fromRow: -3, toRow: 99 })).toHaveLength(6)
+    })
+  })
+
+  describe('isKeyframeSelected', () => {
+    it('matches on track and keyframe', () => {
+      const refs: KeyframeRef[] = [{ trackId: 'box', keyframeId: 'p1' }]
+      expect(isKeyframeSelected(refs, 'box', 'p1')).toBe(true)
+      expect(isKeyframeSelected(refs, 'cam', 'p1')).toBe(false)
+    })
+  })
+
+  describe('moveKeyframes', () => {
+    const selection: KeyframeRef[] = [
+      { trackId: 'box', keyframeId: 'p1' },
+      { trackId: 'box', keyframeId: 'r1' },
+      { trackId: 'cam', keyframeId: 'c1' },
+    ]
+
+    it('shifts a group across tracks and keeps each track sorted', () => {
+      const { tracks, delta } = moveKeyframes(makeTracks(), selection, 1.5, OPTIONS)
+      expect(delta).toBe(1.5)
+      expect(tracks[1].keyframes.map(k => `${k.id}@${k.time}`)).toEqual(['p0@0', 'p2@2', 'p1@2.5', 'r1@2.5'])
+      expect(times(tracks[0])).toEqual([0.5, 2])
+    })
+
+    it('clamps the delta so the group keeps its spacing inside the timeline', () => {
+      const left = moveKeyframes(makeTracks(), selection, -3, OPTIONS)
+      expect(left.delta).toBe(-0.5)
+      expect(left.tracks[0].keyframes.find(k => k.id === 'c1')?.time).toBe(0)
+      expect(left.tracks[1].keyframes.find(k => k.id === 'p1')?.time).toBe(0.5)
+
+      const right = moveKeyframes(makeTracks(), selection, 10, OPTIONS)
+      expect(right.delta).toBe(4)
+    })
+
+    it('snaps moved keys to frames', () => {
+      const { tracks } = moveKeyframes(makeTracks(), [{ trackId: 'box', keyframeId: 'p1' }], 0.3, { duration: 5, fps: 24 })
+      expect(tracks[1].keyframes.find(k => k.id === 'p1')?.time).toBeCloseTo(31 / 24)
+    })
+
+    it('leaves unselected keys and tracks untouched', () => {
+      const before = makeTracks()
+      const { tracks } = moveKeyframes(before, [{ trackId: 'box', keyframeId: 'p1' }], 0.25, OPTIONS)
+      expect(tracks[0]).toBe(before[0])
+      expect(tracks[1].keyframes.find(k => k.id === 'p2')).toBe(before[1].keyframes[3])
+    })
+
+    it('does nothing without a selection', () => {
+      const before = makeTracks()
+      expect(moveKeyframes(before, [], 1, OPTIONS)).toEqual({ tracks: before, delta: 0 })
+    })
+  })
+
+  describe('scaleKeyframes', () => {
+    const positions: KeyframeRef[] = ['p0', 'p1', 'p2'].map(keyframeId => ({ trackId: 'box', keyframeId }))
+
+    it('stretches keys away from the pivot', () => {
+      const tracks = scaleKeyframes(makeTracks(), positions, 2, 0, OPTIONS)
+      expect(tracks[1].keyframes.filter(k => k.property === 'position').map(k => k.time)).toEqual([0, 2, 4])
+    })
+
+    it('squeezes keys toward the pivot', () => {
+      const tracks = scaleKeyframes(makeTracks(), positions, 0.5, 2, OPTIONS)
+      expect(tracks[1].keyframes.filter(k => k.property === 'position').map(k => k.time)).toEqual([1, 1.5, 2])
+    })
+
+    it('clamps to the timeline and snaps to frames', () => {
+      const tracks = scaleKeyframes(makeTracks(), positions, 3, 0, { duration: 5, fps: 10 })
+      expect(tracks[1].keyframes.filter(k => k.property === 'position').map(k => k.time)).toEqual([0, 3, 5])
+    })
+
+    it('ignores factors that would collapse or reverse the keys', () => {
+      const before = makeTracks()
+      expect(scaleKeyframes(before, positions, 0, 1, OPTIONS)).toBe(before)
+      expect(scaleKeyframes(before, positions, -1, 1, OPTIONS)).toBe(before)
+    })
+  })
+
+  describe('removeKeyframes', () => {
+    it('removes the selected keys from each track', () => {
+      const tracks = removeKeyframes(makeTracks(), [
+        { trackId: 'box', keyframeId: 'p1' },
+        { trackId: 'cam', keyframeId: 'c2' },
+      ])
+      expect(tracks[0].keyframes.map(k => k.id)).toEqual(['c1'])
+      expect(tracks[1].keyframes.map(k => k.id)).toEqual(['p0', 'r1', 'p2'])
+    })
+  })
+
+  describe('copyKeyframes and pasteKeyframes', () => {
+    it('copies keys with times relative to the earliest', () => {
+      const clipboard = copyKeyframes(makeTracks(), [
+        { trackId: 'box', keyframeId: 'p1' },
+        { trackId: 'box', keyframeId: 'p2' },
+      ])
+      expect(clipboard?.groups).toEqual([{
+        objectId: 'box-obj',
+        keyframes: [
+          { property: 'position', offset: 0, value: { x: 1, y: 0, z: 0 }, easing: 'linear' },
+          { property: 'position', offset: 1, value: { x: 2, y: 0, z: 0 }, easing: 'linear' },
+        ],
+      }])
+    })
+
+    it('returns null when nothing is selected', () => {
+      expect(copyKeyframes(makeTracks(), [{ trackId: 'box', keyframeId: 'missing' }])).toBeNull()
+    })
+
+    it('pastes onto another object, creating its track', () => {
+      const source = makeTracks()
+      const clipboard = copyKeyframes(source, [
+        { trackId: 'box', keyframeId: 'p1' },
+        { trackId: 'box', keyframeId: 'r1' },
+      ])!
+      const { tracks, pasted } = pasteKeyframes(source, clipboard, ['sphere-obj'], 3, OPTIONS)
+
+      expect(tracks).toHaveLength(3)
+      const sphere = tracks[2]
+      expect(sphere.objectId).toBe('sphere-obj')
+      expect(sphere.keyframes.map(k => `${k.property}@${k.time}`)).toEqual(['position@3', 'rotation@3'])
+      expect(pasted).toEqual(sphere.keyframes.map(k => ({ trackId: sphere.id, keyframeId: k.id })))
+      // The copy is independent of the source key
+      expect(sphere.keyframes[0].value).not.toBe(source[1].keyframes[1].value)
+    })
+
+    it('pastes keys from one object onto every target', () => {
+      const source = makeTracks()
+      const clipboard = copyKeyframes(source, [{ trackId: 'box', keyframeId: 'p0' }])!
+      const { tracks } = pasteKeyframes(source, clipboard, ['a', 'b'], 1, OPTIONS)
+      expect(tracks.slice(2).map(t => [t.objectId, times(t)])).toEqual([['a', [1]], ['b', [1]]])
+    })
+
+    it('pastes keys from several objects onto the targets in order', () => {
+      const withOther: AnimationTrack[] = [...makeTracks(), { id: 'other', objectId: 'other-obj', keyframes: [kf('o1', 1, 'scale')] }]
+      const twoGroups = copyKeyframes(withOther, [
+        { trackId: 'box', keyframeId: 'p0' },
+        { trackId: 'other', keyframeId: 'o1' },
+      ])!
+      expect(twoGroups.groups.map(g => g.objectId)).toEqual(['box-obj', 'other-obj'])
+
+      const { tracks } = pasteKeyframes(withOther, twoGroups, ['a', 'b'], 2, OPTIONS)
+      const a = tracks.find(t => t.objectId === 'a')!
+      const b = tracks.find(t => t.objectId === 'b')!
+      expect(a.keyframes.map(k => `${k.property}@${k.time}`)).toEqual(['position@2'])
+      expect(b.keyframes.map(k => `${k.property}@${k.time}`)).toEqual(['scale@3'])
+    })
+
+    it('replaces a key of the same property at the pasted time', () => {
+      const source = makeTracks()
+      const clipboard = copyKeyframes(source, [{ trackId: 'box', keyframeId: 'p2' }])!
+      const { tracks } = pasteKeyframes(source, clipboard, ['box-obj'], 1, OPTIONS)
+      const positions = tracks[1].keyframes.filter(k => k.property === 'position')
+      expect(positions.map(k => [k.time, k.value.x])).toEqual([[0, 0], [1, 2], [2, 2]])
+      // The rotation key at the same time stays
+      expect(tracks[1].keyframes.some(k => k.id === 'r1')).toBe(true)
+    })
+
+    it('carries channel keys and their tangents, replacing only the same channel', () => {
+      const source = makeTracks()
+      source[1].keyframes.push(
+        { ...kf('px', 3, 'position', 7), channel: 'x', tangent: 'broken', inSlope: 1, outSlope: -1 },
+        { ...kf('py', 3, 'position'), channel: 'y', tangent: 'auto' },
+      )
+      const clipboard = copyKeyframes(source, [{ trackId: 'box', keyframeId: 'px' }])!
+      expect(clipboard.groups[0].keyframes[0]).toMatchObject({ channel: 'x', tangent: 'broken', inSlope: 1, outSlope: -1 })
+
+      const { tracks, pasted } = pasteKeyframes(source, clipboard, ['box-obj'], 3, OPTIONS)
+      const atThree = tracks[1].keyframes.filter(k => k.time === 3)
+      expect(atThree.map(k => k.channel)).toEqual(['y', 'x'])
+      expect(atThree.find(k => k.id === pasted[0].keyframeId)).toMatchObject({ tangent: 'broken', inSlope: 1, outSlope: -1 })
+
+      // A whole key covers every channel, so it replaces both
+      const whole = copyKeyframes(source, [{ trackId: 'box', keyframeId: 'p2' }])!
+      const replaced = pasteKeyframes(source, whole, ['box-obj'], 3, OPTIONS).tracks[1]
+      expect(replaced.keyframes.filter(k => k.time === 3).map(k => k.channel)).toEqual([undefined])
+    })
+
+    it('keeps camera keys on the camera and object keys on objects', () => {
+      const source = makeTracks()
+      const clipboard = copyKeyframes(source, [{ trackId: 'cam', keyframeId: 'c1' }])!
+      const { tracks, pasted } = pasteKeyframes(source, clipboard, ['box-obj'], 2, OPTIONS)
+      expect(pasted).toEqual([])
+      expect(tracks).toEqual(source)
+    })
+
+    it('keeps environment keys on the environment track', () => {
+      const source: AnimationTrack[] = [
+        ...makeTracks(),
+        { id: 'env', objectId: ENVIRONMENT_TRACK_OBJECT_ID, keyframes: [kf('f', 0, 'environment.fogFar', 40)] },
+      ]
+      const clipboard = copyKeyframes(source, [{ trackId: 'env', keyframeId: 'f' }])!
+      expect(pasteKeyframes(source, clipboard, ['box-obj'], 2, OPTIONS).pasted).toEqual([])
+
+      const { tracks, pasted } = pasteKeyframes(source, clipboard, [ENVIRONMENT_TRACK_OBJECT_ID], 2, OPTIONS)
+      expect(pasted).toHaveLength(1)
+      expect(tracks[2].keyframes.map(k => [k.time, k.value.x])).toEqual([[0, 40], [2, 40]])
+    })
+
+    it('snaps and clamps pasted keys to the timeline', () => {
+      const source = makeTracks()
+      const clipboard = copyKeyframes(source, [
+        { trackId: 'box', keyframeId: 'p0' },
+        { trackId: 'box', keyframeId: 'p2' },
+      ])!
+      const { tracks } = pasteKeyframes(source, clipboard, ['a'], 3.51, { duration: 5, fps: 10 })
+      expect(times(tracks[2])).toEqual([3.5, 5])
+    })
+  })
+})
@@ -0,0 +1,338 @@
+/**
+ * Pure functions behind the dope sheet: one row per animated property,
+ * box selection across rows, and retiming, scaling, copying and pasting
+ * groups of keyframes. Everything takes and returns track arrays so the
+ * store can wrap each operation in a single undo step.
+ */
+
+import type { AnimatableProperty, AnimationKeyframe, AnimationTrack, BezierHandles, ChannelAxis, EasingType, TangentMode, Vec3 } from '../types/scene'
+import { generateKeyframeId, generateTrackId, getTrackProperties } from './animation'
+import { PROPERTY_PATHS } from './propertyPaths'
+
+// ── 1. Types ─────────────────────────────────────────────────────────
+
+/** A selected key; store actions address keys through their track */
+export interface KeyframeRef {
+  trackId: string
+  keyframeId: string
+}
+
+export interface DopeSheetRow {
+  trackId: string
+  /** null for the track's summary row, which shows every key on the track */
+  property: AnimatableProperty | null
+  keyframes: AnimationKeyframe[]
+}
+
+/** A time range across a run of rows, as drawn by the marquee */
+export interface DopeSheetBox {
+  fromTime: number
+  toTime: number
+  fromRow: number
+  toRow: number
+}
+
+export interface CopiedKeyframe {
+  property: AnimatableProperty
+  /** Seconds after the earliest copied key */
+  offset: number
+  value: Vec3
+  easing: EasingType
+  bezier?: BezierHandles
+  channel?: ChannelAxis
+  tangent?: TangentMode
+  inSlope?: number
+  outSlope?: number
+}
+
+/** Keys copied from each source object, in track order */
+export interface KeyframeClipboard {
+  groups: { objectId: string; keyframes: CopiedKeyframe[] }[]
+}
+
+export interface RetimeOptions {
+  /** Keys stay within 0 and the timeline duration */
+  duration: number
+  /** Snap retimed keys to whole frames at this rate */
+  fps?: number
+}
+
+/** Frame rates offered for snapping */
+export const FRAME_RATES: readonly number[] = [12, 24, 25, 30, 60]
+
+export const DEFAULT_FRAME_RATE = 24
+
+/** Keys closer than this are at the same time */
+const TIME_EPSILON = 1e-4
+
+const ROW_PROPERTIES: readonly AnimatableProperty[] = [
+  'cameraPosition', 'cameraTarget', 'cameraLens', 'cameraFocus',
+  'position', 'rotation', 'scale', 'lightColor', 'lightParams',
+  ...PROPERTY_PATHS,
+]
+
+/** Row labels; camera and environment rows sit under their own tracks so they drop the prefix */
+export const PROPERTY_LABELS: Record<AnimatableProperty, string> = {
+  position: 'Position',
+  rotation: 'Rotation',
+  scale: 'Scale',
+  lightColor: 'Light color',
+  lightParams: 'Light',
+  cameraPosition: 'Position',
+  cameraTarget: 'Target',
+  cameraLens: 'Lens',
+  cameraFocus: 'Focus',
+  'material.color': 'Color',
+  'material.opacity': 'Opacity',
+  'material.emissiveIntensity': 'Emissive',
+  'visible': 'Visibility',
+  'environment.fogNear': 'Fog near',
+  'environment.fogFar': 'Fog far',
+  'environment.backgroundColor': 'Background',
+}
+
+// ── 2. Frames ────────────────────────────────────────────────────────
+
+/** Round a time to the nearest frame */
+export function snapToFrame(time: number, fps: number): number {
+  if (!(fps > 0)) return time
+  return Math.round(time * fps) / fps
+}
+
+// ── 3. Rows and Selection ────────────────────────────────────────────
+
+/** A summary row per track followed by a row per property that has keys */
+export function getDopeSheetRows(tracks: AnimationTrack[]): DopeSheetRow[] {
+  const rows: DopeSheetRow[] = []
+  for (const track of tracks) {
+    rows.push({ trackId: track.id, property: null, keyframes: track.keyframes })
+    for (const property of ROW_PROPERTIES) {
+      const keyframes = track.keyframes.filter(kf => kf.property === property)
+      if (keyframes.length > 0) rows.push({ trackId: track.id, property, keyframes })
+    }
+  }
+  return rows
+}
+
+/** Every key inside the box; a summary row contributes all keys of its track */
+export function selectKeyframesInBox(rows: DopeSheetRow[], box: DopeSheetBox): KeyframeRef[] {
+  const fromTime = Math.min(box.fromTime, box.toTime) - TIME_EPSILON
+  const toTime = Math.max(box.fromTime, box.toTime) + TIME_EPSILON
+  const fromRow = Math.max(0, Math.min(box.fromRow, box.toRow))
+  const toRow = Math.min(rows.length - 1, Math.max(box.fromRow, box.toRow))
+
+  const seen = new Set<string>()
+  const refs: KeyframeRef[] = []
+  for (let i = fromRow; i <= toRow; i++) {
+    const row = rows[i]
+    for (const kf of row.keyframes) {
+      const key = `${row.trackId}:${kf.id}`
+      if (kf.time < fromTime || kf.time > toTime || seen.has(key)) continue
+      seen.add(key)
+      refs.push({ trackId: row.trackId, keyframeId: kf.id })
+    }
+  }
+  return refs
+}
+
+export function isKeyframeSelected(refs: KeyframeRef[], trackId: string, keyframeId: string): boolean {
+  return refs.some(ref => ref.trackId === trackId && ref.keyframeId === keyframeId)
+}
+
+/** Refs grouped per track, for quick membership tests */
+function groupRefs(refs: KeyframeRef[]): Map<string, Set<string>> {
+  const byTrack = new Map<string, Set<string>>()
+  for (const ref of refs) {
+    const ids = byTrack.get(ref.trackId) ?? new Set<string>()
+    ids.add(ref.keyframeId)
+    byTrack.set(ref.trackId, ids)
+  }
+  return byTrack
+}
+
+function getSelectedKeyframes(tracks: AnimationTrack[], refs: KeyframeRef[]): AnimationKeyframe[] {
+  const byTrack = groupRefs(refs)
+  return tracks.flatMap(track => {
+    const ids = byTrack.get(track.id)
+    return ids ? track.keyframes.filter(kf => ids.has(kf.id)) : []
+  })
+}
+
+// ── 4. Retiming ──────────────────────────────────────────────────────
+
+/** Map the time of every selected key, keeping each track sorted */
+function retimeKeyframes(
+  tracks: AnimationTrack[],
+  refs: KeyframeRef[],
+  retime: (time: number) => number,
+): AnimationTrack[] {
+  const byTrack = groupRefs(refs)
+  return tracks.map(track => {
+    const ids = byTrack.get(track.id)
+    if (!ids) return track
+    return {
+      ...track,
+      keyframes: track.keyframes
+        .map(kf => ids.has(kf.id) ? { ...kf, time: retime(kf.time) } : kf)
+        .sort((a, b) => a.time - b.time),
+    }
+  })
+}
+
+/**
+ * Shift the selected keys by delta seconds. The delta is clamped so the
+ * group keeps its spacing inside the timeline; the clamped delta is
+ * returned so a drag can track how far the keys actually moved.
+ */
+export function moveKeyframes(
+  tracks: AnimationTrack[],
+  refs: KeyframeRef[],
+  delta: number,
+  options: RetimeOptions,
+): { tracks: AnimationTrack[]; delta: number } {
+  const selected = getSelectedKeyframes(tracks, refs)
+  if (selected.length === 0) return { tracks, delta: 0 }
+
+  const earliest = Math.min(...selected.map(kf => kf.time))
+  const latest = Math.max(...selected.map(kf => kf.time))
+  const clamped = Math.max(-earliest, Math.min(options.duration - latest, delta))
+  if (clamped === 0 && !options.fps) return { tracks, delta: 0 }
+
+  const { fps } = options
+  const retime = (time: number) => {
+    const moved = time + clamped
+    return fps ? Math.max(0, Math.min(options.duration, snapToFrame(moved, fps))) : moved
+  }
+  return { tracks: retimeKeyframes(tracks, refs, retime), delta: clamped }
+}
+
+/**
+ * Stretch or squeeze the selected keys around a pivot time, usually the
+ * playhead. Factors of zero or less would collapse or reverse the keys and
+ * are ignored.
+ */
+export function scaleKeyframes(
+  tracks: AnimationTrack[],
+  refs: KeyframeRef[],
+  factor: number,
+  pivot: number,
+  options: RetimeOptions,
+): AnimationTrack[] {
+  if (!(factor > 0) || !Number.isFinite(factor)) return tracks
+  const { fps, duration } = options
+  return retimeKeyframes(tracks, refs, time => {
+    const scaled = pivot + (time - pivot) * factor
+    const snapped = fps ? snapToFrame(scaled, fps) : scaled
+    return Math.max(0, Math.min(duration, snapped))
+  })
+}
+
+/** Remove the selected keys */
+export function removeKeyframes(tracks: AnimationTrack[], refs: KeyframeRef[]): AnimationTrack[] {
+  const byTrack = groupRefs(refs)
+  return tracks.map(track => {
+    const ids = byTrack.get(track.id)
+    return ids ? { ...track, keyframes: track.keyframes.filter(kf => !ids.has(kf.id)) } : track
+  })
+}
+
+// ── 5. Copy and Paste ────────────────────────────────────────────────
+
+/** Curve fields carried by channel keys from the graph editor */
+function copyCurveFields(kf: Pick<AnimationKeyframe, 'channel' | 'tangent' | 'inSlope' | 'outSlope'>) {
+  return {
+    ...(kf.channel ? { channel: kf.channel } : {}),
+    ...(kf.tangent ? { tangent: kf.tangent } : {}),
+    ...(kf.inSlope !== undefined ? { inSlope: kf.inSlope } : {}),
+    ...(kf.outSlope !== undefined ? { outSlope: kf.outSlope } : {}),
+  }
+}
+
+/** Copy the selected keys with times relative to the earliest one; null when nothing is selected */
+export function copyKeyframes(tracks: AnimationTrack[], refs: KeyframeRef[]): KeyframeClipboard | null {
+  const selected = getSelectedKeyframes(tracks, refs)
+  if (selected.length === 0) return null
+
+  const earliest = Math.min(...selected.map(kf => kf.time))
+  const byTrack = groupRefs(refs)
+  const groups: KeyframeClipboard['groups'] = []
+  for (const track of tracks) {
+    const ids = byTrack.get(track.id)
+    if (!ids) continue
+    const keyframes = track.keyframes
+      .filter(kf => ids.has(kf.id))
+      .map(kf => ({
+        property: kf.property,
+        offset: kf.time - earliest,
+        value: { ...kf.value },
+        easing: kf.easing,
+        ...(kf.bezier ? { bezier: [...kf.bezier] as BezierHandles } : {}),
+        ...copyCurveFields(kf),
+      }))
+    if (keyframes.length > 0) groups.push({ objectId: track.objectId, keyframes })
+  }
+  return { groups }
+}
+
+/**
+ * Paste copied keys so the earliest lands at the given time. Keys copied
+ * from one object go onto every target; keys from several objects go onto
+ * the targets in order. Targets without a track get one, camera keys only
+ * land on the camera track and object keys only on object tracks, and a
+ * pasted key replaces any key of the same property and channel at its
+ * time; a whole-Vec3 key also replaces the channel keys it covers.
+ */
+export function pasteKeyframes(
+  tracks: AnimationTrack[],
+  clipboard: KeyframeClipboard,
+  objectIds: string[],
+  time: number,
+  options: RetimeOptions,
+): { tracks: AnimationTrack[]; pasted: KeyframeRef[] } {
+  const { fps, duration } = options
+  const next = [...tracks]
+  const pasted: KeyframeRef[] = []
+
+  objectIds.forEach((objectId, i) => {
+    const group = clipboard.groups.length === 1 ? clipboard.groups[0] : clipboard.groups[i]
+    if (!group) return
+
+    const existing = next.findIndex(t => t.objectId === objectId)
+    const track: AnimationTrack = existing === -1
+      ? { id: generateTrackId(), objectId, keyframes: [] }
+      : next[existing]
+    const accepted = getTrackProperties(track)
+    const copies = group.keyframes.filter(kf => accepted.includes(kf.property))
+    if (copies.length === 0) return
+
+    let keyframes = track.keyframes
+    for (const copy of copies) {
+      const raw = time + copy.offset
+      const at = Math.max(0, Math.min(duration, fps ? snapToFrame(raw, fps) : raw))
+      const id = generateKeyframeId()
+      keyframes = keyframes.filter(kf => !(
+        kf.property === copy.property
+        && (!copy.channel || kf.channel === copy.channel)
+        && Math.abs(kf.time - at) < TIME_EPSILON
+      ))
+      keyframes.push({
+        id,
+        time: at,
+        property: copy.property,
+        value: { ...copy.value },
+        easing: copy.easing,
+        ...(copy.bezier ? { bezier: [...copy.bezier] as BezierHandles } : {}),
+        ...copyCurveFields(copy),
+      })
+      pasted.push({ trackId: track.id, keyframeId: id })
+    }
+
+    const updated = { ...track, keyframes: keyframes.sort((a, b) => a.time - b.time) }
+    if (existing === -1) next.push(updated)
+    else next[existing] = updated
+  })
+
+  // A later paste of the same property, channel and time replaces an earlier one
+  const surviving = new Set(next.flatMap(t => t.keyframes.map(kf => `${t.id}:${kf.id}`)))
+  return { tracks: next, pasted: pasted.filter(ref => surviving.has(`${ref.trackId}:${ref.keyframeId}`)) }
+}
@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getShotMediaBase,
+  getShotMedia,
+  formatMediaName,
+  getSequenceFrameName,
+  buildEditEvents,
+  framesToTimecode,
+  timecodeToFrames,
+  writeEdl,
+  parseEdl,
+  buildOtioTimeline,
+  writeShotBreakdownCsv,
+  createEditorialExport,
+} from './editorial'
+import { createClip } from './sequence'
+import type { CameraShot } from '../types/cameraPath'
+import type { EditSourceOptions } from './editorial'
+
+function makeShot(id: string, overrides: Partial<CameraShot> = {}): CameraShot {
+  return {
+    id,
+    name: `Shot ${id}`,
+    position: { x: 0, y: 2, z: 8 },
+    target: { x: 0, y: 0, z: 0 },
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const source: EditSourceOptions = { sceneName: 'Heist', fps: 24, media: 'movie', movieExtension: 'mp4' }
+
+const shots = [
+  makeShot('a', { name: 'Wide, exterior' }),
+  makeShot('b', { name: 'Hero walks in', notes: 'Push in "slowly"' }),
+  makeShot('c', { name: 'Reaction' }),
+]
+
+describe('editorial', () => {
+  // ── 1. Media Names ──────────────────────────────────────────────────
+
+  describe('media names', () => {
+    it('builds file-safe names from the scene, shot number and shot name', () => {
+      expect(getShotMediaBase('Heist (v2)', 3, 'Hero walks in!')).toBe('Heist_v2_sh003_Hero_walks_in')
+      expect(getShotMediaBase('', 1, '???')).toBe('scene_sh001_shot')
+    })
+
+    it('names movies and four-digit image sequences', () => {
+      const movie = getShotMedia('Heist_sh001_Wide', 'movie', 'webm')
+      expect(formatMediaName(movie)).toBe('Heist_sh001_Wide.webm')
+
+      const frames = getShotMedia('Heist_sh001_Wide', 'image-sequence', 'webm')
+      expect(formatMediaName(frames)).toBe('Heist_sh001_Wide.####.png')
+      if (frames.kind !== 'image-sequence') throw new Error('expected an image sequence')
+      expect(getSequenceFrameName(frames, 12)).toBe('Heist_sh001_Wide.0012.png')
+    })
+  })
+
+  // ── 2. Events ───────────────────────────────────────────────────────
+
+  describe('buildEditEvents', () => {
+    it('cuts every shot at the default length when there is no sequence', () => {
+      const events = buildEditEvents(shots, [], source)
+      expect(events.map(e => [e.reel, e.recordIn, e.duration, e.transition])).toEqual([
+        ['SH001', 0, 72, 'cut'],
+        ['SH002', 72, 72, 'cut'],
+        ['SH003', 144, 72, 'cut'],
+      ])
+      expect(events[1]).toMatchObject({ number: 2, name: 'Hero walks in', notes: 'Push in "slowly"', lens: '24mm · Full Frame' })
+      expect(formatMediaName(events[0].media)).toBe('Heist_sh001_Wide_exterior.mp4')
+    })
+
+    it('follows sequence order, durations and dissolves, dropping missing shots', () => {
+      const clips = [
+        createClip('c', { duration: 1.5, transition: 'dissolve', transitionDuration: 0.5 }),
+        createClip('gone'),
+        createClip('a', { duration: 2, transition: 'dissolve', transitionDuration: 0.25 }),
+        createClip('c', { duration: 0.01 }),
+      ]
+      const events = buildEditEvents(shots, clips, source)
+
+      expect(events.map(e => e.shotNumber)).toEqual([3, 1, 3])
+      expect(events.map(e => e.number)).toEqual([1, 2, 3])
+      // The first event has nothing to dissolve from
+      expect(events[0]).toMatchObject({ transition: 'cut', transitionFrames: 0, duration: 36 })
+      expect(events[1]).toMatchObject({ transition: 'dissolve', transitionFrames: 6, recordIn: 36, duration: 48 })
+      // Never shorter than a frame
+      expect(events[2].duration).toBe(1)
+    })
+  })
+
+  // ── 3. Timecode ─────────────────────────────────────────────────────
+
+  describe('timecode', () => {
+    it('converts frames to non-drop timecode and back', () => {
+      expect(framesToTimecode(86400 + 25, 24)).toBe('01:00:01:01')
+      expect(timecodeToFrames('01:00:01:01', 24)).toBe(86425)
+      expect(timecodeToFrames('00:00:10;12', 30)).toBe(312)
+    })
+
+    it('rejects malformed timecode', () => {
+      expect(timecodeToFrames('1:00:00:00', 24)).toBeNull()
+      expect(timecodeToFrames('00:00:00:24', 24)).toBeNull()
+      expect(timecodeToFrames('00:61:00:00', 24)).toBeNull()
+    })
+  })
+
+  // ── 4. CMX3600 EDL ──────────────────────────────────────────────────
+
+  describe('EDL', () => {
+    const clips = [
+      createClip('a', { duration: 2 }),
+      createClip('b', { duration: 3, transition: 'dissolve', transitionDuration: 0.5 }),
+      createClip('c', { duration: 1.25 }),
+    ]
+
+    it('writes a title, frame code mode and fixed-column event lines', () => {
+      const edl = writeEdl(buildEditEvents(shots, clips, source), 'Heist', 24)
+      const lines = edl.split('\n')
+      expect(lines[0]).toBe('TITLE: Heist')
+      expect(lines[1]).toBe('FCM: NON-DROP FRAME')
+      expect(lines).toContain('001  SH001    V     C        00:00:00:00 00:00:02:00 01:00:00:00 01:00:02:00')
+      expect(lines).toContain('002  SH001    V     C        00:00:02:00 00:00:02:00 01:00:02:00 01:00:02:00')
+      expect(lines).toContain('002  SH002    V     D    012 00:00:00:00 00:00:03:00 01:00:02:00 01:00:05:00')
+      expect(lines).toContain('* SOURCE FILE: Heist_sh002_Hero_walks_in.mp4')
+    })
+
+    it('round-trips through the parser', () => {
+      const events = buildEditEvents(shots, clips, { ...source, media: 'image-sequence' })
+      const parsed = parseEdl(writeEdl(events, 'Heist', 24), 24)
+
+      expect(parsed.title).toBe('Heist')
+      expect(parsed.dropFrame).toBe(false)
+
+      // The dissolve's zero-length outgoing line is the only extra event
+      const incoming = parsed.events.filter(e => e.recordOut > e.recordIn)
+      expect(parsed.events).toHaveLength(events.length + 1)
+      expect(incoming).toHaveLength(events.length)
+
+      const start = 86400
+      incoming.forEach((line, i) => {
+        const event = events[i]
+        expect(line.number).toBe(event.number)
+        expect(line.reel).toBe(event.reel)
+        expect(line.track).toBe('V')
+        expect(line.transition).toBe(event.transition)
+        expect(line.transitionFrames).toBe(event.transitionFrames)
+        expect(line.recordIn).toBe(start + event.recordIn)
+        expect(line.recordOut - line.recordIn).toBe(event.duration)
+        expect(line.sourceOut - line.sourceIn).toBe(event.duration)
+        expect(line.clipName).toBe(event.name)
+        expect(line.sourceFile).toBe(formatMediaName(event.media))
+      })
+
+      const outgoing = parsed.events.find(e => e.recordOut === e.recordIn)!
+      expect(outgoing).toMatchObject({ number: 2, reel: 'SH001', clipName: 'Wide, exterior' })
+    })
+
+    it('reads wipes as dissolves and skips lines it does not understand', () => {
+      const parsed = parseEdl([
+        'TITLE: Cut',
+        'FCM: DROP FRAME',
+        'garbage line',
+        '001  AX       V     W001 030 00:00:00:00 00:00:01:00 00:00:00:00 00:00:01:00',
+        '* FROM CLIP NAME: Wipe',
+        '002  AX       V     C        00:00:00:00 00:00:0x:00 00:00:01:00 00:00:02:00',
+      ].join('\r\n'), 30)
+
+      expect(parsed.dropFrame).toBe(true)
+      expect(parsed.events).toHaveLength(1)
+      expect(parsed.events[0]).toMatchObject({ reel: 'AX', transition: 'dissolve', transitionFrames: 30, recordOut: 30, clipName: 'Wipe' })
+    })
+  })
+
+  // ── 5. OpenTimelineIO ───────────────────────────────────────────────
+
+  describe('buildOtioTimeline', () => {
+    it('lays clips on one video track starting at one hour', () => {
+      const timeline = buildOtioTimeline(buildEditEvents(shots, [], source), 'Heist', 24)
+      expect(timeline.OTIO_SCHEMA).toBe('Timeline.1')
+      expect(timeline.global_start_time).toEqual({ OTIO_SCHEMA: 'RationalTime.1', rate: 24, value: 86400 })
+
+      const [track] = timeline.tracks.children
+      expect(track).toMatchObject({ OTIO_SCHEMA: 'Track.1', kind: 'Video' })
+      expect(track.children).toHaveLength(3)
+      expect(track.children[0]).toMatchObject({
+        OTIO_SCHEMA: 'Clip.2',
+        name: 'Wide, exterior',
+        source_range: { duration: { value: 72, rate: 24 } },
+        media_references: { DEFAULT_MEDIA: { OTIO_SCHEMA: 'ExternalReference.1', target_url: 'Heist_sh001_Wide_exterior.mp4' } },
+      })
+    })
+
+    it('adds dissolves as transitions and references image sequences', () => {
+      const clips = [createClip('a'), createClip('b', { transition: 'dissolve', transitionDuration: 1 })]
+      const timeline = buildOtioTimeline(buildEditEvents(shots, clips, { ...source, media: 'image-sequence' }), 'Heist', 24)
+      const children = timeline.tracks.children[0].children
+
+      expect(children).toHaveLength(3)
+      expect(children[1]).toMatchObject({ OTIO_SCHEMA: 'Transition.1', transition_type: 'SMPTE_Dissolve', out_offset: { value: 24 } })
+      expect(children[2]).toMatchObject({
+        media_references: {
+          DEFAULT_MEDIA: {
+            OTIO_SCHEMA: 'ImageSequenceReference.1',
+            name_prefix: 'Heist_sh002_Hero_walks_in.',
+            name_suffix: '.png',
+            start_frame: 1,
+            frame_zero_padding: 4,
+          },
+        },
+      })
+    })
+  })
+
+  // ── 6. CSV Shot Breakdown ───────────────────────────────────────────
+
+  describe('writeShotBreakdownCsv', () => {
+    it('writes a header and one quoted row per event', () => {
+      const rows = writeShotBreakdownCsv(buildEditEvents(shots, [], source), 24).trimEnd().split('\r\n')
+      expect(rows).toHaveLength(4)
+      expect(rows[0]).toBe('Event,Shot,Name,Reel,Duration (s),Frames,Record In,Record Out,Transition,Transition Frames,Lens,Notes,Media')
+      expect(rows[1]).toBe('1,1,"Wide, exterior",SH001,3.00,72,01:00:00:00,01:00:03:00,Cut,0,24mm · Full Frame,,Heist_sh001_Wide_exterior.mp4')
+      expect(rows[2]).toContain(',"Push in ""slowly""",')
+    })
+  })
+
+  // ── 7. Export ───────────────────────────────────────────────────────
+
+  describe('createEditorialExport', () => {
+    it('names the file after the scene with the format extension', async () => {
+      const events = buildEditEvents(shots, [], source)
+      const result = createEditorialExport(events, 'otio', 'Heist Night', 24)
+      expect(result.format).toBe('editorial')
+      expect(result.fileName).toBe('Heist_Night.otio')
+      expect(JSON.parse(await result.blob.text()).name).toBe('Heist Night')
+
+      expect(createEditorialExport(events, 'edl', '', 24).fileName).toMatch(/\.edl$/)
+      expect(createEditorialExport(events, 'csv', 'Heist', 24).blob.type).toBe('text/csv')
+    })
+  })
+})
@@ -0,0 +1,419 @@
+/** Editorial export — the shot edit as a CMX3600 EDL, an OpenTimelineIO timeline or a CSV shot breakdown */
+
+import type { CameraShot } from '../types/cameraPath'
+import type { SequenceClip } from '../types/sequence'
+import type { ExportResult } from '../types/export'
+import type {
+  EditEvent,
+  EditMedia,
+  EditorialFormat,
+  EditorialMedia,
+  EditorialOptions,
+  EdlEvent,
+  ParsedEdl,
+} from '../types/editorial'
+import { DEFAULT_CLIP_DURATION } from './sequence'
+import { createDefaultLens, formatLens } from './lens'
+import { generateExportFileName } from './exportPipeline'
+
+export const DEFAULT_EDITORIAL_OPTIONS: EditorialOptions = {
+  format: 'edl',
+  media: 'movie',
+}
+
+/** Record timecode of the first event; editorial convention starts programmes at one hour */
+export const RECORD_START_HOURS = 1
+
+// ── 1. Media Names ───────────────────────────────────────────────────
+
+function fileSafe(text: string): string {
+  return text
+    .replace(/[^a-zA-Z0-9_\- ]/g, '')
+    .replace(/\s+/g, '_')
+    .replace(/^_+|_+$/g, '')
+}
+
+/** Base file name for renders of the whole scene, e.g. "Heist" */
+export function getSceneMediaBase(sceneName: string): string {
+  return fileSafe(sceneName) || 'scene'
+}
+
+/** Base file name for a shot's renders, e.g. "Heist_sh003_Hero_walks_in" */
+export function getShotMediaBase(sceneName: string, shotNumber: number, shotName: string): string {
+  const shot = fileSafe(shotName) || 'shot'
+  return `${getSceneMediaBase(sceneName)}_sh${String(shotNumber).padStart(3, '0')}_${shot}`
+}
+
+/** Image sequence frames are numbered from 1 with four digits: "base.0001.png" */
+export function getImageSequenceMedia(base: string, extension = 'png'): Extract<EditMedia, { kind: 'image-sequence' }> {
+  return { kind: 'image-sequence', prefix: `${base}.`, suffix: `.${extension}`, startFrame: 1, padding: 4 }
+}
+
+export function getShotMedia(base: string, media: EditorialMedia, movieExtension: string): EditMedia {
+  return media === 'movie'
+    ? { kind: 'movie', fileName: `${base}.${movieExtension}` }
+    : getImageSequenceMedia(base)
+}
+
+/** Single file name for display, with the frame number as #### for sequences */
+export function formatMediaName(media: EditMedia): string {
+  return media.kind === 'movie' ? media.fileName : `${media.prefix}${'#'.repeat(media.padding)}${media.suffix}`
+}
+
+export function getSequenceFrameName(media: Extract<EditMedia, { kind: 'image-sequence' }>, frame: number): string {
+  return `${media.prefix}${String(frame).padStart(media.padding, '0')}${media.suffix}`
+}
+
+// ── 2. Events ────────────────────────────────────────────────────────
+
+export interface EditSourceOptions {
+  sceneName: string
+  fps: number
+  media: EditorialMedia
+  /** Extension of rendered movie files, e.g. "mp4" */
+  movieExtension: string
+}
+
+/**
+ * Events for the edit. The shot sequence supplies order, durations and
+ * dissolves when it has clips; otherwise every shot is cut in shot-list order
+ * at the default clip length. Clips whose shot was deleted are dropped.
+ */
+export function buildEditEvents(
+  shots: readonly CameraShot[],
+  clips: readonly SequenceClip[],
+  options: EditSourceOptions,
+): EditEvent[] {
+  const fps = Math.max(1, Math.round(options.fps))
+  const source = clips.length > 0
+    ? clips.map(c => ({ shotId: c.shotId, duration: c.duration, transition: c.transition, transitionDuration: c.transitionDuration }))
+    : shots.map(s => ({ shotId: s.id, duration: DEFAULT_CLIP_DURATION, transition: 'cut' as const, transitionDuration: 0 }))
+
+  const events: EditEvent[] = []
+  let recordIn = 0
+
+  for (const entry of source) {
+    const shotIndex = shots.findIndex(s => s.id === entry.shotId)
+    if (shotIndex === -1) continue
+    const shot = shots[shotIndex]
+
+    const duration = Math.max(1, Math.round(entry.duration * fps))
+    // The first event has nothing to dissolve from
+    const dissolve = events.length > 0 && entry.transition === 'dissolve'
+    const transitionFrames = dissolve ? Math.min(duration, Math.round(entry.transitionDuration * fps)) : 0
+
+    events.push({
+      number: events.length + 1,
+      shotId: shot.id,
+      shotNumber: shotIndex + 1,
+      name: shot.name,
+      reel: `SH${String(shotIndex + 1).padStart(3, '0')}`,
+      recordIn,
+      duration,
+      transition: transitionFrames > 0 ? 'dissolve' : 'cut',
+      transitionFrames,
+      lens: formatLens(shot.lens ?? createDefaultLens()),
+      notes: shot.notes?.trim() ?? '',
+      media: getShotMedia(getShotMediaBase(options.sceneName, shotIndex + 1, shot.name), options.media, options.movieExtension),
+    })
+    recordIn += duration
+  }
+
+  return events
+}
+
+// ── 3. Timecode ──────────────────────────────────────────────────────
+
+/** Non-drop-frame timecode for a frame count */
+export function framesToTimecode(frames: number, fps: number): string {
+  const rate = Math.max(1, Math.round(fps))
+  const total = Math.max(0, Math.round(frames))
+  const pad = (n: number) => String(n).padStart(2, '0')
+  const seconds = Math.floor(total / rate)
+  return [
+    pad(Math.floor(seconds / 3600)),
+    pad(Math.floor(seconds / 60) % 60),
+    pad(seconds % 60),
+    pad(total % rate),
+  ].join(':')
+}
+
+/** Frame count for HH:MM:SS:FF (a drop-frame ';' separator is read the same way); null if malformed */
+export function timecodeToFrames(timecode: string, fps: number): number | null {
+  const match = /^(\d{2}):(\d{2}):(\d{2})[:;.](\d{2})$/.exec(timecode.trim())
+  if (!match) return null
+  const rate = Math.max(1, Math.round(fps))
+  const [hours, minutes, seconds, frames] = match.slice(1).map(Number)
+  if (minutes > 59 || seconds > 59 || frames >= rate) return null
+  return ((hours * 60 + minutes) * 60 + seconds) * rate + frames
+}
+
+// ── 4. CMX3600 EDL ───────────────────────────────────────────────────
+
+function edlLine(
+  number: number, reel: string, transition: string,
+  sourceIn: number, sourceOut: number, recordIn: number, recordOut: number, fps: number,
+): string {
+  const tc = [sourceIn, sourceOut, recordIn, recordOut].map(f => framesToTimecode(f, fps)).join(' ')
+  return `${String(number).padStart(3, '0')}  ${reel.padEnd(8)} V     ${transition.padEnd(9)}${tc}`
+}
+
+/**
+ * Video-only CMX3600 EDL. Each event plays its own render from 00:00:00:00.
+ * A dissolve is written the CMX way: a zero-length cut on the outgoing reel
+ * followed by the D line for the incoming one.
+ */
+export function writeEdl(events: readonly EditEvent[], title: string, fps: number): string {
+  const start = RECORD_START_HOURS * 3600 * Math.max(1, Math.round(fps))
+  const lines = [`TITLE: ${title.slice(0, 70) || 'Untitled'}`, 'FCM: NON-DROP FRAME', '']
+
+  events.forEach((event, i) => {
+    const recordIn = start + event.recordIn
+    const recordOut = recordIn + event.duration
+    const previous = events[i - 1]
+
+    if (event.transition === 'dissolve' && previous) {
+      lines.push(edlLine(event.number, previous.reel, 'C', previous.duration, previous.duration, recordIn, recordIn, fps))
+      lines.push(edlLine(
+        event.number, event.reel, `D    ${String(event.transitionFrames).padStart(3, '0')}`,
+        0, event.duration, recordIn, recordOut, fps,
+      ))
+      lines.push(`* FROM CLIP NAME: ${previous.name}`)
+      lines.push(`* TO CLIP NAME: ${event.name}`)
+    } else {
+      lines.push(edlLine(event.number, event.reel, 'C', 0, event.duration, recordIn, recordOut, fps))
+      lines.push(`* FROM CLIP NAME: ${event.name}`)
+    }
+    lines.push(`* SOURCE FILE: ${formatMediaName(event.media)}`)
+    lines.push('')
+  })
+
+  return lines.join('\n')
+}
+
+const EDL_EVENT_LINE = /^(\d{3,6})\s+(\S+)\s+(\S+)\s+(C|D|W\d{3})\s+(?:(\d{3})\s+)?(\S+)\s+(\S+)\s+(\S+)\s+(\S+)\s*$/
+
+/**
+ * Parse a CMX3600 EDL. Clip name and source file comments attach to their
+ * event's lines: FROM to the first, TO and SOURCE FILE to the last. Wipes are
+ * read as dissolves; unrecognised lines are skipped.
+ */
+export function parseEdl(text: string, fps: number): ParsedEdl {
+  const result: ParsedEdl = { title: '', dropFrame: false, events: [] }
+  let group: EdlEvent[] = []
+
+  for (const raw of text.split(/\r?\n/)) {
+    const line = raw.trim()
+    if (!line) continue
+
+    if (line.startsWith('TITLE:')) {
+      result.title = line.slice(6).trim()
+      continue
+    }
+    if (line.startsWith('FCM:')) {
+      result.dropFrame = !/NON-DROP/i.test(line) && /DROP/i.test(line)
+      continue
+    }
+    if (line.startsWith('*')) {
+      const comment = /^\*\s*(FROM CLIP NAME|TO CLIP NAME|SOURCE FILE):\s*(.*)$/i.exec(line)
+      if (!comment || group.length === 0) continue
+      const key = comment[1].toUpperCase()
+      const target = key === 'FROM CLIP NAME' ? group[0] : group[group.length - 1]
+      if (key === 'SOURCE FILE') target.sourceFile = comment[2]
+      else target.clipName = comment[2]
+      continue
+    }
+
+    const match = EDL_EVENT_LINE.exec(line)
+    if (!match) continue
+    const [sourceIn, sourceOut, recordIn, recordOut] = match.slice(6, 10).map(tc => timecodeToFrames(tc, fps))
+    if (sourceIn === null || sourceOut === null || recordIn === null || recordOut === null) continue
+
+    const event: EdlEvent = {
+      number: Number(match[1]),
+      reel: match[2],
+      track: match[3],
+      transition: match[4] === 'C' ? 'cut' : 'dissolve',
+      transitionFrames: match[5] ? Number(match[5]) : 0,
+      sourceIn,
+      sourceOut,
+      recordIn,
+      recordOut,
+    }
+    if (group.length === 0 || group[0].number !== event.number) group = []
+    group.push(event)
+    result.events.push(event)
+  }
+
+  return result
+}
+
+// ── 5. OpenTimelineIO ────────────────────────────────────────────────
+
+function rationalTime(value: number, rate: number) {
+  return { OTIO_SCHEMA: 'RationalTime.1', rate, value }
+}
+
+function timeRange(start: number, duration: number, rate: number) {
+  return { OTIO_SCHEMA: 'TimeRange.1', start_time: rationalTime(start, rate), duration: rationalTime(duration, rate) }
+}
+
+function mediaReference(event: EditEvent, rate: number) {
+  const available = timeRange(0, event.duration, rate)
+  if (event.media.kind === 'movie') {
+    return {
+      OTIO_SCHEMA: 'ExternalReference.1',
+      name: event.media.fileName,
+      target_url: event.media.fileName,
+      available_range: available,
+      metadata: {},
+    }
+  }
+  return {
+    OTIO_SCHEMA: 'ImageSequenceReference.1',
+    name: formatMediaName(event.media),
+    target_url_base: './',
+    name_prefix: event.media.prefix,
+    name_suffix: event.media.suffix,
+    start_frame: event.media.startFrame,
+    frame_step: 1,
+    rate,
+    frame_zero_padding: event.media.padding,
+    missing_frame_policy: 'error',
+    available_range: available,
+    metadata: {},
+  }
+}
+
+/**
+ * OpenTimelineIO timeline with a single video track. Dissolves sit after
+ * the cut (out_offset only) because they play over the head of the incoming
+ * shot.
+ */
+export function buildOtioTimeline(events: readonly EditEvent[], title: string, fps: number) {
+  const rate = Math.max(1, Math.round(fps))
+  const children: object[] = []
+
+  for (const event of events) {
+    if (event.transition === 'dissolve' && event.transitionFrames > 0) {
+      children.push({
+        OTIO_SCHEMA: 'Transition.1',
+        name: '',
+        transition_type: 'SMPTE_Dissolve',
+        in_offset: rationalTime(0, rate),
+        out_offset: rationalTime(event.transitionFrames, rate),
+        metadata: {},
+      })
+    }
+    children.push({
+      OTIO_SCHEMA: 'Clip.2',
+      name: event.name,
+      source_range: timeRange(0, event.duration, rate),
+      media_references: { DEFAULT_MEDIA: mediaReference(event, rate) },
+      active_media_reference_key: 'DEFAULT_MEDIA',
+      effects: [],
+      markers: [],
+      enabled: true,
+      metadata: {
+        scene_cowboy: { shot_id: event.shotId, shot_number: event.shotNumber, reel: event.reel, lens: event.lens, notes: event.notes },
+      },
+    })
+  }
+
+  return {
+    OTIO_SCHEMA: 'Timeline.1',
+    name: title,
+    global_start_time: rationalTime(RECORD_START_HOURS * 3600 * rate, rate),
+    metadata: {},
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      name: 'tracks',
+      source_range: null,
+      effects: [],
+      markers: [],
+      enabled: true,
+      metadata: {},
+      children: [{
+        OTIO_SCHEMA: 'Track.1',
+        name: 'V1',
+        kind: 'Video',
+        source_range: null,
+        effects: [],
+        markers: [],
+        enabled: true,
+        metadata: {},
+        children,
+      }],
+    },
+  }
+}
+
+export function writeOtio(events: readonly EditEvent[], title: string, fps: number): string {
+  return JSON.stringify(buildOtioTimeline(events, title, fps), null, 2)
+}
+
+// ── 6. CSV Shot Breakdown ────────────────────────────────────────────
+
+const CSV_COLUMNS = [
+  'Event', 'Shot', 'Name', 'Reel', 'Duration (s)', 'Frames', 'Record In', 'Record Out',
+  'Transition', 'Transition Frames', 'Lens', 'Notes', 'Media',
+]
+
+/** RFC 4180 quoting: wrap fields containing commas, quotes or line breaks */
+function csvCell(value: string | number): string {
+  const text = String(value)
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text
+}
+
+export function writeShotBreakdownCsv(events: readonly EditEvent[], fps: number): string {
+  const rate = Math.max(1, Math.round(fps))
+  const start = RECORD_START_HOURS * 3600 * rate
+  const rows = events.map(event => [
+    event.number,
+    event.shotNumber,
+    event.name,
+    event.reel,
+    (event.duration / rate).toFixed(2),
+    event.duration,
+    framesToTimecode(start + event.recordIn, rate),
+    framesToTimecode(start + event.recordIn + event.duration, rate),
+    event.transition === 'dissolve' ? 'Dissolve' : 'Cut',
+    event.transitionFrames,
+    event.lens,
+    event.notes,
+    formatMediaName(event.media),
+  ])
+  return [CSV_COLUMNS, ...rows].map(row => row.map(csvCell).join(',')).join('\r\n') + '\r\n'
+}
+
+// ── 7. Export ────────────────────────────────────────────────────────
+
+const EDITORIAL_FILES: Record<EditorialFormat, { extension: string; mimeType: string }> = {
+  edl: { extension: 'edl', mimeType: 'text/plain' },
+  otio: { extension: 'otio', mimeType: 'application/json' },
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+}
+
+/** Write the events in the chosen format and wrap them as a downloadable file */
+export function createEditorialExport(
+  events: readonly EditEvent[],
+  format: EditorialFormat,
+  sceneName: string,
+  fps: number,
+): ExportResult {
+  const title = sceneName || 'Untitled'
+  const text = format === 'edl'
+    ? writeEdl(events, title, fps)
+    : format === 'otio'
+      ? writeOtio(events, title, fps)
+      : writeShotBreakdownCsv(events, fps)
+  const { extension, mimeType } = EDITORIAL_FILES[format]
+  const blob = new Blob([text], { type: mimeType })
+
+  return {
+    format: 'editorial',
+    blob,
+    fileName: generateExportFileName(sceneName, extension),
+    fileSize: blob.size,
+  }
+}
@@ -1,5 +1,5 @@
 import { describe, it, expect } from 'vitest'
-import type { SceneObject, MaterialData, SceneData, Vec3 } from '../types/scene'
+import type { SceneObject, MaterialData, SceneData, Vec3, AnimationTrack, AnimationKeyframe } from '../types/scene'
 import type { GltfExportOptions, ScreenshotOptions, VideoRecordingOptions } from '../types/export'
 import {
   createGltfDocument,
@@ -20,12 +20,19 @@ import {
   validateScreenshotOptions,
   validateVideoOptions,
   eulerToQuaternion,
+  lookAtQuaternion,
+  quantize,
+  sampleKeyframeTimes,
   formatFileSize,
   generateExportFileName,
+  createGltfExport,
+  mergeGltfModel,
   DEFAULT_GLTF_OPTIONS,
   DEFAULT_SCREENSHOT_OPTIONS,
   DEFAULT_VIDEO_OPTIONS,
 } from './exportPipeline'
+import type { GltfModelSource, MeshModelSource } from './exportPipeline'
+import { createDefaultLight } from './lights'
 
 // ── Test Helpers ──────────────────────────────────────────────────────
 
@@ -760,7 +767,7 @@ describe('sceneToGltf', () => {
     expect(doc.scenes[0].nodes).toEqual([0])
   })
 
-  it('skips model type objects', () => {
+  it('skips model objects without a loaded source', () => {
     const objects = [
       makeSceneObject({ id: 'a', type: 'model', gltfUrl: 'test.glb' }),
     ]
@@ -777,6 +784,658 @@ describe('sceneToGltf', () => {
   })
 })
 
+// ── 7b. sceneToGltf options ──────────────────────────────────────────
+
+function makeKeyframe(overrides: Partial<AnimationKeyframe> = {}): AnimationKeyframe {
+  return {
+    id: 'kf',
+    time: 0,
+    property: 'position',
+    value: { x: 0, y: 0, z: 0 },
+    easing: 'linear',
+    ...overrides,
+  }
+}
+
+function withTracks(scene: SceneData, tracks: AnimationTrack[]): SceneData {
+  return { ...scene, animationTracks: tracks, animationDuration: 5 }
+}
+
+/** Rotate a vector by a quaternion [x, y, z, w] */
+function rotateByQuat(v: Vec3, q: number[]): Vec3 {
+  const [qx, qy, qz, qw] = q
+  const ix = qw * v.x + qy * v.z - qz * v.y
+  const iy = qw * v.y + qz * v.x - qx * v.z
+  const iz = qw * v.z + qx * v.y - qy * v.x
+  const iw = -qx * v.x - qy * v.y - qz * v.z
+  return {
+    x: ix * qw + iw * -qx + iy * -qz - iz * -qy,
+    y: iy * qw + iw * -qy + iz * -qx - ix * -qz,
+    z: iz * qw + iw * -qz + ix * -qy - iy * -qx,
+  }
+}
+
+describe('quantize', () => {
+  it('rounds to the given number of decimals', () => {
+    expect(quantize(1.23456789, 3)).toBe(1.235)
+    expect(quantize(1.23456789, 5)).toBe(1.23457)
+  })
+
+  it('normalizes negative zero', () => {
+    expect(Object.is(quantize(-0.00001, 3), 0)).toBe(true)
+  })
+})
+
+describe('lookAtQuaternion', () => {
+  it('points -Z at the target', () => {
+    const eye = { x: 5, y: 5, z: 5 }
+    const q = lookAtQuaternion(eye, { x: 0, y: 0, z: 0 })
+    const forward = rotateByQuat({ x: 0, y: 0, z: -1 }, q)
+    const len = Math.sqrt(75)
+    expect(forward.x).toBeCloseTo(-5 / len)
+    expect(forward.y).toBeCloseTo(-5 / len)
+    expect(forward.z).toBeCloseTo(-5 / len)
+  })
+
+  it('returns identity when looking down -Z', () => {
+    const q = lookAtQuaternion({ x: 0, y: 0, z: 10 }, { x: 0, y: 0, z: 0 })
+    expect(q[0]).toBeCloseTo(0)
+    expect(q[1]).toBeCloseTo(0)
+    expect(q[2]).toBeCloseTo(0)
+    expect(Math.abs(q[3])).toBeCloseTo(1)
+  })
+
+  it('handles looking straight down', () => {
+    const q = lookAtQuaternion({ x: 0, y: 10, z: 0 }, { x: 0, y: 0, z: 0 })
+    const forward = rotateByQuat({ x: 0, y: 0, z: -1 }, q)
+    expect(forward.y).toBeCloseTo(-1)
+  })
+
+  it('returns identity when eye and target coincide', () => {
+    expect(lookAtQuaternion({ x: 1, y: 1, z: 1 }, { x: 1, y: 1, z: 1 })).toEqual([0, 0, 0, 1])
+  })
+})
+
+describe('sampleKeyframeTimes', () => {
+  it('keeps only key times for linear segments', () => {
+    const keys = [makeKeyframe({ time: 0 }), makeKeyframe({ time: 2 })]
+    expect(sampleKeyframeTimes(keys)).toEqual([0, 2])
+  })
+
+  it('bakes eased segments at 30 samples per second', () => {
+    const keys = [makeKeyframe({ time: 0 }), makeKeyframe({ time: 1, easing: 'easeIn' })]
+    const times = sampleKeyframeTimes(keys)
+    expect(times).toHaveLength(31)
+    expect(times[0]).toBe(0)
+    expect(times[30]).toBe(1)
+  })
+
+  it('holds step segments until just before their key', () => {
+    const keys = [makeKeyframe({ time: 0 }), makeKeyframe({ time: 2, easing: 'step' })]
+    expect(sampleKeyframeTimes(keys)).toEqual([0, 1.999, 2])
+  })
+
+  it('bakes every segment when requested', () => {
+    const keys = [makeKeyframe({ time: 0 }), makeKeyframe({ time: 1 })]
+    expect(sampleKeyframeTimes(keys, true)).toHaveLength(31)
+  })
+
+  it('returns an empty list for no keyframes', () => {
+    expect(sampleKeyframeTimes([])).toEqual([])
+  })
+})
+
+describe('sceneToGltf options', () => {
+  it('quantizes node transforms to the requested precision', () => {
+    const scene = makeSceneData([makeSceneObject({ position: { x: 1.23456789, y: 0, z: -2.98765432 } })])
+    const doc = sceneToGltf(scene, { ...DEFAULT_GLTF_OPTIONS, precision: 3 })
+    expect(doc.nodes[0].translation).toEqual([1.235, 0, -2.988])
+  })
+
+  it('omits animations, cameras and lights by default', () => {
+    const scene = withTracks(makeSceneData([makeSceneObject()]), [{
+      id: 't1',
+      objectId: 'obj-1',
+      keyframes: [makeKeyframe({ time: 0 }), makeKeyframe({ time: 1, value: { x: 1, y: 0, z: 0 } })],
+    }])
+    const doc = sceneToGltf(scene, DEFAULT_GLTF_OPTIONS)
+    expect(doc.animations).toBeUndefined()
+    expect(doc.cameras).toBeUndefined()
+    expect(doc.extensions).toBeUndefined()
+  })
+
+  describe('includeAnimation', () => {
+    const options: GltfExportOptions = { ...DEFAULT_GLTF_OPTIONS, includeAnimation: true }
+
+    it('emits a translation channel from linear position keys', () => {
+      const scene = withTracks(makeSceneData([makeSceneObject()]), [{
+        id: 't1',
+        objectId: 'obj-1',
+        keyframes: [
+          makeKeyframe({ id: 'a', time: 0 }),
+          makeKeyframe({ id: 'b', time: 2, value: { x: 4, y: 0, z: 0 } }),
+        ],
+      }])
+      const doc = sceneToGltf(scene, options)
+
+      expect(doc.animations).toHaveLength(1)
+      const anim = doc.animations![0]
+      expect(anim.channels).toEqual([{ sampler: 0, target: { node: 0, path: 'translation' } }])
+      expect(anim.samplers[0].interpolation).toBe('LINEAR')
+
+      const input = doc.accessors[anim.samplers[0].input]
+      expect(input.type).toBe('SCALAR')
+      expect(input.count).toBe(2)
+      expect(input.min).toEqual([0])
+      expect(input.max).toEqual([2])
+      expect(doc.accessors[anim.samplers[0].output].type).toBe('VEC3')
+    })
+
+    it('bakes eased position keys into sampled LINEAR curves', () => {
+      const scene = withTracks(makeSceneData([makeSceneObject()]), [{
+        id: 't1',
+        objectId: 'obj-1',
+        keyframes: [
+          makeKeyframe({ id: 'a', time: 0 }),
+          makeKeyframe({ id: 'b', time: 1, value: { x: 1, y: 0, z: 0 }, easing: 'easeInOut' }),
+        ],
+      }])
+      const doc = sceneToGltf(scene, options)
+      const sampler = doc.animations![0].samplers[0]
+      expect(doc.accessors[sampler.input].count).toBe(31)
+
+      // Check that the packed output follows the eased curve
+      const buf = packBufferData(doc, new Map())
+      const outAccessor = doc.accessors[sampler.output]
+      const bv = doc.bufferViews[outAccessor.bufferView]
+      const values = new Float32Array(buf, bv.byteOffset, outAccessor.count * 3)
+      // Sample 6 is t = 0.2 -> easeInOut = 2 * 0.2^2 = 0.08
+      expect(values[6 * 3]).toBeCloseTo(0.08, 4)
+      expect(values[30 * 3]).toBeCloseTo(1, 4)
+    })
+
+    it('bakes per-channel curves with each channel on its own timing', () => {
+      const scene = withTracks(makeSceneData([makeSceneObject()]), [{
+        id: 't1',
+        objectId: 'obj-1',
+        keyframes: [
+          makeKeyframe({ id: 'x0', time: 0, channel: 'x' }),
+          makeKeyframe({ id: 'y0', time: 0, channel: 'y', tangent: 'flat' }),
+          makeKeyframe({ id: 'x1', time: 0.5, value: { x: 2, y: 0, z: 0 }, channel: 'x' }),
+          makeKeyframe({ id: 'y1', time: 1, value: { x: 0, y: 3, z: 0 }, channel: 'y', tangent: 'flat' }),
+        ],
+      }])
+      const doc = sceneToGltf(scene, options)
+      const sampler = doc.animations![0].samplers[0]
+      expect(doc.accessors[sampler.input].count).toBe(31)
+
+      const buf = packBufferData(doc, new Map())
+      const outAccessor = doc.accessors[sampler.output]
+      const bv = doc.bufferViews[outAccessor.bufferView]
+      const values = new Float32Array(buf, bv.byteOffset, outAccessor.count * 3)
+      // Sample 15 is t = 0.5: X has arrived, Y is halfway along its S-curve
+      expect(values[15 * 3]).toBeCloseTo(2, 4)
+      expect(values[15 * 3 + 1]).toBeCloseTo(1.5, 4)
+      expect(values[30 * 3 + 1]).toBeCloseTo(3, 4)
+    })
+
+    it('emits rotation as VEC4 quaternions and scale as VEC3', () => {
+      const scene = withTracks(makeSceneData([makeSceneObject()]), [{
+        id: 't1',
+        objectId: 'obj-1',
+        keyframes: [
+          makeKeyframe({ id: 'a', time: 0, property: 'rotation' }),
+          makeKeyframe({ id: 'b', time: 1, property: 'rotation', value: { x: 0, y: 90, z: 0 } }),
+          makeKeyframe({ id: 'c', time: 0, property: 'scale', value: { x: 1, y: 1, z: 1 } }),
+          makeKeyframe({ id: 'd', time: 1, property: 'scale', value: { x: 2, y: 2, z: 2 } }),
+        ],
+      }])
+      const doc = sceneToGltf(scene, options)
+      const anim = doc.animations![0]
+      const paths = anim.channels.map(c => c.target.path)
+      expect(paths).toEqual(['rotation', 'scale'])
+      expect(doc.accessors[anim.samplers[0].output].type).toBe('VEC4')
+      expect(doc.accessors[anim.samplers[1].output].type).toBe('VEC3')
+    })
+
+    it('targets the node of the animated object', () => {
+      const scene = withTracks(
+        makeSceneData([makeSceneObject({ id: 'a' }), makeSceneObject({ id: 'b' })]),
+        [{ id: 't1', objectId: 'b', keyframes: [makeKeyframe({ time: 0 }), makeKeyframe({ time: 1 })] }],
+      )
+      const doc = sceneToGltf(scene, options)
+      expect(doc.animations![0].channels[0].target.node).toBe(1)
+    })
+
+    it('skips tracks for objects that are not exported', () => {
+      const scene = withTracks(
+        makeSceneData([makeSceneObject({ id: 'a', visible: false })]),
+        [{ id: 't1', objectId: 'a', keyframes: [makeKeyframe({ time: 0 }), makeKeyframe({ time: 1 })] }],
+      )
+      const doc = sceneToGltf(scene, options)
+      expect(doc.animations).toBeUndefined()
+    })
+
+    it('animates a timeline camera from the camera track when cameras are included', () => {
+      const scene = withTracks(makeSceneData([]), [{
+        id: 'cam',
+        objectId: '__camera__',
+        keyframes: [
+          makeKeyframe({ id: 'p0', time: 0, property: 'cameraPosition', value: { x: 0, y: 0, z: 10 } }),
+          makeKeyframe({ id: 'p1', time: 1, property: 'cameraPosition', value: { x: 10, y: 0, z: 0 } }),
+          makeKeyframe({ id: 't0', time: 0, property: 'cameraTarget' }),
+          makeKeyframe({ id: 't1', time: 1, property: 'cameraTarget' }),
+        ],
+      }])
+
+      const withoutCamera = sceneToGltf(scene, options)
+      expect(withoutCamera.animations).toBeUndefined()
+
+      const doc = sceneToGltf(scene, { ...options, includeCamera: true })
+      const cameraNode = doc.nodes.findIndex(n => n.name === 'Timeline Camera')
+      expect(cameraNode).toBeGreaterThanOrEqual(0)
+      expect(doc.nodes[cameraNode].camera).toBeDefined()
+      const targets = doc.animations![0].channels.map(c => c.target)
+      expect(targets).toEqual([
+        { node: cameraNode, path: 'translation' },
+        { node: cameraNode, path: 'rotation' },
+      ])
+    })
+
+    it('round-trips animation data through GLB packing', () => {
+      const scene = withTracks(makeSceneData([makeSceneObject()]), [{
+        id: 't1',
+        objectId: 'obj-1',
+        keyframes: [makeKeyframe({ time: 0 }), makeKeyframe({ time: 1, value: { x: 3, y: 2, z: 1 } })],
+      }])
+      const doc = sceneToGltf(scene, options)
+      const buf = packBufferData(doc, new Map())
+      const sampler = doc.animations![0].samplers[0]
+      const out = doc.accessors[sampler.output]
+      const bv = doc.bufferViews[out.bufferView]
+      expect(Array.from(new Float32Array(buf, bv.byteOffset, 6))).toEqual([0, 0, 0, 3, 2, 1])
+
+      const parsed = JSON.parse(serializeGltfJson(doc))
+      expect(parsed.animations).toHaveLength(1)
+    })
+  })
+
+  describe('includeCamera', () => {
+    const options: GltfExportOptions = { ...DEFAULT_GLTF_OPTIONS, includeCamera: true }
+
+    it('exports the current view when camera position and target are provided', () => {
+      const doc = sceneToGltf(makeSceneData([]), {
+        ...options,
+        cameraPosition: { x: 0, y: 0, z: 5 },
+        cameraTarget: { x: 0, y: 0, z: 0 },
+        cameraFov: 60,
+        cameraAspectRatio: 16 / 9,
+      })
+      expect(doc.cameras).toHaveLength(1)
+      expect(doc.cameras![0].type).toBe('perspective')
+      expect(doc.cameras![0].perspective.yfov).toBeCloseTo(Math.PI / 3, 4)
+      expect(doc.cameras![0].perspective.aspectRatio).toBeCloseTo(16 / 9, 4)
+      expect(doc.nodes[0]).toMatchObject({ name: 'Current View', camera: 0, translation: [0, 0, 5] })
+      expect(doc.scenes[0].nodes).toContain(0)
+    })
+
+    it('exports a camera node for each shot', () => {
+      const scene: SceneData = {
+        ...makeSceneData([makeSceneObject()]),
+        shots: [
+          { id: 's1', name: 'Wide', position: { x: 0, y: 2, z: 10 }, target: { x: 0, y: 0, z: 0 }, createdAt: '' },
+          { id: 's2', name: 'Close', position: { x: 1, y: 1, z: 2 }, target: { x: 0, y: 1, z: 0 }, createdAt: '' },
+        ],
+      }
+      const doc = sceneToGltf(scene, options)
+      expect(doc.cameras).toHaveLength(2)
+      const names = doc.nodes.filter(n => n.camera !== undefined).map(n => n.name)
+      expect(names).toEqual(['Wide', 'Close'])
+      expect(JSON.parse(serializeGltfJson(doc)).cameras).toHaveLength(2)
+    })
+  })
+
+  describe('includeLights', () => {
+    it('emits KHR_lights_punctual lights for the studio rig', () => {
+      const doc = sceneToGltf(makeSceneData([]), { ...DEFAULT_GLTF_OPTIONS, includeLights: true })
+      expect(doc.extensionsUsed).toContain('KHR_lights_punctual')
+      const lights = doc.extensions!.KHR_lights_punctual!.lights
+      expect(lights.length).toBeGreaterThan(0)
+      expect(lights.every(l => l.type === 'directional' || l.type === 'point')).toBe(true)
+
+      const lightNodes = doc.nodes.filter(n => n.extensions?.KHR_lights_punctual)
+      expect(lightNodes).toHaveLength(lights.length)
+      expect(lightNodes.every(n => n.translation !== undefined)).toBe(true)
+
+      const parsed = JSON.parse(serializeGltfJson(doc))
+      expect(parsed.extensionsUsed).toEqual(['KHR_lights_punctual'])
+      expect(parsed.extensions.KHR_lights_punctual.lights).toHaveLength(lights.length)
+    })
+
+    it('gives point lights a range', () => {
+      const doc = sceneToGltf(makeSceneData([]), { ...DEFAULT_GLTF_OPTIONS, includeLights: true })
+      const points = doc.extensions!.KHR_lights_punctual!.lights.filter(l => l.type === 'point')
+      expect(points.every(l => typeof l.range === 'number' && l.range > 0)).toBe(true)
+    })
+
+    it('exports light objects instead of the studio rig', () => {
+      const spot = makeSceneObject({
+        id: 'spot', name: 'Key', type: 'spotLight',
+        light: { ...createDefaultLight('spotLight'), color: '#ff0000', outerConeAngle: 45, innerConeAngle: 0 },
+      })
+      const area = makeSceneObject({ id: 'area', name: 'Soft Box', type: 'areaLight', light: createDefaultLight('areaLight') })
+      const doc = sceneToGltf(makeSceneData([spot, area]), { ...DEFAULT_GLTF_OPTIONS, includeLights: true })
+
+      const lights = doc.extensions!.KHR_lights_punctual!.lights
+      expect(lights).toHaveLength(1)
+      expect(lights[0]).toMatchObject({ name: 'Key', type: 'spot', color: [1, 0, 0], range: 20, intensity: 20 })
+      expect(lights[0].spot!.outerConeAngle).toBeCloseTo(Math.PI / 4, 4)
+
+      // Area lights have no punctual equivalent but keep their node
+      expect(doc.nodes.find(n => n.name === 'Key')!.extensions).toEqual({ KHR_lights_punctual: { light: 0 } })
+      expect(doc.nodes.find(n => n.name === 'Soft Box')!.extensions).toBeUndefined()
+    })
+
+    it('keeps light objects as plain nodes when lights are off', () => {
+      const point = makeSceneObject({ id: 'p', name: 'Bulb', type: 'pointLight', light: createDefaultLight('pointLight') })
+      const doc = sceneToGltf(makeSceneData([point]), DEFAULT_GLTF_OPTIONS)
+      expect(doc.extensions).toBeUndefined()
+      expect(doc.nodes.map(n => n.name)).toEqual(['Bulb'])
+    })
+  })
+})
+
+// ── 7c. Model objects ────────────────────────────────────────────────
+
+/** A one-triangle glTF source with a material, a texture and a two-node hierarchy */
+function makeGltfSource(): GltfModelSource {
+  const positions = new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0])
+  const indices = new Uint16Array([0, 1, 2, 0])  // padded to 4-byte multiple
+  const image = new Uint8Array([137, 80, 78, 71])
+  const bin = new Uint8Array(positions.byteLength + indices.byteLength + image.byteLength)
+  bin.set(new Uint8Array(positions.buffer), 0)
+  bin.set(new Uint8Array(indices.buffer), 36)
+  bin.set(image, 44)
+
+  return {
+    kind: 'gltf',
+    buffers: [bin],
+    document: {
+      scene: 0,
+      scenes: [{ nodes: [0] }],
+      nodes: [
+        { name: 'Root', children: [1], translation: [0, 1, 0] },
+        { name: 'Body', mesh: 0 },
+      ],
+      meshes: [{
+        name: 'BodyMesh',
+        primitives: [{ attributes: { POSITION: 0 }, indices: 1, material: 0 }],
+      }],
+      materials: [{
+        name: 'Skin',
+        pbrMetallicRoughness: { baseColorFactor: [1, 0, 0, 1], baseColorTexture: { index: 0 } },
+      }],
+      textures: [{ source: 0, sampler: 0 }],
+      images: [{ bufferView: 2, mimeType: 'image/png' }],
+      samplers: [{ magFilter: 9729 }],
+      accessors: [
+        { bufferView: 0, componentType: 5126, count: 3, type: 'VEC3', min: [0, 0, 0], max: [1, 1, 0] },
+        { bufferView: 1, componentType: 5123, count: 3, type: 'SCALAR' },
+      ],
+      bufferViews: [
+        { buffer: 0, byteOffset: 0, byteLength: 36, target: 34962 },
+        { buffer: 0, byteOffset: 36, byteLength: 6, target: 34963 },
+        { buffer: 0, byteOffset: 44, byteLength: 4 },
+      ],
+      buffers: [{ byteLength: bin.byteLength }],
+    },
+  }
+}
+
+function makeMeshSource(): MeshModelSource {
+  return {
+    kind: 'mesh',
+    meshes: [{
+      name: 'Crate',
+      translation: [0, 0.5, 0],
+      rotation: [0, 0, 0, 1],
+      scale: [2, 2, 2],
+      positions: new Float32Array([0, 0, 0, 1, 0, 0, 0, 1, 0, 1, 1, 0]),
+      normals: new Float32Array([0, 0, 1, 0, 0, 1, 0, 0, 1, 0, 0, 1]),
+      uvs: new Float32Array([0, 0, 1, 0, 0, 1, 1, 1]),
+      primitives: [
+        { indices: new Uint16Array([0, 1, 2]), material: makeDefaultMaterial({ color: '#ff0000' }) },
+        { indices: new Uint16Array([1, 3, 2]), material: makeDefaultMaterial({ color: '#00ff00' }) },
+      ],
+    }],
+  }
+}
+
+function makeModelObject(overrides: Partial<SceneObject> = {}): SceneObject {
+  return makeSceneObject({
+    id: 'model-1',
+    name: 'Character',
+    type: 'model',
+    gltfUrl: 'blob:character',
+    modelFormat: 'glb',
+    color: '#c49a5c',
+    material: makeDefaultMaterial({ color: '#c49a5c', metalness: 0.1, roughness: 0.7 }),
+    position: { x: 3, y: 0, z: 0 },
+    ...overrides,
+  })
+}
+
+describe('sceneToGltf model objects', () => {
+  it('re-emits glTF source nodes under the object transform', () => {
+    const scene = makeSceneData([makeModelObject()])
+    const doc = sceneToGltf(scene, DEFAULT_GLTF_OPTIONS, new Map([['blob:character', makeGltfSource()]]))
+
+    const wrapperIndex = doc.scenes[0].nodes[0]
+    const wrapper = doc.nodes[wrapperIndex]
+    expect(wrapper.name).toBe('Character')
+    expect(wrapper.translation).toEqual([3, 0, 0])
+    expect(wrapper.mesh).toBeUndefined()
+
+    const root = doc.nodes[wrapper.children![0]]
+    expect(root.name).toBe('Root')
+    expect(root.translation).toEqual([0, 1, 0])
+    const body = doc.nodes[root.children![0]]
+    expect(body.name).toBe('Body')
+    expect(doc.meshes[body.mesh!].name).toBe('BodyMesh')
+  })
+
+  it('remaps materials, textures, images and samplers', () => {
+    const scene = makeSceneData([makeModelObject()])
+    const doc = sceneToGltf(scene, DEFAULT_GLTF_OPTIONS, new Map([['blob:character', makeGltfSource()]]))
+
+    expect(doc.materials).toHaveLength(1)
+    expect(doc.materials[0].name).toBe('Skin')
+    expect(doc.materials[0].pbrMetallicRoughness.baseColorTexture).toEqual({ index: 0 })
+    expect(doc.textures).toEqual([{ source: 0, sampler: 0 }])
+    expect(doc.images![0].mimeType).toBe('image/png')
+    expect(doc.samplers).toHaveLength(1)
+
+    const parsed = JSON.parse(serializeGltfJson(doc))
+    expect(parsed.textures).toHaveLength(1)
+    expect(parsed.images).toHaveLength(1)
+  })
+
+  it('copies source binary data into the packed buffer', () => {
+    const scene = makeSceneData([makeSceneObject({ id: 'box' }), makeModelObject()])
+    const doc = sceneToGltf(scene, DEFAULT_GLTF_OPTIONS, new Map([['blob:character', makeGltfSource()]]))
+    const buf = packBufferData(doc, new Map())
+
+    const bodyMesh = doc.meshes.find(m => m.name === 'BodyMesh')!
+    const posAccessor = doc.accessors[bodyMesh.primitives[0].attributes.POSITION]
+    const bv = doc.bufferViews[posAccessor.bufferView]
+    expect(Array.from(new Float32Array(buf, bv.byteOffset, 9))).toEqual([0, 0, 0, 1, 0, 0, 0, 1, 0])
+
+    const image = doc.images![0]
+    const imageBv = doc.bufferViews[image.bufferView!]
+    expect(Array.from(new Uint8Array(buf, imageBv.byteOffset, 4))).toEqual([137, 80, 78, 71])
+
+    // Box geometry packed alongside is untouched
+    const boxAccessor = doc.accessors[doc.meshes[0].primitives[0].attributes.POSITION]
+    expect(boxAccessor.count).toBe(24)
+  })
+
+  it('replaces model materials when the object material is customized', () => {
+    const scene = makeSceneData([makeModelObject({
+      material: makeDefaultMaterial({ color: '#00ff00', metalness: 0.1, roughness: 0.7 }),
+    })])
+    const doc = sceneToGltf(scene, DEFAULT_GLTF_OPTIONS, new Map([['blob:character', makeGltfSource()]]))
+
+    expect(doc.materials).toHaveLength(1)
+    expect(doc.materials[0].name).toBe('material_standard')
+    const bodyMesh = doc.meshes.find(m => m.name === 'BodyMesh')!
+    expect(bodyMesh.primitives[0].material).toBe(0)
+  })
+
+  it('converts mesh sources into glTF primitives', () => {
+    const scene = makeSceneData([makeModelObject({ modelFormat: 'fbx' })])
+    const doc = sceneToGltf(scene, DEFAULT_GLTF_OPTIONS, new Map([['blob:character', makeMeshSource()]]))
+
+    const mesh = doc.meshes[0]
+    expect(mesh.name).toBe('Crate')
+    expect(mesh.primitives).toHaveLength(2)
+    expect(mesh.primitives[0].attributes).toHaveProperty('POSITION')
+    expect(mesh.primitives[0].attributes).toHaveProperty('NORMAL')
+    expect(mesh.primitives[0].attributes).toHaveProperty('TEXCOORD_0')
+    expect(doc.accessors[mesh.primitives[0].attributes.TEXCOORD_0].type).toBe('VEC2')
+    expect(mesh.primitives[0].material).not.toBe(mesh.primitives[1].material)
+
+    const meshNode = doc.nodes.find(n => n.mesh === 0)!
+    expect(meshNode.translation).toEqual([0, 0.5, 0])
+    expect(meshNode.scale).toEqual([2, 2, 2])
+    expect(meshNode.rotation).toBeUndefined()
+  })
+
+  it('merges each instance of a shared model', () => {
+    const source = makeGltfSource()
+    const scene = makeSceneData([
+      makeModelObject({ id: 'm1', name: 'A' }),
+      makeModelObject({ id: 'm2', name: 'B' }),
+    ])
+    const doc = sceneToGltf(scene, DEFAULT_GLTF_OPTIONS, new Map([['blob:character', source]]))
+    expect(doc.scenes[0].nodes).toHaveLength(2)
+    expect(doc.meshes).toHaveLength(2)
+  })
+
+  it('keeps scene children of a model object alongside the model contents', () => {
+    const scene = makeSceneData([
+      makeModelObject(),
+      makeSceneObject({ id: 'prop', name: 'Prop', parentId: 'model-1' }),
+    ])
+    const doc = sceneToGltf(scene, DEFAULT_GLTF_OPTIONS, new Map([['blob:character', makeGltfSource()]]))
+    const wrapper = doc.nodes[doc.scenes[0].nodes[0]]
+    const childNames = wrapper.children!.map(i => doc.nodes[i].name)
+    expect(childNames).toEqual(['Root', 'Prop'])
+  })
+
+  it('animates the wrapper node of a model', () => {
+    const scene = withTracks(makeSceneData([makeModelObject()]), [{
+      id: 't1',
+      objectId: 'model-1',
+      keyframes: [makeKeyframe({ time: 0 }), makeKeyframe({ time: 1, value: { x: 1, y: 0, z: 0 } })],
+    }])
+    const doc = sceneToGltf(
+      scene,
+      { ...DEFAULT_GLTF_OPTIONS, includeAnimation: true },
+      new Map([['blob:character', makeGltfSource()]]),
+    )
+    const wrapperIndex = doc.scenes[0].nodes[0]
+    expect(doc.animations![0].channels[0].target.node).toBe(wrapperIndex)
+  })
+})
+
+describe('mergeGltfModel', () => {
+  it('remaps skins and joints', () => {
+    const source = makeGltfSource()
+    source.document.nodes = [
+      { name: 'Root', children: [1, 2] },
+      { name: 'Body', mesh: 0, skin: 0 },
+      { name: 'Hip' },
+    ]
+    source.document.skins = [{ joints: [2], skeleton: 2, inverseBindMatrices: 0 }]
+
+    const doc = createGltfDocument()
+    sceneObjectToGltf(makeSceneObject(), doc)  // occupy node 0 and accessors 0-2
+    const roots = mergeGltfModel(doc, source)
+
+    expect(roots).toEqual([1])
+    expect(doc.skins).toEqual([{ joints: [3], skeleton: 3, inverseBindMatrices: 3 }])
+    expect(doc.nodes[2].skin).toBe(0)
+  })
+
+  it('uses parentless nodes as roots when the source has no scenes', () => {
+    const source = makeGltfSource()
+    delete source.document.scenes
+    delete source.document.scene
+    const doc = createGltfDocument()
+    expect(mergeGltfModel(doc, source)).toEqual([0])
+  })
+
+  it('remaps image-format texture extensions and declares them', () => {
+    const source = makeGltfSource()
+    source.document.images!.push({ uri: 'skin.webp', mimeType: 'image/webp' })
+    source.document.textures = [{
+      source: 0,
+      extensions: { EXT_texture_webp: { source: 1 }, VENDOR_texture_magic: { source: 0 } },
+    }]
+    source.document.extensionsUsed = ['EXT_texture_webp', 'VENDOR_texture_magic']
+    source.document.extensionsRequired = ['EXT_texture_webp']
+
+    const doc = createGltfDocument()
+    mergeGltfModel(doc, makeGltfSource())  // occupy image 0
+    mergeGltfModel(doc, source)
+
+    expect(doc.textures![1]).toEqual({ source: 1, extensions: { EXT_texture_webp: { source: 2 } } })
+    expect(doc.images![2].uri).toBe('skin.webp')
+    const parsed = JSON.parse(serializeGltfJson(doc))
+    expect(parsed.extensionsUsed).toEqual(['EXT_texture_webp'])
+    expect(parsed.extensionsRequired).toEqual(['EXT_texture_webp'])
+  })
+
+  it('declares no extensions for textures without them', () => {
+    const doc = createGltfDocument()
+    mergeGltfModel(doc, makeGltfSource())
+    expect(doc.textures).toEqual([{ source: 0, sampler: 0 }])
+    expect(doc.extensionsUsed).toBeUndefined()
+  })
+
+  it('zero-fills accessors without a buffer view', () => {
+    const source = makeGltfSource()
+    source.document.accessors!.push({ componentType: 5126, count: 2, type: 'VEC3' })
+    const doc = createGltfDocument()
+    mergeGltfModel(doc, source)
+    const acc = doc.accessors[2]
+    expect(doc.bufferViews[acc.bufferView].byteLength).toBe(24)
+  })
+})
+
+describe('createGltfExport', () => {
+  it('produces a GLB blob for binary exports', async () => {
+    const result = createGltfExport(makeSceneData([makeSceneObject()]), DEFAULT_GLTF_OPTIONS)
+    expect(result.format).toBe('glb')
+    expect(result.fileName).toBe('Test_Scene.glb')
+    expect(result.fileSize).toBe(result.blob.size)
+
+    const bytes = new DataView(await result.blob.arrayBuffer())
+    expect(bytes.getUint32(0, true)).toBe(0x46546C67)
+  })
+
+  it('embeds the buffer as a data URI for .gltf exports', async () => {
+    const result = createGltfExport(
+      makeSceneData([makeSceneObject()]),
+      { ...DEFAULT_GLTF_OPTIONS, binary: false },
+    )
+    expect(result.format).toBe('gltf')
+    const parsed = JSON.parse(await result.blob.text())
+    expect(parsed.buffers[0].uri).toMatch(/^data:application\/octet-stream;base64,/)
+    expect(parsed.meshes).toHaveLength(1)
+  })
+})
+
 // ── 8. serializeGltfJson ──────────────────────────────────────────────
 
 describe('serializeGltfJson', () => {
@@ -1082,6 +1741,12 @@ describe('validateVideoOptions', () => {
     }
   })
 
+  it('catches an unknown output or frame format', () => {
+    const errors = validateVideoOptions({ ...DEFAULT_VIDEO_OPTIONS, output: 'gif' as never, frameFormat: 'webp' as never })
+    expect(errors.some(e => e.includes('output'))).toBe(true)
+    expect(errors.some(e => e.includes('frameFormat'))).toBe(true)
+  })
+
   it('catches bitrate below 100000', () => {
     const opts = { ...DEFAULT_VIDEO_OPTIONS, bitrate: 50000 }
     const errors = validateVideoOptions(opts)
@@ -1,10 +1,20 @@
 /** glTF 2.0 export pipeline — pure functions for scene-to-glTF conversion,
  *  geometry generation, binary assembly, and browser-dependent capture utilities. */
 
-import type { SceneObject, Vec3, MaterialData, SceneData } from '../types/scene'
 import type {
-  GltfExportOptions, ScreenshotOptions, VideoRecordingOptions,
+  SceneObject, Vec3, MaterialData, SceneData, AnimationTrack, AnimationKeyframe, AnimatableProperty,
+  LightData, LightType,
+} from '../types/scene'
+import type { CameraShot } from '../types/cameraPath'
+import type {
+  GltfExportOptions, ScreenshotOptions, VideoRecordingOptions, ExportResult,
 } from '../types/export'
+import type { OverlayBurnIn } from '../types/overlay'
+import { isCameraTrack, getPropertyKeyframes, evaluateProperty, hasChannelCurves } from './animation'
+import { STUDIO_LIGHTS } from './studioLights'
+import { hasSceneLights, isLightObject } from './lights'
+import { isModelMaterialCustomized } from './modelLoader'
+import { drawFrameOverlay } from './overlays'
 
 // ── Constants ────────────────────────────────────────────────────────
 
@@ -12,8 +22,22 @@ const DEG2RAD = Math.PI / 180
 const GLTF_VERSION = '2.0'
 const GENERATOR = '3D Scene Cowboy Export Pipeline'
 
+// Baked animation sampling rate (samples per second) for eased segments
+const ANIMATION_SAMPLE_RATE = 30
+
+// Step segments are sampled this long (seconds) before their key to hold the value
+const STEP_HOLD_OFFSET = 0.001
+
+// Exported camera defaults (matches the viewport camera)
+const DEFAULT_CAMERA_FOV = 50
+const CAMERA_ZNEAR = 0.1
+const CAMERA_ZFAR = 1000
+
+const KHR_LIGHTS_PUNCTUAL = 'KHR_lights_punctual'
+
 // glTF component type constants
 const GL_UNSIGNED_SHORT = 5123
+const GL_UNSIGNED_INT = 5125
 const GL_FLOAT = 5126
 
 // glTF buffer view target constants
@@ -33,10 +57,15 @@ const BIN_CHUNK_TYPE = 0x004E4942  // 'BIN\0'
 export interface GltfNode {
   name: string
   mesh?: number
+  camera?: number
+  skin?: number
+  matrix?: number[]
   translation?: number[]
   rotation?: number[]
   scale?: number[]
+  weights?: number[]
   children?: number[]
+  extensions?: { KHR_lights_punctual?: { light: number } }
 }
 
 export interface GltfMesh {
@@ -49,6 +78,14 @@ export interface GltfPrimitive {
   indices?: number
   material?: number
   mode?: number
+  targets?: Array<Record<string, number>>
+}
+
+export interface GltfTextureInfo {
+  index: number
+  texCoord?: number
+  scale?: number        // normalTexture only
+  strength?: number     // occlusionTexture only
 }
 
 export interface GltfMaterial {
@@ -57,25 +94,106 @@ export interface GltfMaterial {
     baseColorFactor: number[]
     metallicFactor: number
     roughnessFactor: number
+    baseColorTexture?: GltfTextureInfo
+    metallicRoughnessTexture?: GltfTextureInfo
   }
+  normalTexture?: GltfTextureInfo
+  occlusionTexture?: GltfTextureInfo
+  emissiveTexture?: GltfTextureInfo
   emissiveFactor?: number[]
   alphaMode?: string
+  alphaCutoff?: number
   doubleSided?: boolean
 }
 
 export interface GltfAccessor {
   bufferView: number
+  byteOffset?: number
   componentType: number
+  normalized?: boolean
   count: number
   type: string
   min?: number[]
   max?: number[]
+  sparse?: {
+    count: number
+    indices: { bufferView: number; byteOffset?: number; componentType: number }
+    values: { bufferView: number; byteOffset?: number }
+  }
+}
+
+export interface GltfTexture {
+  name?: string
+  source?: number
+  sampler?: number
+  /** Alternative image formats, e.g. EXT_texture_webp: { source } */
+  extensions?: Record<string, { source?: number }>
+}
+
+export interface GltfImage {
+  name?: string
+  uri?: string
+  bufferView?: number
+  mimeType?: string
+}
+
+export interface GltfSampler {
+  magFilter?: number
+  minFilter?: number
+  wrapS?: number
+  wrapT?: number
+}
+
+export interface GltfSkin {
+  name?: string
+  inverseBindMatrices?: number
+  skeleton?: number
+  joints: number[]
+}
+
+export interface GltfCamera {
+  name: string
+  type: 'perspective'
+  perspective: {
+    yfov: number          // radians
+    znear: number
+    zfar?: number
+    aspectRatio?: number
+  }
+}
+
+export interface GltfAnimationSampler {
+  input: number           // accessor of keyframe times (seconds)
+  output: number          // accessor of keyframe values
+  interpolation: 'LINEAR' | 'STEP' | 'CUBICSPLINE'
+}
+
+export interface GltfAnimationChannel {
+  sampler: number
+  target: { node: number; path: 'translation' | 'rotation' | 'scale' }
+}
+
+export interface GltfAnimation {
+  name: string
+  samplers: GltfAnimationSampler[]
+  channels: GltfAnimationChannel[]
+}
+
+/** KHR_lights_punctual light definition */
+export interface GltfLight {
+  name: string
+  type: 'directional' | 'point' | 'spot'
+  color: number[]
+  intensity: number
+  range?: number
+  spot?: { innerConeAngle: number; outerConeAngle: number }
 }
 
 export interface GltfBufferView {
   buffer: number
   byteOffset: number
   byteLength: number
+  byteStride?: number
   target?: number
 }
 
@@ -94,8 +212,68 @@ export interface GltfDocument {
   accessors: GltfAccessor[]
   bufferViews: GltfBufferView[]
   buffers: GltfBuffer[]
+  cameras?: GltfCamera[]
+  animations?: GltfAnimation[]
+  textures?: GltfTexture[]
+  images?: GltfImage[]
+  samplers?: GltfSampler[]
+  skins?: GltfSkin[]
+  extensionsUsed?: string[]
+  extensionsRequired?: string[]
+  extensions?: { KHR_lights_punctual?: { lights: GltfLight[] } }
+}
+
+// ── Model Export Sources ─────────────────────────────────────────────
+
+/** The parts of an imported glTF document that are merged into an export.
+ *  Mirrors GltfDocument, but every top-level array is optional as in the spec. */
+export interface GltfSourceDocument {
+  scene?: number
+  scenes?: Array<{ nodes?: number[] }>
+  nodes?: Array<Partial<GltfNode>>
+  meshes?: GltfMesh[]
+  materials?: Array<Partial<GltfMaterial> & { pbrMetallicRoughness?: Partial<GltfMaterial['pbrMetallicRoughness']> }>
+  textures?: GltfTexture[]
+  images?: GltfImage[]
+  samplers?: GltfSampler[]
+  skins?: GltfSkin[]
+  accessors?: Array<Omit<GltfAccessor, 'bufferView'> & { bufferView?: number }>
+  bufferViews?: Array<Omit<GltfBufferView, 'byteOffset'> & { byteOffset?: number }>
+  buffers?: GltfBuffer[]
+  extensionsUsed?: string[]
+  extensionsRequired?: string[]
+}
+
+/** Imported glTF/GLB model: its JSON document plus one resolved byte array
+ *  per entry in `document.buffers`. */
+export interface GltfModelSource {
+  kind: 'gltf'
+  document: GltfSourceDocument
+  buffers: Uint8Array[]
+}
+
+/** A mesh extracted from a loaded three.js model, positioned relative to the model root.
+ *  Each primitive shares the vertex attributes and owns an index range + material. */
+export interface ModelMeshData {
+  name: string
+  translation: number[]
+  rotation: number[]
+  scale: number[]
+  positions: Float32Array
+  normals?: Float32Array
+  uvs?: Float32Array
+  primitives: Array<{ indices: Uint16Array | Uint32Array; material: MaterialData }>
 }
 
+/** Imported FBX/OBJ/DAE model converted from three.js geometry */
+export interface MeshModelSource {
+  kind: 'mesh'
+  meshes: ModelMeshData[]
+}
+
+/** Loaded model data keyed by SceneObject.gltfUrl when passed to sceneToGltf */
+export type ModelExportSource = GltfModelSource | MeshModelSource
+
 // ── Geometry Output ──────────────────────────────────────────────────
 
 interface GeometryData {
@@ -535,12 +713,18 @@ export function materialToGltf(mat: MaterialData): GltfMaterial {
 
 // ── 4. Scene to glTF Conversion ──────────────────────────────────────
 
-/** Geometry data registry used during scene-to-glTF conversion.
- *  Maps mesh index to the generated geometry for later binary packing. */
-const GEOMETRY_REGISTRY = Symbol('geometryRegistry')
+/** Binary payload registry used during scene-to-glTF conversion.
+ *  Maps buffer view index to the bytes that back it, for later binary packing. */
+const BUFFER_VIEW_DATA = Symbol('bufferViewData')
 
 interface GltfDocumentWithGeometry extends GltfDocument {
-  [GEOMETRY_REGISTRY]?: Map<number, GeometryData>
+  [BUFFER_VIEW_DATA]?: Map<number, ArrayBufferView>
+}
+
+type AccessorType = 'SCALAR' | 'VEC2' | 'VEC3' | 'VEC4' | 'MAT4'
+
+const ACCESSOR_COMPONENTS: Record<AccessorType, number> = {
+  SCALAR: 1, VEC2: 2, VEC3: 3, VEC4: 4, MAT4: 16,
 }
 
 /** Get default geometry dimensions for a given object type */
@@ -566,107 +750,85 @@ function getDefaultGeometry(obj: SceneObject): GeometryData | null {
   }
 }
 
-/** Add geometry data as buffer views and accessors to the document.
- *  Returns accessor indices for the primitive. */
-function addGeometryToDocument(
+/** Append a buffer view backed by `data` at the end of the binary buffer.
+ *  Returns the buffer view index. */
+function addBufferView(
   doc: GltfDocumentWithGeometry,
-  geometry: GeometryData,
-  meshIndex: number,
-): { positionAccessor: number; normalAccessor: number; indexAccessor: number } {
-  // Track geometry for binary packing
-  if (!doc[GEOMETRY_REGISTRY]) {
-    doc[GEOMETRY_REGISTRY] = new Map()
+  data: ArrayBufferView,
+  target?: number,
+  byteStride?: number,
+): number {
+  if (!doc[BUFFER_VIEW_DATA]) {
+    doc[BUFFER_VIEW_DATA] = new Map()
   }
-  doc[GEOMETRY_REGISTRY].set(meshIndex, geometry)
-
-  const posBytes = geometry.positions.byteLength
-  const normalBytes = geometry.normals.byteLength
-  const indexBytes = geometry.indices.byteLength
 
-  // Compute cumulative byte offset from existing buffer views
+  // Compute cumulative byte offset from existing buffer views, aligned to 4 bytes
   let currentOffset = 0
   for (const bv of doc.bufferViews) {
     currentOffset = Math.max(currentOffset, bv.byteOffset + bv.byteLength)
   }
-  // Align to 4 bytes
   currentOffset = alignTo4(currentOffset)
 
-  // Position buffer view
-  const posBvIndex = doc.bufferViews.length
-  doc.bufferViews.push({
+  const bvIndex = doc.bufferViews.length
+  const bufferView: GltfBufferView = {
     buffer: 0,
     byteOffset: currentOffset,
-    byteLength: posBytes,
-    target: GL_ARRAY_BUFFER,
-  })
-  currentOffset = alignTo4(currentOffset + posBytes)
-
-  // Normal buffer view
-  const normalBvIndex = doc.bufferViews.length
-  doc.bufferViews.push({
-    buffer: 0,
-    byteOffset: currentOffset,
-    byteLength: normalBytes,
-    target: GL_ARRAY_BUFFER,
-  })
-  currentOffset = alignTo4(currentOffset + normalBytes)
+    byteLength: data.byteLength,
+  }
+  if (byteStride !== undefined) bufferView.byteStride = byteStride
+  if (target !== undefined) bufferView.target = target
+  doc.bufferViews.push(bufferView)
+  doc[BUFFER_VIEW_DATA].set(bvIndex, data)
 
-  // Index buffer view
-  const indexBvIndex = doc.bufferViews.length
-  doc.bufferViews.push({
-    buffer: 0,
-    byteOffset: currentOffset,
-    byteLength: indexBytes,
-    target: GL_ELEMENT_ARRAY_BUFFER,
-  })
+  return bvIndex
+}
 
-  // Compute position bounds
-  const posMin = [Infinity, Infinity, Infinity]
-  const posMax = [-Infinity, -Infinity, -Infinity]
-  for (let i = 0; i < geometry.positions.length; i += 3) {
-    posMin[0] = Math.min(posMin[0], geometry.positions[i])
-    posMin[1] = Math.min(posMin[1], geometry.positions[i + 1])
-    posMin[2] = Math.min(posMin[2], geometry.positions[i + 2])
-    posMax[0] = Math.max(posMax[0], geometry.positions[i])
-    posMax[1] = Math.max(posMax[1], geometry.positions[i + 1])
-    posMax[2] = Math.max(posMax[2], geometry.positions[i + 2])
-  }
-
-  const vertexCount = geometry.positions.length / 3
-
-  // Position accessor
-  const posAccessorIndex = doc.accessors.length
-  doc.accessors.push({
-    bufferView: posBvIndex,
-    componentType: GL_FLOAT,
-    count: vertexCount,
-    type: 'VEC3',
-    min: posMin,
-    max: posMax,
-  })
+/** Append an accessor (with its own buffer view) for a typed array.
+ *  min/max are included when requested (glTF requires them on POSITION
+ *  attributes and animation sampler inputs). */
+function addAccessor(
+  doc: GltfDocumentWithGeometry,
+  data: Float32Array | Uint16Array | Uint32Array,
+  type: AccessorType,
+  target?: number,
+  includeBounds = false,
+): number {
+  const components = ACCESSOR_COMPONENTS[type]
+  const accessor: GltfAccessor = {
+    bufferView: addBufferView(doc, data, target),
+    componentType: data instanceof Float32Array ? GL_FLOAT
+      : data instanceof Uint32Array ? GL_UNSIGNED_INT : GL_UNSIGNED_SHORT,
+    count: data.length / components,
+    type,
+  }
 
-  // Normal accessor
-  const normalAccessorIndex = doc.accessors.length
-  doc.accessors.push({
-    bufferView: normalBvIndex,
-    componentType: GL_FLOAT,
-    count: vertexCount,
-    type: 'VEC3',
-  })
+  if (includeBounds) {
+    const min = new Array<number>(components).fill(Infinity)
+    const max = new Array<number>(components).fill(-Infinity)
+    for (let i = 0; i < data.length; i++) {
+      const c = i % components
+      min[c] = Math.min(min[c], data[i])
+      max[c] = Math.max(max[c], data[i])
+    }
+    accessor.min = min
+    accessor.max = max
+  }
 
-  // Index accessor
-  const indexAccessorIndex = doc.accessors.length
-  doc.accessors.push({
-    bufferView: indexBvIndex,
-    componentType: GL_UNSIGNED_SHORT,
-    count: geometry.indices.length,
-    type: 'SCALAR',
-  })
+  const accessorIndex = doc.accessors.length
+  doc.accessors.push(accessor)
+  return accessorIndex
+}
 
+/** Add geometry data as buffer views and accessors to the document.
+ *  Returns accessor indices for the primitive. */
+function addGeometryToDocument(
+  doc: GltfDocumentWithGeometry,
+  geometry: GeometryData,
+): { positionAccessor: number; normalAccessor: number; indexAccessor: number } {
   return {
-    positionAccessor: posAccessorIndex,
-    normalAccessor: normalAccessorIndex,
-    indexAccessor: indexAccessorIndex,
+    positionAccessor: addAccessor(doc, geometry.positions, 'VEC3', GL_ARRAY_BUFFER, true),
+    normalAccessor: addAccessor(doc, geometry.normals, 'VEC3', GL_ARRAY_BUFFER),
+    indexAccessor: addAccessor(doc, geometry.indices, 'SCALAR', GL_ELEMENT_ARRAY_BUFFER),
   }
 }
 
@@ -693,7 +855,7 @@ export function sceneObjectToGltf(
 
   // Add mesh
   const meshIndex = doc.meshes.length
-  const accessors = addGeometryToDocument(doc as GltfDocumentWithGeometry, geometry, meshIndex)
+  const accessors = addGeometryToDocument(doc as GltfDocumentWithGeometry, geometry)
 
   doc.meshes.push({
     name: `${obj.name}_mesh`,
@@ -736,12 +898,19 @@ export function sceneObjectToGltf(
 }
 
 /** Convert an entire scene to a glTF document.
- *  Respects parent/child hierarchy and builds proper node tree. */
+ *  Respects parent/child hierarchy and builds proper node tree.
+ *  Options control animation, camera and light output plus the number of
+ *  decimals kept for node transforms and animation values.
+ *  Model objects are merged from `models` (keyed by gltfUrl); models without
+ *  a loaded source are skipped. Light objects become KHR_lights_punctual
+ *  lights; the studio rig is only exported for scenes without lights. */
 export function sceneToGltf(
   sceneData: SceneData,
-  _options: GltfExportOptions,
+  options: GltfExportOptions,
+  models?: ReadonlyMap<string, ModelExportSource>,
 ): GltfDocument {
   const doc = createGltfDocument() as GltfDocumentWithGeometry
+  const precision = options.precision
 
   // Build object lookup for hierarchy
   const objectMap = new Map<string, SceneObject>()
@@ -768,69 +937,94 @@ export function sceneToGltf(
     }
   }
 
+  // Object ID -> node index, used to target animation channels
+  const nodeByObjectId = new Map<string, number>()
+
   // Recursively convert objects with hierarchy
   function convertObject(obj: SceneObject): number | null {
     if (!obj.visible) return null  // skip invisible objects
-    const geometry = getDefaultGeometry(obj)
-    if (!geometry) return null  // skip model types
 
-    // Add material
-    const materialIndex = doc.materials.length
-    doc.materials.push(materialToGltf(obj.material))
+    let meshIndex: number | undefined
+    let lightIndex: number | undefined
+    let modelRoots: number[] = []
 
-    // Add mesh
-    const meshIndex = doc.meshes.length
-    const accessors = addGeometryToDocument(doc, geometry, meshIndex)
+    if (obj.type === 'model') {
+      const source = obj.gltfUrl ? models?.get(obj.gltfUrl) : undefined
+      if (!source) return null  // model not loaded
 
-    doc.meshes.push({
-      name: `${obj.name}_mesh`,
-      primitives: [{
-        attributes: {
-          POSITION: accessors.positionAccessor,
-          NORMAL: accessors.normalAccessor,
-        },
-        indices: accessors.indexAccessor,
-        material: materialIndex,
-      }],
-    })
+      // Customized materials replace the model's own, as in the viewport
+      let materialOverride: number | null = null
+      if (isModelMaterialCustomized(obj.material)) {
+        materialOverride = doc.materials.length
+        doc.materials.push(materialToGltf(obj.material))
+      }
+
+      modelRoots = source.kind === 'gltf'
+        ? mergeGltfModel(doc, source, materialOverride)
+        : mergeMeshModel(doc, source, materialOverride, precision)
+    } else if (isLightObject(obj)) {
+      // Lights stay in the hierarchy as plain nodes when lights are not exported
+      const gltfLight = options.includeLights ? lightObjectToGltf(obj.name, obj.type, obj.light, precision) : null
+      if (gltfLight) lightIndex = addPunctualLight(doc, gltfLight)
+    } else {
+      const geometry = getDefaultGeometry(obj)
+      if (!geometry) return null  // unsupported type
+
+      // Add material
+      const materialIndex = doc.materials.length
+      doc.materials.push(materialToGltf(obj.material))
+
+      // Add mesh
+      meshIndex = doc.meshes.length
+      const accessors = addGeometryToDocument(doc, geometry)
+
+      doc.meshes.push({
+        name: `${obj.name}_mesh`,
+        primitives: [{
+          attributes: {
+            POSITION: accessors.positionAccessor,
+            NORMAL: accessors.normalAccessor,
+          },
+          indices: accessors.indexAccessor,
+          material: materialIndex,
+        }],
+      })
+    }
 
     // Create node
     const nodeIndex = doc.nodes.length
     const quat = eulerToQuaternion(obj.rotation)
 
-    const node: GltfNode = {
-      name: obj.name,
-      mesh: meshIndex,
-    }
+    const node: GltfNode = { name: obj.name }
+    if (meshIndex !== undefined) node.mesh = meshIndex
+    if (lightIndex !== undefined) node.extensions = { KHR_lights_punctual: { light: lightIndex } }
 
     if (obj.position.x !== 0 || obj.position.y !== 0 || obj.position.z !== 0) {
-      node.translation = [obj.position.x, obj.position.y, obj.position.z]
+      node.translation = quantizeArray([obj.position.x, obj.position.y, obj.position.z], precision)
     }
 
     if (quat[0] !== 0 || quat[1] !== 0 || quat[2] !== 0 || quat[3] !== 1) {
-      node.rotation = [quat[0], quat[1], quat[2], quat[3]]
+      node.rotation = quantizeArray(quat, precision)
     }
 
     if (obj.scale.x !== 1 || obj.scale.y !== 1 || obj.scale.z !== 1) {
-      node.scale = [obj.scale.x, obj.scale.y, obj.scale.z]
+      node.scale = quantizeArray([obj.scale.x, obj.scale.y, obj.scale.z], precision)
     }
 
     doc.nodes.push(node)
-
-    // Process children
-    const children = childrenMap.get(obj.id)
-    if (children && children.length > 0) {
-      const childIndices: number[] = []
-      for (const child of children) {
-        const childNodeIndex = convertObject(child)
-        if (childNodeIndex !== null) {
-          childIndices.push(childNodeIndex)
-        }
-      }
-      if (childIndices.length > 0) {
-        doc.nodes[nodeIndex].children = childIndices
+    nodeByObjectId.set(obj.id, nodeIndex)
+
+    // Process children (model contents first, then scene children)
+    const childIndices: number[] = [...modelRoots]
+    for (const child of childrenMap.get(obj.id) ?? []) {
+      const childNodeIndex = convertObject(child)
+      if (childNodeIndex !== null) {
+        childIndices.push(childNodeIndex)
       }
     }
+    if (childIndices.length > 0) {
+      doc.nodes[nodeIndex].children = childIndices
+    }
 
     return nodeIndex
   }
@@ -843,27 +1037,612 @@ export function sceneToGltf(
     }
   }
 
+  // Cameras: the current view plus one per saved shot
+  if (options.includeCamera) {
+    if (options.cameraPosition && options.cameraTarget) {
+      addCameraNode(doc, 'Current View', options.cameraPosition, options.cameraTarget, options, precision)
+    }
+    for (const shot of sceneData.shots ?? []) {
+      addShotCamera(doc, shot, options, precision)
+    }
+  }
+
+  if (options.includeLights && !hasSceneLights(sceneData.objects)) {
+    addStudioLights(doc, precision)
+  }
+
+  if (options.includeAnimation && sceneData.animationTracks && sceneData.animationTracks.length > 0) {
+    addAnimation(doc, sceneData.animationTracks, nodeByObjectId, options, precision)
+  }
+
   return doc
 }
 
+// ── 4b. Cameras, Lights & Animation ──────────────────────────────────
+
+/** Round a value to the given number of decimal places */
+export function quantize(value: number, precision: number): number {
+  const factor = Math.pow(10, precision)
+  const rounded = Math.round(value * factor) / factor
+  // Avoid emitting -0 in JSON output
+  return rounded === 0 ? 0 : rounded
+}
+
+function quantizeArray(values: readonly number[], precision: number): number[] {
+  return values.map(v => quantize(v, precision))
+}
+
+/** Compute the rotation quaternion [x, y, z, w] that orients a node at `eye`
+ *  so its -Z axis (glTF camera/light forward) points at `target`, with +Y up. */
+export function lookAtQuaternion(eye: Vec3, target: Vec3): [number, number, number, number] {
+  // Back axis (+Z) points from target to eye
+  let zx = eye.x - target.x
+  let zy = eye.y - target.y
+  let zz = eye.z - target.z
+  const zLen = Math.sqrt(zx * zx + zy * zy + zz * zz)
+  if (zLen === 0) return [0, 0, 0, 1]
+  zx /= zLen; zy /= zLen; zz /= zLen
+
+  // Use world +Y as up unless looking straight up/down, then fall back to +Z
+  let ux = 0, uy = 1, uz = 0
+  if (Math.abs(zy) > 0.999999) {
+    ux = 0; uy = 0; uz = 1
+  }
+
+  // Right axis = up × back
+  let xx = uy * zz - uz * zy
+  let xy = uz * zx - ux * zz
+  let xz = ux * zy - uy * zx
+  const xLen = Math.sqrt(xx * xx + xy * xy + xz * xz)
+  xx /= xLen; xy /= xLen; xz /= xLen
+
+  // True up = back × right
+  const yx = zy * xz - zz * xy
+  const yy = zz * xx - zx * xz
+  const yz = zx * xy - zy * xx
+
+  // Rotation matrix (columns = right, up, back) to quaternion
+  const m00 = xx, m01 = yx, m02 = zx
+  const m10 = xy, m11 = yy, m12 = zy
+  const m20 = xz, m21 = yz, m22 = zz
+  const trace = m00 + m11 + m22
+
+  if (trace > 0) {
+    const s = 0.5 / Math.sqrt(trace + 1)
+    return [(m21 - m12) * s, (m02 - m20) * s, (m10 - m01) * s, 0.25 / s]
+  }
+  if (m00 > m11 && m00 > m22) {
+    const s = 2 * Math.sqrt(1 + m00 - m11 - m22)
+    return [0.25 * s, (m01 + m10) / s, (m02 + m20) / s, (m21 - m12) / s]
+  }
+  if (m11 > m22) {
+    const s = 2 * Math.sqrt(1 + m11 - m00 - m22)
+    return [(m01 + m10) / s, 0.25 * s, (m12 + m21) / s, (m02 - m20) / s]
+  }
+  const s = 2 * Math.sqrt(1 + m22 - m00 - m11)
+  return [(m02 + m20) / s, (m12 + m21) / s, 0.25 * s, (m10 - m01) / s]
+}
+
+/** Add a perspective camera and a root node placed at `position` looking at `target`.
+ *  Returns the node index. */
+function addCameraNode(
+  doc: GltfDocument,
+  name: string,
+  position: Vec3,
+  target: Vec3,
+  options: GltfExportOptions,
+  precision: number,
+): number {
+  if (!doc.cameras) doc.cameras = []
+  const cameraIndex = doc.cameras.length
+
+  const camera: GltfCamera = {
+    name,
+    type: 'perspective',
+    perspective: {
+      yfov: quantize((options.cameraFov ?? DEFAULT_CAMERA_FOV) * DEG2RAD, precision),
+      znear: CAMERA_ZNEAR,
+      zfar: CAMERA_ZFAR,
+    },
+  }
+  if (options.cameraAspectRatio) {
+    camera.perspective.aspectRatio = quantize(options.cameraAspectRatio, precision)
+  }
+  doc.cameras.push(camera)
+
+  const nodeIndex = doc.nodes.length
+  doc.nodes.push({
+    name,
+    camera: cameraIndex,
+    translation: quantizeArray([position.x, position.y, position.z], precision),
+    rotation: quantizeArray(lookAtQuaternion(position, target), precision),
+  })
+  doc.scenes[0].nodes.push(nodeIndex)
+  return nodeIndex
+}
+
+function addShotCamera(
+  doc: GltfDocument,
+  shot: CameraShot,
+  options: GltfExportOptions,
+  precision: number,
+): number {
+  return addCameraNode(doc, shot.name, shot.position, shot.target, options, precision)
+}
+
+/** Register a light in the document's KHR_lights_punctual extension.
+ *  Returns the light index. */
+function addPunctualLight(doc: GltfDocument, light: GltfLight): number {
+  if (!doc.extensions?.KHR_lights_punctual) {
+    doc.extensions = { ...doc.extensions, KHR_lights_punctual: { lights: [] } }
+    doc.extensionsUsed = [...(doc.extensionsUsed ?? []), KHR_LIGHTS_PUNCTUAL]
+  }
+  const lights = doc.extensions.KHR_lights_punctual!.lights
+  lights.push(light)
+  return lights.length - 1
+}
+
+const GLTF_LIGHT_TYPES: Partial<Record<LightType, GltfLight['type']>> = {
+  directionalLight: 'directional',
+  pointLight: 'point',
+  spotLight: 'spot',
+}
+
+/** Convert a light object's settings to a punctual light. Area and hemisphere
+ *  lights have no punctual equivalent and return null. */
+function lightObjectToGltf(name: string, type: LightType, light: LightData, precision: number): GltfLight | null {
+  const gltfType = GLTF_LIGHT_TYPES[type]
+  if (!gltfType) return null
+
+  const color = hexToGltfColor(light.color)
+  const gltfLight: GltfLight = {
+    name,
+    type: gltfType,
+    color: quantizeArray([color[0], color[1], color[2]], precision),
+    intensity: light.intensity,
+  }
+  if (gltfType !== 'directional' && light.range > 0) {
+    gltfLight.range = light.range
+  }
+  if (gltfType === 'spot') {
+    gltfLight.spot = {
+      innerConeAngle: quantize(light.innerConeAngle * DEG2RAD, precision),
+      outerConeAngle: quantize(light.outerConeAngle * DEG2RAD, precision),
+    }
+  }
+  return gltfLight
+}
+
+/** Emit the viewport's studio light rig as KHR_lights_punctual lights.
+ *  Ambient light has no punctual equivalent and is skipped. */
+function addStudioLights(doc: GltfDocument, precision: number): void {
+  const origin: Vec3 = { x: 0, y: 0, z: 0 }
+
+  for (const light of STUDIO_LIGHTS) {
+    if (light.type === 'ambient' || !light.position) continue
+
+    const color = hexToGltfColor(light.color)
+    const gltfLight: GltfLight = {
+      name: light.name,
+      type: light.type,
+      color: quantizeArray([color[0], color[1], color[2]], precision),
+      intensity: light.intensity,
+    }
+    if (light.type === 'point' && light.distance && light.distance > 0) {
+      gltfLight.range = light.distance
+    }
+
+    const lightIndex = addPunctualLight(doc, gltfLight)
+
+    const node: GltfNode = {
+      name: light.name,
+      translation: quantizeArray([light.position.x, light.position.y, light.position.z], precision),
+      extensions: { KHR_lights_punctual: { light: lightIndex } },
+    }
+    // Directional lights shine down their local -Z; aim them at the origin like three.js does
+    if (light.type === 'directional') {
+      node.rotation = quantizeArray(lookAtQuaternion(light.position, origin), precision)
+    }
+
+    doc.scenes[0].nodes.push(doc.nodes.length)
+    doc.nodes.push(node)
+  }
+}
+
+/** Sample times for a keyframe list. Linear segments keep only their end keys;
+ *  step segments add a held sample just before their end key; eased segments
+ *  (or all segments when `bakeAll`) are sampled at ANIMATION_SAMPLE_RATE so
+ *  the curve survives as LINEAR interpolation. */
+export function sampleKeyframeTimes(keyframes: AnimationKeyframe[], bakeAll = false): number[] {
+  if (keyframes.length === 0) return []
+
+  const times: number[] = [keyframes[0].time]
+  const step = 1 / ANIMATION_SAMPLE_RATE
+
+  for (let i = 1; i < keyframes.length; i++) {
+    const start = keyframes[i - 1].time
+    const end = keyframes[i].time
+    if (end <= start) continue
+
+    if (keyframes[i].easing === 'step' && !bakeAll) {
+      // Hold until just before the key so LINEAR interpolation jumps instead of ramping
+      times.push(Math.max(start, end - STEP_HOLD_OFFSET))
+    } else if (bakeAll || keyframes[i].easing !== 'linear') {
+      const steps = Math.ceil((end - start) / step)
+      for (let s = 1; s < steps; s++) {
+        times.push(start + (s * (end - start)) / steps)
+      }
+    }
+    times.push(end)
+  }
+
+  return times
+}
+
+/** Merge several sorted time lists into one sorted list without duplicates */
+function mergeTimes(lists: number[][]): number[] {
+  const merged = [...new Set(lists.flat())]
+  return merged.sort((a, b) => a - b)
+}
+
+/** Keep consecutive quaternions in the same hemisphere so LINEAR slerp
+ *  takes the short path between samples. */
+function makeQuaternionsContinuous(quats: [number, number, number, number][]): void {
+  for (let i = 1; i < quats.length; i++) {
+    const a = quats[i - 1]
+    const b = quats[i]
+    if (a[0] * b[0] + a[1] * b[1] + a[2] * b[2] + a[3] * b[3] < 0) {
+      quats[i] = [-b[0], -b[1], -b[2], -b[3]]
+    }
+  }
+}
+
+const OBJECT_CHANNEL_PATHS: ReadonlyArray<[AnimatableProperty, GltfAnimationChannel['target']['path']]> = [
+  ['position', 'translation'],
+  ['rotation', 'rotation'],
+  ['scale', 'scale'],
+]
+
+/** Build a single glTF animation from the scene's animation tracks.
+ *  Object tracks target their exported nodes; the camera track drives a
+ *  dedicated "Timeline Camera" node when cameras are included. */
+function addAnimation(
+  doc: GltfDocumentWithGeometry,
+  tracks: AnimationTrack[],
+  nodeByObjectId: Map<string, number>,
+  options: GltfExportOptions,
+  precision: number,
+): void {
+  const animation: GltfAnimation = { name: 'Scene Animation', samplers: [], channels: [] }
+
+  function addChannel(
+    node: number,
+    path: GltfAnimationChannel['target']['path'],
+    times: number[],
+    values: number[],
+  ): void {
+    const input = addAccessor(doc, new Float32Array(quantizeArray(times, precision)), 'SCALAR', undefined, true)
+    const output = addAccessor(
+      doc,
+      new Float32Array(quantizeArray(values, precision)),
+      path === 'rotation' ? 'VEC4' : 'VEC3',
+    )
+    animation.samplers.push({ input, output, interpolation: 'LINEAR' })
+    animation.channels.push({ sampler: animation.samplers.length - 1, target: { node, path } })
+  }
+
+  for (const track of tracks) {
+    if (isCameraTrack(track)) {
+      if (!options.includeCamera) continue
+
+      const posKeys = getPropertyKeyframes(track, 'cameraPosition')
+      const targetKeys = getPropertyKeyframes(track, 'cameraTarget')
+      if (posKeys.length === 0) continue
+
+      // Orientation depends on both position and target, so bake every segment
+      const times = mergeTimes([sampleKeyframeTimes(posKeys, true), sampleKeyframeTimes(targetKeys, true)])
+      const positions = times.map(t => evaluateProperty(track, 'cameraPosition', t)!)
+      const targets = times.map(t => evaluateProperty(track, 'cameraTarget', t) ?? { x: 0, y: 0, z: 0 })
+
+      const node = addCameraNode(doc, 'Timeline Camera', positions[0], targets[0], options, precision)
+      const quats = positions.map((p, i) => lookAtQuaternion(p, targets[i]))
+      makeQuaternionsContinuous(quats)
+
+      addChannel(node, 'translation', times, positions.flatMap(p => [p.x, p.y, p.z]))
+      addChannel(node, 'rotation', times, quats.flat())
+      continue
+    }
+
+    const node = nodeByObjectId.get(track.objectId)
+    if (node === undefined) continue  // object not exported (invisible or unsupported)
+
+    for (const [property, path] of OBJECT_CHANNEL_PATHS) {
+      const keys = getPropertyKeyframes(track, property)
+      if (keys.length === 0) continue
+
+      if (path === 'rotation') {
+        // Euler lerp and quaternion slerp disagree, so rotation is always baked
+        const times = sampleKeyframeTimes(keys, true)
+        const quats = times.map(t => eulerToQuaternion(evaluateProperty(track, property, t)!))
+        makeQuaternionsContinuous(quats)
+        addChannel(node, path, times, quats.flat())
+      } else {
+        // Per-channel curves don't line up with any one key's easing, so bake them
+        const times = sampleKeyframeTimes(keys, hasChannelCurves(keys))
+        const values = times.flatMap(t => {
+          const v = evaluateProperty(track, property, t)!
+          return [v.x, v.y, v.z]
+        })
+        addChannel(node, path, times, values)
+      }
+    }
+  }
+
+  if (animation.channels.length > 0) {
+    doc.animations = [animation]
+  }
+}
+
+// ── 4c. Model Merging ────────────────────────────────────────────────
+
+/** Byte size of a glTF accessor component type */
+function componentSize(componentType: number): number {
+  switch (componentType) {
+    case 5120: case 5121: return 1   // BYTE, UNSIGNED_BYTE
+    case 5122: case 5123: return 2   // SHORT, UNSIGNED_SHORT
+    default: return 4                // UNSIGNED_INT, FLOAT
+  }
+}
+
+/** Texture extensions whose only payload is an alternative image `source` */
+const TEXTURE_SOURCE_EXTENSIONS = ['EXT_texture_webp', 'EXT_texture_avif', 'KHR_texture_basisu', 'MSFT_texture_dds']
+
+/** Declare an extension in extensionsUsed, and in extensionsRequired when `required` */
+function declareExtension(doc: GltfDocument, name: string, required: boolean): void {
+  if (!doc.extensionsUsed?.includes(name)) doc.extensionsUsed = [...(doc.extensionsUsed ?? []), name]
+  if (required && !doc.extensionsRequired?.includes(name)) {
+    doc.extensionsRequired = [...(doc.extensionsRequired ?? []), name]
+  }
+}
+
+function remapTextureInfo(
+  info: GltfTextureInfo | undefined,
+  textureOffset: number,
+): GltfTextureInfo | undefined {
+  return info ? { ...info, index: info.index + textureOffset } : undefined
+}
+
+/** Re-emit an imported glTF document's nodes, meshes, materials, textures and
+ *  skins into `doc`. Source cameras, lights and animations are dropped.
+ *  Returns the node indices of the source's default scene roots. */
+export function mergeGltfModel(
+  doc: GltfDocument,
+  source: GltfModelSource,
+  materialOverride: number | null = null,
+): number[] {
+  const target = doc as GltfDocumentWithGeometry
+  const src = source.document
+
+  // Buffer views: copy their bytes into the export buffer
+  const bufferViewMap = (src.bufferViews ?? []).map(bv => {
+    const bytes = source.buffers[bv.buffer] ?? new Uint8Array(0)
+    const start = bv.byteOffset ?? 0
+    const data = bytes.byteLength >= start + bv.byteLength
+      ? bytes.subarray(start, start + bv.byteLength)
+      : new Uint8Array(bv.byteLength)
+    return addBufferView(target, data, bv.target, bv.byteStride)
+  })
+
+  // Accessors: remap buffer views; accessors without one are zero-filled per spec
+  const accessorOffset = doc.accessors.length
+  for (const acc of src.accessors ?? []) {
+    const bufferView = acc.bufferView !== undefined
+      ? bufferViewMap[acc.bufferView]
+      : addBufferView(target, new Uint8Array(
+        alignTo4(acc.count * ACCESSOR_COMPONENTS[acc.type as AccessorType] * componentSize(acc.componentType)),
+      ))
+    const copy: GltfAccessor = { ...acc, bufferView }
+    if (acc.bufferView === undefined) delete copy.byteOffset
+    if (acc.sparse) {
+      copy.sparse = {
+        count: acc.sparse.count,
+        indices: { ...acc.sparse.indices, bufferView: bufferViewMap[acc.sparse.indices.bufferView] },
+        values: { ...acc.sparse.values, bufferView: bufferViewMap[acc.sparse.values.bufferView] },
+      }
+    }
+    doc.accessors.push(copy)
+  }
+
+  // Samplers, images and textures
+  if (!doc.samplers) doc.samplers = []
+  if (!doc.images) doc.images = []
+  if (!doc.textures) doc.textures = []
+  const samplerOffset = doc.samplers.length
+  const imageOffset = doc.images.length
+  const textureOffset = doc.textures.length
+
+  doc.samplers.push(...(src.samplers ?? []).map(sampler => ({ ...sampler })))
+  for (const image of src.images ?? []) {
+    const copy: GltfImage = { ...image }
+    if (image.bufferView !== undefined) copy.bufferView = bufferViewMap[image.bufferView]
+    doc.images.push(copy)
+  }
+  for (const texture of src.textures ?? []) {
+    const { extensions, ...rest } = texture
+    const copy: GltfTexture = { ...rest }
+    if (texture.source !== undefined) copy.source = texture.source + imageOffset
+    if (texture.sampler !== undefined) copy.sampler = texture.sampler + samplerOffset
+    // Image-format extensions point into the images array too; anything else
+    // the exporter doesn't understand is dropped rather than copied stale
+    for (const name of TEXTURE_SOURCE_EXTENSIONS) {
+      const source = extensions?.[name]?.source
+      if (source === undefined) continue
+      copy.extensions = { ...copy.extensions, [name]: { source: source + imageOffset } }
+      declareExtension(doc, name, src.extensionsRequired?.includes(name) ?? false)
+    }
+    doc.textures.push(copy)
+  }
+
+  // Materials (skipped entirely when the object overrides them)
+  const materialOffset = doc.materials.length
+  if (materialOverride === null) {
+    for (const mat of src.materials ?? []) {
+      const pbr: Partial<GltfMaterial['pbrMetallicRoughness']> = mat.pbrMetallicRoughness ?? {}
+      const copy: GltfMaterial = {
+        name: mat.name ?? 'material',
+        pbrMetallicRoughness: {
+          baseColorFactor: pbr.baseColorFactor ?? [1, 1, 1, 1],
+          metallicFactor: pbr.metallicFactor ?? 1,
+          roughnessFactor: pbr.roughnessFactor ?? 1,
+        },
+      }
+      const baseColorTexture = remapTextureInfo(pbr.baseColorTexture, textureOffset)
+      const metallicRoughnessTexture = remapTextureInfo(pbr.metallicRoughnessTexture, textureOffset)
+      if (baseColorTexture) copy.pbrMetallicRoughness.baseColorTexture = baseColorTexture
+      if (metallicRoughnessTexture) copy.pbrMetallicRoughness.metallicRoughnessTexture = metallicRoughnessTexture
+
+      const normalTexture = remapTextureInfo(mat.normalTexture, textureOffset)
+      const occlusionTexture = remapTextureInfo(mat.occlusionTexture, textureOffset)
+      const emissiveTexture = remapTextureInfo(mat.emissiveTexture, textureOffset)
+      if (normalTexture) copy.normalTexture = normalTexture
+      if (occlusionTexture) copy.occlusionTexture = occlusionTexture
+      if (emissiveTexture) copy.emissiveTexture = emissiveTexture
+      if (mat.emissiveFactor) copy.emissiveFactor = mat.emissiveFactor
+      if (mat.alphaMode) copy.alphaMode = mat.alphaMode
+      if (mat.alphaCutoff !== undefined) copy.alphaCutoff = mat.alphaCutoff
+      if (mat.doubleSided !== undefined) copy.doubleSided = mat.doubleSided
+      doc.materials.push(copy)
+    }
+  }
+
+  // Meshes
+  const meshOffset = doc.meshes.length
+  const remapAttributes = (attributes: Record<string, number>) =>
+    Object.fromEntries(Object.entries(attributes).map(([k, v]) => [k, v + accessorOffset]))
+
+  for (const mesh of src.meshes ?? []) {
+    doc.meshes.push({
+      name: mesh.name,
+      primitives: mesh.primitives.map(prim => {
+        const copy: GltfPrimitive = { attributes: remapAttributes(prim.attributes) }
+        if (prim.indices !== undefined) copy.indices = prim.indices + accessorOffset
+        if (prim.mode !== undefined) copy.mode = prim.mode
+        if (prim.targets) copy.targets = prim.targets.map(remapAttributes)
+        if (materialOverride !== null) {
+          copy.material = materialOverride
+        } else if (prim.material !== undefined) {
+          copy.material = prim.material + materialOffset
+        }
+        return copy
+      }),
+    })
+  }
+
+  // Nodes and skins
+  const nodeOffset = doc.nodes.length
+  if (!doc.skins) doc.skins = []
+  const skinOffset = doc.skins.length
+
+  for (const [i, srcNode] of (src.nodes ?? []).entries()) {
+    const node: GltfNode = { name: srcNode.name ?? `node_${i}` }
+    if (srcNode.mesh !== undefined) node.mesh = srcNode.mesh + meshOffset
+    if (srcNode.skin !== undefined) node.skin = srcNode.skin + skinOffset
+    if (srcNode.matrix) node.matrix = srcNode.matrix
+    if (srcNode.translation) node.translation = srcNode.translation
+    if (srcNode.rotation) node.rotation = srcNode.rotation
+    if (srcNode.scale) node.scale = srcNode.scale
+    if (srcNode.weights) node.weights = srcNode.weights
+    if (srcNode.children && srcNode.children.length > 0) {
+      node.children = srcNode.children.map(c => c + nodeOffset)
+    }
+    doc.nodes.push(node)
+  }
+
+  for (const skin of src.skins ?? []) {
+    const copy: GltfSkin = { joints: skin.joints.map(j => j + nodeOffset) }
+    if (skin.name) copy.name = skin.name
+    if (skin.skeleton !== undefined) copy.skeleton = skin.skeleton + nodeOffset
+    if (skin.inverseBindMatrices !== undefined) copy.inverseBindMatrices = skin.inverseBindMatrices + accessorOffset
+    doc.skins.push(copy)
+  }
+
+  // Root nodes of the default scene (or every parentless node when there is none)
+  const scene = src.scenes?.[src.scene ?? 0]
+  if (scene?.nodes) {
+    return scene.nodes.map(n => n + nodeOffset)
+  }
+  const childSet = new Set((src.nodes ?? []).flatMap(n => n.children ?? []))
+  return (src.nodes ?? []).map((_, i) => i).filter(i => !childSet.has(i)).map(i => i + nodeOffset)
+}
+
+/** Emit meshes extracted from a three.js model (FBX/OBJ/DAE) as glTF
+ *  primitives. Returns one node index per mesh. */
+export function mergeMeshModel(
+  doc: GltfDocument,
+  source: MeshModelSource,
+  materialOverride: number | null,
+  precision: number,
+): number[] {
+  const target = doc as GltfDocumentWithGeometry
+  const roots: number[] = []
+
+  for (const mesh of source.meshes) {
+    const attributes: Record<string, number> = {
+      POSITION: addAccessor(target, mesh.positions, 'VEC3', GL_ARRAY_BUFFER, true),
+    }
+    if (mesh.normals) attributes.NORMAL = addAccessor(target, mesh.normals, 'VEC3', GL_ARRAY_BUFFER)
+    if (mesh.uvs) attributes.TEXCOORD_0 = addAccessor(target, mesh.uvs, 'VEC2', GL_ARRAY_BUFFER)
+
+    const primitives: GltfPrimitive[] = mesh.primitives.map(prim => {
+      let material = materialOverride
+      if (material === null) {
+        material = doc.materials.length
+        doc.materials.push(materialToGltf(prim.material))
+      }
+      return {
+        attributes,
+        indices: addAccessor(target, prim.indices, 'SCALAR', GL_ELEMENT_ARRAY_BUFFER),
+        material,
+      }
+    })
+
+    const meshIndex = doc.meshes.length
+    doc.meshes.push({ name: mesh.name, primitives })
+
+    const node: GltfNode = { name: mesh.name, mesh: meshIndex }
+    const [tx, ty, tz] = mesh.translation
+    const [qx, qy, qz, qw] = mesh.rotation
+    const [sx, sy, sz] = mesh.scale
+    if (tx !== 0 || ty !== 0 || tz !== 0) node.translation = quantizeArray(mesh.translation, precision)
+    if (qx !== 0 || qy !== 0 || qz !== 0 || qw !== 1) node.rotation = quantizeArray(mesh.rotation, precision)
+    if (sx !== 1 || sy !== 1 || sz !== 1) node.scale = quantizeArray(mesh.scale, precision)
+
+    roots.push(doc.nodes.length)
+    doc.nodes.push(node)
+  }
+
+  return roots
+}
+
 // ── 5. Binary Buffer Assembly ────────────────────────────────────────
 
-/** Extract the geometry registry from a GltfDocument that was built via sceneToGltf/sceneObjectToGltf.
+/** Extract the buffer view payloads attached by sceneToGltf/sceneObjectToGltf.
  *  Returns an empty Map if the document has no attached registry. */
-function extractGeometryRegistry(doc: GltfDocument): Map<number, GeometryData> {
-  return (doc as GltfDocumentWithGeometry)[GEOMETRY_REGISTRY] ?? new Map()
+function extractBufferViewData(doc: GltfDocument): Map<number, ArrayBufferView> {
+  return (doc as GltfDocumentWithGeometry)[BUFFER_VIEW_DATA] ?? new Map()
 }
 
-/** Pack all geometry data into a single binary buffer.
- *  The geometries map keys correspond to mesh indices. */
+/** Pack all binary data into a single buffer.
+ *  Data attached while building the document is written at its buffer view
+ *  offsets. An explicit geometries map (keyed by mesh index, laid out as
+ *  position/normal/index buffer views per mesh) overrides those payloads. */
 export function packBufferData(
   doc: GltfDocument,
   geometries: Map<number, GeometryData>,
 ): ArrayBuffer {
-  // If geometries is empty, try to extract from the document's internal registry
-  const registry = geometries.size > 0 ? geometries : extractGeometryRegistry(doc)
+  const registry = extractBufferViewData(doc)
 
-  if (registry.size === 0) {
+  if (geometries.size === 0 && registry.size === 0) {
     return new ArrayBuffer(0)
   }
 
@@ -877,11 +1656,15 @@ export function packBufferData(
   const buffer = new ArrayBuffer(totalSize)
   const view = new Uint8Array(buffer)
 
-  // Write geometry data at the offsets specified by their buffer views
-  // Each mesh has 3 buffer views: positions, normals, indices
-  // We iterate buffer views in groups of 3 per mesh
+  for (const [index, data] of registry) {
+    const bv = doc.bufferViews[index]
+    if (!bv) continue
+    view.set(new Uint8Array(data.buffer, data.byteOffset, data.byteLength), bv.byteOffset)
+  }
+
+  // Explicit geometries: each mesh has 3 buffer views (positions, normals, indices)
   let bvIndex = 0
-  for (const [_meshIndex, geom] of sortedEntries(registry)) {
+  for (const [, geom] of sortedEntries(geometries)) {
     if (bvIndex + 2 >= doc.bufferViews.length) break
 
     const posBv = doc.bufferViews[bvIndex]
@@ -926,6 +1709,16 @@ export function serializeGltfJson(doc: GltfDocument): string {
     buffers: doc.buffers,
   }
 
+  if (doc.cameras && doc.cameras.length > 0) clean.cameras = doc.cameras
+  if (doc.animations && doc.animations.length > 0) clean.animations = doc.animations
+  if (doc.samplers && doc.samplers.length > 0) clean.samplers = doc.samplers
+  if (doc.images && doc.images.length > 0) clean.images = doc.images
+  if (doc.textures && doc.textures.length > 0) clean.textures = doc.textures
+  if (doc.skins && doc.skins.length > 0) clean.skins = doc.skins
+  if (doc.extensionsUsed && doc.extensionsUsed.length > 0) clean.extensionsUsed = doc.extensionsUsed
+  if (doc.extensionsRequired && doc.extensionsRequired.length > 0) clean.extensionsRequired = doc.extensionsRequired
+  if (doc.extensions) clean.extensions = doc.extensions
+
   // Remove empty arrays for a cleaner output
   const out = clean as unknown as Record<string, unknown>
   if (clean.nodes.length === 0) delete out.nodes
@@ -1004,20 +1797,62 @@ export function assembleGlb(jsonString: string, binaryBuffer: ArrayBuffer): Arra
   return glb
 }
 
+/** Encode bytes as base64 (chunked to stay within argument limits) */
+function bytesToBase64(bytes: Uint8Array): string {
+  let binary = ''
+  const chunkSize = 0x8000
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize))
+  }
+  return btoa(binary)
+}
+
+/** Run the full glTF pipeline and wrap the result as a .glb or .gltf file.
+ *  For .gltf output the binary buffer is embedded as a base64 data URI. */
+export function createGltfExport(
+  sceneData: SceneData,
+  options: GltfExportOptions,
+  models?: ReadonlyMap<string, ModelExportSource>,
+): ExportResult {
+  const doc = sceneToGltf(sceneData, options, models)
+  const binBuffer = packBufferData(doc, new Map())
+  const format = options.binary ? 'glb' : 'gltf'
+
+  let blob: Blob
+  if (options.binary) {
+    blob = new Blob([assembleGlb(serializeGltfJson(doc), binBuffer)], { type: 'model/gltf-binary' })
+  } else {
+    if (binBuffer.byteLength > 0) {
+      doc.buffers[0].uri = `data:application/octet-stream;base64,${bytesToBase64(new Uint8Array(binBuffer))}`
+    }
+    blob = new Blob([serializeGltfJson(doc)], { type: 'model/gltf+json' })
+  }
+
+  return {
+    format,
+    blob,
+    fileName: generateExportFileName(sceneData.metadata.name, format),
+    fileSize: blob.size,
+  }
+}
+
 // ── 7. Screenshot Generation ─────────────────────────────────────────
 
 /* v8 ignore start */
 
-/** Capture a screenshot from a canvas element */
+/** Capture a screenshot from a canvas element, optionally with the frame overlays burned in */
 export function captureScreenshot(
   canvas: HTMLCanvasElement,
   options: ScreenshotOptions,
+  overlay?: OverlayBurnIn,
 ): Promise<Blob> {
   return new Promise((resolve, reject) => {
-    // If dimensions differ from canvas, use an offscreen canvas
+    const burnIn = options.burnInOverlays ? overlay : undefined
+
+    // If dimensions differ from canvas, or overlays are drawn on top, use an offscreen canvas
     let sourceCanvas: HTMLCanvasElement = canvas
 
-    if (options.width !== canvas.width || options.height !== canvas.height) {
+    if (burnIn || options.width !== canvas.width || options.height !== canvas.height) {
       const offscreen = document.createElement('canvas')
       offscreen.width = options.width
       offscreen.height = options.height
@@ -1027,6 +1862,9 @@ export function captureScreenshot(
         return
       }
       ctx.drawImage(canvas, 0, 0, options.width, options.height)
+      if (burnIn) {
+        drawFrameOverlay(ctx, options.width, options.height, burnIn.settings, burnIn.getHud?.())
+      }
       sourceCanvas = offscreen
     }
 
@@ -1047,21 +1885,64 @@ export function captureScreenshot(
   })
 }
 
+/** Trigger a browser download for an exported file */
+export function downloadExport(result: ExportResult): void {
+  const url = URL.createObjectURL(result.blob)
+  const a = document.createElement('a')
+  a.href = url
+  a.download = result.fileName
+  a.click()
+  URL.revokeObjectURL(url)
+}
+
 /* v8 ignore stop */
 
 // ── 8. Video Recording ──────────────────────────────────────────────
 
 /* v8 ignore start */
 
-/** Start recording video from a canvas element.
+/** Copy the viewport into a 2D canvas every animation frame and draw the
+ *  overlays on top, so the recorder captures the composite. */
+function startOverlayCompositor(
+  canvas: HTMLCanvasElement,
+  options: VideoRecordingOptions,
+  overlay: OverlayBurnIn,
+): { source: HTMLCanvasElement; dispose: () => void } {
+  const composite = document.createElement('canvas')
+  composite.width = options.width
+  composite.height = options.height
+  const ctx = composite.getContext('2d')
+  if (!ctx) throw new Error('Failed to create 2d context for overlay burn-in')
+
+  let frame = 0
+  const draw = () => {
+    ctx.clearRect(0, 0, options.width, options.height)
+    ctx.drawImage(canvas, 0, 0, options.width, options.height)
+    drawFrameOverlay(ctx, options.width, options.height, overlay.settings, overlay.getHud?.())
+    frame = requestAnimationFrame(draw)
+  }
+  draw()
+
+  return { source: composite, dispose: () => cancelAnimationFrame(frame) }
+}
+
+/** Start recording video from a canvas element, optionally with the frame overlays burned in.
  *  Returns a handle with a stop() method that resolves to the recorded Blob. */
 export function startVideoRecording(
   canvas: HTMLCanvasElement,
   options: VideoRecordingOptions,
+  overlay?: OverlayBurnIn,
 ): { stop: () => Promise<Blob>; recorder: MediaRecorder } {
-  const stream = canvas.captureStream(options.fps)
-
   const mimeType = options.format === 'webm' ? 'video/webm' : 'video/mp4'
+  if (!MediaRecorder.isTypeSupported(mimeType)) {
+    throw new Error(`This browser can't record ${options.format.toUpperCase()} video`)
+  }
+
+  const compositor = options.burnInOverlays && overlay
+    ? startOverlayCompositor(canvas, options, overlay)
+    : null
+  const stream = (compositor?.source ?? canvas).captureStream(options.fps)
+
   const recorder = new MediaRecorder(stream, {
     mimeType,
     videoBitsPerSecond: options.bitrate,
@@ -1075,6 +1956,8 @@ export function startVideoRecording(
     }
   }
 
+  recorder.addEventListener('stop', () => compositor?.dispose())
+
   recorder.start()
 
   // Auto-stop after duration if specified
@@ -1206,6 +2089,14 @@ export function validateVideoOptions(options: VideoRecordingOptions): string[] {
     errors.push('duration must be a non-negative number')
   }
 
+  if (!['video', 'image-sequence'].includes(options.output)) {
+    errors.push('output must be one of: video, image-sequence')
+  }
+
+  if (!['png', 'jpeg'].includes(options.frameFormat)) {
+    errors.push('frameFormat must be one of: png, jpeg')
+  }
+
   return errors
 }
 
@@ -1226,6 +2117,7 @@ export const DEFAULT_SCREENSHOT_OPTIONS: ScreenshotOptions = {
   format: 'png',
   quality: 0.92,
   transparentBackground: false,
+  burnInOverlays: false,
 }
 
 export const DEFAULT_VIDEO_OPTIONS: VideoRecordingOptions = {
@@ -1235,6 +2127,9 @@ export const DEFAULT_VIDEO_OPTIONS: VideoRecordingOptions = {
   format: 'webm',
   bitrate: 5000000,
   duration: 0,
+  burnInOverlays: false,
+  output: 'video',
+  frameFormat: 'png',
 }
 
 // ── 11. Utility ──────────────────────────────────────────────────────
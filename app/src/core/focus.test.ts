@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest'
+import {
+  F_STOPS,
+  createDefaultFocus,
+  clampFStop,
+  clampFocusDistance,
+  formatFStop,
+  getFocusDistance,
+  getDepthOfField,
+  getDepthOfFieldParams,
+  getFocusChannel,
+  applyFocusChannel,
+} from './focus'
+import { createSceneObject } from './sceneOperations'
+import type { CameraLens } from '../types/cameraPath'
+
+const fiftyFullFrame: CameraLens = { focalLength: 50, sensor: 'full-frame', roll: 0 }
+
+describe('focus', () => {
+  // ── 1. Aperture & Focus Defaults ────────────────────────────────────
+
+  describe('defaults', () => {
+    it('starts focused a few metres out with no target', () => {
+      expect(createDefaultFocus()).toEqual({ distance: 5, fStop: 2.8, targetId: null })
+    })
+
+    it('offers full stops from f/1.4 to f/22', () => {
+      expect(F_STOPS[0]).toBe(1.4)
+      expect(F_STOPS[F_STOPS.length - 1]).toBe(22)
+    })
+
+    it('clamps aperture and distance', () => {
+      expect(clampFStop(0.5)).toBe(1)
+      expect(clampFStop(45)).toBe(32)
+      expect(clampFocusDistance(0)).toBe(0.1)
+      expect(clampFocusDistance(5000)).toBe(1000)
+    })
+
+    it('formats f-numbers', () => {
+      expect(formatFStop(2.8)).toBe('f/2.8')
+      expect(formatFStop(11)).toBe('f/11')
+    })
+  })
+
+  // ── 2. Focus Distance ───────────────────────────────────────────────
+
+  describe('getFocusDistance', () => {
+    const camera = { x: 0, y: 0, z: 10 }
+
+    it('uses the manual distance without a target', () => {
+      expect(getFocusDistance({ distance: 4, fStop: 2, targetId: null }, camera, [])).toBe(4)
+    })
+
+    it('tracks the distance to the focus target', () => {
+      const box = { ...createSceneObject('box', []), position: { x: 3, y: 0, z: 6 } }
+      const focus = { distance: 4, fStop: 2, targetId: box.id }
+      expect(getFocusDistance(focus, camera, [box])).toBeCloseTo(5, 6)
+    })
+
+    it('falls back to the manual distance when the target is gone', () => {
+      expect(getFocusDistance({ distance: 4, fStop: 2, targetId: 'deleted' }, camera, [])).toBe(4)
+    })
+  })
+
+  // ── 3. Depth of Field ───────────────────────────────────────────────
+
+  describe('depth of field', () => {
+    it('matches a standard DoF table for 50mm f/8 at 5 m', () => {
+      // CoC 0.0288mm (43.3mm diagonal / 1500): hyperfocal ≈ 10.9 m, sharp ≈ 3.43 m – 9.22 m
+      const { near, far, hyperfocal } = getDepthOfField(fiftyFullFrame, 5, 8)
+      expect(hyperfocal).toBeCloseTo(10.9, 1)
+      expect(near).toBeCloseTo(3.43, 1)
+      expect(far).toBeCloseTo(9.22, 1)
+    })
+
+    it('is sharp to infinity at or past the hyperfocal distance', () => {
+      const { hyperfocal } = getDepthOfField(fiftyFullFrame, 5, 8)
+      const limits = getDepthOfField(fiftyFullFrame, hyperfocal + 1, 8)
+      expect(limits.far).toBe(Infinity)
+    })
+
+    it('gets shallower when opening up', () => {
+      const wide = getDepthOfField(fiftyFullFrame, 3, 1.4)
+      const stopped = getDepthOfField(fiftyFullFrame, 3, 11)
+      expect(wide.far - wide.near).toBeLessThan(stopped.far - stopped.near)
+    })
+
+    it('maps the sharp zone and aperture onto the effect', () => {
+      const params = getDepthOfFieldParams(fiftyFullFrame, 5, 8)
+      const { near, far } = getDepthOfField(fiftyFullFrame, 5, 8)
+      expect(params.focusDistance).toBe(5)
+      expect(params.focusRange).toBeCloseTo(far - near, 6)
+      // 50mm at f/8 is a 6.25mm aperture
+      expect(params.bokehScale).toBeCloseTo(0.75, 6)
+    })
+
+    it('caps the focus range beyond the hyperfocal distance and scales bokeh', () => {
+      const deep = getDepthOfFieldParams({ focalLength: 14, sensor: 'super35', roll: 0 }, 50, 16)
+      expect(Number.isFinite(deep.focusRange)).toBe(true)
+
+      const base = getDepthOfFieldParams(fiftyFullFrame, 2, 2)
+      const doubled = getDepthOfFieldParams(fiftyFullFrame, 2, 2, 2)
+      expect(doubled.bokehScale).toBeCloseTo(base.bokehScale * 2, 6)
+      expect(getDepthOfFieldParams({ focalLength: 300, sensor: 'full-frame', roll: 0 }, 2, 1).bokehScale).toBe(10)
+    })
+  })
+
+  // ── 4. Animation Channel ────────────────────────────────────────────
+
+  describe('focus channel', () => {
+    it('packs distance and f-stop, optionally with a resolved distance', () => {
+      const focus = { distance: 3, fStop: 2.8, targetId: 'hero' }
+      expect(getFocusChannel(focus)).toEqual({ x: 3, y: 2.8, z: 0 })
+      expect(getFocusChannel(focus, 7.5)).toEqual({ x: 7.5, y: 2.8, z: 0 })
+    })
+
+    it('applies clamped values and releases the target', () => {
+      const focus = { distance: 3, fStop: 2.8, targetId: 'hero' }
+      expect(applyFocusChannel(focus, { x: -1, y: 64, z: 0 })).toEqual({ distance: 0.1, fStop: 32, targetId: null })
+    })
+  })
+})
@@ -0,0 +1,131 @@
+/** Camera focus and aperture — focus distance, depth of field limits, effect parameters, focus channel packing */
+
+import type { CameraFocus, CameraLens } from '../types/cameraPath'
+import type { SceneObject, Vec3 } from '../types/scene'
+import { clampFocalLength, getSensorPreset } from './lens'
+
+// ── 1. Aperture & Focus Defaults ─────────────────────────────────────
+
+export const MIN_F_STOP = 1
+export const MAX_F_STOP = 32
+
+/** Full stops offered as one-click apertures */
+export const F_STOPS: readonly number[] = [1.4, 2, 2.8, 4, 5.6, 8, 11, 16, 22]
+
+export const MIN_FOCUS_DISTANCE = 0.1
+export const MAX_FOCUS_DISTANCE = 1000
+
+/** A fast-ish aperture focused a few metres out, matching the default camera's framing distance */
+export function createDefaultFocus(): CameraFocus {
+  return { distance: 5, fStop: 2.8, targetId: null }
+}
+
+export function clampFStop(fStop: number): number {
+  return Math.min(MAX_F_STOP, Math.max(MIN_F_STOP, fStop))
+}
+
+export function clampFocusDistance(distance: number): number {
+  return Math.min(MAX_FOCUS_DISTANCE, Math.max(MIN_FOCUS_DISTANCE, distance))
+}
+
+/** "f/2.8", "f/11" */
+export function formatFStop(fStop: number): string {
+  return `f/${Number(fStop.toFixed(1))}`
+}
+
+// ── 2. Focus Distance ────────────────────────────────────────────────
+
+/**
+ * Distance to the plane of focus. A focus target that still exists wins over
+ * the manual distance; a deleted target falls back to it.
+ */
+export function getFocusDistance(focus: CameraFocus, cameraPosition: Vec3, objects: readonly SceneObject[]): number {
+  const target = focus.targetId ? objects.find(o => o.id === focus.targetId) : undefined
+  if (!target) return clampFocusDistance(focus.distance)
+
+  const dx = target.position.x - cameraPosition.x
+  const dy = target.position.y - cameraPosition.y
+  const dz = target.position.z - cameraPosition.z
+  return clampFocusDistance(Math.sqrt(dx * dx + dy * dy + dz * dz))
+}
+
+// ── 3. Depth of Field ────────────────────────────────────────────────
+
+/** The usual "diagonal / 1500" circle of confusion for a sensor, in mm */
+function getCircleOfConfusion(lens: CameraLens): number {
+  const sensor = getSensorPreset(lens.sensor)
+  return Math.hypot(sensor.width, sensor.height) / 1500
+}
+
+export interface DepthOfFieldLimits {
+  /** Nearest distance that is acceptably sharp */
+  near: number
+  /** Farthest distance that is acceptably sharp; Infinity at or past the hyperfocal distance */
+  far: number
+  /** Focusing here keeps everything from half this distance to infinity sharp */
+  hyperfocal: number
+}
+
+/** Near and far limits of acceptable sharpness, in world units (metres) */
+export function getDepthOfField(lens: CameraLens, distance: number, fStop: number): DepthOfFieldLimits {
+  const f = clampFocalLength(lens.focalLength) / 1000
+  const c = getCircleOfConfusion(lens) / 1000
+  const s = clampFocusDistance(distance)
+  const hyperfocal = (f * f) / (clampFStop(fStop) * c) + f
+
+  const near = (s * (hyperfocal - f)) / (hyperfocal + s - 2 * f)
+  const far = s >= hyperfocal ? Infinity : (s * (hyperfocal - f)) / (hyperfocal - s)
+  return { near, far, hyperfocal }
+}
+
+/** Parameters for the post-processing depth of field effect */
+export interface DepthOfFieldParams {
+  focusDistance: number
+  focusRange: number
+  bokehScale: number
+}
+
+/** Blur scale per mm of aperture diameter; an 85mm at f/2 blurs about 5 */
+const BOKEH_PER_APERTURE_MM = 0.12
+const MAX_BOKEH_SCALE = 10
+
+/**
+ * Map the physical camera onto the effect: the sharp zone becomes the focus
+ * range and the blur grows with the aperture's physical diameter, so long
+ * lenses wide open fall off faster than wide lenses stopped down.
+ */
+export function getDepthOfFieldParams(
+  lens: CameraLens,
+  distance: number,
+  fStop: number,
+  bokehScale = 1,
+): DepthOfFieldParams {
+  const { near, far } = getDepthOfField(lens, distance, fStop)
+  const apertureDiameter = clampFocalLength(lens.focalLength) / clampFStop(fStop)
+  return {
+    focusDistance: clampFocusDistance(distance),
+    focusRange: Math.min(far, MAX_FOCUS_DISTANCE) - near,
+    bokehScale: Math.min(MAX_BOKEH_SCALE, Math.max(0, apertureDiameter * BOKEH_PER_APERTURE_MM * bokehScale)),
+  }
+}
+
+// ── 4. Animation Channel ─────────────────────────────────────────────
+
+/**
+ * The camera track packs focus as cameraFocus = distance, f-stop, unused.
+ * Pass the resolved distance when a target is tracked so the key records
+ * where the focus actually is.
+ */
+export function getFocusChannel(focus: CameraFocus, distance = focus.distance): Vec3 {
+  return { x: distance, y: focus.fStop, z: 0 }
+}
+
+/** Keyed focus is a manual pull, so it releases any tracked target */
+export function applyFocusChannel(focus: CameraFocus, value: Vec3): CameraFocus {
+  return {
+    ...focus,
+    distance: clampFocusDistance(value.x),
+    fStop: clampFStop(value.y),
+    targetId: null,
+  }
+}
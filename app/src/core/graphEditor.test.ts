@@ -0,0 +1,190 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  addChannelKey,
+  frameCurvePoints,
+  getChannelCurves,
+  getChannelKey,
+  getChannelName,
+  getCurveLabel,
+  getCurveProperties,
+  removeChannelKeys,
+  sampleChannel,
+  setKeyTangents,
+  toChannelRef,
+  updateChannelKeys,
+} from './graphEditor'
+import { evaluateProperty, resetKeyframeIdCounter } from './animation'
+import type { AnimationTrack } from '../types/scene'
+
+/** Position keys at 0s and 2s, a scale key at 1s */
+function makeTrack(): AnimationTrack {
+  return {
+    id: 'track_1',
+    objectId: 'obj_1',
+    keyframes: [
+      { id: 'a', time: 0, property: 'position', value: { x: 0, y: 0, z: 0 }, easing: 'linear' },
+      { id: 's', time: 1, property: 'scale', value: { x: 1, y: 1, z: 1 }, easing: 'linear' },
+      { id: 'b', time: 2, property: 'position', value: { x: 4, y: 2, z: -2 }, easing: 'easeInOut' },
+    ],
+  }
+}
+
+describe('graphEditor', () => {
+  beforeEach(() => {
+    resetKeyframeIdCounter()
+  })
+
+  describe('curves', () => {
+    it('lists animated properties in dope sheet order', () => {
+      expect(getCurveProperties(makeTrack())).toEqual(['position', 'scale'])
+    })
+
+    it('gives each property an X, Y and Z curve sharing whole keys', () => {
+      const curves = getChannelCurves(makeTrack(), 'position')
+      expect(curves.map(c => c.axis)).toEqual(['x', 'y', 'z'])
+      expect(curves[2].keyframes.map(kf => kf.id)).toEqual(['a', 'b'])
+    })
+
+    it('gives a number path one curve, a color R, G and B, and a flag none', () => {
+      const track: AnimationTrack = {
+        ...makeTrack(),
+        keyframes: [
+          { id: 'o', time: 0, property: 'material.opacity', value: { x: 1, y: 0, z: 0 }, easing: 'linear' },
+          { id: 'c', time: 0, property: 'material.color', value: { x: 1, y: 0, z: 0 }, easing: 'linear' },
+          { id: 'v', time: 0, property: 'visible', value: { x: 1, y: 0, z: 0 }, easing: 'linear' },
+        ],
+      }
+      expect(getCurveProperties(track)).toEqual(['material.color', 'material.opacity'])
+      expect(getChannelCurves(track, 'material.opacity').map(c => c.axis)).toEqual(['x'])
+      expect(getChannelCurves(track, 'material.color').map(c => getCurveLabel(c.property, c.axis))).toEqual([
+        'Color R', 'Color G', 'Color B',
+      ])
+      expect(getCurveLabel('material.opacity', 'x')).toBe('Opacity')
+      expect(getChannelName('position', 'y')).toBe('Y')
+    })
+
+    it('samples a curve evenly and through its keys', () => {
+      const [x] = getChannelCurves(makeTrack(), 'position')
+      const points = sampleChannel(x, -1, 3, 5)
+      expect(points.map(p => p.time)).toEqual([-1, 0, 1, 2, 3])
+      expect(points.map(p => p.value)).toEqual([0, 0, 2, 4, 4])
+      expect(sampleChannel({ ...x, keyframes: [] }, 0, 1, 5)).toEqual([])
+    })
+  })
+
+  describe('frameCurvePoints', () => {
+    it('fits the points with padding', () => {
+      expect(frameCurvePoints([{ time: 0, value: 0 }, { time: 2, value: 10 }], 0.1)).toEqual({
+        fromTime: -0.2, toTime: 2.2, minValue: -1, maxValue: 11,
+      })
+    })
+
+    it('opens out a single point', () => {
+      expect(frameCurvePoints([{ time: 1, value: 3 }], 0)).toEqual({
+        fromTime: 0.5, toTime: 1.5, minValue: 2, maxValue: 4,
+      })
+    })
+
+    it('returns null without points', () => {
+      expect(frameCurvePoints([])).toBeNull()
+    })
+  })
+
+  describe('channel refs', () => {
+    it('resolves a ref to a whole key and to its split key', () => {
+      const track = makeTrack()
+      const ref = { keyframeId: 'a', axis: 'y' as const }
+      expect(getChannelKey(track, ref)?.id).toBe('a')
+      expect(toChannelRef(track, ref)).toEqual({ keyframeId: 'a_y', axis: 'y' })
+
+      const { track: split } = updateChannelKeys(track, [{ ref, value: 1 }])
+      expect(getChannelKey(split, ref)?.id).toBe('a_y')
+      expect(toChannelRef(split, { keyframeId: 'a_y', axis: 'y' })).toEqual({ keyframeId: 'a_y', axis: 'y' })
+    })
+  })
+
+  describe('updateChannelKeys', () => {
+    it('splits the property on first edit and moves only that channel', () => {
+      const track = makeTrack()
+      const result = updateChannelKeys(track, [{ ref: { keyframeId: 'b', axis: 'x' }, time: 1, value: 8 }])
+
+      expect(result.refs).toEqual([{ keyframeId: 'b_x', axis: 'x' }])
+      expect(result.track.keyframes.filter(kf => kf.property === 'position')).toHaveLength(6)
+      expect(result.track.keyframes.find(kf => kf.id === 's')).toBe(track.keyframes[1])
+      expect(evaluateProperty(result.track, 'position', 1)?.x).toBe(8)
+      // Y and Z keep their timing and easing
+      expect(evaluateProperty(result.track, 'position', 1)?.y).toBeCloseTo(evaluateProperty(track, 'position', 1)!.y)
+      expect(evaluateProperty(result.track, 'position', 2)).toEqual({ x: 8, y: 2, z: -2 })
+    })
+
+    it('keeps keys sorted and times non-negative', () => {
+      const { track } = updateChannelKeys(makeTrack(), [{ ref: { keyframeId: 'b', axis: 'z' }, time: -5 }])
+      const z = track.keyframes.filter(kf => kf.channel === 'z')
+      expect(z.map(kf => [kf.id, kf.time])).toEqual([['a_z', 0], ['b_z', 0]])
+      expect(track.keyframes.map(kf => kf.time)).toEqual([...track.keyframes.map(kf => kf.time)].sort((p, q) => p - q))
+    })
+
+    it('breaks the tangent when a slope is set, keeping the other side', () => {
+      const { track } = setKeyTangents(makeTrack(), [{ keyframeId: 'a', axis: 'x' }], 'flat')
+      const result = updateChannelKeys(track, [{ ref: { keyframeId: 'a_x', axis: 'x' }, outSlope: 3 }])
+      expect(getChannelKey(result.track, { keyframeId: 'a_x', axis: 'x' })).toMatchObject({
+        tangent: 'broken', inSlope: 0, outSlope: 3,
+      })
+    })
+  })
+
+  describe('setKeyTangents', () => {
+    it('sets the mode on the referenced channel keys', () => {
+      const result = setKeyTangents(makeTrack(), [{ keyframeId: 'a', axis: 'x' }, { keyframeId: 'b', axis: 'x' }], 'auto')
+      expect(result.refs.map(r => r.keyframeId)).toEqual(['a_x', 'b_x'])
+      const tangents = result.track.keyframes.filter(kf => kf.property === 'position').map(kf => [kf.id, kf.tangent])
+      expect(tangents).toContainEqual(['a_x', 'auto'])
+      expect(tangents).toContainEqual(['a_y', undefined])
+    })
+
+    it('starts broken tangents from the current slopes', () => {
+      const result = setKeyTangents(makeTrack(), [{ keyframeId: 'a', axis: 'x' }], 'broken')
+      // Linear toward the next key: 4 units over 2 seconds
+      expect(getChannelKey(result.track, { keyframeId: 'a_x', axis: 'x' })).toMatchObject({
+        tangent: 'broken', inSlope: 2, outSlope: 2,
+      })
+
+      const relaxed = setKeyTangents(result.track, result.refs, 'auto')
+      const key = getChannelKey(relaxed.track, result.refs[0])!
+      expect(key.inSlope).toBeUndefined()
+      expect(key.outSlope).toBeUndefined()
+    })
+
+    it('leaves the track alone without refs', () => {
+      const track = makeTrack()
+      expect(setKeyTangents(track, [], 'flat').track).toBe(track)
+    })
+  })
+
+  describe('addChannelKey', () => {
+    it('adds an auto key on the curve of one channel', () => {
+      const track = makeTrack()
+      const result = addChannelKey(track, 'position', 'y', 1)
+      const key = getChannelKey(result.track, result.ref)!
+
+      expect(key).toMatchObject({ time: 1, channel: 'y', tangent: 'auto', property: 'position' })
+      expect(key.value.y).toBeCloseTo(evaluateProperty(track, 'position', 1)!.y)
+      expect(result.track.keyframes.some(kf => kf.id === 'a')).toBe(false)
+    })
+
+    it('replaces a key of the same channel at that time', () => {
+      const result = addChannelKey(makeTrack(), 'position', 'x', 2, 7)
+      const x = result.track.keyframes.filter(kf => kf.channel === 'x')
+      expect(x.map(kf => kf.time)).toEqual([0, 2])
+      expect(evaluateProperty(result.track, 'position', 2)?.x).toBe(7)
+    })
+  })
+
+  describe('removeChannelKeys', () => {
+    it('removes one channel of a whole key and keeps the others', () => {
+      const track = removeChannelKeys(makeTrack(), [{ keyframeId: 'b', axis: 'x' }])
+      expect(track.keyframes.map(kf => kf.id)).toEqual(['a_x', 'a_y', 'a_z', 's', 'b_y', 'b_z'])
+      expect(evaluateProperty(track, 'position', 2)).toEqual({ x: 0, y: 2, z: -2 })
+    })
+  })
+})
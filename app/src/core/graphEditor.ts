@@ -0,0 +1,281 @@
+/**
+ * Pure functions behind the graph editor: the X, Y and Z curves of each
+ * animated property (R, G and B for colors, one curve for a number path),
+ * framing them in view, and editing channel keys and their tangents. Editing a property's whole-Vec3 keys first splits them
+ * into channel keys that evaluate exactly as before, so each component can
+ * then be retimed and shaped on its own.
+ */
+
+import type { AnimatableProperty, AnimationKeyframe, AnimationTrack, ChannelAxis, TangentMode } from '../types/scene'
+import {
+  evaluateProperty,
+  generateKeyframeId,
+  getChannelKeyId,
+  getChannelKeyframes,
+  getKeySlopes,
+  getPropertyAxes,
+  getPropertyKeyframes,
+  interpolateChannel,
+  splitPropertyChannels,
+} from './animation'
+import { PROPERTY_LABELS, getDopeSheetRows } from './dopeSheet'
+import { getPropertyValueType, isPropertyPath } from './propertyPaths'
+
+// ── 1. Types ─────────────────────────────────────────────────────────
+
+/**
+ * One component of a key. A whole-Vec3 key is addressed by its own id and
+ * the axis; once split, the same ref resolves to the matching channel key.
+ */
+export interface ChannelKeyRef {
+  keyframeId: string
+  axis: ChannelAxis
+}
+
+export interface ChannelCurve {
+  property: AnimatableProperty
+  axis: ChannelAxis
+  /** Keys shaping this component, in time order */
+  keyframes: AnimationKeyframe[]
+}
+
+export interface CurvePoint {
+  time: number
+  value: number
+}
+
+/** The time and value range shown by the graph */
+export interface GraphView {
+  fromTime: number
+  toTime: number
+  minValue: number
+  maxValue: number
+}
+
+/** New time, value or slopes for one channel key; omitted fields stay */
+export interface ChannelKeyEdit {
+  ref: ChannelKeyRef
+  time?: number
+  value?: number
+  inSlope?: number
+  outSlope?: number
+}
+
+/** Keys closer than this are at the same time */
+const TIME_EPSILON = 1e-4
+
+const COLOR_CHANNEL_NAMES: Record<ChannelAxis, string> = { x: 'R', y: 'G', z: 'B' }
+
+// ── 2. Curves ────────────────────────────────────────────────────────
+
+/** The track's animated properties in dope sheet order; stepped flags have no curve to shape */
+export function getCurveProperties(track: AnimationTrack): AnimatableProperty[] {
+  return getDopeSheetRows([track])
+    .map(row => row.property)
+    .filter((property): property is AnimatableProperty => property !== null)
+    .filter(property => !isPropertyPath(property) || getPropertyValueType(property) !== 'boolean')
+}
+
+/** An axis as the channel list shows it: R, G and B for colors, empty for a lone number */
+export function getChannelName(property: AnimatableProperty, axis: ChannelAxis): string {
+  if (!isPropertyPath(property)) return axis.toUpperCase()
+  const type = getPropertyValueType(property)
+  if (type === 'color') return COLOR_CHANNEL_NAMES[axis]
+  return type === 'number' ? '' : axis.toUpperCase()
+}
+
+/** "Position X", "Color R", or "Opacity" for a lone number */
+export function getCurveLabel(property: AnimatableProperty, axis: ChannelAxis): string {
+  const name = getChannelName(property, axis)
+  return name ? `${PROPERTY_LABELS[property]} ${name}` : PROPERTY_LABELS[property]
+}
+
+/** The curves of one property, one per animated component */
+export function getChannelCurves(track: AnimationTrack, property: AnimatableProperty): ChannelCurve[] {
+  const keyframes = getPropertyKeyframes(track, property)
+  return getPropertyAxes(property).map(axis => ({ property, axis, keyframes: getChannelKeyframes(keyframes, axis) }))
+}
+
+/** Evenly spaced points along a curve, always including its keys */
+export function sampleChannel(curve: ChannelCurve, fromTime: number, toTime: number, count: number): CurvePoint[] {
+  if (curve.keyframes.length === 0 || count < 2 || !(toTime > fromTime)) return []
+
+  const times = new Set<number>()
+  for (let i = 0; i < count; i++) times.add(fromTime + ((toTime - fromTime) * i) / (count - 1))
+  for (const kf of curve.keyframes) {
+    if (kf.time > fromTime && kf.time < toTime) times.add(kf.time)
+  }
+
+  return [...times]
+    .sort((a, b) => a - b)
+    .map(time => ({ time, value: interpolateChannel(curve.keyframes, time, curve.axis)! }))
+}
+
+/**
+ * A view fitting the points with a margin on each side, for frame-all and
+ * frame-selected. A single time or value is opened out so it stays
+ * visible; null when there are no points.
+ */
+export function frameCurvePoints(points: CurvePoint[], padding = 0.1): GraphView | null {
+  if (points.length === 0) return null
+
+  let fromTime = Math.min(...points.map(p => p.time))
+  let toTime = Math.max(...points.map(p => p.time))
+  let minValue = Math.min(...points.map(p => p.value))
+  let maxValue = Math.max(...points.map(p => p.value))
+  if (toTime - fromTime < TIME_EPSILON) {
+    fromTime -= 0.5
+    toTime += 0.5
+  }
+  if (maxValue - minValue < TIME_EPSILON) {
+    minValue -= 1
+    maxValue += 1
+  }
+
+  const timePad = (toTime - fromTime) * padding
+  const valuePad = (maxValue - minValue) * padding
+  return {
+    fromTime: fromTime - timePad,
+    toTime: toTime + timePad,
+    minValue: minValue - valuePad,
+    maxValue: maxValue + valuePad,
+  }
+}
+
+// ── 3. Channel Keys ──────────────────────────────────────────────────
+
+/** The key a ref points at: the channel key itself, or the whole-Vec3 key it came from */
+export function getChannelKey(track: AnimationTrack, ref: ChannelKeyRef): AnimationKeyframe | undefined {
+  const splitId = getChannelKeyId(ref.keyframeId, ref.axis)
+  return track.keyframes.find(kf =>
+    (kf.id === ref.keyframeId && (!kf.channel || kf.channel === ref.axis)) || kf.id === splitId,
+  )
+}
+
+/** The ref a channel key will have once its whole-Vec3 key is split */
+export function toChannelRef(track: AnimationTrack, ref: ChannelKeyRef): ChannelKeyRef {
+  const key = track.keyframes.find(kf => kf.id === ref.keyframeId)
+  return key && !key.channel ? { ...ref, keyframeId: getChannelKeyId(ref.keyframeId, ref.axis) } : ref
+}
+
+/** Split the properties the refs touch, returning the refs to the channel keys */
+function splitForRefs(track: AnimationTrack, refs: ChannelKeyRef[]): { track: AnimationTrack; refs: ChannelKeyRef[] } {
+  const properties = new Set<AnimatableProperty>()
+  for (const ref of refs) {
+    const key = getChannelKey(track, ref)
+    if (key) properties.add(key.property)
+  }
+
+  let keyframes = track.keyframes
+  for (const property of properties) keyframes = splitPropertyChannels(keyframes, property)
+  const split = keyframes === track.keyframes ? track : { ...track, keyframes }
+  return { track: split, refs: refs.map(ref => toChannelRef(track, ref)) }
+}
+
+/** Current slopes of a channel key, from its neighbours on the same curve */
+function getCurrentSlopes(track: AnimationTrack, key: AnimationKeyframe): { inSlope: number; outSlope: number } {
+  const axis = key.channel ?? 'x'
+  const keys = getChannelKeyframes(getPropertyKeyframes(track, key.property), axis)
+  return getKeySlopes(keys, keys.indexOf(key), axis)
+}
+
+function sortKeyframes(keyframes: AnimationKeyframe[]): AnimationKeyframe[] {
+  return [...keyframes].sort((a, b) => a.time - b.time)
+}
+
+/**
+ * Give the referenced keys a tangent mode. Broken tangents start from the
+ * slopes the key has now, so breaking a tangent doesn't change the curve
+ * until a handle is dragged.
+ */
+export function setKeyTangents(
+  track: AnimationTrack,
+  refs: ChannelKeyRef[],
+  mode: TangentMode,
+): { track: AnimationTrack; refs: ChannelKeyRef[] } {
+  const split = splitForRefs(track, refs)
+  const ids = new Set(split.refs.map(ref => ref.keyframeId))
+  if (ids.size === 0) return split
+
+  const keyframes = split.track.keyframes.map(kf => {
+    if (!ids.has(kf.id)) return kf
+    if (mode === 'broken') return { ...kf, tangent: mode, ...getCurrentSlopes(split.track, kf) }
+    const next: AnimationKeyframe = { ...kf, tangent: mode }
+    delete next.inSlope
+    delete next.outSlope
+    return next
+  })
+  return { track: { ...split.track, keyframes }, refs: split.refs }
+}
+
+/**
+ * Apply time, value and slope edits to channel keys, keeping the track
+ * sorted. Setting a slope breaks the key's tangent, keeping the slope on
+ * its other side where it was.
+ */
+export function updateChannelKeys(
+  track: AnimationTrack,
+  edits: ChannelKeyEdit[],
+): { track: AnimationTrack; refs: ChannelKeyRef[] } {
+  const split = splitForRefs(track, edits.map(edit => edit.ref))
+  const byId = new Map(split.refs.map((ref, i) => [ref.keyframeId, edits[i]]))
+
+  const keyframes = split.track.keyframes.map(kf => {
+    const edit = byId.get(kf.id)
+    if (!edit || !kf.channel) return kf
+
+    const next: AnimationKeyframe = { ...kf }
+    if (edit.time !== undefined) next.time = Math.max(0, edit.time)
+    if (edit.value !== undefined) next.value = { ...kf.value, [kf.channel]: edit.value }
+    if (edit.inSlope !== undefined || edit.outSlope !== undefined) {
+      const current = kf.tangent === 'broken'
+        ? { inSlope: kf.inSlope ?? 0, outSlope: kf.outSlope ?? 0 }
+        : getCurrentSlopes(split.track, kf)
+      next.tangent = 'broken'
+      next.inSlope = edit.inSlope ?? current.inSlope
+      next.outSlope = edit.outSlope ?? current.outSlope
+    }
+    return next
+  })
+  return { track: { ...split.track, keyframes: sortKeyframes(keyframes) }, refs: split.refs }
+}
+
+/**
+ * Add an auto-tangent key to one channel, on the curve unless a value is
+ * given. It replaces a key of the same channel at that time.
+ */
+export function addChannelKey(
+  track: AnimationTrack,
+  property: AnimatableProperty,
+  axis: ChannelAxis,
+  time: number,
+  value?: number,
+): { track: AnimationTrack; ref: ChannelKeyRef } {
+  const current = evaluateProperty(track, property, time) ?? { x: 0, y: 0, z: 0 }
+  const id = generateKeyframeId()
+  const key: AnimationKeyframe = {
+    id,
+    time,
+    property,
+    value: { ...current, [axis]: value ?? current[axis] },
+    easing: 'linear',
+    channel: axis,
+    tangent: 'auto',
+  }
+
+  const keyframes = splitPropertyChannels(track.keyframes, property).filter(kf => !(
+    kf.property === property && kf.channel === axis && Math.abs(kf.time - time) < TIME_EPSILON
+  ))
+  return {
+    track: { ...track, keyframes: sortKeyframes([...keyframes, key]) },
+    ref: { keyframeId: id, axis },
+  }
+}
+
+/** Remove channel keys, splitting whole-Vec3 keys so the other components keep theirs */
+export function removeChannelKeys(track: AnimationTrack, refs: ChannelKeyRef[]): AnimationTrack {
+  const split = splitForRefs(track, refs)
+  const ids = new Set(split.refs.map(ref => ref.keyframeId))
+  if (ids.size === 0) return track
+  return { ...split.track, keyframes: split.track.keyframes.filter(kf => !ids.has(kf.id)) }
+}
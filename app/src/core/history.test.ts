@@ -0,0 +1,464 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  COALESCE_WINDOW_MS,
+  diffValues,
+  applyPatch,
+  mergePatches,
+  rebaseItems,
+  rebaseNestedItems,
+  rebaseRecord,
+  estimateSize,
+  createHistoryEntry,
+  createHistoryStack,
+  resetHistoryEntryIdCounter,
+  getHistorySize,
+  pushHistoryEntry,
+  coalesceByDiff,
+  trimHistoryStack,
+  sealHistoryStack,
+  rebaseHistoryStack,
+  getHistoryPath,
+  countLabel,
+  type HistoryPatch,
+  type HistoryStack,
+} from './history'
+
+interface Item {
+  id: string
+  name: string
+  position: { x: number; y: number; z: number }
+  parentId?: string
+}
+
+function makeItems(count: number): Item[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `item-${i}`, name: `Item ${i}`, position: { x: i, y: 0, z: 0 } }))
+}
+
+function value(before: unknown, after: unknown): HistoryPatch {
+  return { kind: 'value', before, after }
+}
+
+function push(stack: HistoryStack, label: string, before: number, after: number, time = 0, key?: string): HistoryStack {
+  return pushHistoryEntry(stack, createHistoryEntry(label, [{ domain: 'n', patch: value(before, after) }], time, key))
+}
+
+describe('history', () => {
+  beforeEach(() => {
+    resetHistoryEntryIdCounter()
+  })
+
+  // ── Patches ──────────────────────────────────────────────────────────
+
+  describe('diffValues', () => {
+    it('is null for identical values, arrays and records', () => {
+      const items = makeItems(3)
+      expect(diffValues(items, items)).toBeNull()
+      expect(diffValues(items, [...items])).toBeNull()
+      expect(diffValues(['a', 'b'], ['a', 'b'])).toBeNull()
+      expect(diffValues({ tracks: items, duration: 5 }, { tracks: items, duration: 5 })).toBeNull()
+      expect(diffValues([], [])).toBeNull()
+    })
+
+    it('diffs arrays with unkeyed items as plain values', () => {
+      const [a] = makeItems(1)
+      expect(diffValues([a, 1], [a, 2])).toEqual(value([a, 1], [a, 2]))
+      expect(diffValues([a, 1], [1, a])).toEqual(value([a, 1], [1, a]))
+    })
+
+    it('patches only the changed fields of a record', () => {
+      const bloom = { enabled: false, intensity: 1 }
+      expect(diffValues({ enabled: true, bloom }, { enabled: true, bloom: { ...bloom, intensity: 2 } })).toEqual({
+        kind: 'record',
+        fields: { bloom: { kind: 'record', fields: { intensity: value(1, 2) } } },
+      })
+    })
+
+    it('patches only the changed fields of changed items', () => {
+      const items = makeItems(4)
+      const after = items.map(item => (item.id === 'item-2' ? { ...item, position: { ...item.position, y: 5 } } : item))
+      expect(diffValues(items, after)).toEqual({
+        kind: 'collection',
+        items: [{
+          id: 'item-2',
+          change: 'update',
+          fields: { position: { kind: 'record', fields: { y: value(0, 5) } } },
+        }],
+      })
+    })
+
+    it('records added and removed items with their indices', () => {
+      const items = makeItems(3)
+      const added = { id: 'new', name: 'New', position: { x: 0, y: 0, z: 0 } }
+      const patch = diffValues(items, [items[0], added, items[2]])
+      expect(patch).toEqual({
+        kind: 'collection',
+        items: [
+          { id: 'item-1', change: 'remove', before: items[1], index: 1 },
+          { id: 'new', change: 'add', after: added, index: 1 },
+        ],
+      })
+    })
+
+    it('records the order when items move', () => {
+      const items = makeItems(3)
+      const patch = diffValues(items, [items[2], items[0], items[1]])
+      expect(patch).toEqual({
+        kind: 'collection',
+        items: [],
+        order: { before: ['item-0', 'item-1', 'item-2'], after: ['item-2', 'item-0', 'item-1'] },
+      })
+    })
+
+    it('replaces values that are not records or keyed arrays', () => {
+      expect(diffValues(['a'], ['a', 'b'])).toEqual(value(['a'], ['a', 'b']))
+      expect(diffValues(null, 'item-1')).toEqual(value(null, 'item-1'))
+    })
+  })
+
+  describe('applyPatch', () => {
+    it('round-trips adds, removes, edits and moves', () => {
+      const items = makeItems(5)
+      const after: Item[] = [
+        { ...items[4], name: 'Renamed' },
+        items[0],
+        { id: 'new', name: 'New', position: { x: 9, y: 9, z: 9 } },
+        items[3],
+      ]
+      const patch = diffValues(items, after)!
+
+      expect(applyPatch(after, patch, 'undo')).toEqual(items)
+      expect(applyPatch(items, patch, 'redo')).toEqual(after)
+    })
+
+    it('leaves untouched items and fields as they are now', () => {
+      const items = makeItems(3)
+      const moved = items.map(item => (item.id === 'item-0' ? { ...item, position: { x: 7, y: 0, z: 0 } } : item))
+      const patch = diffValues(items, moved)!
+
+      // Meanwhile someone renamed item-0 and added another item
+      const extra = { id: 'extra', name: 'Extra', position: { x: 0, y: 0, z: 0 } }
+      const current = [{ ...moved[0], name: 'Theirs' }, moved[1], moved[2], extra]
+      const undone = applyPatch(current, patch, 'undo') as Item[]
+
+      expect(undone[0]).toEqual({ ...items[0], name: 'Theirs' })
+      expect(undone[1]).toBe(current[1])
+      expect(undone[3]).toBe(extra)
+    })
+
+    it('drops fields that were absent', () => {
+      const item: Item = { id: 'a', name: 'A', position: { x: 0, y: 0, z: 0 } }
+      const parented = { ...item, parentId: 'p' }
+      const patch = diffValues([item], [parented])!
+      expect(applyPatch([parented], patch, 'undo')).toEqual([item])
+      expect('parentId' in (applyPatch([parented], patch, 'undo') as Item[])[0]).toBe(false)
+    })
+  })
+
+  describe('mergePatches', () => {
+    it('keeps the earliest before and the latest after', () => {
+      const items = makeItems(2)
+      const step1 = items.map(item => (item.id === 'item-1' ? { ...item, position: { x: 5, y: 0, z: 0 } } : item))
+      const step2 = step1.map(item => (item.id === 'item-1' ? { ...item, position: { x: 8, y: 0, z: 0 } } : item))
+      const merged = mergePatches(diffValues(items, step1)!, diffValues(step1, step2)!)!
+
+      expect(applyPatch(step2, merged, 'undo')).toEqual(items)
+      expect(applyPatch(items, merged, 'redo')).toEqual(step2)
+    })
+
+    it('refuses patches that do not line up', () => {
+      const items = makeItems(2)
+      const added = diffValues(items, [...items, { id: 'x', name: 'X', position: { x: 0, y: 0, z: 0 } }])!
+      const edited = diffValues(items, [{ ...items[0], name: 'Edited' }, items[1]])!
+      expect(mergePatches(added, added)).toBeNull()
+      expect(mergePatches(value(1, 2), edited)).toBeNull()
+    })
+  })
+
+  describe('rebaseItems', () => {
+    it('stops undoing fields edited elsewhere and drops deleted items', () => {
+      const items = makeItems(3)
+      const after = [{ ...items[0], name: 'Mine', position: { x: 1, y: 1, z: 1 } }, { ...items[1], name: 'Mine too' }, items[2]]
+      const patch = diffValues(items, after)!
+      const rebased = rebaseItems(patch, new Set(['item-1']), new Map([['item-0', { name: 'Theirs' }]]))!
+
+      const current = [{ ...after[0], name: 'Theirs' }, items[2]]
+      expect(applyPatch(current, rebased, 'undo')).toEqual([{ ...items[0], name: 'Theirs' }, items[2]])
+    })
+
+    it('carries edits into items that undo or redo would restore', () => {
+      const items = makeItems(1)
+      const patch = diffValues([], items)!
+      const rebased = rebaseItems(patch, new Set(), new Map([['item-0', { name: 'Late' }]]))!
+      expect(applyPatch([], rebased, 'redo')).toEqual([{ ...items[0], name: 'Late' }])
+    })
+  })
+
+  describe('rebaseNestedItems', () => {
+    const track = (keyframes: Item[]) => ({ id: 't1', keyframes })
+
+    it('rebases sub-items inside edited items', () => {
+      const keyframes = makeItems(2)
+      const mine = [{ ...keyframes[0], name: 'Mine' }, { ...keyframes[1], name: 'Mine too' }]
+      const patch = diffValues([track(keyframes)], [track(mine)])!
+      const rebased = rebaseNestedItems(patch, 'keyframes', new Set(['item-1']), new Map([['item-0', { name: 'Theirs' }]]))
+
+      // Both keyframe edits were overtaken by the peer, so nothing is left to undo
+      expect(rebased).toBeNull()
+    })
+
+    it('rewrites the sub-items of items undo or redo would restore', () => {
+      const patch = diffValues([track(makeItems(2))], [])!
+      const rebased = rebaseNestedItems(patch, 'keyframes', new Set(['item-1']), new Map([['item-0', { name: 'Theirs' }]]))!
+      expect(applyPatch([], rebased, 'undo')).toEqual([track([{ ...makeItems(1)[0], name: 'Theirs' }])])
+    })
+  })
+
+  describe('rebaseRecord', () => {
+    it('drops fields the update rejects, and the whole patch when none are left', () => {
+      const patch = diffValues({ fog: false, color: 'red' }, { fog: true, color: 'blue' })!
+      const rebased = rebaseRecord(patch, (key, field) => (key === 'fog' ? null : field))!
+      expect(applyPatch({ fog: false, color: 'blue' }, rebased, 'undo')).toEqual({ fog: false, color: 'red' })
+      expect(rebaseRecord(patch, () => null)).toBeNull()
+    })
+
+    it('returns the same patch when nothing changes', () => {
+      const patch = diffValues({ fog: false }, { fog: true })!
+      expect(rebaseRecord(patch, (_, field) => field)).toBe(patch)
+    })
+  })
+
+  // ── Memory ───────────────────────────────────────────────────────────
+
+  describe('estimateSize', () => {
+    it('grows with strings, fields and array length', () => {
+      expect(estimateSize('abcd')).toBeGreaterThan(estimateSize('ab'))
+      expect(estimateSize({ a: 1, b: 2 })).toBeGreaterThan(estimateSize({ a: 1 }))
+      expect(estimateSize(makeItems(10))).toBeGreaterThan(estimateSize(makeItems(5)) * 1.9)
+    })
+
+    it('sizes entries by their patches', () => {
+      const items = makeItems(3)
+      const small = createHistoryEntry('Move', [{ domain: 'objects', patch: diffValues(items, [{ ...items[0], name: 'B' }, items[1], items[2]])! }], 0)
+      const large = createHistoryEntry('Paste', [{ domain: 'objects', patch: diffValues([], makeItems(100))! }], 0)
+      expect(small.size).toBeGreaterThan(0)
+      expect(large.size).toBeGreaterThan(small.size * 20)
+    })
+  })
+
+  // ── Stack ────────────────────────────────────────────────────────────
+
+  describe('pushHistoryEntry', () => {
+    it('starts from a sealed base entry', () => {
+      const stack = createHistoryStack('Open scene', 0)
+      expect(stack.index).toBe(0)
+      expect(stack.entries).toHaveLength(1)
+      expect(stack.entries[0]).toMatchObject({ label: 'Open scene', changes: [], size: 0, sealed: true })
+    })
+
+    it('appends entries and discards the redo tail', () => {
+      let stack = createHistoryStack('New scene', 0)
+      stack = push(stack, 'A', 0, 1)
+      stack = push(stack, 'B', 1, 2)
+      stack = { ...stack, index: 1 }
+      stack = push(stack, 'C', 1, 3)
+      expect(stack.entries.map(e => e.label)).toEqual(['New scene', 'A', 'C'])
+      expect(stack.index).toBe(2)
+    })
+
+    it('coalesces entries with the same key inside the window', () => {
+      let stack = createHistoryStack('New scene', 0)
+      stack = push(stack, 'Move Box 1', 0, 1, 100, 'move')
+      stack = push(stack, 'Move Box 1', 1, 2, 100 + COALESCE_WINDOW_MS, 'move')
+      expect(stack.entries).toHaveLength(2)
+      expect(stack.entries[1].changes).toEqual([{ domain: 'n', patch: value(0, 2) }])
+      expect(stack.entries[1].time).toBe(100 + COALESCE_WINDOW_MS)
+    })
+
+    it('starts a new entry for another key, a gap, a sealed entry or patches that do not merge', () => {
+      let stack = createHistoryStack('New scene', 0)
+      stack = push(stack, 'A', 0, 1, 0, 'a')
+      stack = push(stack, 'B', 1, 2, 10, 'b')
+      stack = push(stack, 'B', 2, 3, 20 + COALESCE_WINDOW_MS, 'b')
+      stack = sealHistoryStack(stack)
+      stack = push(stack, 'B', 3, 4, 30 + COALESCE_WINDOW_MS, 'b')
+      const record: HistoryPatch = { kind: 'record', fields: { x: value(4, 5) } }
+      stack = pushHistoryEntry(stack, createHistoryEntry('B', [{ domain: 'n', patch: record }], 40 + COALESCE_WINDOW_MS, 'b'))
+      expect(stack.entries.map(e => e.label)).toEqual(['New scene', 'A', 'B', 'B', 'B', 'B'])
+    })
+
+    it('never coalesces into the base entry', () => {
+      let stack = createHistoryStack('New scene', 0)
+      stack = { entries: [{ ...stack.entries[0], sealed: false, coalesceKey: 'k' }], index: 0 }
+      stack = push(stack, 'A', 0, 1, 0, 'k')
+      expect(stack.entries).toHaveLength(2)
+    })
+
+    it('drops the oldest entries past the memory budget', () => {
+      let stack = createHistoryStack('New scene', 0)
+      const entrySize = createHistoryEntry('E', [{ domain: 'n', patch: value(0, 1) }], 0).size
+      for (let i = 0; i < 5; i++) {
+        stack = pushHistoryEntry(stack, createHistoryEntry(`E${i}`, [{ domain: 'n', patch: value(i, i + 1) }], i), entrySize * 3)
+      }
+      expect(stack.entries.map(e => e.label)).toEqual(['E1', 'E2', 'E3', 'E4'])
+      expect(stack.entries[0]).toMatchObject({ changes: [], size: 0, sealed: true })
+      expect(getHistorySize(stack)).toBeLessThanOrEqual(entrySize * 3)
+      expect(stack.index).toBe(3)
+    })
+
+    it('keeps the newest entry even when it alone is over budget', () => {
+      let stack = createHistoryStack('New scene', 0)
+      stack = push(stack, 'A', 0, 1)
+      stack = pushHistoryEntry(stack, createHistoryEntry('Huge', [{ domain: 'n', patch: value(1, 'x'.repeat(1000)) }], 0), 100)
+      expect(stack.entries.map(e => e.label)).toEqual(['A', 'Huge'])
+      expect(stack.index).toBe(1)
+    })
+  })
+
+  describe('coalesceByDiff', () => {
+    /** Record the move from `before` to `after` of the items domain, as the history store does */
+    function record(stack: HistoryStack, before: Item[], after: Item[], time: number): HistoryStack {
+      const entry = createHistoryEntry('Edit', [{ domain: 'items', patch: diffValues(before, after)! }], time, 'edit')
+      return coalesceByDiff(stack, entry, new Map([['items', before]]), new Map([['items', after]]))
+        ?? pushHistoryEntry(stack, entry)
+    }
+
+    it('merges an edit of an item the current entry added', () => {
+      const start = makeItems(2)
+      const added = [...start, { id: 'new', name: 'New', position: { x: 0, y: 0, z: 0 } }]
+      const moved = added.map(item => item.id === 'new' ? { ...item, position: { x: 5, y: 0, z: 0 } } : item)
+
+      let stack = record(createHistoryStack('New scene', 0), start, added, 0)
+      stack = record(stack, added, moved, 10)
+
+      expect(stack.entries).toHaveLength(2)
+      expect(applyPatch(moved, stack.entries[1].changes[0].patch, 'undo')).toEqual(start)
+      expect(applyPatch(start, stack.entries[1].changes[0].patch, 'redo')).toEqual(moved)
+    })
+
+    it('merges edits that reorder items', () => {
+      const start = makeItems(3)
+      const swapped = [start[1], start[0], start[2]]
+      const rotated = [start[1], start[2], start[0]]
+
+      let stack = record(createHistoryStack('New scene', 0), start, swapped, 0)
+      stack = record(stack, swapped, rotated, 10)
+
+      expect(stack.entries).toHaveLength(2)
+      expect(applyPatch(rotated, stack.entries[1].changes[0].patch, 'undo')).toEqual(start)
+    })
+
+    it('leaves entries that merge directly or should not coalesce to pushHistoryEntry', () => {
+      const items = makeItems(1)
+      const moved = [{ ...items[0], name: 'Moved' }]
+      const stack = push(createHistoryStack('New scene', 0), 'A', 0, 1, 0, 'edit')
+      const entry = createHistoryEntry('Edit', [{ domain: 'items', patch: diffValues(items, moved)! }], 10, 'edit')
+      expect(coalesceByDiff(stack, entry, new Map([['items', items]]), new Map([['items', moved]]))).toBeNull()
+      expect(coalesceByDiff(sealHistoryStack(stack), entry, new Map(), new Map())).toBeNull()
+    })
+  })
+
+  describe('trimHistoryStack', () => {
+    it('keeps the current entry undoable and everything after it', () => {
+      let stack = createHistoryStack('New scene', 0)
+      for (let i = 0; i < 4; i++) stack = push(stack, `E${i}`, i, i + 1)
+      const trimmed = trimHistoryStack({ ...stack, index: 3 }, 0)
+      expect(trimmed.entries.map(e => e.label)).toEqual(['E1', 'E2', 'E3'])
+      expect(trimmed.index).toBe(1)
+      expect(trimHistoryStack(trimmed, 0)).toBe(trimmed)
+    })
+  })
+
+  describe('getHistoryPath', () => {
+    const stack: HistoryStack = {
+      entries: [
+        createHistoryEntry('Base', [], 0),
+        createHistoryEntry('A', [{ domain: 'n', patch: value(0, 1) }], 0),
+        createHistoryEntry('B', [{ domain: 'n', patch: value(1, 2) }, { domain: 'm', patch: value('p', 'q') }], 0),
+      ],
+      index: 2,
+    }
+
+    it('undoes newest entry first', () => {
+      expect(getHistoryPath(stack, 0).map(step => [step.domain, step.direction, applyPatch(null, step.patch, step.direction)])).toEqual([
+        ['n', 'undo', 1],
+        ['m', 'undo', 'p'],
+        ['n', 'undo', 0],
+      ])
+    })
+
+    it('redoes oldest entry first', () => {
+      expect(getHistoryPath({ ...stack, index: 0 }, 2).map(step => [step.domain, applyPatch(null, step.patch, step.direction)])).toEqual([
+        ['n', 1],
+        ['n', 2],
+        ['m', 'q'],
+      ])
+    })
+
+    it('clamps the target to the stack', () => {
+      expect(getHistoryPath(stack, 9)).toEqual([])
+      expect(getHistoryPath({ ...stack, index: 1 }, -4)).toHaveLength(1)
+    })
+  })
+
+  describe('rebaseHistoryStack', () => {
+    it('rewrites recorded patches of one domain and drops emptied ones', () => {
+      let stack = createHistoryStack('New scene', 0)
+      stack = push(stack, 'A', 1, 2)
+      const rebased = rebaseHistoryStack(stack, 'n', () => value(10, 20))
+      expect(rebased.entries[1].changes).toEqual([{ domain: 'n', patch: value(10, 20) }])
+      expect(rebaseHistoryStack(stack, 'n', () => null).entries[1].changes).toEqual([])
+    })
+
+    it('returns the same stack when the domain was never recorded', () => {
+      const stack = push(createHistoryStack('New scene', 0), 'A', 1, 2)
+      expect(rebaseHistoryStack(stack, 'other', patch => patch)).toBe(stack)
+    })
+  })
+
+  // ── Labels ───────────────────────────────────────────────────────────
+
+  describe('countLabel', () => {
+    it('pluralizes the noun', () => {
+      expect(countLabel(1, 'object')).toBe('1 object')
+      expect(countLabel(3, 'object')).toBe('3 objects')
+    })
+  })
+
+  // ── Performance sanity ───────────────────────────────────────────────
+
+  // Patch sizes only; the time per edit is measured in history.bench.ts
+  describe('performance sanity', () => {
+    function editOne(items: Item[], index: number, x: number): Item[] {
+      return items.map((item, i) => (i === index ? { ...item, position: { ...item.position, x } } : item))
+    }
+
+    it('a one-object edit costs the same in a 500 and a 5,000-object scene', () => {
+      const small = makeItems(500)
+      const large = makeItems(5000)
+      const smallEntry = createHistoryEntry('Move', [{ domain: 'objects', patch: diffValues(small, editOne(small, 7, 99))! }], 0)
+      const largeEntry = createHistoryEntry('Move', [{ domain: 'objects', patch: diffValues(large, editOne(large, 7, 99))! }], 0)
+
+      expect(largeEntry.size).toBe(smallEntry.size)
+      expect(largeEntry.size).toBeLessThan(estimateSize(large) / 1000)
+    })
+
+    it('records and undoes 200 edits on 5,000 objects one item patch at a time', () => {
+      let items = makeItems(5000)
+      let stack = createHistoryStack('New scene', 0)
+
+      for (let i = 0; i < 200; i++) {
+        const next = editOne(items, (i * 37) % items.length, -1 - i)
+        stack = pushHistoryEntry(stack, createHistoryEntry('Move', [{ domain: 'objects', patch: diffValues(items, next)! }], i))
+        items = next
+      }
+      const steps = getHistoryPath(stack, 0)
+      for (const step of steps) items = applyPatch(items, step.patch, step.direction) as Item[]
+
+      expect(steps).toHaveLength(200)
+      expect(steps.every(step => step.patch.kind === 'collection' && step.patch.items.length === 1)).toBe(true)
+      expect(items).toEqual(makeItems(5000))
+      // 200 one-field patches, not 200 copies of the scene
+      expect(getHistorySize(stack)).toBeLessThan(estimateSize(items) / 10)
+    })
+  })
+})
@@ -0,0 +1,618 @@
+/**
+ * Undo history — a stack of labelled commands. Each command stores a
+ * structural patch per store domain it changed: only the fields, items and
+ * orderings that differ, with both their old and new values, so an entry's
+ * memory follows the size of the edit rather than the size of the scene.
+ */
+
+// ── 1. Types ─────────────────────────────────────────────────────────
+
+/**
+ * The difference between two values of a domain:
+ * - `value` replaces the whole value
+ * - `record` patches some fields of a plain object
+ * - `collection` patches an array of items keyed by `id`
+ */
+export type HistoryPatch =
+  | { kind: 'value'; before: unknown; after: unknown }
+  | { kind: 'record'; fields: Record<string, HistoryPatch> }
+  | { kind: 'collection'; items: ItemPatch[]; order?: { before: string[]; after: string[] } }
+
+/**
+ * One item of a keyed collection: added (no `before`), removed (no `after`)
+ * or with changed fields. Indices are where the item sits in its array.
+ */
+export type ItemPatch =
+  | { id: string; change: 'add'; after: unknown; index: number }
+  | { id: string; change: 'remove'; before: unknown; index: number }
+  | { id: string; change: 'update'; fields: Record<string, HistoryPatch> }
+
+export type PatchDirection = 'undo' | 'redo'
+
+/** How one history domain changed in a command */
+export interface HistoryChange {
+  /** Registered domain name, e.g. 'objects' or 'animation' */
+  domain: string
+  patch: HistoryPatch
+}
+
+export interface HistoryEntry {
+  id: number
+  /** Shown in the history panel, e.g. "Move 3 objects" or "Add keyframe" */
+  label: string
+  /** When the latest change was recorded into the entry (ms) */
+  time: number
+  changes: HistoryChange[]
+  /** Estimated memory held by the changes (bytes) */
+  size: number
+  /** Commands with the same key recorded in quick succession merge into one entry */
+  coalesceKey?: string
+  /** A sealed entry never absorbs later commands */
+  sealed?: boolean
+}
+
+/**
+ * The first entry is the base state (a new or just-opened scene) and has no
+ * changes; `index` points at the entry whose result is on screen.
+ */
+export interface HistoryStack {
+  entries: HistoryEntry[]
+  index: number
+}
+
+/** Memory the undo history may hold before the oldest entries are dropped */
+export const HISTORY_BUDGET_BYTES = 32 * 1024 * 1024
+
+/** Commands with the same coalesce key this close together (ms) become one entry */
+export const COALESCE_WINDOW_MS = 1000
+
+// ── 2. Patches ───────────────────────────────────────────────────────
+
+type Keyed = { id: string }
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function isKeyed(value: unknown): value is Keyed {
+  return isRecord(value) && typeof value.id === 'string'
+}
+
+function isKeyedArray(value: unknown): value is Keyed[] {
+  return Array.isArray(value) && value.every(isKeyed)
+}
+
+/**
+ * The patch that turns `before` into `after`, or null when they are the
+ * same. Stores update immutably, so unchanged parts are skipped by identity
+ * and only what changed is walked and stored. Diffing a collection still
+ * compares each item by reference — O(n) pointer checks per edit — while the
+ * stored patch is O(changed); history.bench.ts measures both scene sizes.
+ */
+export function diffValues(before: unknown, after: unknown): HistoryPatch | null {
+  if (Object.is(before, after)) return null
+  if (Array.isArray(before) && Array.isArray(after)) {
+    if (isKeyed(before[0] ?? after[0])) {
+      const patch = diffCollection(before, after)
+      if (patch !== undefined) return patch
+    }
+    if (before.length === after.length && before.every((item, i) => Object.is(item, after[i]))) return null
+  }
+  if (isRecord(before) && isRecord(after)) {
+    const fields = diffFields(before, after)
+    return fields ? { kind: 'record', fields } : null
+  }
+  return { kind: 'value', before, after }
+}
+
+function diffFields(before: Record<string, unknown>, after: Record<string, unknown>): Record<string, HistoryPatch> | null {
+  let fields: Record<string, HistoryPatch> | null = null
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)])
+  for (const key of keys) {
+    const patch = diffValues(before[key], after[key])
+    if (patch) (fields ??= {})[key] = patch
+  }
+  return fields
+}
+
+function diffItem(before: Keyed, after: Keyed): ItemPatch | null {
+  const fields = diffFields(before as Record<string, unknown>, after as Record<string, unknown>)
+  return fields ? { id: before.id, change: 'update', fields } : null
+}
+
+/**
+ * Patch for arrays whose first item is keyed. Only the items that changed are
+ * checked for an `id`; returns undefined when one of them has none, and the
+ * arrays are diffed as plain values instead.
+ */
+function diffCollection(before: unknown[], after: unknown[]): HistoryPatch | null | undefined {
+  const items: ItemPatch[] = []
+
+  // Common case: same items in the same order, some of them edited
+  let aligned = before.length === after.length
+  for (let i = 0; aligned && i < before.length; i++) {
+    if (before[i] === after[i]) continue
+    if (!isKeyed(before[i]) || !isKeyed(after[i])) return undefined
+    if ((before[i] as Keyed).id !== (after[i] as Keyed).id) {
+      aligned = false
+      break
+    }
+    const item = diffItem(before[i] as Keyed, after[i] as Keyed)
+    if (item) items.push(item)
+  }
+  if (aligned) return items.length > 0 ? { kind: 'collection', items } : null
+  if (!before.every(isKeyed) || !after.every(isKeyed)) return undefined
+  return diffReordered(before, after)
+}
+
+/** Patch for keyed arrays whose items were added, removed or moved */
+function diffReordered(before: Keyed[], after: Keyed[]): HistoryPatch | null {
+  const items: ItemPatch[] = []
+  const afterIndex = new Map(after.map((item, i) => [item.id, i]))
+  const beforeIndex = new Map(before.map((item, i) => [item.id, i]))
+  before.forEach((item, index) => {
+    const next = afterIndex.get(item.id)
+    if (next === undefined) {
+      items.push({ id: item.id, change: 'remove', before: item, index })
+    } else if (after[next] !== item) {
+      const patch = diffItem(item, after[next])
+      if (patch) items.push(patch)
+    }
+  })
+  after.forEach((item, index) => {
+    if (!beforeIndex.has(item.id)) items.push({ id: item.id, change: 'add', after: item, index })
+  })
+
+  // Items on both sides that moved relative to each other
+  const keptBefore = before.filter(item => afterIndex.has(item.id))
+  const keptAfter = after.filter(item => beforeIndex.has(item.id))
+  const reordered = keptBefore.some((item, i) => item.id !== keptAfter[i].id)
+  if (!reordered && items.length === 0) return null
+
+  const patch: HistoryPatch = { kind: 'collection', items }
+  if (reordered) patch.order = { before: before.map(item => item.id), after: after.map(item => item.id) }
+  return patch
+}
+
+function setField(target: Record<string, unknown>, key: string, value: unknown): void {
+  if (value === undefined) delete target[key]
+  else target[key] = value
+}
+
+function applyFields(current: unknown, fields: Record<string, HistoryPatch>, direction: PatchDirection): Record<string, unknown> {
+  const source = isRecord(current) ? current : {}
+  const result: Record<string, unknown> = { ...source }
+  for (const key of Object.keys(fields)) setField(result, key, applyPatch(source[key], fields[key], direction))
+  return result
+}
+
+function applyCollection(current: unknown, patch: Extract<HistoryPatch, { kind: 'collection' }>, direction: PatchDirection): Keyed[] {
+  let result = Array.isArray(current) ? [...current as Keyed[]] : []
+  const undo = direction === 'undo'
+  const dropped = new Set<string>()
+  const inserted: { item: Keyed; index: number }[] = []
+
+  for (const item of patch.items) {
+    if (item.change === 'update') continue
+    if ((item.change === 'add') === undo) dropped.add(item.id)
+    else inserted.push({ item: (item.change === 'add' ? item.after : item.before) as Keyed, index: item.index })
+  }
+  if (dropped.size > 0) result = result.filter(item => !dropped.has(item.id))
+  inserted.sort((a, b) => a.index - b.index)
+  for (const { item, index } of inserted) result.splice(Math.min(index, result.length), 0, item)
+
+  const updates = new Map<string, Record<string, HistoryPatch>>()
+  for (const item of patch.items) if (item.change === 'update') updates.set(item.id, item.fields)
+  if (updates.size > 0) {
+    result = result.map(item => {
+      const fields = updates.get(item.id)
+      return fields ? applyFields(item, fields, direction) as Keyed : item
+    })
+  }
+
+  if (patch.order) {
+    // Items the order doesn't know (a peer's additions) stay at the end
+    const order = undo ? patch.order.before : patch.order.after
+    const rank = new Map(order.map((id, i) => [id, i]))
+    result = result
+      .map((item, i) => ({ item, rank: rank.get(item.id) ?? order.length + i }))
+      .sort((a, b) => a.rank - b.rank)
+      .map(entry => entry.item)
+  }
+  return result
+}
+
+/** Apply a patch to the current value of its domain, backwards for undo or forwards for redo */
+export function applyPatch(current: unknown, patch: HistoryPatch, direction: PatchDirection): unknown {
+  switch (patch.kind) {
+    case 'value':
+      return direction === 'undo' ? patch.before : patch.after
+    case 'record':
+      return applyFields(current, patch.fields, direction)
+    case 'collection':
+      return applyCollection(current, patch, direction)
+  }
+}
+
+function mergeFieldPatches(
+  earlier: Record<string, HistoryPatch>,
+  later: Record<string, HistoryPatch>,
+): Record<string, HistoryPatch> | null {
+  const merged = { ...earlier }
+  for (const key of Object.keys(later)) {
+    const patch = key in merged ? mergePatches(merged[key], later[key]) : later[key]
+    if (!patch) return null
+    merged[key] = patch
+  }
+  return merged
+}
+
+/**
+ * One patch with the effect of `earlier` then `later`, or null when the two
+ * don't line up (e.g. one adds an item the other edits). Streams of the same
+ * edit, which are what coalescing merges, always line up.
+ */
+export function mergePatches(earlier: HistoryPatch, later: HistoryPatch): HistoryPatch | null {
+  if (earlier.kind === 'value' && later.kind === 'value') {
+    return { kind: 'value', before: earlier.before, after: later.after }
+  }
+  if (earlier.kind === 'record' && later.kind === 'record') {
+    const fields = mergeFieldPatches(earlier.fields, later.fields)
+    return fields ? { kind: 'record', fields } : null
+  }
+  if (earlier.kind === 'collection' && later.kind === 'collection') {
+    if (earlier.order || later.order) return null
+    const items = [...earlier.items]
+    for (const item of later.items) {
+      const index = items.findIndex(i => i.id === item.id)
+      if (index === -1) {
+        items.push(item)
+        continue
+      }
+      const existing = items[index]
+      if (existing.change !== 'update' || item.change !== 'update') return null
+      const fields = mergeFieldPatches(existing.fields, item.fields)
+      if (!fields) return null
+      items[index] = { ...existing, fields }
+    }
+    return { kind: 'collection', items }
+  }
+  return null
+}
+
+/** Combine two commands: the earlier changes then the later ones, or null if they can't merge */
+export function mergeChanges(earlier: HistoryChange[], later: HistoryChange[]): HistoryChange[] | null {
+  const merged = [...earlier]
+  for (const change of later) {
+    const index = merged.findIndex(c => c.domain === change.domain)
+    if (index === -1) {
+      merged.push(change)
+      continue
+    }
+    const patch = mergePatches(merged[index].patch, change.patch)
+    if (!patch) return null
+    merged[index] = { domain: change.domain, patch }
+  }
+  return merged
+}
+
+/**
+ * Fold item edits made outside the history (a peer's, or a late thumbnail)
+ * into a collection patch: edited fields stop being undone and restored
+ * items carry the edit, and items deleted elsewhere drop out of the patch.
+ */
+export function rebaseItems(
+  patch: HistoryPatch,
+  removedIds: ReadonlySet<string>,
+  updates: ReadonlyMap<string, Record<string, unknown>>,
+): HistoryPatch | null {
+  if (patch.kind !== 'collection') return patch
+
+  const items: ItemPatch[] = []
+  for (const item of patch.items) {
+    if (removedIds.has(item.id)) continue
+    const changes = updates.get(item.id)
+    if (!changes) {
+      items.push(item)
+    } else if (item.change === 'update') {
+      const fields = Object.fromEntries(Object.entries(item.fields).filter(([key]) => !(key in changes)))
+      if (Object.keys(fields).length > 0) items.push({ ...item, fields })
+    } else if (item.change === 'add') {
+      items.push({ ...item, after: { ...item.after as Keyed, ...changes } })
+    } else {
+      items.push({ ...item, before: { ...item.before as Keyed, ...changes } })
+    }
+  }
+
+  const order = patch.order && removedIds.size > 0
+    ? { before: patch.order.before.filter(id => !removedIds.has(id)), after: patch.order.after.filter(id => !removedIds.has(id)) }
+    : patch.order
+  if (items.length === 0 && !order) return null
+  return order ? { kind: 'collection', items, order } : { kind: 'collection', items }
+}
+
+/**
+ * rebaseItems one level down, for collections whose items hold a keyed
+ * sub-collection under `key` (animation tracks and their keyframes): the
+ * sub-items deleted or edited elsewhere are folded into every item patch.
+ */
+export function rebaseNestedItems(
+  patch: HistoryPatch,
+  key: string,
+  removedIds: ReadonlySet<string>,
+  updates: ReadonlyMap<string, Record<string, unknown>>,
+): HistoryPatch | null {
+  if (patch.kind !== 'collection' || (removedIds.size === 0 && updates.size === 0)) return patch
+
+  const rebaseChildren = (value: unknown): unknown => {
+    if (!isRecord(value) || !isKeyedArray(value[key])) return value
+    const children = value[key]
+      .filter(child => !removedIds.has(child.id))
+      .map(child => (updates.has(child.id) ? { ...child, ...updates.get(child.id) } : child))
+    return { ...value, [key]: children }
+  }
+
+  const items: ItemPatch[] = []
+  for (const item of patch.items) {
+    if (item.change === 'add') {
+      items.push({ ...item, after: rebaseChildren(item.after) })
+    } else if (item.change === 'remove') {
+      items.push({ ...item, before: rebaseChildren(item.before) })
+    } else if (!item.fields[key]) {
+      items.push(item)
+    } else {
+      const nested = rebaseItems(item.fields[key], removedIds, updates)
+      const fields = { ...item.fields }
+      if (nested) fields[key] = nested
+      else delete fields[key]
+      if (Object.keys(fields).length > 0) items.push({ ...item, fields })
+    }
+  }
+
+  if (items.length === 0 && !patch.order) return null
+  return patch.order ? { kind: 'collection', items, order: patch.order } : { kind: 'collection', items }
+}
+
+/**
+ * Rewrite the field patches of a record patch, e.g. to stop undoing the
+ * environment settings a peer changed since; a null result drops the field.
+ */
+export function rebaseRecord(
+  patch: HistoryPatch,
+  update: (key: string, field: HistoryPatch) => HistoryPatch | null,
+): HistoryPatch | null {
+  if (patch.kind !== 'record') return patch
+
+  let changed = false
+  const fields: Record<string, HistoryPatch> = {}
+  for (const [key, field] of Object.entries(patch.fields)) {
+    const rebased = update(key, field)
+    if (rebased !== field) changed = true
+    if (rebased) fields[key] = rebased
+  }
+  if (!changed) return patch
+  return Object.keys(fields).length > 0 ? { kind: 'record', fields } : null
+}
+
+// ── 3. Memory ────────────────────────────────────────────────────────
+
+/**
+ * Rough bytes a value holds, in the spirit of V8's layout: 8 per number or
+ * reference, 2 per string character, 16 per object or array plus its slots.
+ */
+export function estimateSize(value: unknown): number {
+  if (value === null || value === undefined) return 8
+  switch (typeof value) {
+    case 'string':
+      return 16 + value.length * 2
+    case 'object': {
+      if (Array.isArray(value)) return value.reduce((sum: number, item) => sum + 8 + estimateSize(item), 16)
+      let size = 16
+      for (const [key, field] of Object.entries(value)) size += 8 + key.length * 2 + estimateSize(field)
+      return size
+    }
+    default:
+      return 8
+  }
+}
+
+function estimatePatchSize(patch: HistoryPatch): number {
+  switch (patch.kind) {
+    case 'value':
+      return 24 + estimateSize(patch.before) + estimateSize(patch.after)
+    case 'record':
+      return Object.entries(patch.fields).reduce((sum, [key, field]) => sum + 8 + key.length * 2 + estimatePatchSize(field), 24)
+    case 'collection': {
+      let size = 24
+      for (const item of patch.items) {
+        size += 24 + item.id.length * 2
+        if (item.change === 'update') size += estimatePatchSize({ kind: 'record', fields: item.fields })
+        else size += estimateSize(item.change === 'add' ? item.after : item.before)
+      }
+      if (patch.order) size += estimateSize(patch.order.before) + estimateSize(patch.order.after)
+      return size
+    }
+  }
+}
+
+export function estimateChangesSize(changes: HistoryChange[]): number {
+  return changes.reduce((sum, change) => sum + 16 + estimatePatchSize(change.patch), 0)
+}
+
+// ── 4. Stack ─────────────────────────────────────────────────────────
+
+let entryIdCounter = 1
+
+export function resetHistoryEntryIdCounter(): void {
+  entryIdCounter = 1
+}
+
+export function createHistoryEntry(
+  label: string,
+  changes: HistoryChange[],
+  time: number,
+  coalesceKey?: string,
+): HistoryEntry {
+  const entry: HistoryEntry = { id: entryIdCounter++, label, time, changes, size: estimateChangesSize(changes) }
+  if (coalesceKey) entry.coalesceKey = coalesceKey
+  return entry
+}
+
+export function createHistoryStack(label = 'New scene', time = Date.now()): HistoryStack {
+  return { entries: [{ ...createHistoryEntry(label, [], time), sealed: true }], index: 0 }
+}
+
+/** Estimated memory held by every entry of the stack */
+export function getHistorySize(stack: HistoryStack): number {
+  return stack.entries.reduce((sum, entry) => sum + entry.size, 0)
+}
+
+function canCoalesce(current: HistoryEntry, entry: HistoryEntry, windowMs: number): boolean {
+  return !current.sealed
+    && current.coalesceKey !== undefined
+    && current.coalesceKey === entry.coalesceKey
+    && entry.time - current.time <= windowMs
+}
+
+/**
+ * Record an entry after the current one, discarding anything that could be
+ * redone. Continuous edits with the same coalesce key merge into the current
+ * entry; past `budgetBytes` the oldest entries are dropped.
+ */
+export function pushHistoryEntry(
+  stack: HistoryStack,
+  entry: HistoryEntry,
+  budgetBytes = HISTORY_BUDGET_BYTES,
+  windowMs = COALESCE_WINDOW_MS,
+): HistoryStack {
+  const entries = stack.entries.slice(0, stack.index + 1)
+  const current = entries[entries.length - 1]
+
+  const merged = current && stack.index > 0 && canCoalesce(current, entry, windowMs)
+    ? mergeChanges(current.changes, entry.changes)
+    : null
+  if (merged) {
+    entries[entries.length - 1] = {
+      ...current,
+      label: entry.label,
+      time: entry.time,
+      changes: merged,
+      size: estimateChangesSize(merged),
+    }
+  } else {
+    entries.push(entry)
+  }
+
+  return trimHistoryStack({ entries, index: entries.length - 1 }, budgetBytes)
+}
+
+/**
+ * Coalesce an entry whose patches don't line up with the current entry's,
+ * such as a drag whose first step adds the items later steps edit, or one
+ * that reorders them. `between` holds each domain's value before `entry`
+ * and `after` its value after; the current entry is undone from `between`
+ * to find where the stream started, and that is diffed against `after`.
+ * Null when the entry wouldn't coalesce or its patches merge directly.
+ */
+export function coalesceByDiff(
+  stack: HistoryStack,
+  entry: HistoryEntry,
+  between: ReadonlyMap<string, unknown>,
+  after: ReadonlyMap<string, unknown>,
+  windowMs = COALESCE_WINDOW_MS,
+): HistoryStack | null {
+  const current = stack.entries[stack.index]
+  if (!current || stack.index === 0 || !canCoalesce(current, entry, windowMs)) return null
+  if (mergeChanges(current.changes, entry.changes)) return null
+
+  const undone = new Map(current.changes.map(change => [change.domain, change.patch]))
+  const changes: HistoryChange[] = []
+  after.forEach((value, domain) => {
+    const patch = undone.get(domain)
+    const start = patch ? applyPatch(between.get(domain), patch, 'undo') : between.get(domain)
+    const diff = diffValues(start, value)
+    if (diff) changes.push({ domain, patch: diff })
+  })
+
+  const entries = stack.entries.slice(0, stack.index + 1)
+  entries[stack.index] = { ...current, label: entry.label, time: entry.time, changes, size: estimateChangesSize(changes) }
+  return { entries, index: stack.index }
+}
+
+/**
+ * Drop the oldest entries until the stack fits `budgetBytes`; the oldest
+ * entry left becomes the new base. The current entry stays undoable and
+ * everything after it stays redoable.
+ */
+export function trimHistoryStack(stack: HistoryStack, budgetBytes = HISTORY_BUDGET_BYTES): HistoryStack {
+  let size = getHistorySize(stack)
+  let dropped = 0
+  while (size > budgetBytes && dropped < stack.index - 1) {
+    size -= stack.entries[dropped].size
+    dropped++
+  }
+  if (dropped === 0) return stack
+
+  const entries = stack.entries.slice(dropped)
+  // A base entry is never undone, so its changes need not be kept
+  entries[0] = { ...entries[0], changes: [], size: 0, sealed: true }
+  return { entries, index: stack.index - dropped }
+}
+
+/** Stop the current entry absorbing later commands, e.g. when a new drag starts */
+export function sealHistoryStack(stack: HistoryStack): HistoryStack {
+  const current = stack.entries[stack.index]
+  if (!current || current.sealed) return stack
+  const entries = [...stack.entries]
+  entries[stack.index] = { ...current, sealed: true }
+  return { ...stack, entries }
+}
+
+/** Rewrite every recorded patch of a domain; a null result drops the change */
+export function rebaseHistoryStack(
+  stack: HistoryStack,
+  domain: string,
+  update: (patch: HistoryPatch) => HistoryPatch | null,
+): HistoryStack {
+  let changed = false
+  const entries = stack.entries.map(entry => {
+    if (!entry.changes.some(c => c.domain === domain)) return entry
+    const changes: HistoryChange[] = []
+    for (const change of entry.changes) {
+      const patch = change.domain === domain ? update(change.patch) : change.patch
+      if (patch !== change.patch) changed = true
+      if (patch) changes.push(patch === change.patch ? change : { domain, patch })
+    }
+    return { ...entry, changes, size: estimateChangesSize(changes) }
+  })
+  return changed ? { ...stack, entries } : stack
+}
+
+/**
+ * The patches to apply to move from the current entry to `target`: the
+ * undone entries' patches backwards, newest entry first, or the redone
+ * entries' patches forwards, oldest entry first. Within an entry, domains
+ * keep their registration order both ways (objects before the selection
+ * that refers to them).
+ */
+export function getHistoryPath(
+  stack: HistoryStack,
+  target: number,
+): { domain: string; patch: HistoryPatch; direction: PatchDirection }[] {
+  const to = Math.max(0, Math.min(stack.entries.length - 1, target))
+  const steps: { domain: string; patch: HistoryPatch; direction: PatchDirection }[] = []
+  for (let i = stack.index; i > to; i--) {
+    for (const change of stack.entries[i].changes) steps.push({ domain: change.domain, patch: change.patch, direction: 'undo' })
+  }
+  for (let i = stack.index + 1; i <= to; i++) {
+    for (const change of stack.entries[i].changes) steps.push({ domain: change.domain, patch: change.patch, direction: 'redo' })
+  }
+  return steps
+}
+
+// ── 5. Labels ────────────────────────────────────────────────────────
+
+/** "1 object", "3 objects" */
+export function countLabel(count: number, noun: string): string {
+  return `${count} ${noun}${count === 1 ? '' : 's'}`
+}
@@ -48,16 +48,84 @@ export {
 } from './errors'
 
 export {
+  EASING_TYPES,
+  isEasingType,
+  LINEAR_BEZIER,
+  getPresetBezier,
+  clampBezier,
+  cubicBezier,
   applyEasing,
   lerpVec3,
   interpolateKeyframes,
   getPropertyKeyframes,
   evaluateTrack,
+  CHANNEL_AXES,
+  TANGENT_MODES,
+  isTangentMode,
+  hasChannelCurves,
+  getChannelKeyframes,
+  getKeySlopes,
+  interpolateChannel,
+  getTrackProperties,
+  evaluateProperty,
+  getPropertyAxes,
+  getChannelKeyId,
+  splitKeyframe,
+  splitPropertyChannels,
+  isPropertySplit,
   generateKeyframeId,
   generateTrackId,
   resetKeyframeIdCounter,
 } from './animation'
 
+export {
+  OBJECT_PROPERTY_PATHS,
+  ENVIRONMENT_PROPERTY_PATHS,
+  PROPERTY_PATHS,
+  isPropertyPath,
+  getPropertyValueType,
+  interpolateNumber,
+  interpolateColor,
+  interpolateBoolean,
+  interpolatePropertyValue,
+  encodePropertyValue,
+  decodePropertyValue,
+  readObjectPath,
+  readEnvironmentPath,
+  applyObjectPaths,
+  applyEnvironmentPaths,
+} from './propertyPaths'
+
+export {
+  FRAME_RATES,
+  DEFAULT_FRAME_RATE,
+  PROPERTY_LABELS,
+  snapToFrame,
+  getDopeSheetRows,
+  selectKeyframesInBox,
+  isKeyframeSelected,
+  moveKeyframes,
+  scaleKeyframes,
+  removeKeyframes,
+  copyKeyframes,
+  pasteKeyframes,
+} from './dopeSheet'
+
+export {
+  getCurveProperties,
+  getChannelCurves,
+  getChannelName,
+  getCurveLabel,
+  sampleChannel,
+  frameCurvePoints,
+  toChannelRef,
+  getChannelKey,
+  setKeyTangents,
+  updateChannelKeys,
+  addChannelKey,
+  removeChannelKeys,
+} from './graphEditor'
+
 export {
   CAMERA_PRESETS,
   findPreset,
@@ -125,10 +193,141 @@ export {
   DEFAULT_SCREENSHOT_OPTIONS,
   DEFAULT_VIDEO_OPTIONS,
   eulerToQuaternion,
+  lookAtQuaternion,
+  quantize,
+  sampleKeyframeTimes,
   formatFileSize,
   generateExportFileName,
 } from './exportPipeline'
 
+export { STUDIO_LIGHTS } from './studioLights'
+
+// Lights
+export {
+  LIGHT_TYPES,
+  isLightType,
+  isLightObject,
+  hasSceneLights,
+  createDefaultLight,
+  getLightChannels,
+  applyLightChannels,
+} from './lights'
+
+// Lens
+export {
+  SENSOR_PRESETS,
+  getSensorPreset,
+  createDefaultLens,
+  getVerticalFov,
+  getHorizontalFov,
+  focalLengthForFov,
+  getCanvasFov,
+  formatLens,
+} from './lens'
+
+// Focus & Depth of Field
+export {
+  F_STOPS,
+  createDefaultFocus,
+  formatFStop,
+  getFocusDistance,
+  getDepthOfField,
+  getDepthOfFieldParams,
+} from './focus'
+
+// Frame Overlays
+export {
+  FRAME_ASPECTS,
+  getFrameRect,
+  insetRect,
+  ACTION_SAFE,
+  TITLE_SAFE,
+  getGuideSegments,
+  formatTimecode,
+  getHudText,
+  createDefaultOverlaySettings,
+  hasActiveOverlays,
+  drawFrameOverlay,
+} from './overlays'
+
+// Shot Sequence
+export {
+  createClip,
+  getSequenceDuration,
+  getClipStartTimes,
+  locateClip,
+  evaluateClip,
+  evaluateSequence,
+} from './sequence'
+
+// Storyboard
+export {
+  STORYBOARD_PAGE_SIZES,
+  STORYBOARD_GRIDS,
+  buildStoryboardPanels,
+  getStoryboardLayout,
+  buildStoryboardPdf,
+  exportStoryboard,
+} from './storyboard'
+export { createPdfDocument, writePdf } from './pdfWriter'
+
+// Editorial
+export {
+  getShotMediaBase,
+  buildEditEvents,
+  framesToTimecode,
+  timecodeToFrames,
+  writeEdl,
+  parseEdl,
+  writeOtio,
+  writeShotBreakdownCsv,
+  createEditorialExport,
+} from './editorial'
+
+// Offline Render
+export {
+  getOfflineRenderPlan,
+  getFrameTime,
+  evaluateOfflineCamera,
+  getOfflineFrameName,
+  getAvcLevel,
+  getCodecCandidates,
+  getKeyFrameInterval,
+  renderImageSequence,
+  isVideoEncoderAvailable,
+  findVideoEncoderConfig,
+  renderVideo,
+} from './offlineRender'
+export { createZipArchive, addZipEntry, writeZip, crc32 } from './zipWriter'
+export { writeWebm, encodeVint } from './webmMuxer'
+export { writeMp4 } from './mp4Muxer'
+
+// History
+export {
+  HISTORY_BUDGET_BYTES,
+  COALESCE_WINDOW_MS,
+  diffValues,
+  applyPatch,
+  mergePatches,
+  mergeChanges,
+  rebaseItems,
+  rebaseNestedItems,
+  rebaseRecord,
+  estimateSize,
+  estimateChangesSize,
+  createHistoryEntry,
+  createHistoryStack,
+  resetHistoryEntryIdCounter,
+  getHistorySize,
+  pushHistoryEntry,
+  coalesceByDiff,
+  trimHistoryStack,
+  sealHistoryStack,
+  rebaseHistoryStack,
+  getHistoryPath,
+  countLabel,
+} from './history'
+
 // Storage Engine
 export {
   generateSceneId,
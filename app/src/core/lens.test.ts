@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest'
+import {
+  SENSOR_PRESETS,
+  isSensorId,
+  getSensorPreset,
+  createDefaultLens,
+  clampFocalLength,
+  formatLens,
+  getVerticalFov,
+  getCanvasFov,
+  getHorizontalFov,
+  focalLengthForFov,
+  getLensChannel,
+  applyLensChannel,
+} from './lens'
+
+describe('lens', () => {
+  // ── 1. Sensors ──────────────────────────────────────────────────────
+
+  describe('sensor presets', () => {
+    it('includes the common cinema sensors', () => {
+      const names = SENSOR_PRESETS.map(s => s.name)
+      expect(names).toContain('Super 35')
+      expect(names).toContain('Full Frame')
+      expect(names).toContain('ARRI Alexa LF')
+    })
+
+    it('recognizes preset ids only', () => {
+      expect(isSensorId('alexa-lf')).toBe(true)
+      expect(isSensorId('vhs')).toBe(false)
+      expect(isSensorId(35)).toBe(false)
+    })
+
+    it('falls back to full frame for unknown sensors', () => {
+      expect(getSensorPreset('super35').width).toBe(24.89)
+      expect(getSensorPreset('vhs')).toMatchObject({ id: 'full-frame', width: 36, height: 24 })
+    })
+  })
+
+  // ── 2. Lens Defaults ────────────────────────────────────────────────
+
+  describe('defaults', () => {
+    it('starts on a level 24mm full-frame lens', () => {
+      expect(createDefaultLens()).toEqual({ focalLength: 24, sensor: 'full-frame', roll: 0 })
+    })
+
+    it('clamps focal lengths to the supported range', () => {
+      expect(clampFocalLength(2)).toBe(8)
+      expect(clampFocalLength(85)).toBe(85)
+      expect(clampFocalLength(1000)).toBe(300)
+    })
+
+    it('formats lenses the way a slate would', () => {
+      expect(formatLens({ focalLength: 84.6, sensor: 'alexa-lf', roll: 0 })).toBe('85mm · ARRI Alexa LF')
+    })
+  })
+
+  // ── 3. Field of View ────────────────────────────────────────────────
+
+  describe('field of view', () => {
+    it('matches the textbook 50mm full-frame angles', () => {
+      const lens = { focalLength: 50, sensor: 'full-frame' as const, roll: 0 }
+      expect(getHorizontalFov(lens)).toBeCloseTo(39.6, 1)
+      // A 3:2 frame shows the whole sensor
+      expect(getVerticalFov(lens, 36 / 24)).toBeCloseTo(27.0, 1)
+    })
+
+    it('narrows as the focal length grows', () => {
+      const wide = getVerticalFov({ focalLength: 35, sensor: 'super35', roll: 0 }, 16 / 9)
+      const tele = getVerticalFov({ focalLength: 85, sensor: 'super35', roll: 0 }, 16 / 9)
+      expect(tele).toBeLessThan(wide)
+    })
+
+    it('fits the sensor width to the frame, cropping wider aspects vertically', () => {
+      const lens = { focalLength: 35, sensor: 'full-frame' as const, roll: 0 }
+      expect(getVerticalFov(lens, 2.39)).toBeLessThan(getVerticalFov(lens, 16 / 9))
+      // Portrait frames put the sensor width along the height
+      expect(getVerticalFov(lens, 0.5)).toBeCloseTo(getHorizontalFov(lens), 5)
+    })
+
+    it('fits the lens to a delivery frame inside the canvas', () => {
+      const lens = { focalLength: 35, sensor: 'full-frame' as const, roll: 0 }
+      // No delivery frame: the canvas is the frame
+      expect(getCanvasFov(lens, 16 / 9, null)).toBeCloseTo(getVerticalFov(lens, 16 / 9), 6)
+      // Scope in a 16:9 canvas: the frame spans the width, the letterbox adds picture above and below
+      const scope = getCanvasFov(lens, 16 / 9, 2.39)
+      expect(scope).toBeGreaterThan(getVerticalFov(lens, 2.39))
+      const frameTan = Math.tan(getVerticalFov(lens, 2.39) / 2 * Math.PI / 180)
+      const canvasTan = Math.tan(scope / 2 * Math.PI / 180)
+      expect(canvasTan * (16 / 9) / 2.39).toBeCloseTo(frameTan, 6)
+      // A pillarboxed portrait frame spans the full height
+      expect(getCanvasFov(lens, 16 / 9, 9 / 16)).toBeCloseTo(getVerticalFov(lens, 9 / 16), 6)
+    })
+
+    it('inverts back to the focal length', () => {
+      const fov = getVerticalFov({ focalLength: 85, sensor: 'alexa-lf', roll: 0 }, 16 / 9)
+      expect(focalLengthForFov(fov, 'alexa-lf', 16 / 9)).toBeCloseTo(85, 6)
+    })
+  })
+
+  // ── 4. Animation Channel ────────────────────────────────────────────
+
+  describe('lens channel', () => {
+    it('round-trips focal length and roll, keeping the sensor', () => {
+      const lens = { focalLength: 35, sensor: 'super35' as const, roll: -12 }
+      expect(getLensChannel(lens)).toEqual({ x: 35, y: -12, z: 0 })
+      expect(applyLensChannel(lens, getLensChannel(lens))).toEqual(lens)
+    })
+
+    it('clamps animated values', () => {
+      const lens = createDefaultLens()
+      expect(applyLensChannel(lens, { x: 1, y: 200, z: 0 })).toEqual({ ...lens, focalLength: 8, roll: 90 })
+    })
+  })
+})
@@ -0,0 +1,124 @@
+/** Physical lens model — sensor presets, focal length ↔ field of view, lens channel packing */
+
+import type { CameraLens, SensorId, SensorPreset } from '../types/cameraPath'
+import type { Vec3 } from '../types/scene'
+
+// ── 1. Sensors ───────────────────────────────────────────────────────
+
+/** Common cinema and stills sensors, smallest first. Sizes are the recording area in mm. */
+export const SENSOR_PRESETS: readonly SensorPreset[] = [
+  { id: 'super16', name: 'Super 16', width: 12.52, height: 7.41 },
+  { id: 'micro-four-thirds', name: 'Micro Four Thirds', width: 17.3, height: 13 },
+  { id: 'super35', name: 'Super 35', width: 24.89, height: 18.66 },
+  { id: 'alexa-mini', name: 'ARRI Alexa Mini', width: 28.25, height: 18.17 },
+  { id: 'full-frame', name: 'Full Frame', width: 36, height: 24 },
+  { id: 'alexa-lf', name: 'ARRI Alexa LF', width: 36.7, height: 25.54 },
+  { id: 'red-vv', name: 'RED V-Raptor VV', width: 40.96, height: 21.6 },
+  { id: 'alexa-65', name: 'ARRI Alexa 65', width: 54.12, height: 25.58 },
+]
+
+const DEFAULT_SENSOR: SensorId = 'full-frame'
+
+export function isSensorId(value: unknown): value is SensorId {
+  return SENSOR_PRESETS.some(s => s.id === value)
+}
+
+/** Look up a sensor preset, falling back to full frame for unknown ids */
+export function getSensorPreset(id: SensorId | string): SensorPreset {
+  return SENSOR_PRESETS.find(s => s.id === id)
+    ?? SENSOR_PRESETS.find(s => s.id === DEFAULT_SENSOR)!
+}
+
+// ── 2. Lens Defaults ─────────────────────────────────────────────────
+
+export const MIN_FOCAL_LENGTH = 8
+export const MAX_FOCAL_LENGTH = 300
+
+/** Focal lengths offered as one-click primes */
+export const PRIME_FOCAL_LENGTHS: readonly number[] = [14, 18, 24, 35, 50, 85, 135]
+
+export const MAX_ROLL = 90
+
+/** 24mm on full frame gives roughly the viewport's original 50° vertical FOV at 16:9 */
+export function createDefaultLens(): CameraLens {
+  return { focalLength: 24, sensor: DEFAULT_SENSOR, roll: 0 }
+}
+
+export function clampFocalLength(mm: number): number {
+  return Math.min(MAX_FOCAL_LENGTH, Math.max(MIN_FOCAL_LENGTH, mm))
+}
+
+export function clampRoll(degrees: number): number {
+  return Math.min(MAX_ROLL, Math.max(-MAX_ROLL, degrees))
+}
+
+/** Short label for shot lists and slates, e.g. "35mm · Super 35" */
+export function formatLens(lens: CameraLens): string {
+  return `${Math.round(lens.focalLength)}mm · ${getSensorPreset(lens.sensor).name}`
+}
+
+// ── 3. Field of View ─────────────────────────────────────────────────
+
+const RAD2DEG = 180 / Math.PI
+
+/**
+ * The sensor width is fitted to the wider side of the frame, like three.js
+ * `filmGauge`: a 2.39:1 frame crops the top and bottom of a 16:9 one rather
+ * than seeing more to the sides.
+ */
+function getFilmHeight(sensor: SensorPreset, aspect: number): number {
+  const safeAspect = aspect > 0 ? aspect : 1
+  return sensor.width / Math.max(safeAspect, 1)
+}
+
+/** Vertical field of view in degrees for a frame of the given aspect (width / height) */
+export function getVerticalFov(lens: CameraLens, aspect: number): number {
+  const filmHeight = getFilmHeight(getSensorPreset(lens.sensor), aspect)
+  return 2 * Math.atan(filmHeight / (2 * clampFocalLength(lens.focalLength))) * RAD2DEG
+}
+
+/**
+ * Vertical FOV for a canvas that shows a delivery frame of `frameAspect`
+ * inside it. The lens is fitted to the frame rather than the canvas, so the
+ * area under a letterbox or pillarbox mask is extra picture around the shot.
+ */
+export function getCanvasFov(lens: CameraLens, canvasAspect: number, frameAspect?: number | null): number {
+  if (!frameAspect || frameAspect <= 0 || canvasAspect <= 0) return getVerticalFov(lens, canvasAspect)
+
+  const frameFov = getVerticalFov(lens, frameAspect)
+  // A frame wider than the canvas spans its width and only part of its height
+  const frameHeightFraction = frameAspect > canvasAspect ? canvasAspect / frameAspect : 1
+  return 2 * Math.atan(Math.tan(frameFov / 2 / RAD2DEG) / frameHeightFraction) * RAD2DEG
+}
+
+/** Horizontal field of view in degrees across the full sensor width */
+export function getHorizontalFov(lens: CameraLens): number {
+  const sensor = getSensorPreset(lens.sensor)
+  return 2 * Math.atan(sensor.width / (2 * clampFocalLength(lens.focalLength))) * RAD2DEG
+}
+
+/** Focal length in mm that gives a vertical FOV on the sensor at the given aspect */
+export function focalLengthForFov(verticalFov: number, sensor: SensorId, aspect: number): number {
+  const filmHeight = getFilmHeight(getSensorPreset(sensor), aspect)
+  const halfAngle = Math.min(179, Math.max(1, verticalFov)) / 2 / RAD2DEG
+  return clampFocalLength(filmHeight / (2 * Math.tan(halfAngle)))
+}
+
+// ── 4. Animation Channel ─────────────────────────────────────────────
+
+/**
+ * Keyframes are Vec3s, so the camera track packs the lens as
+ * cameraLens = focal length (mm), roll (degrees), unused.
+ * The sensor is a property of the camera body and is not animated.
+ */
+export function getLensChannel(lens: CameraLens): Vec3 {
+  return { x: lens.focalLength, y: lens.roll, z: 0 }
+}
+
+export function applyLensChannel(lens: CameraLens, value: Vec3): CameraLens {
+  return {
+    ...lens,
+    focalLength: clampFocalLength(value.x),
+    roll: clampRoll(value.y),
+  }
+}
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest'
+import {
+  LIGHT_TYPES,
+  isLightType,
+  isLightObject,
+  canCastShadow,
+  hasSceneLights,
+  createDefaultLight,
+  getSpotPenumbra,
+  getLightChannels,
+  applyLightChannels,
+} from './lights'
+import { createSceneObject } from './sceneOperations'
+
+describe('lights', () => {
+  // ── 1. Light Types ──────────────────────────────────────────────────
+
+  describe('type guards', () => {
+    it('recognizes light types only', () => {
+      for (const type of LIGHT_TYPES) expect(isLightType(type)).toBe(true)
+      expect(isLightType('box')).toBe(false)
+      expect(isLightType('model')).toBe(false)
+    })
+
+    it('requires light settings on light objects', () => {
+      const light = createSceneObject('pointLight', [])
+      expect(isLightObject(light)).toBe(true)
+      expect(isLightObject({ ...light, light: undefined })).toBe(false)
+      expect(isLightObject(createSceneObject('box', []))).toBe(false)
+    })
+
+    it('limits shadows to directional, point and spot lights', () => {
+      expect(LIGHT_TYPES.filter(canCastShadow)).toEqual(['directionalLight', 'pointLight', 'spotLight'])
+    })
+
+    it('detects scenes with their own lights', () => {
+      const box = createSceneObject('box', [])
+      expect(hasSceneLights([box])).toBe(false)
+      expect(hasSceneLights([box, { ...createSceneObject('areaLight', []), visible: false }])).toBe(true)
+    })
+  })
+
+  // ── 2. Defaults ─────────────────────────────────────────────────────
+
+  describe('createDefaultLight', () => {
+    it('applies per-type defaults over the shared ones', () => {
+      expect(createDefaultLight('spotLight')).toMatchObject({ intensity: 20, range: 20, castShadow: true })
+      expect(createDefaultLight('hemisphereLight')).toMatchObject({ color: '#c8d8ff', castShadow: false })
+      expect(createDefaultLight('pointLight').decay).toBe(2)
+    })
+  })
+
+  describe('getSpotPenumbra', () => {
+    it('derives the penumbra from the cone angles', () => {
+      const light = createDefaultLight('spotLight')
+      expect(getSpotPenumbra({ ...light, outerConeAngle: 40, innerConeAngle: 30 })).toBeCloseTo(0.25)
+      expect(getSpotPenumbra({ ...light, outerConeAngle: 40, innerConeAngle: 40 })).toBe(0)
+      expect(getSpotPenumbra({ ...light, outerConeAngle: 0, innerConeAngle: 0 })).toBe(0)
+    })
+  })
+
+  // ── 3. Animation Channels ───────────────────────────────────────────
+
+  describe('light channels', () => {
+    it('round-trips color and params', () => {
+      const light = { ...createDefaultLight('spotLight'), color: '#ff8000', intensity: 12, range: 8 }
+      const channels = getLightChannels(light)
+      expect(channels.lightColor).toEqual({ x: 1, y: 128 / 255, z: 0 })
+      expect(channels.lightParams).toEqual({ x: 12, y: 8, z: 30 })
+      expect(applyLightChannels(light, channels)).toEqual(light)
+    })
+
+    it('clamps values and keeps the inner cone ratio', () => {
+      const light = { ...createDefaultLight('spotLight'), outerConeAngle: 40, innerConeAngle: 20 }
+      const result = applyLightChannels(light, {
+        lightColor: { x: 2, y: -1, z: 0.5 },
+        lightParams: { x: -3, y: 5, z: 60 },
+      })
+      expect(result.color).toBe('#ff0080')
+      expect(result.intensity).toBe(0)
+      expect(result.outerConeAngle).toBe(60)
+      expect(result.innerConeAngle).toBe(30)
+    })
+
+    it('leaves unanimated fields alone', () => {
+      const light = createDefaultLight('pointLight')
+      expect(applyLightChannels(light, { lightColor: { x: 0, y: 0, z: 1 } })).toEqual({ ...light, color: '#0000ff' })
+    })
+  })
+})
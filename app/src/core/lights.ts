@@ -0,0 +1,127 @@
+/** Light objects — type guards, defaults and animation channel packing */
+
+import type { LightData, LightType, ObjectType, SceneObject, ShadowMapSize, Vec3 } from '../types/scene'
+
+// ── 1. Light Types ───────────────────────────────────────────────────
+
+export const LIGHT_TYPES: readonly LightType[] = [
+  'directionalLight',
+  'pointLight',
+  'spotLight',
+  'areaLight',
+  'hemisphereLight',
+]
+
+export const SHADOW_MAP_SIZES: readonly ShadowMapSize[] = [512, 1024, 2048, 4096]
+
+export function isLightType(type: ObjectType | string): type is LightType {
+  return (LIGHT_TYPES as readonly string[]).includes(type)
+}
+
+export function isLightObject(obj: SceneObject): obj is SceneObject & { type: LightType; light: LightData } {
+  return isLightType(obj.type) && obj.light !== undefined
+}
+
+/** Area and hemisphere lights have no shadow support in three.js */
+export function canCastShadow(type: LightType): boolean {
+  return type === 'directionalLight' || type === 'pointLight' || type === 'spotLight'
+}
+
+/** Point and spot lights fall off with distance */
+export function hasRange(type: LightType): boolean {
+  return type === 'pointLight' || type === 'spotLight'
+}
+
+/**
+ * Scenes without light objects are lit by the default studio rig; once a
+ * scene has lights of its own, the rig is switched off.
+ */
+export function hasSceneLights(objects: SceneObject[]): boolean {
+  return objects.some(o => isLightType(o.type))
+}
+
+// ── 2. Defaults ──────────────────────────────────────────────────────
+
+const LIGHT_DEFAULTS: Record<LightType, Partial<LightData>> = {
+  directionalLight: { intensity: 1, castShadow: true },
+  pointLight: { color: '#ffe8c8', intensity: 10 },
+  spotLight: { intensity: 20, range: 20, castShadow: true },
+  areaLight: { intensity: 5 },
+  hemisphereLight: { color: '#c8d8ff', intensity: 0.6 },
+}
+
+export function createDefaultLight(type: LightType): LightData {
+  return {
+    color: '#ffffff',
+    intensity: 1,
+    range: 0,
+    decay: 2,
+    outerConeAngle: 30,
+    innerConeAngle: 20,
+    width: 2,
+    height: 1,
+    groundColor: '#5a4630',
+    castShadow: false,
+    shadowBias: -0.0005,
+    shadowMapSize: 1024,
+    shadowRadius: 1,
+    ...LIGHT_DEFAULTS[type],
+  }
+}
+
+/** three.js spot penumbra (0-1) from the inner and outer cone angles */
+export function getSpotPenumbra(light: LightData): number {
+  if (light.outerConeAngle <= 0) return 0
+  return Math.min(1, Math.max(0, 1 - light.innerConeAngle / light.outerConeAngle))
+}
+
+// ── 3. Animation Channels ────────────────────────────────────────────
+
+/** A '#rrggbb' color as RGB channels (0-1); unreadable colors are white */
+export function hexToRgb(hex: string): Vec3 {
+  const value = parseInt(hex.replace('#', '').padEnd(6, '0').slice(0, 6), 16)
+  if (Number.isNaN(value)) return { x: 1, y: 1, z: 1 }
+  return {
+    x: ((value >> 16) & 0xff) / 255,
+    y: ((value >> 8) & 0xff) / 255,
+    z: (value & 0xff) / 255,
+  }
+}
+
+/** RGB channels (0-1), clamped, as a '#rrggbb' color */
+export function rgbToHex(rgb: Vec3): string {
+  const channel = (c: number) => Math.round(Math.min(1, Math.max(0, c)) * 255).toString(16).padStart(2, '0')
+  return `#${channel(rgb.x)}${channel(rgb.y)}${channel(rgb.z)}`
+}
+
+/** Keyframe values for a light's animatable fields */
+export function getLightChannels(light: LightData): { lightColor: Vec3; lightParams: Vec3 } {
+  return {
+    lightColor: hexToRgb(light.color),
+    lightParams: { x: light.intensity, y: light.range, z: light.outerConeAngle },
+  }
+}
+
+/**
+ * Apply evaluated light channels. The inner cone keeps its ratio to the outer
+ * cone so animating the spread preserves the edge softness.
+ */
+export function applyLightChannels(
+  light: LightData,
+  values: { lightColor?: Vec3; lightParams?: Vec3 },
+): LightData {
+  const result = { ...light }
+  if (values.lightColor) {
+    result.color = rgbToHex(values.lightColor)
+  }
+  if (values.lightParams) {
+    const { x: intensity, y: range, z: outer } = values.lightParams
+    result.intensity = Math.max(0, intensity)
+    result.range = Math.max(0, range)
+    result.outerConeAngle = Math.min(90, Math.max(0, outer))
+    result.innerConeAngle = light.outerConeAngle > 0
+      ? result.outerConeAngle * (light.innerConeAngle / light.outerConeAngle)
+      : 0
+  }
+  return result
+}
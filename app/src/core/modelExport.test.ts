@@ -0,0 +1,152 @@
+import { describe, it, expect, vi } from 'vitest'
+import * as THREE from 'three'
+import {
+  decodeDataUri,
+  parseGltfModel,
+  extractMeshSource,
+  threeMaterialToMaterialData,
+} from './modelExport'
+import { assembleGlb } from './exportPipeline'
+
+// ── Helpers ───────────────────────────────────────────────────────────
+
+function encodeJson(value: unknown): ArrayBuffer {
+  return new TextEncoder().encode(JSON.stringify(value)).buffer as ArrayBuffer
+}
+
+const noFetch = vi.fn(async (): Promise<ArrayBuffer> => {
+  throw new Error('unexpected fetch')
+})
+
+// ── decodeDataUri ─────────────────────────────────────────────────────
+
+describe('decodeDataUri', () => {
+  it('decodes base64 data URIs', () => {
+    const bytes = decodeDataUri('data:application/octet-stream;base64,AQID')
+    expect(Array.from(bytes!)).toEqual([1, 2, 3])
+  })
+
+  it('returns null for regular URIs', () => {
+    expect(decodeDataUri('model.bin')).toBeNull()
+  })
+})
+
+// ── parseGltfModel ────────────────────────────────────────────────────
+
+describe('parseGltfModel', () => {
+  it('parses a .gltf JSON file with a data URI buffer', async () => {
+    const doc = {
+      asset: { version: '2.0' },
+      buffers: [{ byteLength: 3, uri: 'data:application/octet-stream;base64,AQID' }],
+    }
+    const source = await parseGltfModel(encodeJson(doc), noFetch)
+    expect(source.kind).toBe('gltf')
+    expect(Array.from(source.buffers[0])).toEqual([1, 2, 3])
+  })
+
+  it('parses a GLB container and uses its BIN chunk for the first buffer', async () => {
+    const json = JSON.stringify({ asset: { version: '2.0' }, buffers: [{ byteLength: 4 }] })
+    const glb = assembleGlb(json, new Uint8Array([9, 8, 7, 6]).buffer as ArrayBuffer)
+    const source = await parseGltfModel(glb, noFetch)
+    expect(Array.from(source.buffers[0])).toEqual([9, 8, 7, 6])
+  })
+
+  it('fetches external buffers through the provided fetcher', async () => {
+    const fetchUri = vi.fn(async () => new Uint8Array([5, 5]).buffer as ArrayBuffer)
+    const doc = { asset: { version: '2.0' }, buffers: [{ byteLength: 2, uri: 'mesh.bin' }] }
+    const source = await parseGltfModel(encodeJson(doc), fetchUri)
+    expect(fetchUri).toHaveBeenCalledWith('mesh.bin')
+    expect(Array.from(source.buffers[0])).toEqual([5, 5])
+  })
+
+  it('embeds external images as buffer views', async () => {
+    const fetchUri = vi.fn(async () => new Uint8Array([1, 2, 3, 4]).buffer as ArrayBuffer)
+    const doc = { asset: { version: '2.0' }, images: [{ uri: 'textures/albedo.jpg' }] }
+    const source = await parseGltfModel(encodeJson(doc), fetchUri)
+
+    const image = source.document.images![0]
+    expect(image.uri).toBeUndefined()
+    expect(image.mimeType).toBe('image/jpeg')
+    const bv = source.document.bufferViews![image.bufferView!]
+    expect(Array.from(source.buffers[bv.buffer])).toEqual([1, 2, 3, 4])
+  })
+
+  it('leaves data URI images inline', async () => {
+    const doc = { asset: { version: '2.0' }, images: [{ uri: 'data:image/png;base64,AAAA' }] }
+    const source = await parseGltfModel(encodeJson(doc), noFetch)
+    expect(source.document.images![0].uri).toBe('data:image/png;base64,AAAA')
+  })
+
+  it('throws on invalid JSON', async () => {
+    const bytes = new TextEncoder().encode('not json').buffer as ArrayBuffer
+    await expect(parseGltfModel(bytes, noFetch)).rejects.toThrow('Invalid glTF')
+  })
+})
+
+// ── extractMeshSource ─────────────────────────────────────────────────
+
+describe('extractMeshSource', () => {
+  it('extracts geometry, transform and material for each mesh', () => {
+    const root = new THREE.Group()
+    root.scale.set(0.01, 0.01, 0.01)
+    const mesh = new THREE.Mesh(
+      new THREE.BoxGeometry(1, 1, 1),
+      new THREE.MeshStandardMaterial({ color: '#ff0000', metalness: 0.5, roughness: 0.25 }),
+    )
+    mesh.name = 'Crate'
+    mesh.position.set(100, 0, 0)
+    root.add(mesh)
+
+    const source = extractMeshSource(root)
+    expect(source.kind).toBe('mesh')
+    expect(source.meshes).toHaveLength(1)
+
+    const data = source.meshes[0]
+    expect(data.name).toBe('Crate')
+    expect(data.translation[0]).toBeCloseTo(1)
+    expect(data.scale[0]).toBeCloseTo(0.01)
+    expect(data.positions.length).toBe(24 * 3)
+    expect(data.normals!.length).toBe(24 * 3)
+    expect(data.uvs!.length).toBe(24 * 2)
+    expect(data.primitives).toHaveLength(1)
+    expect(data.primitives[0].indices.length).toBe(36)
+    expect(data.primitives[0].material).toMatchObject({ color: '#ff0000', metalness: 0.5, roughness: 0.25 })
+  })
+
+  it('splits multi-material meshes by geometry group', () => {
+    const geometry = new THREE.BoxGeometry(1, 1, 1)
+    const materials = Array.from({ length: 6 }, () => new THREE.MeshBasicMaterial())
+    const source = extractMeshSource(new THREE.Mesh(geometry, materials))
+    expect(source.meshes[0].primitives).toHaveLength(6)
+    expect(source.meshes[0].primitives.every(p => p.indices.length === 6)).toBe(true)
+  })
+
+  it('generates indices for non-indexed geometry', () => {
+    const geometry = new THREE.BufferGeometry()
+    geometry.setAttribute('position', new THREE.Float32BufferAttribute([0, 0, 0, 1, 0, 0, 0, 1, 0], 3))
+    const source = extractMeshSource(new THREE.Mesh(geometry, new THREE.MeshBasicMaterial()))
+    expect(Array.from(source.meshes[0].primitives[0].indices)).toEqual([0, 1, 2])
+    expect(source.meshes[0].normals).toBeUndefined()
+  })
+
+  it('skips meshes without vertices', () => {
+    const source = extractMeshSource(new THREE.Mesh(new THREE.BufferGeometry(), new THREE.MeshBasicMaterial()))
+    expect(source.meshes).toHaveLength(0)
+  })
+})
+
+// ── threeMaterialToMaterialData ───────────────────────────────────────
+
+describe('threeMaterialToMaterialData', () => {
+  it('maps basic and phong materials to their types', () => {
+    expect(threeMaterialToMaterialData(new THREE.MeshBasicMaterial()).type).toBe('basic')
+    expect(threeMaterialToMaterialData(new THREE.MeshPhongMaterial()).type).toBe('phong')
+    expect(threeMaterialToMaterialData(new THREE.MeshLambertMaterial()).type).toBe('phong')
+  })
+
+  it('copies opacity and transparency', () => {
+    const data = threeMaterialToMaterialData(new THREE.MeshStandardMaterial({ opacity: 0.5, transparent: true }))
+    expect(data.opacity).toBe(0.5)
+    expect(data.transparent).toBe(true)
+  })
+})
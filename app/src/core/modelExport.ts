@@ -0,0 +1,320 @@
+/** Model export sources — turns imported model files into data that
+ *  sceneToGltf can merge into an export (see ModelExportSource). */
+
+import * as THREE from 'three'
+import type { MaterialData, SceneObject } from '../types/scene'
+import type {
+  GltfModelSource, GltfSourceDocument, MeshModelSource, ModelMeshData, ModelExportSource,
+} from './exportPipeline'
+import { createDefaultMaterial } from './sceneOperations'
+import { isGltfFormat, type SupportedModelFormat } from './modelLoader'
+
+// ── Constants ────────────────────────────────────────────────────────
+
+const GLB_MAGIC = 0x46546C67       // 'glTF'
+const GLB_HEADER_SIZE = 12
+const JSON_CHUNK_TYPE = 0x4E4F534A // 'JSON'
+const BIN_CHUNK_TYPE = 0x004E4942  // 'BIN\0'
+
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  webp: 'image/webp',
+  ktx2: 'image/ktx2',
+}
+
+// ── glTF/GLB Parsing ─────────────────────────────────────────────────
+
+/** Fetches the bytes behind a URI referenced by a glTF document */
+export type UriFetcher = (uri: string) => Promise<ArrayBuffer>
+
+/** Decode a base64 data URI into bytes. Returns null for non-data URIs. */
+export function decodeDataUri(uri: string): Uint8Array | null {
+  const match = /^data:[^,]*?;base64,(.*)$/s.exec(uri)
+  if (!match) return null
+  const binary = atob(match[1])
+  const bytes = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i)
+  }
+  return bytes
+}
+
+/** Split a GLB container into its JSON document and optional BIN chunk */
+function parseGlbContainer(data: ArrayBuffer): { json: string; bin: Uint8Array | null } {
+  const view = new DataView(data)
+  const totalLength = Math.min(view.getUint32(8, true), data.byteLength)
+  let offset = GLB_HEADER_SIZE
+  let json: string | null = null
+  let bin: Uint8Array | null = null
+
+  while (offset + 8 <= totalLength) {
+    const chunkLength = view.getUint32(offset, true)
+    const chunkType = view.getUint32(offset + 4, true)
+    const chunkStart = offset + 8
+    if (chunkStart + chunkLength > totalLength) break
+
+    if (chunkType === JSON_CHUNK_TYPE) {
+      json = new TextDecoder().decode(new Uint8Array(data, chunkStart, chunkLength))
+    } else if (chunkType === BIN_CHUNK_TYPE && !bin) {
+      bin = new Uint8Array(data, chunkStart, chunkLength)
+    }
+    offset = chunkStart + chunkLength
+  }
+
+  if (json === null) {
+    throw new Error('Invalid GLB: missing JSON chunk')
+  }
+  return { json, bin }
+}
+
+/** Parse a .gltf or .glb file into a model source with every buffer resolved.
+ *  Data URIs are decoded inline; other buffer and image URIs are loaded via
+ *  `fetchUri` and external images are embedded as buffer views. */
+export async function parseGltfModel(data: ArrayBuffer, fetchUri: UriFetcher): Promise<GltfModelSource> {
+  const isGlb = data.byteLength >= GLB_HEADER_SIZE && new DataView(data).getUint32(0, true) === GLB_MAGIC
+
+  let jsonText: string
+  let glbBin: Uint8Array | null = null
+  if (isGlb) {
+    const container = parseGlbContainer(data)
+    jsonText = container.json
+    glbBin = container.bin
+  } else {
+    jsonText = new TextDecoder().decode(new Uint8Array(data))
+  }
+
+  let document: GltfSourceDocument
+  try {
+    document = JSON.parse(jsonText) as GltfSourceDocument
+  } catch {
+    throw new Error('Invalid glTF: unable to parse JSON')
+  }
+
+  const buffers: Uint8Array[] = []
+  for (const [i, buffer] of (document.buffers ?? []).entries()) {
+    if (buffer.uri === undefined) {
+      // The GLB BIN chunk backs the first buffer when it has no URI
+      buffers.push(i === 0 && glbBin ? glbBin : new Uint8Array(buffer.byteLength))
+    } else {
+      buffers.push(decodeDataUri(buffer.uri) ?? new Uint8Array(await fetchUri(buffer.uri)))
+    }
+  }
+
+  // Embed external images so the export does not depend on files next to the source
+  for (const image of document.images ?? []) {
+    if (image.uri === undefined || image.uri.startsWith('data:')) continue
+
+    const bytes = new Uint8Array(await fetchUri(image.uri))
+    const extension = image.uri.split('?')[0].split('.').pop()?.toLowerCase() ?? ''
+    if (!document.bufferViews) document.bufferViews = []
+    if (!document.buffers) document.buffers = []
+
+    document.buffers.push({ byteLength: bytes.byteLength })
+    buffers.push(bytes)
+    document.bufferViews.push({ buffer: buffers.length - 1, byteLength: bytes.byteLength })
+    image.bufferView = document.bufferViews.length - 1
+    image.mimeType = image.mimeType ?? IMAGE_MIME_TYPES[extension] ?? 'image/png'
+    delete image.uri
+  }
+
+  return { kind: 'gltf', document, buffers }
+}
+
+// ── three.js Geometry Extraction ─────────────────────────────────────
+
+/** Copy a (possibly interleaved) buffer attribute into a tightly packed Float32Array */
+function attributeToFloat32(attribute: THREE.BufferAttribute | THREE.InterleavedBufferAttribute): Float32Array {
+  const { count, itemSize } = attribute
+  const out = new Float32Array(count * itemSize)
+  for (let i = 0; i < count; i++) {
+    for (let c = 0; c < itemSize; c++) {
+      out[i * itemSize + c] = attribute.getComponent(i, c)
+    }
+  }
+  return out
+}
+
+function toIndexArray(values: ArrayLike<number>, vertexCount: number): Uint16Array | Uint32Array {
+  return vertexCount > 0xffff ? Uint32Array.from(values) : Uint16Array.from(values)
+}
+
+/** Convert a three.js material to the scene's MaterialData */
+export function threeMaterialToMaterialData(material: THREE.Material): MaterialData {
+  const result = createDefaultMaterial()
+  const withColor = material as THREE.Material & { color?: THREE.Color }
+  if (withColor.color) {
+    result.color = `#${withColor.color.getHexString()}`
+  }
+
+  if (material instanceof THREE.MeshBasicMaterial) {
+    result.type = 'basic'
+  } else if (material instanceof THREE.MeshPhongMaterial || material instanceof THREE.MeshLambertMaterial) {
+    result.type = 'phong'
+  } else if (material instanceof THREE.MeshStandardMaterial) {
+    result.metalness = material.metalness
+    result.roughness = material.roughness
+  }
+
+  result.opacity = material.opacity
+  result.transparent = material.transparent
+  result.wireframe = (material as THREE.Material & { wireframe?: boolean }).wireframe ?? false
+  return result
+}
+
+/** Extract every mesh under `root` with its transform relative to the root's parent.
+ *  Multi-material meshes become one primitive per geometry group. */
+export function extractMeshSource(root: THREE.Object3D): MeshModelSource {
+  root.updateMatrixWorld(true)
+
+  const meshes: ModelMeshData[] = []
+  const position = new THREE.Vector3()
+  const quaternion = new THREE.Quaternion()
+  const scale = new THREE.Vector3()
+
+  root.traverse(child => {
+    const mesh = child as THREE.Mesh
+    if (!mesh.isMesh) return
+
+    const geometry = mesh.geometry
+    const positionAttr = geometry.getAttribute('position')
+    if (!positionAttr || positionAttr.count === 0) return
+
+    const vertexCount = positionAttr.count
+    const normalAttr = geometry.getAttribute('normal')
+    const uvAttr = geometry.getAttribute('uv')
+
+    const allIndices: ArrayLike<number> = geometry.index
+      ? geometry.index.array
+      : Array.from({ length: vertexCount }, (_, i) => i)
+
+    const materials = Array.isArray(mesh.material) ? mesh.material : [mesh.material]
+    const groups = Array.isArray(mesh.material) && geometry.groups.length > 0
+      ? geometry.groups
+      : [{ start: 0, count: allIndices.length, materialIndex: 0 }]
+
+    const primitives: ModelMeshData['primitives'] = []
+    for (const group of groups) {
+      const material = materials[group.materialIndex ?? 0] ?? materials[0]
+      const end = Math.min(allIndices.length, group.start + group.count)
+      const slice = Array.prototype.slice.call(allIndices, group.start, end) as number[]
+      if (slice.length === 0) continue
+      primitives.push({
+        indices: toIndexArray(slice, vertexCount),
+        material: material ? threeMaterialToMaterialData(material) : createDefaultMaterial(),
+      })
+    }
+    if (primitives.length === 0) return
+
+    mesh.matrixWorld.decompose(position, quaternion, scale)
+
+    const data: ModelMeshData = {
+      name: mesh.name || `mesh_${meshes.length}`,
+      translation: [position.x, position.y, position.z],
+      rotation: [quaternion.x, quaternion.y, quaternion.z, quaternion.w],
+      scale: [scale.x, scale.y, scale.z],
+      positions: attributeToFloat32(positionAttr),
+      primitives,
+    }
+    if (normalAttr) data.normals = attributeToFloat32(normalAttr)
+    if (uvAttr) data.uvs = attributeToFloat32(uvAttr)
+    meshes.push(data)
+  })
+
+  return { kind: 'mesh', meshes }
+}
+
+// ── Loading (browser) ────────────────────────────────────────────────
+
+/* v8 ignore start -- Network fetch and three.js loaders require real browser; tested via e2e */
+
+async function fetchBytes(url: string): Promise<ArrayBuffer> {
+  const response = await fetch(url)
+  if (!response.ok) {
+    throw new Error(`Failed to fetch ${url}: ${response.status}`)
+  }
+  return response.arrayBuffer()
+}
+
+async function loadThreeModel(url: string, format: SupportedModelFormat): Promise<THREE.Object3D> {
+  switch (format) {
+    case 'fbx': {
+      const { FBXLoader } = await import('three/examples/jsm/loaders/FBXLoader.js')
+      return new FBXLoader().loadAsync(url)
+    }
+    case 'obj': {
+      const { OBJLoader } = await import('three/examples/jsm/loaders/OBJLoader.js')
+      return new OBJLoader().loadAsync(url)
+    }
+    case 'dae': {
+      const { ColladaLoader } = await import('three/examples/jsm/loaders/ColladaLoader.js')
+      const result = await new ColladaLoader().loadAsync(url)
+      if (!result) throw new Error('Collada file contained no scene')
+      return result.scene
+    }
+    default: {
+      const { GLTFLoader } = await import('three/examples/jsm/loaders/GLTFLoader.js')
+      return (await new GLTFLoader().loadAsync(url)).scene
+    }
+  }
+}
+
+/** glTF/GLB files are merged as-is unless they require extensions we cannot
+ *  re-emit (e.g. Draco) or cannot be parsed here, in which case three.js
+ *  decodes them into meshes. */
+async function loadModelExportSource(url: string, format: SupportedModelFormat): Promise<ModelExportSource> {
+  if (isGltfFormat(format)) {
+    try {
+      const source = await parseGltfModel(
+        await fetchBytes(url),
+        uri => fetchBytes(new URL(uri, url).href),
+      )
+      if (!source.document.extensionsRequired || source.document.extensionsRequired.length === 0) {
+        return source
+      }
+    } catch (error) {
+      // e.g. an unsupported buffer, or a relative resource next to a blob: URL
+      console.warn(`Could not merge ${format} model as-is, converting it instead:`, error)
+    }
+  }
+  return extractMeshSource(await loadThreeModel(url, format))
+}
+
+export interface ModelExportSources {
+  /** Keyed by gltfUrl */
+  sources: Map<string, ModelExportSource>
+  /** One message per model left out of the export */
+  warnings: string[]
+}
+
+/** Load export sources for every model object. Models that fail to load are
+ *  left out of the export and reported in `warnings`. */
+export async function loadModelExportSources(objects: SceneObject[]): Promise<ModelExportSources> {
+  const sources = new Map<string, ModelExportSource>()
+  const failed = new Set<string>()
+  const warnings: string[] = []
+
+  for (const obj of objects) {
+    if (obj.type !== 'model' || !obj.gltfUrl) continue
+    const url = obj.gltfUrl
+    if (failed.has(url)) {
+      warnings.push(`${obj.name} was left out: its model could not be loaded`)
+      continue
+    }
+    if (sources.has(url)) continue
+    const format = obj.modelFormat ?? 'glb'
+
+    try {
+      sources.set(url, await loadModelExportSource(url, format))
+    } catch (error) {
+      console.error(`Failed to load ${format} model for export:`, error)
+      failed.add(url)
+      warnings.push(`${obj.name} was left out: its model could not be loaded`)
+    }
+  }
+
+  return { sources, warnings }
+}
+
+/* v8 ignore stop */
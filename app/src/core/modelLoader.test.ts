@@ -4,7 +4,9 @@ import {
   getSupportedExtensions,
   getAcceptString,
   isGltfFormat,
+  isModelMaterialCustomized,
 } from './modelLoader'
+import { createDefaultMaterial } from './sceneOperations'
 
 describe('modelLoader', () => {
   describe('detectModelFormat', () => {
@@ -83,4 +85,14 @@ describe('modelLoader', () => {
       expect(isGltfFormat('dae')).toBe(false)
     })
   })
+  describe('isModelMaterialCustomized', () => {
+    it('returns false for the default material', () => {
+      expect(isModelMaterialCustomized(createDefaultMaterial())).toBe(false)
+    })
+
+    it('returns true when any material property differs', () => {
+      expect(isModelMaterialCustomized({ ...createDefaultMaterial(), color: '#ff0000' })).toBe(true)
+      expect(isModelMaterialCustomized({ ...createDefaultMaterial(), wireframe: true })).toBe(true)
+    })
+  })
 })
@@ -1,5 +1,8 @@
 /** Multi-format 3D model loader utility */
 
+import type { MaterialData } from '../types/scene'
+import { createDefaultMaterial } from './sceneOperations'
+
 export type SupportedModelFormat = 'gltf' | 'glb' | 'fbx' | 'obj' | 'dae'
 
 const FORMAT_EXTENSIONS: Record<string, SupportedModelFormat> = {
@@ -33,3 +36,18 @@ export function getAcceptString(): string {
 export function isGltfFormat(format: SupportedModelFormat): boolean {
   return format === 'gltf' || format === 'glb'
 }
+
+/** Check whether a model's material differs from the default assigned on import.
+ *  Customized materials replace the model's own materials when rendering and exporting. */
+export function isModelMaterialCustomized(material: MaterialData): boolean {
+  const defaults = createDefaultMaterial()
+  return (
+    material.color !== defaults.color ||
+    material.type !== defaults.type ||
+    material.opacity !== defaults.opacity ||
+    material.transparent !== defaults.transparent ||
+    material.wireframe !== defaults.wireframe ||
+    material.metalness !== defaults.metalness ||
+    material.roughness !== defaults.roughness
+  )
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect } from 'vitest'
+import { writeMp4 } from './mp4Muxer'
+import type { EncodedVideoFrame, EncodedVideoTrack } from '../types/export'
+
+interface Box {
+  type: string
+  /** Absolute offset of the box in the file */
+  offset: number
+  data: Uint8Array
+}
+
+const CONTAINERS = new Set(['moov', 'trak', 'mdia', 'minf', 'stbl'])
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    out.set(chunk, offset)
+    offset += chunk.length
+  }
+  return out
+}
+
+/** Every box in the file by type, descending into the container boxes */
+function parse(file: Uint8Array, start = 0, end = file.length, boxes = new Map<string, Box>()): Map<string, Box> {
+  const view = new DataView(file.buffer, file.byteOffset, file.byteLength)
+  let p = start
+  while (p < end) {
+    const size = view.getUint32(p)
+    const type = new TextDecoder().decode(file.subarray(p + 4, p + 8))
+    boxes.set(type, { type, offset: p, data: file.subarray(p + 8, p + size) })
+    if (CONTAINERS.has(type)) parse(file, p + 8, p + size, boxes)
+    p += size
+  }
+  return boxes
+}
+
+const u32 = (box: Box, at: number) => new DataView(box.data.buffer, box.data.byteOffset).getUint32(at)
+
+const track: EncodedVideoTrack = { codec: 'avc', width: 1280, height: 720, fps: 30, description: new Uint8Array([1, 0x42, 0xe0, 0x1f]) }
+
+function makeFrames(count: number): EncodedVideoFrame[] {
+  return Array.from({ length: count }, (_, i) => ({ data: new Uint8Array(10 + i).fill(i), keyFrame: i % 60 === 0 }))
+}
+
+describe('mp4Muxer', () => {
+  it('puts the movie box ahead of the media data', () => {
+    const file = concat(writeMp4(track, makeFrames(90)))
+    const boxes = parse(file)
+    expect(boxes.get('ftyp')!.offset).toBe(0)
+    expect(boxes.get('moov')!.offset).toBeLessThan(boxes.get('mdat')!.offset)
+    expect(boxes.get('mdat')!.offset + 8 + boxes.get('mdat')!.data.length).toBe(file.length)
+
+    // stsd: version/flags and entry count, then the avc1 entry with 78 bytes of fields before avcC
+    const entry = parse(file, boxes.get('stsd')!.offset + 16)
+    expect(entry.has('avc1')).toBe(true)
+    const avcC = parse(file, entry.get('avc1')!.offset + 8 + 78, entry.get('avc1')!.offset + 8 + entry.get('avc1')!.data.length)
+    expect([...avcC.get('avcC')!.data]).toEqual([1, 0x42, 0xe0, 0x1f])
+  })
+
+  it('gives every frame the same duration', () => {
+    const boxes = parse(concat(writeMp4(track, makeFrames(90))))
+    const mdhd = boxes.get('mdhd')!
+    expect(u32(mdhd, 12)).toBe(30_000)                  // timescale
+    expect(u32(mdhd, 16)).toBe(90_000)                  // duration: 3 s
+    expect(u32(boxes.get('mvhd')!, 16)).toBe(3000)      // movie duration in ms
+
+    const stts = boxes.get('stts')!
+    expect([u32(stts, 4), u32(stts, 8), u32(stts, 12)]).toEqual([1, 90, 1000])
+    const stss = boxes.get('stss')!
+    expect([u32(stss, 4), u32(stss, 8), u32(stss, 12)]).toEqual([2, 1, 61])
+  })
+
+  it('points the sample table at the frame data', () => {
+    const frames = makeFrames(3)
+    const file = concat(writeMp4(track, frames))
+    const boxes = parse(file)
+
+    const stsz = boxes.get('stsz')!
+    expect([u32(stsz, 8), u32(stsz, 12), u32(stsz, 16), u32(stsz, 20)]).toEqual([3, 10, 11, 12])
+
+    const chunkOffset = u32(boxes.get('stco')!, 8)
+    expect(chunkOffset).toBe(boxes.get('mdat')!.offset + 8)
+    expect([...file.subarray(chunkOffset + 10, chunkOffset + 21)]).toEqual([...frames[1].data])
+  })
+
+  it('only carries H.264 with its decoder configuration', () => {
+    expect(() => writeMp4({ ...track, codec: 'vp9' }, [])).toThrow(/H\.264/)
+    expect(() => writeMp4({ ...track, description: undefined }, [])).toThrow(/decoder configuration/)
+  })
+})
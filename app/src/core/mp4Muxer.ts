@@ -0,0 +1,184 @@
+/**
+ * Minimal MP4 muxer — one H.264 video track at a constant frame rate, with
+ * the movie box ahead of the media data so playback can start before the
+ * whole file has loaded. Frames must be in presentation order (no B-frames),
+ * which is what the offline encoder asks for.
+ */
+
+import type { EncodedVideoFrame, EncodedVideoTrack } from '../types/export'
+
+type Chunks = Uint8Array<ArrayBuffer>[]
+
+// ── 1. Boxes ─────────────────────────────────────────────────────────
+
+/** Builds a box payload field by field, big-endian */
+class BoxWriter {
+  private bytes: number[] = []
+
+  u8(value: number): this {
+    this.bytes.push(value & 0xff)
+    return this
+  }
+
+  u16(value: number): this {
+    return this.u8(value >>> 8).u8(value)
+  }
+
+  u32(value: number): this {
+    return this.u16(value >>> 16).u16(value)
+  }
+
+  ascii(text: string): this {
+    for (const ch of text) this.u8(ch.charCodeAt(0))
+    return this
+  }
+
+  zeros(count: number): this {
+    for (let i = 0; i < count; i++) this.u8(0)
+    return this
+  }
+
+  /** Unity transformation matrix */
+  matrix(): this {
+    return this.u32(0x00010000).u32(0).u32(0)
+      .u32(0).u32(0x00010000).u32(0)
+      .u32(0).u32(0).u32(0x40000000)
+  }
+
+  done(): Uint8Array<ArrayBuffer> {
+    return new Uint8Array(this.bytes)
+  }
+}
+
+function size(chunks: Chunks): number {
+  return chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+}
+
+function box(type: string, ...children: (Chunks | Uint8Array<ArrayBuffer>)[]): Chunks {
+  const body = children.flatMap(child => (child instanceof Uint8Array ? [child] : child))
+  return [new BoxWriter().u32(8 + size(body)).ascii(type).done(), ...body]
+}
+
+function fullBox(type: string, version: number, flags: number, ...children: (Chunks | Uint8Array<ArrayBuffer>)[]): Chunks {
+  const header = new BoxWriter().u8(version).u8(flags >>> 16).u16(flags).done()
+  return box(type, header, ...children)
+}
+
+// ── 2. Sample Tables ─────────────────────────────────────────────────
+
+/** Media timescale units per frame; the track timescale is fps × this */
+const TICKS_PER_FRAME = 1000
+
+function sampleEntry(track: EncodedVideoTrack): Chunks {
+  if (track.codec !== 'avc') throw new Error(`MP4 export only supports H.264 video, not ${track.codec.toUpperCase()}`)
+  if (!track.description) throw new Error('H.264 decoder configuration is missing')
+
+  const fields = new BoxWriter()
+    .zeros(6).u16(1)                 // reserved, data reference index
+    .zeros(16)                       // pre-defined and reserved
+    .u16(track.width).u16(track.height)
+    .u32(0x00480000).u32(0x00480000) // 72 dpi
+    .u32(0)
+    .u16(1)                          // frames per sample
+    .zeros(32)                       // compressor name
+    .u16(0x0018)                     // depth
+    .u16(0xffff)                     // pre-defined
+    .done()
+  return box('avc1', fields, box('avcC', new Uint8Array(track.description)))
+}
+
+function sampleTable(track: EncodedVideoTrack, frames: readonly EncodedVideoFrame[], mdatOffset: number): Chunks {
+  const stts = new BoxWriter().u32(frames.length > 0 ? 1 : 0)
+  if (frames.length > 0) stts.u32(frames.length).u32(TICKS_PER_FRAME)
+
+  const keyFrames = frames.flatMap((frame, i) => (frame.keyFrame ? [i + 1] : []))
+  const stss = new BoxWriter().u32(keyFrames.length)
+  keyFrames.forEach(n => stss.u32(n))
+
+  // Every sample sits in one chunk at the start of mdat
+  const stsc = new BoxWriter().u32(frames.length > 0 ? 1 : 0)
+  if (frames.length > 0) stsc.u32(1).u32(frames.length).u32(1)
+
+  const stsz = new BoxWriter().u32(0).u32(frames.length)
+  frames.forEach(frame => stsz.u32(frame.data.length))
+
+  const stco = new BoxWriter().u32(frames.length > 0 ? 1 : 0)
+  if (frames.length > 0) stco.u32(mdatOffset)
+
+  return box('stbl',
+    fullBox('stsd', 0, 0, new BoxWriter().u32(1).done(), sampleEntry(track)),
+    fullBox('stts', 0, 0, stts.done()),
+    fullBox('stss', 0, 0, stss.done()),
+    fullBox('stsc', 0, 0, stsc.done()),
+    fullBox('stsz', 0, 0, stsz.done()),
+    fullBox('stco', 0, 0, stco.done()),
+  )
+}
+
+// ── 3. Muxing ────────────────────────────────────────────────────────
+
+function movieBox(track: EncodedVideoTrack, frames: readonly EncodedVideoFrame[], mdatOffset: number): Chunks {
+  const timescale = Math.round(track.fps) * TICKS_PER_FRAME
+  const mediaDuration = frames.length * TICKS_PER_FRAME
+  const movieDuration = Math.round((frames.length * 1000) / track.fps)   // movie timescale is ms
+
+  const mvhd = new BoxWriter()
+    .u32(0).u32(0)                   // creation, modification time
+    .u32(1000).u32(movieDuration)
+    .u32(0x00010000).u16(0x0100)     // rate 1.0, volume 1.0
+    .zeros(10)
+    .matrix()
+    .zeros(24)
+    .u32(2)                          // next track ID
+    .done()
+
+  const tkhd = new BoxWriter()
+    .u32(0).u32(0)
+    .u32(1).u32(0)                   // track ID, reserved
+    .u32(movieDuration)
+    .zeros(8)
+    .u16(0).u16(0).u16(0).u16(0)     // layer, alternate group, volume, reserved
+    .matrix()
+    .u32(track.width * 0x10000).u32(track.height * 0x10000)
+    .done()
+
+  const mdhd = new BoxWriter()
+    .u32(0).u32(0)
+    .u32(timescale).u32(mediaDuration)
+    .u16(0x55c4).u16(0)              // language "und"
+    .done()
+
+  const hdlr = new BoxWriter().u32(0).ascii('vide').zeros(12).ascii('VideoHandler').u8(0).done()
+  const vmhd = new BoxWriter().u16(0).zeros(6).done()
+  const dref = new BoxWriter().u32(1).done()
+
+  return box('moov',
+    fullBox('mvhd', 0, 0, mvhd),
+    box('trak',
+      fullBox('tkhd', 0, 3, tkhd),    // enabled, in movie
+      box('mdia',
+        fullBox('mdhd', 0, 0, mdhd),
+        fullBox('hdlr', 0, 0, hdlr),
+        box('minf',
+          fullBox('vmhd', 0, 1, vmhd),
+          box('dinf', fullBox('dref', 0, 0, dref, fullBox('url ', 0, 1))),
+          sampleTable(track, frames, mdatOffset),
+        ),
+      ),
+    ),
+  )
+}
+
+/** Mux encoded H.264 frames (length-prefixed NAL units) into an MP4 file */
+export function writeMp4(track: EncodedVideoTrack, frames: readonly EncodedVideoFrame[]): Chunks {
+  const ftyp = box('ftyp', new BoxWriter().ascii('isom').u32(0x200).ascii('isomiso2avc1mp41').done())
+  const dataSize = frames.reduce((sum, frame) => sum + frame.data.length, 0)
+  if (8 + dataSize > 0xffffffff) throw new Error('MP4 export is limited to 4 GB')
+
+  // The movie box's size doesn't depend on the offset it records, so measure it first
+  const moovSize = size(movieBox(track, frames, 0))
+  const moov = movieBox(track, frames, size(ftyp) + moovSize + 8)
+  const mdatHeader = new BoxWriter().u32(8 + dataSize).ascii('mdat').done()
+
+  return [...ftyp, ...moov, mdatHeader, ...frames.map(frame => frame.data)]
+}
@@ -0,0 +1,124 @@
+import { describe, it, expect } from 'vitest'
+import {
+  getOfflineRenderPlan,
+  getFrameTime,
+  evaluateOfflineCamera,
+  getOfflineFrameName,
+  getAvcLevel,
+  getCodecCandidates,
+  getKeyFrameInterval,
+} from './offlineRender'
+import { CAMERA_TRACK_OBJECT_ID } from './animation'
+import { createDefaultLens } from './lens'
+import type { CameraPath } from '../types/cameraPath'
+import type { AnimationTrack } from '../types/scene'
+import type { RenderView } from '../types/export'
+
+const fallback: RenderView = {
+  position: { x: 0, y: 2, z: 8 },
+  target: { x: 0, y: 0, z: 0 },
+  lens: createDefaultLens(),
+}
+
+function makePath(): CameraPath {
+  return {
+    id: 'p',
+    name: 'Push',
+    duration: 4,
+    loop: false,
+    easing: 'linear',
+    points: [
+      { id: 'a', position: { x: 0, y: 1, z: 10 }, target: { x: 0, y: 0, z: 0 }, time: 0, tension: 0.5 },
+      { id: 'b', position: { x: 0, y: 1, z: 2 }, target: { x: 0, y: 0, z: 0 }, time: 4, tension: 0.5 },
+    ],
+  }
+}
+
+describe('offlineRender', () => {
+  // ── 1. Frame Timing ─────────────────────────────────────────────────
+
+  describe('getOfflineRenderPlan', () => {
+    it('prefers an explicit duration, then the camera path, then the timeline', () => {
+      expect(getOfflineRenderPlan({ fps: 24, duration: 2 }, 4, 5).frameCount).toBe(48)
+      expect(getOfflineRenderPlan({ fps: 24, duration: 0 }, 4, 5).frameCount).toBe(96)
+      expect(getOfflineRenderPlan({ fps: 30, duration: 0 }, null, 5)).toEqual({ fps: 30, frameCount: 150, duration: 5 })
+    })
+
+    it('rounds to whole frames and always renders at least one', () => {
+      expect(getOfflineRenderPlan({ fps: 24, duration: 1.01 }, null, 5)).toEqual({ fps: 24, frameCount: 24, duration: 1 })
+      expect(getOfflineRenderPlan({ fps: 24, duration: 0 }, null, 0).frameCount).toBe(1)
+    })
+
+    it('times frames from their index without drift', () => {
+      expect(getFrameTime(0, 30)).toBe(0)
+      expect(getFrameTime(2999, 30)).toBe(2999 / 30)
+      expect(getFrameTime(30, 30)).toBe(1)
+    })
+  })
+
+  // ── 2. Camera ───────────────────────────────────────────────────────
+
+  describe('evaluateOfflineCamera', () => {
+    it('follows the camera path', () => {
+      const start = evaluateOfflineCamera(0, { path: makePath(), fallback })
+      const end = evaluateOfflineCamera(4, { path: makePath(), fallback })
+      expect(start.position.z).toBeCloseTo(10)
+      expect(end.position.z).toBeCloseTo(2)
+      expect(end.lens).toEqual(fallback.lens)
+    })
+
+    it('uses the timeline camera track when there is no path', () => {
+      const track: AnimationTrack = {
+        id: 't',
+        objectId: CAMERA_TRACK_OBJECT_ID,
+        keyframes: [
+          { id: 'k1', time: 0, property: 'cameraPosition', value: { x: 0, y: 0, z: 4 }, easing: 'linear' },
+          { id: 'k2', time: 2, property: 'cameraPosition', value: { x: 0, y: 0, z: 8 }, easing: 'linear' },
+          { id: 'k3', time: 0, property: 'cameraLens', value: { x: 85, y: 0, z: 0 }, easing: 'linear' },
+        ],
+      }
+      const view = evaluateOfflineCamera(1, { cameraTrack: track, fallback })
+      expect(view.position.z).toBeCloseTo(6)
+      expect(view.target).toEqual(fallback.target)
+      expect(view.lens.focalLength).toBe(85)
+    })
+
+    it('holds the fallback view otherwise', () => {
+      expect(evaluateOfflineCamera(3, { fallback })).toBe(fallback)
+    })
+  })
+
+  // ── 3. File Names ───────────────────────────────────────────────────
+
+  describe('getOfflineFrameName', () => {
+    it('numbers frames from 0001 like editorial image sequences', () => {
+      expect(getOfflineFrameName('Heist Night', 'png', 0)).toBe('Heist_Night.0001.png')
+      expect(getOfflineFrameName('', 'jpeg', 41)).toBe('scene.0042.jpg')
+    })
+  })
+
+  // ── 4. Video Codecs ─────────────────────────────────────────────────
+
+  describe('getCodecCandidates', () => {
+    it('picks the lowest H.264 level that fits the frame size and rate', () => {
+      expect(getAvcLevel(1280, 720, 30)).toBe(31)
+      expect(getAvcLevel(1920, 1080, 24)).toBe(40)
+      expect(getAvcLevel(1920, 1080, 60)).toBe(42)
+      expect(getAvcLevel(3840, 2160, 30)).toBe(51)
+      expect(getAvcLevel(7680, 4320, 60)).toBe(52)
+    })
+
+    it('uses constrained baseline H.264 for MP4 so there are no B-frames', () => {
+      expect(getCodecCandidates('mp4', 1920, 1080, 24)).toEqual([{ codec: 'avc', codecString: 'avc1.42E028' }])
+    })
+
+    it('prefers VP9 over VP8 for WebM', () => {
+      expect(getCodecCandidates('webm', 1920, 1080, 24).map(c => c.codec)).toEqual(['vp9', 'vp8'])
+    })
+
+    it('places a keyframe every two seconds', () => {
+      expect(getKeyFrameInterval(24)).toBe(48)
+      expect(getKeyFrameInterval(0.2)).toBe(1)
+    })
+  })
+})
@@ -0,0 +1,368 @@
+/**
+ * Offline render — steps the timeline and camera by exact 1/fps increments,
+ * renders each frame at the export resolution and packages the numbered
+ * frames as a ZIP, or encodes them with WebCodecs and muxes a WebM/MP4.
+ * Unlike real-time recording, slow frames and background tabs only make the
+ * export take longer; they never drop or repeat frames.
+ */
+
+import type { AnimationTrack } from '../types/scene'
+import type { CameraPath } from '../types/cameraPath'
+import type { OverlaySettings } from '../types/overlay'
+import type {
+  EncodedVideoFrame,
+  ExportResult,
+  FrameFormat,
+  RenderView,
+  VideoCodec,
+  VideoFormat,
+  VideoRecordingOptions,
+  ViewRenderer,
+} from '../types/export'
+import { evaluatePath, toEvaluatorPath } from './cameraPath'
+import { evaluateTrack } from './animation'
+import { applyLensChannel } from './lens'
+import { drawFrameOverlay } from './overlays'
+import { generateExportFileName } from './exportPipeline'
+import { getImageSequenceMedia, getSceneMediaBase, getSequenceFrameName } from './editorial'
+import { addZipEntry, createZipArchive, writeZip } from './zipWriter'
+import { writeWebm } from './webmMuxer'
+import { writeMp4 } from './mp4Muxer'
+
+// ── 1. Frame Timing ──────────────────────────────────────────────────
+
+export interface OfflineRenderPlan {
+  fps: number
+  frameCount: number
+  /** Seconds covered by the frames */
+  duration: number
+}
+
+/**
+ * How many frames to render. An explicit duration wins; otherwise the
+ * camera path's length, then the animation timeline's. Always at least one
+ * frame.
+ */
+export function getOfflineRenderPlan(
+  options: Pick<VideoRecordingOptions, 'fps' | 'duration'>,
+  pathDuration: number | null,
+  timelineDuration: number,
+): OfflineRenderPlan {
+  const fps = Math.max(1, Math.round(options.fps))
+  const seconds = options.duration > 0 ? options.duration : pathDuration ?? timelineDuration
+  const frameCount = Math.max(1, Math.round(seconds * fps))
+  return { fps, frameCount, duration: frameCount / fps }
+}
+
+/** Scene time of a frame, computed from the index so error never accumulates */
+export function getFrameTime(frame: number, fps: number): number {
+  return frame / fps
+}
+
+// ── 2. Camera ────────────────────────────────────────────────────────
+
+/** What can move the camera during an offline render */
+export interface OfflineCameraSources {
+  path?: CameraPath
+  cameraTrack?: AnimationTrack
+  /** The view used when no path or camera track drives the camera */
+  fallback: RenderView
+}
+
+/** Camera for a frame: the chosen camera path, else the timeline's camera track, else the fallback view */
+export function evaluateOfflineCamera(time: number, sources: OfflineCameraSources): RenderView {
+  const { path, cameraTrack, fallback } = sources
+
+  if (path && path.points.length >= 2) {
+    const state = evaluatePath(toEvaluatorPath(path), time)
+    return { position: state.position, target: state.lookAt, lens: state.lens ?? fallback.lens }
+  }
+
+  if (cameraTrack) {
+    const values = evaluateTrack(cameraTrack, time)
+    return {
+      position: values.cameraPosition ?? fallback.position,
+      target: values.cameraTarget ?? fallback.target,
+      lens: values.cameraLens ? applyLensChannel(fallback.lens, values.cameraLens) : fallback.lens,
+    }
+  }
+
+  return fallback
+}
+
+// ── 3. File Names ────────────────────────────────────────────────────
+
+const FRAME_EXTENSIONS: Record<FrameFormat, string> = { png: 'png', jpeg: 'jpg' }
+
+/** Frame files inside the ZIP, named like editorial image sequences: "Heist.0001.png" */
+export function getOfflineFrameName(sceneName: string, format: FrameFormat, frame: number): string {
+  const media = getImageSequenceMedia(getSceneMediaBase(sceneName), FRAME_EXTENSIONS[format])
+  return getSequenceFrameName(media, media.startFrame + frame)
+}
+
+// ── 4. Video Codecs ──────────────────────────────────────────────────
+
+export interface CodecCandidate {
+  codec: VideoCodec
+  /** WebCodecs codec string */
+  codecString: string
+}
+
+/** H.264 levels as [level_idc, max macroblocks per second, max frame size in macroblocks] */
+const AVC_LEVELS: readonly [number, number, number][] = [
+  [30, 40500, 1620],
+  [31, 108000, 3600],
+  [32, 216000, 5120],
+  [40, 245760, 8192],
+  [42, 522240, 8704],
+  [50, 589824, 22080],
+  [51, 983040, 36864],
+  [52, 2073600, 36864],
+]
+
+/** Lowest H.264 level that fits the frame size and rate; the highest level otherwise */
+export function getAvcLevel(width: number, height: number, fps: number): number {
+  const frameSize = Math.ceil(width / 16) * Math.ceil(height / 16)
+  const level = AVC_LEVELS.find(([, maxRate, maxSize]) => frameSize <= maxSize && frameSize * fps <= maxRate)
+  return (level ?? AVC_LEVELS[AVC_LEVELS.length - 1])[0]
+}
+
+/**
+ * Codecs to try for a container, best first. MP4 uses constrained baseline
+ * H.264 because it has no B-frames, so frames come out of the encoder in
+ * presentation order and the muxer can write a constant frame duration.
+ */
+export function getCodecCandidates(format: VideoFormat, width: number, height: number, fps: number): CodecCandidate[] {
+  if (format === 'mp4') {
+    const level = getAvcLevel(width, height, fps).toString(16).toUpperCase().padStart(2, '0')
+    return [{ codec: 'avc', codecString: `avc1.42E0${level}` }]
+  }
+  return [
+    { codec: 'vp9', codecString: 'vp09.00.51.08' },
+    { codec: 'vp8', codecString: 'vp8' },
+  ]
+}
+
+/** A keyframe every two seconds keeps seeking in editors responsive */
+export function getKeyFrameInterval(fps: number): number {
+  return Math.max(1, Math.round(fps * 2))
+}
+
+// ── 5. Rendering ─────────────────────────────────────────────────────
+
+/* v8 ignore start */
+
+/** Where frames come from during an offline render */
+export interface OfflineRenderTarget {
+  render: ViewRenderer
+  /** Move the animation to a time; the render waits for the scene to commit it */
+  seek: (time: number) => void
+  /** Frame guides and HUD to burn into every frame */
+  overlay?: { settings: OverlaySettings; shotName: string | null }
+}
+
+/**
+ * Wait for React to commit store updates to the scene graph. Hidden tabs
+ * don't run animation frames, so they fall back to a task.
+ */
+function waitForCommit(): Promise<void> {
+  return new Promise(resolve => {
+    if (document.hidden) setTimeout(resolve, 0)
+    else requestAnimationFrame(() => setTimeout(resolve, 0))
+  })
+}
+
+function canvasToBytes(canvas: HTMLCanvasElement, format: FrameFormat): Promise<Uint8Array<ArrayBuffer>> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (!blob) {
+        reject(new Error('Canvas toBlob returned null'))
+        return
+      }
+      blob.arrayBuffer().then(buffer => resolve(new Uint8Array(buffer)), reject)
+    }, `image/${format}`, format === 'jpeg' ? 0.92 : undefined)
+  })
+}
+
+/**
+ * Step through every frame of the plan, handing each rendered canvas to
+ * `onFrame`. Rendering progress is scaled to `share` of the bar, leaving the
+ * rest for packaging. Rejects with an AbortError when `signal` is aborted
+ * between frames.
+ */
+async function stepFrames(
+  plan: OfflineRenderPlan,
+  options: Pick<VideoRecordingOptions, 'width' | 'height'>,
+  camera: OfflineCameraSources,
+  target: OfflineRenderTarget,
+  onFrame: (canvas: HTMLCanvasElement, frame: number) => Promise<void> | void,
+  share: number,
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal,
+): Promise<void> {
+  for (let frame = 0; frame < plan.frameCount; frame++) {
+    signal?.throwIfAborted()
+    onProgress?.((frame / plan.frameCount) * share, `Rendering frame ${frame + 1} of ${plan.frameCount}`)
+
+    const time = getFrameTime(frame, plan.fps)
+    target.seek(time)
+    await waitForCommit()
+
+    const view = evaluateOfflineCamera(time, camera)
+    const canvas = target.render(view, options.width, options.height)
+    if (target.overlay) {
+      const ctx = canvas.getContext('2d')
+      if (ctx) {
+        drawFrameOverlay(ctx, canvas.width, canvas.height, target.overlay.settings, {
+          shotName: target.overlay.shotName,
+          lens: view.lens,
+          time,
+          fps: plan.fps,
+        })
+      }
+    }
+
+    await onFrame(canvas, frame)
+  }
+}
+
+/** Render every frame of the plan and package them as a ZIP */
+export async function renderImageSequence(
+  plan: OfflineRenderPlan,
+  options: Pick<VideoRecordingOptions, 'width' | 'height' | 'frameFormat'>,
+  camera: OfflineCameraSources,
+  target: OfflineRenderTarget,
+  sceneName: string,
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal,
+): Promise<ExportResult> {
+  const zip = createZipArchive()
+  const modified = new Date()
+
+  await stepFrames(plan, options, camera, target, async (canvas, frame) => {
+    const bytes = await canvasToBytes(canvas, options.frameFormat)
+    addZipEntry(zip, getOfflineFrameName(sceneName, options.frameFormat, frame), bytes, modified)
+  }, 0.95, onProgress, signal)
+
+  onProgress?.(0.95, 'Packaging frames...')
+  const blob = new Blob(writeZip(zip), { type: 'application/zip' })
+
+  return {
+    format: 'video',
+    blob,
+    fileName: generateExportFileName(sceneName, 'zip'),
+    fileSize: blob.size,
+    duration: plan.duration * 1000,
+  }
+}
+
+export function isVideoEncoderAvailable(): boolean {
+  return typeof VideoEncoder !== 'undefined' && typeof VideoFrame !== 'undefined'
+}
+
+export interface VideoEncoderSetup {
+  codec: VideoCodec
+  config: VideoEncoderConfig
+}
+
+/** First codec this browser can encode at the requested size, rate and bitrate; null without WebCodecs */
+export async function findVideoEncoderConfig(
+  options: Pick<VideoRecordingOptions, 'format' | 'width' | 'height' | 'fps' | 'bitrate'>,
+): Promise<VideoEncoderSetup | null> {
+  if (!isVideoEncoderAvailable()) return null
+
+  for (const candidate of getCodecCandidates(options.format, options.width, options.height, options.fps)) {
+    const config: VideoEncoderConfig = {
+      codec: candidate.codecString,
+      width: options.width,
+      height: options.height,
+      bitrate: options.bitrate,
+      bitrateMode: 'constant',
+      framerate: options.fps,
+      latencyMode: 'quality',
+      ...(candidate.codec === 'avc' ? { avc: { format: 'avc' as const } } : {}),
+    }
+    try {
+      const { supported } = await VideoEncoder.isConfigSupported(config)
+      if (supported) return { codec: candidate.codec, config }
+    } catch {
+      // Malformed or unknown codec strings throw; try the next one
+    }
+  }
+  return null
+}
+
+function toBytes(source: AllowSharedBufferSource): Uint8Array<ArrayBuffer> {
+  const view = ArrayBuffer.isView(source)
+    ? new Uint8Array(source.buffer, source.byteOffset, source.byteLength)
+    : new Uint8Array(source)
+  return new Uint8Array(view)
+}
+
+/**
+ * Render every frame of the plan, encode it with WebCodecs and mux the
+ * result. Frames are timestamped from their index, so the file has a
+ * constant frame rate however long each frame took to render.
+ */
+export async function renderVideo(
+  plan: OfflineRenderPlan,
+  options: Pick<VideoRecordingOptions, 'width' | 'height' | 'format'>,
+  setup: VideoEncoderSetup,
+  camera: OfflineCameraSources,
+  target: OfflineRenderTarget,
+  sceneName: string,
+  onProgress?: (progress: number, message: string) => void,
+  signal?: AbortSignal,
+): Promise<ExportResult> {
+  const frames: EncodedVideoFrame[] = []
+  let description: Uint8Array<ArrayBuffer> | undefined
+  let failure: Error | null = null
+
+  const encoder = new VideoEncoder({
+    output: (chunk, metadata) => {
+      const data = new Uint8Array(chunk.byteLength)
+      chunk.copyTo(data)
+      frames.push({ data, keyFrame: chunk.type === 'key' })
+      if (metadata?.decoderConfig?.description) description = toBytes(metadata.decoderConfig.description)
+    },
+    error: err => { failure = err },
+  })
+  encoder.configure(setup.config)
+
+  const frameDuration = 1e6 / plan.fps
+  const keyFrameInterval = getKeyFrameInterval(plan.fps)
+
+  try {
+    await stepFrames(plan, options, camera, target, async (canvas, frame) => {
+      if (failure) throw failure
+      const videoFrame = new VideoFrame(canvas, {
+        timestamp: Math.round(frame * frameDuration),
+        duration: Math.round(frameDuration),
+      })
+      encoder.encode(videoFrame, { keyFrame: frame % keyFrameInterval === 0 })
+      videoFrame.close()
+      // Don't let rendering run ahead of the encoder
+      while (encoder.encodeQueueSize > 2) await new Promise(resolve => setTimeout(resolve, 0))
+    }, 0.9, onProgress, signal)
+
+    onProgress?.(0.9, 'Encoding video...')
+    await encoder.flush()
+    if (failure) throw failure
+  } finally {
+    if (encoder.state !== 'closed') encoder.close()
+  }
+
+  const track = { codec: setup.codec, width: options.width, height: options.height, fps: plan.fps, description }
+  const chunks = options.format === 'mp4' ? writeMp4(track, frames) : writeWebm(track, frames)
+  const blob = new Blob(chunks, { type: `video/${options.format}` })
+
+  return {
+    format: 'video',
+    blob,
+    fileName: generateExportFileName(sceneName, options.format),
+    fileSize: blob.size,
+    duration: plan.duration * 1000,
+  }
+}
+
+/* v8 ignore stop */
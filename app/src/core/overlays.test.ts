@@ -0,0 +1,241 @@
+import { describe, it, expect } from 'vitest'
+import {
+  FRAME_ASPECTS,
+  isFrameAspect,
+  getFrameRect,
+  insetRect,
+  ACTION_SAFE,
+  TITLE_SAFE,
+  getGuideSegments,
+  formatTimecode,
+  getHudText,
+  createDefaultOverlaySettings,
+  hasActiveOverlays,
+  drawFrameOverlay,
+} from './overlays'
+import { createDefaultLens } from './lens'
+import type { HudInfo, OverlaySettings } from '../types/overlay'
+
+function settings(overrides: Partial<OverlaySettings> = {}): OverlaySettings {
+  return { ...createDefaultOverlaySettings(), ...overrides }
+}
+
+/** Records the 2D context calls drawFrameOverlay makes */
+function createRecordingContext() {
+  const calls: { name: string; args: unknown[] }[] = []
+  const record = (name: string) => (...args: unknown[]) => { calls.push({ name, args }) }
+  const ctx = {
+    fillStyle: '',
+    strokeStyle: '',
+    lineWidth: 1,
+    font: '',
+    textAlign: 'start',
+    textBaseline: 'alphabetic',
+    save: record('save'),
+    restore: record('restore'),
+    fillRect: record('fillRect'),
+    strokeRect: record('strokeRect'),
+    setLineDash: record('setLineDash'),
+    beginPath: record('beginPath'),
+    moveTo: record('moveTo'),
+    lineTo: record('lineTo'),
+    stroke: record('stroke'),
+    fillText: record('fillText'),
+  }
+  const named = (name: string) => calls.filter(c => c.name === name).map(c => c.args)
+  return { ctx: ctx as unknown as CanvasRenderingContext2D, calls, named }
+}
+
+describe('overlays', () => {
+  // ── 1. Delivery Frames ──────────────────────────────────────────────
+
+  describe('delivery frames', () => {
+    it('offers the common delivery ratios', () => {
+      expect(FRAME_ASPECTS.map(a => a.id)).toEqual(['2.39:1', '1.85:1', '16:9', '9:16', '4:5'])
+      expect(isFrameAspect('16:9')).toBe(true)
+      expect(isFrameAspect('4:3')).toBe(false)
+    })
+
+    it('uses the whole canvas without a delivery aspect', () => {
+      expect(getFrameRect(1920, 1080, null)).toEqual({ x: 0, y: 0, width: 1920, height: 1080 })
+    })
+
+    it('letterboxes frames wider than the canvas', () => {
+      const rect = getFrameRect(1920, 1080, '2.39:1')
+      expect(rect.x).toBe(0)
+      expect(rect.width).toBe(1920)
+      expect(rect.height).toBeCloseTo(1920 / 2.39, 6)
+      expect(rect.y).toBeCloseTo((1080 - rect.height) / 2, 6)
+    })
+
+    it('pillarboxes frames narrower than the canvas', () => {
+      const rect = getFrameRect(1920, 1080, '9:16')
+      expect(rect.y).toBe(0)
+      expect(rect.height).toBe(1080)
+      expect(rect.width).toBeCloseTo(1080 * 9 / 16, 6)
+      expect(rect.x).toBeCloseTo((1920 - rect.width) / 2, 6)
+    })
+
+    it('fills a canvas that already has the delivery aspect', () => {
+      expect(getFrameRect(1920, 1080, '16:9')).toEqual({ x: 0, y: 0, width: 1920, height: 1080 })
+    })
+  })
+
+  // ── 2. Safe Frames ──────────────────────────────────────────────────
+
+  describe('safe frames', () => {
+    it('insets about the centre', () => {
+      const frame = { x: 100, y: 50, width: 1000, height: 500 }
+      const action = insetRect(frame, ACTION_SAFE)
+      expect(action.width).toBeCloseTo(930, 6)
+      expect(action.x).toBeCloseTo(135, 6)
+      expect(action.y + action.height / 2).toBeCloseTo(300, 6)
+
+      const title = insetRect(frame, TITLE_SAFE)
+      expect(title.width).toBeLessThan(action.width)
+    })
+  })
+
+  // ── 3. Composition Guides ───────────────────────────────────────────
+
+  describe('composition guides', () => {
+    const frame = { x: 0, y: 0, width: 900, height: 600 }
+
+    it('draws nothing when every guide is off', () => {
+      expect(getGuideSegments(frame, settings())).toEqual([])
+    })
+
+    it('splits the frame into thirds', () => {
+      const segments = getGuideSegments(frame, settings({ ruleOfThirds: true }))
+      expect(segments).toHaveLength(4)
+      const verticals = segments.filter(s => s.x1 === s.x2).map(s => s.x1)
+      const horizontals = segments.filter(s => s.y1 === s.y2).map(s => s.y1)
+      expect(verticals).toEqual([300, 600])
+      expect(horizontals).toEqual([200, 400])
+    })
+
+    it('places golden sections at 38.2% and 61.8%', () => {
+      const segments = getGuideSegments(frame, settings({ goldenRatio: true }))
+      const verticals = segments.filter(s => s.x1 === s.x2).map(s => s.x1 / frame.width)
+      expect(verticals[0]).toBeCloseTo(0.382, 3)
+      expect(verticals[1]).toBeCloseTo(0.618, 3)
+      expect(segments.every(s => s.kind === 'golden')).toBe(true)
+    })
+
+    it('centres a small cross in the frame', () => {
+      const segments = getGuideSegments({ x: 100, y: 0, width: 600, height: 600 }, settings({ centerCross: true }))
+      expect(segments).toHaveLength(2)
+      const [horizontal, vertical] = segments
+      expect((horizontal.x1 + horizontal.x2) / 2).toBe(400)
+      expect((vertical.y1 + vertical.y2) / 2).toBe(300)
+      expect(horizontal.x2 - horizontal.x1).toBeCloseTo(48, 6)
+    })
+  })
+
+  // ── 4. HUD ──────────────────────────────────────────────────────────
+
+  describe('HUD', () => {
+    it('formats non-drop-frame timecode', () => {
+      expect(formatTimecode(0, 24)).toBe('00:00:00:00')
+      expect(formatTimecode(1.5, 24)).toBe('00:00:01:12')
+      expect(formatTimecode(3661 + 29 / 30, 30)).toBe('01:01:01:29')
+      expect(formatTimecode(-2, 24)).toBe('00:00:00:00')
+    })
+
+    it('counts whole frames at the frame boundary', () => {
+      // 0.1 s × 30 fps is 2.9999… in floating point
+      expect(formatTimecode(0.1, 30)).toBe('00:00:00:03')
+    })
+
+    it('reports the shot, lens and timecode', () => {
+      const info: HudInfo = { shotName: 'Hero Wide', lens: createDefaultLens(), time: 2, fps: 24 }
+      expect(getHudText(info)).toEqual({
+        shot: 'Hero Wide',
+        lens: '24mm · Full Frame',
+        timecode: '00:00:02:00',
+      })
+    })
+
+    it('mentions Dutch roll and a missing shot', () => {
+      const info: HudInfo = { shotName: null, lens: { ...createDefaultLens(), roll: -7.5 }, time: 0, fps: 30 }
+      const text = getHudText(info)
+      expect(text.shot).toBe('No shot')
+      expect(text.lens).toBe('24mm · Full Frame · -7.5° roll')
+    })
+  })
+
+  // ── 5. Settings ─────────────────────────────────────────────────────
+
+  describe('settings', () => {
+    it('starts with everything off', () => {
+      expect(hasActiveOverlays(createDefaultOverlaySettings())).toBe(false)
+    })
+
+    it('is active when any overlay is on', () => {
+      expect(hasActiveOverlays(settings({ aspect: '1.85:1' }))).toBe(true)
+      expect(hasActiveOverlays(settings({ titleSafe: true }))).toBe(true)
+      expect(hasActiveOverlays(settings({ hud: true }))).toBe(true)
+    })
+  })
+
+  // ── 6. Drawing ──────────────────────────────────────────────────────
+
+  describe('drawFrameOverlay', () => {
+    it('draws letterbox bars outside the delivery frame', () => {
+      const { ctx, named } = createRecordingContext()
+      drawFrameOverlay(ctx, 1920, 1080, settings({ aspect: '2.39:1' }))
+
+      const bars = named('fillRect')
+      expect(bars).toHaveLength(2)
+      const barHeight = (1080 - 1920 / 2.39) / 2
+      expect(bars[0]).toEqual([0, 0, 1920, expect.closeTo(barHeight, 6)])
+      expect(bars[1][1]).toBeCloseTo(1080 - barHeight, 6)
+      // Frame outline
+      expect(named('strokeRect')).toHaveLength(1)
+    })
+
+    it('skips the mask at zero opacity', () => {
+      const { ctx, named } = createRecordingContext()
+      drawFrameOverlay(ctx, 1920, 1080, settings({ aspect: '9:16', maskOpacity: 0 }))
+      expect(named('fillRect')).toHaveLength(0)
+    })
+
+    it('draws safe frames inside the delivery frame', () => {
+      const { ctx, named } = createRecordingContext()
+      drawFrameOverlay(ctx, 1000, 1000, settings({ aspect: '4:5', maskOpacity: 0, actionSafe: true, titleSafe: true }))
+
+      const [action, title] = named('strokeRect') as number[][]
+      expect(action[2]).toBeCloseTo(800 * ACTION_SAFE, 6)
+      expect(title[3]).toBeCloseTo(1000 * TITLE_SAFE, 6)
+    })
+
+    it('strokes one path per guide line', () => {
+      const { ctx, named } = createRecordingContext()
+      drawFrameOverlay(ctx, 1920, 1080, settings({ ruleOfThirds: true, centerCross: true }))
+      expect(named('stroke')).toHaveLength(6)
+    })
+
+    it('writes the HUD only when enabled and given info', () => {
+      const hud: HudInfo = { shotName: 'Close Up', lens: createDefaultLens(), time: 1, fps: 25 }
+
+      const off = createRecordingContext()
+      drawFrameOverlay(off.ctx, 1920, 1080, settings({ hud: false }), hud)
+      expect(off.named('fillText')).toHaveLength(0)
+
+      const missing = createRecordingContext()
+      drawFrameOverlay(missing.ctx, 1920, 1080, settings({ hud: true }))
+      expect(missing.named('fillText')).toHaveLength(0)
+
+      const on = createRecordingContext()
+      drawFrameOverlay(on.ctx, 1920, 1080, settings({ hud: true }), hud)
+      expect(on.named('fillText').map(args => args[0])).toEqual(['Close Up', '24mm · Full Frame', '00:00:01:00'])
+    })
+
+    it('restores the context state', () => {
+      const { ctx, calls } = createRecordingContext()
+      drawFrameOverlay(ctx, 640, 360, settings({ aspect: '1.85:1', titleSafe: true, goldenRatio: true }))
+      expect(calls[0].name).toBe('save')
+      expect(calls[calls.length - 1].name).toBe('restore')
+    })
+  })
+})
@@ -0,0 +1,248 @@
+/** Camera frame overlays — delivery masks, safe frames, composition guides and the HUD */
+
+import type { FrameAspect, FrameRect, HudInfo, OverlaySettings } from '../types/overlay'
+import { formatLens } from './lens'
+
+// ── 1. Delivery Frames ───────────────────────────────────────────────
+
+export const FRAME_ASPECTS: readonly { id: FrameAspect; ratio: number; label: string }[] = [
+  { id: '2.39:1', ratio: 2.39, label: 'Scope 2.39:1' },
+  { id: '1.85:1', ratio: 1.85, label: 'Flat 1.85:1' },
+  { id: '16:9', ratio: 16 / 9, label: 'HD 16:9' },
+  { id: '9:16', ratio: 9 / 16, label: 'Vertical 9:16' },
+  { id: '4:5', ratio: 4 / 5, label: 'Portrait 4:5' },
+]
+
+export function isFrameAspect(value: unknown): value is FrameAspect {
+  return FRAME_ASPECTS.some(a => a.id === value)
+}
+
+export function getFrameAspectRatio(aspect: FrameAspect): number {
+  return FRAME_ASPECTS.find(a => a.id === aspect)!.ratio
+}
+
+/**
+ * The largest rectangle of the delivery aspect centred in the canvas:
+ * letterboxed when the frame is wider than the canvas, pillarboxed when
+ * narrower. Without a delivery aspect the frame is the whole canvas.
+ */
+export function getFrameRect(width: number, height: number, aspect: FrameAspect | null): FrameRect {
+  if (!aspect || width <= 0 || height <= 0) return { x: 0, y: 0, width, height }
+
+  const ratio = getFrameAspectRatio(aspect)
+  if (ratio >= width / height) {
+    const frameHeight = width / ratio
+    return { x: 0, y: (height - frameHeight) / 2, width, height: frameHeight }
+  }
+  const frameWidth = height * ratio
+  return { x: (width - frameWidth) / 2, y: 0, width: frameWidth, height }
+}
+
+// ── 2. Safe Frames ───────────────────────────────────────────────────
+
+/** EBU R 95 safe areas, as a fraction of the frame */
+export const ACTION_SAFE = 0.93
+export const TITLE_SAFE = 0.9
+
+/** Shrink a rectangle about its centre to a fraction of its size */
+export function insetRect(rect: FrameRect, fraction: number): FrameRect {
+  const width = rect.width * fraction
+  const height = rect.height * fraction
+  return {
+    x: rect.x + (rect.width - width) / 2,
+    y: rect.y + (rect.height - height) / 2,
+    width,
+    height,
+  }
+}
+
+// ── 3. Composition Guides ────────────────────────────────────────────
+
+export type GuideKind = 'thirds' | 'golden' | 'center'
+
+export interface GuideSegment {
+  kind: GuideKind
+  x1: number
+  y1: number
+  x2: number
+  y2: number
+}
+
+/** 1/φ: the golden section sits at 38.2% and 61.8% of the frame */
+const GOLDEN_SECTION = 2 / (1 + Math.sqrt(5))
+
+/** Arm length of the centre cross, as a fraction of the frame's short side */
+const CENTER_CROSS_SIZE = 0.04
+
+function gridLines(rect: FrameRect, fractions: number[], kind: GuideKind): GuideSegment[] {
+  const segments: GuideSegment[] = []
+  for (const f of fractions) {
+    const x = rect.x + rect.width * f
+    const y = rect.y + rect.height * f
+    segments.push({ kind, x1: x, y1: rect.y, x2: x, y2: rect.y + rect.height })
+    segments.push({ kind, x1: rect.x, y1: y, x2: rect.x + rect.width, y2: y })
+  }
+  return segments
+}
+
+export function getGuideSegments(rect: FrameRect, settings: OverlaySettings): GuideSegment[] {
+  const segments: GuideSegment[] = []
+
+  if (settings.ruleOfThirds) {
+    segments.push(...gridLines(rect, [1 / 3, 2 / 3], 'thirds'))
+  }
+  if (settings.goldenRatio) {
+    segments.push(...gridLines(rect, [1 - GOLDEN_SECTION, GOLDEN_SECTION], 'golden'))
+  }
+  if (settings.centerCross) {
+    const cx = rect.x + rect.width / 2
+    const cy = rect.y + rect.height / 2
+    const arm = Math.min(rect.width, rect.height) * CENTER_CROSS_SIZE
+    segments.push({ kind: 'center', x1: cx - arm, y1: cy, x2: cx + arm, y2: cy })
+    segments.push({ kind: 'center', x1: cx, y1: cy - arm, x2: cx, y2: cy + arm })
+  }
+
+  return segments
+}
+
+// ── 4. HUD ───────────────────────────────────────────────────────────
+
+/** Non-drop-frame SMPTE timecode, HH:MM:SS:FF */
+export function formatTimecode(seconds: number, fps: number): string {
+  const rate = Math.max(1, Math.round(fps))
+  const totalFrames = Math.floor(Math.max(0, seconds) * rate + 1e-6)
+  const frames = totalFrames % rate
+  const totalSeconds = Math.floor(totalFrames / rate)
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return [
+    pad(Math.floor(totalSeconds / 3600)),
+    pad(Math.floor(totalSeconds / 60) % 60),
+    pad(totalSeconds % 60),
+    pad(frames),
+  ].join(':')
+}
+
+/** The three HUD fields, left to right along the top of the frame */
+export function getHudText(info: HudInfo): { shot: string; lens: string; timecode: string } {
+  const roll = info.lens.roll !== 0 ? ` · ${info.lens.roll.toFixed(1)}° roll` : ''
+  return {
+    shot: info.shotName ?? 'No shot',
+    lens: formatLens(info.lens) + roll,
+    timecode: formatTimecode(info.time, info.fps),
+  }
+}
+
+// ── 5. Settings ──────────────────────────────────────────────────────
+
+/** Everything off, so the viewport looks as it always has until someone opts in */
+export function createDefaultOverlaySettings(): OverlaySettings {
+  return {
+    aspect: null,
+    maskOpacity: 0.85,
+    actionSafe: false,
+    titleSafe: false,
+    ruleOfThirds: false,
+    goldenRatio: false,
+    centerCross: false,
+    hud: false,
+  }
+}
+
+export function hasActiveOverlays(settings: OverlaySettings): boolean {
+  return settings.aspect !== null
+    || settings.actionSafe || settings.titleSafe
+    || settings.ruleOfThirds || settings.goldenRatio || settings.centerCross
+    || settings.hud
+}
+
+// ── 6. Drawing ───────────────────────────────────────────────────────
+
+const GUIDE_COLORS: Record<GuideKind, string> = {
+  thirds: 'rgba(255, 255, 255, 0.35)',
+  golden: 'rgba(232, 168, 124, 0.55)',
+  center: 'rgba(255, 255, 255, 0.7)',
+}
+
+/**
+ * Draw the overlays into a 2D context of the given pixel size. The viewport
+ * and the screenshot/video burn-in share this, so exports match what was framed.
+ * Line widths and text scale with the height so burn-ins read the same at 4K.
+ */
+export function drawFrameOverlay(
+  ctx: CanvasRenderingContext2D,
+  width: number,
+  height: number,
+  settings: OverlaySettings,
+  hud?: HudInfo,
+): void {
+  const frame = getFrameRect(width, height, settings.aspect)
+  const lineWidth = Math.max(1, Math.round(height / 540))
+
+  ctx.save()
+
+  // Mask outside the delivery frame
+  if (settings.aspect && settings.maskOpacity > 0) {
+    ctx.fillStyle = `rgba(0, 0, 0, ${settings.maskOpacity})`
+    if (frame.y > 0) {
+      ctx.fillRect(0, 0, width, frame.y)
+      ctx.fillRect(0, frame.y + frame.height, width, height - frame.y - frame.height)
+    }
+    if (frame.x > 0) {
+      ctx.fillRect(0, 0, frame.x, height)
+      ctx.fillRect(frame.x + frame.width, 0, width - frame.x - frame.width, height)
+    }
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.4)'
+    ctx.lineWidth = lineWidth
+    ctx.strokeRect(frame.x, frame.y, frame.width, frame.height)
+  }
+
+  // Safe frames: action solid, title dashed
+  ctx.lineWidth = lineWidth
+  if (settings.actionSafe) {
+    const r = insetRect(frame, ACTION_SAFE)
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.45)'
+    ctx.setLineDash([])
+    ctx.strokeRect(r.x, r.y, r.width, r.height)
+  }
+  if (settings.titleSafe) {
+    const r = insetRect(frame, TITLE_SAFE)
+    ctx.strokeStyle = 'rgba(196, 97, 42, 0.7)'
+    ctx.setLineDash([lineWidth * 6, lineWidth * 4])
+    ctx.strokeRect(r.x, r.y, r.width, r.height)
+    ctx.setLineDash([])
+  }
+
+  // Composition guides
+  for (const segment of getGuideSegments(frame, settings)) {
+    ctx.strokeStyle = GUIDE_COLORS[segment.kind]
+    ctx.beginPath()
+    ctx.moveTo(segment.x1, segment.y1)
+    ctx.lineTo(segment.x2, segment.y2)
+    ctx.stroke()
+  }
+
+  // HUD band along the top edge of the frame
+  if (settings.hud && hud) {
+    const text = getHudText(hud)
+    const fontSize = Math.max(10, Math.round(frame.height * 0.028))
+    const pad = Math.round(fontSize * 0.6)
+    const bandHeight = fontSize + pad * 2
+
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.45)'
+    ctx.fillRect(frame.x, frame.y, frame.width, bandHeight)
+
+    ctx.font = `${fontSize}px ui-monospace, SFMono-Regular, Menlo, monospace`
+    ctx.textBaseline = 'middle'
+    ctx.fillStyle = 'rgba(255, 255, 255, 0.9)'
+    const y = frame.y + bandHeight / 2
+
+    ctx.textAlign = 'left'
+    ctx.fillText(text.shot, frame.x + pad, y)
+    ctx.textAlign = 'center'
+    ctx.fillText(text.lens, frame.x + frame.width / 2, y)
+    ctx.textAlign = 'right'
+    ctx.fillText(text.timecode, frame.x + frame.width - pad, y)
+  }
+
+  ctx.restore()
+}
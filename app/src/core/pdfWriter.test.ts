@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import {
+  createPdfDocument,
+  addPdfPage,
+  addPdfImage,
+  drawPdfImage,
+  drawPdfRect,
+  drawPdfText,
+  toWinAnsi,
+  escapePdfString,
+  measurePdfText,
+  truncatePdfText,
+  wrapPdfText,
+  writePdf,
+} from './pdfWriter'
+
+function decode(bytes: Uint8Array): string {
+  return Array.from(bytes, b => String.fromCharCode(b)).join('')
+}
+
+// Fake JPEG payload; the writer embeds image bytes verbatim
+const jpeg = { data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), width: 2, height: 1 }
+
+describe('pdfWriter', () => {
+  // ── 1. Document Model ───────────────────────────────────────────────
+
+  describe('document model', () => {
+    it('tracks pages and which images each page uses', () => {
+      const doc = createPdfDocument('Boards')
+      const page = addPdfPage(doc, 842, 595)
+      const index = addPdfImage(doc, jpeg)
+      drawPdfImage(page, index, { x: 0, y: 0, width: 10, height: 5 })
+      drawPdfImage(page, index, { x: 20, y: 0, width: 10, height: 5 })
+
+      expect(doc.pages).toHaveLength(1)
+      expect(page.images).toEqual([0])
+      expect(page.ops).toHaveLength(2)
+    })
+  })
+
+  // ── 2. Drawing ──────────────────────────────────────────────────────
+
+  describe('drawing', () => {
+    it('flips top-left coordinates to PDF space', () => {
+      const page = addPdfPage(createPdfDocument(), 200, 100)
+      drawPdfImage(page, 0, { x: 10, y: 20, width: 50, height: 30 })
+      expect(page.ops[0]).toBe('q 50 0 0 30 10 50 cm /Im0 Do Q')
+    })
+
+    it('strokes, fills or does both', () => {
+      const page = addPdfPage(createPdfDocument(), 200, 100)
+      const rect = { x: 0, y: 0, width: 10, height: 10 }
+      drawPdfRect(page, rect, { stroke: [1, 0, 0] })
+      drawPdfRect(page, rect, { fill: [0, 0, 1] })
+      drawPdfRect(page, rect, { fill: [0, 0, 1], stroke: [1, 0, 0], lineWidth: 2 })
+      drawPdfRect(page, rect, {})
+
+      expect(page.ops).toHaveLength(3)
+      expect(page.ops[0]).toMatch(/ S Q$/)
+      expect(page.ops[1]).toMatch(/ f Q$/)
+      expect(page.ops[2]).toMatch(/2 w .* B Q$/)
+    })
+
+    it('sets text at its baseline in the chosen font', () => {
+      const page = addPdfPage(createPdfDocument(), 200, 100)
+      drawPdfText(page, 'Shot (A)', 10, 30, { size: 9, bold: true })
+      expect(page.ops[0]).toBe('BT /F2 9 Tf 0 0 0 rg 10 70 Td (Shot \\(A\\)) Tj ET')
+    })
+  })
+
+  // ── 3. Text ─────────────────────────────────────────────────────────
+
+  describe('text', () => {
+    it('encodes text as WinAnsi', () => {
+      expect(toWinAnsi('café — “ok”')).toBe('café \x97 \x93ok\x94')
+      expect(toWinAnsi('line\nbreak')).toBe('line break')
+      expect(toWinAnsi('雪')).toBe('?')
+    })
+
+    it('escapes string delimiters', () => {
+      expect(escapePdfString('a\\b(c)')).toBe('a\\\\b\\(c\\)')
+    })
+
+    it('measures Helvetica widths', () => {
+      // H = 722, i = 222
+      expect(measurePdfText('Hi', 10)).toBeCloseTo(9.44, 6)
+      expect(measurePdfText('', 10)).toBe(0)
+    })
+
+    it('truncates with an ellipsis', () => {
+      expect(truncatePdfText('Short', 10, 100)).toBe('Short')
+      const cut = truncatePdfText('A very long shot name indeed', 10, 60)
+      expect(cut.endsWith('…')).toBe(true)
+      expect(measurePdfText(cut, 10)).toBeLessThanOrEqual(60)
+    })
+
+    it('wraps words to the width and keeps paragraph breaks', () => {
+      const lines = wrapPdfText('Crane up over the wall\nHold on hero', 10, 80)
+      expect(lines.length).toBeGreaterThan(2)
+      expect(lines).toContain('Hold on hero')
+      for (const line of lines) expect(measurePdfText(line, 10)).toBeLessThanOrEqual(80)
+    })
+
+    it('ellipsises the last line when limited', () => {
+      const lines = wrapPdfText('one two three four five six seven eight nine ten', 10, 50, 2)
+      expect(lines).toHaveLength(2)
+      expect(lines[1].endsWith('…')).toBe(true)
+    })
+  })
+
+  // ── 4. Serialization ────────────────────────────────────────────────
+
+  describe('writePdf', () => {
+    function buildSample() {
+      const doc = createPdfDocument('Boards (v2)')
+      const first = addPdfPage(doc, 842, 595)
+      drawPdfImage(first, addPdfImage(doc, jpeg), { x: 36, y: 36, width: 200, height: 100 })
+      drawPdfText(first, 'Shot 1', 36, 150, { size: 9 })
+      addPdfPage(doc, 842, 595)
+      return writePdf(doc, new Date(Date.UTC(2026, 0, 2, 3, 4, 5)))
+    }
+
+    it('writes a PDF header, trailer and info dictionary', () => {
+      const text = decode(buildSample())
+      expect(text.startsWith('%PDF-1.4\n')).toBe(true)
+      expect(text.trimEnd().endsWith('%%EOF')).toBe(true)
+      expect(text).toContain('/Title (Boards \\(v2\\))')
+      expect(text).toContain('/CreationDate (D:20260102030405Z)')
+      expect(text).toContain('/Count 2')
+    })
+
+    it('embeds images verbatim as DCT streams', () => {
+      const bytes = buildSample()
+      const text = decode(bytes)
+      expect(text).toContain('/Subtype /Image /Width 2 /Height 1')
+      expect(text).toContain('/Filter /DCTDecode /Length 4')
+      expect(text).toContain('\xff\xd8\xff\xd9')
+      expect(text).toContain('/XObject << /Im0 6 0 R >>')
+    })
+
+    it('points every cross-reference entry at its object', () => {
+      const text = decode(buildSample())
+      const startxref = Number(/startxref\n(\d+)/.exec(text)![1])
+      expect(text.slice(startxref, startxref + 4)).toBe('xref')
+
+      const [, count] = /xref\n0 (\d+)\n/.exec(text.slice(startxref))!
+      const entries = text.slice(startxref).split('\n').slice(3, 3 + Number(count) - 1)
+      entries.forEach((entry, i) => {
+        expect(entry).toMatch(/^\d{10} 00000 n $/)
+        const offset = Number(entry.slice(0, 10))
+        expect(text.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true)
+      })
+    })
+  })
+})
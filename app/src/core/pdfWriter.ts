@@ -0,0 +1,277 @@
+/**
+ * Minimal PDF 1.4 writer — pages of JPEG images, vector rectangles and
+ * Helvetica text, written in plain TypeScript so documents can be built
+ * offline without a PDF library. Coordinates are in points with the origin
+ * at the top-left of the page; they're flipped to PDF's bottom-left origin
+ * when the content stream is written.
+ */
+
+import type { FrameRect } from '../types/overlay'
+
+// ── 1. Document Model ────────────────────────────────────────────────
+
+/** RGB colour, each channel 0-1 */
+export type PdfColor = [number, number, number]
+
+/** A baseline JPEG, embedded as-is with DCTDecode */
+export interface PdfImage {
+  data: Uint8Array
+  width: number     // pixels
+  height: number
+}
+
+export interface PdfPage {
+  width: number     // points
+  height: number
+  /** Content stream operators, one drawing command per entry */
+  ops: string[]
+  /** Indices into the document's images used on this page */
+  images: number[]
+}
+
+export interface PdfDocument {
+  title: string
+  pages: PdfPage[]
+  images: PdfImage[]
+}
+
+export interface PdfTextOptions {
+  size: number
+  bold?: boolean
+  color?: PdfColor
+}
+
+export interface PdfRectOptions {
+  stroke?: PdfColor
+  fill?: PdfColor
+  lineWidth?: number
+}
+
+export function createPdfDocument(title = ''): PdfDocument {
+  return { title, pages: [], images: [] }
+}
+
+export function addPdfPage(doc: PdfDocument, width: number, height: number): PdfPage {
+  const page: PdfPage = { width, height, ops: [], images: [] }
+  doc.pages.push(page)
+  return page
+}
+
+/** Register a JPEG with the document; returns the index to draw it with */
+export function addPdfImage(doc: PdfDocument, image: PdfImage): number {
+  doc.images.push(image)
+  return doc.images.length - 1
+}
+
+// ── 2. Drawing ───────────────────────────────────────────────────────
+
+function num(n: number): string {
+  return String(Math.round(n * 100) / 100)
+}
+
+function colorOp(color: PdfColor, op: 'rg' | 'RG'): string {
+  return `${color.map(c => num(Math.min(1, Math.max(0, c)))).join(' ')} ${op}`
+}
+
+/** Draw a registered image scaled into a rectangle */
+export function drawPdfImage(page: PdfPage, imageIndex: number, rect: FrameRect): void {
+  if (!page.images.includes(imageIndex)) page.images.push(imageIndex)
+  const y = page.height - rect.y - rect.height
+  page.ops.push(`q ${num(rect.width)} 0 0 ${num(rect.height)} ${num(rect.x)} ${num(y)} cm /Im${imageIndex} Do Q`)
+}
+
+export function drawPdfRect(page: PdfPage, rect: FrameRect, options: PdfRectOptions): void {
+  if (!options.stroke && !options.fill) return
+  const y = page.height - rect.y - rect.height
+  const parts = ['q']
+  if (options.fill) parts.push(colorOp(options.fill, 'rg'))
+  if (options.stroke) parts.push(colorOp(options.stroke, 'RG'), `${num(options.lineWidth ?? 1)} w`)
+  parts.push(`${num(rect.x)} ${num(y)} ${num(rect.width)} ${num(rect.height)} re`)
+  parts.push(options.fill && options.stroke ? 'B' : options.fill ? 'f' : 'S', 'Q')
+  page.ops.push(parts.join(' '))
+}
+
+/** Draw one line of text with its baseline `y` points from the top of the page */
+export function drawPdfText(page: PdfPage, text: string, x: number, y: number, options: PdfTextOptions): void {
+  const font = options.bold ? 'F2' : 'F1'
+  const color = colorOp(options.color ?? [0, 0, 0], 'rg')
+  page.ops.push(
+    `BT /${font} ${num(options.size)} Tf ${color} ${num(x)} ${num(page.height - y)} Td (${escapePdfString(toWinAnsi(text))}) Tj ET`,
+  )
+}
+
+// ── 3. Text ──────────────────────────────────────────────────────────
+
+/** Helvetica advance widths (1/1000 em) for ASCII 32-126, from the standard AFM */
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+]
+
+const DEFAULT_WIDTH = 556
+
+/** Unicode punctuation that WinAnsiEncoding has a slot for outside Latin-1 */
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '…': 0x85, '‘': 0x91, '’': 0x92, '“': 0x93,
+  '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97, '™': 0x99,
+}
+
+/** Map text onto WinAnsiEncoding byte values; anything unencodable becomes '?' */
+export function toWinAnsi(text: string): string {
+  let out = ''
+  for (const ch of text) {
+    const code = ch.codePointAt(0)!
+    if (ch === '\n' || ch === '\r' || ch === '\t') out += ' '
+    else if ((code >= 32 && code < 127) || (code >= 160 && code <= 255)) out += ch
+    else if (WIN_ANSI_EXTRAS[ch] !== undefined) out += String.fromCharCode(WIN_ANSI_EXTRAS[ch])
+    else out += '?'
+  }
+  return out
+}
+
+export function escapePdfString(text: string): string {
+  return text.replace(/[\\()]/g, m => `\\${m}`)
+}
+
+/** Width of a line of Helvetica text in points */
+export function measurePdfText(text: string, size: number): number {
+  let units = 0
+  for (const ch of toWinAnsi(text)) {
+    const code = ch.charCodeAt(0)
+    units += code >= 32 && code <= 126 ? HELVETICA_WIDTHS[code - 32] : DEFAULT_WIDTH
+  }
+  return (units * size) / 1000
+}
+
+/** Shorten text with an ellipsis until it fits */
+export function truncatePdfText(text: string, size: number, maxWidth: number): string {
+  if (measurePdfText(text, size) <= maxWidth) return text
+  let end = text.length
+  while (end > 0 && measurePdfText(`${text.slice(0, end).trimEnd()}…`, size) > maxWidth) end--
+  return end > 0 ? `${text.slice(0, end).trimEnd()}…` : ''
+}
+
+/**
+ * Word-wrap text to a width. With `maxLines`, the last line that fits is
+ * ellipsised when text is left over.
+ */
+export function wrapPdfText(text: string, size: number, maxWidth: number, maxLines = Infinity): string[] {
+  const lines: string[] = []
+
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word
+      if (measurePdfText(candidate, size) <= maxWidth) {
+        line = candidate
+      } else {
+        if (line) lines.push(line)
+        // A single word wider than the line is cut to fit
+        line = measurePdfText(word, size) <= maxWidth ? word : truncatePdfText(word, size, maxWidth)
+      }
+    }
+    lines.push(line)
+  }
+
+  while (lines.length > 1 && lines[lines.length - 1] === '') lines.pop()
+  if (lines.length <= maxLines) return lines
+
+  const kept = lines.slice(0, maxLines)
+  kept[maxLines - 1] = truncatePdfText(`${kept[maxLines - 1]}…`, size, maxWidth)
+  return kept
+}
+
+// ── 4. Serialization ─────────────────────────────────────────────────
+
+function latin1Bytes(text: string): Uint8Array<ArrayBuffer> {
+  const bytes = new Uint8Array(text.length)
+  for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff
+  return bytes
+}
+
+function pdfDate(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0')
+  return `D:${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+    + `${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+}
+
+/**
+ * Serialize the document. Object layout: 1 catalog, 2 page tree, 3-4 fonts,
+ * 5 info, then the images, then a content stream and page object per page.
+ */
+export function writePdf(doc: PdfDocument, createdAt: Date = new Date()): Uint8Array<ArrayBuffer> {
+  const chunks: Uint8Array[] = []
+  const offsets: number[] = []
+  let length = 0
+
+  const push = (chunk: string | Uint8Array) => {
+    const bytes = typeof chunk === 'string' ? latin1Bytes(chunk) : chunk
+    chunks.push(bytes)
+    length += bytes.length
+  }
+  const object = (id: number, body: string | Uint8Array[]) => {
+    offsets[id] = length
+    push(`${id} 0 obj\n`)
+    if (typeof body === 'string') push(body)
+    else body.forEach(push)
+    push('\nendobj\n')
+  }
+  const stream = (dict: string, data: Uint8Array) => [
+    latin1Bytes(`<< ${dict} /Length ${data.length} >>\nstream\n`),
+    data,
+    latin1Bytes('\nendstream'),
+  ]
+
+  const firstImageId = 6
+  const firstPageId = firstImageId + doc.images.length
+  const pageId = (i: number) => firstPageId + i * 2 + 1
+  const objectCount = firstPageId + doc.pages.length * 2
+
+  // Binary comment so transfer tools treat the file as binary
+  push('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n')
+
+  object(1, '<< /Type /Catalog /Pages 2 0 R >>')
+  object(2, `<< /Type /Pages /Kids [${doc.pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${doc.pages.length} >>`)
+  object(3, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>')
+  object(4, '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>')
+  object(5, `<< /Title (${escapePdfString(toWinAnsi(doc.title))}) /Producer (3D Scene Cowboy) /CreationDate (${pdfDate(createdAt)}) >>`)
+
+  doc.images.forEach((image, i) => {
+    object(firstImageId + i, stream(
+      `/Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode`,
+      image.data,
+    ))
+  })
+
+  doc.pages.forEach((page, i) => {
+    const contentId = firstPageId + i * 2
+    object(contentId, stream('', latin1Bytes(page.ops.join('\n'))))
+
+    const xObjects = page.images.map(index => `/Im${index} ${firstImageId + index} 0 R`).join(' ')
+    object(pageId(i), [
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}]`,
+      ` /Resources << /Font << /F1 3 0 R /F2 4 0 R >>${xObjects ? ` /XObject << ${xObjects} >>` : ''} >>`,
+      ` /Contents ${contentId} 0 R >>`,
+    ].map(latin1Bytes))
+  })
+
+  const xrefOffset = length
+  let xref = `xref\n0 ${objectCount}\n0000000000 65535 f \n`
+  for (let id = 1; id < objectCount; id++) {
+    xref += `${String(offsets[id]).padStart(10, '0')} 00000 n \n`
+  }
+  push(xref)
+  push(`trailer\n<< /Size ${objectCount} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`)
+
+  const out = new Uint8Array(length)
+  let offset = 0
+  for (const chunk of chunks) {
+    out.set(chunk, offset)
+    offset += chunk.length
+  }
+  return out
+}
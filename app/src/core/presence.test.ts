@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import {
+  PEER_COLORS,
+  getPeerColor,
+  buildPeerSelectionMap,
+  getPeerSelectionColor,
+  camerasEqual,
+  getFrustumCorners,
+  getForeignLease,
+} from './presence'
+import type { Peer, PresenceCamera } from '../types/collaboration'
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+const CAMERA: PresenceCamera = {
+  position: { x: 0, y: 0, z: 10 },
+  target: { x: 0, y: 0, z: 0 },
+  fov: 90,
+  aspect: 2,
+}
+
+const PEERS: Peer[] = [
+  { peerId: 'me', userName: 'Alice', isHost: true, selectedIds: ['a'] },
+  { peerId: 'p1', userName: 'Hana', isHost: false, selectedIds: ['a', 'b'] },
+  { peerId: 'p2', userName: 'Bo', isHost: false, selectedIds: ['b'] },
+  { peerId: 'p3', userName: 'Cy', isHost: false },
+]
+
+describe('presence', () => {
+  // ── 1. Peer Colors ──────────────────────────────────────────────────
+
+  describe('getPeerColor', () => {
+    it('returns the same palette color for the same peer', () => {
+      expect(getPeerColor('peer_abc')).toBe(getPeerColor('peer_abc'))
+      expect(PEER_COLORS).toContain(getPeerColor('peer_abc'))
+    })
+
+    it('spreads peers across the palette', () => {
+      const colors = new Set(Array.from({ length: 40 }, (_, i) => getPeerColor(`peer_${i}`)))
+      expect(colors.size).toBeGreaterThan(4)
+    })
+  })
+
+  // ── 2. Selections ───────────────────────────────────────────────────
+
+  describe('buildPeerSelectionMap', () => {
+    it('maps objects to the remote peers selecting them', () => {
+      const map = buildPeerSelectionMap(PEERS, 'me')
+      expect(map.a.map(p => p.userName)).toEqual(['Hana'])
+      expect(map.b.map(p => p.userName)).toEqual(['Hana', 'Bo'])
+      expect(Object.keys(map)).toEqual(['a', 'b'])
+    })
+  })
+
+  describe('getPeerSelectionColor', () => {
+    it('uses the first remote peer selecting the object', () => {
+      expect(getPeerSelectionColor(PEERS, 'me', 'b')).toBe(getPeerColor('p1'))
+    })
+
+    it('ignores the local selection', () => {
+      expect(getPeerSelectionColor(PEERS, 'p1', 'a')).toBe(getPeerColor('me'))
+      expect(getPeerSelectionColor(PEERS.slice(0, 1), 'me', 'a')).toBeNull()
+    })
+  })
+
+  // ── 3. Cameras ──────────────────────────────────────────────────────
+
+  describe('camerasEqual', () => {
+    it('ignores float noise but not real movement', () => {
+      const noisy = { ...CAMERA, position: { x: 1e-5, y: 0, z: 10 } }
+      const moved = { ...CAMERA, position: { x: 0.5, y: 0, z: 10 } }
+      expect(camerasEqual(CAMERA, noisy)).toBe(true)
+      expect(camerasEqual(CAMERA, moved)).toBe(false)
+    })
+
+    it('handles missing cameras', () => {
+      expect(camerasEqual(null, null)).toBe(true)
+      expect(camerasEqual(CAMERA, null)).toBe(false)
+    })
+  })
+
+  describe('getFrustumCorners', () => {
+    it('spans fov and aspect at the given depth', () => {
+      // 90° vertical FOV at depth 2 -> half height 2, half width 4 (aspect 2)
+      const [tl, tr, br, bl] = getFrustumCorners(CAMERA, 2)
+      expect(tl.x).toBeCloseTo(-4)
+      expect(tl.y).toBeCloseTo(2)
+      expect(tl.z).toBeCloseTo(8)
+      expect(tr.x).toBeCloseTo(4)
+      expect(br.y).toBeCloseTo(-2)
+      expect(bl.x).toBeCloseTo(-4)
+    })
+
+    it('stays finite when looking straight down', () => {
+      const corners = getFrustumCorners({ ...CAMERA, position: { x: 0, y: 10, z: 0 } }, 1)
+      for (const c of corners) {
+        expect(Number.isFinite(c.x) && Number.isFinite(c.y) && Number.isFinite(c.z)).toBe(true)
+        expect(c.y).toBeCloseTo(9)
+      }
+    })
+  })
+
+  // ── 4. Edit Leases ──────────────────────────────────────────────────
+
+  describe('getForeignLease', () => {
+    it('finds leases held by other peers only', () => {
+      const leases = [
+        { objectId: 'a', peerId: 'me', userName: 'Alice', expiresAt: 0 },
+        { objectId: 'b', peerId: 'p1', userName: 'Hana', expiresAt: 0 },
+      ]
+      expect(getForeignLease(leases, 'a', 'me')).toBeNull()
+      expect(getForeignLease(leases, 'b', 'me')?.userName).toBe('Hana')
+      expect(getForeignLease(leases, 'c', 'me')).toBeNull()
+    })
+  })
+})
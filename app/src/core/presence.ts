@@ -0,0 +1,114 @@
+/** Presence — pure helpers for showing remote peers' cameras, cursors, selections and edit leases */
+
+import type { EditLease, Peer, PresenceCamera } from '../types/collaboration'
+import type { Vec3 } from '../types/scene'
+
+// ── 1. Peer Colors ────────────────────────────────────────────────────
+
+/** Distinct colors assigned to peers (kept clear of the rust selection accent) */
+export const PEER_COLORS = [
+  '#4fc3f7',
+  '#aed581',
+  '#ba68c8',
+  '#ffd54f',
+  '#4db6ac',
+  '#f06292',
+  '#7986cb',
+  '#e0e0e0',
+] as const
+
+/** Stable color for a peer, so every client shows the same peer in the same color */
+export function getPeerColor(peerId: string): string {
+  let hash = 0
+  for (let i = 0; i < peerId.length; i++) {
+    hash = (hash * 31 + peerId.charCodeAt(i)) | 0
+  }
+  return PEER_COLORS[Math.abs(hash) % PEER_COLORS.length]
+}
+
+// ── 2. Selections ─────────────────────────────────────────────────────
+
+/** Object id -> peers that currently have it selected (in peer list order) */
+export function buildPeerSelectionMap(peers: Peer[], selfPeerId: string | null): Record<string, Peer[]> {
+  const map: Record<string, Peer[]> = {}
+  for (const peer of peers) {
+    if (peer.peerId === selfPeerId) continue
+    for (const id of peer.selectedIds ?? []) {
+      (map[id] ??= []).push(peer)
+    }
+  }
+  return map
+}
+
+/** Outline color for an object selected by a remote peer, or null */
+export function getPeerSelectionColor(peers: Peer[], selfPeerId: string | null, objectId: string): string | null {
+  const peer = peers.find(p => p.peerId !== selfPeerId && p.selectedIds?.includes(objectId))
+  return peer ? getPeerColor(peer.peerId) : null
+}
+
+// ── 3. Cameras ────────────────────────────────────────────────────────
+
+const CAMERA_EPSILON = 1e-3
+
+function vecClose(a: Vec3, b: Vec3): boolean {
+  return Math.abs(a.x - b.x) < CAMERA_EPSILON
+    && Math.abs(a.y - b.y) < CAMERA_EPSILON
+    && Math.abs(a.z - b.z) < CAMERA_EPSILON
+}
+
+/** Whether two cameras are the same view (ignoring float noise from damping) */
+export function camerasEqual(a: PresenceCamera | null | undefined, b: PresenceCamera | null | undefined): boolean {
+  if (!a || !b) return a === b
+  return vecClose(a.position, b.position)
+    && vecClose(a.target, b.target)
+    && Math.abs(a.fov - b.fov) < CAMERA_EPSILON
+    && Math.abs(a.aspect - b.aspect) < CAMERA_EPSILON
+}
+
+function sub(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.x - b.x, y: a.y - b.y, z: a.z - b.z }
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return { x: a.y * b.z - a.z * b.y, y: a.z * b.x - a.x * b.z, z: a.x * b.y - a.y * b.x }
+}
+
+function normalize(v: Vec3): Vec3 {
+  const len = Math.hypot(v.x, v.y, v.z)
+  return len > 0 ? { x: v.x / len, y: v.y / len, z: v.z / len } : { x: 0, y: 0, z: -1 }
+}
+
+/**
+ * World-space corners of a camera's view rectangle at `depth` units in front
+ * of it, ordered top-left, top-right, bottom-right, bottom-left.
+ */
+export function getFrustumCorners(camera: PresenceCamera, depth: number): [Vec3, Vec3, Vec3, Vec3] {
+  const forward = normalize(sub(camera.target, camera.position))
+  // Looking straight up or down: fall back to +Z as the reference up axis
+  const worldUp = Math.abs(forward.y) > 0.999 ? { x: 0, y: 0, z: 1 } : { x: 0, y: 1, z: 0 }
+  const right = normalize(cross(forward, worldUp))
+  const up = cross(right, forward)
+
+  const halfHeight = Math.tan((camera.fov * Math.PI) / 360) * depth
+  const halfWidth = halfHeight * camera.aspect
+  const center = {
+    x: camera.position.x + forward.x * depth,
+    y: camera.position.y + forward.y * depth,
+    z: camera.position.z + forward.z * depth,
+  }
+
+  const corner = (sx: number, sy: number): Vec3 => ({
+    x: center.x + right.x * halfWidth * sx + up.x * halfHeight * sy,
+    y: center.y + right.y * halfWidth * sx + up.y * halfHeight * sy,
+    z: center.z + right.z * halfWidth * sx + up.z * halfHeight * sy,
+  })
+
+  return [corner(-1, 1), corner(1, 1), corner(1, -1), corner(-1, -1)]
+}
+
+// ── 4. Edit Leases ────────────────────────────────────────────────────
+
+/** Lease another peer holds on an object (ours do not lock us out) */
+export function getForeignLease(leases: EditLease[], objectId: string, selfPeerId: string | null): EditLease | null {
+  return leases.find(l => l.objectId === objectId && l.peerId !== selfPeerId) ?? null
+}
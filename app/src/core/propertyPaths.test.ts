@@ -0,0 +1,142 @@
+import { describe, it, expect } from 'vitest'
+import {
+  PROPERTY_PATHS,
+  applyEnvironmentPaths,
+  applyObjectPaths,
+  decodePropertyValue,
+  encodePropertyValue,
+  getPropertyValueType,
+  interpolateBoolean,
+  interpolateColor,
+  interpolateNumber,
+  interpolatePropertyValue,
+  isPropertyPath,
+  readEnvironmentPath,
+  readObjectPath,
+} from './propertyPaths'
+import { createDefaultEnvironment, createSceneObject } from './sceneOperations'
+
+describe('propertyPaths', () => {
+  // ── 1. Paths ────────────────────────────────────────────────────────
+
+  describe('paths', () => {
+    it('recognizes paths only', () => {
+      for (const path of PROPERTY_PATHS) expect(isPropertyPath(path)).toBe(true)
+      expect(isPropertyPath('position')).toBe(false)
+      expect(isPropertyPath('material.metalness')).toBe(false)
+      expect(isPropertyPath(3)).toBe(false)
+    })
+
+    it('types each path', () => {
+      expect(getPropertyValueType('material.opacity')).toBe('number')
+      expect(getPropertyValueType('environment.backgroundColor')).toBe('color')
+      expect(getPropertyValueType('visible')).toBe('boolean')
+    })
+  })
+
+  // ── 2. Interpolators ────────────────────────────────────────────────
+
+  describe('interpolators', () => {
+    it('lerps numbers', () => {
+      expect(interpolateNumber(10, 20, 0.25)).toBe(12.5)
+      expect(interpolateNumber(0, 1, 1.2)).toBeCloseTo(1.2)
+    })
+
+    it('blends colors per RGB channel', () => {
+      expect(interpolateColor('#000000', '#ffffff', 0.5)).toBe('#808080')
+      expect(interpolateColor('#ff0000', '#0000ff', 0)).toBe('#ff0000')
+      // Overshooting easing stays a valid color
+      expect(interpolateColor('#000000', '#ffffff', 1.3)).toBe('#ffffff')
+    })
+
+    it('steps booleans at the end of the segment', () => {
+      expect(interpolateBoolean(true, false, 0.99)).toBe(true)
+      expect(interpolateBoolean(true, false, 1)).toBe(false)
+    })
+
+    it('dispatches on the value type', () => {
+      expect(interpolatePropertyValue('number', 0, 4, 0.5)).toBe(2)
+      expect(interpolatePropertyValue('color', '#000000', '#0000ff', 1)).toBe('#0000ff')
+      expect(interpolatePropertyValue('boolean', false, true, 0.5)).toBe(false)
+    })
+  })
+
+  // ── 3. Keyframe Values ──────────────────────────────────────────────
+
+  describe('keyframe values', () => {
+    it('round-trips each type through a Vec3', () => {
+      expect(encodePropertyValue('number', 0.4)).toEqual({ x: 0.4, y: 0, z: 0 })
+      expect(encodePropertyValue('boolean', true)).toEqual({ x: 1, y: 0, z: 0 })
+      expect(encodePropertyValue('color', '#ff0000')).toEqual({ x: 1, y: 0, z: 0 })
+
+      expect(decodePropertyValue('number', { x: 0.4, y: 0, z: 0 })).toBe(0.4)
+      expect(decodePropertyValue('boolean', { x: 0.2, y: 0, z: 0 })).toBe(false)
+      expect(decodePropertyValue('color', encodePropertyValue('color', '#336699'))).toBe('#336699')
+    })
+  })
+
+  // ── 4. Reading and Applying ─────────────────────────────────────────
+
+  describe('objects', () => {
+    it('reads object paths', () => {
+      const box = createSceneObject('box', [])
+      expect(readObjectPath(box, 'material.opacity')).toBe(1)
+      expect(readObjectPath(box, 'material.emissiveIntensity')).toBe(0)
+      expect(readObjectPath(box, 'visible')).toBe(true)
+      expect(readObjectPath(box, 'environment.fogFar')).toBeUndefined()
+    })
+
+    it('applies material and visibility values', () => {
+      const box = createSceneObject('box', [])
+      const next = applyObjectPaths(box, {
+        'material.color': { x: 1, y: 0, z: 0 },
+        'material.opacity': { x: 0.25, y: 0, z: 0 },
+        'material.emissiveIntensity': { x: 9, y: 0, z: 0 },
+        'visible': { x: 0, y: 0, z: 0 },
+      })
+
+      expect(next.material).toMatchObject({ color: '#ff0000', opacity: 0.25, transparent: true, emissiveIntensity: 5 })
+      expect(next.color).toBe('#ff0000')
+      expect(next.visible).toBe(false)
+      expect(box.material.opacity).toBe(1)
+    })
+
+    it('turns transparency off at full opacity and keeps untouched fields', () => {
+      const box = createSceneObject('box', [])
+      const next = applyObjectPaths(box, { 'material.opacity': { x: 1.5, y: 0, z: 0 } })
+      expect(next.material).toMatchObject({ opacity: 1, transparent: false, color: box.material.color })
+      expect(next.visible).toBe(true)
+    })
+  })
+
+  describe('environment', () => {
+    it('reads and applies environment paths', () => {
+      const environment = createDefaultEnvironment()
+      expect(readEnvironmentPath(environment, 'environment.fogNear')).toBe(environment.fogNear)
+      expect(readEnvironmentPath(environment, 'visible')).toBeUndefined()
+
+      const next = applyEnvironmentPaths(environment, {
+        'environment.fogNear': { x: 5, y: 0, z: 0 },
+        'environment.fogFar': { x: 40, y: 0, z: 0 },
+        'environment.backgroundColor': { x: 0, y: 0, z: 1 },
+      })
+      expect(next).toMatchObject({ fogNear: 5, fogFar: 40, backgroundColor: '#0000ff' })
+      expect(next.fogColor).toBe(environment.fogColor)
+    })
+
+    it('returns the same settings when the values already match', () => {
+      const environment = createDefaultEnvironment()
+      expect(applyEnvironmentPaths(environment, {
+        'environment.fogNear': { x: environment.fogNear, y: 0, z: 0 },
+      })).toBe(environment)
+    })
+
+    it('keeps fog far beyond near', () => {
+      const next = applyEnvironmentPaths(createDefaultEnvironment(), {
+        'environment.fogNear': { x: 20, y: 0, z: 0 },
+        'environment.fogFar': { x: 10, y: 0, z: 0 },
+      })
+      expect(next.fogFar).toBe(20)
+    })
+  })
+})
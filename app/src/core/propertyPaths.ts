@@ -0,0 +1,176 @@
+/**
+ * Animation by property path, such as `material.opacity` or
+ * `environment.fogFar`. Each path has a value type with its own
+ * interpolator: numbers ease, colors blend in RGB and booleans step. Keys
+ * store path values in their Vec3 like every other property, so the dope
+ * sheet, clipboard and saving handle them without knowing about paths.
+ */
+
+import type { EnvironmentSettings, PropertyPath, SceneObject, Vec3 } from '../types/scene'
+import { hexToRgb, rgbToHex } from './lights'
+
+// ── 1. Paths ─────────────────────────────────────────────────────────
+
+export type PropertyValueType = 'number' | 'color' | 'boolean'
+
+/** A path's value as the scene holds it: a number, a '#rrggbb' color or a flag */
+export type PropertyValue = number | string | boolean
+
+/** Paths into a scene object, in dope sheet order */
+export const OBJECT_PROPERTY_PATHS: readonly PropertyPath[] = [
+  'material.color', 'material.opacity', 'material.emissiveIntensity', 'visible',
+]
+
+/** Paths into the environment, animated on the environment track */
+export const ENVIRONMENT_PROPERTY_PATHS: readonly PropertyPath[] = [
+  'environment.fogNear', 'environment.fogFar', 'environment.backgroundColor',
+]
+
+export const PROPERTY_PATHS: readonly PropertyPath[] = [...OBJECT_PROPERTY_PATHS, ...ENVIRONMENT_PROPERTY_PATHS]
+
+const PATH_TYPES: Record<PropertyPath, PropertyValueType> = {
+  'material.color': 'color',
+  'material.opacity': 'number',
+  'material.emissiveIntensity': 'number',
+  'visible': 'boolean',
+  'environment.fogNear': 'number',
+  'environment.fogFar': 'number',
+  'environment.backgroundColor': 'color',
+}
+
+export function isPropertyPath(value: unknown): value is PropertyPath {
+  return typeof value === 'string' && (PROPERTY_PATHS as readonly string[]).includes(value)
+}
+
+export function getPropertyValueType(path: PropertyPath): PropertyValueType {
+  return PATH_TYPES[path]
+}
+
+// ── 2. Interpolators ─────────────────────────────────────────────────
+
+export function interpolateNumber(a: number, b: number, t: number): number {
+  return a + (b - a) * t
+}
+
+/** Blend two colors in RGB; eased progress past 0-1 is clamped per channel */
+export function interpolateColor(a: string, b: string, t: number): string {
+  const from = hexToRgb(a)
+  const to = hexToRgb(b)
+  return rgbToHex({
+    x: interpolateNumber(from.x, to.x, t),
+    y: interpolateNumber(from.y, to.y, t),
+    z: interpolateNumber(from.z, to.z, t),
+  })
+}
+
+/** Hold a until the segment ends at b; a flag has no in-between */
+export function interpolateBoolean(a: boolean, b: boolean, t: number): boolean {
+  return t < 1 ? a : b
+}
+
+/**
+ * Interpolate two values of a type. Numbers and colors take eased progress;
+ * booleans take raw progress so easing can't flip them early.
+ */
+export function interpolatePropertyValue(type: PropertyValueType, a: PropertyValue, b: PropertyValue, t: number): PropertyValue {
+  switch (type) {
+    case 'number': return interpolateNumber(Number(a), Number(b), t)
+    case 'color': return interpolateColor(String(a), String(b), t)
+    case 'boolean': return interpolateBoolean(Boolean(a), Boolean(b), t)
+  }
+}
+
+// ── 3. Keyframe Values ───────────────────────────────────────────────
+
+/** A value as keyframes store it: numbers and flags in x, colors as RGB */
+export function encodePropertyValue(type: PropertyValueType, value: PropertyValue): Vec3 {
+  switch (type) {
+    case 'number': return { x: Number(value), y: 0, z: 0 }
+    case 'color': return hexToRgb(String(value))
+    case 'boolean': return { x: value ? 1 : 0, y: 0, z: 0 }
+  }
+}
+
+export function decodePropertyValue(type: PropertyValueType, value: Vec3): PropertyValue {
+  switch (type) {
+    case 'number': return value.x
+    case 'color': return rgbToHex(value)
+    case 'boolean': return value.x >= 0.5
+  }
+}
+
+// ── 4. Reading and Applying ──────────────────────────────────────────
+
+/** The object's current value at a path, or undefined for environment paths */
+export function readObjectPath(obj: SceneObject, path: PropertyPath): PropertyValue | undefined {
+  switch (path) {
+    case 'material.color': return obj.material.color
+    case 'material.opacity': return obj.material.opacity
+    case 'material.emissiveIntensity': return obj.material.emissiveIntensity ?? 0
+    case 'visible': return obj.visible
+    default: return undefined
+  }
+}
+
+export function readEnvironmentPath(environment: EnvironmentSettings, path: PropertyPath): PropertyValue | undefined {
+  switch (path) {
+    case 'environment.fogNear': return environment.fogNear
+    case 'environment.fogFar': return environment.fogFar
+    case 'environment.backgroundColor': return environment.backgroundColor
+    default: return undefined
+  }
+}
+
+/**
+ * Apply evaluated path values (as keyframes store them) to an object.
+ * Material color also sets the object color and opacity sets transparency,
+ * as the properties panel does; numbers are clamped to their panel ranges.
+ */
+export function applyObjectPaths(obj: SceneObject, values: Partial<Record<PropertyPath, Vec3>>): SceneObject {
+  const next = { ...obj }
+  const material = { ...obj.material }
+  let materialChanged = false
+
+  const color = values['material.color']
+  if (color) {
+    material.color = rgbToHex(color)
+    next.color = material.color
+    materialChanged = true
+  }
+  const opacity = values['material.opacity']
+  if (opacity) {
+    material.opacity = Math.min(1, Math.max(0, opacity.x))
+    material.transparent = material.opacity < 1
+    materialChanged = true
+  }
+  const emissive = values['material.emissiveIntensity']
+  if (emissive) {
+    material.emissiveIntensity = Math.min(5, Math.max(0, emissive.x))
+    materialChanged = true
+  }
+  const visible = values.visible
+  if (visible) next.visible = decodePropertyValue('boolean', visible) as boolean
+
+  if (materialChanged) next.material = material
+  return next
+}
+
+/** Apply evaluated environment path values. Fog distances stay positive with far beyond near.
+ *  Returns `environment` itself when the values match it, so playback can skip the store update. */
+export function applyEnvironmentPaths(
+  environment: EnvironmentSettings,
+  values: Partial<Record<PropertyPath, Vec3>>,
+): EnvironmentSettings {
+  const next = { ...environment }
+  const near = values['environment.fogNear']
+  if (near) next.fogNear = Math.max(0, near.x)
+  const far = values['environment.fogFar']
+  if (far) next.fogFar = Math.max(next.fogNear, far.x)
+  const background = values['environment.backgroundColor']
+  if (background) next.backgroundColor = rgbToHex(background)
+
+  const unchanged = next.fogNear === environment.fogNear
+    && next.fogFar === environment.fogFar
+    && next.backgroundColor === environment.backgroundColor
+  return unchanged ? environment : next
+}
@@ -0,0 +1,191 @@
+import { describe, it, expect } from 'vitest'
+import {
+  deepEqual,
+  diffFields,
+  diffScenes,
+  applyCollectionOps,
+  applySceneDiff,
+} from './sceneDiff'
+import { createSceneObject, createDefaultEnvironment } from './sceneOperations'
+import type { SceneSnapshot, SceneDiffOp } from '../types/collaboration'
+import type { SceneObject } from '../types/scene'
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function makeSnapshot(overrides: Partial<SceneSnapshot> = {}): SceneSnapshot {
+  return {
+    objects: [],
+    environment: createDefaultEnvironment(),
+    tracks: [],
+    duration: 5,
+    shots: [],
+    ...overrides,
+  }
+}
+
+function makeObjects(count: number): SceneObject[] {
+  const objects: SceneObject[] = []
+  for (let i = 0; i < count; i++) {
+    objects.push(createSceneObject('box', objects))
+  }
+  return objects
+}
+
+/** Round-trip through JSON like the wire does */
+function overWire(ops: SceneDiffOp[]): SceneDiffOp[] {
+  return JSON.parse(JSON.stringify(ops))
+}
+
+describe('sceneDiff', () => {
+  // ── 1. deepEqual / diffFields ────────────────────────────────────────
+
+  describe('deepEqual', () => {
+    it('compares nested plain values structurally', () => {
+      expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 2 }] })).toBe(true)
+      expect(deepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false)
+      expect(deepEqual([1, 2], { 0: 1, 1: 2 })).toBe(false)
+      expect(deepEqual(null, {})).toBe(false)
+    })
+
+    it('treats undefined keys as absent', () => {
+      expect(deepEqual({ a: 1, b: undefined }, { a: 1 })).toBe(true)
+    })
+  })
+
+  describe('diffFields', () => {
+    it('returns null when nothing changed', () => {
+      expect(diffFields({ a: 1, b: { c: 2 } }, { a: 1, b: { c: 2 } })).toBeNull()
+    })
+
+    it('lists changed fields and cleared fields separately', () => {
+      const prev: { name: string; parentId?: string } = { name: 'A', parentId: 'p1' }
+      const next: { name: string; parentId?: string } = { name: 'B' }
+      expect(diffFields(prev, next)).toEqual({ changes: { name: 'B' }, unset: ['parentId'] })
+    })
+  })
+
+  // ── 2. diffScenes ────────────────────────────────────────────────────
+
+  describe('diffScenes', () => {
+    it('returns no ops for identical snapshots', () => {
+      const snapshot = makeSnapshot({ objects: makeObjects(2) })
+      expect(diffScenes(snapshot, { ...snapshot })).toEqual([])
+    })
+
+    it('emits add ops with the insertion index', () => {
+      const [a, b] = makeObjects(2)
+      const ops = diffScenes(makeSnapshot({ objects: [a] }), makeSnapshot({ objects: [a, b] }))
+      expect(ops).toEqual([{ op: 'add', collection: 'objects', item: b, index: 1 }])
+    })
+
+    it('emits remove ops', () => {
+      const [a, b] = makeObjects(2)
+      const ops = diffScenes(makeSnapshot({ objects: [a, b] }), makeSnapshot({ objects: [b] }))
+      expect(ops).toEqual([{ op: 'remove', collection: 'objects', id: a.id }])
+    })
+
+    it('emits field-level updates only for changed fields', () => {
+      const [a] = makeObjects(1)
+      const moved = { ...a, position: { x: 3, y: 0, z: 0 } }
+      const ops = diffScenes(makeSnapshot({ objects: [a] }), makeSnapshot({ objects: [moved] }))
+      expect(ops).toEqual([
+        { op: 'update', collection: 'objects', id: a.id, changes: { position: { x: 3, y: 0, z: 0 } } },
+      ])
+    })
+
+    it('skips objects whose content is unchanged but identity differs', () => {
+      const [a] = makeObjects(1)
+      const ops = diffScenes(makeSnapshot({ objects: [a] }), makeSnapshot({ objects: [structuredClone(a)] }))
+      expect(ops).toEqual([])
+    })
+
+    it('diffs tracks, shots, environment and duration', () => {
+      const prev = makeSnapshot()
+      const next = makeSnapshot({
+        tracks: [{ id: 't1', objectId: 'o1', keyframes: [] }],
+        shots: [{
+          id: 's1', name: 'Wide', position: { x: 1, y: 1, z: 1 }, target: { x: 0, y: 0, z: 0 }, createdAt: '2026-01-01T00:00:00.000Z',
+        }],
+        environment: { ...prev.environment, fogEnabled: !prev.environment.fogEnabled },
+        duration: 10,
+      })
+
+      const ops = diffScenes(prev, next)
+
+      expect(ops.map(op => op.op)).toEqual(['add', 'add', 'environment', 'duration'])
+      expect(ops[2]).toEqual({ op: 'environment', changes: { fogEnabled: next.environment.fogEnabled } })
+      expect(ops[3]).toEqual({ op: 'duration', duration: 10 })
+    })
+
+    it('does not share references with the source snapshot', () => {
+      const [a] = makeObjects(1)
+      const ops = diffScenes(makeSnapshot(), makeSnapshot({ objects: [a] }))
+      const op = ops[0] as Extract<SceneDiffOp, { op: 'add' }>
+      expect(op.item).toEqual(a)
+      expect(op.item).not.toBe(a)
+    })
+  })
+
+  // ── 3. applyCollectionOps / applySceneDiff ───────────────────────────
+
+  describe('applyCollectionOps', () => {
+    it('ignores ops for other collections and unknown ids', () => {
+      const objects = makeObjects(1)
+      const result = applyCollectionOps('objects', objects, [
+        { op: 'remove', collection: 'tracks', id: objects[0].id },
+        { op: 'update', collection: 'objects', id: 'missing', changes: { name: 'X' } },
+      ])
+      expect(result).toEqual(objects)
+    })
+
+    it('replaces an existing item when an add repeats its id', () => {
+      const [a] = makeObjects(1)
+      const replacement = { ...a, name: 'Replaced' }
+      const result = applyCollectionOps('objects', [a], [
+        { op: 'add', collection: 'objects', item: replacement, index: 5 },
+      ])
+      expect(result).toEqual([replacement])
+    })
+
+    it('clamps insertion indices', () => {
+      const [a, b] = makeObjects(2)
+      const result = applyCollectionOps('objects', [a], [
+        { op: 'add', collection: 'objects', item: b, index: 99 },
+      ])
+      expect(result.map(o => o.id)).toEqual([a.id, b.id])
+    })
+
+    it('removes unset fields', () => {
+      const [a] = makeObjects(1)
+      const child = { ...a, parentId: 'p1' }
+      const result = applyCollectionOps('objects', [child], [
+        { op: 'update', collection: 'objects', id: a.id, changes: {}, unset: ['parentId'] },
+      ])
+      expect(result[0]).not.toHaveProperty('parentId')
+    })
+  })
+
+  describe('applySceneDiff', () => {
+    it('reproduces the target snapshot after a JSON round-trip', () => {
+      const [a, b, c] = makeObjects(3)
+      const prev = makeSnapshot({ objects: [a, { ...b, parentId: a.id }], duration: 5 })
+      const next = makeSnapshot({
+        objects: [{ ...a, name: 'Renamed' }, b, c],
+        tracks: [{ id: 't1', objectId: a.id, keyframes: [] }],
+        duration: 8,
+      })
+
+      const result = applySceneDiff(prev, overWire(diffScenes(prev, next)))
+
+      expect(deepEqual(result, next)).toBe(true)
+    })
+
+    it('keeps the identity of untouched parts', () => {
+      const snapshot = makeSnapshot({ objects: makeObjects(1) })
+      const result = applySceneDiff(snapshot, [{ op: 'duration', duration: 2 }])
+      expect(result.objects).toBe(snapshot.objects)
+      expect(result.environment).toBe(snapshot.environment)
+      expect(result.duration).toBe(2)
+    })
+  })
+})
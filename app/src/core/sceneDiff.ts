@@ -0,0 +1,185 @@
+/** Scene diffing — pure diff/patch functions for replicating editor state */
+
+import type {
+  SceneDiffOp,
+  SceneSnapshot,
+  SceneCollectionName,
+  SceneCollections,
+} from '../types/collaboration'
+import type { EnvironmentSettings } from '../types/scene'
+
+// ── Equality (pure) ───────────────────────────────────────────────────
+
+/** Structural equality for JSON-like values (plain objects, arrays, primitives) */
+export function deepEqual(a: unknown, b: unknown): boolean {
+  if (a === b) return true
+  if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+    return false
+  }
+
+  if (Array.isArray(a)) {
+    if (!Array.isArray(b) || a.length !== b.length) return false
+    for (let i = 0; i < a.length; i++) {
+      if (!deepEqual(a[i], b[i])) return false
+    }
+    return true
+  }
+  if (Array.isArray(b)) return false
+
+  const aObj = a as Record<string, unknown>
+  const bObj = b as Record<string, unknown>
+  const aKeys = Object.keys(aObj).filter(k => aObj[k] !== undefined)
+  const bKeys = Object.keys(bObj).filter(k => bObj[k] !== undefined)
+  if (aKeys.length !== bKeys.length) return false
+  for (const key of aKeys) {
+    if (!deepEqual(aObj[key], bObj[key])) return false
+  }
+  return true
+}
+
+/** Top-level fields of `next` that differ from `prev`. Fields present in
+ *  `prev` but missing from `next` are listed in `unset` (JSON drops undefined). */
+export function diffFields<T extends object>(
+  prev: T,
+  next: T,
+): { changes: Partial<T>; unset: string[] } | null {
+  const prevRec = prev as Record<string, unknown>
+  const nextRec = next as Record<string, unknown>
+  const changes: Record<string, unknown> = {}
+  const unset: string[] = []
+
+  for (const key of new Set([...Object.keys(prevRec), ...Object.keys(nextRec)])) {
+    if (deepEqual(prevRec[key], nextRec[key])) continue
+    if (nextRec[key] === undefined) {
+      unset.push(key)
+    } else {
+      changes[key] = nextRec[key]
+    }
+  }
+
+  if (unset.length === 0 && Object.keys(changes).length === 0) return null
+  return { changes: changes as Partial<T>, unset }
+}
+
+// ── Diff (pure) ───────────────────────────────────────────────────────
+
+/** Operations that turn one collection's `prev` items into `next` */
+export function diffCollection<C extends SceneCollectionName>(
+  collection: C,
+  prev: SceneCollections[C][],
+  next: SceneCollections[C][],
+): SceneDiffOp[] {
+  const ops: SceneDiffOp[] = []
+  const prevById = new Map(prev.map(item => [item.id, item]))
+  const nextIds = new Set(next.map(item => item.id))
+
+  for (const item of prev) {
+    if (!nextIds.has(item.id)) {
+      ops.push({ op: 'remove', collection, id: item.id })
+    }
+  }
+
+  next.forEach((item, index) => {
+    const before = prevById.get(item.id)
+    if (!before) {
+      ops.push({ op: 'add', collection, item: structuredClone(item), index } as SceneDiffOp)
+      return
+    }
+    if (before === item) return
+    const diff = diffFields(before, item)
+    if (!diff) return
+    const op = { op: 'update', collection, id: item.id, changes: structuredClone(diff.changes) }
+    ops.push((diff.unset.length > 0 ? { ...op, unset: diff.unset } : op) as SceneDiffOp)
+  })
+
+  return ops
+}
+
+/** Operations that turn `prev` into `next` */
+export function diffScenes(prev: SceneSnapshot, next: SceneSnapshot): SceneDiffOp[] {
+  const ops: SceneDiffOp[] = [
+    ...diffCollection('objects', prev.objects, next.objects),
+    ...diffCollection('tracks', prev.tracks, next.tracks),
+    ...diffCollection('shots', prev.shots, next.shots),
+  ]
+
+  if (prev.environment !== next.environment) {
+    const diff = diffFields<EnvironmentSettings>(prev.environment, next.environment)
+    if (diff) ops.push({ op: 'environment', changes: structuredClone(diff.changes) })
+  }
+
+  if (prev.duration !== next.duration) {
+    ops.push({ op: 'duration', duration: next.duration })
+  }
+
+  return ops
+}
+
+// ── Patch (pure) ──────────────────────────────────────────────────────
+
+function mergeFields<T extends object>(item: T, changes: Partial<T>, unset: string[] = []): T {
+  const merged = { ...item, ...changes } as Record<string, unknown>
+  for (const key of unset) {
+    delete merged[key]
+  }
+  return merged as T
+}
+
+/** Apply collection operations to one collection. Unknown ids are ignored;
+ *  adding an id that already exists replaces it in place. */
+export function applyCollectionOps<C extends SceneCollectionName>(
+  collection: C,
+  items: SceneCollections[C][],
+  ops: SceneDiffOp[],
+): SceneCollections[C][] {
+  let result = items
+  for (const op of ops) {
+    if (!('collection' in op) || op.collection !== collection) continue
+
+    switch (op.op) {
+      case 'add': {
+        const item = op.item as SceneCollections[C]
+        const existing = result.findIndex(i => i.id === item.id)
+        if (existing !== -1) {
+          result = result.map((i, idx) => idx === existing ? item : i)
+        } else {
+          const index = Math.max(0, Math.min(op.index, result.length))
+          result = [...result.slice(0, index), item, ...result.slice(index)]
+        }
+        break
+      }
+      case 'update': {
+        const changes = op.changes as Partial<SceneCollections[C]>
+        result = result.map(i => i.id === op.id ? mergeFields(i, changes, op.unset) : i)
+        break
+      }
+      case 'remove':
+        result = result.filter(i => i.id !== op.id)
+        break
+    }
+  }
+  return result
+}
+
+/** Apply operations to a snapshot, returning a new snapshot.
+ *  Unchanged parts keep their identity so callers can skip no-op updates. */
+export function applySceneDiff(snapshot: SceneSnapshot, ops: SceneDiffOp[]): SceneSnapshot {
+  let environment = snapshot.environment
+  let duration = snapshot.duration
+
+  for (const op of ops) {
+    if (op.op === 'environment') {
+      environment = { ...environment, ...op.changes }
+    } else if (op.op === 'duration') {
+      duration = op.duration
+    }
+  }
+
+  return {
+    objects: applyCollectionOps('objects', snapshot.objects, ops),
+    tracks: applyCollectionOps('tracks', snapshot.tracks, ops),
+    shots: applyCollectionOps('shots', snapshot.shots, ops),
+    environment,
+    duration,
+  }
+}
@@ -109,9 +109,28 @@ describe('sceneOperations', () => {
       const sphere1 = createSceneObject('sphere', [box1])
       expect(sphere1.name).toBe('Sphere 1')
     })
+
+    it('creates lights aimed down with light settings', () => {
+      const spot = createSceneObject('spotLight', [])
+      expect(spot.name).toBe('Spot Light 1')
+      expect(spot.position.y).toBe(3)
+      expect(spot.rotation.x).toBe(-90)
+      expect(spot.light?.outerConeAngle).toBe(30)
+      expect(spot.color).toBe(spot.light?.color)
+
+      const point = createSceneObject('pointLight', [])
+      expect(point.rotation.x).toBe(0)
+    })
   })
 
   describe('duplicateSceneObject', () => {
+    it('copies light settings rather than sharing them', () => {
+      const light = createSceneObject('pointLight', [])
+      const dup = duplicateSceneObject(light)
+      expect(dup.light).toEqual(light.light)
+      expect(dup.light).not.toBe(light.light)
+    })
+
     it('creates a copy with new id', () => {
       const original = createSceneObject('box', [])
       const copy = duplicateSceneObject(original)
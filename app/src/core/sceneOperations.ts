@@ -7,6 +7,7 @@ import type {
   MaterialData,
   EnvironmentSettings,
 } from '../types/scene'
+import { isLightType, createDefaultLight } from './lights'
 
 // ── ID Generation ─────────────────────────────────────────────────────
 
@@ -56,6 +57,11 @@ const OBJECT_DEFAULTS: Record<ObjectType, { color: string; scale: Vec3 }> = {
   plane: { color: '#8c7b6a', scale: { x: 2, y: 2, z: 1 } },
   torus: { color: '#b07d3a', scale: { x: 0.5, y: 0.5, z: 0.5 } },
   model: { color: '#c49a5c', scale: { x: 1, y: 1, z: 1 } },
+  directionalLight: { color: '#ffffff', scale: { x: 1, y: 1, z: 1 } },
+  pointLight: { color: '#ffe8c8', scale: { x: 1, y: 1, z: 1 } },
+  spotLight: { color: '#ffffff', scale: { x: 1, y: 1, z: 1 } },
+  areaLight: { color: '#ffffff', scale: { x: 1, y: 1, z: 1 } },
+  hemisphereLight: { color: '#c8d8ff', scale: { x: 1, y: 1, z: 1 } },
 }
 
 const OBJECT_LABELS: Record<ObjectType, string> = {
@@ -66,6 +72,11 @@ const OBJECT_LABELS: Record<ObjectType, string> = {
   plane: 'Plane',
   torus: 'Torus',
   model: 'Model',
+  directionalLight: 'Directional Light',
+  pointLight: 'Point Light',
+  spotLight: 'Spot Light',
+  areaLight: 'Area Light',
+  hemisphereLight: 'Hemisphere Light',
 }
 
 export { OBJECT_DEFAULTS, OBJECT_LABELS }
@@ -81,6 +92,24 @@ export function createSceneObject(
   const label = OBJECT_LABELS[type]
   const count = existingObjects.filter(o => o.type === type).length + 1
 
+  if (isLightType(type)) {
+    // Lights start above the origin; aimed lights point straight down (-Z rotated to -Y)
+    const aimed = type === 'directionalLight' || type === 'spotLight' || type === 'areaLight'
+    return {
+      id,
+      name: `${label} ${count}`,
+      type,
+      position: { x: 0, y: type === 'directionalLight' ? 5 : 3, z: 0 },
+      rotation: { x: aimed ? -90 : 0, y: 0, z: 0 },
+      scale: { ...defaults.scale },
+      color: defaults.color,
+      visible: true,
+      locked: false,
+      material: createDefaultMaterial(defaults.color),
+      light: createDefaultLight(type),
+    }
+  }
+
   return {
     id,
     name: `${label} ${count}`,
@@ -142,6 +171,7 @@ export function duplicateSceneObject(
       z: obj.position.z + offset.z,
     },
     material: { ...obj.material },
+    ...(obj.light ? { light: { ...obj.light } } : {}),
     parentId: obj.parentId,
     gltfUrl: obj.gltfUrl,
   }
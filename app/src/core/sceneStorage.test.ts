@@ -0,0 +1,265 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest'
+import { createSceneStorageService, createDefaultStorageAdapter } from './sceneStorage'
+import { InMemoryAdapter } from './storageEngine'
+import { registerBlobUrl, clearBlobRegistry, parseAssetUrl } from './blobStore'
+import { useSceneStore } from '../stores/useSceneStore'
+import { useStorageStore } from '../stores/useStorageStore'
+import { useAnimationStore } from '../stores/useAnimationStore'
+import { useCameraStore } from '../stores/useCameraStore'
+import { usePostProcessingStore } from '../stores/usePostProcessingStore'
+import type { SavedSceneMetadata } from '../types/storage'
+
+// ── Helpers ──────────────────────────────────────────────────────────
+
+function resetStores() {
+  useSceneStore.getState().clearScene()
+  useStorageStore.getState().clearAll()
+  useAnimationStore.getState().clearAll()
+  useCameraStore.getState().clearShots()
+  usePostProcessingStore.getState().resetDefaults()
+}
+
+function populateScene() {
+  useSceneStore.getState().addObject('box')
+  useSceneStore.getState().addObject('sphere')
+  const boxId = useSceneStore.getState().objects[0].id
+
+  const animation = useAnimationStore.getState()
+  const trackId = animation.addTrack(boxId)
+  animation.addKeyframe(trackId, 0, 'position', { x: 0, y: 0, z: 0 })
+  animation.addKeyframe(trackId, 2, 'position', { x: 4, y: 0, z: 0 }, 'easeInOut')
+
+  useCameraStore.getState().loadShots([{
+    id: 'shot_1',
+    name: 'Wide',
+    position: { x: 5, y: 5, z: 5 },
+    target: { x: 0, y: 0, z: 0 },
+    createdAt: '2026-01-01T00:00:00.000Z',
+  }])
+
+  usePostProcessingStore.getState().setEnabled(true)
+  usePostProcessingStore.getState().updateBloom({ enabled: true, intensity: 2.5 })
+}
+
+describe('sceneStorage', () => {
+  let adapter: InMemoryAdapter
+
+  beforeEach(() => {
+    resetStores()
+    adapter = new InMemoryAdapter()
+  })
+
+  // ── 1. save ─────────────────────────────────────────────────────────
+
+  describe('save', () => {
+    it('writes the serialized scene through the adapter', async () => {
+      populateScene()
+      const service = createSceneStorageService(adapter)
+
+      const metadata = await service.save({ name: 'Canyon', tags: ['western'] })
+
+      const entry = await adapter.load(metadata.id)
+      expect(entry).not.toBeNull()
+      const payload = JSON.parse(entry!.data)
+      expect(payload.metadata.name).toBe('Canyon')
+      expect(payload.objects).toHaveLength(2)
+      expect(payload.animationTracks).toHaveLength(1)
+      expect(payload.shots).toHaveLength(1)
+      expect(payload.postProcessing.bloom.intensity).toBe(2.5)
+    })
+
+    it('records metadata in the storage store and marks the scene active', async () => {
+      populateScene()
+      const service = createSceneStorageService(adapter)
+
+      const metadata = await service.save({ name: 'Canyon', tags: ['western'] })
+
+      const storage = useStorageStore.getState()
+      expect(storage.scenes).toEqual([metadata])
+      expect(storage.activeSceneId).toBe(metadata.id)
+      expect(storage.saveStatus).toBe('saved')
+      expect(storage.lastSavedAt).toBe(metadata.updatedAt)
+      expect(metadata.objectCount).toBe(2)
+      expect(metadata.tags).toEqual(['western'])
+      expect(metadata.fileSize).toBeGreaterThan(0)
+    })
+
+    it('overwrites an existing entry and keeps its id and creation date', async () => {
+      populateScene()
+      const service = createSceneStorageService(adapter)
+      const first = await service.save({ name: 'Canyon' })
+
+      useSceneStore.getState().addObject('cone')
+      const second = await service.save({ name: 'Canyon', tags: ['v2'], overwriteId: first.id })
+
+      expect(second.id).toBe(first.id)
+      expect(second.createdAt).toBe(first.createdAt)
+      expect(second.objectCount).toBe(3)
+      expect(await adapter.list()).toHaveLength(1)
+      expect(useStorageStore.getState().scenes).toHaveLength(1)
+      expect(useStorageStore.getState().scenes[0].tags).toEqual(['v2'])
+    })
+
+    it('creates a new entry when the overwrite target no longer exists', async () => {
+      const service = createSceneStorageService(adapter)
+      const metadata = await service.save({ name: 'Fresh', overwriteId: 'missing' })
+      expect(metadata.id).not.toBe('missing')
+      expect(await adapter.exists(metadata.id)).toBe(true)
+    })
+  })
+
+  // ── 2. load ─────────────────────────────────────────────────────────
+
+  describe('load', () => {
+    it('restores objects, animation tracks, camera shots and post-processing', async () => {
+      populateScene()
+      const service = createSceneStorageService(adapter)
+      const metadata = await service.save({ name: 'Canyon' })
+      const savedObjects = structuredClone(useSceneStore.getState().objects)
+
+      resetStores()
+      await service.load(metadata.id)
+
+      expect(useSceneStore.getState().objects).toEqual(savedObjects)
+      const tracks = useAnimationStore.getState().tracks
+      expect(tracks).toHaveLength(1)
+      expect(tracks[0].keyframes.map(k => k.easing)).toEqual(['linear', 'easeInOut'])
+      expect(useCameraStore.getState().shots.map(s => s.name)).toEqual(['Wide'])
+      const pp = usePostProcessingStore.getState().getSettings()
+      expect(pp.enabled).toBe(true)
+      expect(pp.bloom).toMatchObject({ enabled: true, intensity: 2.5 })
+      expect(useStorageStore.getState().activeSceneId).toBe(metadata.id)
+    })
+
+    it('throws when the scene does not exist', async () => {
+      const service = createSceneStorageService(adapter)
+      await expect(service.load('missing')).rejects.toThrow('Saved scene not found: missing')
+    })
+
+    it('rejects corrupted payloads without touching the current scene', async () => {
+      useSceneStore.getState().addObject('box')
+      const meta: SavedSceneMetadata = {
+        id: 'broken',
+        name: 'Broken',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        updatedAt: '2026-01-01T00:00:00.000Z',
+        version: 3,
+        fileSize: 8,
+        objectCount: 0,
+        tags: [],
+      }
+      await adapter.save('broken', '{not json', meta)
+      const service = createSceneStorageService(adapter)
+
+      await expect(service.load('broken')).rejects.toThrow('Invalid JSON')
+      expect(useSceneStore.getState().objects).toHaveLength(1)
+    })
+  })
+
+  // ── 3. imported assets ──────────────────────────────────────────────
+
+  describe('imported assets', () => {
+    it('stores model bytes and restores them after a reload', async () => {
+      clearBlobRegistry()
+      registerBlobUrl('blob:cactus', new Blob(['glb bytes']))
+      useSceneStore.getState().addModelObject('Cactus', 'blob:cactus', 'glb')
+      const service = createSceneStorageService(adapter)
+      const metadata = await service.save({ name: 'Desert' })
+
+      const payload = JSON.parse((await adapter.load(metadata.id))!.data)
+      const hash = parseAssetUrl(payload.objects[0].gltfUrl)
+      expect(hash).not.toBeNull()
+      expect((await adapter.getBlob(hash!))!.refCount).toBe(1)
+
+      // New tab: blob URLs and the registry are gone
+      clearBlobRegistry()
+      resetStores()
+      const createSpy = vi.spyOn(URL, 'createObjectURL').mockReturnValue('blob:restored')
+      await service.load(metadata.id)
+      createSpy.mockRestore()
+
+      expect(useSceneStore.getState().objects[0].gltfUrl).toBe('blob:restored')
+    })
+
+    it('frees stored bytes when the last scene using them is removed', async () => {
+      clearBlobRegistry()
+      registerBlobUrl('blob:cactus', new Blob(['glb bytes']))
+      useSceneStore.getState().addModelObject('Cactus', 'blob:cactus', 'glb')
+      const service = createSceneStorageService(adapter)
+      const first = await service.save({ name: 'A' })
+      const second = await service.save({ name: 'B' })
+      const hash = parseAssetUrl(JSON.parse((await adapter.load(first.id))!.data).objects[0].gltfUrl)!
+
+      await service.remove(first.id)
+      expect(await adapter.hasBlob(hash)).toBe(true)
+      await service.remove(second.id)
+      expect(await adapter.hasBlob(hash)).toBe(false)
+    })
+
+    it('writes no bytes when the scene is too large to save', async () => {
+      clearBlobRegistry()
+      registerBlobUrl('blob:cactus', new Blob(['glb bytes']))
+      useSceneStore.getState().addModelObject('Cactus', 'blob:cactus', 'glb')
+      const putSpy = vi.spyOn(adapter, 'putBlob')
+      const service = createSceneStorageService(adapter, { maxSceneSize: 10 })
+
+      await expect(service.save({ name: 'Desert' })).rejects.toThrow('too large')
+
+      expect(putSpy).not.toHaveBeenCalled()
+      expect(await adapter.list()).toEqual([])
+    })
+
+    it('frees the bytes it wrote when the save itself fails', async () => {
+      clearBlobRegistry()
+      registerBlobUrl('blob:cactus', new Blob(['glb bytes']))
+      useSceneStore.getState().addModelObject('Cactus', 'blob:cactus', 'glb')
+      const putSpy = vi.spyOn(adapter, 'putBlob')
+      vi.spyOn(adapter, 'save').mockRejectedValueOnce(new Error('quota exceeded'))
+      const service = createSceneStorageService(adapter)
+
+      await expect(service.save({ name: 'Desert' })).rejects.toThrow('quota exceeded')
+
+      const hash = putSpy.mock.calls[0][0]
+      expect(await adapter.hasBlob(hash)).toBe(false)
+    })
+  })
+
+  // ── 4. hydrate / remove ─────────────────────────────────────────────
+
+  describe('hydrate', () => {
+    it('replaces the store index with the adapter contents', async () => {
+      populateScene()
+      const writer = createSceneStorageService(adapter)
+      const a = await writer.save({ name: 'A' })
+      const b = await writer.save({ name: 'B' })
+
+      // Simulate a fresh session
+      useStorageStore.getState().clearAll()
+      const scenes = await createSceneStorageService(adapter).hydrate()
+
+      expect(scenes.map(s => s.id).sort()).toEqual([a.id, b.id].sort())
+      expect(useStorageStore.getState().scenes).toEqual(scenes)
+    })
+  })
+
+  describe('remove', () => {
+    it('deletes from the adapter and the store', async () => {
+      const service = createSceneStorageService(adapter)
+      const metadata = await service.save({ name: 'Temp' })
+
+      await service.remove(metadata.id)
+
+      expect(await adapter.exists(metadata.id)).toBe(false)
+      expect(useStorageStore.getState().scenes).toEqual([])
+      expect(useStorageStore.getState().activeSceneId).toBeNull()
+    })
+  })
+
+  // ── 5. createDefaultStorageAdapter ──────────────────────────────────
+
+  describe('createDefaultStorageAdapter', () => {
+    it('falls back to the in-memory adapter without IndexedDB', () => {
+      expect(createDefaultStorageAdapter()).toBeInstanceOf(InMemoryAdapter)
+    })
+  })
+})
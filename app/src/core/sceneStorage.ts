@@ -0,0 +1,142 @@
+/** Scene storage service — persists full scene payloads through a StorageAdapter
+ *  and keeps useStorageStore's metadata index in sync with it. */
+
+import type { SceneData } from '../types/scene'
+import type { SavedSceneMetadata, StorageAdapter } from '../types/storage'
+import { serializeScene, deserializeScene } from './serialization'
+import { prepareSceneAssets, restoreSceneAssets } from './blobStore'
+import {
+  createSceneMetadata,
+  updateSceneMetadata,
+  estimateSceneSize,
+  formatStorageSize,
+  MAX_SCENE_SIZE,
+  IndexedDBAdapter,
+  InMemoryAdapter,
+} from './storageEngine'
+import { useSceneStore } from '../stores/useSceneStore'
+import { useStorageStore } from '../stores/useStorageStore'
+
+// ── Types ─────────────────────────────────────────────────────────────
+
+export interface SaveSceneOptions {
+  name: string
+  tags?: string[]
+  /** Overwrite this saved scene instead of creating a new entry */
+  overwriteId?: string | null
+}
+
+export interface SceneStorageService {
+  readonly adapter: StorageAdapter
+  /** Replace the store's scene index with the adapter's contents */
+  hydrate: () => Promise<SavedSceneMetadata[]>
+  /** Serialize the current scene (objects, tracks, shots, post-processing) and persist it */
+  save: (options: SaveSceneOptions) => Promise<SavedSceneMetadata>
+  /** Load a saved scene into the editor stores */
+  load: (id: string) => Promise<SceneData>
+  /** Delete a saved scene from the adapter and the index */
+  remove: (id: string) => Promise<void>
+}
+
+export interface SceneStorageOptions {
+  /** Largest serialized scene accepted by save (bytes) */
+  maxSceneSize?: number
+}
+
+// ── Factory ───────────────────────────────────────────────────────────
+
+export function createSceneStorageService(
+  adapter: StorageAdapter,
+  { maxSceneSize = MAX_SCENE_SIZE }: SceneStorageOptions = {},
+): SceneStorageService {
+  return {
+    adapter,
+
+    hydrate: async () => {
+      const scenes = await adapter.list()
+      useStorageStore.getState().setScenes(scenes)
+      return scenes
+    },
+
+    save: async ({ name, tags = [], overwriteId = null }) => {
+      const sceneState = useSceneStore.getState()
+      const existing = overwriteId ? await adapter.getMetadata(overwriteId) : null
+
+      const current = sceneState.saveScene(name)
+      if (existing) {
+        // Keep the original creation date when overwriting
+        current.metadata.createdAt = existing.createdAt
+      }
+      // Blob URLs die with the tab — store their bytes and reference them by hash
+      const { sceneData, blobHashes, blobs } = await prepareSceneAssets(current, adapter)
+      const json = serializeScene(sceneData)
+
+      // Checked before any bytes are written, so a rejected save leaves nothing behind
+      const fileSize = estimateSceneSize(json)
+      if (fileSize > maxSceneSize) {
+        throw new Error(`Scene is too large to save (${formatStorageSize(fileSize)})`)
+      }
+
+      const metadata: SavedSceneMetadata = existing
+        ? {
+            ...updateSceneMetadata(existing, { name, tags }),
+            version: sceneData.metadata.version,
+            fileSize,
+            objectCount: sceneData.objects.length,
+          }
+        : createSceneMetadata(name, json, sceneData.objects.length, sceneData.metadata.version, tags)
+
+      for (const [hash, blob] of blobs) {
+        await adapter.putBlob(hash, blob)
+      }
+      try {
+        await adapter.save(metadata.id, json, metadata, blobHashes)
+      } catch (err) {
+        // Blobs are written unreferenced; only the scene record would have claimed them
+        await adapter.deleteUnreferencedBlobs([...blobs.keys()])
+        throw err
+      }
+
+      const storage = useStorageStore.getState()
+      if (storage.getScene(metadata.id)) {
+        storage.updateSceneMetadata(metadata.id, metadata)
+      } else {
+        storage.addScene(metadata)
+      }
+      storage.setActiveScene(metadata.id)
+      storage.setSaveStatus('saved')
+      storage.setLastSavedAt(metadata.updatedAt)
+      return metadata
+    },
+
+    load: async (id) => {
+      const entry = await adapter.load(id)
+      if (!entry) {
+        throw new Error(`Saved scene not found: ${id}`)
+      }
+
+      const sceneData = await restoreSceneAssets(deserializeScene(entry.data), adapter)
+      useSceneStore.getState().loadScene(sceneData)
+
+      const storage = useStorageStore.getState()
+      storage.setActiveScene(id)
+      storage.setSaveStatus('saved')
+      storage.setLastSavedAt(entry.metadata.updatedAt)
+      return sceneData
+    },
+
+    remove: async (id) => {
+      await adapter.delete(id)
+      useStorageStore.getState().removeScene(id)
+    },
+  }
+}
+
+// ── Default Instance ──────────────────────────────────────────────────
+
+/** IndexedDB in the browser; in-memory where IndexedDB is unavailable (tests, SSR) */
+export function createDefaultStorageAdapter(): StorageAdapter {
+  return typeof indexedDB !== 'undefined' ? new IndexedDBAdapter() : new InMemoryAdapter()
+}
+
+export const sceneStorage = createSceneStorageService(createDefaultStorageAdapter())
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import {
+  DEFAULT_CLIP_DURATION,
+  MIN_CLIP_DURATION,
+  createClip,
+  normalizeClip,
+  resetClipIdCounter,
+  getSequenceDuration,
+  getClipStartTimes,
+  locateClip,
+  evaluateClip,
+  evaluateSequence,
+  type SequenceSources,
+} from './sequence'
+import { CAMERA_TRACK_OBJECT_ID } from './animation'
+import type { CameraPath, CameraShot } from '../types/cameraPath'
+import type { AnimationTrack } from '../types/scene'
+
+function makeShot(id: string, x: number): CameraShot {
+  return {
+    id,
+    name: `Shot ${id}`,
+    position: { x, y: 1, z: 10 },
+    target: { x, y: 0, z: 0 },
+    lens: { focalLength: 35, sensor: 'super35', roll: 0 },
+    focus: { distance: 4, fStop: 2, targetId: null },
+    createdAt: '2026-01-01T00:00:00.000Z',
+  }
+}
+
+const dolly: CameraPath = {
+  id: 'path-1',
+  name: 'Dolly',
+  duration: 4,
+  loop: false,
+  easing: 'linear',
+  points: [
+    { id: 'p1', position: { x: 0, y: 0, z: 10 }, target: { x: 0, y: 0, z: 0 }, time: 0, tension: 0.5 },
+    { id: 'p2', position: { x: 0, y: 0, z: 2 }, target: { x: 0, y: 0, z: 0 }, time: 4, tension: 0.5 },
+  ],
+}
+
+const cameraTrack: AnimationTrack = {
+  id: 'track-cam',
+  objectId: CAMERA_TRACK_OBJECT_ID,
+  keyframes: [
+    { id: 'k1', time: 2, property: 'cameraPosition', value: { x: 0, y: 0, z: 0 }, easing: 'linear' },
+    { id: 'k2', time: 6, property: 'cameraPosition', value: { x: 8, y: 0, z: 0 }, easing: 'linear' },
+  ],
+}
+
+const sources: SequenceSources = {
+  shots: [makeShot('a', 0), makeShot('b', 5)],
+  paths: [dolly],
+  cameraTrack,
+}
+
+describe('sequence', () => {
+  beforeEach(() => {
+    resetClipIdCounter()
+  })
+
+  // ── 1. Clips ────────────────────────────────────────────────────────
+
+  describe('clips', () => {
+    it('creates a static cut with the default duration', () => {
+      const clip = createClip('a')
+      expect(clip.shotId).toBe('a')
+      expect(clip.duration).toBe(DEFAULT_CLIP_DURATION)
+      expect(clip.motion).toBe('static')
+      expect(clip.transition).toBe('cut')
+    })
+
+    it('gives every clip a unique id', () => {
+      expect(createClip('a').id).not.toBe(createClip('a').id)
+    })
+
+    it('clamps durations and keeps a dissolve inside its clip', () => {
+      const clip = normalizeClip({ ...createClip('a'), duration: 0, trackIn: -2, transitionDuration: 5 })
+      expect(clip.duration).toBe(MIN_CLIP_DURATION)
+      expect(clip.trackIn).toBe(0)
+      expect(clip.transitionDuration).toBe(MIN_CLIP_DURATION)
+    })
+  })
+
+  // ── 2. Timing ───────────────────────────────────────────────────────
+
+  describe('timing', () => {
+    const clips = [createClip('a', { duration: 2 }), createClip('b', { duration: 3 }), createClip('a', { duration: 1 })]
+
+    it('adds up clip durations and start times', () => {
+      expect(getSequenceDuration(clips)).toBe(6)
+      expect(getClipStartTimes(clips)).toEqual([0, 2, 5])
+    })
+
+    it('locates the clip on screen', () => {
+      expect(locateClip(clips, 0)).toEqual({ index: 0, localTime: 0 })
+      expect(locateClip(clips, 2)).toEqual({ index: 1, localTime: 0 })
+      expect(locateClip(clips, 5.5)).toEqual({ index: 2, localTime: 0.5 })
+    })
+
+    it('holds the last frame past the end and finds nothing in an empty edit', () => {
+      expect(locateClip(clips, 10)).toEqual({ index: 2, localTime: 1 })
+      expect(locateClip([], 1)).toBeNull()
+    })
+  })
+
+  // ── 3. Camera Evaluation ────────────────────────────────────────────
+
+  describe('evaluateClip', () => {
+    it('holds the shot framing for a static clip', () => {
+      const state = evaluateClip(createClip('b'), 1.5, sources)
+      expect(state?.position).toEqual({ x: 5, y: 1, z: 10 })
+      expect(state?.target).toEqual({ x: 5, y: 0, z: 0 })
+      expect(state?.lens.focalLength).toBe(35)
+      expect(state?.focus.fStop).toBe(2)
+    })
+
+    it('returns null when the shot has been deleted', () => {
+      expect(evaluateClip(createClip('gone'), 0, sources)).toBeNull()
+    })
+
+    it('stretches a camera path across the clip', () => {
+      const clip = createClip('a', { duration: 2, motion: 'path', pathId: 'path-1' })
+      expect(evaluateClip(clip, 0, sources)?.position.z).toBeCloseTo(10, 6)
+      expect(evaluateClip(clip, 2, sources)?.position.z).toBeCloseTo(2, 6)
+    })
+
+    it('falls back to the shot when the path is missing', () => {
+      const clip = createClip('a', { motion: 'path', pathId: 'deleted' })
+      expect(evaluateClip(clip, 1, sources)?.position).toEqual({ x: 0, y: 1, z: 10 })
+    })
+
+    it('plays a camera track segment from in to out', () => {
+      const clip = createClip('a', { duration: 1, motion: 'track', trackIn: 2, trackOut: 6 })
+      expect(evaluateClip(clip, 0, sources)?.position.x).toBeCloseTo(0, 6)
+      expect(evaluateClip(clip, 0.5, sources)?.position.x).toBeCloseTo(4, 6)
+      expect(evaluateClip(clip, 1, sources)?.position.x).toBeCloseTo(8, 6)
+      // Channels the track doesn't key come from the shot
+      expect(evaluateClip(clip, 0.5, sources)?.target).toEqual({ x: 0, y: 0, z: 0 })
+    })
+  })
+
+  describe('evaluateSequence', () => {
+    it('cuts straight between clips', () => {
+      const clips = [createClip('a', { duration: 2 }), createClip('b', { duration: 2 })]
+      const frame = evaluateSequence(clips, 2.1, sources)
+      expect(frame?.index).toBe(1)
+      expect(frame?.dissolve).toBeNull()
+      expect(frame?.camera?.position.x).toBe(5)
+    })
+
+    it('dissolves from the outgoing clip over the head of the incoming one', () => {
+      const clips = [
+        createClip('a', { duration: 2 }),
+        createClip('b', { duration: 2, transition: 'dissolve', transitionDuration: 1 }),
+      ]
+      const mid = evaluateSequence(clips, 2.25, sources)
+      expect(mid?.dissolve?.progress).toBeCloseTo(0.25, 6)
+      expect(mid?.dissolve?.from?.position.x).toBe(0)
+
+      expect(evaluateSequence(clips, 3.5, sources)?.dissolve).toBeNull()
+    })
+
+    it('never dissolves into the first clip', () => {
+      const clips = [createClip('a', { transition: 'dissolve' })]
+      expect(evaluateSequence(clips, 0.1, sources)?.dissolve).toBeNull()
+    })
+  })
+})
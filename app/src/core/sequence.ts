@@ -0,0 +1,186 @@
+/** Shot sequencing — clip timing, transitions and per-frame camera evaluation for the animatic */
+
+import type { AnimationTrack, Vec3 } from '../types/scene'
+import type { CameraFocus, CameraLens, CameraPath, CameraShot } from '../types/cameraPath'
+import type { SequenceClip } from '../types/sequence'
+import { evaluateTrack } from './animation'
+import { evaluatePath, toEvaluatorPath } from './cameraPath'
+import { applyLensChannel, createDefaultLens } from './lens'
+import { applyFocusChannel, createDefaultFocus } from './focus'
+
+// ── 1. Clips ─────────────────────────────────────────────────────────
+
+let clipIdCounter = 1
+
+export function generateClipId(): string {
+  return `clip_${Date.now()}_${clipIdCounter++}`
+}
+
+export function resetClipIdCounter(): void {
+  clipIdCounter = 1
+}
+
+export const DEFAULT_CLIP_DURATION = 3
+export const DEFAULT_DISSOLVE_DURATION = 0.5
+
+/** One frame at 24 fps; anything shorter can't be seen */
+export const MIN_CLIP_DURATION = 1 / 24
+
+export function createClip(shotId: string, overrides: Partial<Omit<SequenceClip, 'id' | 'shotId'>> = {}): SequenceClip {
+  return normalizeClip({
+    id: generateClipId(),
+    shotId,
+    duration: DEFAULT_CLIP_DURATION,
+    motion: 'static',
+    pathId: null,
+    trackIn: 0,
+    trackOut: 0,
+    transition: 'cut',
+    transitionDuration: DEFAULT_DISSOLVE_DURATION,
+    ...overrides,
+  })
+}
+
+/** Clamp a clip's timings: a dissolve can't outlast the clip it leads into */
+export function normalizeClip(clip: SequenceClip): SequenceClip {
+  const duration = Math.max(MIN_CLIP_DURATION, clip.duration)
+  return {
+    ...clip,
+    duration,
+    trackIn: Math.max(0, clip.trackIn),
+    trackOut: Math.max(0, clip.trackOut),
+    transitionDuration: Math.min(duration, Math.max(0, clip.transitionDuration)),
+  }
+}
+
+// ── 2. Timing ────────────────────────────────────────────────────────
+
+/** Dissolves overlap the start of the incoming clip, so the edit is just the sum of its clips */
+export function getSequenceDuration(clips: readonly SequenceClip[]): number {
+  return clips.reduce((sum, clip) => sum + clip.duration, 0)
+}
+
+/** Start time of each clip in the edit */
+export function getClipStartTimes(clips: readonly SequenceClip[]): number[] {
+  const starts: number[] = []
+  let t = 0
+  for (const clip of clips) {
+    starts.push(t)
+    t += clip.duration
+  }
+  return starts
+}
+
+/**
+ * The clip on screen at a time in the edit and how far into it we are.
+ * Times past the end hold the last frame of the last clip.
+ */
+export function locateClip(clips: readonly SequenceClip[], time: number): { index: number; localTime: number } | null {
+  if (clips.length === 0) return null
+
+  let start = 0
+  const t = Math.max(0, time)
+  for (let i = 0; i < clips.length; i++) {
+    const end = start + clips[i].duration
+    if (t < end) return { index: i, localTime: t - start }
+    start = end
+  }
+  const last = clips.length - 1
+  return { index: last, localTime: clips[last].duration }
+}
+
+// ── 3. Camera Evaluation ─────────────────────────────────────────────
+
+/** Where the camera is and what it's set to for one frame of a clip */
+export interface SequenceCameraState {
+  position: Vec3
+  target: Vec3
+  lens: CameraLens
+  focus: CameraFocus
+}
+
+/** Everything a clip can draw its camera move from */
+export interface SequenceSources {
+  shots: readonly CameraShot[]
+  paths: readonly CameraPath[]
+  cameraTrack?: AnimationTrack
+}
+
+/**
+ * Camera for a clip at a local time. The shot provides the framing; a path or
+ * camera-track segment, when set and still present, moves the camera across
+ * the clip's duration. Returns null when the clip's shot has been deleted.
+ */
+export function evaluateClip(clip: SequenceClip, localTime: number, sources: SequenceSources): SequenceCameraState | null {
+  const shot = sources.shots.find(s => s.id === clip.shotId)
+  if (!shot) return null
+
+  const state: SequenceCameraState = {
+    position: { ...shot.position },
+    target: { ...shot.target },
+    lens: shot.lens ? { ...shot.lens } : createDefaultLens(),
+    focus: shot.focus ? { ...shot.focus } : createDefaultFocus(),
+  }
+  const progress = clip.duration > 0 ? Math.min(1, Math.max(0, localTime / clip.duration)) : 0
+
+  if (clip.motion === 'path') {
+    const path = sources.paths.find(p => p.id === clip.pathId)
+    if (path && path.points.length >= 2) {
+      const pathState = evaluatePath(toEvaluatorPath(path), progress * path.duration)
+      state.position = pathState.position
+      state.target = pathState.lookAt
+      if (pathState.lens) state.lens = pathState.lens
+    }
+  } else if (clip.motion === 'track' && sources.cameraTrack) {
+    const time = clip.trackIn + (clip.trackOut - clip.trackIn) * progress
+    const values = evaluateTrack(sources.cameraTrack, time)
+    if (values.cameraPosition) state.position = values.cameraPosition
+    if (values.cameraTarget) state.target = values.cameraTarget
+    if (values.cameraLens) state.lens = applyLensChannel(state.lens, values.cameraLens)
+    if (values.cameraFocus) state.focus = applyFocusChannel(state.focus, values.cameraFocus)
+  }
+
+  return state
+}
+
+/** One frame of the edit */
+export interface SequenceFrame {
+  index: number
+  clip: SequenceClip
+  localTime: number
+  camera: SequenceCameraState | null
+  /** Set while a dissolve into this clip is running */
+  dissolve: {
+    /** 0 at the start of the dissolve, 1 when the incoming clip is fully up */
+    progress: number
+    /** The outgoing clip's last frame */
+    from: SequenceCameraState | null
+  } | null
+}
+
+export function evaluateSequence(
+  clips: readonly SequenceClip[],
+  time: number,
+  sources: SequenceSources,
+): SequenceFrame | null {
+  const located = locateClip(clips, time)
+  if (!located) return null
+
+  const { index, localTime } = located
+  const clip = clips[index]
+  const dissolving = index > 0
+    && clip.transition === 'dissolve'
+    && clip.transitionDuration > 0
+    && localTime < clip.transitionDuration
+
+  let dissolve: SequenceFrame['dissolve'] = null
+  if (dissolving) {
+    const previous = clips[index - 1]
+    dissolve = {
+      progress: localTime / clip.transitionDuration,
+      from: evaluateClip(previous, previous.duration, sources),
+    }
+  }
+
+  return { index, clip, localTime, camera: evaluateClip(clip, localTime, sources), dissolve }
+}
@@ -7,6 +7,7 @@ import {
   uploadScene,
 } from './serialization'
 import { createDefaultEnvironment, createSceneObject, resetIdCounter } from './sceneOperations'
+import { createClip } from './sequence'
 import type { SceneData } from '../types/scene'
 
 describe('serialization', () => {
@@ -19,7 +20,7 @@ describe('serialization', () => {
       const env = createDefaultEnvironment()
       const data = createSceneData([], env, 'Test Scene')
       expect(data.metadata.name).toBe('Test Scene')
-      expect(data.metadata.version).toBe(3)
+      expect(data.metadata.version).toBe(5)
       expect(data.metadata.createdAt).toBeTruthy()
       expect(data.metadata.updatedAt).toBeTruthy()
     })
@@ -579,6 +580,40 @@ describe('serialization', () => {
       expect(result.shots![0].target).toEqual({ x: 0, y: 0, z: 0 })
     })
 
+    it('round-trips the shot lens and clamps bad values', () => {
+      const data = JSON.stringify({
+        metadata: { name: 'T', version: 4 },
+        objects: [],
+        shots: [
+          { id: 's1', name: 'Wide', lens: { focalLength: 35, sensor: 'super35', roll: 5 }, aspect: 1.85 },
+          { id: 's2', name: 'Odd', lens: { focalLength: 2000, sensor: 'vhs', roll: -400 }, aspect: -1 },
+          { id: 's3', name: 'Legacy' },
+        ],
+      })
+      const [wide, odd, legacy] = deserializeScene(data).shots!
+      expect(wide.lens).toEqual({ focalLength: 35, sensor: 'super35', roll: 5 })
+      expect(wide.aspect).toBe(1.85)
+      expect(odd.lens).toEqual({ focalLength: 300, sensor: 'full-frame', roll: -90 })
+      expect(odd.aspect).toBeUndefined()
+      expect(legacy.lens).toBeUndefined()
+    })
+
+    it('round-trips the shot focus and clamps bad values', () => {
+      const data = JSON.stringify({
+        metadata: { name: 'T', version: 4 },
+        objects: [],
+        shots: [
+          { id: 's1', name: 'Close', focus: { distance: 1.2, fStop: 1.4, targetId: 'obj_1' } },
+          { id: 's2', name: 'Odd', focus: { distance: -3, fStop: 90, targetId: 7 } },
+          { id: 's3', name: 'Legacy' },
+        ],
+      })
+      const [close, odd, legacy] = deserializeScene(data).shots!
+      expect(close.focus).toEqual({ distance: 1.2, fStop: 1.4, targetId: 'obj_1' })
+      expect(odd.focus).toEqual({ distance: 0.1, fStop: 32, targetId: null })
+      expect(legacy.focus).toBeUndefined()
+    })
+
     it('handles scene with no shots field', () => {
       const data = JSON.stringify({
         metadata: { name: 'T', version: 3 },
@@ -589,6 +624,63 @@ describe('serialization', () => {
     })
   })
 
+  describe('shot sequence serialization', () => {
+    it('saves the sequence only when it has clips', () => {
+      const env = createDefaultEnvironment()
+      const clips = [createClip('s1', { duration: 2, transition: 'dissolve' })]
+      const data = createSceneData([], env, 'Test', undefined, undefined, undefined, undefined, undefined, clips)
+      expect(data.sequence).toEqual(clips)
+      expect(data.sequence).not.toBe(clips)
+
+      const empty = createSceneData([], env, 'Test', undefined, undefined, undefined, undefined, undefined, [])
+      expect(empty.sequence).toBeUndefined()
+    })
+
+    it('round-trips clips and repairs bad fields', () => {
+      const data = JSON.stringify({
+        metadata: { name: 'T', version: 4 },
+        objects: [],
+        sequence: [
+          {
+            id: 'c1', shotId: 's1', duration: 2, motion: 'track', pathId: null,
+            trackIn: 1, trackOut: 3, transition: 'cut', transitionDuration: 0.5,
+          },
+          { id: 'c2', shotId: 's2', duration: 'long', motion: 'zoom', transition: 'wipe', transitionDuration: 9 },
+          { id: 'c3' },
+          'garbage',
+        ],
+      })
+      const sequence = deserializeScene(data).sequence!
+      expect(sequence).toHaveLength(2)
+      expect(sequence[0]).toMatchObject({ motion: 'track', trackIn: 1, trackOut: 3 })
+      expect(sequence[1]).toMatchObject({
+        duration: 3, motion: 'static', pathId: null, transition: 'cut', transitionDuration: 3,
+      })
+    })
+  })
+
+  describe('post-processing migration', () => {
+    it('adds depth of field to scenes saved before it existed', () => {
+      const data = JSON.stringify({
+        metadata: { name: 'T', version: 4 },
+        objects: [],
+        postProcessing: { enabled: true, bloom: { enabled: true } },
+      })
+      const pp = deserializeScene(data).postProcessing!
+      expect(pp.bloom.enabled).toBe(true)
+      expect(pp.depthOfField).toEqual({ enabled: false, bokehScale: 1 })
+    })
+
+    it('keeps saved depth of field settings', () => {
+      const data = JSON.stringify({
+        metadata: { name: 'T', version: 4 },
+        objects: [],
+        postProcessing: { enabled: true, depthOfField: { enabled: true, bokehScale: 2 } },
+      })
+      expect(deserializeScene(data).postProcessing!.depthOfField).toEqual({ enabled: true, bokehScale: 2 })
+    })
+  })
+
   describe('camera keyframe migration', () => {
     it('preserves cameraPosition keyframes through save/load roundtrip', () => {
       const env = createDefaultEnvironment()
@@ -668,6 +760,77 @@ describe('serialization', () => {
       expect(restored.animationTracks![1].objectId).toBe('obj_1')
     })
 
+    it('preserves bezier handles and the newer easings', () => {
+      const tracks = [
+        {
+          id: 'track_1',
+          objectId: 'obj_1',
+          keyframes: [
+            { id: 'kf_1', time: 0, property: 'position' as const, value: { x: 0, y: 0, z: 0 }, easing: 'linear' as const },
+            { id: 'kf_2', time: 1, property: 'position' as const, value: { x: 1, y: 0, z: 0 }, easing: 'bezier' as const, bezier: [0.1, 0.8, 0.3, 1.2] as [number, number, number, number] },
+            { id: 'kf_3', time: 2, property: 'position' as const, value: { x: 2, y: 0, z: 0 }, easing: 'bounceOut' as const },
+          ],
+        },
+      ]
+      const restored = deserializeScene(serializeScene(createSceneData([], createDefaultEnvironment(), 'T', undefined, undefined, tracks, 5)))
+      const keyframes = restored.animationTracks![0].keyframes
+      expect(keyframes[1]).toMatchObject({ easing: 'bezier', bezier: [0.1, 0.8, 0.3, 1.2] })
+      expect(keyframes[2].easing).toBe('bounceOut')
+    })
+
+    it('migrates bezier handles from older or hand-edited files', () => {
+      const data = JSON.stringify({
+        metadata: { name: 'T', version: 4 },
+        objects: [],
+        animationTracks: [
+          {
+            id: 'track_1',
+            objectId: 'obj_1',
+            keyframes: [
+              { id: 'kf_1', time: 0, property: 'position', value: { x: 0, y: 0, z: 0 }, easing: 'easeIn', bezier: [0, 0, 1, 1] },
+              { id: 'kf_2', time: 1, property: 'position', value: { x: 1, y: 0, z: 0 }, easing: 'bezier', bezier: [1.4, 0.5, -0.2, 0.5] },
+              { id: 'kf_3', time: 2, property: 'position', value: { x: 2, y: 0, z: 0 }, easing: 'bezier', bezier: [0.5, 'x', 0.5, 1] },
+              { id: 'kf_4', time: 3, property: 'position', value: { x: 3, y: 0, z: 0 }, easing: 'wobble' },
+            ],
+          },
+        ],
+      })
+
+      const keyframes = deserializeScene(data).animationTracks![0].keyframes
+      expect(keyframes).toHaveLength(3)
+      expect(keyframes[0]).toEqual(expect.objectContaining({ easing: 'easeIn' }))
+      expect(keyframes[0].bezier).toBeUndefined()
+      expect(keyframes[1].bezier).toEqual([1, 0.5, 0, 0.5])
+      expect(keyframes[2].easing).toBe('linear')
+      expect(keyframes[2].bezier).toBeUndefined()
+    })
+
+    it('keeps channel keys and tangents, dropping malformed curve fields', () => {
+      const data = JSON.stringify({
+        metadata: { name: 'T', version: 4 },
+        objects: [],
+        animationTracks: [
+          {
+            id: 'track_1',
+            objectId: 'obj_1',
+            keyframes: [
+              { id: 'kf_1', time: 0, property: 'position', value: { x: 0, y: 0, z: 0 }, easing: 'linear', channel: 'y', tangent: 'broken', inSlope: 2, outSlope: -1 },
+              { id: 'kf_2', time: 1, property: 'position', value: { x: 1, y: 0, z: 0 }, easing: 'linear', channel: 'w', tangent: 'wavy', inSlope: 3 },
+              { id: 'kf_3', time: 2, property: 'position', value: { x: 2, y: 0, z: 0 }, easing: 'linear', channel: 'x', tangent: 'broken', inSlope: 'steep', outSlope: 1 },
+            ],
+          },
+        ],
+      })
+
+      const keyframes = deserializeScene(data).animationTracks![0].keyframes
+      expect(keyframes[0]).toMatchObject({ channel: 'y', tangent: 'broken', inSlope: 2, outSlope: -1 })
+      expect(keyframes[1]).not.toHaveProperty('channel')
+      expect(keyframes[1]).not.toHaveProperty('tangent')
+      expect(keyframes[1]).not.toHaveProperty('inSlope')
+      expect(keyframes[2]).toMatchObject({ channel: 'x', tangent: 'broken', outSlope: 1 })
+      expect(keyframes[2]).not.toHaveProperty('inSlope')
+    })
+
     it('drops keyframes with unknown property types', () => {
       const data = JSON.stringify({
         metadata: { name: 'T', version: 3 },
@@ -708,5 +871,95 @@ describe('serialization', () => {
       const kf = result.animationTracks![0].keyframes[0]
       expect(kf.value).toEqual({ x: 5, y: 0, z: 0 }) // y,z default to 0
     })
+
+    it('keeps camera focus keyframes', () => {
+      const data = JSON.stringify({
+        metadata: { name: 'T', version: 4 },
+        objects: [],
+        animationTracks: [{
+          id: 'track_cam',
+          objectId: '__camera__',
+          keyframes: [
+            { id: 'kf_1', time: 0, property: 'cameraFocus', value: { x: 2, y: 1.4, z: 0 }, easing: 'linear' },
+            { id: 'kf_2', time: 2, property: 'cameraFocus', value: { x: 8, y: 1.4, z: 0 }, easing: 'easeInOut' },
+          ],
+        }],
+      })
+
+      const keyframes = deserializeScene(data).animationTracks![0].keyframes
+      expect(keyframes.map(kf => kf.value.x)).toEqual([2, 8])
+    })
+  })
+
+  describe('light objects', () => {
+    it('round-trips light settings', () => {
+      const spot = createSceneObject('spotLight', [])
+      spot.light = { ...spot.light!, intensity: 42, outerConeAngle: 45, innerConeAngle: 10, shadowMapSize: 2048 }
+      const restored = deserializeScene(serializeScene(createSceneData([spot], createDefaultEnvironment())))
+
+      expect(restored.objects[0].type).toBe('spotLight')
+      expect(restored.objects[0].light).toEqual(spot.light)
+    })
+
+    it('fills in missing light settings from type defaults', () => {
+      const data = JSON.stringify({
+        metadata: { name: 'T', version: 4 },
+        objects: [
+          { id: 'l1', name: 'Key', type: 'pointLight', color: '#ff0000' },
+          { id: 'l2', name: 'Spot', type: 'spotLight', light: { intensity: 3, innerConeAngle: 80, outerConeAngle: 40, shadowMapSize: 999 } },
+        ],
+      })
+
+      const [point, spot] = deserializeScene(data).objects
+      expect(point.light).toMatchObject({ color: '#ff0000', intensity: 10, decay: 2 })
+      expect(spot.light).toMatchObject({ intensity: 3, outerConeAngle: 40, innerConeAngle: 40, shadowMapSize: 1024 })
+    })
+
+    it('does not attach light settings to meshes', () => {
+      const data = JSON.stringify({
+        metadata: { name: 'T', version: 3 },
+        objects: [{ id: 'b1', name: 'Box', type: 'box', light: { intensity: 5 } }],
+      })
+
+      expect(deserializeScene(data).objects[0].light).toBeUndefined()
+    })
+
+    it('keeps light animation keyframes', () => {
+      const data = JSON.stringify({
+        metadata: { name: 'T', version: 4 },
+        objects: [],
+        animationTracks: [{
+          id: 'track_1',
+          objectId: 'l1',
+          keyframes: [
+            { id: 'kf_1', time: 0, property: 'lightColor', value: { x: 1, y: 0.5, z: 0 }, easing: 'linear' },
+            { id: 'kf_2', time: 1, property: 'lightParams', value: { x: 20, y: 0, z: 30 }, easing: 'linear' },
+          ],
+        }],
+      })
+
+      const keyframes = deserializeScene(data).animationTracks![0].keyframes
+      expect(keyframes.map(kf => kf.property)).toEqual(['lightColor', 'lightParams'])
+    })
+
+    it('keeps property path keyframes, including the environment track', () => {
+      const data = JSON.stringify({
+        metadata: { name: 'T', version: 4 },
+        objects: [],
+        animationTracks: [{
+          id: 'track_1',
+          objectId: '__environment__',
+          keyframes: [
+            { id: 'kf_1', time: 0, property: 'environment.fogFar', value: { x: 40, y: 0, z: 0 }, easing: 'linear' },
+            { id: 'kf_2', time: 1, property: 'environment.backgroundColor', value: { x: 0, y: 0, z: 1 }, easing: 'step' },
+            { id: 'kf_3', time: 1, property: 'material.metalness', value: { x: 1, y: 0, z: 0 }, easing: 'linear' },
+          ],
+        }],
+      })
+
+      const [track] = deserializeScene(data).animationTracks!
+      expect(track.objectId).toBe('__environment__')
+      expect(track.keyframes.map(kf => kf.property)).toEqual(['environment.fogFar', 'environment.backgroundColor'])
+    })
   })
 })
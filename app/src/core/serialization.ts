@@ -8,15 +8,26 @@ import type {
   PostProcessingSettings,
   AnimationTrack,
   AnimationKeyframe,
+  BezierHandles,
   TextureMap,
   Vec2,
+  LightData,
+  LightType,
 } from '../types/scene'
-import type { CameraShot } from '../types/cameraPath'
+import type { CameraFocus, CameraLens, CameraShot } from '../types/cameraPath'
+import type { SequenceClip } from '../types/sequence'
 import { createDefaultEnvironment, createDefaultMaterial } from './sceneOperations'
+import { LIGHT_TYPES, SHADOW_MAP_SIZES, createDefaultLight, isLightType } from './lights'
+import { clampFocalLength, clampRoll, createDefaultLens, isSensorId } from './lens'
+import { clampFStop, clampFocusDistance, createDefaultFocus } from './focus'
+import { createClip, normalizeClip } from './sequence'
+import { clampBezier, isEasingType, isTangentMode } from './animation'
+import { isPropertyPath } from './propertyPaths'
 import { createDefaultPostProcessing } from '../stores/usePostProcessingStore'
+import { registerBlobUrl } from './blobStore'
 
 // Current schema version for forward compatibility
-const SCENE_VERSION = 3
+const SCENE_VERSION = 5
 
 // ── Save ──────────────────────────────────────────────────────────────
 
@@ -29,6 +40,7 @@ export function createSceneData(
   animationTracks?: AnimationTrack[],
   animationDuration?: number,
   shots?: CameraShot[],
+  sequence?: SequenceClip[],
 ): SceneData {
   const now = new Date().toISOString()
 
@@ -60,6 +72,10 @@ export function createSceneData(
     }))
   }
 
+  if (sequence && sequence.length > 0) {
+    data.sequence = structuredClone(sequence)
+  }
+
   return data
 }
 
@@ -142,6 +158,13 @@ function validateAndMigrateScene(data: unknown): SceneData {
       .filter((s): s is CameraShot => s !== null)
   }
 
+  // Migration: add the shot sequence if present
+  if (Array.isArray(scene.sequence)) {
+    result.sequence = (scene.sequence as unknown[])
+      .map(migrateClip)
+      .filter((c): c is SequenceClip => c !== null)
+  }
+
   return result
 }
 
@@ -163,7 +186,7 @@ function migrateObject(raw: unknown): SceneObject {
     throw new Error('Invalid scene object: missing type')
   }
 
-  const VALID_OBJECT_TYPES = ['box', 'sphere', 'cylinder', 'cone', 'plane', 'torus', 'model']
+  const VALID_OBJECT_TYPES = ['box', 'sphere', 'cylinder', 'cone', 'plane', 'torus', 'model', ...LIGHT_TYPES]
   if (!VALID_OBJECT_TYPES.includes(obj.type)) {
     throw new Error(`Invalid scene object: unknown type "${obj.type}"`)
   }
@@ -207,6 +230,11 @@ function migrateObject(raw: unknown): SceneObject {
     result.modelFormat = obj.modelFormat as SceneObject['modelFormat']
   }
 
+  // Migration: light objects (v4) get light settings, defaulting missing fields
+  if (isLightType(result.type)) {
+    result.light = migrateLight(obj.light, result.type, color)
+  }
+
   return result
 }
 
@@ -261,6 +289,34 @@ function migrateMaterial(
   return result
 }
 
+function migrateLight(raw: unknown, type: LightType, fallbackColor: string): LightData {
+  const defaults = createDefaultLight(type)
+  if (!raw || typeof raw !== 'object') return { ...defaults, color: fallbackColor }
+
+  const l = raw as Record<string, unknown>
+  const num = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+  const outerConeAngle = Math.min(90, Math.max(0, num(l.outerConeAngle, defaults.outerConeAngle)))
+
+  return {
+    color: typeof l.color === 'string' ? l.color : fallbackColor,
+    intensity: Math.max(0, num(l.intensity, defaults.intensity)),
+    range: Math.max(0, num(l.range, defaults.range)),
+    decay: num(l.decay, defaults.decay),
+    outerConeAngle,
+    innerConeAngle: Math.min(outerConeAngle, Math.max(0, num(l.innerConeAngle, defaults.innerConeAngle))),
+    width: Math.max(0, num(l.width, defaults.width)),
+    height: Math.max(0, num(l.height, defaults.height)),
+    groundColor: typeof l.groundColor === 'string' ? l.groundColor : defaults.groundColor,
+    castShadow: typeof l.castShadow === 'boolean' ? l.castShadow : defaults.castShadow,
+    shadowBias: num(l.shadowBias, defaults.shadowBias),
+    shadowMapSize: SHADOW_MAP_SIZES.includes(l.shadowMapSize as LightData['shadowMapSize'])
+      ? l.shadowMapSize as LightData['shadowMapSize'] : defaults.shadowMapSize,
+    shadowRadius: Math.max(0, num(l.shadowRadius, defaults.shadowRadius)),
+  }
+}
+
 function migrateEnvironment(raw: unknown): EnvironmentSettings {
   if (!raw || typeof raw !== 'object') return createDefaultEnvironment()
 
@@ -298,11 +354,17 @@ function migratePostProcessing(raw: unknown): PostProcessingSettings {
     ? migrateVignette(pp.vignette as Record<string, unknown>)
     : defaults.vignette
 
+  // Scenes from before depth of field have no depthOfField block
+  const depthOfField = pp.depthOfField && typeof pp.depthOfField === 'object'
+    ? migrateDepthOfField(pp.depthOfField as Record<string, unknown>)
+    : defaults.depthOfField
+
   return {
     enabled: typeof pp.enabled === 'boolean' ? pp.enabled : defaults.enabled,
     bloom,
     ssao,
     vignette,
+    depthOfField,
   }
 }
 
@@ -332,6 +394,13 @@ function migrateVignette(raw: Record<string, unknown>) {
   }
 }
 
+function migrateDepthOfField(raw: Record<string, unknown>) {
+  return {
+    enabled: typeof raw.enabled === 'boolean' ? raw.enabled : false,
+    bokehScale: typeof raw.bokehScale === 'number' ? raw.bokehScale : 1,
+  }
+}
+
 // ── Texture/Vec2 Migration Helpers ───────────────────────────────────
 
 function migrateVec2(
@@ -387,19 +456,42 @@ function migrateKeyframe(raw: unknown): AnimationKeyframe | null {
   if (typeof kf.id !== 'string' || typeof kf.time !== 'number') return null
 
   const property = typeof kf.property === 'string' ? kf.property : 'position'
-  if (!['position', 'rotation', 'scale', 'cameraPosition', 'cameraTarget'].includes(property)) return null
+  const VALID_PROPERTIES = ['position', 'rotation', 'scale', 'cameraPosition', 'cameraTarget', 'cameraLens', 'cameraFocus', 'lightColor', 'lightParams']
+  if (!VALID_PROPERTIES.includes(property) && !isPropertyPath(property)) return null
 
   const value = migrateVec3(kf.value, { x: 0, y: 0, z: 0 })
   const easing = typeof kf.easing === 'string' ? kf.easing : 'linear'
-  if (!['linear', 'easeIn', 'easeOut', 'easeInOut'].includes(easing)) return null
+  if (!isEasingType(easing)) return null
 
-  return {
+  const keyframe: AnimationKeyframe = {
     id: kf.id,
     time: kf.time,
     property: property as AnimationKeyframe['property'],
     value,
-    easing: easing as AnimationKeyframe['easing'],
+    easing,
+  }
+
+  // Handles only mean something on bezier keys; a bezier key without usable handles becomes linear
+  if (easing === 'bezier') {
+    const bezier = migrateBezier(kf.bezier)
+    if (bezier) keyframe.bezier = bezier
+    else keyframe.easing = 'linear'
   }
+
+  // Channel and curve fields from the graph editor; unknown values fall back to whole-Vec3 eased keys
+  if (kf.channel === 'x' || kf.channel === 'y' || kf.channel === 'z') keyframe.channel = kf.channel
+  if (isTangentMode(kf.tangent)) keyframe.tangent = kf.tangent
+  if (keyframe.tangent === 'broken') {
+    if (typeof kf.inSlope === 'number' && Number.isFinite(kf.inSlope)) keyframe.inSlope = kf.inSlope
+    if (typeof kf.outSlope === 'number' && Number.isFinite(kf.outSlope)) keyframe.outSlope = kf.outSlope
+  }
+  return keyframe
+}
+
+function migrateBezier(raw: unknown): BezierHandles | null {
+  if (!Array.isArray(raw) || raw.length !== 4) return null
+  if (!raw.every(v => typeof v === 'number' && Number.isFinite(v))) return null
+  return clampBezier(raw as BezierHandles)
 }
 
 // ── Shot Migration ──────────────────────────────────────────────────
@@ -410,7 +502,7 @@ function migrateShot(raw: unknown): CameraShot | null {
   const s = raw as Record<string, unknown>
   if (typeof s.id !== 'string' || typeof s.name !== 'string') return null
 
-  return {
+  const shot: CameraShot = {
     id: s.id,
     name: s.name,
     position: migrateVec3(s.position, { x: 5, y: 5, z: 5 }),
@@ -419,6 +511,58 @@ function migrateShot(raw: unknown): CameraShot | null {
     notes: typeof s.notes === 'string' ? s.notes : undefined,
     // thumbnail is intentionally not restored (blob URLs aren't portable)
   }
+
+  // Shots from before the lens model have no lens; they keep the camera's current one
+  if (s.lens && typeof s.lens === 'object') shot.lens = migrateLens(s.lens as Record<string, unknown>)
+  if (typeof s.aspect === 'number' && Number.isFinite(s.aspect) && s.aspect > 0) shot.aspect = s.aspect
+  if (s.focus && typeof s.focus === 'object') shot.focus = migrateFocus(s.focus as Record<string, unknown>)
+
+  return shot
+}
+
+function migrateLens(raw: Record<string, unknown>): CameraLens {
+  const defaults = createDefaultLens()
+  return {
+    focalLength: typeof raw.focalLength === 'number' && Number.isFinite(raw.focalLength)
+      ? clampFocalLength(raw.focalLength) : defaults.focalLength,
+    sensor: isSensorId(raw.sensor) ? raw.sensor : defaults.sensor,
+    roll: typeof raw.roll === 'number' && Number.isFinite(raw.roll) ? clampRoll(raw.roll) : defaults.roll,
+  }
+}
+
+function migrateFocus(raw: Record<string, unknown>): CameraFocus {
+  const defaults = createDefaultFocus()
+  return {
+    distance: typeof raw.distance === 'number' && Number.isFinite(raw.distance)
+      ? clampFocusDistance(raw.distance) : defaults.distance,
+    fStop: typeof raw.fStop === 'number' && Number.isFinite(raw.fStop) ? clampFStop(raw.fStop) : defaults.fStop,
+    targetId: typeof raw.targetId === 'string' ? raw.targetId : null,
+  }
+}
+
+// ── Sequence Migration ──────────────────────────────────────────────
+
+function migrateClip(raw: unknown): SequenceClip | null {
+  if (!raw || typeof raw !== 'object') return null
+
+  const c = raw as Record<string, unknown>
+  if (typeof c.id !== 'string' || typeof c.shotId !== 'string') return null
+
+  const defaults = createClip(c.shotId)
+  const finite = (value: unknown, fallback: number) =>
+    typeof value === 'number' && Number.isFinite(value) ? value : fallback
+
+  return normalizeClip({
+    id: c.id,
+    shotId: c.shotId,
+    duration: finite(c.duration, defaults.duration),
+    motion: c.motion === 'path' || c.motion === 'track' ? c.motion : 'static',
+    pathId: typeof c.pathId === 'string' ? c.pathId : null,
+    trackIn: finite(c.trackIn, defaults.trackIn),
+    trackOut: finite(c.trackOut, defaults.trackOut),
+    transition: c.transition === 'dissolve' ? 'dissolve' : 'cut',
+    transitionDuration: finite(c.transitionDuration, defaults.transitionDuration),
+  })
 }
 
 // ── File Operations (browser) ─────────────────────────────────────────
@@ -447,6 +591,7 @@ export function uploadGltf(): Promise<{ name: string; url: string }> {
         return
       }
       const url = URL.createObjectURL(file)
+      registerBlobUrl(url, file)
       const name = file.name.replace(/\.(glb|gltf)$/i, '')
       resolve({ name, url })
     }
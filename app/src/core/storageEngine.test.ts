@@ -15,6 +15,7 @@ import {
   formatStorageSize,
   InMemoryAdapter,
   MAX_SCENE_SIZE,
+  diffBlobReferences,
 } from './storageEngine'
 import type { SavedSceneMetadata, SceneFilterOptions } from '../types/storage'
 
@@ -698,7 +699,24 @@ describe('MAX_SCENE_SIZE', () => {
   })
 })
 
-// ── 15. InMemoryAdapter ─────────────────────────────────────────────
+// ── 15. diffBlobReferences ──────────────────────────────────────────
+
+describe('diffBlobReferences', () => {
+  it('reports added and removed hashes', () => {
+    expect(diffBlobReferences(['a', 'b'], ['b', 'c'])).toEqual({ retained: ['c'], released: ['a'] })
+  })
+
+  it('ignores duplicates', () => {
+    expect(diffBlobReferences([], ['a', 'a'])).toEqual({ retained: ['a'], released: [] })
+    expect(diffBlobReferences(['a', 'a'], [])).toEqual({ retained: [], released: ['a'] })
+  })
+
+  it('returns nothing when references are unchanged', () => {
+    expect(diffBlobReferences(['a'], ['a'])).toEqual({ retained: [], released: [] })
+  })
+})
+
+// ── 16. InMemoryAdapter ─────────────────────────────────────────────
 
 describe('InMemoryAdapter', () => {
   let adapter: InMemoryAdapter
@@ -825,4 +843,69 @@ describe('InMemoryAdapter', () => {
       expect(await adapter.list()).toEqual([])
     })
   })
+  describe('blobs', () => {
+    const blob = new Blob(['bytes'])
+
+    it('stores and retrieves blobs by hash', async () => {
+      await adapter.putBlob('h1', blob)
+      expect(await adapter.hasBlob('h1')).toBe(true)
+      const stored = await adapter.getBlob('h1')
+      expect(stored).toMatchObject({ hash: 'h1', blob, refCount: 0 })
+      expect(await adapter.getBlob('missing')).toBeNull()
+    })
+
+    it('keeps the existing record when the same hash is put again', async () => {
+      await adapter.putBlob('h1', blob)
+      await adapter.save('s1', 'd', makeMetadata({ id: 's1' }), ['h1'])
+      await adapter.putBlob('h1', new Blob(['other']))
+      expect((await adapter.getBlob('h1'))!.refCount).toBe(1)
+    })
+
+    it('counts one reference per scene', async () => {
+      await adapter.putBlob('h1', blob)
+      await adapter.save('s1', 'd', makeMetadata({ id: 's1' }), ['h1', 'h1'])
+      await adapter.save('s2', 'd', makeMetadata({ id: 's2' }), ['h1'])
+      expect((await adapter.getBlob('h1'))!.refCount).toBe(2)
+
+      // Re-saving a scene with the same references does not double count
+      await adapter.save('s1', 'd2', makeMetadata({ id: 's1' }), ['h1'])
+      expect((await adapter.getBlob('h1'))!.refCount).toBe(2)
+    })
+
+    it('frees a blob when the last scene using it is deleted', async () => {
+      await adapter.putBlob('h1', blob)
+      await adapter.save('s1', 'd', makeMetadata({ id: 's1' }), ['h1'])
+      await adapter.save('s2', 'd', makeMetadata({ id: 's2' }), ['h1'])
+
+      await adapter.delete('s1')
+      expect(await adapter.hasBlob('h1')).toBe(true)
+      await adapter.delete('s2')
+      expect(await adapter.hasBlob('h1')).toBe(false)
+    })
+
+    it('frees a blob when a re-save drops the reference', async () => {
+      await adapter.putBlob('h1', blob)
+      await adapter.putBlob('h2', blob)
+      await adapter.save('s1', 'd', makeMetadata({ id: 's1' }), ['h1'])
+      await adapter.save('s1', 'd', makeMetadata({ id: 's1' }), ['h2'])
+      expect(await adapter.hasBlob('h1')).toBe(false)
+      expect((await adapter.getBlob('h2'))!.refCount).toBe(1)
+    })
+
+    it('deletes only unreferenced blobs on request', async () => {
+      await adapter.putBlob('h1', blob)
+      await adapter.putBlob('h2', blob)
+      await adapter.save('s1', 'd', makeMetadata({ id: 's1' }), ['h1'])
+
+      await adapter.deleteUnreferencedBlobs(['h1', 'h2', 'missing'])
+      expect(await adapter.hasBlob('h1')).toBe(true)
+      expect(await adapter.hasBlob('h2')).toBe(false)
+    })
+
+    it('clear removes blobs', async () => {
+      await adapter.putBlob('h1', blob)
+      await adapter.clear()
+      expect(await adapter.hasBlob('h1')).toBe(false)
+    })
+  })
 })
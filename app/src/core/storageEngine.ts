@@ -6,6 +6,7 @@ import type {
   SceneSortOptions,
   AutoSaveConfig,
   StorageAdapter,
+  StoredBlob,
 } from '../types/storage'
 
 // ── ID Generation (pure) ──────────────────────────────────────────────
@@ -293,6 +294,22 @@ export function validateSceneMetadata(metadata: SavedSceneMetadata): string[] {
   return errors
 }
 
+// ── Blob References (pure) ────────────────────────────────────────────
+
+/** Compare a scene's previous and new blob references.
+ *  `retained` blobs gain a reference, `released` blobs lose one. */
+export function diffBlobReferences(
+  previous: string[],
+  next: string[],
+): { retained: string[]; released: string[] } {
+  const prevSet = new Set(previous)
+  const nextSet = new Set(next)
+  return {
+    retained: [...nextSet].filter((hash) => !prevSet.has(hash)),
+    released: [...prevSet].filter((hash) => !nextSet.has(hash)),
+  }
+}
+
 // ── Size Utilities (pure) ─────────────────────────────────────────────
 
 /** Maximum allowed scene file size: 100 MB */
@@ -333,11 +350,35 @@ export function formatStorageSize(bytes: number): string {
 // ── IndexedDB Adapter (browser) ───────────────────────────────────────
 
 /* v8 ignore start */
+interface SceneRecord {
+  id: string
+  data: string
+  metadata: SavedSceneMetadata
+  blobHashes?: string[]
+}
+
+/** Add `delta` to each blob's refcount inside an open transaction, freeing blobs that reach zero */
+function adjustBlobRefCounts(store: IDBObjectStore, hashes: string[], delta: number): void {
+  for (const hash of hashes) {
+    const request = store.get(hash)
+    request.onsuccess = () => {
+      const record = request.result as StoredBlob | undefined
+      if (!record) return
+      const refCount = record.refCount + delta
+      if (refCount <= 0) {
+        store.delete(hash)
+      } else {
+        store.put({ ...record, refCount })
+      }
+    }
+  }
+}
+
 export class IndexedDBAdapter implements StorageAdapter {
   private dbName: string
   private dbVersion: number
 
-  constructor(dbName = '3dscene-cowboy', dbVersion = 1) {
+  constructor(dbName = '3dscene-cowboy', dbVersion = 2) {
     this.dbName = dbName
     this.dbVersion = dbVersion
   }
@@ -358,6 +399,9 @@ export class IndexedDBAdapter implements StorageAdapter {
           })
           versionStore.createIndex('sceneId', 'sceneId', { unique: false })
         }
+        if (!db.objectStoreNames.contains('blobs')) {
+          db.createObjectStore('blobs', { keyPath: 'hash' })
+        }
       }
 
       request.onsuccess = () => resolve(request.result)
@@ -369,12 +413,23 @@ export class IndexedDBAdapter implements StorageAdapter {
     id: string,
     data: string,
     metadata: SavedSceneMetadata,
+    blobHashes: string[] = [],
   ): Promise<void> {
     const db = await this.getDB()
     return new Promise((resolve, reject) => {
-      const tx = db.transaction('scenes', 'readwrite')
+      const tx = db.transaction(['scenes', 'blobs'], 'readwrite')
       const store = tx.objectStore('scenes')
-      store.put({ id, data, metadata })
+      const previous = store.get(id)
+      previous.onsuccess = () => {
+        const prevHashes = (previous.result as SceneRecord | undefined)?.blobHashes ?? []
+        const record: SceneRecord = { id, data, metadata, blobHashes: [...new Set(blobHashes)] }
+        store.put(record)
+
+        const { retained, released } = diffBlobReferences(prevHashes, blobHashes)
+        const blobs = tx.objectStore('blobs')
+        adjustBlobRefCounts(blobs, retained, 1)
+        adjustBlobRefCounts(blobs, released, -1)
+      }
       tx.oncomplete = () => resolve()
       tx.onerror = () => reject(tx.error)
     })
@@ -403,9 +458,16 @@ export class IndexedDBAdapter implements StorageAdapter {
   async delete(id: string): Promise<void> {
     const db = await this.getDB()
     return new Promise((resolve, reject) => {
-      const tx = db.transaction('scenes', 'readwrite')
+      const tx = db.transaction(['scenes', 'blobs'], 'readwrite')
       const store = tx.objectStore('scenes')
-      store.delete(id)
+      const previous = store.get(id)
+      previous.onsuccess = () => {
+        const record = previous.result as SceneRecord | undefined
+        store.delete(id)
+        if (record?.blobHashes) {
+          adjustBlobRefCounts(tx.objectStore('blobs'), record.blobHashes, -1)
+        }
+      }
       tx.oncomplete = () => resolve()
       tx.onerror = () => reject(tx.error)
     })
@@ -464,9 +526,65 @@ export class IndexedDBAdapter implements StorageAdapter {
   async clear(): Promise<void> {
     const db = await this.getDB()
     return new Promise((resolve, reject) => {
-      const tx = db.transaction(['scenes', 'versions'], 'readwrite')
+      const tx = db.transaction(['scenes', 'versions', 'blobs'], 'readwrite')
       tx.objectStore('scenes').clear()
       tx.objectStore('versions').clear()
+      tx.objectStore('blobs').clear()
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+  }
+
+  async putBlob(hash: string, blob: Blob): Promise<void> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('blobs', 'readwrite')
+      const store = tx.objectStore('blobs')
+      // Content-addressed: an existing record already holds these bytes
+      const request = store.count(hash)
+      request.onsuccess = () => {
+        if (request.result === 0) {
+          const record: StoredBlob = { hash, blob, refCount: 0 }
+          store.put(record)
+        }
+      }
+      tx.oncomplete = () => resolve()
+      tx.onerror = () => reject(tx.error)
+    })
+  }
+
+  async getBlob(hash: string): Promise<StoredBlob | null> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('blobs', 'readonly')
+      const request = tx.objectStore('blobs').get(hash)
+      request.onsuccess = () => resolve((request.result as StoredBlob | undefined) ?? null)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async hasBlob(hash: string): Promise<boolean> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('blobs', 'readonly')
+      const request = tx.objectStore('blobs').count(hash)
+      request.onsuccess = () => resolve(request.result > 0)
+      request.onerror = () => reject(request.error)
+    })
+  }
+
+  async deleteUnreferencedBlobs(hashes: string[]): Promise<void> {
+    const db = await this.getDB()
+    return new Promise((resolve, reject) => {
+      const tx = db.transaction('blobs', 'readwrite')
+      const store = tx.objectStore('blobs')
+      for (const hash of new Set(hashes)) {
+        const request = store.get(hash)
+        request.onsuccess = () => {
+          const record = request.result as StoredBlob | undefined
+          if (record && record.refCount <= 0) store.delete(hash)
+        }
+      }
       tx.oncomplete = () => resolve()
       tx.onerror = () => reject(tx.error)
     })
@@ -477,29 +595,41 @@ export class IndexedDBAdapter implements StorageAdapter {
 // ── In-Memory Adapter (for testing) ───────────────────────────────────
 
 export class InMemoryAdapter implements StorageAdapter {
-  private store: Map<string, { data: string; metadata: SavedSceneMetadata }>
+  private store: Map<string, { data: string; metadata: SavedSceneMetadata; blobHashes: string[] }>
+  private blobs: Map<string, StoredBlob>
 
   constructor() {
     this.store = new Map()
+    this.blobs = new Map()
   }
 
   async save(
     id: string,
     data: string,
     metadata: SavedSceneMetadata,
+    blobHashes: string[] = [],
   ): Promise<void> {
-    this.store.set(id, { data, metadata })
+    const prevHashes = this.store.get(id)?.blobHashes ?? []
+    this.store.set(id, { data, metadata, blobHashes: [...new Set(blobHashes)] })
+
+    const { retained, released } = diffBlobReferences(prevHashes, blobHashes)
+    this.adjustRefCounts(retained, 1)
+    this.adjustRefCounts(released, -1)
   }
 
   async load(
     id: string,
   ): Promise<{ data: string; metadata: SavedSceneMetadata } | null> {
     const entry = this.store.get(id)
-    return entry ?? null
+    return entry ? { data: entry.data, metadata: entry.metadata } : null
   }
 
   async delete(id: string): Promise<void> {
+    const entry = this.store.get(id)
     this.store.delete(id)
+    if (entry) {
+      this.adjustRefCounts(entry.blobHashes, -1)
+    }
   }
 
   async list(filter?: SceneFilterOptions): Promise<SavedSceneMetadata[]> {
@@ -523,5 +653,40 @@ export class InMemoryAdapter implements StorageAdapter {
 
   async clear(): Promise<void> {
     this.store.clear()
+    this.blobs.clear()
+  }
+
+  async putBlob(hash: string, blob: Blob): Promise<void> {
+    if (!this.blobs.has(hash)) {
+      this.blobs.set(hash, { hash, blob, refCount: 0 })
+    }
+  }
+
+  async getBlob(hash: string): Promise<StoredBlob | null> {
+    const entry = this.blobs.get(hash)
+    return entry ? { ...entry } : null
+  }
+
+  async hasBlob(hash: string): Promise<boolean> {
+    return this.blobs.has(hash)
+  }
+
+  async deleteUnreferencedBlobs(hashes: string[]): Promise<void> {
+    for (const hash of hashes) {
+      if (this.blobs.get(hash)?.refCount === 0) this.blobs.delete(hash)
+    }
+  }
+
+  private adjustRefCounts(hashes: string[], delta: number): void {
+    for (const hash of hashes) {
+      const entry = this.blobs.get(hash)
+      if (!entry) continue
+      const refCount = entry.refCount + delta
+      if (refCount <= 0) {
+        this.blobs.delete(hash)
+      } else {
+        this.blobs.set(hash, { ...entry, refCount })
+      }
+    }
   }
 }
@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest'
+import {
+  DEFAULT_STORYBOARD_OPTIONS,
+  STORYBOARD_PAGE_SIZES,
+  buildStoryboardPanels,
+  paginatePanels,
+  getStoryboardLayout,
+  getPanelCaption,
+  buildStoryboardPdf,
+} from './storyboard'
+import { createClip } from './sequence'
+import { measurePdfText } from './pdfWriter'
+import type { CameraShot } from '../types/cameraPath'
+import type { StoryboardPanel } from '../types/storyboard'
+
+function makeShot(id: string, overrides: Partial<CameraShot> = {}): CameraShot {
+  return {
+    id,
+    name: `Shot ${id}`,
+    position: { x: 0, y: 2, z: 8 },
+    target: { x: 0, y: 0, z: 0 },
+    createdAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+const panel: StoryboardPanel = {
+  shotId: 'a',
+  number: 3,
+  name: 'Hero walks in',
+  lens: '35mm · Super 35 · f/2.8',
+  duration: 4.5,
+  notes: 'Slow push in as the door opens. Keep the lamp in the top third of frame and hold for the reaction.',
+}
+
+describe('storyboard', () => {
+  // ── 2. Panels ───────────────────────────────────────────────────────
+
+  describe('buildStoryboardPanels', () => {
+    it('numbers shots and formats lens and aperture', () => {
+      const shots = [
+        makeShot('a', { lens: { focalLength: 35, sensor: 'super35', roll: 0 }, focus: { distance: 3, fStop: 2.8, targetId: null } }),
+        makeShot('b', { notes: '  Wide establishing  ' }),
+      ]
+      const [first, second] = buildStoryboardPanels(shots)
+      expect(first).toMatchObject({ number: 1, name: 'Shot a', lens: '35mm · Super 35 · f/2.8', duration: null })
+      expect(second.number).toBe(2)
+      expect(second.notes).toBe('Wide establishing')
+    })
+
+    it('totals how long each shot runs in the sequence', () => {
+      const clips = [createClip('a', { duration: 2 }), createClip('b', { duration: 1 }), createClip('a', { duration: 1.5 })]
+      const [a, b, c] = buildStoryboardPanels([makeShot('a'), makeShot('b'), makeShot('c')], clips)
+      expect(a.duration).toBe(3.5)
+      expect(b.duration).toBe(1)
+      expect(c.duration).toBeNull()
+    })
+
+    it('paginates N-up', () => {
+      expect(paginatePanels([1, 2, 3, 4, 5, 6, 7], 3)).toEqual([[1, 2, 3], [4, 5, 6], [7]])
+      expect(paginatePanels([], 6)).toEqual([])
+    })
+  })
+
+  // ── 3. Layout ───────────────────────────────────────────────────────
+
+  describe('getStoryboardLayout', () => {
+    it('swaps page dimensions for landscape', () => {
+      const a4 = STORYBOARD_PAGE_SIZES.a4
+      const landscape = getStoryboardLayout(DEFAULT_STORYBOARD_OPTIONS)
+      expect(landscape.pageWidth).toBe(a4.height)
+      expect(landscape.pageHeight).toBe(a4.width)
+
+      const portrait = getStoryboardLayout({ ...DEFAULT_STORYBOARD_OPTIONS, orientation: 'portrait' })
+      expect(portrait.pageWidth).toBe(a4.width)
+    })
+
+    it('makes one cell per panel, inside the page margins', () => {
+      const layout = getStoryboardLayout(DEFAULT_STORYBOARD_OPTIONS)
+      expect(layout.cells).toHaveLength(6)
+      for (const { image, caption } of layout.cells) {
+        expect(image.x).toBeGreaterThanOrEqual(36)
+        expect(image.x + image.width).toBeLessThanOrEqual(layout.pageWidth - 36 + 1e-6)
+        expect(caption.y + caption.height).toBeLessThanOrEqual(layout.pageHeight - 36 + 1e-6)
+        expect(caption.y).toBeGreaterThan(image.y + image.height)
+      }
+    })
+
+    it('keeps the render aspect ratio', () => {
+      const layout = getStoryboardLayout({ ...DEFAULT_STORYBOARD_OPTIONS, imageWidth: 2390, imageHeight: 1000 })
+      const { image } = layout.cells[0]
+      expect(image.width / image.height).toBeCloseTo(2.39, 6)
+    })
+
+    it('shrinks tall frames to leave room for captions', () => {
+      const layout = getStoryboardLayout({ ...DEFAULT_STORYBOARD_OPTIONS, imageWidth: 1080, imageHeight: 1920 })
+      const [first, , , below] = layout.cells
+      expect(first.caption.y + first.caption.height).toBeLessThan(below.image.y)
+      expect(first.caption.height).toBeGreaterThan(30)
+    })
+  })
+
+  describe('getPanelCaption', () => {
+    const box = { x: 0, y: 0, width: 180, height: 60 }
+
+    it('leads with the shot number and name, then lens and duration', () => {
+      const [title, meta] = getPanelCaption(panel, box, true)
+      expect(title).toMatchObject({ text: '3. Hero walks in', bold: true })
+      expect(meta.text).toBe('35mm · Super 35 · f/2.8 · 4.5s')
+      expect(meta.baseline).toBeGreaterThan(title.baseline)
+    })
+
+    it('wraps notes into the space left and never overflows', () => {
+      const lines = getPanelCaption(panel, box, true)
+      expect(lines.length).toBeGreaterThan(2)
+      for (const line of lines) {
+        expect(line.baseline).toBeLessThanOrEqual(box.height)
+        expect(measurePdfText(line.text, line.size)).toBeLessThanOrEqual(box.width)
+      }
+    })
+
+    it('leaves notes out when disabled or when the shot has none', () => {
+      expect(getPanelCaption(panel, box, false)).toHaveLength(2)
+      expect(getPanelCaption({ ...panel, notes: '', duration: null }, box, true).map(l => l.text))
+        .toEqual(['3. Hero walks in', '35mm · Super 35 · f/2.8'])
+    })
+  })
+
+  // ── 4. PDF ──────────────────────────────────────────────────────────
+
+  describe('buildStoryboardPdf', () => {
+    const jpeg = { data: new Uint8Array([0xff, 0xd8, 0xff, 0xd9]), width: 16, height: 9 }
+    const decode = (bytes: Uint8Array) => Array.from(bytes, b => String.fromCharCode(b)).join('')
+
+    it('lays panels out across pages with a heading and page numbers', () => {
+      const panels = buildStoryboardPanels(Array.from({ length: 7 }, (_, i) => makeShot(`s${i}`)))
+      const text = decode(buildStoryboardPdf(panels, panels.map(() => jpeg), DEFAULT_STORYBOARD_OPTIONS, 'Heist'))
+
+      expect(text).toContain('/Count 2')
+      expect(text).toContain('(Storyboard \x97 Heist)')
+      expect(text).toContain('(Page 2 of 2)')
+      expect(text).toContain('(7. Shot s6)')
+      expect(text.match(/\/Subtype \/Image/g)).toHaveLength(7)
+    })
+
+    it('draws placeholders for missing renders and still writes an empty board', () => {
+      const panels = buildStoryboardPanels([makeShot('a')])
+      const withPlaceholder = decode(buildStoryboardPdf(panels, [null], DEFAULT_STORYBOARD_OPTIONS, ''))
+      expect(withPlaceholder).not.toContain('/Subtype /Image')
+      expect(withPlaceholder).toContain('(Storyboard)')
+
+      expect(decode(buildStoryboardPdf([], [], DEFAULT_STORYBOARD_OPTIONS, ''))).toContain('/Count 1')
+    })
+  })
+})
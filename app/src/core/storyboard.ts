@@ -0,0 +1,410 @@
+/** Storyboard export — camera shots rendered and laid out N-up as a PDF or PNG contact sheets */
+
+import type { CameraShot } from '../types/cameraPath'
+import type { SequenceClip } from '../types/sequence'
+import type { StoryboardOptions, StoryboardPageSize, StoryboardPanel } from '../types/storyboard'
+import type { FrameRect } from '../types/overlay'
+import type { ExportResult, ViewRenderer } from '../types/export'
+import { createDefaultLens, formatLens } from './lens'
+import { formatFStop } from './focus'
+import {
+  addPdfImage,
+  addPdfPage,
+  createPdfDocument,
+  drawPdfImage,
+  drawPdfRect,
+  drawPdfText,
+  measurePdfText,
+  truncatePdfText,
+  wrapPdfText,
+  writePdf,
+  type PdfColor,
+  type PdfImage,
+} from './pdfWriter'
+
+// ── 1. Options & Page Sizes ──────────────────────────────────────────
+
+/** Portrait page sizes in points (1/72 inch) */
+export const STORYBOARD_PAGE_SIZES: Record<StoryboardPageSize, { label: string; width: number; height: number }> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  letter: { label: 'US Letter', width: 612, height: 792 },
+  tabloid: { label: 'Tabloid', width: 792, height: 1224 },
+}
+
+/** Panel grids offered in the export dialog */
+export const STORYBOARD_GRIDS: readonly { label: string; columns: number; rows: number }[] = [
+  { label: '1-up', columns: 1, rows: 1 },
+  { label: '2-up', columns: 2, rows: 1 },
+  { label: '4-up', columns: 2, rows: 2 },
+  { label: '6-up', columns: 3, rows: 2 },
+  { label: '9-up', columns: 3, rows: 3 },
+  { label: '12-up', columns: 4, rows: 3 },
+]
+
+export const DEFAULT_STORYBOARD_OPTIONS: StoryboardOptions = {
+  format: 'pdf',
+  pageSize: 'a4',
+  orientation: 'landscape',
+  columns: 3,
+  rows: 2,
+  imageWidth: 1280,
+  imageHeight: 720,
+  includeNotes: true,
+}
+
+// ── 2. Panels ────────────────────────────────────────────────────────
+
+/**
+ * One panel per shot, in shot-list order. A shot's duration is the total time
+ * it's cut into the sequence, so shots used twice add up.
+ */
+export function buildStoryboardPanels(shots: readonly CameraShot[], clips: readonly SequenceClip[] = []): StoryboardPanel[] {
+  return shots.map((shot, i) => {
+    const uses = clips.filter(c => c.shotId === shot.id)
+    const lens = formatLens(shot.lens ?? createDefaultLens())
+    return {
+      shotId: shot.id,
+      number: i + 1,
+      name: shot.name,
+      lens: shot.focus ? `${lens} · ${formatFStop(shot.focus.fStop)}` : lens,
+      duration: uses.length > 0 ? uses.reduce((sum, c) => sum + c.duration, 0) : null,
+      notes: shot.notes?.trim() ?? '',
+    }
+  })
+}
+
+/** Split panels into pages of `perPage` */
+export function paginatePanels<T>(panels: readonly T[], perPage: number): T[][] {
+  const size = Math.max(1, Math.floor(perPage))
+  const pages: T[][] = []
+  for (let i = 0; i < panels.length; i += size) pages.push(panels.slice(i, i + size))
+  return pages
+}
+
+// ── 3. Layout ────────────────────────────────────────────────────────
+
+const PAGE_MARGIN = 36
+const HEADER_HEIGHT = 30
+const GUTTER = 14
+const CAPTION_GAP = 5
+
+const TITLE_SIZE = 12
+const PAGE_NUMBER_SIZE = 9
+const SHOT_NAME_SIZE = 9
+const CAPTION_SIZE = 8
+const LINE_HEIGHT = 1.3
+
+/** Caption lines always shown (name, lens/duration), plus two lines of notes when enabled */
+function minCaptionHeight(includeNotes: boolean): number {
+  return (SHOT_NAME_SIZE + CAPTION_SIZE * (includeNotes ? 3 : 1)) * LINE_HEIGHT + CAPTION_GAP
+}
+
+export interface StoryboardCell {
+  image: FrameRect
+  caption: FrameRect
+}
+
+export interface StoryboardLayout {
+  pageWidth: number
+  pageHeight: number
+  header: FrameRect
+  cells: StoryboardCell[]
+}
+
+/** Page geometry in points: the header band and a grid of image + caption cells */
+export function getStoryboardLayout(options: StoryboardOptions): StoryboardLayout {
+  const size = STORYBOARD_PAGE_SIZES[options.pageSize]
+  const landscape = options.orientation === 'landscape'
+  const pageWidth = landscape ? size.height : size.width
+  const pageHeight = landscape ? size.width : size.height
+
+  const columns = Math.max(1, options.columns)
+  const rows = Math.max(1, options.rows)
+  const contentTop = PAGE_MARGIN + HEADER_HEIGHT
+  const cellWidth = (pageWidth - PAGE_MARGIN * 2 - GUTTER * (columns - 1)) / columns
+  const cellHeight = (pageHeight - contentTop - PAGE_MARGIN - GUTTER * (rows - 1)) / rows
+
+  // Fit the render's aspect to the cell, leaving room for the caption
+  const aspect = options.imageWidth / Math.max(options.imageHeight, 1)
+  const imageHeight = Math.max(0, Math.min(cellWidth / aspect, cellHeight - minCaptionHeight(options.includeNotes)))
+  const imageWidth = imageHeight * aspect
+
+  const cells: StoryboardCell[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < columns; col++) {
+      const cellX = PAGE_MARGIN + col * (cellWidth + GUTTER)
+      const cellY = contentTop + row * (cellHeight + GUTTER)
+      const image = { x: cellX + (cellWidth - imageWidth) / 2, y: cellY, width: imageWidth, height: imageHeight }
+      cells.push({
+        image,
+        caption: {
+          x: image.x,
+          y: cellY + imageHeight + CAPTION_GAP,
+          width: imageWidth,
+          height: cellHeight - imageHeight - CAPTION_GAP,
+        },
+      })
+    }
+  }
+
+  return {
+    pageWidth,
+    pageHeight,
+    header: { x: PAGE_MARGIN, y: PAGE_MARGIN, width: pageWidth - PAGE_MARGIN * 2, height: HEADER_HEIGHT },
+    cells,
+  }
+}
+
+/** A line of caption text; `baseline` is measured from the top of the caption box */
+export interface CaptionLine {
+  text: string
+  size: number
+  bold: boolean
+  baseline: number
+}
+
+export function formatPanelDuration(seconds: number): string {
+  return `${seconds.toFixed(1)}s`
+}
+
+/** Shot number and name, lens and duration, then as many lines of notes as fit */
+export function getPanelCaption(panel: StoryboardPanel, box: FrameRect, includeNotes: boolean): CaptionLine[] {
+  const lines: CaptionLine[] = []
+  let baseline = SHOT_NAME_SIZE
+
+  lines.push({
+    text: truncatePdfText(`${panel.number}. ${panel.name}`, SHOT_NAME_SIZE, box.width),
+    size: SHOT_NAME_SIZE,
+    bold: true,
+    baseline,
+  })
+  baseline += CAPTION_SIZE * LINE_HEIGHT
+
+  const meta = panel.duration !== null ? `${panel.lens} · ${formatPanelDuration(panel.duration)}` : panel.lens
+  lines.push({ text: truncatePdfText(meta, CAPTION_SIZE, box.width), size: CAPTION_SIZE, bold: false, baseline })
+
+  if (includeNotes && panel.notes) {
+    const available = Math.floor((box.height - baseline) / (CAPTION_SIZE * LINE_HEIGHT))
+    if (available > 0) {
+      for (const text of wrapPdfText(panel.notes, CAPTION_SIZE, box.width, available)) {
+        baseline += CAPTION_SIZE * LINE_HEIGHT
+        lines.push({ text, size: CAPTION_SIZE, bold: false, baseline })
+      }
+    }
+  }
+
+  return lines
+}
+
+function getPageHeading(title: string, pageIndex: number, pageCount: number) {
+  return {
+    title: title ? `Storyboard — ${title}` : 'Storyboard',
+    pageNumber: `Page ${pageIndex + 1} of ${pageCount}`,
+  }
+}
+
+// ── 4. PDF ───────────────────────────────────────────────────────────
+
+const INK: PdfColor = [0.1, 0.1, 0.1]
+const MUTED: PdfColor = [0.45, 0.45, 0.45]
+const FRAME: PdfColor = [0.25, 0.25, 0.25]
+const PLACEHOLDER: PdfColor = [0.88, 0.88, 0.88]
+
+/**
+ * Lay the panels out as a PDF. `images` holds each panel's JPEG render in the
+ * same order; a missing render leaves a grey placeholder.
+ */
+export function buildStoryboardPdf(
+  panels: readonly StoryboardPanel[],
+  images: readonly (PdfImage | null)[],
+  options: StoryboardOptions,
+  title: string,
+  createdAt?: Date,
+): Uint8Array<ArrayBuffer> {
+  const layout = getStoryboardLayout(options)
+  const doc = createPdfDocument(title ? `Storyboard — ${title}` : 'Storyboard')
+  const pages = paginatePanels(panels.map((panel, i) => ({ panel, image: images[i] ?? null })), layout.cells.length)
+  if (pages.length === 0) pages.push([])
+
+  pages.forEach((entries, pageIndex) => {
+    const page = addPdfPage(doc, layout.pageWidth, layout.pageHeight)
+    const heading = getPageHeading(title, pageIndex, pages.length)
+    const { header } = layout
+
+    drawPdfText(page, heading.title, header.x, header.y + TITLE_SIZE, { size: TITLE_SIZE, bold: true, color: INK })
+    drawPdfText(
+      page,
+      heading.pageNumber,
+      header.x + header.width - measurePdfText(heading.pageNumber, PAGE_NUMBER_SIZE),
+      header.y + TITLE_SIZE,
+      { size: PAGE_NUMBER_SIZE, color: MUTED },
+    )
+    drawPdfRect(page, { x: header.x, y: header.y + header.height - 10, width: header.width, height: 0 }, { stroke: MUTED, lineWidth: 0.5 })
+
+    entries.forEach(({ panel, image }, i) => {
+      const cell = layout.cells[i]
+      if (image) {
+        drawPdfImage(page, addPdfImage(doc, image), cell.image)
+      } else {
+        drawPdfRect(page, cell.image, { fill: PLACEHOLDER })
+      }
+      drawPdfRect(page, cell.image, { stroke: FRAME, lineWidth: 0.75 })
+
+      for (const line of getPanelCaption(panel, cell.caption, options.includeNotes)) {
+        drawPdfText(page, line.text, cell.caption.x, cell.caption.y + line.baseline, {
+          size: line.size,
+          bold: line.bold,
+          color: line.bold ? INK : MUTED,
+        })
+      }
+    })
+  })
+
+  return writePdf(doc, createdAt)
+}
+
+// ── 5. Rendering & Export (browser) ──────────────────────────────────
+
+/* v8 ignore start */
+
+/** Pixels per point for PNG contact sheets (144 dpi) */
+const SHEET_SCALE = 2
+
+function rgb(color: PdfColor): string {
+  return `rgb(${color.map(c => Math.round(c * 255)).join(',')})`
+}
+
+function cssFont(size: number, bold: boolean): string {
+  return `${bold ? 'bold ' : ''}${size * SHEET_SCALE}px Helvetica, Arial, sans-serif`
+}
+
+/** Draw one contact sheet page with the same layout as the PDF */
+function drawContactSheet(
+  entries: { panel: StoryboardPanel; image: HTMLCanvasElement | null }[],
+  layout: StoryboardLayout,
+  options: StoryboardOptions,
+  heading: { title: string; pageNumber: string },
+): HTMLCanvasElement {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.round(layout.pageWidth * SHEET_SCALE)
+  canvas.height = Math.round(layout.pageHeight * SHEET_SCALE)
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('Failed to create 2d context for contact sheet')
+
+  ctx.fillStyle = '#ffffff'
+  ctx.fillRect(0, 0, canvas.width, canvas.height)
+
+  const px = (n: number) => n * SHEET_SCALE
+  const { header } = layout
+
+  ctx.fillStyle = rgb(INK)
+  ctx.font = cssFont(TITLE_SIZE, true)
+  ctx.fillText(heading.title, px(header.x), px(header.y + TITLE_SIZE))
+  ctx.fillStyle = rgb(MUTED)
+  ctx.font = cssFont(PAGE_NUMBER_SIZE, false)
+  ctx.textAlign = 'right'
+  ctx.fillText(heading.pageNumber, px(header.x + header.width), px(header.y + TITLE_SIZE))
+  ctx.textAlign = 'left'
+  ctx.strokeStyle = rgb(MUTED)
+  ctx.lineWidth = px(0.5)
+  ctx.beginPath()
+  ctx.moveTo(px(header.x), px(header.y + header.height - 10))
+  ctx.lineTo(px(header.x + header.width), px(header.y + header.height - 10))
+  ctx.stroke()
+
+  entries.forEach(({ panel, image }, i) => {
+    const { image: box, caption } = layout.cells[i]
+    if (image) {
+      ctx.drawImage(image, px(box.x), px(box.y), px(box.width), px(box.height))
+    } else {
+      ctx.fillStyle = rgb(PLACEHOLDER)
+      ctx.fillRect(px(box.x), px(box.y), px(box.width), px(box.height))
+    }
+    ctx.strokeStyle = rgb(FRAME)
+    ctx.lineWidth = px(0.75)
+    ctx.strokeRect(px(box.x), px(box.y), px(box.width), px(box.height))
+
+    for (const line of getPanelCaption(panel, caption, options.includeNotes)) {
+      ctx.fillStyle = rgb(line.bold ? INK : MUTED)
+      ctx.font = cssFont(line.size, line.bold)
+      ctx.fillText(line.text, px(caption.x), px(caption.y + line.baseline))
+    }
+  })
+
+  return canvas
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality?: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('Canvas toBlob returned null'))), type, quality)
+  })
+}
+
+/** Baseline JPEG bytes from a rendered shot, for embedding in the PDF */
+function canvasToJpeg(canvas: HTMLCanvasElement): PdfImage {
+  const dataUrl = canvas.toDataURL('image/jpeg', 0.9)
+  // Browsers that can't encode JPEG silently hand back PNG, which PDF can't embed as-is
+  if (!dataUrl.startsWith('data:image/jpeg')) throw new Error('JPEG encoding is not supported')
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1))
+  const data = new Uint8Array(binary.length)
+  for (let i = 0; i < binary.length; i++) data[i] = binary.charCodeAt(i)
+  return { data, width: canvas.width, height: canvas.height }
+}
+
+function storyboardFileName(sceneName: string, suffix: string): string {
+  const base = (sceneName || 'scene').replace(/[^a-z0-9-_]+/gi, '-').replace(/^-+|-+$/g, '') || 'scene'
+  return `${base}-storyboard${suffix}`
+}
+
+/**
+ * Render every shot through the viewport and build the storyboard. Writes a
+ * PDF, or one PNG contact sheet per page when PNG is chosen or the PDF can't
+ * be built in this browser.
+ */
+export async function exportStoryboard(
+  shots: readonly CameraShot[],
+  clips: readonly SequenceClip[],
+  options: StoryboardOptions,
+  renderView: ViewRenderer,
+  sceneName: string,
+  onProgress?: (progress: number, message: string) => void,
+): Promise<ExportResult[]> {
+  const panels = buildStoryboardPanels(shots, clips)
+  const renders: HTMLCanvasElement[] = []
+
+  for (const [i, shot] of shots.entries()) {
+    onProgress?.(i / (shots.length + 1), `Rendering ${shot.name}...`)
+    renders.push(renderView(
+      { position: shot.position, target: shot.target, lens: shot.lens ?? createDefaultLens() },
+      options.imageWidth,
+      options.imageHeight,
+    ))
+    // Let the progress bar paint between renders
+    await new Promise(resolve => setTimeout(resolve, 0))
+  }
+
+  onProgress?.(shots.length / (shots.length + 1), 'Laying out pages...')
+
+  if (options.format === 'pdf') {
+    try {
+      const pdf = buildStoryboardPdf(panels, renders.map(canvasToJpeg), options, sceneName)
+      const blob = new Blob([pdf], { type: 'application/pdf' })
+      return [{ format: 'storyboard', blob, fileName: storyboardFileName(sceneName, '.pdf'), fileSize: blob.size }]
+    } catch {
+      // Fall through to contact sheets
+    }
+  }
+
+  const layout = getStoryboardLayout(options)
+  const pages = paginatePanels(panels.map((panel, i) => ({ panel, image: renders[i] ?? null })), layout.cells.length)
+  const results: ExportResult[] = []
+  for (const [i, entries] of pages.entries()) {
+    const sheet = drawContactSheet(entries, layout, options, getPageHeading(sceneName, i, pages.length))
+    const blob = await canvasToBlob(sheet, 'image/png')
+    const suffix = pages.length > 1 ? `-${String(i + 1).padStart(2, '0')}.png` : '.png'
+    results.push({ format: 'storyboard', blob, fileName: storyboardFileName(sceneName, suffix), fileSize: blob.size })
+  }
+  return results
+}
+
+/* v8 ignore stop */
@@ -0,0 +1,59 @@
+/** Default "industrial studio" light rig shared by the viewport and exporters */
+
+import type { Vec3 } from '../types/scene'
+
+// ── Types ────────────────────────────────────────────────────────────
+
+export type StudioLightType = 'ambient' | 'directional' | 'point'
+
+export interface StudioLight {
+  name: string
+  type: StudioLightType
+  color: string
+  intensity: number
+  position?: Vec3       // directional + point only
+  distance?: number     // point only, 0 = infinite
+  decay?: number        // point only
+  castShadow?: boolean
+}
+
+// ── Rig ──────────────────────────────────────────────────────────────
+
+export const STUDIO_LIGHTS: readonly StudioLight[] = [
+  { name: 'Ambient', type: 'ambient', color: '#e0d8e8', intensity: 0.2 },
+  {
+    name: 'Key Light',
+    type: 'directional',
+    color: '#ffffff',
+    intensity: 1.0,
+    position: { x: 5, y: 10, z: 4 },
+    castShadow: true,
+  },
+  {
+    name: 'Cool Back Light',
+    type: 'directional',
+    color: '#88ccff',
+    intensity: 0.2,
+    position: { x: -4, y: 6, z: -3 },
+  },
+  // Subtle warm rim from below-right
+  {
+    name: 'Warm Rim',
+    type: 'point',
+    color: '#e8e0d8',
+    intensity: 0.12,
+    position: { x: 8, y: 0.5, z: 0 },
+    distance: 20,
+    decay: 2,
+  },
+  // Cool fill from back-left
+  {
+    name: 'Cool Fill',
+    type: 'point',
+    color: '#d0d0e0',
+    intensity: 0.06,
+    position: { x: -6, y: 2, z: -6 },
+    distance: 15,
+    decay: 2,
+  },
+]
@@ -0,0 +1,116 @@
+import { describe, it, expect } from 'vitest'
+import { encodeVint, writeWebm } from './webmMuxer'
+import type { EncodedVideoFrame, EncodedVideoTrack } from '../types/export'
+
+interface Ebml {
+  id: number
+  /** Offset of the element header within the parent's data */
+  offset: number
+  data: Uint8Array
+  children: Ebml[]
+}
+
+const MASTER_IDS = new Set([0x1a45dfa3, 0x18538067, 0x1549a966, 0x1654ae6b, 0xae, 0xe0, 0x1f43b675, 0x1c53bb6b, 0xbb, 0xb7])
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    out.set(chunk, offset)
+    offset += chunk.length
+  }
+  return out
+}
+
+function readVint(data: Uint8Array, p: number, keepMarker: boolean): { value: number; length: number } {
+  let length = 1
+  while (!(data[p] & (0x80 >> (length - 1)))) length++
+  let value = keepMarker ? data[p] : data[p] & (0xff >> length)
+  for (let i = 1; i < length; i++) value = value * 256 + data[p + i]
+  return { value, length }
+}
+
+function parse(data: Uint8Array): Ebml[] {
+  const elements: Ebml[] = []
+  let p = 0
+  while (p < data.length) {
+    const id = readVint(data, p, true)
+    const size = readVint(data, p + id.length, false)
+    const start = p + id.length + size.length
+    const body = data.subarray(start, start + size.value)
+    elements.push({ id: id.value, offset: p, data: body, children: MASTER_IDS.has(id.value) ? parse(body) : [] })
+    p = start + size.value
+  }
+  return elements
+}
+
+const find = (elements: Ebml[], id: number) => elements.find(e => e.id === id)!
+const findAll = (elements: Ebml[], id: number) => elements.filter(e => e.id === id)
+const uint = (e: Ebml) => e.data.reduce((value, byte) => value * 256 + byte, 0)
+const text = (e: Ebml) => new TextDecoder().decode(e.data)
+
+const track: EncodedVideoTrack = { codec: 'vp9', width: 1920, height: 1080, fps: 24 }
+
+function makeFrames(count: number, keyEvery: number): EncodedVideoFrame[] {
+  return Array.from({ length: count }, (_, i) => ({ data: new Uint8Array([i, 0xaa, 0xbb]), keyFrame: i % keyEvery === 0 }))
+}
+
+describe('webmMuxer', () => {
+  // ── 1. EBML ─────────────────────────────────────────────────────────
+
+  it('encodes sizes as EBML variable-length integers', () => {
+    expect([...encodeVint(0)]).toEqual([0x80])
+    expect([...encodeVint(126)]).toEqual([0xfe])
+    // 127 in one byte would read as "unknown size"
+    expect([...encodeVint(127)]).toEqual([0x40, 0x7f])
+    expect([...encodeVint(0x1234)]).toEqual([0x52, 0x34])
+  })
+
+  // ── 2. Muxing ───────────────────────────────────────────────────────
+
+  it('writes a WebM header and a constant-frame-rate VP9 track', () => {
+    const [header, segment] = parse(concat(writeWebm(track, makeFrames(48, 24))))
+    expect(text(find(header.children, 0x4282))).toBe('webm')
+
+    const info = find(segment.children, 0x1549a966)
+    expect(uint(find(info.children, 0x2ad7b1))).toBe(1_000_000)
+    const duration = find(info.children, 0x4489).data
+    expect(new DataView(duration.buffer, duration.byteOffset, 8).getFloat64(0)).toBe(2000)
+
+    const entry = find(find(segment.children, 0x1654ae6b).children, 0xae)
+    expect(text(find(entry.children, 0x86))).toBe('V_VP9')
+    expect(uint(find(entry.children, 0x23e383))).toBe(Math.round(1e9 / 24))
+    const video = find(entry.children, 0xe0)
+    expect([uint(find(video.children, 0xb0)), uint(find(video.children, 0xba))]).toEqual([1920, 1080])
+  })
+
+  it('starts a cluster at every keyframe and times blocks from the frame index', () => {
+    const [, segment] = parse(concat(writeWebm(track, makeFrames(48, 24))))
+    const clusters = findAll(segment.children, 0x1f43b675)
+    expect(clusters.map(c => uint(find(c.children, 0xe7)))).toEqual([0, 1000])
+
+    const blocks = findAll(clusters[1].children, 0xa3)
+    expect(blocks).toHaveLength(24)
+    const offsets = blocks.map(b => new DataView(b.data.buffer, b.data.byteOffset).getInt16(1))
+    expect(offsets[0]).toBe(0)
+    expect(offsets[1]).toBe(42)
+    expect(offsets[23]).toBe(958)
+    expect(blocks[0].data[3]).toBe(0x80)
+    expect(blocks[1].data[3]).toBe(0)
+    expect([...blocks[1].data.subarray(4)]).toEqual([25, 0xaa, 0xbb])
+  })
+
+  it('indexes every cluster in the cues', () => {
+    const [, segment] = parse(concat(writeWebm(track, makeFrames(72, 24))))
+    const clusters = findAll(segment.children, 0x1f43b675)
+    const cues = findAll(find(segment.children, 0x1c53bb6b).children, 0xbb)
+
+    expect(cues.map(cue => uint(find(cue.children, 0xb3)))).toEqual([0, 1000, 2000])
+    const positions = cues.map(cue => uint(find(find(cue.children, 0xb7).children, 0xf1)))
+    expect(positions).toEqual(clusters.map(c => c.offset))
+  })
+
+  it('refuses codecs WebM cannot carry', () => {
+    expect(() => writeWebm({ ...track, codec: 'avc' }, [])).toThrow(/AVC/)
+  })
+})
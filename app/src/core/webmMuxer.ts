@@ -0,0 +1,189 @@
+/**
+ * Minimal WebM muxer — one VP9 or VP8 video track, constant frame rate,
+ * with a cue point per cluster so players can seek. The file is returned as
+ * a list of byte chunks; frame data is referenced, not copied.
+ */
+
+import type { EncodedVideoFrame, EncodedVideoTrack } from '../types/export'
+
+type Chunks = Uint8Array<ArrayBuffer>[]
+
+// ── 1. EBML ──────────────────────────────────────────────────────────
+
+const ID = {
+  EBML: 0x1a45dfa3,
+  EBMLVersion: 0x4286,
+  EBMLReadVersion: 0x42f7,
+  EBMLMaxIDLength: 0x42f2,
+  EBMLMaxSizeLength: 0x42f3,
+  DocType: 0x4282,
+  DocTypeVersion: 0x4287,
+  DocTypeReadVersion: 0x4285,
+  Segment: 0x18538067,
+  Info: 0x1549a966,
+  TimestampScale: 0x2ad7b1,
+  Duration: 0x4489,
+  MuxingApp: 0x4d80,
+  WritingApp: 0x5741,
+  Tracks: 0x1654ae6b,
+  TrackEntry: 0xae,
+  TrackNumber: 0xd7,
+  TrackUID: 0x73c5,
+  TrackType: 0x83,
+  FlagLacing: 0x9c,
+  CodecID: 0x86,
+  CodecPrivate: 0x63a2,
+  DefaultDuration: 0x23e383,
+  Video: 0xe0,
+  PixelWidth: 0xb0,
+  PixelHeight: 0xba,
+  Cluster: 0x1f43b675,
+  Timestamp: 0xe7,
+  SimpleBlock: 0xa3,
+  Cues: 0x1c53bb6b,
+  CuePoint: 0xbb,
+  CueTime: 0xb3,
+  CueTrackPositions: 0xb7,
+  CueTrack: 0xf7,
+  CueClusterPosition: 0xf1,
+} as const
+
+/** Big-endian bytes of a non-negative integer, at least one byte */
+function uintBytes(value: number, minLength = 1): number[] {
+  const bytes: number[] = []
+  let rest = Math.floor(value)
+  while (rest > 0 || bytes.length < minLength) {
+    bytes.unshift(rest % 256)
+    rest = Math.floor(rest / 256)
+  }
+  return bytes
+}
+
+/** EBML variable-length size: the length marker bit followed by the value */
+export function encodeVint(value: number): Uint8Array<ArrayBuffer> {
+  let length = 1
+  // All-ones is reserved for "unknown size"
+  while (length < 8 && value >= 2 ** (7 * length) - 1) length++
+  const bytes = uintBytes(value, length)
+  bytes[0] |= 0x80 >> (length - 1)
+  return new Uint8Array(bytes)
+}
+
+function size(chunks: Chunks): number {
+  return chunks.reduce((sum, chunk) => sum + chunk.length, 0)
+}
+
+function element(id: number, ...children: Chunks[]): Chunks {
+  const body = children.flat()
+  return [new Uint8Array(uintBytes(id)), encodeVint(size(body)), ...body]
+}
+
+function uintElement(id: number, value: number): Chunks {
+  return element(id, [new Uint8Array(uintBytes(value))])
+}
+
+function floatElement(id: number, value: number): Chunks {
+  const bytes = new Uint8Array(8)
+  new DataView(bytes.buffer).setFloat64(0, value)
+  return element(id, [bytes])
+}
+
+function stringElement(id: number, value: string): Chunks {
+  return element(id, [new TextEncoder().encode(value)])
+}
+
+// ── 2. Muxing ────────────────────────────────────────────────────────
+
+const CODEC_IDS: Partial<Record<EncodedVideoTrack['codec'], string>> = {
+  vp9: 'V_VP9',
+  vp8: 'V_VP8',
+}
+
+/** Cluster timestamps are in TimestampScale units; blocks hold a signed 16-bit offset from them */
+const TIMESTAMP_SCALE_NS = 1_000_000
+const MAX_BLOCK_OFFSET = 0x7fff
+
+function simpleBlock(frame: EncodedVideoFrame, offset: number): Chunks {
+  const header = new Uint8Array(4)
+  header[0] = 0x81                                   // track 1 as a vint
+  new DataView(header.buffer).setInt16(1, offset)
+  header[3] = frame.keyFrame ? 0x80 : 0
+  return element(ID.SimpleBlock, [header, frame.data])
+}
+
+/**
+ * Mux encoded frames into a WebM file. Every keyframe starts a new cluster
+ * (and a cue), as do gaps longer than a block offset can express.
+ */
+export function writeWebm(track: EncodedVideoTrack, frames: readonly EncodedVideoFrame[]): Chunks {
+  const codecId = CODEC_IDS[track.codec]
+  if (!codecId) throw new Error(`WebM can't carry ${track.codec.toUpperCase()} video`)
+
+  const frameMs = (index: number) => Math.round((index * 1000) / track.fps)
+
+  const header = element(ID.EBML,
+    uintElement(ID.EBMLVersion, 1),
+    uintElement(ID.EBMLReadVersion, 1),
+    uintElement(ID.EBMLMaxIDLength, 4),
+    uintElement(ID.EBMLMaxSizeLength, 8),
+    stringElement(ID.DocType, 'webm'),
+    uintElement(ID.DocTypeVersion, 2),
+    uintElement(ID.DocTypeReadVersion, 2),
+  )
+
+  const info = element(ID.Info,
+    uintElement(ID.TimestampScale, TIMESTAMP_SCALE_NS),
+    floatElement(ID.Duration, (frames.length * 1000) / track.fps),
+    stringElement(ID.MuxingApp, '3D Scene Cowboy'),
+    stringElement(ID.WritingApp, '3D Scene Cowboy'),
+  )
+
+  const tracks = element(ID.Tracks, element(ID.TrackEntry,
+    uintElement(ID.TrackNumber, 1),
+    uintElement(ID.TrackUID, 1),
+    uintElement(ID.TrackType, 1),                     // video
+    uintElement(ID.FlagLacing, 0),
+    stringElement(ID.CodecID, codecId),
+    track.description ? element(ID.CodecPrivate, [new Uint8Array(track.description)]) : [],
+    uintElement(ID.DefaultDuration, Math.round(1e9 / track.fps)),
+    element(ID.Video,
+      uintElement(ID.PixelWidth, track.width),
+      uintElement(ID.PixelHeight, track.height),
+    ),
+  ))
+
+  const clusters: Chunks[] = []
+  const cues: { time: number; position: number }[] = []
+  let position = size(info) + size(tracks)
+  let blocks: Chunks[] = []
+  let clusterTime = 0
+
+  const closeCluster = () => {
+    if (blocks.length === 0) return
+    const cluster = element(ID.Cluster, uintElement(ID.Timestamp, clusterTime), ...blocks)
+    cues.push({ time: clusterTime, position })
+    clusters.push(cluster)
+    position += size(cluster)
+    blocks = []
+  }
+
+  frames.forEach((frame, i) => {
+    const time = frameMs(i)
+    if (blocks.length === 0 || frame.keyFrame || time - clusterTime > MAX_BLOCK_OFFSET) {
+      closeCluster()
+      clusterTime = time
+    }
+    blocks.push(simpleBlock(frame, time - clusterTime))
+  })
+  closeCluster()
+
+  const cueElements = element(ID.Cues, ...cues.map(cue => element(ID.CuePoint,
+    uintElement(ID.CueTime, cue.time),
+    element(ID.CueTrackPositions,
+      uintElement(ID.CueTrack, 1),
+      uintElement(ID.CueClusterPosition, cue.position),
+    ),
+  )))
+
+  return [...header, ...element(ID.Segment, info, tracks, ...clusters, cueElements)]
+}
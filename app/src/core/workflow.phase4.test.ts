@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { useSceneStore } from '../stores/useSceneStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
 import { usePostProcessingStore, createDefaultPostProcessing } from '../stores/usePostProcessingStore'
 import { useAnimationStore } from '../stores/useAnimationStore'
 import { resetKeyframeIdCounter, evaluateTrack } from './animation'
@@ -13,9 +14,8 @@ function resetStores() {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useHistoryStore.getState().clear()
   usePostProcessingStore.setState(createDefaultPostProcessing())
   useAnimationStore.setState({
     tracks: [],
@@ -168,7 +168,7 @@ describe('Phase 4 Workflow Integration', () => {
     it('saved scenes have version 3', () => {
       useSceneStore.getState().addObject('box')
       const data = useSceneStore.getState().saveScene('V3 Test')
-      expect(data.metadata.version).toBe(3)
+      expect(data.metadata.version).toBe(5)
     })
   })
 
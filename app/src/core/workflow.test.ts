@@ -1,9 +1,12 @@
-import { describe, it, expect, beforeEach } from 'vitest'
+import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { useSceneStore } from '../stores/useSceneStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
 import type { SceneData } from '../types/scene'
 import { createDefaultEnvironment } from './sceneOperations'
+import { HISTORY_BUDGET_BYTES, getHistorySize } from './history'
 
-const MAX_HISTORY = 50
+// History budgets below are sized to hold about this many adds
+const BUDGET_ENTRIES = 50
 
 function resetStore() {
   useSceneStore.setState({
@@ -12,12 +15,11 @@ function resetStore() {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
     environment: createDefaultEnvironment(),
     snapEnabled: false,
     snapValue: 0.5,
   })
+  useHistoryStore.getState().clear()
 }
 
 /** Helper to get current store state concisely */
@@ -398,15 +400,15 @@ describe('E2E Workflow Tests', () => {
       actions().addObject('box')
       actions().addObject('sphere')
       actions().addObject('cylinder')
-      expect(state().historyIndex).toBe(3) // initial + 3 adds
+      expect(useHistoryStore.getState().index).toBe(3) // initial + 3 adds
 
       const saved = actions().saveScene()
       actions().clearScene()
       actions().loadScene(saved)
 
       // History should be reset to a single entry
-      expect(state().historyIndex).toBe(0)
-      expect(state().history).toHaveLength(1)
+      expect(useHistoryStore.getState().index).toBe(0)
+      expect(useHistoryStore.getState().entries).toHaveLength(1)
       expect(state().canUndo()).toBe(false)
     })
   })
@@ -544,26 +546,37 @@ describe('E2E Workflow Tests', () => {
   // ──────────────────────────────────────────────────────────────────────
 
   describe('History Limits', () => {
-    it('caps history at MAX_HISTORY entries', () => {
-      const totalAdds = MAX_HISTORY + 5 // 55
+    const totalAdds = BUDGET_ENTRIES + 5 // 55
 
-      for (let i = 0; i < totalAdds; i++) {
+    // Budget the history at BUDGET_ENTRIES adds, measured from the first one
+    function addBoxesOverBudget(): number {
+      actions().addObject('box')
+      const budget = useHistoryStore.getState().entries[1].size * BUDGET_ENTRIES
+      useHistoryStore.getState().setBudget(budget)
+      for (let i = 1; i < totalAdds; i++) {
         actions().addObject('box')
       }
+      return budget
+    }
+
+    afterEach(() => {
+      useHistoryStore.getState().setBudget(HISTORY_BUDGET_BYTES)
+    })
 
-      // History should not exceed MAX_HISTORY
-      expect(state().history.length).toBeLessThanOrEqual(MAX_HISTORY)
+    it('keeps history within its memory budget', () => {
+      const budget = addBoxesOverBudget()
+
+      const history = useHistoryStore.getState()
+      expect(getHistorySize(history)).toBeLessThanOrEqual(budget)
+      expect(history.entries.length).toBeLessThan(totalAdds)
+      expect(history.entries.length).toBeGreaterThan(BUDGET_ENTRIES - 5)
       expect(state().objects).toHaveLength(totalAdds)
     })
 
     it('undo still works after history overflow', () => {
-      const totalAdds = MAX_HISTORY + 5
-
-      for (let i = 0; i < totalAdds; i++) {
-        actions().addObject('box')
-      }
+      addBoxesOverBudget()
 
-      const historyLen = state().history.length
+      const historyLen = useHistoryStore.getState().entries.length
 
       // Should be able to undo (historyLen - 1) times
       let undoCount = 0
@@ -573,20 +586,13 @@ describe('E2E Workflow Tests', () => {
       }
 
       expect(undoCount).toBe(historyLen - 1)
-      // After all undos, we should have some objects remaining (the ones that fell off history)
-      // Since we added 55 objects and history holds ~50 entries (initial + 49 adds before overflow starts),
-      // after MAX_HISTORY+5 adds the oldest entries are pruned.
-      // The earliest surviving history entry should have some objects.
-      expect(state().objects.length).toBeLessThan(totalAdds)
+      // The adds that fell out of the budget can't be undone, so their objects remain
+      expect(state().objects.length).toBe(totalAdds - undoCount)
       expect(state().canUndo()).toBe(false)
     })
 
     it('redo works correctly after history overflow and undo', () => {
-      const totalAdds = MAX_HISTORY + 5
-
-      for (let i = 0; i < totalAdds; i++) {
-        actions().addObject('box')
-      }
+      addBoxesOverBudget()
 
       // Undo 5 times
       for (let i = 0; i < 5; i++) {
@@ -0,0 +1,216 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import {
+  WSClient,
+  isValidRoomId,
+  buildRoomUrl,
+  generatePeerId,
+  createMessage,
+  parseMessage,
+  getReconnectDelay,
+  type WSClientOptions,
+} from './wsClient'
+import { createFakeSocketFactory, type FakeSocket } from '../test/fakeSocket'
+
+describe('wsClient', () => {
+  // ── 1. Pure helpers ──────────────────────────────────────────────────
+
+  describe('isValidRoomId / buildRoomUrl', () => {
+    it('accepts the same room ids as the server route', () => {
+      expect(isValidRoomId('scene_01-a')).toBe(true)
+      expect(isValidRoomId('')).toBe(false)
+      expect(isValidRoomId('a/b')).toBe(false)
+      expect(isValidRoomId('room id')).toBe(false)
+    })
+
+    it('joins server url and room path', () => {
+      expect(buildRoomUrl('ws://localhost:8787/', 'abc')).toBe('ws://localhost:8787/ws/abc')
+    })
+
+    it('throws for invalid room ids', () => {
+      expect(() => buildRoomUrl('ws://x', '../etc')).toThrow('Invalid room id')
+    })
+  })
+
+  describe('generatePeerId', () => {
+    it('produces unique ids', () => {
+      const ids = new Set(Array.from({ length: 50 }, generatePeerId))
+      expect(ids.size).toBe(50)
+    })
+  })
+
+  describe('createMessage / parseMessage', () => {
+    it('round-trips a message', () => {
+      const msg = createMessage('presence', 'room', 'p1', { userName: 'A', selectedIds: [] })
+      expect(parseMessage(JSON.stringify(msg))).toEqual(msg)
+    })
+
+    it('rejects malformed input', () => {
+      expect(parseMessage('{not json')).toBeNull()
+      expect(parseMessage('42')).toBeNull()
+      expect(parseMessage(JSON.stringify({ type: 'bogus', peerId: 'p' }))).toBeNull()
+      expect(parseMessage(JSON.stringify({ type: 'joined' }))).toBeNull()
+    })
+
+    it('fills in missing optional fields', () => {
+      const msg = parseMessage(JSON.stringify({ type: 'peer-left', peerId: 'p1' }))
+      expect(msg).toMatchObject({ type: 'peer-left', roomId: '', peerId: 'p1', payload: null })
+    })
+  })
+
+  describe('getReconnectDelay', () => {
+    it('backs off exponentially up to a cap', () => {
+      expect(getReconnectDelay(0)).toBe(500)
+      expect(getReconnectDelay(1)).toBe(1000)
+      expect(getReconnectDelay(3)).toBe(4000)
+      expect(getReconnectDelay(20)).toBe(10_000)
+    })
+  })
+
+  // ── 2. WSClient ──────────────────────────────────────────────────────
+
+  describe('WSClient', () => {
+    let sockets: FakeSocket[]
+    let options: WSClientOptions
+
+    beforeEach(() => {
+      vi.useFakeTimers()
+      const fake = createFakeSocketFactory()
+      sockets = fake.sockets
+      options = {
+        serverUrl: 'ws://localhost:8787',
+        roomId: 'room',
+        peerId: 'me',
+        userName: 'Alice',
+        onMessage: vi.fn(),
+        onOpen: vi.fn(),
+        onClose: vi.fn(),
+        createSocket: fake.factory,
+      }
+    })
+
+    afterEach(() => {
+      vi.useRealTimers()
+    })
+
+    it('connects to the room url and sends join on open', () => {
+      const client = new WSClient(options)
+      client.connect()
+      expect(sockets[0].url).toBe('ws://localhost:8787/ws/room')
+
+      sockets[0].open()
+
+      expect(options.onOpen).toHaveBeenCalled()
+      expect(sockets[0].sent).toEqual([
+        expect.objectContaining({ type: 'join', roomId: 'room', peerId: 'me', payload: { userName: 'Alice' } }),
+      ])
+    })
+
+    it('sends the join token and password when given', () => {
+      const client = new WSClient({ ...options, token: 'abc.def', password: 'hunter2' })
+      client.connect()
+      sockets[0].open()
+
+      expect(sockets[0].sentOfType('join')[0].payload).toEqual({ userName: 'Alice', token: 'abc.def', password: 'hunter2' })
+    })
+
+    it('does not send before the socket is open', () => {
+      const client = new WSClient(options)
+      client.connect()
+      expect(client.send('presence', {})).toBe(false)
+      expect(sockets[0].sent).toEqual([])
+    })
+
+    it('delivers parsed messages and drops invalid ones', () => {
+      const client = new WSClient(options)
+      client.connect()
+      sockets[0].open()
+
+      sockets[0].receive('peer-joined', 'other', { peerId: 'other', userName: 'Bob' })
+      sockets[0].receiveRaw('garbage')
+      sockets[0].receiveRaw(new ArrayBuffer(4))
+
+      expect(options.onMessage).toHaveBeenCalledTimes(1)
+      expect(options.onMessage).toHaveBeenCalledWith(expect.objectContaining({
+        type: 'peer-joined', payload: { peerId: 'other', userName: 'Bob' },
+      }))
+    })
+
+    it('reconnects with backoff after an unexpected close', () => {
+      const client = new WSClient(options)
+      client.connect()
+      sockets[0].open()
+
+      sockets[0].drop(1006)
+      expect(options.onClose).toHaveBeenCalledWith({ code: 1006, reason: '', willReconnect: true })
+      expect(sockets).toHaveLength(1)
+
+      vi.advanceTimersByTime(500)
+      expect(sockets).toHaveLength(2)
+
+      sockets[1].open()
+      expect(sockets[1].sentOfType('join')).toHaveLength(1)
+    })
+
+    it('does not reconnect after fatal server close codes', () => {
+      const client = new WSClient(options)
+      client.connect()
+      sockets[0].open()
+
+      sockets[0].drop(4001, 'Room is full')
+      vi.advanceTimersByTime(60_000)
+
+      expect(options.onClose).toHaveBeenCalledWith({ code: 4001, reason: 'Room is full', willReconnect: false })
+      expect(sockets).toHaveLength(1)
+    })
+
+    it('does not retry a rejected token or password', () => {
+      const client = new WSClient(options)
+      client.connect()
+      sockets[0].open()
+
+      sockets[0].drop(4003, 'Incorrect room password')
+      vi.advanceTimersByTime(60_000)
+
+      expect(options.onClose).toHaveBeenCalledWith({ code: 4003, reason: 'Incorrect room password', willReconnect: false })
+      expect(sockets).toHaveLength(1)
+    })
+
+    it('gives up after the maximum number of attempts', () => {
+      const client = new WSClient(options)
+      client.connect()
+
+      for (let i = 0; i < 8; i++) {
+        sockets[i].drop()
+        vi.advanceTimersByTime(getReconnectDelay(i))
+      }
+      sockets[8].drop()
+
+      expect(sockets).toHaveLength(9)
+      expect(options.onClose).toHaveBeenLastCalledWith({ code: 1006, reason: '', willReconnect: false })
+    })
+
+    it('sends leave and closes cleanly on disconnect', () => {
+      const client = new WSClient(options)
+      client.connect()
+      sockets[0].open()
+
+      client.disconnect()
+
+      expect(sockets[0].sentOfType('leave')).toHaveLength(1)
+      expect(sockets[0].closedWith).toEqual({ code: 1000, reason: 'Client left' })
+      expect(options.onClose).toHaveBeenCalledWith({ code: 1000, reason: 'Client left', willReconnect: false })
+      expect(client.isOpen).toBe(false)
+    })
+
+    it('cancels a pending reconnect on disconnect', () => {
+      const client = new WSClient(options)
+      client.connect()
+      sockets[0].drop()
+
+      client.disconnect()
+      vi.advanceTimersByTime(60_000)
+
+      expect(sockets).toHaveLength(1)
+    })
+  })
+})
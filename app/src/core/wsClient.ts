@@ -0,0 +1,207 @@
+/** WebSocket client for the collaboration server (server/wsServer.ts) */
+
+import type { CollabMessage, CollabMessageType, JoinPayload } from '../types/collaboration'
+
+// ── Constants ─────────────────────────────────────────────────────────
+
+export const DEFAULT_COLLAB_SERVER_URL = 'ws://localhost:8787'
+
+const RECONNECT_BASE_DELAY_MS = 500
+const RECONNECT_MAX_DELAY_MS = 10_000
+const MAX_RECONNECT_ATTEMPTS = 8
+
+/** Close codes sent by the server that must not trigger a reconnect */
+const FATAL_CLOSE_CODES = new Set([
+  4001, // Room full
+  4002, // Duplicate peer ID
+  4003, // Rejected token or password
+  4008, // Rate limited
+])
+
+const SOCKET_OPEN = 1
+
+const MESSAGE_TYPES: readonly CollabMessageType[] = [
+  'join', 'joined', 'leave', 'peer-joined', 'peer-left', 'host-assigned',
+  'presence', 'scene-diff', 'scene-full', 'request-full',
+  'lease-acquire', 'lease-release', 'lease-state', 'lease-denied', 'error',
+]
+
+// ── Pure Helpers ──────────────────────────────────────────────────────
+
+/** Room ids accepted by the server's /ws/:roomId route */
+export function isValidRoomId(roomId: string): boolean {
+  return /^[a-zA-Z0-9_-]+$/.test(roomId)
+}
+
+/** Build the socket URL for a room, e.g. ws://host:8787/ws/my-room */
+export function buildRoomUrl(serverUrl: string, roomId: string): string {
+  if (!isValidRoomId(roomId)) {
+    throw new Error(`Invalid room id: ${roomId}`)
+  }
+  return `${serverUrl.replace(/\/+$/, '')}/ws/${roomId}`
+}
+
+export function generatePeerId(): string {
+  const random = Math.random().toString(36).slice(2, 10)
+  return `peer_${Date.now().toString(36)}_${random}`
+}
+
+export function createMessage<T>(
+  type: CollabMessageType,
+  roomId: string,
+  peerId: string,
+  payload: T,
+): CollabMessage<T> {
+  return { type, roomId, peerId, timestamp: Date.now(), payload }
+}
+
+/** Parse and validate an incoming message. Returns null for malformed input. */
+export function parseMessage(raw: string): CollabMessage | null {
+  let data: unknown
+  try {
+    data = JSON.parse(raw)
+  } catch {
+    return null
+  }
+  if (!data || typeof data !== 'object') return null
+
+  const msg = data as Record<string, unknown>
+  if (typeof msg.type !== 'string' || !MESSAGE_TYPES.includes(msg.type as CollabMessageType)) return null
+  if (typeof msg.peerId !== 'string') return null
+
+  return {
+    type: msg.type as CollabMessageType,
+    roomId: typeof msg.roomId === 'string' ? msg.roomId : '',
+    peerId: msg.peerId,
+    timestamp: typeof msg.timestamp === 'number' ? msg.timestamp : Date.now(),
+    payload: msg.payload ?? null,
+  }
+}
+
+/** Exponential backoff delay for the given reconnect attempt (0-based) */
+export function getReconnectDelay(attempt: number): number {
+  return Math.min(RECONNECT_MAX_DELAY_MS, RECONNECT_BASE_DELAY_MS * 2 ** Math.max(0, attempt))
+}
+
+// ── Client ────────────────────────────────────────────────────────────
+
+/** Minimal WebSocket surface used by the client (lets tests supply a fake) */
+export type SocketLike = Pick<WebSocket, 'readyState' | 'onopen' | 'onmessage' | 'onclose' | 'onerror' | 'send' | 'close'>
+
+export type SocketFactory = (url: string) => SocketLike
+
+export interface WSClientOptions {
+  serverUrl: string
+  roomId: string
+  peerId: string
+  userName: string
+  /** Sent with the join message */
+  token?: string
+  password?: string
+  onMessage: (msg: CollabMessage) => void
+  /** Called when the connection opens (including after a reconnect) */
+  onOpen?: () => void
+  /** `willReconnect` is false when the client gave up or was closed deliberately */
+  onClose?: (info: { code: number; reason: string; willReconnect: boolean }) => void
+  createSocket?: SocketFactory
+}
+
+export class WSClient {
+  readonly roomId: string
+  readonly peerId: string
+  readonly userName: string
+
+  private url: string
+  private options: WSClientOptions
+  private socket: SocketLike | null = null
+  private reconnectAttempt = 0
+  private reconnectTimer: ReturnType<typeof setTimeout> | null = null
+  private closedByUser = false
+
+  constructor(options: WSClientOptions) {
+    this.options = options
+    this.roomId = options.roomId
+    this.peerId = options.peerId
+    this.userName = options.userName
+    this.url = buildRoomUrl(options.serverUrl, options.roomId)
+  }
+
+  get isOpen(): boolean {
+    return this.socket?.readyState === SOCKET_OPEN
+  }
+
+  connect(): void {
+    this.closedByUser = false
+    this.openSocket()
+  }
+
+  /** Send a typed message. Returns false when the socket is not open. */
+  send<T>(type: CollabMessageType, payload: T): boolean {
+    if (!this.socket || !this.isOpen) return false
+    this.socket.send(JSON.stringify(createMessage(type, this.roomId, this.peerId, payload)))
+    return true
+  }
+
+  disconnect(): void {
+    this.closedByUser = true
+    if (this.reconnectTimer !== null) {
+      clearTimeout(this.reconnectTimer)
+      this.reconnectTimer = null
+    }
+    if (this.socket) {
+      this.send('leave', null)
+      const socket = this.socket
+      this.socket = null
+      socket.close(1000, 'Client left')
+      this.options.onClose?.({ code: 1000, reason: 'Client left', willReconnect: false })
+    }
+  }
+
+  private openSocket(): void {
+    const socket = (this.options.createSocket ?? defaultSocketFactory)(this.url)
+    this.socket = socket
+
+    socket.onopen = () => {
+      this.reconnectAttempt = 0
+      const join: JoinPayload = { userName: this.userName }
+      if (this.options.token) join.token = this.options.token
+      if (this.options.password) join.password = this.options.password
+      this.send('join', join)
+      this.options.onOpen?.()
+    }
+
+    socket.onmessage = (event) => {
+      if (typeof event.data !== 'string') return
+      const msg = parseMessage(event.data)
+      if (msg) this.options.onMessage(msg)
+    }
+
+    socket.onclose = (event) => {
+      if (this.socket !== socket) return
+      this.socket = null
+      const willReconnect = !this.closedByUser
+        && !FATAL_CLOSE_CODES.has(event.code)
+        && this.reconnectAttempt < MAX_RECONNECT_ATTEMPTS
+      this.options.onClose?.({ code: event.code, reason: event.reason, willReconnect })
+      if (willReconnect) this.scheduleReconnect()
+    }
+
+    // Errors are always followed by a close event, which handles reconnects
+    socket.onerror = () => {}
+  }
+
+  private scheduleReconnect(): void {
+    const delay = getReconnectDelay(this.reconnectAttempt)
+    this.reconnectAttempt++
+    this.reconnectTimer = setTimeout(() => {
+      this.reconnectTimer = null
+      if (!this.closedByUser) this.openSocket()
+    }, delay)
+  }
+}
+
+/* v8 ignore start -- Real WebSocket requires a browser; tests inject a fake socket */
+function defaultSocketFactory(url: string): SocketLike {
+  return new WebSocket(url)
+}
+/* v8 ignore stop */
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest'
+import { createZipArchive, addZipEntry, crc32, writeZip, MAX_ZIP_ENTRIES } from './zipWriter'
+
+function concat(chunks: Uint8Array[]): Uint8Array {
+  const out = new Uint8Array(chunks.reduce((sum, c) => sum + c.length, 0))
+  let offset = 0
+  for (const chunk of chunks) {
+    out.set(chunk, offset)
+    offset += chunk.length
+  }
+  return out
+}
+
+const bytes = (text: string) => new TextEncoder().encode(text)
+
+/** Read the archive back through its central directory, the way unzip tools do */
+function readZip(data: Uint8Array): { name: string; text: string; crc: number; date: number }[] {
+  const view = new DataView(data.buffer, data.byteOffset, data.byteLength)
+  const end = data.length - 22
+  expect(view.getUint32(end, true)).toBe(0x06054b50)
+  const count = view.getUint16(end + 10, true)
+  let p = view.getUint32(end + 16, true)
+
+  const files = []
+  for (let i = 0; i < count; i++) {
+    expect(view.getUint32(p, true)).toBe(0x02014b50)
+    const crc = view.getUint32(p + 16, true)
+    const size = view.getUint32(p + 24, true)
+    const nameLength = view.getUint16(p + 28, true)
+    const local = view.getUint32(p + 42, true)
+    const name = new TextDecoder().decode(data.subarray(p + 46, p + 46 + nameLength))
+
+    expect(view.getUint32(local, true)).toBe(0x04034b50)
+    const dataStart = local + 30 + view.getUint16(local + 26, true)
+    files.push({
+      name,
+      text: new TextDecoder().decode(data.subarray(dataStart, dataStart + size)),
+      crc,
+      date: view.getUint16(p + 14, true),
+    })
+    p += 46 + nameLength
+  }
+  return files
+}
+
+describe('zipWriter', () => {
+  // ── 2. Checksums ────────────────────────────────────────────────────
+
+  it('computes the standard CRC-32', () => {
+    expect(crc32(bytes('123456789'))).toBe(0xcbf43926)
+    expect(crc32(new Uint8Array())).toBe(0)
+  })
+
+  // ── 3. Serialization ────────────────────────────────────────────────
+
+  it('writes files that read back through the central directory', () => {
+    const zip = createZipArchive()
+    const modified = new Date(2026, 2, 14, 9, 30, 10)
+    addZipEntry(zip, 'Heist.0001.png', bytes('first frame'), modified)
+    addZipEntry(zip, 'Héist.0002.png', bytes('second'), modified)
+
+    const files = readZip(concat(writeZip(zip)))
+    expect(files.map(f => [f.name, f.text])).toEqual([
+      ['Heist.0001.png', 'first frame'],
+      ['Héist.0002.png', 'second'],
+    ])
+    expect(files[0].crc).toBe(crc32(bytes('first frame')))
+    expect(files[0].date).toBe(((2026 - 1980) << 9) | (3 << 5) | 14)
+  })
+
+  it('writes an empty archive as a bare end record', () => {
+    const data = concat(writeZip(createZipArchive()))
+    expect(data).toHaveLength(22)
+    expect(readZip(data)).toEqual([])
+  })
+
+  it('refuses more files than a classic ZIP can index', () => {
+    const zip = createZipArchive()
+    zip.entries.length = MAX_ZIP_ENTRIES
+    expect(() => addZipEntry(zip, 'one-too-many.png', bytes('x'))).toThrow(/limited/)
+  })
+})
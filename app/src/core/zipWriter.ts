@@ -0,0 +1,136 @@
+/**
+ * Minimal ZIP writer — files are stored uncompressed, which suits PNG and
+ * JPEG frames that are already compressed. The archive is written as a list
+ * of byte chunks so a Blob can be assembled without copying every frame into
+ * one buffer.
+ */
+
+// ── 1. Archive Model ─────────────────────────────────────────────────
+
+export interface ZipEntry {
+  name: string
+  data: Uint8Array<ArrayBuffer>
+  crc: number
+  modified: Date
+}
+
+export interface ZipArchive {
+  entries: ZipEntry[]
+}
+
+/** Classic ZIP limits; past these the archive would need ZIP64 records */
+export const MAX_ZIP_ENTRIES = 0xffff
+export const MAX_ZIP_SIZE = 0xffffffff
+
+export function createZipArchive(): ZipArchive {
+  return { entries: [] }
+}
+
+export function addZipEntry(zip: ZipArchive, name: string, data: Uint8Array<ArrayBuffer>, modified: Date = new Date()): void {
+  if (zip.entries.length >= MAX_ZIP_ENTRIES) {
+    throw new Error(`ZIP archives are limited to ${MAX_ZIP_ENTRIES} files`)
+  }
+  zip.entries.push({ name, data, crc: crc32(data), modified })
+}
+
+// ── 2. Checksums ─────────────────────────────────────────────────────
+
+let crcTable: Uint32Array | null = null
+
+function getCrcTable(): Uint32Array {
+  if (crcTable) return crcTable
+  crcTable = new Uint32Array(256)
+  for (let n = 0; n < 256; n++) {
+    let c = n
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+    crcTable[n] = c >>> 0
+  }
+  return crcTable
+}
+
+/** CRC-32 (IEEE 802.3), as used by ZIP and PNG */
+export function crc32(data: Uint8Array): number {
+  const table = getCrcTable()
+  let crc = 0xffffffff
+  for (let i = 0; i < data.length; i++) crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  return (crc ^ 0xffffffff) >>> 0
+}
+
+// ── 3. Serialization ─────────────────────────────────────────────────
+
+/** MS-DOS time and date words; the format can't represent years before 1980 */
+function dosDateTime(date: Date): { time: number; date: number } {
+  const year = Math.max(1980, date.getFullYear())
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | (date.getSeconds() >> 1),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+  }
+}
+
+// General purpose flag bit 11: names are UTF-8
+const UTF8_FLAG = 0x0800
+
+/** Local file header when `centralOffset` is null, central directory record otherwise */
+function fileHeader(entry: ZipEntry, name: Uint8Array, centralOffset: number | null): Uint8Array<ArrayBuffer> {
+  const central = centralOffset !== null
+  const bytes = new Uint8Array((central ? 46 : 30) + name.length)
+  const view = new DataView(bytes.buffer)
+  const { time, date } = dosDateTime(entry.modified)
+
+  let p = 0
+  const u16 = (value: number) => { view.setUint16(p, value, true); p += 2 }
+  const u32 = (value: number) => { view.setUint32(p, value, true); p += 4 }
+
+  u32(central ? 0x02014b50 : 0x04034b50)
+  if (central) u16(20)          // version made by
+  u16(20)                       // version needed to extract
+  u16(UTF8_FLAG)
+  u16(0)                        // method: stored
+  u16(time)
+  u16(date)
+  u32(entry.crc)
+  u32(entry.data.length)        // compressed size
+  u32(entry.data.length)        // uncompressed size
+  u16(name.length)
+  u16(0)                        // extra field length
+  if (central) {
+    u16(0)                      // comment length
+    u16(0)                      // disk number
+    u16(0)                      // internal attributes
+    u32(0)                      // external attributes
+    u32(centralOffset)
+  }
+  bytes.set(name, p)
+  return bytes
+}
+
+/**
+ * Serialize the archive: each file's local header and data, then the
+ * central directory and its end record.
+ */
+export function writeZip(zip: ZipArchive): Uint8Array<ArrayBuffer>[] {
+  const encoder = new TextEncoder()
+  const chunks: Uint8Array<ArrayBuffer>[] = []
+  const central: Uint8Array<ArrayBuffer>[] = []
+  let offset = 0
+
+  for (const entry of zip.entries) {
+    const name = encoder.encode(entry.name)
+    const local = fileHeader(entry, name, null)
+    central.push(fileHeader(entry, name, offset))
+    chunks.push(local, entry.data)
+    offset += local.length + entry.data.length
+    if (offset > MAX_ZIP_SIZE) throw new Error('ZIP archive is larger than 4 GB')
+  }
+
+  const directorySize = central.reduce((sum, record) => sum + record.length, 0)
+  const end = new Uint8Array(22)
+  const view = new DataView(end.buffer)
+  view.setUint32(0, 0x06054b50, true)
+  view.setUint16(8, zip.entries.length, true)     // entries on this disk
+  view.setUint16(10, zip.entries.length, true)    // entries in total
+  view.setUint32(12, directorySize, true)
+  view.setUint32(16, offset, true)
+
+  return [...chunks, ...central, end]
+}
@@ -2,6 +2,7 @@ import { describe, it, expect, beforeEach, afterEach } from 'vitest'
 import { renderHook } from '@testing-library/react'
 import { useKeyboardShortcuts } from './useKeyboardShortcuts'
 import { useSceneStore } from '../stores/useSceneStore'
+import { useHistoryStore } from '../stores/useHistoryStore'
 import type { SceneObject } from '../types/scene'
 
 function resetStore() {
@@ -11,9 +12,8 @@ function resetStore() {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useHistoryStore.getState().clear()
 }
 
 function createTestObject(overrides: Partial<SceneObject> = {}): SceneObject {
@@ -160,9 +160,8 @@ describe('useKeyboardShortcuts', () => {
         objects: [obj],
         selectedId: obj.id,
         selectedIds: [obj.id],
-        history: [{ objects: [obj], selectedId: obj.id, selectedIds: [obj.id] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -182,9 +181,8 @@ describe('useKeyboardShortcuts', () => {
       useSceneStore.setState({
         objects: [obj],
         selectedId: null,
-        history: [{ objects: [obj], selectedId: null, selectedIds: [] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -204,9 +202,8 @@ describe('useKeyboardShortcuts', () => {
         objects: [obj],
         selectedId: obj.id,
         selectedIds: [obj.id],
-        history: [{ objects: [obj], selectedId: obj.id, selectedIds: [obj.id] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -223,9 +220,8 @@ describe('useKeyboardShortcuts', () => {
         objects: [obj],
         selectedId: obj.id,
         selectedIds: [obj.id],
-        history: [{ objects: [obj], selectedId: obj.id, selectedIds: [obj.id] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -241,9 +237,8 @@ describe('useKeyboardShortcuts', () => {
       useSceneStore.setState({
         objects: [obj],
         selectedId: null,
-        history: [{ objects: [obj], selectedId: null, selectedIds: [] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -258,9 +253,8 @@ describe('useKeyboardShortcuts', () => {
       useSceneStore.setState({
         objects: [obj],
         selectedId: null,
-        history: [{ objects: [obj], selectedId: null, selectedIds: [] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -315,9 +309,8 @@ describe('useKeyboardShortcuts', () => {
         objects: [obj],
         selectedId: obj.id,
         selectedIds: [obj.id],
-        history: [{ objects: [obj], selectedId: obj.id, selectedIds: [obj.id] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -339,9 +332,8 @@ describe('useKeyboardShortcuts', () => {
         objects: [obj1, obj2],
         selectedId: 'obj-2',
         selectedIds: ['obj-1', 'obj-2'],
-        history: [{ objects: [obj1, obj2], selectedId: 'obj-2', selectedIds: ['obj-1', 'obj-2'] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -362,9 +354,8 @@ describe('useKeyboardShortcuts', () => {
         objects: [obj1, obj2],
         selectedId: 'obj-2',
         selectedIds: ['obj-1', 'obj-2'],
-        history: [{ objects: [obj1, obj2], selectedId: 'obj-2', selectedIds: ['obj-1', 'obj-2'] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -383,9 +374,8 @@ describe('useKeyboardShortcuts', () => {
         objects: [obj1],
         selectedId: null,
         selectedIds: [],
-        history: [{ objects: [obj1], selectedId: null, selectedIds: [] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -402,9 +392,8 @@ describe('useKeyboardShortcuts', () => {
         selectedId: null,
         selectedIds: [],
         clipboard: [],
-        history: [{ objects: [obj1], selectedId: null, selectedIds: [] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -426,9 +415,8 @@ describe('useKeyboardShortcuts', () => {
         objects: [obj1, obj2, obj3],
         selectedId: null,
         selectedIds: [],
-        history: [{ objects: [obj1, obj2, obj3], selectedId: null, selectedIds: [] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -461,9 +449,8 @@ describe('useKeyboardShortcuts', () => {
         objects: [obj1, obj2, obj3],
         selectedId: 'obj-2',
         selectedIds: ['obj-1', 'obj-2'],
-        history: [{ objects: [obj1, obj2, obj3], selectedId: 'obj-2', selectedIds: ['obj-1', 'obj-2'] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -483,9 +470,8 @@ describe('useKeyboardShortcuts', () => {
         objects: [obj1, obj2, obj3],
         selectedId: 'obj-2',
         selectedIds: ['obj-1', 'obj-2'],
-        history: [{ objects: [obj1, obj2, obj3], selectedId: 'obj-2', selectedIds: ['obj-1', 'obj-2'] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
@@ -508,9 +494,8 @@ describe('useKeyboardShortcuts', () => {
         objects: [obj1, obj2],
         selectedId: 'obj-2',
         selectedIds: ['obj-1', 'obj-2'],
-        history: [{ objects: [obj1, obj2], selectedId: 'obj-2', selectedIds: ['obj-1', 'obj-2'] }],
-        historyIndex: 0,
       })
+      useHistoryStore.getState().clear()
 
       const { unmount } = renderHook(() => useKeyboardShortcuts())
 
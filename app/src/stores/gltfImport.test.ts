@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { useSceneStore } from './useSceneStore'
+import { useHistoryStore } from './useHistoryStore'
 
 function resetStore() {
   useSceneStore.setState({
@@ -8,9 +9,8 @@ function resetStore() {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useHistoryStore.getState().clear()
 }
 
 describe('Model Object Creation', () => {
@@ -61,13 +61,14 @@ describe('Model Object Creation', () => {
   })
 
   it('model object pushes to history', () => {
-    const historyBefore = useSceneStore.getState().history.length
+    const historyBefore = useHistoryStore.getState().entries.length
 
     useSceneStore.getState().addModelObject('Fence', '/models/fence.glb')
 
-    const { history, historyIndex } = useSceneStore.getState()
-    expect(history.length).toBe(historyBefore + 1)
-    expect(historyIndex).toBe(historyBefore) // 0-based, so length-1
+    const { entries, index } = useHistoryStore.getState()
+    expect(entries.length).toBe(historyBefore + 1)
+    expect(index).toBe(historyBefore) // 0-based, so length-1
+    expect(entries[index].label).toBe('Import Fence')
   })
 })
 
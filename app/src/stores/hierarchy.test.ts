@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { useSceneStore } from './useSceneStore'
+import { useHistoryStore } from './useHistoryStore'
 
 function resetStore() {
   useSceneStore.setState({
@@ -8,9 +9,8 @@ function resetStore() {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useHistoryStore.getState().clear()
 }
 
 /** Seed the store with N box objects and return their ids */
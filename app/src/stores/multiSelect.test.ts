@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { useSceneStore } from './useSceneStore'
+import { useHistoryStore } from './useHistoryStore'
 
 function resetStore() {
   useSceneStore.setState({
@@ -8,9 +9,8 @@ function resetStore() {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useHistoryStore.getState().clear()
 }
 
 /** Seed the store with N box objects and return their ids */
@@ -275,12 +275,12 @@ describe('Copy/Paste', () => {
   it('paste with empty clipboard does nothing', () => {
     seedObjects(2)
     const objectsBefore = useSceneStore.getState().objects.length
-    const historyBefore = useSceneStore.getState().history.length
+    const historyBefore = useHistoryStore.getState().entries.length
 
     useSceneStore.getState().pasteClipboard()
 
     expect(useSceneStore.getState().objects).toHaveLength(objectsBefore)
-    expect(useSceneStore.getState().history).toHaveLength(historyBefore)
+    expect(useHistoryStore.getState().entries).toHaveLength(historyBefore)
   })
 
   it('clipboard persists across scene operations', () => {
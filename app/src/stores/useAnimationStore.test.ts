@@ -1,6 +1,7 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { useAnimationStore } from './useAnimationStore'
-import { resetKeyframeIdCounter, CAMERA_TRACK_OBJECT_ID } from '../core/animation'
+import { useHistoryStore } from './useHistoryStore'
+import { resetKeyframeIdCounter, CAMERA_TRACK_OBJECT_ID, ENVIRONMENT_TRACK_OBJECT_ID } from '../core/animation'
 
 function resetStore() {
   useAnimationStore.setState({
@@ -10,6 +11,9 @@ function resetStore() {
     isPlaying: false,
     playbackSpeed: 1,
     loop: true,
+    frameRate: 24,
+    snapToFrames: true,
+    keyframeClipboard: null,
   })
   resetKeyframeIdCounter()
 }
@@ -340,6 +344,23 @@ describe('useAnimationStore', () => {
       expect(tgtKf!.value).toEqual(camTarget)
     })
 
+    it('adds a cameraLens keyframe when a lens is given', () => {
+      const lens = { x: 85, y: -5, z: 0 }
+      useAnimationStore.getState().captureSceneKeyframe(camPos, camTarget, [], 1, 'linear', lens)
+
+      const track = useAnimationStore.getState().getCameraTrack()!
+      expect(track.keyframes.find(kf => kf.property === 'cameraLens')?.value).toEqual(lens)
+    })
+
+    it('adds a cameraFocus keyframe when focus is given', () => {
+      const focus = { x: 3.5, y: 2, z: 0 }
+      useAnimationStore.getState().captureSceneKeyframe(camPos, camTarget, [], 1, 'linear', undefined, focus)
+
+      const track = useAnimationStore.getState().getCameraTrack()!
+      expect(track.keyframes.find(kf => kf.property === 'cameraFocus')?.value).toEqual(focus)
+      expect(track.keyframes.some(kf => kf.property === 'cameraLens')).toBe(false)
+    })
+
     it('uses currentTime by default', () => {
       useAnimationStore.getState().setCurrentTime(2.5)
       useAnimationStore.getState().captureSceneKeyframe(camPos, camTarget, [])
@@ -372,6 +393,24 @@ describe('useAnimationStore', () => {
       expect(track.keyframes[0].easing).toBe('linear')
     })
 
+    it('captures light channels for tracked lights', () => {
+      const light = {
+        id: 'light_1',
+        position: { x: 0, y: 3, z: 0 },
+        rotation: { x: -90, y: 0, z: 0 },
+        scale: { x: 1, y: 1, z: 1 },
+        lightColor: { x: 1, y: 0.5, z: 0 },
+        lightParams: { x: 20, y: 10, z: 30 },
+      }
+      useAnimationStore.getState().captureSceneKeyframe(camPos, camTarget, [light], 1)
+
+      const track = useAnimationStore.getState().getTrackForObject('light_1')!
+      expect(track.keyframes.map(kf => kf.property).sort()).toEqual(
+        ['lightColor', 'lightParams', 'position', 'rotation', 'scale'],
+      )
+      expect(track.keyframes.find(kf => kf.property === 'lightParams')!.value).toEqual(light.lightParams)
+    })
+
     it('creates object tracks for tracked objects', () => {
       const trackedObjects = [
         { id: 'obj_1', position: { x: 1, y: 0, z: 0 }, rotation: { x: 0, y: 0, z: 0 }, scale: { x: 1, y: 1, z: 1 } },
@@ -577,4 +616,246 @@ describe('useAnimationStore', () => {
       expect(state.isPlaying).toBe(false)
     })
   })
+
+  describe('dope sheet actions', () => {
+    function setup() {
+      const store = useAnimationStore.getState()
+      const trackId = store.addTrack('box-obj')
+      const a = store.addKeyframe(trackId, 1, 'position', { x: 1, y: 0, z: 0 })
+      const b = store.addKeyframe(trackId, 2, 'rotation', { x: 0, y: 1, z: 0 })
+      useHistoryStore.getState().clear()
+      return { trackId, refs: [{ trackId, keyframeId: a }, { trackId, keyframeId: b }] }
+    }
+
+    function keyTimes(): number[] {
+      return useAnimationStore.getState().tracks[0].keyframes.map(kf => kf.time)
+    }
+
+    it('moves a group of keys as one undo step', () => {
+      const { refs } = setup()
+      const applied = useAnimationStore.getState().moveKeyframes(refs, 0.5)
+
+      expect(applied).toBe(0.5)
+      expect(keyTimes()).toEqual([1.5, 2.5])
+      expect(useHistoryStore.getState().entries.at(-1)?.label).toBe('Move 2 keyframes')
+      useHistoryStore.getState().undo()
+      expect(keyTimes()).toEqual([1, 2])
+    })
+
+    it('coalesces the moves of one drag', () => {
+      const { refs } = setup()
+      for (let i = 0; i < 5; i++) useAnimationStore.getState().moveKeyframes(refs, 1 / 24)
+
+      expect(useHistoryStore.getState().entries).toHaveLength(2)
+      useHistoryStore.getState().undo()
+      expect(keyTimes()).toEqual([1, 2])
+    })
+
+    it('snaps to frames at the chosen rate only while snapping is on', () => {
+      const { refs } = setup()
+      useAnimationStore.getState().setFrameRate(10)
+      useAnimationStore.getState().moveKeyframes(refs, 0.23)
+      expect(keyTimes()).toEqual([1.2, 2.2])
+
+      useAnimationStore.getState().setSnapToFrames(false)
+      useAnimationStore.getState().moveKeyframes(refs, 0.01)
+      expect(keyTimes()[0]).toBeCloseTo(1.21)
+    })
+
+    it('reports the clamped delta at the end of the timeline', () => {
+      const { refs } = setup()
+      expect(useAnimationStore.getState().moveKeyframes(refs, 10)).toBe(3)
+      expect(keyTimes()).toEqual([4, 5])
+    })
+
+    it('scales keys around the playhead', () => {
+      const { refs } = setup()
+      useAnimationStore.getState().setCurrentTime(1)
+      useAnimationStore.getState().scaleKeyframes(refs, 3)
+
+      expect(keyTimes()).toEqual([1, 4])
+      expect(useHistoryStore.getState().entries.at(-1)?.label).toBe('Scale 2 keyframes')
+    })
+
+    it('deletes a group of keys', () => {
+      const { refs } = setup()
+      useAnimationStore.getState().removeKeyframes(refs.slice(0, 1))
+
+      expect(keyTimes()).toEqual([2])
+      expect(useHistoryStore.getState().entries.at(-1)?.label).toBe('Delete keyframe')
+    })
+
+    it('copies keys and pastes them onto another object at the playhead', () => {
+      const { refs } = setup()
+      useAnimationStore.getState().copyKeyframes(refs)
+      useAnimationStore.getState().setCurrentTime(3)
+      const pasted = useAnimationStore.getState().pasteKeyframes(['sphere-obj'])
+
+      const sphere = useAnimationStore.getState().getTrackForObject('sphere-obj')
+      expect(sphere?.keyframes.map(kf => `${kf.property}@${kf.time}`)).toEqual(['position@3', 'rotation@4'])
+      expect(pasted).toHaveLength(2)
+      expect(useHistoryStore.getState().entries.at(-1)?.label).toBe('Paste 2 keyframes')
+
+      useHistoryStore.getState().undo()
+      expect(useAnimationStore.getState().getTrackForObject('sphere-obj')).toBeUndefined()
+    })
+
+    it('pastes back onto the source object without targets', () => {
+      const { refs } = setup()
+      useAnimationStore.getState().copyKeyframes(refs.slice(0, 1))
+      useAnimationStore.getState().pasteKeyframes(undefined, 4)
+
+      expect(keyTimes()).toEqual([1, 2, 4])
+    })
+
+    it('pastes nothing with an empty clipboard', () => {
+      setup()
+      expect(useAnimationStore.getState().pasteKeyframes(['sphere-obj'])).toEqual([])
+      expect(useHistoryStore.getState().entries).toHaveLength(1)
+    })
+
+    it('clears the key clipboard with the scene', () => {
+      const { refs } = setup()
+      useAnimationStore.getState().copyKeyframes(refs)
+      useAnimationStore.getState().clearAll()
+      expect(useAnimationStore.getState().keyframeClipboard).toBeNull()
+    })
+
+    it('ignores frame rates that are not positive', () => {
+      useAnimationStore.getState().setFrameRate(0)
+      expect(useAnimationStore.getState().frameRate).toBe(24)
+    })
+  })
+
+  describe('graph editor actions', () => {
+    function setup() {
+      const store = useAnimationStore.getState()
+      const trackId = store.addTrack('box-obj')
+      const a = store.addKeyframe(trackId, 0, 'position', { x: 0, y: 0, z: 0 })
+      const b = store.addKeyframe(trackId, 2, 'position', { x: 4, y: 2, z: 0 })
+      useHistoryStore.getState().clear()
+      return { trackId, a, b }
+    }
+
+    function positionKeys() {
+      return useAnimationStore.getState().tracks[0].keyframes.filter(kf => kf.property === 'position')
+    }
+
+    it('splits whole keys on the first channel edit and undoes back to them', () => {
+      const { trackId, b } = setup()
+      const refs = useAnimationStore.getState().updateChannelKeys(trackId, [{ ref: { keyframeId: b, axis: 'x' }, value: 6 }])
+
+      expect(refs).toEqual([{ keyframeId: `${b}_x`, axis: 'x' }])
+      expect(positionKeys()).toHaveLength(6)
+      expect(useHistoryStore.getState().entries.at(-1)?.label).toBe('Move key')
+      useHistoryStore.getState().undo()
+      expect(positionKeys().map(kf => kf.channel)).toEqual([undefined, undefined])
+    })
+
+    it('coalesces the edits of one drag, including the one that splits', () => {
+      const { trackId, a, b } = setup()
+      let refs = [{ keyframeId: b, axis: 'y' as const }]
+      for (let i = 1; i <= 4; i++) {
+        refs = useAnimationStore.getState().updateChannelKeys(trackId, refs.map(ref => ({ ref, time: 2 - i / 10, value: 2 + i })))
+      }
+
+      expect(useHistoryStore.getState().entries).toHaveLength(2)
+      expect(positionKeys().find(kf => kf.id === `${b}_y`)).toMatchObject({ time: 1.6, value: { y: 6 } })
+      useHistoryStore.getState().undo()
+      expect(positionKeys().map(kf => kf.id)).toEqual([a, b])
+    })
+
+    it('clamps channel key times to the timeline', () => {
+      const { trackId, b } = setup()
+      useAnimationStore.getState().updateChannelKeys(trackId, [{ ref: { keyframeId: b, axis: 'z' }, time: 99 }])
+      expect(positionKeys().find(kf => kf.id === `${b}_z`)?.time).toBe(5)
+    })
+
+    it('labels slope edits as tangent changes', () => {
+      const { trackId, a } = setup()
+      useAnimationStore.getState().updateChannelKeys(trackId, [{ ref: { keyframeId: a, axis: 'x' }, outSlope: 1 }])
+      expect(useHistoryStore.getState().entries.at(-1)?.label).toBe('Change tangent')
+    })
+
+    it('sets tangent modes as one undo step', () => {
+      const { trackId, a, b } = setup()
+      const refs = useAnimationStore.getState().setTangentMode(
+        trackId,
+        [{ keyframeId: a, axis: 'x' }, { keyframeId: b, axis: 'x' }],
+        'flat',
+      )
+
+      expect(refs.map(ref => ref.keyframeId)).toEqual([`${a}_x`, `${b}_x`])
+      expect(positionKeys().filter(kf => kf.tangent === 'flat')).toHaveLength(2)
+      expect(useHistoryStore.getState().entries.at(-1)?.label).toBe('Set flat tangents')
+    })
+
+    it('adds a channel key on the curve and removes channel keys', () => {
+      const { trackId, a } = setup()
+      const ref = useAnimationStore.getState().addChannelKey(trackId, 'position', 'x', 1)!
+
+      const added = positionKeys().find(kf => kf.id === ref.keyframeId)
+      expect(added).toMatchObject({ time: 1, channel: 'x', tangent: 'auto', value: { x: 2 } })
+      expect(useHistoryStore.getState().entries.at(-1)?.label).toBe('Add key')
+
+      useAnimationStore.getState().removeChannelKeys(trackId, [ref, { keyframeId: `${a}_y`, axis: 'y' }])
+      expect(positionKeys()).toHaveLength(5)
+      expect(useHistoryStore.getState().entries.at(-1)?.label).toBe('Delete 2 keys')
+    })
+
+    it('ignores unknown tracks', () => {
+      setup()
+      expect(useAnimationStore.getState().addChannelKey('missing', 'position', 'x', 1)).toBeNull()
+      expect(useHistoryStore.getState().entries).toHaveLength(1)
+    })
+  })
+
+  describe('property path actions', () => {
+    beforeEach(() => {
+      useHistoryStore.getState().clear()
+    })
+
+    it('keys a path at the playhead, creating the track', () => {
+      useAnimationStore.getState().setCurrentTime(1.5)
+      const id = useAnimationStore.getState().keyPropertyPath('box-obj', 'material.opacity', 0.25)
+
+      const [track] = useAnimationStore.getState().tracks
+      expect(track.objectId).toBe('box-obj')
+      expect(track.keyframes).toEqual([
+        { id, time: 1.5, property: 'material.opacity', value: { x: 0.25, y: 0, z: 0 }, easing: 'linear' },
+      ])
+      expect(useHistoryStore.getState().entries.at(-1)?.label).toBe('Key opacity')
+    })
+
+    it('stores colors as RGB and flags as 0 or 1', () => {
+      const { keyPropertyPath } = useAnimationStore.getState()
+      keyPropertyPath(ENVIRONMENT_TRACK_OBJECT_ID, 'environment.backgroundColor', '#ff0000', 0)
+      keyPropertyPath('box-obj', 'visible', false, 1)
+
+      const [environment, box] = useAnimationStore.getState().tracks
+      expect(environment.objectId).toBe(ENVIRONMENT_TRACK_OBJECT_ID)
+      expect(environment.keyframes[0].value).toEqual({ x: 1, y: 0, z: 0 })
+      expect(box.keyframes[0].value).toEqual({ x: 0, y: 0, z: 0 })
+    })
+
+    it('replaces a key of the same path at that time and keeps others', () => {
+      const { keyPropertyPath, addKeyframe } = useAnimationStore.getState()
+      keyPropertyPath('box-obj', 'material.opacity', 1, 2)
+      const trackId = useAnimationStore.getState().tracks[0].id
+      addKeyframe(trackId, 2, 'position', { x: 1, y: 2, z: 3 })
+      keyPropertyPath('box-obj', 'material.opacity', 0.5, 2)
+
+      const keys = useAnimationStore.getState().tracks[0].keyframes
+      expect(keys.map(kf => kf.property).sort()).toEqual(['material.opacity', 'position'])
+      expect(keys.find(kf => kf.property === 'material.opacity')?.value.x).toBe(0.5)
+
+      useHistoryStore.getState().undo()
+      expect(useAnimationStore.getState().tracks[0].keyframes.find(kf => kf.property === 'material.opacity')?.value.x).toBe(1)
+    })
+
+    it('clamps the key time to the timeline', () => {
+      useAnimationStore.getState().keyPropertyPath(ENVIRONMENT_TRACK_OBJECT_ID, 'environment.fogNear', 4, 9)
+      expect(useAnimationStore.getState().tracks[0].keyframes[0].time).toBe(5)
+    })
+  })
 })
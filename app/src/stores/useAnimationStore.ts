@@ -1,6 +1,56 @@
 import { create } from 'zustand'
-import type { AnimationKeyframe, AnimationTrack, AnimatableProperty, EasingType, Vec3 } from '../types/scene'
+import type { AnimationKeyframe, AnimationTrack, AnimatableProperty, ChannelAxis, EasingType, PropertyPath, TangentMode, Vec3 } from '../types/scene'
 import { generateKeyframeId, generateTrackId, CAMERA_TRACK_OBJECT_ID } from '../core/animation'
+import {
+  DEFAULT_FRAME_RATE,
+  PROPERTY_LABELS,
+  moveKeyframes as moveCoreKeyframes,
+  scaleKeyframes as scaleCoreKeyframes,
+  removeKeyframes as removeCoreKeyframes,
+  copyKeyframes as copyCoreKeyframes,
+  pasteKeyframes as pasteCoreKeyframes,
+  type KeyframeClipboard,
+  type KeyframeRef,
+} from '../core/dopeSheet'
+import {
+  addChannelKey as addCoreChannelKey,
+  removeChannelKeys as removeCoreChannelKeys,
+  setKeyTangents,
+  updateChannelKeys as updateCoreChannelKeys,
+  type ChannelKeyEdit,
+  type ChannelKeyRef,
+} from '../core/graphEditor'
+import { encodePropertyValue, getPropertyValueType, type PropertyValue } from '../core/propertyPaths'
+import { countLabel } from '../core/history'
+import { recordHistory, registerHistoryDomain } from './useHistoryStore'
+
+/** "Move keyframe" for a retime, "Change easing" for easing or handles, "Edit keyframe" otherwise */
+function describeKeyframeUpdate(updates: Partial<AnimationKeyframe>): string {
+  const keys = Object.keys(updates)
+  if (keys.length === 1 && keys[0] === 'time') return 'Move keyframe'
+  if (keys.length > 0 && keys.every(key => key === 'easing' || key === 'bezier')) return 'Change easing'
+  return 'Edit keyframe'
+}
+
+/** "Move key" for a retime, "Change tangent" for slopes, "Edit key" otherwise, per channel key */
+function describeChannelEdits(edits: ChannelKeyEdit[]): string {
+  const count = edits.length
+  const fields = new Set(edits.flatMap(edit => Object.keys(edit).filter(key => key !== 'ref')))
+  const keys = count === 1 ? 'key' : countLabel(count, 'key')
+  if ([...fields].every(field => field === 'inSlope' || field === 'outSlope')) return 'Change tangent'
+  if ([...fields].every(field => field === 'time' || field === 'value')) return `Move ${keys}`
+  return `Edit ${keys}`
+}
+
+/** Apply fn to one track, leaving the others as they are */
+function mapTrack(tracks: AnimationTrack[], trackId: string, fn: (track: AnimationTrack) => AnimationTrack): AnimationTrack[] {
+  return tracks.map(track => track.id === trackId ? fn(track) : track)
+}
+
+/** "Move keyframe" for one key, "Move 3 keyframes" for a group */
+function describeKeyframes(verb: string, count: number): string {
+  return count === 1 ? `${verb} keyframe` : `${verb} ${countLabel(count, 'keyframe')}`
+}
 
 interface AnimationState {
   // Timeline data
@@ -13,6 +63,11 @@ interface AnimationState {
   playbackSpeed: number
   loop: boolean
 
+  // Dope sheet
+  frameRate: number
+  snapToFrames: boolean
+  keyframeClipboard: KeyframeClipboard | null
+
   // Actions - tracks
   addTrack: (objectId: string) => string
   removeTrack: (trackId: string) => void
@@ -23,6 +78,24 @@ interface AnimationState {
   updateKeyframe: (trackId: string, keyframeId: string, updates: Partial<AnimationKeyframe>) => void
   removeKeyframe: (trackId: string, keyframeId: string) => void
 
+  // Actions - dope sheet (groups of keyframes across tracks)
+  moveKeyframes: (refs: KeyframeRef[], delta: number) => number
+  scaleKeyframes: (refs: KeyframeRef[], factor: number, pivot?: number) => void
+  removeKeyframes: (refs: KeyframeRef[]) => void
+  copyKeyframes: (refs: KeyframeRef[]) => void
+  pasteKeyframes: (objectIds?: string[], time?: number) => KeyframeRef[]
+  setFrameRate: (fps: number) => void
+  setSnapToFrames: (snap: boolean) => void
+
+  // Actions - graph editor (channel keys of one track; whole-Vec3 keys split on first edit)
+  updateChannelKeys: (trackId: string, edits: ChannelKeyEdit[]) => ChannelKeyRef[]
+  setTangentMode: (trackId: string, refs: ChannelKeyRef[], mode: TangentMode) => ChannelKeyRef[]
+  addChannelKey: (trackId: string, property: AnimatableProperty, axis: ChannelAxis, time: number, value?: number) => ChannelKeyRef | null
+  removeChannelKeys: (trackId: string, refs: ChannelKeyRef[]) => void
+
+  // Actions - property paths (material, visibility and environment fields)
+  keyPropertyPath: (objectId: string, path: PropertyPath, value: PropertyValue, time?: number) => string
+
   // Actions - playback
   setCurrentTime: (time: number) => void
   play: () => void
@@ -43,9 +116,11 @@ interface AnimationState {
   captureSceneKeyframe: (
     cameraPos: Vec3,
     cameraTarget: Vec3,
-    trackedObjects: Array<{ id: string; position: Vec3; rotation: Vec3; scale: Vec3 }>,
+    trackedObjects: Array<{ id: string; position: Vec3; rotation: Vec3; scale: Vec3; lightColor?: Vec3; lightParams?: Vec3 }>,
     time?: number,
     easing?: EasingType,
+    cameraLens?: Vec3,
+    cameraFocus?: Vec3,
   ) => void
 
   // Serialization helpers
@@ -60,34 +135,37 @@ export const useAnimationStore = create<AnimationState>((set, get) => ({
   isPlaying: false,
   playbackSpeed: 1,
   loop: true,
+  frameRate: DEFAULT_FRAME_RATE,
+  snapToFrames: true,
+  keyframeClipboard: null,
 
   // ── Track Actions ──────────────────────────────────────────────────
 
   addTrack: (objectId: string) => {
     const id = generateTrackId()
-    set(state => ({
+    recordHistory('Add animation track', () => set(state => ({
       tracks: [...state.tracks, { id, objectId, keyframes: [] }],
-    }))
+    })))
     return id
   },
 
   removeTrack: (trackId: string) => {
-    set(state => ({
+    recordHistory('Delete animation track', () => set(state => ({
       tracks: state.tracks.filter(t => t.id !== trackId),
-    }))
+    })))
   },
 
   removeTracksForObject: (objectId: string) => {
-    set(state => ({
+    recordHistory('Delete animation track', () => set(state => ({
       tracks: state.tracks.filter(t => t.objectId !== objectId),
-    }))
+    })))
   },
 
   // ── Keyframe Actions ──────────────────────────────────────────────
 
   addKeyframe: (trackId, time, property, value, easing = 'linear') => {
     const kfId = generateKeyframeId()
-    set(state => ({
+    recordHistory('Add keyframe', () => set(state => ({
       tracks: state.tracks.map(track =>
         track.id === trackId
           ? {
@@ -97,12 +175,14 @@ export const useAnimationStore = create<AnimationState>((set, get) => ({
             }
           : track,
       ),
-    }))
+    })))
     return kfId
   },
 
   updateKeyframe: (trackId, keyframeId, updates) => {
-    set(state => ({
+    // Dragging a keyframe or a handle sends a stream of updates; they coalesce per keyframe and field set
+    const keys = Object.keys(updates).sort().join(',')
+    recordHistory(describeKeyframeUpdate(updates), () => set(state => ({
       tracks: state.tracks.map(track =>
         track.id === trackId
           ? {
@@ -113,17 +193,157 @@ export const useAnimationStore = create<AnimationState>((set, get) => ({
             }
           : track,
       ),
-    }))
+    })), { coalesceKey: `keyframe:${keyframeId}:${keys}` })
   },
 
   removeKeyframe: (trackId, keyframeId) => {
-    set(state => ({
+    recordHistory('Delete keyframe', () => set(state => ({
       tracks: state.tracks.map(track =>
         track.id === trackId
           ? { ...track, keyframes: track.keyframes.filter(kf => kf.id !== keyframeId) }
           : track,
       ),
+    })))
+  },
+
+  // ── Dope Sheet Actions ────────────────────────────────────────────
+
+  moveKeyframes: (refs, delta) => {
+    let applied = 0
+    // A drag sends a stream of moves for the same keys; they coalesce into one step
+    const ids = refs.map(ref => ref.keyframeId).sort().join(',')
+    recordHistory(describeKeyframes('Move', refs.length), () => set(state => {
+      const result = moveCoreKeyframes(state.tracks, refs, delta, {
+        duration: state.duration,
+        fps: state.snapToFrames ? state.frameRate : undefined,
+      })
+      applied = result.delta
+      return { tracks: result.tracks }
+    }), { coalesceKey: `keyframes:move:${ids}` })
+    return applied
+  },
+
+  scaleKeyframes: (refs, factor, pivot) => {
+    recordHistory(describeKeyframes('Scale', refs.length), () => set(state => ({
+      tracks: scaleCoreKeyframes(state.tracks, refs, factor, pivot ?? state.currentTime, {
+        duration: state.duration,
+        fps: state.snapToFrames ? state.frameRate : undefined,
+      }),
+    })))
+  },
+
+  removeKeyframes: (refs) => {
+    recordHistory(describeKeyframes('Delete', refs.length), () => set(state => ({
+      tracks: removeCoreKeyframes(state.tracks, refs),
+    })))
+  },
+
+  copyKeyframes: (refs) => {
+    const clipboard = copyCoreKeyframes(get().tracks, refs)
+    if (clipboard) set({ keyframeClipboard: clipboard })
+  },
+
+  pasteKeyframes: (objectIds, time) => {
+    const { keyframeClipboard, tracks, currentTime, duration, snapToFrames, frameRate } = get()
+    if (!keyframeClipboard) return []
+
+    // Without targets the keys go back onto the objects they came from
+    const targets = objectIds && objectIds.length > 0 ? objectIds : keyframeClipboard.groups.map(g => g.objectId)
+    const result = pasteCoreKeyframes(tracks, keyframeClipboard, targets, time ?? currentTime, {
+      duration,
+      fps: snapToFrames ? frameRate : undefined,
+    })
+    if (result.pasted.length === 0) return []
+    recordHistory(describeKeyframes('Paste', result.pasted.length), () => set({ tracks: result.tracks }))
+    return result.pasted
+  },
+
+  setFrameRate: (fps) => {
+    if (fps > 0) set({ frameRate: fps })
+  },
+
+  setSnapToFrames: (snap) => set({ snapToFrames: snap }),
+
+  // ── Graph Editor Actions ──────────────────────────────────────────
+
+  updateChannelKeys: (trackId, edits) => {
+    const { tracks, duration } = get()
+    const track = tracks.find(t => t.id === trackId)
+    if (!track || edits.length === 0) return edits.map(edit => edit.ref)
+
+    const clamped = edits.map(edit => edit.time === undefined
+      ? edit
+      : { ...edit, time: Math.max(0, Math.min(duration, edit.time)) })
+    const result = updateCoreChannelKeys(track, clamped)
+
+    // A drag streams edits to the same keys; keyed on the split ids so the edit that splits joins the drag
+    const ids = result.refs.map(ref => ref.keyframeId).sort().join(',')
+    const fields = [...new Set(edits.flatMap(edit => Object.keys(edit)))].sort().join(',')
+    recordHistory(describeChannelEdits(edits), () => set(state => ({
+      tracks: mapTrack(state.tracks, trackId, () => result.track),
+    })), { coalesceKey: `channel:${ids}:${fields}` })
+    return result.refs
+  },
+
+  setTangentMode: (trackId, refs, mode) => {
+    const track = get().tracks.find(t => t.id === trackId)
+    if (!track || refs.length === 0) return refs
+    const result = setKeyTangents(track, refs, mode)
+    recordHistory(`Set ${mode} tangents`, () => set(state => ({
+      tracks: mapTrack(state.tracks, trackId, () => result.track),
+    })))
+    return result.refs
+  },
+
+  addChannelKey: (trackId, property, axis, time, value) => {
+    const track = get().tracks.find(t => t.id === trackId)
+    if (!track) return null
+    const at = Math.max(0, Math.min(get().duration, time))
+    const result = addCoreChannelKey(track, property, axis, at, value)
+    recordHistory('Add key', () => set(state => ({
+      tracks: mapTrack(state.tracks, trackId, () => result.track),
+    })))
+    return result.ref
+  },
+
+  removeChannelKeys: (trackId, refs) => {
+    if (refs.length === 0) return
+    recordHistory(refs.length === 1 ? 'Delete key' : `Delete ${countLabel(refs.length, 'key')}`, () => set(state => ({
+      tracks: mapTrack(state.tracks, trackId, track => removeCoreChannelKeys(track, refs)),
+    })))
+  },
+
+  // ── Property Path Actions ─────────────────────────────────────────
+
+  keyPropertyPath: (objectId, path, value, time) => {
+    const TIME_THRESHOLD = 0.001
+    const id = generateKeyframeId()
+    recordHistory(`Key ${PROPERTY_LABELS[path].toLowerCase()}`, () => set(state => {
+      const at = Math.max(0, Math.min(state.duration, time ?? state.currentTime))
+      const key: AnimationKeyframe = {
+        id,
+        time: at,
+        property: path,
+        value: encodePropertyValue(getPropertyValueType(path), value),
+        easing: 'linear',
+      }
+
+      const existing = state.tracks.find(t => t.objectId === objectId)
+      if (!existing) {
+        return { tracks: [...state.tracks, { id: generateTrackId(), objectId, keyframes: [key] }] }
+      }
+      // A new key replaces the path's keys at that time, whole or per channel
+      return {
+        tracks: mapTrack(state.tracks, existing.id, track => ({
+          ...track,
+          keyframes: [
+            ...track.keyframes.filter(kf => !(kf.property === path && Math.abs(kf.time - at) < TIME_THRESHOLD)),
+            key,
+          ].sort((a, b) => a.time - b.time),
+        })),
+      }
     }))
+    return id
   },
 
   // ── Playback Actions ──────────────────────────────────────────────
@@ -141,7 +361,9 @@ export const useAnimationStore = create<AnimationState>((set, get) => ({
 
   togglePlayback: () => set(state => ({ isPlaying: !state.isPlaying })),
 
-  setDuration: (duration) => set({ duration: Math.max(0.1, duration) }),
+  setDuration: (duration) => recordHistory('Set timeline duration', () => set({ duration: Math.max(0.1, duration) }), {
+    coalesceKey: 'timeline:duration',
+  }),
 
   setPlaybackSpeed: (speed) => set({ playbackSpeed: Math.max(0.1, Math.min(4, speed)) }),
 
@@ -168,10 +390,10 @@ export const useAnimationStore = create<AnimationState>((set, get) => ({
 
   // ── Scene Keyframe Capture ────────────────────────────────────────
 
-  captureSceneKeyframe: (cameraPos, cameraTarget, trackedObjects, time, easing = 'linear') => {
+  captureSceneKeyframe: (cameraPos, cameraTarget, trackedObjects, time, easing = 'linear', cameraLens, cameraFocus) => {
     const captureTime = time ?? get().currentTime
 
-    set(state => {
+    recordHistory('Capture keyframe', () => set(state => {
       const newTracks = [...state.tracks]
 
       // ── Helper: upsert keyframes into a track's keyframe array ──
@@ -207,6 +429,8 @@ export const useAnimationStore = create<AnimationState>((set, get) => ({
       let camKfs = newTracks[cameraTrackIdx].keyframes
       camKfs = upsertKeyframe(camKfs, captureTime, 'cameraPosition', cameraPos)
       camKfs = upsertKeyframe(camKfs, captureTime, 'cameraTarget', cameraTarget)
+      if (cameraLens) camKfs = upsertKeyframe(camKfs, captureTime, 'cameraLens', cameraLens)
+      if (cameraFocus) camKfs = upsertKeyframe(camKfs, captureTime, 'cameraFocus', cameraFocus)
       newTracks[cameraTrackIdx] = { ...newTracks[cameraTrackIdx], keyframes: camKfs }
 
       // ── Upsert object keyframes ──
@@ -221,11 +445,13 @@ export const useAnimationStore = create<AnimationState>((set, get) => ({
         kfs = upsertKeyframe(kfs, captureTime, 'position', obj.position)
         kfs = upsertKeyframe(kfs, captureTime, 'rotation', obj.rotation)
         kfs = upsertKeyframe(kfs, captureTime, 'scale', obj.scale)
+        if (obj.lightColor) kfs = upsertKeyframe(kfs, captureTime, 'lightColor', obj.lightColor)
+        if (obj.lightParams) kfs = upsertKeyframe(kfs, captureTime, 'lightParams', obj.lightParams)
         newTracks[trackIdx] = { ...newTracks[trackIdx], keyframes: kfs }
       }
 
       return { tracks: newTracks }
-    })
+    }))
   },
 
   // ── Serialization ─────────────────────────────────────────────────
@@ -245,6 +471,15 @@ export const useAnimationStore = create<AnimationState>((set, get) => ({
       duration: 5,
       currentTime: 0,
       isPlaying: false,
+      keyframeClipboard: null,
     })
   },
 }))
+
+registerHistoryDomain<Pick<AnimationState, 'tracks' | 'duration'>>('animation', {
+  capture: () => {
+    const { tracks, duration } = useAnimationStore.getState()
+    return { tracks, duration }
+  },
+  restore: (value) => useAnimationStore.setState(value),
+})
@@ -239,6 +239,21 @@ describe('useCameraPathStore', () => {
       expect(store.getState().paths[0].points[0].target).toEqual({ x: 1, y: 2, z: 3 })
     })
 
+    it('gives the first point the default lens and later points the previous lens', () => {
+      store.getState().addPoint(pathId)
+      expect(store.getState().paths[0].points[0].lens).toEqual({ focalLength: 24, sensor: 'full-frame', roll: 0 })
+
+      const firstId = store.getState().paths[0].points[0].id
+      store.getState().updatePoint(pathId, firstId, { lens: { focalLength: 85, sensor: 'super35', roll: 4 } })
+      store.getState().addPoint(pathId)
+      expect(store.getState().paths[0].points[1].lens).toEqual({ focalLength: 85, sensor: 'super35', roll: 4 })
+    })
+
+    it('uses a custom lens when provided', () => {
+      store.getState().addPoint(pathId, undefined, undefined, { focalLength: 135, sensor: 'alexa-65', roll: 0 })
+      expect(store.getState().paths[0].points[0].lens?.focalLength).toBe(135)
+    })
+
     it('second point offsets position from last point', () => {
       store.getState().addPoint(pathId, { x: 0, y: 0, z: 0 })
       store.getState().addPoint(pathId)
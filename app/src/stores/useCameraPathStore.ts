@@ -1,7 +1,9 @@
 import { create } from 'zustand'
 import type { Vec3 } from '../types/scene'
-import type { CameraPath, CameraPathPoint, CameraPathPlaybackState } from '../types/cameraPath'
+import type { CameraLens, CameraPath, CameraPathPoint, CameraPathPlaybackState } from '../types/cameraPath'
 import { generatePathId, generatePointId, resetPathIdCounters } from '../core/cameraPath'
+import { createDefaultLens } from '../core/lens'
+import { recordHistory, registerHistoryDomain } from './useHistoryStore'
 
 export interface CameraPathStoreState {
   paths: CameraPath[]
@@ -18,9 +20,9 @@ export interface CameraPathStoreState {
   updatePath: (id: string, updates: Partial<Pick<CameraPath, 'name' | 'duration' | 'loop' | 'easing'>>) => void
 
   // Point CRUD
-  addPoint: (pathId: string, position?: Vec3, target?: Vec3) => string
+  addPoint: (pathId: string, position?: Vec3, target?: Vec3, lens?: CameraLens) => string
   removePoint: (pathId: string, pointId: string) => void
-  updatePoint: (pathId: string, pointId: string, updates: Partial<Pick<CameraPathPoint, 'position' | 'target' | 'time' | 'tension'>>) => void
+  updatePoint: (pathId: string, pointId: string, updates: Partial<Pick<CameraPathPoint, 'position' | 'target' | 'time' | 'tension' | 'lens'>>) => void
   setSelectedPoint: (pointId: string | null) => void
 
   // Playback
@@ -62,19 +64,19 @@ export function createCameraPathStore() {
         loop: false,
         easing: 'ease-in-out',
       }
-      set(state => ({
+      recordHistory('Add camera path', () => set(state => ({
         paths: [...state.paths, newPath],
         activePathId: id,
-      }))
+      })))
       return id
     },
 
     removePath: (id: string) => {
-      set(state => ({
+      recordHistory('Delete camera path', () => set(state => ({
         paths: state.paths.filter(p => p.id !== id),
         activePathId: state.activePathId === id ? null : state.activePathId,
         selectedPointId: state.activePathId === id ? null : state.selectedPointId,
-      }))
+      })))
     },
 
     setActivePath: (id: string | null) => {
@@ -82,18 +84,19 @@ export function createCameraPathStore() {
     },
 
     updatePath: (id, updates) => {
-      set(state => ({
+      const keys = Object.keys(updates).sort().join(',')
+      recordHistory('Edit camera path', () => set(state => ({
         paths: state.paths.map(p =>
           p.id === id ? { ...p, ...updates } : p,
         ),
-      }))
+      })), { coalesceKey: `path:${id}:${keys}` })
     },
 
     // ── Point CRUD ─────────────────────────────────────────────────────
 
-    addPoint: (pathId, position, target) => {
+    addPoint: (pathId, position, target, lens) => {
       const pointId = generatePointId()
-      set(state => ({
+      recordHistory('Add path point', () => set(state => ({
         paths: state.paths.map(p => {
           if (p.id !== pathId) return p
           const lastPoint = p.points[p.points.length - 1]
@@ -105,28 +108,32 @@ export function createCameraPathStore() {
             target: target ? { ...target } : { x: 0, y: 0, z: 0 },
             time: lastPoint ? Math.min(lastPoint.time + 1, p.duration) : 0,
             tension: 0.5,
+            // New points keep the previous point's lens so a move doesn't zoom unasked
+            lens: { ...(lens ?? lastPoint?.lens ?? createDefaultLens()) },
           }
           const points = [...p.points, newPoint].sort((a, b) => a.time - b.time)
           return { ...p, points }
         }),
         selectedPointId: pointId,
-      }))
+      })))
       return pointId
     },
 
     removePoint: (pathId, pointId) => {
-      set(state => ({
+      recordHistory('Delete path point', () => set(state => ({
         paths: state.paths.map(p =>
           p.id === pathId
             ? { ...p, points: p.points.filter(pt => pt.id !== pointId) }
             : p,
         ),
         selectedPointId: state.selectedPointId === pointId ? null : state.selectedPointId,
-      }))
+      })))
     },
 
     updatePoint: (pathId, pointId, updates) => {
-      set(state => ({
+      const keys = Object.keys(updates).sort().join(',')
+      const label = keys === 'position' || keys === 'time' ? 'Move path point' : 'Edit path point'
+      recordHistory(label, () => set(state => ({
         paths: state.paths.map(p => {
           if (p.id !== pathId) return p
           const points = p.points
@@ -134,7 +141,7 @@ export function createCameraPathStore() {
             .sort((a, b) => a.time - b.time)
           return { ...p, points }
         }),
-      }))
+      })), { coalesceKey: `point:${pointId}:${keys}` })
     },
 
     setSelectedPoint: (pointId) => {
@@ -194,3 +201,17 @@ export function createCameraPathStore() {
 }
 
 export const useCameraPathStore = createCameraPathStore()
+
+registerHistoryDomain<CameraPath[]>('cameraPaths', {
+  capture: () => useCameraPathStore.getState().paths,
+  restore: (paths) => {
+    // Drop the active path or selected point if the restored paths no longer have them
+    const { activePathId, selectedPointId } = useCameraPathStore.getState()
+    const active = paths.find(p => p.id === activePathId)
+    useCameraPathStore.setState({
+      paths,
+      activePathId: active ? activePathId : null,
+      selectedPointId: active?.points.some(pt => pt.id === selectedPointId) ? selectedPointId : null,
+    })
+  },
+})
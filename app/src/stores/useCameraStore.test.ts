@@ -1,5 +1,8 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest'
 import { useCameraStore, resetShotIdCounter } from './useCameraStore'
+import { createDefaultLens } from '../core/lens'
+import { createDefaultFocus } from '../core/focus'
+import { createDefaultOverlaySettings } from '../core/overlays'
 import type { CameraShot } from '../types/cameraPath'
 
 // Mock CameraControls interface - minimal mock matching what the store uses
@@ -19,6 +22,10 @@ function resetStore() {
   useCameraStore.setState({
     activePreset: null,
     controlsRef: null,
+    lens: createDefaultLens(),
+    focus: createDefaultFocus(),
+    focusPicking: false,
+    overlays: createDefaultOverlaySettings(),
     shots: [],
     activeShotId: null,
   })
@@ -271,6 +278,97 @@ describe('useCameraStore', () => {
     })
   })
 
+  describe('lens', () => {
+    it('merges and clamps lens updates', () => {
+      useCameraStore.getState().setLens({ focalLength: 85, sensor: 'alexa-lf' })
+      useCameraStore.getState().setLens({ roll: -120 })
+      expect(useCameraStore.getState().lens).toEqual({ focalLength: 85, sensor: 'alexa-lf', roll: -90 })
+    })
+
+    it('captures the lens with each shot', () => {
+      useCameraStore.getState().setControlsRef(createMockControls() as never)
+      useCameraStore.getState().setLens({ focalLength: 35, roll: 8 })
+
+      const id = useCameraStore.getState().captureShot()!
+      useCameraStore.getState().setLens({ focalLength: 135, roll: 0 })
+      expect(useCameraStore.getState().shots[0].lens).toEqual({ focalLength: 35, sensor: 'full-frame', roll: 8 })
+
+      useCameraStore.getState().goToShot(id)
+      expect(useCameraStore.getState().lens).toEqual({ focalLength: 35, sensor: 'full-frame', roll: 8 })
+    })
+
+    it('keeps the current lens for shots saved without one', () => {
+      useCameraStore.getState().setControlsRef(createMockControls() as never)
+      useCameraStore.getState().setLens({ focalLength: 50 })
+      useCameraStore.setState({
+        shots: [{ id: 'old', name: 'Old', position: { x: 1, y: 2, z: 3 }, target: { x: 0, y: 0, z: 0 }, createdAt: '' }],
+      })
+
+      useCameraStore.getState().goToShot('old')
+      expect(useCameraStore.getState().lens.focalLength).toBe(50)
+    })
+  })
+
+  describe('focus', () => {
+    it('merges and clamps focus updates', () => {
+      useCameraStore.getState().setFocus({ distance: 0, fStop: 1.4 })
+      useCameraStore.getState().setFocus({ targetId: 'obj_1' })
+      expect(useCameraStore.getState().focus).toEqual({ distance: 0.1, fStop: 1.4, targetId: 'obj_1' })
+
+      useCameraStore.getState().setFocus({ fStop: 64 })
+      expect(useCameraStore.getState().focus.fStop).toBe(32)
+    })
+
+    it('toggles focus picking', () => {
+      useCameraStore.getState().setFocusPicking(true)
+      expect(useCameraStore.getState().focusPicking).toBe(true)
+      useCameraStore.getState().setFocusPicking(false)
+      expect(useCameraStore.getState().focusPicking).toBe(false)
+    })
+
+    it('captures focus with each shot and restores it', () => {
+      useCameraStore.getState().setControlsRef(createMockControls() as never)
+      useCameraStore.getState().setFocus({ distance: 2, fStop: 2, targetId: 'hero' })
+
+      const id = useCameraStore.getState().captureShot()!
+      useCameraStore.getState().setFocus({ distance: 12, fStop: 8, targetId: null })
+      expect(useCameraStore.getState().shots[0].focus).toEqual({ distance: 2, fStop: 2, targetId: 'hero' })
+
+      useCameraStore.getState().goToShot(id)
+      expect(useCameraStore.getState().focus).toEqual({ distance: 2, fStop: 2, targetId: 'hero' })
+    })
+
+    it('keeps the current focus for shots saved without one', () => {
+      useCameraStore.getState().setControlsRef(createMockControls() as never)
+      useCameraStore.getState().setFocus({ distance: 7 })
+      useCameraStore.setState({
+        shots: [{ id: 'old', name: 'Old', position: { x: 1, y: 2, z: 3 }, target: { x: 0, y: 0, z: 0 }, createdAt: '' }],
+      })
+
+      useCameraStore.getState().goToShot('old')
+      expect(useCameraStore.getState().focus.distance).toBe(7)
+    })
+  })
+
+  describe('updateOverlays', () => {
+    it('starts with every overlay off', () => {
+      expect(useCameraStore.getState().overlays).toEqual(createDefaultOverlaySettings())
+    })
+
+    it('merges updates and clamps the mask opacity', () => {
+      useCameraStore.getState().updateOverlays({ aspect: '2.39:1', ruleOfThirds: true })
+      useCameraStore.getState().updateOverlays({ maskOpacity: 1.5 })
+
+      const overlays = useCameraStore.getState().overlays
+      expect(overlays.aspect).toBe('2.39:1')
+      expect(overlays.ruleOfThirds).toBe(true)
+      expect(overlays.maskOpacity).toBe(1)
+
+      useCameraStore.getState().updateOverlays({ maskOpacity: -0.2 })
+      expect(useCameraStore.getState().overlays.maskOpacity).toBe(0)
+    })
+  })
+
   describe('goToShot', () => {
     it('does nothing without controls ref', () => {
       const shot: CameraShot = {
@@ -1,10 +1,27 @@
 import { create } from 'zustand'
 import { findPreset } from '../core/cameraPresets'
+import { clampFocalLength, clampRoll, createDefaultLens } from '../core/lens'
+import { clampFStop, clampFocusDistance, createDefaultFocus } from '../core/focus'
+import { createDefaultOverlaySettings } from '../core/overlays'
+import { rebaseItems } from '../core/history'
 import type CameraControlsImpl from 'camera-controls'
-import type { CameraShot } from '../types/cameraPath'
+import type { CameraFocus, CameraLens, CameraShot } from '../types/cameraPath'
+import type { OverlaySettings } from '../types/overlay'
+import type { ViewRenderer } from '../types/export'
+import type { Vec3 } from '../types/scene'
+import { rebaseHistory, recordHistory, registerHistoryDomain } from './useHistoryStore'
 
 let shotIdCounter = 1
 
+/** Snapshot of the viewport camera */
+export interface CameraView {
+  position: Vec3
+  target: Vec3
+  fov: number       // vertical FOV in degrees
+  aspect: number
+  lens: CameraLens
+}
+
 function generateShotId(): string {
   return `shot_${Date.now()}_${shotIdCounter++}`
 }
@@ -16,6 +33,18 @@ export function resetShotIdCounter(): void {
 interface CameraState {
   activePreset: string | null
   controlsRef: CameraControlsImpl | null
+  /** Offscreen renders from any camera (storyboards, thumbnails); set while the viewport is mounted */
+  viewRenderer: ViewRenderer | null
+  /** The viewport's WebGL canvas, for real-time recording; set alongside viewRenderer */
+  viewportCanvas: HTMLCanvasElement | null
+  /** Lens on the viewport camera; the viewport derives its FOV and roll from it */
+  lens: CameraLens
+  /** Focus distance, aperture and focus target for depth of field */
+  focus: CameraFocus
+  /** While set, the next click on an object in the viewport makes it the focus target */
+  focusPicking: boolean
+  /** Delivery mask, safe frames, guides and HUD drawn over the viewport */
+  overlays: OverlaySettings
 
   // Shots
   shots: CameraShot[]
@@ -23,8 +52,14 @@ interface CameraState {
 
   // Actions - camera
   setControlsRef: (ref: CameraControlsImpl | null) => void
+  setViewRenderer: (renderer: ViewRenderer | null, canvas?: HTMLCanvasElement | null) => void
   goToPreset: (presetName: string) => void
   resetCamera: () => void
+  getCurrentView: () => CameraView | null
+  setLens: (updates: Partial<CameraLens>) => void
+  setFocus: (updates: Partial<CameraFocus>) => void
+  setFocusPicking: (picking: boolean) => void
+  updateOverlays: (updates: Partial<OverlaySettings>) => void
 
   // Actions - shots
   captureShot: (name?: string) => string | null
@@ -40,11 +75,19 @@ interface CameraState {
 export const useCameraStore = create<CameraState>((set, get) => ({
   activePreset: null,
   controlsRef: null,
+  viewRenderer: null,
+  viewportCanvas: null,
+  lens: createDefaultLens(),
+  focus: createDefaultFocus(),
+  focusPicking: false,
+  overlays: createDefaultOverlaySettings(),
   shots: [],
   activeShotId: null,
 
   setControlsRef: (ref) => set({ controlsRef: ref }),
 
+  setViewRenderer: (renderer, canvas = null) => set({ viewRenderer: renderer, viewportCanvas: canvas }),
+
   goToPreset: (presetName: string) => {
     const { controlsRef } = get()
     if (!controlsRef) return
@@ -71,15 +114,15 @@ export const useCameraStore = create<CameraState>((set, get) => ({
     set({ activePreset: null })
   },
 
-  // ── Shot actions ─────────────────────────────────────────────────
-
-  captureShot: (name?: string) => {
-    const { controlsRef, shots } = get()
+  getCurrentView: () => {
+    const { controlsRef } = get()
     if (!controlsRef) return null
 
     // Read current camera position and target
     const pos = { x: 0, y: 0, z: 0 }
     const tgt = { x: 0, y: 0, z: 0 }
+    let fov = 50
+    let aspect = 16 / 9
 
     // camera-controls stores position/target internally
     const camera = controlsRef.camera
@@ -87,6 +130,9 @@ export const useCameraStore = create<CameraState>((set, get) => ({
       pos.x = camera.position.x
       pos.y = camera.position.y
       pos.z = camera.position.z
+      const perspective = camera as THREE.PerspectiveCamera
+      if (typeof perspective.fov === 'number') fov = perspective.fov
+      if (typeof perspective.aspect === 'number') aspect = perspective.aspect
     }
 
     // Get the target from camera-controls
@@ -97,6 +143,49 @@ export const useCameraStore = create<CameraState>((set, get) => ({
       tgt.z = target.z
     }
 
+    return { position: pos, target: tgt, fov, aspect, lens: { ...get().lens } }
+  },
+
+  setLens: (updates) => {
+    const next = { ...get().lens, ...updates }
+    set({
+      lens: {
+        focalLength: clampFocalLength(next.focalLength),
+        sensor: next.sensor,
+        roll: clampRoll(next.roll),
+      },
+    })
+  },
+
+  setFocus: (updates) => {
+    const next = { ...get().focus, ...updates }
+    set({
+      focus: {
+        distance: clampFocusDistance(next.distance),
+        fStop: clampFStop(next.fStop),
+        targetId: next.targetId,
+      },
+    })
+  },
+
+  setFocusPicking: (picking) => set({ focusPicking: picking }),
+
+  updateOverlays: (updates) => {
+    const next = { ...get().overlays, ...updates }
+    next.maskOpacity = Math.min(1, Math.max(0, next.maskOpacity))
+    set({ overlays: next })
+  },
+
+  // ── Shot actions ─────────────────────────────────────────────────
+
+  captureShot: (name?: string) => {
+    const { shots } = get()
+    const view = get().getCurrentView()
+    if (!view) return null
+
+    const pos = view.position
+    const tgt = view.target
+
     const shotName = name || `Shot ${shots.length + 1}`
     const id = generateShotId()
 
@@ -105,35 +194,36 @@ export const useCameraStore = create<CameraState>((set, get) => ({
       name: shotName,
       position: pos,
       target: tgt,
+      lens: view.lens,
+      focus: { ...get().focus },
+      aspect: view.aspect,
       createdAt: new Date().toISOString(),
     }
 
-    set({
+    recordHistory('Capture shot', () => set({
       shots: [...shots, shot],
       activeShotId: id,
-    })
+    }))
 
     return id
   },
 
   removeShot: (id: string) => {
+    // The thumbnail stays alive: undo can bring the shot back
     const { shots, activeShotId } = get()
-    const oldUrl = shots.find(s => s.id === id)?.thumbnail
-    if (oldUrl && oldUrl.startsWith('blob:')) {
-      URL.revokeObjectURL(oldUrl)
-    }
-    set({
+    recordHistory('Delete shot', () => set({
       shots: shots.filter(s => s.id !== id),
       activeShotId: activeShotId === id ? null : activeShotId,
-    })
+    }))
   },
 
   updateShot: (id: string, updates: Partial<Pick<CameraShot, 'name' | 'notes'>>) => {
-    set({
+    const keys = Object.keys(updates).sort().join(',')
+    recordHistory(keys === 'notes' ? 'Edit shot notes' : 'Rename shot', () => set({
       shots: get().shots.map(s =>
         s.id === id ? { ...s, ...updates } : s,
       ),
-    })
+    }), { coalesceKey: `shot:${id}:${keys}` })
   },
 
   goToShot: (id: string) => {
@@ -150,7 +240,13 @@ export const useCameraStore = create<CameraState>((set, get) => ({
       true, // smooth transition
     )
 
-    set({ activeShotId: id, activePreset: null })
+    // Shots saved before the lens model or depth of field keep the camera's current settings
+    set({
+      activeShotId: id,
+      activePreset: null,
+      ...(shot.lens ? { lens: { ...shot.lens } } : {}),
+      ...(shot.focus ? { focus: { ...shot.focus } } : {}),
+    })
   },
 
   reorderShots: (fromIndex: number, toIndex: number) => {
@@ -161,10 +257,12 @@ export const useCameraStore = create<CameraState>((set, get) => ({
     const newShots = [...shots]
     const [moved] = newShots.splice(fromIndex, 1)
     newShots.splice(toIndex, 0, moved)
-    set({ shots: newShots })
+    recordHistory('Reorder shots', () => set({ shots: newShots }))
   },
 
   setShotThumbnail: (id: string, blobUrl: string) => {
+    // Thumbnails arrive after the capture; patch them into the history so undo/redo keeps them
+    rebaseHistory('shots', patch => rebaseItems(patch, new Set(), new Map([[id, { thumbnail: blobUrl }]])))
     set({
       shots: get().shots.map(s => {
         if (s.id !== id) return s
@@ -192,5 +290,16 @@ export const useCameraStore = create<CameraState>((set, get) => ({
   },
 }))
 
+registerHistoryDomain<CameraShot[]>('shots', {
+  capture: () => useCameraStore.getState().shots,
+  restore: (shots) => {
+    const { activeShotId } = useCameraStore.getState()
+    useCameraStore.setState({
+      shots,
+      activeShotId: shots.some(s => s.id === activeShotId) ? activeShotId : null,
+    })
+  },
+})
+
 // THREE import for type compatibility with camera-controls
 import * as THREE from 'three'
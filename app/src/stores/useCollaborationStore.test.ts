@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { createCollaborationStore } from './useCollaborationStore'
+import { DEFAULT_COLLAB_SERVER_URL } from '../core/wsClient'
+
+describe('useCollaborationStore', () => {
+  let store: ReturnType<typeof createCollaborationStore>
+
+  beforeEach(() => {
+    store = createCollaborationStore()
+  })
+
+  it('starts disconnected with the default server', () => {
+    const state = store.getState()
+    expect(state.status).toBe('disconnected')
+    expect(state.serverUrl).toBe(DEFAULT_COLLAB_SERVER_URL)
+    expect(state.peers).toEqual([])
+    expect(state.roomId).toBeNull()
+  })
+
+  it('normalizes the user name', () => {
+    store.getState().setUserName('  Bob  ')
+    expect(store.getState().userName).toBe('Bob')
+    store.getState().setUserName('   ')
+    expect(store.getState().userName).toBe('Anonymous')
+    store.getState().setUserName('x'.repeat(50))
+    expect(store.getState().userName).toHaveLength(32)
+  })
+
+  it('records the join handshake', () => {
+    store.getState().setSession({ roomId: 'room', peerId: 'me' })
+    store.getState().setError('old error')
+    store.getState().setJoined({
+      isHost: false,
+      hostPeerId: 'host',
+      peers: [{ peerId: 'host', userName: 'Hana', isHost: true }],
+    })
+
+    expect(store.getState()).toMatchObject({
+      status: 'connected', roomId: 'room', peerId: 'me', isHost: false, hostPeerId: 'host', error: null,
+    })
+    expect(store.getState().peers).toHaveLength(1)
+    // Servers without roles let everyone edit
+    expect(store.getState().role).toBe('editor')
+  })
+
+  it('records the role granted by the server', () => {
+    store.getState().setJoined({ isHost: false, hostPeerId: 'host', peers: [], role: 'viewer' })
+    expect(store.getState().role).toBe('viewer')
+
+    store.getState().reset()
+    expect(store.getState().role).toBeNull()
+  })
+
+  it('adds, updates and removes peers', () => {
+    store.getState().addPeer({ peerId: 'a', userName: 'A', isHost: false })
+    store.getState().addPeer({ peerId: 'b', userName: 'B', isHost: false })
+    store.getState().addPeer({ peerId: 'a', userName: 'A2', isHost: false })
+    expect(store.getState().peers.map(p => p.userName)).toEqual(['B', 'A2'])
+
+    store.getState().updatePeer('b', { selectedIds: ['obj1'] })
+    expect(store.getState().peers[0].selectedIds).toEqual(['obj1'])
+
+    store.getState().removePeer('b')
+    expect(store.getState().peers.map(p => p.peerId)).toEqual(['a'])
+  })
+
+  it('follows only known peers and stops when they leave', () => {
+    store.getState().addPeer({ peerId: 'a', userName: 'A', isHost: false })
+
+    store.getState().setFollowPeer('ghost')
+    expect(store.getState().followPeerId).toBeNull()
+
+    store.getState().setFollowPeer('a')
+    expect(store.getState().followPeerId).toBe('a')
+
+    store.getState().removePeer('a')
+    expect(store.getState().followPeerId).toBeNull()
+  })
+
+  it('stores the lease table until reset', () => {
+    store.getState().setLeases([{ objectId: 'obj1', peerId: 'a', userName: 'A', expiresAt: 1 }])
+    expect(store.getState().leases).toHaveLength(1)
+
+    store.getState().reset()
+    expect(store.getState().leases).toEqual([])
+  })
+
+  it('moves the host flag when the host changes', () => {
+    store.getState().setSession({ roomId: 'room', peerId: 'me' })
+    store.getState().setJoined({
+      isHost: false,
+      hostPeerId: 'old',
+      peers: [{ peerId: 'old', userName: 'Old', isHost: true }, { peerId: 'c', userName: 'C', isHost: false }],
+    })
+
+    store.getState().setHost('me')
+
+    expect(store.getState().isHost).toBe(true)
+    expect(store.getState().peers.every(p => !p.isHost)).toBe(true)
+  })
+
+  it('reset clears the session but keeps connection preferences', () => {
+    store.getState().setServerUrl('ws://example.com:9000')
+    store.getState().setUserName('Bob')
+    store.getState().setSession({ roomId: 'room', peerId: 'me' })
+    store.getState().setStatus('connected')
+
+    store.getState().reset()
+
+    expect(store.getState()).toMatchObject({
+      status: 'disconnected', roomId: null, peerId: null, serverUrl: 'ws://example.com:9000', userName: 'Bob',
+    })
+  })
+})
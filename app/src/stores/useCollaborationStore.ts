@@ -0,0 +1,117 @@
+/** Zustand store for collaboration session state (connection + peers) */
+
+import { create } from 'zustand'
+import type { CollabRole, ConnectionStatus, EditLease, Peer } from '../types/collaboration'
+import { DEFAULT_COLLAB_SERVER_URL } from '../core/wsClient'
+
+// ── Store Interface ─────────────────────────────────────────────────
+
+export interface CollaborationStoreState {
+  // State
+  status: ConnectionStatus
+  serverUrl: string
+  roomId: string | null
+  peerId: string | null
+  userName: string
+  isHost: boolean
+  hostPeerId: string | null
+  /** Role granted by the server; null until joined */
+  role: CollabRole | null
+  peers: Peer[]
+  /** Peer whose camera our viewport follows */
+  followPeerId: string | null
+  /** Room-wide edit leases (ours included) */
+  leases: EditLease[]
+  error: string | null
+
+  // Actions
+  setServerUrl: (url: string) => void
+  setUserName: (name: string) => void
+  setStatus: (status: ConnectionStatus) => void
+  setSession: (session: { roomId: string; peerId: string }) => void
+  setJoined: (joined: { isHost: boolean; hostPeerId: string | null; peers: Peer[]; role?: CollabRole }) => void
+  setHost: (hostPeerId: string) => void
+  addPeer: (peer: Peer) => void
+  removePeer: (peerId: string) => void
+  updatePeer: (peerId: string, updates: Partial<Omit<Peer, 'peerId'>>) => void
+  setFollowPeer: (peerId: string | null) => void
+  setLeases: (leases: EditLease[]) => void
+  setError: (error: string | null) => void
+  reset: () => void
+}
+
+// ── Defaults ────────────────────────────────────────────────────────
+
+const SESSION_DEFAULTS = {
+  status: 'disconnected' as ConnectionStatus,
+  roomId: null,
+  peerId: null,
+  isHost: false,
+  hostPeerId: null,
+  role: null,
+  peers: [],
+  followPeerId: null,
+  leases: [],
+  error: null,
+}
+
+// ── Factory (for testing) ───────────────────────────────────────────
+
+export function createCollaborationStore() {
+  return create<CollaborationStoreState>((set) => ({
+    ...SESSION_DEFAULTS,
+    serverUrl: DEFAULT_COLLAB_SERVER_URL,
+    userName: 'Anonymous',
+
+    setServerUrl: (url) => set({ serverUrl: url.trim() }),
+
+    setUserName: (name) => set({ userName: name.trim().slice(0, 32) || 'Anonymous' }),
+
+    setStatus: (status) => set({ status }),
+
+    setSession: ({ roomId, peerId }) => set({ roomId, peerId, peers: [], error: null }),
+
+    setJoined: ({ isHost, hostPeerId, peers, role }) => set({
+      status: 'connected',
+      isHost,
+      hostPeerId,
+      // Servers without roles let everyone edit
+      role: role ?? 'editor',
+      peers: [...peers],
+      error: null,
+    }),
+
+    setHost: (hostPeerId) => set(state => ({
+      hostPeerId,
+      isHost: hostPeerId === state.peerId,
+      peers: state.peers.map(p => ({ ...p, isHost: p.peerId === hostPeerId })),
+    })),
+
+    addPeer: (peer) => set(state => ({
+      peers: [...state.peers.filter(p => p.peerId !== peer.peerId), peer],
+    })),
+
+    removePeer: (peerId) => set(state => ({
+      peers: state.peers.filter(p => p.peerId !== peerId),
+      followPeerId: state.followPeerId === peerId ? null : state.followPeerId,
+    })),
+
+    updatePeer: (peerId, updates) => set(state => ({
+      peers: state.peers.map(p => p.peerId === peerId ? { ...p, ...updates } : p),
+    })),
+
+    setFollowPeer: (peerId) => set(state => ({
+      followPeerId: peerId !== null && state.peers.some(p => p.peerId === peerId) ? peerId : null,
+    })),
+
+    setLeases: (leases) => set({ leases: [...leases] }),
+
+    setError: (error) => set({ error }),
+
+    reset: () => set({ ...SESSION_DEFAULTS }),
+  }))
+}
+
+// ── Singleton ───────────────────────────────────────────────────────
+
+export const useCollaborationStore = createCollaborationStore()
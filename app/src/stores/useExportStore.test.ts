@@ -1,6 +1,8 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { createExportStore } from './useExportStore'
 import type { ExportStoreState } from './useExportStore'
+import { DEFAULT_STORYBOARD_OPTIONS } from '../core/storyboard'
+import { DEFAULT_EDITORIAL_OPTIONS } from '../core/editorial'
 import type { StoreApi, UseBoundStore } from 'zustand'
 
 // ── Helpers ──────────────────────────────────────────────────────────
@@ -191,6 +193,12 @@ describe('updateScreenshotOptions', () => {
 // ── updateVideoOptions ───────────────────────────────────────────────
 
 describe('updateVideoOptions', () => {
+  it('defaults to a video file and switches to an offline image sequence', () => {
+    expect(store.getState().videoOptions).toMatchObject({ output: 'video', frameFormat: 'png' })
+    store.getState().updateVideoOptions({ output: 'image-sequence', frameFormat: 'jpeg' })
+    expect(store.getState().videoOptions).toMatchObject({ output: 'image-sequence', frameFormat: 'jpeg' })
+  })
+
   it('updates width and clamps to range', () => {
     store.getState().updateVideoOptions({ width: 3840 })
     expect(store.getState().videoOptions.width).toBe(3840)
@@ -278,6 +286,45 @@ describe('updateVideoOptions', () => {
   })
 })
 
+// ── updateStoryboardOptions ──────────────────────────────────────────
+
+describe('updateStoryboardOptions', () => {
+  it('starts with the default storyboard options', () => {
+    expect(store.getState().storyboardOptions).toEqual(DEFAULT_STORYBOARD_OPTIONS)
+  })
+
+  it('updates layout fields', () => {
+    store.getState().updateStoryboardOptions({ orientation: 'portrait', columns: 2, rows: 3 })
+    expect(store.getState().storyboardOptions).toMatchObject({ orientation: 'portrait', columns: 2, rows: 3 })
+  })
+
+  it('clamps the grid and render resolution', () => {
+    store.getState().updateStoryboardOptions({ columns: 0, rows: 12.4, imageWidth: 10, imageHeight: 9000 })
+    expect(store.getState().storyboardOptions).toMatchObject({ columns: 1, rows: 6, imageWidth: 64, imageHeight: 4096 })
+  })
+
+  it('is restored by resetAllOptions', () => {
+    store.getState().updateStoryboardOptions({ format: 'png' })
+    store.getState().resetAllOptions()
+    expect(store.getState().storyboardOptions.format).toBe('pdf')
+  })
+})
+
+// ── updateEditorialOptions ───────────────────────────────────────────
+
+describe('updateEditorialOptions', () => {
+  it('starts with an EDL referencing movie files', () => {
+    expect(store.getState().editorialOptions).toEqual(DEFAULT_EDITORIAL_OPTIONS)
+  })
+
+  it('updates and resets the format and media', () => {
+    store.getState().updateEditorialOptions({ format: 'otio', media: 'image-sequence' })
+    expect(store.getState().editorialOptions).toEqual({ format: 'otio', media: 'image-sequence' })
+    store.getState().resetAllOptions()
+    expect(store.getState().editorialOptions).toEqual(DEFAULT_EDITORIAL_OPTIONS)
+  })
+})
+
 // ── setProgress ──────────────────────────────────────────────────────
 
 describe('setProgress', () => {
@@ -5,7 +5,11 @@ import type {
   GltfExportOptions, ScreenshotOptions, VideoRecordingOptions,
   ExportFormat, ExportProgress,
 } from '../types/export'
+import type { StoryboardOptions } from '../types/storyboard'
+import type { EditorialOptions } from '../types/editorial'
 import { DEFAULT_GLTF_OPTIONS, DEFAULT_SCREENSHOT_OPTIONS, DEFAULT_VIDEO_OPTIONS } from '../core/exportPipeline'
+import { DEFAULT_STORYBOARD_OPTIONS } from '../core/storyboard'
+import { DEFAULT_EDITORIAL_OPTIONS } from '../core/editorial'
 
 // ── Store Interface ─────────────────────────────────────────────────
 
@@ -14,6 +18,8 @@ export interface ExportStoreState {
   gltfOptions: GltfExportOptions
   screenshotOptions: ScreenshotOptions
   videoOptions: VideoRecordingOptions
+  storyboardOptions: StoryboardOptions
+  editorialOptions: EditorialOptions
   activeFormat: ExportFormat
   progress: ExportProgress
   lastExportFileName: string | null
@@ -23,6 +29,8 @@ export interface ExportStoreState {
   updateGltfOptions: (updates: Partial<GltfExportOptions>) => void
   updateScreenshotOptions: (updates: Partial<ScreenshotOptions>) => void
   updateVideoOptions: (updates: Partial<VideoRecordingOptions>) => void
+  updateStoryboardOptions: (updates: Partial<StoryboardOptions>) => void
+  updateEditorialOptions: (updates: Partial<EditorialOptions>) => void
   setProgress: (progress: Partial<ExportProgress>) => void
   resetProgress: () => void
   setLastExportFileName: (name: string | null) => void
@@ -103,6 +111,25 @@ function clampGltfOptions(updates: Partial<GltfExportOptions>): Partial<GltfExpo
   return clamped
 }
 
+function clampStoryboardOptions(updates: Partial<StoryboardOptions>): Partial<StoryboardOptions> {
+  const clamped: Partial<StoryboardOptions> = { ...updates }
+
+  if (clamped.columns !== undefined) {
+    clamped.columns = Math.round(clamp(clamped.columns, 1, 6))
+  }
+  if (clamped.rows !== undefined) {
+    clamped.rows = Math.round(clamp(clamped.rows, 1, 6))
+  }
+  if (clamped.imageWidth !== undefined) {
+    clamped.imageWidth = Math.round(clamp(clamped.imageWidth, 64, 4096))
+  }
+  if (clamped.imageHeight !== undefined) {
+    clamped.imageHeight = Math.round(clamp(clamped.imageHeight, 64, 4096))
+  }
+
+  return clamped
+}
+
 // ── Factory (for testing) ───────────────────────────────────────────
 
 export function createExportStore() {
@@ -111,6 +138,8 @@ export function createExportStore() {
     gltfOptions: { ...DEFAULT_GLTF_OPTIONS },
     screenshotOptions: { ...DEFAULT_SCREENSHOT_OPTIONS },
     videoOptions: { ...DEFAULT_VIDEO_OPTIONS },
+    storyboardOptions: { ...DEFAULT_STORYBOARD_OPTIONS },
+    editorialOptions: { ...DEFAULT_EDITORIAL_OPTIONS },
     activeFormat: 'gltf',
     progress: { ...DEFAULT_PROGRESS },
     lastExportFileName: null,
@@ -130,6 +159,14 @@ export function createExportStore() {
       videoOptions: { ...state.videoOptions, ...clampVideoOptions(updates) },
     })),
 
+    updateStoryboardOptions: (updates) => set(state => ({
+      storyboardOptions: { ...state.storyboardOptions, ...clampStoryboardOptions(updates) },
+    })),
+
+    updateEditorialOptions: (updates) => set(state => ({
+      editorialOptions: { ...state.editorialOptions, ...updates },
+    })),
+
     setProgress: (update) => set(state => {
       const merged = { ...state.progress, ...update }
       return {
@@ -150,6 +187,8 @@ export function createExportStore() {
       gltfOptions: { ...DEFAULT_GLTF_OPTIONS },
       screenshotOptions: { ...DEFAULT_SCREENSHOT_OPTIONS },
       videoOptions: { ...DEFAULT_VIDEO_OPTIONS },
+      storyboardOptions: { ...DEFAULT_STORYBOARD_OPTIONS },
+      editorialOptions: { ...DEFAULT_EDITORIAL_OPTIONS },
       activeFormat: 'gltf',
       progress: { ...DEFAULT_PROGRESS },
       lastExportFileName: null,
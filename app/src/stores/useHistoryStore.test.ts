@@ -0,0 +1,221 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { useHistoryStore, recordHistory, withoutHistory, sealHistory } from './useHistoryStore'
+import { useSceneStore } from './useSceneStore'
+import { useAnimationStore } from './useAnimationStore'
+import { usePostProcessingStore } from './usePostProcessingStore'
+import { useSequenceStore } from './useSequenceStore'
+import { useCameraPathStore } from './useCameraPathStore'
+import { createSceneObject } from '../core/sceneOperations'
+import { estimateSize, getHistorySize } from '../core/history'
+import type { SceneObject } from '../types/scene'
+
+function labels(): string[] {
+  return useHistoryStore.getState().entries.map(e => e.label)
+}
+
+describe('useHistoryStore', () => {
+  beforeEach(() => {
+    useSceneStore.getState().clearScene()
+    useCameraPathStore.getState().clearAll()
+    useHistoryStore.getState().clear()
+  })
+
+  // ── Recording ────────────────────────────────────────────────────────
+
+  describe('recording', () => {
+    it('labels commands from every store in one history', () => {
+      useSceneStore.getState().addObject('box')
+      const objectId = useSceneStore.getState().objects[0].id
+      const trackId = useAnimationStore.getState().addTrack(objectId)
+      useAnimationStore.getState().addKeyframe(trackId, 1, 'position', { x: 1, y: 0, z: 0 })
+      usePostProcessingStore.getState().updateBloom({ intensity: 2 })
+      useCameraPathStore.getState().addPath()
+
+      expect(labels()).toEqual([
+        'New scene', 'Add Box 1', 'Add animation track', 'Add keyframe', 'Edit bloom', 'Add camera path',
+      ])
+      expect(useHistoryStore.getState().index).toBe(5)
+    })
+
+    it('groups nested commands into the outermost one', () => {
+      const { addObject } = useSceneStore.getState()
+      addObject('box')
+      addObject('sphere')
+      const [a, b] = useSceneStore.getState().objects
+
+      recordHistory('Move 2 objects', () => {
+        useSceneStore.getState().updateObject(a.id, { position: { x: 1, y: 0, z: 0 } })
+        useSceneStore.getState().updateObject(b.id, { position: { x: 2, y: 0, z: 0 } })
+      })
+
+      expect(labels().at(-1)).toBe('Move 2 objects')
+      useHistoryStore.getState().undo()
+      expect(useSceneStore.getState().objects.map(o => o.position.x)).toEqual([a.position.x, b.position.x])
+    })
+
+    it('coalesces a stream of updates to the same fields', () => {
+      useSceneStore.getState().addObject('box')
+      const box = useSceneStore.getState().objects[0]
+      for (let x = 1; x <= 5; x++) {
+        useSceneStore.getState().updateObject(box.id, { position: { x, y: 0, z: 0 } })
+      }
+
+      expect(labels()).toEqual(['New scene', 'Add Box 1', 'Move Box 1'])
+      useHistoryStore.getState().undo()
+      expect(useSceneStore.getState().objects[0].position).toEqual(box.position)
+    })
+
+    it('starts a new entry after sealing, as at the start of a gizmo drag', () => {
+      useSceneStore.getState().addObject('box')
+      const id = useSceneStore.getState().objects[0].id
+      useSceneStore.getState().updateObject(id, { position: { x: 1, y: 0, z: 0 } })
+      sealHistory()
+      useSceneStore.getState().updateObject(id, { position: { x: 2, y: 0, z: 0 } })
+
+      expect(labels()).toEqual(['New scene', 'Add Box 1', 'Move Box 1', 'Move Box 1'])
+    })
+
+    it('ignores selection-only changes and no-op commands', () => {
+      useSceneStore.getState().addObject('box')
+      useSceneStore.getState().deselectAll()
+      useSceneStore.getState().updateObject('missing', { name: 'Ghost' })
+      useSequenceStore.getState().moveClip(0, 3)
+
+      expect(labels()).toEqual(['New scene', 'Add Box 1'])
+    })
+
+    it('records nothing inside withoutHistory', () => {
+      withoutHistory(() => useSceneStore.getState().addObject('box'))
+      expect(useSceneStore.getState().objects).toHaveLength(1)
+      expect(labels()).toEqual(['New scene'])
+    })
+
+    it('starts over when a scene is opened', () => {
+      useSceneStore.getState().addObject('box')
+      const saved = useSceneStore.getState().saveScene()
+      useSceneStore.getState().loadScene(saved)
+
+      expect(labels()).toEqual(['Open scene'])
+      expect(useHistoryStore.getState().canUndo()).toBe(false)
+    })
+  })
+
+  // ── Undo / Redo ──────────────────────────────────────────────────────
+
+  describe('undo and redo', () => {
+    it('undoes keyframe edits that the scene history never saw', () => {
+      useSceneStore.getState().addObject('box')
+      const objectId = useSceneStore.getState().objects[0].id
+      const trackId = useAnimationStore.getState().addTrack(objectId)
+      const kfId = useAnimationStore.getState().addKeyframe(trackId, 1, 'position', { x: 1, y: 0, z: 0 })
+      useAnimationStore.getState().updateKeyframe(trackId, kfId, { easing: 'bounceOut' })
+
+      expect(labels().at(-1)).toBe('Change easing')
+      useSceneStore.getState().undo()
+      expect(useAnimationStore.getState().tracks[0].keyframes[0].easing).toBe('linear')
+      useSceneStore.getState().undo()
+      expect(useAnimationStore.getState().tracks[0].keyframes).toHaveLength(0)
+      useSceneStore.getState().redo()
+      expect(useAnimationStore.getState().tracks[0].keyframes).toHaveLength(1)
+      expect(useSceneStore.getState().objects).toHaveLength(1)
+    })
+
+    it('restores the selection that went with a command', () => {
+      const { addObject } = useSceneStore.getState()
+      addObject('box')
+      addObject('sphere')
+      const [box] = useSceneStore.getState().objects
+      useSceneStore.getState().selectObject(box.id)
+      useSceneStore.getState().removeSelected()
+
+      useHistoryStore.getState().undo()
+      expect(useSceneStore.getState().selectedIds).toEqual([box.id])
+    })
+
+    it('prunes selections the restored state no longer has', () => {
+      useSequenceStore.getState().addClip('shot-a')
+      expect(useSequenceStore.getState().selectedClipId).not.toBeNull()
+
+      useHistoryStore.getState().undo()
+      expect(useSequenceStore.getState().clips).toHaveLength(0)
+      expect(useSequenceStore.getState().selectedClipId).toBeNull()
+    })
+
+    it('jumps any number of steps in either direction', () => {
+      const { addObject } = useSceneStore.getState()
+      addObject('box')
+      usePostProcessingStore.getState().setEnabled(true)
+      addObject('sphere')
+
+      useHistoryStore.getState().jumpTo(0)
+      expect(useSceneStore.getState().objects).toHaveLength(0)
+      expect(usePostProcessingStore.getState().enabled).toBe(false)
+      expect(useHistoryStore.getState().canRedo()).toBe(true)
+
+      useHistoryStore.getState().jumpTo(2)
+      expect(useSceneStore.getState().objects).toHaveLength(1)
+      expect(usePostProcessingStore.getState().enabled).toBe(true)
+      expect(useHistoryStore.getState().index).toBe(2)
+    })
+
+    it('does not coalesce into an entry reached by redo', () => {
+      useSceneStore.getState().addObject('box')
+      const id = useSceneStore.getState().objects[0].id
+      useSceneStore.getState().updateObject(id, { position: { x: 1, y: 0, z: 0 } })
+      useHistoryStore.getState().undo()
+      useHistoryStore.getState().redo()
+      useSceneStore.getState().updateObject(id, { position: { x: 2, y: 0, z: 0 } })
+
+      expect(labels()).toEqual(['New scene', 'Add Box 1', 'Move Box 1', 'Move Box 1'])
+    })
+  })
+
+  // ── Performance sanity ───────────────────────────────────────────────
+
+  // History memory only; the time per edit is measured in core/history.bench.ts
+  describe('performance sanity', () => {
+    function loadObjects(count: number): SceneObject[] {
+      const objects: SceneObject[] = []
+      for (let i = 0; i < count; i++) objects.push({ ...createSceneObject('box', []), id: `box-${i}`, name: `Box ${i}` })
+      const scene = useSceneStore.getState().saveScene()
+      useSceneStore.getState().loadScene({ ...scene, objects })
+      return objects
+    }
+
+    function moveEach(objects: SceneObject[], count: number): void {
+      for (let i = 0; i < count; i++) {
+        useSceneStore.getState().updateObject(objects[(i * 97) % objects.length].id, { position: { x: i + 1, y: 2, z: 3 } })
+      }
+    }
+
+    it('an edit costs the same history memory in a 500 and a 5,000-object scene', () => {
+      loadObjects(500)
+      moveEach(useSceneStore.getState().objects, 1)
+      const smallEntry = useHistoryStore.getState().entries[1].size
+
+      loadObjects(5000)
+      moveEach(useSceneStore.getState().objects, 1)
+      const largeEntry = useHistoryStore.getState().entries[1].size
+
+      expect(largeEntry).toBe(smallEntry)
+      expect(largeEntry).toBeLessThan(1024)
+    })
+
+    it('records and undoes 100 edits on 5,000 objects as one-item patches', () => {
+      const objects = loadObjects(5000)
+
+      moveEach(objects, 100)
+      const entries = useHistoryStore.getState().entries.slice(1)
+      expect(entries).toHaveLength(100)
+      for (const entry of entries) {
+        const patch = entry.changes.find(c => c.domain === 'objects')!.patch
+        expect(patch.kind === 'collection' && patch.items.length).toBe(1)
+      }
+
+      while (useHistoryStore.getState().canUndo()) useHistoryStore.getState().undo()
+      expect(useSceneStore.getState().objects).toEqual(objects)
+      // A full snapshot per edit would hold 100 scenes; the patches hold a fraction of one
+      expect(getHistorySize(useHistoryStore.getState())).toBeLessThan(estimateSize(objects) / 10)
+    })
+  })
+})
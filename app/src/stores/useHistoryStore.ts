@@ -0,0 +1,175 @@
+import { create } from 'zustand'
+import type { HistoryChange, HistoryEntry, HistoryPatch } from '../core/history'
+import {
+  HISTORY_BUDGET_BYTES,
+  applyPatch,
+  coalesceByDiff,
+  createHistoryEntry,
+  createHistoryStack,
+  diffValues,
+  getHistoryPath,
+  pushHistoryEntry,
+  rebaseHistoryStack,
+  sealHistoryStack,
+  trimHistoryStack,
+} from '../core/history'
+
+// ── Domains ───────────────────────────────────────────────────────────
+
+/** A slice of some store's state that undo can capture and put back */
+export interface HistoryDomain<T> {
+  /** Current value; stores update immutably, so unchanged parts keep their identity and diff cheaply */
+  capture: () => T
+  restore: (value: T) => void
+  /** Passive domains (selection) ride along with other changes but never make an entry on their own */
+  passive?: boolean
+}
+
+const domains = new Map<string, HistoryDomain<unknown>>()
+
+/** Called by each store at module load for the state it wants undoable */
+export function registerHistoryDomain<T>(name: string, domain: HistoryDomain<T>): void {
+  domains.set(name, domain as HistoryDomain<unknown>)
+}
+
+function captureDomains(): Map<string, unknown> {
+  const values = new Map<string, unknown>()
+  domains.forEach((domain, name) => values.set(name, domain.capture()))
+  return values
+}
+
+// ── Store ─────────────────────────────────────────────────────────────
+
+interface HistoryState {
+  entries: HistoryEntry[]
+  /** Entry whose result is on screen; entry 0 is the base state */
+  index: number
+  /** Memory the entries may hold (bytes) before the oldest are dropped */
+  budget: number
+
+  undo: () => void
+  redo: () => void
+  /** Undo or redo as many steps as it takes to reach an entry */
+  jumpTo: (index: number) => void
+  canUndo: () => boolean
+  canRedo: () => boolean
+  /** Forget everything, starting again from the current state */
+  clear: (label?: string) => void
+  setBudget: (bytes: number) => void
+}
+
+// Nesting depth of recordHistory/withoutHistory; only the outermost call records
+let depth = 0
+
+export const useHistoryStore = create<HistoryState>((set, get) => ({
+  ...createHistoryStack(),
+  budget: HISTORY_BUDGET_BYTES,
+
+  undo: () => get().jumpTo(get().index - 1),
+
+  redo: () => get().jumpTo(get().index + 1),
+
+  jumpTo: (index) => {
+    const { entries, index: current } = get()
+    const target = Math.max(0, Math.min(entries.length - 1, index))
+    if (target === current) return
+
+    const steps = getHistoryPath({ entries, index: current }, target)
+    depth++
+    try {
+      for (const step of steps) {
+        const domain = domains.get(step.domain)
+        domain?.restore(applyPatch(domain.capture(), step.patch, step.direction))
+      }
+    } finally {
+      depth--
+    }
+    // A redo followed by a new edit should start a fresh entry
+    set(sealHistoryStack({ entries, index: target }))
+  },
+
+  canUndo: () => get().index > 0,
+
+  canRedo: () => {
+    const { entries, index } = get()
+    return index < entries.length - 1
+  },
+
+  clear: (label) => set(createHistoryStack(label)),
+
+  setBudget: (bytes) => {
+    const { entries, index } = get()
+    const budget = Math.max(0, bytes)
+    set({ budget, ...trimHistoryStack({ entries, index }, budget) })
+  },
+}))
+
+// ── Recording ─────────────────────────────────────────────────────────
+
+export interface RecordOptions {
+  /** Continuous edits (slider drags, typing, gizmo moves) with the same key merge into one entry */
+  coalesceKey?: string
+}
+
+/**
+ * Run a mutation as one undoable command. Every registered domain is
+ * captured before and after, and the patches of the ones that changed
+ * become the entry.
+ * Nested calls (an action that calls other actions) join the outermost
+ * command.
+ */
+export function recordHistory<T>(label: string, mutate: () => T, options: RecordOptions = {}): T {
+  if (depth > 0) return mutate()
+
+  const before = captureDomains()
+  depth++
+  let result: T
+  try {
+    result = mutate()
+  } finally {
+    depth--
+  }
+
+  const changes: HistoryChange[] = []
+  let meaningful = false
+  const after = captureDomains()
+  after.forEach((value, name) => {
+    const patch = diffValues(before.get(name), value)
+    if (!patch) return
+    changes.push({ domain: name, patch })
+    if (!domains.get(name)?.passive) meaningful = true
+  })
+
+  if (meaningful) {
+    const { entries, index, budget } = useHistoryStore.getState()
+    const entry = createHistoryEntry(label, changes, Date.now(), options.coalesceKey)
+    // Streams that add or reorder items don't merge patch by patch; those are diffed whole
+    const coalesced = coalesceByDiff({ entries, index }, entry, before, after)
+    useHistoryStore.setState(coalesced ? trimHistoryStack(coalesced, budget) : pushHistoryEntry({ entries, index }, entry, budget))
+  }
+  return result
+}
+
+/** Run store updates that must not be undoable, such as loading a scene */
+export function withoutHistory<T>(mutate: () => T): T {
+  depth++
+  try {
+    return mutate()
+  } finally {
+    depth--
+  }
+}
+
+/** Start a new entry with the next command even if it would coalesce, e.g. at the start of a drag */
+export function sealHistory(): void {
+  const { entries, index } = useHistoryStore.getState()
+  const sealed = sealHistoryStack({ entries, index })
+  if (sealed.entries !== entries) useHistoryStore.setState(sealed)
+}
+
+/** Rewrite a domain's recorded patches, e.g. so undo keeps a peer's concurrent edit */
+export function rebaseHistory(domain: string, update: (patch: HistoryPatch) => HistoryPatch | null): void {
+  const { entries, index } = useHistoryStore.getState()
+  const rebased = rebaseHistoryStack({ entries, index }, domain, update)
+  if (rebased.entries !== entries) useHistoryStore.setState(rebased)
+}
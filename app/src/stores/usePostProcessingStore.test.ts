@@ -38,6 +38,12 @@ describe('usePostProcessingStore', () => {
       expect(vignette.offset).toBe(0.5)
       expect(vignette.darkness).toBe(0.5)
     })
+
+    it('starts with depth of field disabled at natural bokeh', () => {
+      const { depthOfField } = usePostProcessingStore.getState()
+      expect(depthOfField.enabled).toBe(false)
+      expect(depthOfField.bokehScale).toBe(1)
+    })
   })
 
   describe('setEnabled', () => {
@@ -133,6 +139,14 @@ describe('usePostProcessingStore', () => {
     })
   })
 
+  describe('updateDepthOfField', () => {
+    it('merges depth of field updates', () => {
+      usePostProcessingStore.getState().updateDepthOfField({ enabled: true })
+      usePostProcessingStore.getState().updateDepthOfField({ bokehScale: 2.5 })
+      expect(usePostProcessingStore.getState().depthOfField).toEqual({ enabled: true, bokehScale: 2.5 })
+    })
+  })
+
   describe('loadSettings', () => {
     it('loads complete settings', () => {
       const settings = {
@@ -140,6 +154,7 @@ describe('usePostProcessingStore', () => {
         bloom: { enabled: true, intensity: 3, threshold: 0.5, radius: 0.6 },
         ssao: { enabled: true, intensity: 20, radius: 7, bias: 0.04 },
         vignette: { enabled: true, offset: 0.2, darkness: 0.8 },
+        depthOfField: { enabled: true, bokehScale: 3 },
       }
       usePostProcessingStore.getState().loadSettings(settings)
 
@@ -148,6 +163,7 @@ describe('usePostProcessingStore', () => {
       expect(state.bloom).toEqual(settings.bloom)
       expect(state.ssao).toEqual(settings.ssao)
       expect(state.vignette).toEqual(settings.vignette)
+      expect(state.depthOfField).toEqual(settings.depthOfField)
     })
 
     it('loaded settings are independent copies (no shared references)', () => {
@@ -205,6 +221,7 @@ describe('usePostProcessingStore', () => {
       expect(settings).toHaveProperty('bloom')
       expect(settings).toHaveProperty('ssao')
       expect(settings).toHaveProperty('vignette')
+      expect(settings).toHaveProperty('depthOfField')
     })
   })
 })
@@ -1,5 +1,8 @@
 import { create } from 'zustand'
-import type { PostProcessingSettings, BloomSettings, SSAOSettings, VignetteSettings } from '../types/scene'
+import type {
+  PostProcessingSettings, BloomSettings, SSAOSettings, VignetteSettings, DepthOfFieldSettings,
+} from '../types/scene'
+import { recordHistory, registerHistoryDomain } from './useHistoryStore'
 
 interface PostProcessingState extends PostProcessingSettings {
   // Actions
@@ -7,6 +10,7 @@ interface PostProcessingState extends PostProcessingSettings {
   updateBloom: (updates: Partial<BloomSettings>) => void
   updateSSAO: (updates: Partial<SSAOSettings>) => void
   updateVignette: (updates: Partial<VignetteSettings>) => void
+  updateDepthOfField: (updates: Partial<DepthOfFieldSettings>) => void
   loadSettings: (settings: PostProcessingSettings) => void
   resetDefaults: () => void
   getSettings: () => PostProcessingSettings
@@ -32,36 +36,50 @@ function createDefaultPostProcessing(): PostProcessingSettings {
       offset: 0.5,
       darkness: 0.5,
     },
+    depthOfField: {
+      enabled: false,
+      bokehScale: 1,
+    },
   }
 }
 
 export { createDefaultPostProcessing }
 
+/** Slider drags on one effect setting coalesce into one undo step */
+function effectKey(effect: string, updates: object): string {
+  return `effect:${effect}:${Object.keys(updates).sort().join(',')}`
+}
+
 export const usePostProcessingStore = create<PostProcessingState>((set, get) => {
   const defaults = createDefaultPostProcessing()
 
   return {
     ...defaults,
 
-    setEnabled: (enabled) => set({ enabled }),
+    setEnabled: (enabled) => recordHistory('Toggle effects', () => set({ enabled })),
 
-    updateBloom: (updates) => set(state => ({
+    updateBloom: (updates) => recordHistory('Edit bloom', () => set(state => ({
       bloom: { ...state.bloom, ...updates },
-    })),
+    })), { coalesceKey: effectKey('bloom', updates) }),
 
-    updateSSAO: (updates) => set(state => ({
+    updateSSAO: (updates) => recordHistory('Edit SSAO', () => set(state => ({
       ssao: { ...state.ssao, ...updates },
-    })),
+    })), { coalesceKey: effectKey('ssao', updates) }),
 
-    updateVignette: (updates) => set(state => ({
+    updateVignette: (updates) => recordHistory('Edit vignette', () => set(state => ({
       vignette: { ...state.vignette, ...updates },
-    })),
+    })), { coalesceKey: effectKey('vignette', updates) }),
+
+    updateDepthOfField: (updates) => recordHistory('Edit depth of field', () => set(state => ({
+      depthOfField: { ...state.depthOfField, ...updates },
+    })), { coalesceKey: effectKey('depthOfField', updates) }),
 
     loadSettings: (settings) => set({
       enabled: settings.enabled,
       bloom: { ...settings.bloom },
       ssao: { ...settings.ssao },
       vignette: { ...settings.vignette },
+      depthOfField: { ...settings.depthOfField },
     }),
 
     resetDefaults: () => set(createDefaultPostProcessing()),
@@ -73,7 +91,16 @@ export const usePostProcessingStore = create<PostProcessingState>((set, get) =>
         bloom: { ...state.bloom },
         ssao: { ...state.ssao },
         vignette: { ...state.vignette },
+        depthOfField: { ...state.depthOfField },
       }
     },
   }
 })
+
+registerHistoryDomain<PostProcessingSettings>('postProcessing', {
+  capture: () => {
+    const { enabled, bloom, ssao, vignette, depthOfField } = usePostProcessingStore.getState()
+    return { enabled, bloom, ssao, vignette, depthOfField }
+  },
+  restore: (settings) => usePostProcessingStore.setState(settings),
+})
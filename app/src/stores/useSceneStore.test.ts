@@ -1,5 +1,6 @@
 import { describe, it, expect, beforeEach } from 'vitest'
 import { useSceneStore } from './useSceneStore'
+import { useHistoryStore } from './useHistoryStore'
 
 function resetStore() {
   useSceneStore.setState({
@@ -8,9 +9,8 @@ function resetStore() {
     selectedIds: [],
     clipboard: [],
     toolMode: 'select',
-    history: [{ objects: [], selectedId: null, selectedIds: [] }],
-    historyIndex: 0,
   })
+  useHistoryStore.getState().clear()
 }
 
 describe('useSceneStore', () => {
@@ -58,9 +58,10 @@ describe('useSceneStore', () => {
 
     it('pushes to undo history', () => {
       useSceneStore.getState().addObject('box')
-      const { history, historyIndex } = useSceneStore.getState()
-      expect(history.length).toBe(2) // initial + after add
-      expect(historyIndex).toBe(1)
+      const { entries, index } = useHistoryStore.getState()
+      expect(entries.length).toBe(2) // initial + after add
+      expect(index).toBe(1)
+      expect(entries[1].label).toBe('Add Box 1')
     })
   })
 
@@ -237,7 +238,7 @@ describe('useSceneStore', () => {
       useSceneStore.getState().undo()
       useSceneStore.getState().undo()
       expect(useSceneStore.getState().objects).toHaveLength(0)
-      expect(useSceneStore.getState().historyIndex).toBe(0)
+      expect(useHistoryStore.getState().index).toBe(0)
     })
   })
 
@@ -278,7 +279,7 @@ describe('useSceneStore', () => {
       const state = useSceneStore.getState()
       expect(state.objects).toHaveLength(0)
       expect(state.selectedId).toBeNull()
-      expect(state.historyIndex).toBe(0)
+      expect(useHistoryStore.getState().index).toBe(0)
     })
 
     it('loads scene data', () => {
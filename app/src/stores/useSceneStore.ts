@@ -1,5 +1,5 @@
 import { create } from 'zustand'
-import type { SceneState, ObjectType, SceneObject, HistoryEntry } from '../types/scene'
+import type { SceneState, ObjectType, SceneObject, EnvironmentSettings } from '../types/scene'
 import {
   createSceneObject,
   createModelObject,
@@ -10,48 +10,39 @@ import {
   wouldCreateCycle,
 } from '../core/sceneOperations'
 import { createSceneData } from '../core/serialization'
+import { countLabel } from '../core/history'
 import type { SceneData } from '../types/scene'
 import { usePostProcessingStore } from './usePostProcessingStore'
 import { useAnimationStore } from './useAnimationStore'
 import { useCameraStore } from './useCameraStore'
+import { useSequenceStore } from './useSequenceStore'
+import { recordHistory, registerHistoryDomain, useHistoryStore, withoutHistory } from './useHistoryStore'
 
-const MAX_HISTORY = 50
+// ── History labels ────────────────────────────────────────────────────
 
-// ── History helpers ───────────────────────────────────────────────────
+const TRANSFORM_VERBS: Partial<Record<keyof SceneObject, string>> = {
+  position: 'Move',
+  rotation: 'Rotate',
+  scale: 'Scale',
+}
 
-function snapshot(state: {
-  objects: SceneObject[]
-  selectedId: string | null
-  selectedIds: string[]
-}): HistoryEntry {
-  return {
-    objects: structuredClone(state.objects),
-    selectedId: state.selectedId,
-    selectedIds: [...state.selectedIds],
-  }
+/** "Move Box 1", "Rotate Box 1", "Rename Box 1", "Edit Box 1" */
+function describeUpdate(name: string, updates: Partial<SceneObject>): string {
+  const keys = Object.keys(updates) as (keyof SceneObject)[]
+  if (keys.length === 1 && TRANSFORM_VERBS[keys[0]]) return `${TRANSFORM_VERBS[keys[0]]} ${name}`
+  if (keys.length > 0 && keys.every(key => TRANSFORM_VERBS[key])) return `Transform ${name}`
+  if (keys.length === 1 && keys[0] === 'name') return `Rename ${name}`
+  return `Edit ${name}`
 }
 
-function pushHistory(
-  history: HistoryEntry[],
-  historyIndex: number,
-  entry: HistoryEntry,
-): { history: HistoryEntry[]; historyIndex: number } {
-  // Discard any redo states after current index
-  const newHistory = history.slice(0, historyIndex + 1)
-  newHistory.push(entry)
-  // Cap history size
-  if (newHistory.length > MAX_HISTORY) {
-    newHistory.shift()
-    return { history: newHistory, historyIndex: newHistory.length - 1 }
-  }
-  return { history: newHistory, historyIndex: newHistory.length - 1 }
+/** "Delete Box 1" for one object, "Delete 3 objects" for several */
+function describeObjects(verb: string, objects: SceneObject[]): string {
+  return objects.length === 1 ? `${verb} ${objects[0].name}` : `${verb} ${countLabel(objects.length, 'object')}`
 }
 
 // ── Store ─────────────────────────────────────────────────────────────
 
 export const useSceneStore = create<SceneState>((set, get) => {
-  const initialEntry: HistoryEntry = { objects: [], selectedId: null, selectedIds: [] }
-
   return {
     objects: [],
     selectedId: null,
@@ -61,8 +52,6 @@ export const useSceneStore = create<SceneState>((set, get) => {
     environment: createDefaultEnvironment(),
     snapEnabled: false,
     snapValue: 0.5,
-    history: [initialEntry],
-    historyIndex: 0,
 
     // ── Object actions ──────────────────────────────────────────────
 
@@ -72,16 +61,12 @@ export const useSceneStore = create<SceneState>((set, get) => {
       const newObjects = [...state.objects, obj]
       const newSelectedId = obj.id
       const newSelectedIds = [obj.id]
-      const hist = pushHistory(state.history, state.historyIndex, snapshot({
-        objects: newObjects, selectedId: newSelectedId, selectedIds: newSelectedIds,
-      }))
 
-      set({
+      recordHistory(`Add ${obj.name}`, () => set({
         objects: newObjects,
         selectedId: newSelectedId,
         selectedIds: newSelectedIds,
-        ...hist,
-      })
+      }))
     },
 
     addModelObject: (name: string, gltfUrl: string, modelFormat?: SceneObject['modelFormat']) => {
@@ -90,35 +75,29 @@ export const useSceneStore = create<SceneState>((set, get) => {
       const newObjects = [...state.objects, obj]
       const newSelectedId = obj.id
       const newSelectedIds = [obj.id]
-      const hist = pushHistory(state.history, state.historyIndex, snapshot({
-        objects: newObjects, selectedId: newSelectedId, selectedIds: newSelectedIds,
-      }))
 
-      set({
+      recordHistory(`Import ${obj.name}`, () => set({
         objects: newObjects,
         selectedId: newSelectedId,
         selectedIds: newSelectedIds,
-        ...hist,
-      })
+      }))
     },
 
     removeObject: (id: string) => {
       const state = get()
+      const removed = state.objects.find(o => o.id === id)
+      if (!removed) return
       // Remove object and its descendants (hierarchy support)
       const newObjects = removeWithDescendants(state.objects, id)
       const removedIds = new Set(state.objects.filter(o => !newObjects.includes(o)).map(o => o.id))
       const newSelectedId = removedIds.has(state.selectedId ?? '') ? null : state.selectedId
       const newSelectedIds = state.selectedIds.filter(sid => !removedIds.has(sid))
-      const hist = pushHistory(state.history, state.historyIndex, snapshot({
-        objects: newObjects, selectedId: newSelectedId, selectedIds: newSelectedIds,
-      }))
 
-      set({
+      recordHistory(`Delete ${removed.name}`, () => set({
         objects: newObjects,
         selectedId: newSelectedId,
         selectedIds: newSelectedIds,
-        ...hist,
-      })
+      }))
     },
 
     selectObject: (id: string | null) => {
@@ -180,17 +159,17 @@ export const useSceneStore = create<SceneState>((set, get) => {
 
     updateObject: (id: string, updates: Partial<SceneObject>) => {
       const state = get()
+      const obj = state.objects.find(o => o.id === id)
+      if (!obj) return
       const newObjects = state.objects.map(o =>
         o.id === id ? { ...o, ...updates } : o
       )
-      const hist = pushHistory(state.history, state.historyIndex, snapshot({
-        objects: newObjects, selectedId: state.selectedId, selectedIds: state.selectedIds,
-      }))
 
-      set({
+      // Slider drags and gizmo moves send a stream of updates; they coalesce per object and field set
+      const keys = Object.keys(updates).sort().join(',')
+      recordHistory(describeUpdate(obj.name, updates), () => set({
         objects: newObjects,
-        ...hist,
-      })
+      }), { coalesceKey: `object:${id}:${keys}` })
     },
 
     setToolMode: (mode) => {
@@ -204,16 +183,12 @@ export const useSceneStore = create<SceneState>((set, get) => {
 
       const copy = duplicateSceneObject(obj)
       const newObjects = [...state.objects, copy]
-      const hist = pushHistory(state.history, state.historyIndex, snapshot({
-        objects: newObjects, selectedId: copy.id, selectedIds: [copy.id],
-      }))
 
-      set({
+      recordHistory(`Duplicate ${obj.name}`, () => set({
         objects: newObjects,
         selectedId: copy.id,
         selectedIds: [copy.id],
-        ...hist,
-      })
+      }))
     },
 
     // ── Multi-select batch operations ────────────────────────────────
@@ -243,16 +218,13 @@ export const useSceneStore = create<SceneState>((set, get) => {
       }
 
       const newObjects = state.objects.filter(o => !idsToRemove.has(o.id))
-      const hist = pushHistory(state.history, state.historyIndex, snapshot({
-        objects: newObjects, selectedId: null, selectedIds: [],
-      }))
+      const selected = state.objects.filter(o => state.selectedIds.includes(o.id))
 
-      set({
+      recordHistory(describeObjects('Delete', selected), () => set({
         objects: newObjects,
         selectedId: null,
         selectedIds: [],
-        ...hist,
-      })
+      }))
     },
 
     duplicateSelected: () => {
@@ -270,16 +242,12 @@ export const useSceneStore = create<SceneState>((set, get) => {
       const newObjects = [...state.objects, ...copies]
       const newSelectedIds = copies.map(c => c.id)
       const newSelectedId = newSelectedIds[newSelectedIds.length - 1] ?? null
-      const hist = pushHistory(state.history, state.historyIndex, snapshot({
-        objects: newObjects, selectedId: newSelectedId, selectedIds: newSelectedIds,
-      }))
 
-      set({
+      recordHistory(describeObjects('Duplicate', copies), () => set({
         objects: newObjects,
         selectedId: newSelectedId,
         selectedIds: newSelectedIds,
-        ...hist,
-      })
+      }))
     },
 
     // ── Hierarchy ────────────────────────────────────────────────────
@@ -288,17 +256,16 @@ export const useSceneStore = create<SceneState>((set, get) => {
       const state = get()
       if (wouldCreateCycle(state.objects, childId, parentId)) return
 
+      const child = state.objects.find(o => o.id === childId)
+      if (!child) return
+      const parent = state.objects.find(o => o.id === parentId)
       const newObjects = state.objects.map(o =>
         o.id === childId ? { ...o, parentId } : o,
       )
-      const hist = pushHistory(state.history, state.historyIndex, snapshot({
-        objects: newObjects, selectedId: state.selectedId, selectedIds: state.selectedIds,
-      }))
 
-      set({
+      recordHistory(parent ? `Parent ${child.name} to ${parent.name}` : `Unparent ${child.name}`, () => set({
         objects: newObjects,
-        ...hist,
-      })
+      }))
     },
 
     getChildren: (parentId: string) => {
@@ -324,63 +291,31 @@ export const useSceneStore = create<SceneState>((set, get) => {
       const newObjects = [...state.objects, ...copies]
       const newSelectedIds = copies.map(c => c.id)
       const newSelectedId = newSelectedIds[newSelectedIds.length - 1] ?? null
-      const hist = pushHistory(state.history, state.historyIndex, snapshot({
-        objects: newObjects, selectedId: newSelectedId, selectedIds: newSelectedIds,
-      }))
 
-      set({
+      recordHistory(describeObjects('Paste', copies), () => set({
         objects: newObjects,
         selectedId: newSelectedId,
         selectedIds: newSelectedIds,
-        ...hist,
-      })
+      }))
     },
 
     // ── Undo / Redo ─────────────────────────────────────────────────
 
-    undo: () => {
-      const { history, historyIndex } = get()
-      if (historyIndex <= 0) return
+    undo: () => useHistoryStore.getState().undo(),
 
-      const prevIndex = historyIndex - 1
-      const entry = history[prevIndex]
-      set({
-        objects: structuredClone(entry.objects),
-        selectedId: entry.selectedId,
-        selectedIds: entry.selectedIds ? [...entry.selectedIds] : (entry.selectedId ? [entry.selectedId] : []),
-        historyIndex: prevIndex,
-      })
-    },
+    redo: () => useHistoryStore.getState().redo(),
 
-    redo: () => {
-      const { history, historyIndex } = get()
-      if (historyIndex >= history.length - 1) return
+    canUndo: () => useHistoryStore.getState().canUndo(),
 
-      const nextIndex = historyIndex + 1
-      const entry = history[nextIndex]
-      set({
-        objects: structuredClone(entry.objects),
-        selectedId: entry.selectedId,
-        selectedIds: entry.selectedIds ? [...entry.selectedIds] : (entry.selectedId ? [entry.selectedId] : []),
-        historyIndex: nextIndex,
-      })
-    },
-
-    canUndo: () => {
-      return get().historyIndex > 0
-    },
-
-    canRedo: () => {
-      const { history, historyIndex } = get()
-      return historyIndex < history.length - 1
-    },
+    canRedo: () => useHistoryStore.getState().canRedo(),
 
     // ── Environment ─────────────────────────────────────────────────
 
     updateEnvironment: (updates) => {
-      set(state => ({
+      const keys = Object.keys(updates).sort().join(',')
+      recordHistory('Edit environment', () => set(state => ({
         environment: { ...state.environment, ...updates },
-      }))
+      })), { coalesceKey: `environment:${keys}` })
     },
 
     // ── Snap ──────────────────────────────────────────────────────────
@@ -410,58 +345,68 @@ export const useSceneStore = create<SceneState>((set, get) => {
         animState.tracks,
         animState.duration,
         cameraState.shots,
+        useSequenceStore.getState().clips,
       )
     },
 
     loadScene: (data: SceneData) => {
-      const newEntry = snapshot({ objects: data.objects, selectedId: null, selectedIds: [] })
-      set({
-        objects: data.objects,
-        selectedId: null,
-        selectedIds: [],
-        environment: data.environment,
-        history: [newEntry],
-        historyIndex: 0,
-      })
+      // Opening a scene is not undoable; the history starts again from it
+      withoutHistory(() => {
+        set({
+          objects: data.objects,
+          selectedId: null,
+          selectedIds: [],
+          environment: data.environment,
+        })
 
-      // Load or reset post-processing settings
-      if (data.postProcessing) {
-        usePostProcessingStore.getState().loadSettings(data.postProcessing)
-      } else {
-        usePostProcessingStore.getState().resetDefaults()
-      }
+        // Load or reset post-processing settings
+        if (data.postProcessing) {
+          usePostProcessingStore.getState().loadSettings(data.postProcessing)
+        } else {
+          usePostProcessingStore.getState().resetDefaults()
+        }
 
-      // Load or reset animation tracks
-      if (data.animationTracks) {
-        useAnimationStore.getState().loadTracks(data.animationTracks, data.animationDuration)
-      } else {
-        useAnimationStore.getState().clearAll()
-      }
+        // Load or reset animation tracks
+        if (data.animationTracks) {
+          useAnimationStore.getState().loadTracks(data.animationTracks, data.animationDuration)
+        } else {
+          useAnimationStore.getState().clearAll()
+        }
 
-      // Load or reset camera shots
-      if (data.shots && data.shots.length > 0) {
-        useCameraStore.getState().loadShots(data.shots)
-      } else {
-        useCameraStore.getState().clearShots()
-      }
+        // Load or reset camera shots
+        if (data.shots && data.shots.length > 0) {
+          useCameraStore.getState().loadShots(data.shots)
+        } else {
+          useCameraStore.getState().clearShots()
+        }
+
+        // Load or reset the shot sequence
+        if (data.sequence && data.sequence.length > 0) {
+          useSequenceStore.getState().loadSequence(data.sequence)
+        } else {
+          useSequenceStore.getState().clearSequence()
+        }
+      })
+      useHistoryStore.getState().clear('Open scene')
     },
 
     clearScene: () => {
-      const newEntry: HistoryEntry = { objects: [], selectedId: null, selectedIds: [] }
-      set({
-        objects: [],
-        selectedId: null,
-        selectedIds: [],
-        clipboard: [],
-        environment: createDefaultEnvironment(),
-        history: [newEntry],
-        historyIndex: 0,
-      })
+      withoutHistory(() => {
+        set({
+          objects: [],
+          selectedId: null,
+          selectedIds: [],
+          clipboard: [],
+          environment: createDefaultEnvironment(),
+        })
 
-      // Reset external stores to clean state
-      usePostProcessingStore.getState().resetDefaults()
-      useAnimationStore.getState().clearAll()
-      useCameraStore.getState().clearShots()
+        // Reset external stores to clean state
+        usePostProcessingStore.getState().resetDefaults()
+        useAnimationStore.getState().clearAll()
+        useCameraStore.getState().clearShots()
+        useSequenceStore.getState().clearSequence()
+      })
+      useHistoryStore.getState().clear()
     },
 
     loadObjects: (objects: SceneObject[]) => {
@@ -469,16 +414,49 @@ export const useSceneStore = create<SceneState>((set, get) => {
       const newObjects = [...state.objects, ...objects]
       const firstId = objects.length > 0 ? objects[0].id : state.selectedId
       const newSelectedIds = objects.map(o => o.id)
-      const hist = pushHistory(state.history, state.historyIndex, snapshot({
-        objects: newObjects, selectedId: firstId, selectedIds: newSelectedIds,
-      }))
 
-      set({
+      recordHistory(describeObjects('Add', objects), () => set({
         objects: newObjects,
         selectedId: firstId,
         selectedIds: newSelectedIds,
-        ...hist,
-      })
+      }))
     },
   }
 })
+
+// ── History domains ───────────────────────────────────────────────────
+
+registerHistoryDomain<SceneObject[]>('objects', {
+  capture: () => useSceneStore.getState().objects,
+  restore: (objects) => {
+    // Keep only the selected ids that still exist
+    const ids = new Set(objects.map(o => o.id))
+    const { selectedId, selectedIds } = useSceneStore.getState()
+    useSceneStore.setState({
+      objects,
+      selectedId: selectedId && ids.has(selectedId) ? selectedId : null,
+      selectedIds: selectedIds.filter(id => ids.has(id)),
+    })
+  },
+})
+
+registerHistoryDomain<Pick<SceneState, 'selectedId' | 'selectedIds'>>('selection', {
+  capture: () => {
+    const { selectedId, selectedIds } = useSceneStore.getState()
+    return { selectedId, selectedIds }
+  },
+  restore: ({ selectedId, selectedIds }) => {
+    // Redo restores objects first, but a peer may since have deleted some
+    const ids = new Set(useSceneStore.getState().objects.map(o => o.id))
+    useSceneStore.setState({
+      selectedId: selectedId && ids.has(selectedId) ? selectedId : null,
+      selectedIds: selectedIds.filter(id => ids.has(id)),
+    })
+  },
+  passive: true,
+})
+
+registerHistoryDomain<EnvironmentSettings>('environment', {
+  capture: () => useSceneStore.getState().environment,
+  restore: (environment) => useSceneStore.setState({ environment }),
+})
@@ -0,0 +1,99 @@
+import { describe, it, expect, beforeEach } from 'vitest'
+import { useSequenceStore } from './useSequenceStore'
+import { createClip, resetClipIdCounter } from '../core/sequence'
+
+describe('useSequenceStore', () => {
+  beforeEach(() => {
+    resetClipIdCounter()
+    useSequenceStore.getState().clearSequence()
+  })
+
+  // ── Clip editing ─────────────────────────────────────────────────────
+
+  describe('clip editing', () => {
+    it('appends and selects a new clip', () => {
+      const id = useSequenceStore.getState().addClip('shot-a')
+      const { clips, selectedClipId } = useSequenceStore.getState()
+      expect(clips).toHaveLength(1)
+      expect(clips[0].shotId).toBe('shot-a')
+      expect(selectedClipId).toBe(id)
+    })
+
+    it('normalizes clip updates', () => {
+      const id = useSequenceStore.getState().addClip('shot-a')
+      useSequenceStore.getState().updateClip(id, { duration: 1, transition: 'dissolve', transitionDuration: 4 })
+      expect(useSequenceStore.getState().clips[0].transitionDuration).toBe(1)
+    })
+
+    it('reorders clips and ignores out-of-range moves', () => {
+      const { addClip } = useSequenceStore.getState()
+      addClip('a')
+      addClip('b')
+      addClip('c')
+      useSequenceStore.getState().moveClip(2, 0)
+      expect(useSequenceStore.getState().clips.map(c => c.shotId)).toEqual(['c', 'a', 'b'])
+
+      useSequenceStore.getState().moveClip(0, 5)
+      expect(useSequenceStore.getState().clips.map(c => c.shotId)).toEqual(['c', 'a', 'b'])
+    })
+
+    it('removing a clip clears its selection and pulls the playhead back', () => {
+      const { addClip } = useSequenceStore.getState()
+      addClip('a')
+      const id = addClip('b')
+      useSequenceStore.getState().setPlaybackTime(5)
+      useSequenceStore.getState().removeClip(id)
+
+      const state = useSequenceStore.getState()
+      expect(state.clips).toHaveLength(1)
+      expect(state.selectedClipId).toBeNull()
+      expect(state.playbackTime).toBe(3)
+    })
+  })
+
+  // ── Playback ─────────────────────────────────────────────────────────
+
+  describe('playback', () => {
+    it('does not play an empty edit', () => {
+      useSequenceStore.getState().play()
+      expect(useSequenceStore.getState().playbackState).toBe('stopped')
+    })
+
+    it('plays, pauses and stops back to the top', () => {
+      useSequenceStore.getState().addClip('a')
+      useSequenceStore.getState().play()
+      expect(useSequenceStore.getState().playbackState).toBe('playing')
+
+      useSequenceStore.getState().setPlaybackTime(1.5)
+      useSequenceStore.getState().pause()
+      expect(useSequenceStore.getState().playbackState).toBe('paused')
+      expect(useSequenceStore.getState().playbackTime).toBe(1.5)
+
+      useSequenceStore.getState().setDissolveSnapshot({ clipId: 'x', image: 'data:' })
+      useSequenceStore.getState().stop()
+      expect(useSequenceStore.getState().playbackTime).toBe(0)
+      expect(useSequenceStore.getState().dissolveSnapshot).toBeNull()
+    })
+
+    it('starts over when played from the end', () => {
+      useSequenceStore.getState().addClip('a')
+      useSequenceStore.getState().setPlaybackTime(99)
+      expect(useSequenceStore.getState().playbackTime).toBe(3)
+
+      useSequenceStore.getState().play()
+      expect(useSequenceStore.getState().playbackTime).toBe(0)
+    })
+  })
+
+  // ── Serialization ────────────────────────────────────────────────────
+
+  describe('serialization', () => {
+    it('loads a copy of a saved sequence', () => {
+      const clips = [createClip('a'), createClip('b', { duration: 2 })]
+      useSequenceStore.getState().loadSequence(clips)
+      expect(useSequenceStore.getState().clips).toEqual(clips)
+      expect(useSequenceStore.getState().clips).not.toBe(clips)
+      expect(useSequenceStore.getState().getDuration()).toBe(5)
+    })
+  })
+})
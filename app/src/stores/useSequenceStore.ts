@@ -0,0 +1,141 @@
+import { create } from 'zustand'
+import type { SequenceClip, SequencePlaybackState } from '../types/sequence'
+import { createClip, getSequenceDuration, normalizeClip } from '../core/sequence'
+import { recordHistory, registerHistoryDomain } from './useHistoryStore'
+
+/** Outgoing frame shown over the viewport while a dissolve runs */
+export interface DissolveSnapshot {
+  clipId: string
+  image: string     // data URL
+}
+
+interface SequenceState {
+  clips: SequenceClip[]
+  selectedClipId: string | null
+  playbackState: SequencePlaybackState
+  playbackTime: number
+  dissolveSnapshot: DissolveSnapshot | null
+
+  // Clip editing
+  addClip: (shotId: string) => string
+  removeClip: (id: string) => void
+  updateClip: (id: string, updates: Partial<Omit<SequenceClip, 'id'>>) => void
+  moveClip: (fromIndex: number, toIndex: number) => void
+  selectClip: (id: string | null) => void
+
+  // Playback
+  play: () => void
+  pause: () => void
+  stop: () => void
+  setPlaybackTime: (time: number) => void
+  setDissolveSnapshot: (snapshot: DissolveSnapshot | null) => void
+  getDuration: () => number
+
+  // Serialization
+  loadSequence: (clips: SequenceClip[]) => void
+  clearSequence: () => void
+}
+
+export const useSequenceStore = create<SequenceState>((set, get) => ({
+  clips: [],
+  selectedClipId: null,
+  playbackState: 'stopped',
+  playbackTime: 0,
+  dissolveSnapshot: null,
+
+  // ── Clip editing ─────────────────────────────────────────────────
+
+  addClip: (shotId) => {
+    const clip = createClip(shotId)
+    recordHistory('Add clip', () => set(state => ({ clips: [...state.clips, clip], selectedClipId: clip.id })))
+    return clip.id
+  },
+
+  removeClip: (id) => {
+    recordHistory('Delete clip', () => set(state => {
+      const clips = state.clips.filter(c => c.id !== id)
+      return {
+        clips,
+        selectedClipId: state.selectedClipId === id ? null : state.selectedClipId,
+        playbackTime: Math.min(state.playbackTime, getSequenceDuration(clips)),
+      }
+    }))
+  },
+
+  updateClip: (id, updates) => {
+    const keys = Object.keys(updates).sort().join(',')
+    recordHistory('Edit clip', () => set(state => {
+      const clips = state.clips.map(c => (c.id === id ? normalizeClip({ ...c, ...updates }) : c))
+      return { clips, playbackTime: Math.min(state.playbackTime, getSequenceDuration(clips)) }
+    }), { coalesceKey: `clip:${id}:${keys}` })
+  },
+
+  moveClip: (fromIndex, toIndex) => {
+    const { clips } = get()
+    if (fromIndex < 0 || fromIndex >= clips.length) return
+    if (toIndex < 0 || toIndex >= clips.length) return
+
+    const next = [...clips]
+    const [moved] = next.splice(fromIndex, 1)
+    next.splice(toIndex, 0, moved)
+    recordHistory('Move clip', () => set({ clips: next }))
+  },
+
+  selectClip: (id) => set({ selectedClipId: id }),
+
+  // ── Playback ─────────────────────────────────────────────────────
+
+  play: () => {
+    const { clips, playbackTime } = get()
+    if (clips.length === 0) return
+    // Playing from the end starts the edit over
+    const atEnd = playbackTime >= getSequenceDuration(clips)
+    set({ playbackState: 'playing', ...(atEnd ? { playbackTime: 0 } : {}) })
+  },
+
+  pause: () => set({ playbackState: 'paused' }),
+
+  stop: () => set({ playbackState: 'stopped', playbackTime: 0, dissolveSnapshot: null }),
+
+  setPlaybackTime: (time) => {
+    set({ playbackTime: Math.max(0, Math.min(getSequenceDuration(get().clips), time)) })
+  },
+
+  setDissolveSnapshot: (snapshot) => set({ dissolveSnapshot: snapshot }),
+
+  getDuration: () => getSequenceDuration(get().clips),
+
+  // ── Serialization ────────────────────────────────────────────────
+
+  loadSequence: (clips) => {
+    set({
+      clips: structuredClone(clips),
+      selectedClipId: null,
+      playbackState: 'stopped',
+      playbackTime: 0,
+      dissolveSnapshot: null,
+    })
+  },
+
+  clearSequence: () => {
+    set({
+      clips: [],
+      selectedClipId: null,
+      playbackState: 'stopped',
+      playbackTime: 0,
+      dissolveSnapshot: null,
+    })
+  },
+}))
+
+registerHistoryDomain<SequenceClip[]>('sequence', {
+  capture: () => useSequenceStore.getState().clips,
+  restore: (clips) => {
+    const { selectedClipId, playbackTime } = useSequenceStore.getState()
+    useSequenceStore.setState({
+      clips,
+      selectedClipId: clips.some(c => c.id === selectedClipId) ? selectedClipId : null,
+      playbackTime: Math.min(playbackTime, getSequenceDuration(clips)),
+    })
+  },
+})
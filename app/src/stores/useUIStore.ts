@@ -2,8 +2,9 @@ import { create } from 'zustand'
 
 export type PivotMode = 'individual' | 'median' | 'active'
 export type ThemeMode = 'dark' | 'light'
-export type RightSidebarTab = 'object' | 'render' | 'assets'
-export type BottomPanelTab = 'timeline'
+export type RightSidebarTab = 'object' | 'render' | 'assets' | 'collab' | 'history'
+export type BottomPanelTab = 'timeline' | 'sequence'
+export type TimelineView = 'tracks' | 'dopeSheet' | 'graph'
 export type AssetPanelMode = 'tab' | 'column'
 
 interface ContextMenuState {
@@ -22,6 +23,7 @@ interface UIState {
   bottomPanelTab: BottomPanelTab
   bottomPanelHeight: number
   bottomPanelCollapsed: boolean
+  timelineView: TimelineView
   assetPanelMode: AssetPanelMode
   showContextMenu: (x: number, y: number, objectId: string) => void
   hideContextMenu: () => void
@@ -33,6 +35,7 @@ interface UIState {
   setBottomPanelTab: (tab: BottomPanelTab) => void
   setBottomPanelHeight: (height: number) => void
   setBottomPanelCollapsed: (collapsed: boolean) => void
+  setTimelineView: (view: TimelineView) => void
   setAssetPanelMode: (mode: AssetPanelMode) => void
 }
 
@@ -46,6 +49,7 @@ export const useUIStore = create<UIState>((set) => ({
   bottomPanelTab: 'timeline',
   bottomPanelHeight: 240,
   bottomPanelCollapsed: true,
+  timelineView: 'tracks',
   assetPanelMode: 'tab',
   showContextMenu: (x, y, objectId) => set({ contextMenu: { x, y, objectId } }),
   hideContextMenu: () => set({ contextMenu: null }),
@@ -61,5 +65,6 @@ export const useUIStore = create<UIState>((set) => ({
   setBottomPanelTab: (tab) => set({ bottomPanelTab: tab, bottomPanelCollapsed: false }),
   setBottomPanelHeight: (height) => set({ bottomPanelHeight: Math.max(120, Math.min(500, height)) }),
   setBottomPanelCollapsed: (collapsed) => set({ bottomPanelCollapsed: collapsed }),
+  setTimelineView: (view) => set({ timelineView: view }),
   setAssetPanelMode: (mode) => set({ assetPanelMode: mode }),
 }))
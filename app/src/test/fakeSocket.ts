@@ -0,0 +1,66 @@
+// In-memory WebSocket stand-in for collaboration tests (jsdom has no WebSocket)
+
+import type { SocketLike, SocketFactory } from '../core/wsClient'
+import type { CollabMessage, CollabMessageType } from '../types/collaboration'
+
+export class FakeSocket {
+  readyState = 0
+  sent: CollabMessage[] = []
+  closedWith: { code?: number; reason?: string } | null = null
+
+  onopen: ((event: Event) => void) | null = null
+  onmessage: ((event: MessageEvent) => void) | null = null
+  onclose: ((event: CloseEvent) => void) | null = null
+  onerror: ((event: Event) => void) | null = null
+
+  readonly url: string
+
+  constructor(url: string) {
+    this.url = url
+  }
+
+  send(data: string): void {
+    this.sent.push(JSON.parse(data))
+  }
+
+  close(code?: number, reason?: string): void {
+    this.closedWith = { code, reason }
+    this.readyState = 3
+  }
+
+  // ── Server-side controls ──────────────────────────────────────────
+
+  open(): void {
+    this.readyState = 1
+    this.onopen?.(new Event('open'))
+  }
+
+  receive<T>(type: CollabMessageType, peerId: string, payload: T): void {
+    const msg: CollabMessage<T> = { type, roomId: 'room', peerId, timestamp: Date.now(), payload }
+    this.onmessage?.(new MessageEvent('message', { data: JSON.stringify(msg) }))
+  }
+
+  receiveRaw(data: unknown): void {
+    this.onmessage?.(new MessageEvent('message', { data }))
+  }
+
+  drop(code = 1006, reason = ''): void {
+    this.readyState = 3
+    this.onclose?.(new CloseEvent('close', { code, reason }))
+  }
+
+  sentOfType(type: CollabMessageType): CollabMessage[] {
+    return this.sent.filter(m => m.type === type)
+  }
+}
+
+/** Factory that records every socket it creates */
+export function createFakeSocketFactory(): { factory: SocketFactory; sockets: FakeSocket[] } {
+  const sockets: FakeSocket[] = []
+  const factory: SocketFactory = (url) => {
+    const socket = new FakeSocket(url)
+    sockets.push(socket)
+    return socket as unknown as SocketLike
+  }
+  return { factory, sockets }
+}
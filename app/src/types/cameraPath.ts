@@ -2,6 +2,38 @@
 
 import type { Vec3 } from './scene'
 
+/** Sensor (film back) presets the lens model knows about */
+export type SensorId =
+  | 'super16' | 'micro-four-thirds' | 'super35' | 'alexa-mini'
+  | 'full-frame' | 'alexa-lf' | 'red-vv' | 'alexa-65'
+
+export interface SensorPreset {
+  id: SensorId
+  name: string
+  width: number         // mm
+  height: number        // mm
+}
+
+/** Physical lens model for a camera: focal length on a given sensor, plus Dutch roll */
+export interface CameraLens {
+  /** Focal length in mm */
+  focalLength: number
+  /** Sensor the focal length is measured against */
+  sensor: SensorId
+  /** Dutch angle in degrees around the view axis (positive tilts the horizon clockwise) */
+  roll: number
+}
+
+/** Focus and aperture of the physical camera, driving the depth-of-field effect */
+export interface CameraFocus {
+  /** Distance to the plane of focus in world units (metres) */
+  distance: number
+  /** Aperture as an f-number; lower values give a shallower depth of field */
+  fStop: number
+  /** Object kept in focus as it or the camera moves; overrides `distance` while set */
+  targetId: string | null
+}
+
 /** A control point on a camera spline path */
 export interface CameraPathPoint {
   id: string
@@ -13,6 +45,8 @@ export interface CameraPathPoint {
   time: number
   /** Tension parameter for Catmull-Rom spline (0-1, default 0.5) */
   tension: number
+  /** Lens at this point; missing on paths saved before the lens model */
+  lens?: CameraLens
 }
 
 /** Easing for camera path playback */
@@ -37,6 +71,9 @@ export interface CameraShot {
   name: string
   position: Vec3
   target: Vec3
+  lens?: CameraLens     // missing on shots saved before the lens model
+  focus?: CameraFocus   // missing on shots saved before depth of field
+  aspect?: number       // viewport width / height at capture
   thumbnail?: string    // blob URL of screenshot
   createdAt: string     // ISO timestamp
   notes?: string        // optional storyboard notes
@@ -0,0 +1,222 @@
+// Collaboration Types (multi-user rooms over server/wsServer.ts)
+
+import type { SceneData, SceneObject, EnvironmentSettings, AnimationTrack, AnimationKeyframe, Vec3 } from './scene'
+import type { CameraShot } from './cameraPath'
+
+// ── Wire Protocol ─────────────────────────────────────────────────────
+
+/** Message types understood by the collaboration server */
+export type CollabMessageType =
+  | 'join'
+  | 'joined'
+  | 'leave'
+  | 'peer-joined'
+  | 'peer-left'
+  | 'host-assigned'
+  | 'presence'
+  | 'scene-diff'
+  | 'scene-full'
+  | 'request-full'
+  | 'lease-acquire'
+  | 'lease-release'
+  | 'lease-state'
+  | 'lease-denied'
+  | 'error'
+
+/** Envelope for every message exchanged with the server */
+export interface CollabMessage<T = unknown> {
+  type: CollabMessageType
+  roomId: string
+  peerId: string
+  timestamp: number
+  payload: T
+}
+
+/** Room role assigned by the server. Viewers cannot change the scene. */
+export type CollabRole = 'owner' | 'editor' | 'viewer'
+
+export interface JoinPayload {
+  userName: string
+  /** Signed join token; required when the server has AUTH_SECRET set */
+  token?: string
+  /** Room password. An owner joining an unprotected room sets it. */
+  password?: string
+}
+
+export interface JoinedPayload {
+  isHost: boolean
+  peers: Peer[]
+  hostPeerId: string | null
+  /** The server holds a snapshot of the room and sends it as scene-full */
+  hasSnapshot?: boolean
+  leases?: EditLease[]
+  role?: CollabRole
+  /** Display name accepted by the server (a join token may override it) */
+  userName?: string
+}
+
+export interface PeerJoinedPayload {
+  peerId: string
+  userName: string
+  role?: CollabRole
+}
+
+export interface PeerLeftPayload {
+  peerId: string
+}
+
+export interface RequestFullPayload {
+  requesterPeerId: string
+}
+
+/** Full scene sent by the host to a newly joined peer */
+export interface SceneFullPayload {
+  targetPeerId: string
+  scene: SceneData
+  /** Replicated state of the scene's objects and keyframes */
+  crdt?: CrdtDocument
+}
+
+export interface SceneDiffPayload {
+  /** Environment, duration and shot changes */
+  ops: SceneDiffOp[]
+  /** Object and keyframe changes, merged per field by timestamp */
+  crdtOps?: CrdtOp[]
+}
+
+/** A peer's viewport camera */
+export interface PresenceCamera {
+  position: Vec3
+  target: Vec3
+  fov: number       // vertical FOV in degrees
+  aspect: number
+}
+
+export interface PresencePayload {
+  userName: string
+  selectedIds: string[]
+  camera?: PresenceCamera | null
+  /** Point on the ground plane under the peer's pointer */
+  cursor?: Vec3 | null
+}
+
+/** Soft lock on an object while a peer edits it, arbitrated by the server */
+export interface EditLease {
+  objectId: string
+  peerId: string
+  userName: string
+  /** Server clock; the server broadcasts lease-state when a lease lapses */
+  expiresAt: number
+}
+
+/** lease-acquire and lease-release */
+export interface LeaseRequestPayload {
+  objectIds: string[]
+}
+
+export interface LeaseStatePayload {
+  leases: EditLease[]
+}
+
+export interface LeaseDeniedPayload {
+  objectIds: string[]
+  holderPeerId: string
+  holderName: string
+}
+
+export interface ErrorPayload {
+  message: string
+}
+
+// ── Scene Diff Operations ─────────────────────────────────────────────
+
+/** Keyed collections that are synchronized item by item */
+export interface SceneCollections {
+  objects: SceneObject
+  tracks: AnimationTrack
+  shots: CameraShot
+}
+
+export type SceneCollectionName = keyof SceneCollections
+
+export type SceneDiffOp =
+  | { [C in SceneCollectionName]: { op: 'add'; collection: C; item: SceneCollections[C]; index: number } }[SceneCollectionName]
+  | { [C in SceneCollectionName]: { op: 'update'; collection: C; id: string; changes: Partial<SceneCollections[C]>; unset?: string[] } }[SceneCollectionName]
+  | { op: 'remove'; collection: SceneCollectionName; id: string }
+  | { op: 'environment'; changes: Partial<EnvironmentSettings> }
+  | { op: 'duration'; duration: number }
+
+/** The replicated part of the editor state */
+export interface SceneSnapshot {
+  objects: SceneObject[]
+  environment: EnvironmentSettings
+  tracks: AnimationTrack[]
+  duration: number
+  shots: CameraShot[]
+}
+
+// ── Session State ─────────────────────────────────────────────────────
+
+export type ConnectionStatus = 'disconnected' | 'connecting' | 'connected' | 'reconnecting' | 'error'
+
+export interface Peer {
+  peerId: string
+  userName: string
+  isHost: boolean
+  role?: CollabRole
+  selectedIds?: string[]
+  camera?: PresenceCamera | null
+  cursor?: Vec3 | null
+}
+
+// ── CRDT Operations ───────────────────────────────────────────────────
+
+/** Hybrid logical clock timestamp. Ordered by wallTime, then counter, then peerId. */
+export interface HLCTimestamp {
+  wallTime: number
+  counter: number
+  peerId: string
+}
+
+/** Keyframe fields that are replicated as individual registers */
+export type CrdtKeyframeFields = Omit<AnimationKeyframe, 'id'>
+
+export type CrdtOp =
+  | { type: 'add'; id: string; object: SceneObject; ts: HLCTimestamp }
+  | { type: 'remove'; id: string; ts: HLCTimestamp }
+  | { type: 'update-field'; id: string; field: string; value: unknown; ts: HLCTimestamp }
+  | { type: 'reparent'; id: string; parentId: string | null; ts: HLCTimestamp }
+  | {
+      type: 'keyframe'
+      action: 'add' | 'update' | 'remove'
+      trackId: string
+      objectId: string
+      keyframeId: string
+      /** All fields for 'add', changed fields for 'update' (null when removed), omitted for 'remove' */
+      fields?: { [K in keyof CrdtKeyframeFields]?: CrdtKeyframeFields[K] | null }
+      ts: HLCTimestamp
+    }
+
+/** Last-writer-wins register. A null value means the field is unset. */
+export interface CrdtRegister {
+  value: unknown
+  ts: HLCTimestamp
+}
+
+/** Element of an LWW element set: visible when added after its last removal */
+export interface CrdtElement {
+  id: string
+  addedAt: HLCTimestamp | null
+  removedAt: HLCTimestamp | null
+  fields: Record<string, CrdtRegister>
+}
+
+export interface CrdtKeyframeElement extends CrdtElement {
+  trackId: string
+  objectId: string
+}
+
+export interface CrdtDocument {
+  objects: Record<string, CrdtElement>
+  keyframes: Record<string, CrdtKeyframeElement>
+}
@@ -0,0 +1,69 @@
+/** Editorial export types: the shot edit as an EDL, OpenTimelineIO file or CSV breakdown */
+
+import type { TransitionType } from './sequence'
+
+export type EditorialFormat = 'edl' | 'otio' | 'csv'
+
+/** What each event's source file is: one movie per shot, or a numbered image sequence */
+export type EditorialMedia = 'movie' | 'image-sequence'
+
+export interface EditorialOptions {
+  format: EditorialFormat
+  media: EditorialMedia
+}
+
+/** One event in the edit, timed in whole frames */
+export interface EditEvent {
+  /** 1-based event number */
+  number: number
+  shotId: string
+  /** 1-based position of the shot in the shot list */
+  shotNumber: number
+  name: string
+  /** Tape/reel name, at most 8 characters for CMX3600 */
+  reel: string
+  /** Record in, in frames from the start of the edit */
+  recordIn: number
+  /** Length in frames */
+  duration: number
+  /** Transition into this event */
+  transition: TransitionType
+  transitionFrames: number
+  lens: string
+  notes: string
+  /** Rendered clip or image sequence this event cuts in */
+  media: EditMedia
+}
+
+export type EditMedia =
+  | { kind: 'movie'; fileName: string }
+  | {
+      kind: 'image-sequence'
+      /** File name up to the frame number, e.g. "heist_sh001_wide." */
+      prefix: string
+      /** File name after the frame number, e.g. ".png" */
+      suffix: string
+      startFrame: number
+      padding: number
+    }
+
+/** One line of a parsed CMX3600 EDL; timecodes are converted to frames */
+export interface EdlEvent {
+  number: number
+  reel: string
+  track: string
+  transition: TransitionType
+  transitionFrames: number
+  sourceIn: number
+  sourceOut: number
+  recordIn: number
+  recordOut: number
+  clipName?: string
+  sourceFile?: string
+}
+
+export interface ParsedEdl {
+  title: string
+  dropFrame: boolean
+  events: EdlEvent[]
+}
@@ -1,8 +1,9 @@
 // Export Pipeline Types (Phase 8)
 import type { Vec3 } from './scene'
+import type { CameraLens } from './cameraPath'
 
 /** Supported export formats */
-export type ExportFormat = 'gltf' | 'glb' | 'screenshot' | 'video'
+export type ExportFormat = 'gltf' | 'glb' | 'screenshot' | 'video' | 'storyboard' | 'editorial'
 
 /** Screenshot image format */
 export type ImageFormat = 'png' | 'jpeg' | 'webp'
@@ -10,6 +11,12 @@ export type ImageFormat = 'png' | 'jpeg' | 'webp'
 /** Video recording format */
 export type VideoFormat = 'webm' | 'mp4'
 
+/** A video file, or an offline render of numbered frames packaged as a ZIP */
+export type VideoOutput = 'video' | 'image-sequence'
+
+/** Image format for offline-rendered frames */
+export type FrameFormat = 'png' | 'jpeg'
+
 /** glTF export options */
 export interface GltfExportOptions {
   binary: boolean          // true = .glb, false = .gltf
@@ -18,6 +25,10 @@ export interface GltfExportOptions {
   includeLights: boolean
   includeCamera: boolean
   precision: number        // coordinate decimal places (3-8, default 5)
+  cameraPosition?: Vec3    // current view, exported as a camera when includeCamera is set
+  cameraTarget?: Vec3
+  cameraFov?: number       // vertical FOV in degrees (default 50)
+  cameraAspectRatio?: number
 }
 
 /** Screenshot export options */
@@ -27,6 +38,7 @@ export interface ScreenshotOptions {
   format: ImageFormat
   quality: number          // 0-1 for jpeg/webp (ignored for png)
   transparentBackground: boolean
+  burnInOverlays?: boolean // draw the viewport's frame guides and HUD into the image
   cameraPosition?: Vec3
   cameraTarget?: Vec3
 }
@@ -38,8 +50,30 @@ export interface VideoRecordingOptions {
   fps: number              // 24, 30, 60
   format: VideoFormat
   bitrate: number          // bits per second
-  duration: number         // seconds (0 = use camera path duration)
+  duration: number         // seconds (0 = camera path duration, or the timeline for offline renders)
+  burnInOverlays?: boolean // draw the viewport's frame guides and HUD into every frame
   cameraPathId?: string    // camera path to follow during recording
+  output: VideoOutput
+  frameFormat: FrameFormat // image sequence frames
+}
+
+/** Codecs the offline encoder can mux: VP9/VP8 into WebM, H.264 (AVC) into MP4 */
+export type VideoCodec = 'vp9' | 'vp8' | 'avc'
+
+/** Stream-level facts a muxer needs about an encoded video */
+export interface EncodedVideoTrack {
+  codec: VideoCodec
+  width: number
+  height: number
+  fps: number
+  /** Decoder configuration from the encoder; the avcC record for H.264 */
+  description?: Uint8Array
+}
+
+/** One encoded frame in decode order; frames are evenly spaced at the track's fps */
+export interface EncodedVideoFrame {
+  data: Uint8Array<ArrayBuffer>
+  keyFrame: boolean
 }
 
 /** Export progress state */
@@ -50,6 +84,8 @@ export interface ExportProgress {
   progress: number         // 0-1
   message: string
   error?: string
+  /** Problems that did not stop the export, e.g. models left out of it */
+  warnings?: string[]
 }
 
 /** Export result */
@@ -60,3 +96,16 @@ export interface ExportResult {
   fileSize: number         // bytes
   duration?: number        // for video, in ms
 }
+
+/** Camera to render an offscreen view from */
+export interface RenderView {
+  position: Vec3
+  target: Vec3
+  lens: CameraLens
+}
+
+/**
+ * Renders the scene from a camera at a given resolution without disturbing
+ * the viewport. Provided by the viewport while it's mounted.
+ */
+export type ViewRenderer = (view: RenderView, width: number, height: number) => HTMLCanvasElement
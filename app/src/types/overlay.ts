@@ -0,0 +1,43 @@
+/** Camera frame overlay types: delivery masks, safe frames, composition guides and HUD */
+
+import type { CameraLens } from './cameraPath'
+
+/** Delivery aspect ratios offered as letterbox/pillarbox masks */
+export type FrameAspect = '2.39:1' | '1.85:1' | '16:9' | '9:16' | '4:5'
+
+export interface OverlaySettings {
+  /** Delivery frame to mask the viewport to; null shows the full canvas */
+  aspect: FrameAspect | null
+  /** Opacity of the mask outside the delivery frame (0-1) */
+  maskOpacity: number
+  actionSafe: boolean
+  titleSafe: boolean
+  ruleOfThirds: boolean
+  goldenRatio: boolean
+  centerCross: boolean
+  /** Shot name, lens and timecode along the frame edge */
+  hud: boolean
+}
+
+/** What the HUD reports about the current frame */
+export interface HudInfo {
+  shotName: string | null
+  lens: CameraLens
+  time: number          // seconds
+  fps: number           // timecode frame rate
+}
+
+/** Pixel rectangle, origin top-left */
+export interface FrameRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/** Overlays to composite into a screenshot or video export */
+export interface OverlayBurnIn {
+  settings: OverlaySettings
+  /** Read per frame so the timecode advances during recording */
+  getHud?: () => HudInfo
+}
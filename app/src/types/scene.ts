@@ -1,6 +1,8 @@
 // ── Primitive Types ───────────────────────────────────────────────────
 
-export type ObjectType = 'box' | 'sphere' | 'cylinder' | 'cone' | 'plane' | 'torus' | 'model'
+export type LightType = 'directionalLight' | 'pointLight' | 'spotLight' | 'areaLight' | 'hemisphereLight'
+
+export type ObjectType = 'box' | 'sphere' | 'cylinder' | 'cone' | 'plane' | 'torus' | 'model' | LightType
 
 export type ToolMode = 'select' | 'move' | 'rotate' | 'scale'
 
@@ -46,6 +48,27 @@ export interface MaterialData {
   envMapIntensity?: number        // 0-2 (default 1)
 }
 
+// ── Light Types ───────────────────────────────────────────────────────
+
+export type ShadowMapSize = 512 | 1024 | 2048 | 4096
+
+/** Light settings. Directional, spot and area lights shine down their local -Z axis. */
+export interface LightData {
+  color: string
+  intensity: number
+  range: number           // point/spot falloff distance, 0 = infinite
+  decay: number           // point/spot falloff exponent (2 = physical)
+  outerConeAngle: number  // spot only, degrees from the axis to the cone edge
+  innerConeAngle: number  // spot only, degrees where the edge falloff begins
+  width: number           // area only
+  height: number          // area only
+  groundColor: string     // hemisphere only, sky color is `color`
+  castShadow: boolean     // directional, point and spot only
+  shadowBias: number
+  shadowMapSize: ShadowMapSize
+  shadowRadius: number    // PCF blur radius
+}
+
 // ── Scene Object ──────────────────────────────────────────────────────
 
 export interface SceneObject {
@@ -62,6 +85,7 @@ export interface SceneObject {
   parentId?: string    // Object hierarchy - ID of parent object
   gltfUrl?: string     // Model import - URL/path to model file
   modelFormat?: 'gltf' | 'glb' | 'fbx' | 'obj' | 'dae'  // Format of imported model
+  light?: LightData    // Light objects only
 }
 
 // ── Environment Settings ──────────────────────────────────────────────
@@ -98,30 +122,90 @@ export interface VignetteSettings {
   darkness: number      // 0-1
 }
 
+/** Focus distance and aperture come from the camera; this only switches the effect */
+export interface DepthOfFieldSettings {
+  enabled: boolean
+  bokehScale: number    // 0-5, multiplier on the physically derived blur
+}
+
 export interface PostProcessingSettings {
   enabled: boolean      // master toggle
   bloom: BloomSettings
   ssao: SSAOSettings
   vignette: VignetteSettings
+  depthOfField: DepthOfFieldSettings
 }
 
 // ── Animation Types ──────────────────────────────────────────────────
 
-export type EasingType = 'linear' | 'easeIn' | 'easeOut' | 'easeInOut'
-
-export type AnimatableProperty = 'position' | 'rotation' | 'scale' | 'cameraPosition' | 'cameraTarget'
+export type EasingType =
+  | 'linear' | 'easeIn' | 'easeOut' | 'easeInOut'
+  | 'step'
+  | 'backIn' | 'backOut' | 'backInOut'
+  | 'elasticIn' | 'elasticOut' | 'elasticInOut'
+  | 'bounceIn' | 'bounceOut' | 'bounceInOut'
+  | 'bezier'
+
+/**
+ * Cubic-bezier handles as in CSS `cubic-bezier(x1, y1, x2, y2)`: the curve
+ * runs from (0, 0) to (1, 1) in (time, progress). Handle x stays within 0-1
+ * so the curve is a function of time; y may overshoot.
+ */
+export type BezierHandles = [x1: number, y1: number, x2: number, y2: number]
+
+/**
+ * A field of an object, or of the environment, animated by its value type:
+ * numbers ease, colors blend in RGB and booleans step at each key.
+ */
+export type PropertyPath =
+  | 'material.color' | 'material.opacity' | 'material.emissiveIntensity'
+  | 'visible'
+  | 'environment.fogNear' | 'environment.fogFar' | 'environment.backgroundColor'
+
+/**
+ * Keyframe values are Vec3s. Light channels pack their fields:
+ * lightColor = RGB (0-1), lightParams = intensity, range, outer cone angle.
+ * The camera lens packs focal length (mm), roll (degrees), unused;
+ * camera focus packs focus distance, f-stop, unused.
+ * Property paths keep a number or boolean (0 or 1) in x and a color as RGB (0-1).
+ */
+export type AnimatableProperty =
+  | 'position' | 'rotation' | 'scale'
+  | 'cameraPosition' | 'cameraTarget' | 'cameraLens' | 'cameraFocus'
+  | 'lightColor' | 'lightParams'
+  | PropertyPath
+
+/** One component of a Vec3 property, animated on its own in the graph editor */
+export type ChannelAxis = 'x' | 'y' | 'z'
+
+/**
+ * How a curve key picks its slopes: 'auto' runs smoothly through its
+ * neighbours without overshooting them, 'flat' levels off, 'linear' points
+ * at the neighbouring keys, and 'broken' keeps its own in and out slopes.
+ */
+export type TangentMode = 'auto' | 'flat' | 'linear' | 'broken'
 
 export interface AnimationKeyframe {
   id: string
   time: number          // seconds
   property: AnimatableProperty
   value: Vec3
+  /** Easing of the segment arriving at this keyframe; 'step' holds the previous value until it */
   easing: EasingType
+  /** Handles for 'bezier' easing */
+  bezier?: BezierHandles
+  /** Set on a channel key, which animates only this component of the property */
+  channel?: ChannelAxis
+  /** Set on a curve key: segments touching it follow cubic tangents instead of easing */
+  tangent?: TangentMode
+  /** Slopes in units per second for 'broken' tangents */
+  inSlope?: number
+  outSlope?: number
 }
 
 export interface AnimationTrack {
   id: string
-  objectId: string      // references SceneObject.id
+  objectId: string      // references SceneObject.id, or the virtual camera or environment id
   keyframes: AnimationKeyframe[]  // sorted by time
 }
 
@@ -145,6 +229,7 @@ export interface SceneMetadata {
 // ── Serializable Scene Data ───────────────────────────────────────────
 
 import type { CameraShot } from './cameraPath'
+import type { SequenceClip } from './sequence'
 
 export interface SceneData {
   metadata: SceneMetadata
@@ -154,14 +239,7 @@ export interface SceneData {
   animationTracks?: AnimationTrack[]
   animationDuration?: number
   shots?: CameraShot[]
-}
-
-// ── History (undo/redo) ───────────────────────────────────────────────
-
-export interface HistoryEntry {
-  objects: SceneObject[]
-  selectedId: string | null
-  selectedIds: string[]
+  sequence?: SequenceClip[]
 }
 
 // ── Store State ───────────────────────────────────────────────────────
@@ -176,10 +254,6 @@ export interface SceneState {
   snapEnabled: boolean
   snapValue: number
 
-  // History
-  history: HistoryEntry[]
-  historyIndex: number
-
   // Actions - objects
   addObject: (type: ObjectType) => void
   addModelObject: (name: string, gltfUrl: string, modelFormat?: SceneObject['modelFormat']) => void
@@ -205,7 +279,7 @@ export interface SceneState {
   copySelected: () => void
   pasteClipboard: () => void
 
-  // Actions - undo/redo
+  // Actions - undo/redo of the shared history (every store, not just the scene)
   undo: () => void
   redo: () => void
   canUndo: () => boolean
@@ -0,0 +1,28 @@
+/** Shot sequence types: clips cut together into an animatic */
+
+/** How a clip is joined to the one before it */
+export type TransitionType = 'cut' | 'dissolve'
+
+/** What moves the camera while a clip is on screen */
+export type ClipMotion = 'static' | 'path' | 'track'
+
+/** One shot placed in the edit */
+export interface SequenceClip {
+  id: string
+  /** Camera shot this clip frames */
+  shotId: string
+  /** Seconds on screen */
+  duration: number
+  motion: ClipMotion
+  /** Camera path played across the clip when motion is 'path' */
+  pathId: string | null
+  /** Camera track segment, in timeline seconds, played across the clip when motion is 'track' */
+  trackIn: number
+  trackOut: number
+  /** Transition into this clip from the previous one */
+  transition: TransitionType
+  /** Dissolve length in seconds, taken from the start of this clip */
+  transitionDuration: number
+}
+
+export type SequencePlaybackState = 'stopped' | 'playing' | 'paused'
@@ -42,13 +42,29 @@ export interface AutoSaveConfig {
 /** Save status indicator */
 export type SaveStatus = 'saved' | 'saving' | 'unsaved' | 'error'
 
+/** Content-addressed binary stored alongside scenes (model/texture files) */
+export interface StoredBlob {
+  hash: string             // SHA-256 hex of the bytes
+  blob: Blob
+  refCount: number         // number of saved scenes referencing this blob
+}
+
 /** Storage provider interface (abstraction) */
 export interface StorageAdapter {
-  save: (id: string, data: string, metadata: SavedSceneMetadata) => Promise<void>
+  /** `blobHashes` lists the blobs the scene references; their refcounts are updated atomically */
+  save: (id: string, data: string, metadata: SavedSceneMetadata, blobHashes?: string[]) => Promise<void>
   load: (id: string) => Promise<{ data: string; metadata: SavedSceneMetadata } | null>
+  /** Deleting a scene releases its blobs; blobs with no remaining references are freed */
   delete: (id: string) => Promise<void>
   list: (filter?: SceneFilterOptions) => Promise<SavedSceneMetadata[]>
   exists: (id: string) => Promise<boolean>
   getMetadata: (id: string) => Promise<SavedSceneMetadata | null>
   clear: () => Promise<void>
+
+  // Blob store
+  putBlob: (hash: string, blob: Blob) => Promise<void>
+  getBlob: (hash: string) => Promise<StoredBlob | null>
+  hasBlob: (hash: string) => Promise<boolean>
+  /** Free those of the given blobs that no saved scene references (after a failed save) */
+  deleteUnreferencedBlobs: (hashes: string[]) => Promise<void>
 }
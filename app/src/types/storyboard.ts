@@ -0,0 +1,34 @@
+/** Storyboard export types: camera shots laid out N-up on printable pages */
+
+/** PDF is the deliverable; PNG contact sheets are the fallback */
+export type StoryboardFormat = 'pdf' | 'png'
+
+export type StoryboardPageSize = 'a4' | 'letter' | 'tabloid'
+
+export type StoryboardOrientation = 'landscape' | 'portrait'
+
+export interface StoryboardOptions {
+  format: StoryboardFormat
+  pageSize: StoryboardPageSize
+  orientation: StoryboardOrientation
+  /** Panels per page = columns × rows */
+  columns: number
+  rows: number
+  /** Resolution each shot is rendered at, in pixels */
+  imageWidth: number
+  imageHeight: number
+  includeNotes: boolean
+}
+
+/** One panel of the storyboard: a shot and its caption */
+export interface StoryboardPanel {
+  shotId: string
+  /** 1-based shot number in shot-list order */
+  number: number
+  name: string
+  /** Lens and aperture, e.g. "35mm · Super 35 · f/2.8" */
+  lens: string
+  /** Seconds the shot runs in the sequence, or null when it isn't cut in */
+  duration: number | null
+  notes: string
+}
@@ -0,0 +1,87 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  type HLCTimestamp,
+  createCrdtDocument,
+  applyCrdtOps,
+  mergeCrdtDocuments,
+  seedCrdtDocument,
+  isCrdtDocument,
+  materializeObjects,
+  materializeTracks,
+} from './crdt.js'
+
+function ts(wallTime: number, peerId = 'p1', counter = 0): HLCTimestamp {
+  return { wallTime, counter, peerId }
+}
+
+const OPS = [
+  { type: 'add', id: 'a', object: { id: 'a', name: 'Cactus' }, ts: ts(1) },
+  { type: 'add', id: 'b', object: { id: 'b', name: 'Rock' }, ts: ts(2) },
+  { type: 'update-field', id: 'a', field: 'name', value: 'Saguaro', ts: ts(3, 'p1') },
+  { type: 'update-field', id: 'a', field: 'name', value: 'Joshua', ts: ts(3, 'p2') },
+  { type: 'reparent', id: 'b', parentId: 'a', ts: ts(4) },
+  { type: 'reparent', id: 'a', parentId: 'b', ts: ts(5) },
+  { type: 'keyframe', action: 'add', trackId: 't1', objectId: 'a', keyframeId: 'k2', fields: { time: 2 }, ts: ts(6) },
+  { type: 'keyframe', action: 'add', trackId: 't1', objectId: 'a', keyframeId: 'k1', fields: { time: 1 }, ts: ts(7) },
+  { type: 'keyframe', action: 'remove', trackId: 't1', objectId: 'a', keyframeId: 'k2', ts: ts(8) },
+]
+
+function materialize(ops: unknown[]) {
+  const doc = applyCrdtOps(createCrdtDocument(), ops)
+  return { objects: materializeObjects(doc), tracks: materializeTracks(doc) }
+}
+
+describe('crdt', () => {
+  it('merges to the same scene for any delivery order', () => {
+    const expected = {
+      objects: [{ id: 'a', name: 'Joshua' }, { id: 'b', name: 'Rock', parentId: 'a' }],
+      tracks: [{ id: 't1', objectId: 'a', keyframes: [{ id: 'k1', time: 1 }] }],
+    }
+    assert.deepEqual(materialize(OPS), expected)
+    assert.deepEqual(materialize([...OPS].reverse()), expected)
+    assert.deepEqual(materialize([...OPS, ...OPS]), expected)
+  })
+
+  it('matches op delivery when merging documents', () => {
+    const left = applyCrdtOps(createCrdtDocument(), OPS.slice(0, 5))
+    const right = applyCrdtOps(createCrdtDocument(), OPS.slice(5))
+    const merged = mergeCrdtDocuments(right, left)
+    assert.deepEqual(
+      { objects: materializeObjects(merged), tracks: materializeTracks(merged) },
+      materialize(OPS),
+    )
+  })
+
+  it('skips malformed ops', () => {
+    assert.deepEqual(materialize([
+      null,
+      { type: 'add', id: 'a', object: { name: 'no timestamp' } },
+      { type: 'update-field', id: 'a', field: 'id', value: 'b', ts: ts(1) },
+      { type: 'keyframe', action: 'move', trackId: 't', objectId: 'a', keyframeId: 'k', ts: ts(1) },
+    ]), { objects: [], tracks: [] })
+  })
+
+  it('seeds a document that any later edit overrides', () => {
+    const doc = seedCrdtDocument(
+      [{ id: 'a', name: 'Cactus' }, { id: 'b', name: 'Rock' }],
+      [{ id: 't1', objectId: 'a', keyframes: [{ id: 'k1', time: 1 }] }],
+    )
+    assert.deepEqual(materializeObjects(doc), [{ id: 'a', name: 'Cactus' }, { id: 'b', name: 'Rock' }])
+    assert.deepEqual(materializeTracks(doc), [{ id: 't1', objectId: 'a', keyframes: [{ id: 'k1', time: 1 }] }])
+
+    const edited = applyCrdtOps(doc, [{ type: 'remove', id: 'a', ts: ts(1) }])
+    assert.deepEqual(materializeObjects(edited).map(o => o.id), ['b'])
+  })
+
+  it('recognizes well-formed documents only', () => {
+    const doc = applyCrdtOps(createCrdtDocument(), OPS)
+    assert.equal(isCrdtDocument(JSON.parse(JSON.stringify(doc))), true)
+    assert.equal(isCrdtDocument({ objects: {} }), false)
+    assert.equal(isCrdtDocument({ objects: { a: { id: 'b', addedAt: null, removedAt: null, fields: {} } }, keyframes: {} }), false)
+    assert.equal(isCrdtDocument({
+      objects: { a: { id: 'a', addedAt: null, removedAt: null, fields: { name: { value: 'x' } } } },
+      keyframes: {},
+    }), false)
+  })
+})
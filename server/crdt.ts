@@ -0,0 +1,337 @@
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Mirrors the CRDT types in app/src/types/collaboration.ts */
+export interface HLCTimestamp {
+  wallTime: number
+  counter: number
+  peerId: string
+}
+
+export type CrdtOp =
+  | { type: 'add'; id: string; object: Record<string, unknown>; ts: HLCTimestamp }
+  | { type: 'remove'; id: string; ts: HLCTimestamp }
+  | { type: 'update-field'; id: string; field: string; value: unknown; ts: HLCTimestamp }
+  | { type: 'reparent'; id: string; parentId: string | null; ts: HLCTimestamp }
+  | {
+      type: 'keyframe'
+      action: 'add' | 'update' | 'remove'
+      trackId: string
+      objectId: string
+      keyframeId: string
+      fields?: Record<string, unknown>
+      ts: HLCTimestamp
+    }
+
+export interface CrdtRegister {
+  value: unknown
+  ts: HLCTimestamp
+}
+
+export interface CrdtElement {
+  id: string
+  addedAt: HLCTimestamp | null
+  removedAt: HLCTimestamp | null
+  fields: Record<string, CrdtRegister>
+}
+
+export interface CrdtKeyframeElement extends CrdtElement {
+  trackId: string
+  objectId: string
+}
+
+export interface CrdtDocument {
+  objects: Record<string, CrdtElement>
+  keyframes: Record<string, CrdtKeyframeElement>
+}
+
+type JsonObject = Record<string, unknown>
+
+// ---------------------------------------------------------------------------
+// Validation
+// ---------------------------------------------------------------------------
+
+function isRecord(value: unknown): value is JsonObject {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+}
+
+function isTimestamp(value: unknown): value is HLCTimestamp {
+  return isRecord(value) && Number.isFinite(value.wallTime) && Number.isFinite(value.counter)
+    && typeof value.peerId === 'string'
+}
+
+function isElement(value: unknown, id: string): value is CrdtElement {
+  if (!isRecord(value) || value.id !== id || !isRecord(value.fields)) return false
+  if (value.addedAt !== null && !isTimestamp(value.addedAt)) return false
+  if (value.removedAt !== null && !isTimestamp(value.removedAt)) return false
+  return Object.values(value.fields).every(register => isRecord(register) && isTimestamp(register.ts))
+}
+
+function isKeyframeElement(value: unknown, id: string): value is CrdtKeyframeElement {
+  return isElement(value, id) && isRecord(value)
+    && typeof value.trackId === 'string' && typeof value.objectId === 'string'
+}
+
+/** Shape check for ops received from clients */
+export function isCrdtOp(value: unknown): value is CrdtOp {
+  if (!isRecord(value) || !isTimestamp(value.ts)) return false
+  switch (value.type) {
+    case 'add':
+      return typeof value.id === 'string' && isRecord(value.object)
+    case 'remove':
+      return typeof value.id === 'string'
+    case 'update-field':
+      return typeof value.id === 'string' && typeof value.field === 'string' && value.field !== 'id'
+    case 'reparent':
+      return typeof value.id === 'string' && (value.parentId === null || typeof value.parentId === 'string')
+    case 'keyframe':
+      return ['add', 'update', 'remove'].includes(value.action as string)
+        && typeof value.trackId === 'string' && typeof value.objectId === 'string'
+        && typeof value.keyframeId === 'string'
+        && (value.fields === undefined || isRecord(value.fields))
+    default:
+      return false
+  }
+}
+
+/** Shape check for documents received from a host's scene-full */
+export function isCrdtDocument(value: unknown): value is CrdtDocument {
+  if (!isRecord(value) || !isRecord(value.objects) || !isRecord(value.keyframes)) return false
+  return Object.entries(value.objects).every(([id, element]) => isElement(element, id))
+    && Object.entries(value.keyframes).every(([id, element]) => isKeyframeElement(element, id))
+}
+
+// ---------------------------------------------------------------------------
+// Merge
+// ---------------------------------------------------------------------------
+
+/** Total order over timestamps: wall time, then counter, then peer id */
+export function compareTimestamps(a: HLCTimestamp, b: HLCTimestamp): number {
+  if (a.wallTime !== b.wallTime) return a.wallTime - b.wallTime
+  if (a.counter !== b.counter) return a.counter - b.counter
+  return a.peerId < b.peerId ? -1 : a.peerId > b.peerId ? 1 : 0
+}
+
+function maxTimestamp(a: HLCTimestamp | null, b: HLCTimestamp | null): HLCTimestamp | null {
+  if (!a) return b
+  if (!b) return a
+  return compareTimestamps(a, b) >= 0 ? a : b
+}
+
+function mergeRegister(current: CrdtRegister | undefined, incoming: CrdtRegister): CrdtRegister {
+  if (!current) return incoming
+  return compareTimestamps(incoming.ts, current.ts) > 0 ? incoming : current
+}
+
+function setFields(fields: Record<string, CrdtRegister>, values: JsonObject, ts: HLCTimestamp): Record<string, CrdtRegister> {
+  const merged = { ...fields }
+  for (const [field, value] of Object.entries(values)) {
+    if (field === 'id') continue
+    merged[field] = mergeRegister(merged[field], { value: value ?? null, ts })
+  }
+  return merged
+}
+
+function isVisible(element: CrdtElement): boolean {
+  if (!element.addedAt) return false
+  return !element.removedAt || compareTimestamps(element.addedAt, element.removedAt) > 0
+}
+
+function applyOp(doc: CrdtDocument, op: CrdtOp): CrdtDocument {
+  if (op.type === 'keyframe') {
+    const element: CrdtKeyframeElement = doc.keyframes[op.keyframeId]
+      ?? { id: op.keyframeId, addedAt: null, removedAt: null, fields: {}, trackId: op.trackId, objectId: op.objectId }
+    const next = op.action === 'remove'
+      ? { ...element, removedAt: maxTimestamp(element.removedAt, op.ts) }
+      : {
+          ...element,
+          addedAt: op.action === 'add' ? maxTimestamp(element.addedAt, op.ts) : element.addedAt,
+          fields: setFields(element.fields, op.fields ?? {}, op.ts),
+        }
+    return { ...doc, keyframes: { ...doc.keyframes, [op.keyframeId]: next } }
+  }
+
+  const element: CrdtElement = doc.objects[op.id] ?? { id: op.id, addedAt: null, removedAt: null, fields: {} }
+  let next: CrdtElement
+  switch (op.type) {
+    case 'add':
+      next = {
+        ...element,
+        addedAt: maxTimestamp(element.addedAt, op.ts),
+        fields: setFields(element.fields, { parentId: null, ...op.object }, op.ts),
+      }
+      break
+    case 'remove':
+      next = { ...element, removedAt: maxTimestamp(element.removedAt, op.ts) }
+      break
+    case 'update-field':
+      next = { ...element, fields: setFields(element.fields, { [op.field]: op.value }, op.ts) }
+      break
+    case 'reparent':
+      next = { ...element, fields: setFields(element.fields, { parentId: op.parentId }, op.ts) }
+      break
+  }
+  return { ...doc, objects: { ...doc.objects, [op.id]: next } }
+}
+
+export function createCrdtDocument(): CrdtDocument {
+  return { objects: {}, keyframes: {} }
+}
+
+/** Apply client ops to a document, skipping malformed ones. Order-independent and idempotent. */
+export function applyCrdtOps(doc: CrdtDocument, ops: unknown[]): CrdtDocument {
+  let next = doc
+  for (const op of ops) {
+    if (isCrdtOp(op)) next = applyOp(next, op)
+  }
+  return next
+}
+
+function mergeElementSets<E extends CrdtElement>(a: Record<string, E>, b: Record<string, E>): Record<string, E> {
+  const merged = { ...a }
+  for (const [id, element] of Object.entries(b)) {
+    const current = merged[id]
+    if (!current) {
+      merged[id] = element
+      continue
+    }
+    const fields = { ...current.fields }
+    for (const [field, register] of Object.entries(element.fields)) {
+      fields[field] = mergeRegister(fields[field], register)
+    }
+    merged[id] = {
+      ...current,
+      addedAt: maxTimestamp(current.addedAt, element.addedAt),
+      removedAt: maxTimestamp(current.removedAt, element.removedAt),
+      fields,
+    }
+  }
+  return merged
+}
+
+/** State-based merge of two replicas */
+export function mergeCrdtDocuments(a: CrdtDocument, b: CrdtDocument): CrdtDocument {
+  return {
+    objects: mergeElementSets(a.objects, b.objects),
+    keyframes: mergeElementSets(a.keyframes, b.keyframes),
+  }
+}
+
+/**
+ * Document holding a plain scene's objects and keyframes at timestamps below
+ * any real edit. Matches seedCrdtDocument() in the app, for snapshots stored
+ * before rooms carried a document.
+ */
+export function seedCrdtDocument(objects: unknown[], tracks: unknown[]): CrdtDocument {
+  let counter = 0
+  const ops: CrdtOp[] = []
+  const stamp = () => ({ wallTime: 0, counter: ++counter, peerId: '' })
+
+  for (const object of objects) {
+    if (isRecord(object) && typeof object.id === 'string') {
+      ops.push({ type: 'add', id: object.id, object, ts: stamp() })
+    }
+  }
+  for (const track of tracks) {
+    if (!isRecord(track) || typeof track.id !== 'string' || typeof track.objectId !== 'string') continue
+    for (const keyframe of Array.isArray(track.keyframes) ? track.keyframes : []) {
+      if (!isRecord(keyframe) || typeof keyframe.id !== 'string') continue
+      const fields = { ...keyframe }
+      delete fields.id
+      ops.push({
+        type: 'keyframe',
+        action: 'add',
+        trackId: track.id,
+        objectId: track.objectId,
+        keyframeId: keyframe.id,
+        fields,
+        ts: stamp(),
+      })
+    }
+  }
+  return applyCrdtOps(createCrdtDocument(), ops)
+}
+
+// ---------------------------------------------------------------------------
+// Materialization (mirrors app/src/core/crdt.ts)
+// ---------------------------------------------------------------------------
+
+function readFields(element: CrdtElement): JsonObject {
+  const values: JsonObject = {}
+  for (const [field, register] of Object.entries(element.fields)) {
+    if (register.value !== null) values[field] = register.value
+  }
+  return values
+}
+
+function byAddedAt(a: CrdtElement, b: CrdtElement): number {
+  return compareTimestamps(a.addedAt!, b.addedAt!)
+}
+
+/** Parent ids after dropping missing parents and breaking cycles (the newest reparent loses) */
+function resolveParents(elements: CrdtElement[]): Map<string, string> {
+  const parents = new Map<string, string>()
+  for (const element of elements) {
+    const parentId = element.fields.parentId?.value
+    if (typeof parentId === 'string') parents.set(element.id, parentId)
+  }
+  const visible = new Set(elements.map(e => e.id))
+  for (const [id, parentId] of parents) {
+    if (!visible.has(parentId)) parents.delete(id)
+  }
+
+  const byId = new Map(elements.map(e => [e.id, e]))
+  for (const element of elements) {
+    const path: string[] = []
+    let current: string | undefined = element.id
+    while (current !== undefined && !path.includes(current)) {
+      path.push(current)
+      current = parents.get(current)
+    }
+    if (current === undefined) continue
+
+    const cycle = path.slice(path.indexOf(current))
+    const newest = cycle.reduce((a, b) =>
+      compareTimestamps(byId.get(a)!.fields.parentId.ts, byId.get(b)!.fields.parentId.ts) >= 0 ? a : b)
+    parents.delete(newest)
+  }
+  return parents
+}
+
+/** Visible objects in creation order */
+export function materializeObjects(doc: CrdtDocument): JsonObject[] {
+  const elements = Object.values(doc.objects).filter(isVisible).sort(byAddedAt)
+  const parents = resolveParents(elements)
+
+  return elements.map(element => {
+    const values = readFields(element)
+    delete values.parentId
+    const parentId = parents.get(element.id)
+    return { ...values, id: element.id, ...(parentId ? { parentId } : {}) }
+  })
+}
+
+/** Visible keyframes grouped into time-sorted tracks, ordered by their earliest keyframe */
+export function materializeTracks(doc: CrdtDocument): JsonObject[] {
+  const tracks = new Map<string, { id: string; objectId: string; keyframes: JsonObject[] }>()
+  const elements = Object.values(doc.keyframes).filter(isVisible).sort(byAddedAt)
+
+  for (const element of elements) {
+    let track = tracks.get(element.trackId)
+    if (!track) {
+      track = { id: element.trackId, objectId: element.objectId, keyframes: [] }
+      tracks.set(element.trackId, track)
+    }
+    track.keyframes.push({ ...readFields(element), id: element.id })
+  }
+
+  const time = (keyframe: JsonObject) => (typeof keyframe.time === 'number' ? keyframe.time : 0)
+  for (const track of tracks.values()) {
+    track.keyframes.sort((a, b) => {
+      const [aId, bId] = [String(a.id), String(b.id)]
+      return time(a) - time(b) || (aId < bId ? -1 : aId > bId ? 1 : 0)
+    })
+  }
+  return [...tracks.values()]
+}
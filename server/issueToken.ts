@@ -0,0 +1,33 @@
+import { signJoinToken, isRole } from './security.js'
+
+// ---------------------------------------------------------------------------
+// Issue a signed join token for a room.
+//
+//   AUTH_SECRET=... npm run token -- <roomId> <owner|editor|viewer> [ttlHours] [userName]
+// ---------------------------------------------------------------------------
+
+const [roomId, role, ttlHours = '24', userName] = process.argv.slice(2)
+const secret = process.env.AUTH_SECRET
+
+if (!secret) {
+  console.error('AUTH_SECRET must be set to the same value as the server')
+  process.exit(1)
+}
+
+if (!roomId || !/^[a-zA-Z0-9_-]+$/.test(roomId) || !isRole(role)) {
+  console.error('Usage: npm run token -- <roomId> <owner|editor|viewer> [ttlHours] [userName]')
+  process.exit(1)
+}
+
+const hours = Number(ttlHours)
+if (!Number.isFinite(hours) || hours <= 0) {
+  console.error(`Invalid ttlHours: ${ttlHours}`)
+  process.exit(1)
+}
+
+console.log(signJoinToken({
+  roomId,
+  role,
+  exp: Date.now() + hours * 3_600_000,
+  ...(userName ? { userName } : {}),
+}, secret))
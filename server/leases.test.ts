@@ -0,0 +1,72 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { LeaseTable } from './leases.js'
+
+const TTL = 10_000
+const NOW = 1_000_000
+
+describe('LeaseTable', () => {
+  it('grants free objects and reports the change', () => {
+    const table = new LeaseTable(TTL)
+    assert.deepEqual(table.acquire('p1', 'Dusty', ['a', 'b'], NOW), { granted: true, changed: true })
+    assert.deepEqual(table.list(), [
+      { objectId: 'a', peerId: 'p1', userName: 'Dusty', expiresAt: NOW + TTL },
+      { objectId: 'b', peerId: 'p1', userName: 'Dusty', expiresAt: NOW + TTL },
+    ])
+  })
+
+  it('refuses the whole request when another peer holds any object', () => {
+    const table = new LeaseTable(TTL)
+    table.acquire('p1', 'Dusty', ['a'], NOW)
+
+    const result = table.acquire('p2', 'Slim', ['b', 'a'], NOW + 1)
+    assert.equal(result.granted, false)
+    assert.equal(!result.granted && result.holder.peerId, 'p1')
+    // Nothing was granted, not even the free object
+    assert.deepEqual(table.list().map(l => l.objectId), ['a'])
+  })
+
+  it('renews the holder silently, moving only the expiry', () => {
+    const table = new LeaseTable(TTL)
+    table.acquire('p1', 'Dusty', ['a'], NOW)
+    assert.deepEqual(table.acquire('p1', 'Dusty', ['a'], NOW + 5_000), { granted: true, changed: false })
+    assert.equal(table.list()[0].expiresAt, NOW + 5_000 + TTL)
+  })
+
+  it('lets another peer take a lapsed lease', () => {
+    const table = new LeaseTable(TTL)
+    table.acquire('p1', 'Dusty', ['a'], NOW)
+    assert.deepEqual(table.acquire('p2', 'Slim', ['a'], NOW + TTL), { granted: true, changed: true })
+    assert.equal(table.list()[0].peerId, 'p2')
+  })
+
+  it('releases only the holder\'s own leases', () => {
+    const table = new LeaseTable(TTL)
+    table.acquire('p1', 'Dusty', ['a'], NOW)
+    table.acquire('p2', 'Slim', ['b'], NOW)
+
+    assert.equal(table.release('p2', ['a']), false)
+    assert.equal(table.release('p1', ['a', 'missing']), true)
+    assert.deepEqual(table.list().map(l => l.objectId), ['b'])
+  })
+
+  it('releases everything a disconnecting peer holds', () => {
+    const table = new LeaseTable(TTL)
+    table.acquire('p1', 'Dusty', ['a', 'b'], NOW)
+    table.acquire('p2', 'Slim', ['c'], NOW)
+
+    assert.equal(table.releaseAll('p1'), true)
+    assert.equal(table.releaseAll('p1'), false)
+    assert.deepEqual(table.list().map(l => l.objectId), ['c'])
+  })
+
+  it('prunes leases once their TTL has passed', () => {
+    const table = new LeaseTable(TTL)
+    table.acquire('p1', 'Dusty', ['a'], NOW)
+    table.acquire('p2', 'Slim', ['b'], NOW + 5_000)
+
+    assert.equal(table.prune(NOW + TTL - 1), false)
+    assert.equal(table.prune(NOW + TTL), true)
+    assert.deepEqual(table.list().map(l => l.objectId), ['b'])
+  })
+})
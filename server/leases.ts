@@ -0,0 +1,96 @@
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/** Mirrors EditLease in app/src/types/collaboration.ts */
+export interface Lease {
+  objectId: string
+  peerId: string
+  userName: string
+  /** Server time (ms) after which the lease lapses unless renewed */
+  expiresAt: number
+}
+
+export type AcquireResult =
+  | { granted: true; changed: boolean }
+  | { granted: false; holder: Lease }
+
+// ---------------------------------------------------------------------------
+// Lease table
+// ---------------------------------------------------------------------------
+
+/**
+ * Per-room soft locks on scene objects. A peer leases the objects it is
+ * editing; other peers are refused until the holder releases the lease, the
+ * lease times out, or the holder disconnects.
+ */
+export class LeaseTable {
+  private leases = new Map<string, Lease>()
+  private readonly ttlMs: number
+
+  constructor(ttlMs: number) {
+    this.ttlMs = ttlMs
+  }
+
+  /**
+   * Acquire or renew leases on all `objectIds`, or none of them: a request is
+   * refused as a whole if any object is held by another peer.
+   */
+  acquire(peerId: string, userName: string, objectIds: string[], now: number = Date.now()): AcquireResult {
+    for (const objectId of objectIds) {
+      const held = this.leases.get(objectId)
+      if (held && held.peerId !== peerId && held.expiresAt > now) {
+        return { granted: false, holder: held }
+      }
+    }
+
+    let changed = false
+    for (const objectId of objectIds) {
+      const held = this.leases.get(objectId)
+      // Renewals only move the expiry; they are not worth a broadcast
+      if (!held || held.peerId !== peerId) changed = true
+      this.leases.set(objectId, { objectId, peerId, userName, expiresAt: now + this.ttlMs })
+    }
+    return { granted: true, changed }
+  }
+
+  /** Release the peer's leases on `objectIds`. Returns true if any were held. */
+  release(peerId: string, objectIds: string[]): boolean {
+    let changed = false
+    for (const objectId of objectIds) {
+      if (this.leases.get(objectId)?.peerId === peerId) {
+        this.leases.delete(objectId)
+        changed = true
+      }
+    }
+    return changed
+  }
+
+  /** Release everything the peer holds (on leave or disconnect) */
+  releaseAll(peerId: string): boolean {
+    let changed = false
+    for (const [objectId, lease] of this.leases) {
+      if (lease.peerId === peerId) {
+        this.leases.delete(objectId)
+        changed = true
+      }
+    }
+    return changed
+  }
+
+  /** Drop lapsed leases. Returns true if any were removed. */
+  prune(now: number = Date.now()): boolean {
+    let changed = false
+    for (const [objectId, lease] of this.leases) {
+      if (lease.expiresAt <= now) {
+        this.leases.delete(objectId)
+        changed = true
+      }
+    }
+    return changed
+  }
+
+  list(): Lease[] {
+    return Array.from(this.leases.values())
+  }
+}
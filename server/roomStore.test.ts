@@ -0,0 +1,228 @@
+import { afterEach, beforeEach, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import { mkdtempSync, readdirSync, readFileSync, rmSync, writeFileSync } from 'fs'
+import { tmpdir } from 'os'
+import { join } from 'path'
+import { RoomStore, applySceneDiff, type SceneJson } from './roomStore.js'
+import { type HLCTimestamp, applyCrdtOps, seedCrdtDocument } from './crdt.js'
+
+function makeScene(): SceneJson {
+  return {
+    objects: [{ id: 'a', name: 'Cactus', position: [0, 0, 0] }, { id: 'b', name: 'Rock' }],
+    animationTracks: [],
+    shots: [],
+    environment: { fogEnabled: false, backgroundColor: '#000000' },
+    animationDuration: 5,
+  }
+}
+
+function ts(wallTime: number, peerId = 'p1'): HLCTimestamp {
+  return { wallTime, counter: 0, peerId }
+}
+
+// ---------------------------------------------------------------------------
+// applySceneDiff
+// ---------------------------------------------------------------------------
+
+describe('applySceneDiff', () => {
+  it('adds, updates and removes collection items', () => {
+    const scene = applySceneDiff(makeScene(), [
+      { op: 'add', collection: 'objects', item: { id: 'c', name: 'Wagon' }, index: 1 },
+      { op: 'update', collection: 'objects', id: 'a', changes: { name: 'Saguaro' }, unset: ['position'] },
+      { op: 'remove', collection: 'objects', id: 'b' },
+    ])
+    assert.deepEqual(scene.objects, [{ id: 'a', name: 'Saguaro' }, { id: 'c', name: 'Wagon' }])
+  })
+
+  it('patches the environment and duration', () => {
+    const scene = applySceneDiff(makeScene(), [
+      { op: 'environment', changes: { fogEnabled: true } },
+      { op: 'duration', duration: 8 },
+    ])
+    assert.deepEqual(scene.environment, { fogEnabled: true, backgroundColor: '#000000' })
+    assert.equal(scene.animationDuration, 8)
+  })
+
+  it('skips malformed ops and unknown collections', () => {
+    const before = makeScene()
+    const scene = applySceneDiff(before, [
+      null,
+      'remove everything',
+      { op: 'remove', collection: 'users', id: 'a' },
+      { op: 'add', collection: 'objects', item: { name: 'no id' }, index: 0 },
+      { op: 'duration', duration: 'long' },
+    ])
+    assert.deepEqual(scene, before)
+  })
+
+  it('does not mutate the input scene', () => {
+    const before = makeScene()
+    applySceneDiff(before, [{ op: 'remove', collection: 'objects', id: 'a' }])
+    assert.equal((before.objects as unknown[]).length, 2)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// RoomStore
+// ---------------------------------------------------------------------------
+
+describe('RoomStore', () => {
+  let dir: string
+
+  beforeEach(() => {
+    dir = mkdtempSync(join(tmpdir(), 'rooms-'))
+  })
+
+  afterEach(() => {
+    rmSync(dir, { recursive: true, force: true })
+  })
+
+  function readSnapshot(roomId: string) {
+    return JSON.parse(readFileSync(join(dir, `${roomId}.json`), 'utf-8'))
+  }
+
+  it('versions full scenes and diffs', () => {
+    const store = new RoomStore(null)
+    assert.equal(store.applyDiff('canyon', [{ op: 'duration', duration: 8 }]), false)
+
+    assert.equal(store.setScene('canyon', makeScene()).version, 1)
+    assert.equal(store.applyDiff('canyon', [{ op: 'duration', duration: 8 }]), true)
+
+    const snapshot = store.get('canyon')!
+    assert.equal(snapshot.version, 2)
+    assert.equal(snapshot.scene.animationDuration, 8)
+  })
+
+  it('writes snapshots through a temp file and leaves no temp file behind', async () => {
+    const store = new RoomStore(dir)
+    store.setScene('canyon', makeScene())
+    store.applyDiff('canyon', [], [{ type: 'remove', id: 'b', ts: ts(1) }])
+    await store.flush()
+
+    assert.deepEqual(readdirSync(dir), ['canyon.json'])
+    const saved = readSnapshot('canyon')
+    assert.equal(saved.roomId, 'canyon')
+    assert.equal(saved.version, 2)
+    assert.deepEqual(saved.scene.objects, [{ id: 'a', name: 'Cactus', position: [0, 0, 0] }])
+  })
+
+  it('debounces writes until the persist delay', async (t) => {
+    t.mock.timers.enable({ apis: ['setTimeout'] })
+    const store = new RoomStore(dir)
+    store.setScene('canyon', makeScene())
+    store.applyDiff('canyon', [{ op: 'duration', duration: 8 }])
+    assert.deepEqual(readdirSync(dir), [])
+
+    t.mock.timers.tick(1_000)
+    t.mock.timers.reset()
+    // The timer starts the write without awaiting it; wait for the file to appear
+    for (let i = 0; i < 50 && !readdirSync(dir).includes('canyon.json'); i++) {
+      await new Promise(resolve => setImmediate(resolve))
+    }
+    assert.equal(readSnapshot('canyon').version, 2)
+  })
+
+  it('merges object edits from CRDT ops by timestamp, in any order', () => {
+    const ops = [
+      { type: 'update-field', id: 'a', field: 'name', value: 'Saguaro', ts: ts(2, 'p1') },
+      { type: 'update-field', id: 'a', field: 'name', value: 'Joshua', ts: ts(1, 'p2') },
+      { type: 'keyframe', action: 'add', trackId: 't1', objectId: 'a', keyframeId: 'k1', fields: { time: 1 }, ts: ts(3) },
+      { type: 'remove', id: 'b', ts: ts(4) },
+      { type: 'update-field', id: 'b', field: 'name', value: 'Boulder', ts: ts(5) },
+    ]
+    const forward = new RoomStore(null)
+    const backward = new RoomStore(null)
+    forward.setScene('canyon', makeScene())
+    backward.setScene('canyon', makeScene())
+    for (const op of ops) forward.applyDiff('canyon', [], [op])
+    for (const op of [...ops].reverse()) backward.applyDiff('canyon', [], [op])
+
+    const scene = forward.get('canyon')!.scene
+    assert.deepEqual(scene.objects, [{ id: 'a', name: 'Saguaro', position: [0, 0, 0] }])
+    assert.deepEqual(scene.animationTracks, [{ id: 't1', objectId: 'a', keyframes: [{ id: 'k1', time: 1 }] }])
+    assert.deepEqual(backward.get('canyon')!.scene, scene)
+  })
+
+  it('merges a host scene into the stored document', () => {
+    const store = new RoomStore(null)
+    store.setScene('canyon', makeScene())
+    // A rename the host has not seen yet when it answers request-full
+    store.applyDiff('canyon', [], [{ type: 'update-field', id: 'a', field: 'name', value: 'Saguaro', ts: ts(2) }])
+
+    const hostDoc = applyCrdtOps(seedCrdtDocument(makeScene().objects as unknown[], []), [
+      { type: 'update-field', id: 'b', field: 'name', value: 'Boulder', ts: ts(1, 'host') },
+    ])
+    store.setScene('canyon', makeScene(), hostDoc)
+
+    assert.deepEqual(store.get('canyon')!.scene.objects, [
+      { id: 'a', name: 'Saguaro', position: [0, 0, 0] },
+      { id: 'b', name: 'Boulder' },
+    ])
+  })
+
+  it('stores the password hash with the snapshot but not in it', async () => {
+    const store = new RoomStore(dir)
+    store.setScene('canyon', makeScene())
+    store.setPasswordHash('canyon', 'salt:hash')
+    await store.flush()
+
+    assert.equal(readSnapshot('canyon').passwordHash, 'salt:hash')
+    assert.equal(store.get('canyon')!.passwordHash, undefined)
+    assert.equal(store.list()[0].passwordProtected, true)
+  })
+
+  it('restores persisted rooms and their passwords from disk', async () => {
+    const first = new RoomStore(dir)
+    first.setScene('canyon', makeScene())
+    first.applyDiff('canyon', [{ op: 'environment', changes: { fogEnabled: true } }])
+    first.setPasswordHash('canyon', 'salt:hash')
+    await first.flush()
+
+    const second = new RoomStore(dir)
+    assert.equal(second.loadFromDisk(), 1)
+    const snapshot = second.get('canyon')!
+    assert.equal(snapshot.version, 2)
+    assert.deepEqual(snapshot.scene, applySceneDiff(makeScene(), [{ op: 'environment', changes: { fogEnabled: true } }]))
+    assert.equal(second.getPasswordHash('canyon'), 'salt:hash')
+    assert.deepEqual(second.list().map(s => [s.roomId, s.objectCount]), [['canyon', 2]])
+  })
+
+  it('seeds a document for snapshots stored without one', () => {
+    writeFileSync(join(dir, 'saloon.json'), JSON.stringify({
+      roomId: 'saloon', scene: makeScene(), version: 3, updatedAt: 0,
+    }))
+
+    const store = new RoomStore(dir)
+    assert.equal(store.loadFromDisk(), 1)
+    store.applyDiff('saloon', [], [{ type: 'update-field', id: 'b', field: 'name', value: 'Boulder', ts: ts(1) }])
+    assert.deepEqual(store.get('saloon')!.scene.objects, [
+      { id: 'a', name: 'Cactus', position: [0, 0, 0] },
+      { id: 'b', name: 'Boulder' },
+    ])
+  })
+
+  it('skips unreadable and foreign files on load', () => {
+    writeFileSync(join(dir, 'broken.json'), '{ not json')
+    writeFileSync(join(dir, 'other.json'), JSON.stringify({ hello: 'world' }))
+    writeFileSync(join(dir, 'notes.txt'), 'ignored')
+
+    const store = new RoomStore(dir)
+    const errors: unknown[] = []
+    const originalError = console.error
+    console.error = (...args: unknown[]) => errors.push(args)
+    try {
+      assert.equal(store.loadFromDisk(), 0)
+    } finally {
+      console.error = originalError
+    }
+    assert.equal(errors.length, 2)
+  })
+
+  it('keeps everything in memory without a data directory', async () => {
+    const store = new RoomStore(null)
+    store.setScene('canyon', makeScene())
+    await store.flush()
+    assert.equal(store.loadFromDisk(), 0)
+    assert.equal(store.has('canyon'), true)
+  })
+})
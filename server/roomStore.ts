@@ -0,0 +1,284 @@
+import { mkdirSync, readdirSync, readFileSync } from 'fs'
+import { writeFile, rename } from 'fs/promises'
+import { join } from 'path'
+import {
+  type CrdtDocument,
+  isCrdtDocument,
+  applyCrdtOps,
+  mergeCrdtDocuments,
+  seedCrdtDocument,
+  materializeObjects,
+  materializeTracks,
+} from './crdt.js'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+/**
+ * Scene payload as produced by the editor's saveScene(). The server only
+ * relies on the keyed collections and never validates the item contents.
+ */
+export type SceneJson = Record<string, unknown>
+
+export interface RoomSnapshot {
+  roomId: string
+  scene: SceneJson
+  /** Replicated objects and keyframes; the scene's objects and tracks are read from it */
+  crdt: CrdtDocument
+  /** Incremented on every applied scene-full or scene-diff */
+  version: number
+  updatedAt: number
+  /** scrypt hash of the room password, if the room is protected */
+  passwordHash?: string
+}
+
+export interface RoomSnapshotSummary {
+  roomId: string
+  version: number
+  updatedAt: number
+  objectCount: number
+  passwordProtected: boolean
+}
+
+interface Keyed {
+  id: string
+}
+
+/** Mirrors SceneDiffOp in app/src/types/collaboration.ts */
+type SceneDiffOp =
+  | { op: 'add'; collection: string; item: Keyed; index: number }
+  | { op: 'update'; collection: string; id: string; changes: Record<string, unknown>; unset?: string[] }
+  | { op: 'remove'; collection: string; id: string }
+  | { op: 'environment'; changes: Record<string, unknown> }
+  | { op: 'duration'; duration: number }
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+/** Diff collection name -> SceneData field */
+const COLLECTION_FIELDS: Record<string, string> = {
+  objects: 'objects',
+  tracks: 'animationTracks',
+  shots: 'shots',
+}
+
+const PERSIST_DELAY_MS = 1_000
+
+// ---------------------------------------------------------------------------
+// Scene patching
+// ---------------------------------------------------------------------------
+
+export function isSceneJson(value: unknown): value is SceneJson {
+  return !!value && typeof value === 'object' && !Array.isArray(value)
+    && Array.isArray((value as SceneJson).objects)
+}
+
+function applyCollectionOp(items: Keyed[], op: SceneDiffOp): Keyed[] {
+  switch (op.op) {
+    case 'add': {
+      if (!op.item || typeof op.item.id !== 'string') return items
+      const existing = items.findIndex(i => i.id === op.item.id)
+      if (existing !== -1) {
+        return items.map((item, idx) => (idx === existing ? op.item : item))
+      }
+      const index = Math.max(0, Math.min(Number(op.index) || 0, items.length))
+      return [...items.slice(0, index), op.item, ...items.slice(index)]
+    }
+    case 'update':
+      return items.map(item => {
+        if (item.id !== op.id) return item
+        const merged: Record<string, unknown> = { ...item, ...op.changes, id: item.id }
+        for (const key of op.unset ?? []) delete merged[key]
+        return merged as unknown as Keyed
+      })
+    case 'remove':
+      return items.filter(item => item.id !== op.id)
+    default:
+      return items
+  }
+}
+
+/**
+ * Apply scene-diff ops to a scene. Ops with unknown shapes are skipped so a
+ * misbehaving client cannot corrupt the snapshot structure.
+ */
+export function applySceneDiff(scene: SceneJson, ops: unknown[]): SceneJson {
+  const next: SceneJson = { ...scene }
+
+  for (const raw of ops) {
+    if (!raw || typeof raw !== 'object') continue
+    const op = raw as SceneDiffOp
+
+    if (op.op === 'environment') {
+      if (op.changes && typeof op.changes === 'object') {
+        next.environment = { ...(next.environment as object), ...op.changes }
+      }
+    } else if (op.op === 'duration') {
+      if (typeof op.duration === 'number' && Number.isFinite(op.duration)) {
+        next.animationDuration = op.duration
+      }
+    } else if ('collection' in op) {
+      const field = COLLECTION_FIELDS[op.collection]
+      if (!field) continue
+      const items = Array.isArray(next[field]) ? (next[field] as Keyed[]) : []
+      next[field] = applyCollectionOp(items, op)
+    }
+  }
+
+  return next
+}
+
+/** The scene with its objects and tracks replaced by those of the document */
+function materializeScene(scene: SceneJson, crdt: CrdtDocument): SceneJson {
+  return { ...scene, objects: materializeObjects(crdt), animationTracks: materializeTracks(crdt) }
+}
+
+function seedFromScene(scene: SceneJson): CrdtDocument {
+  const tracks = Array.isArray(scene.animationTracks) ? scene.animationTracks : []
+  return seedCrdtDocument(scene.objects as unknown[], tracks)
+}
+
+// ---------------------------------------------------------------------------
+// Store
+// ---------------------------------------------------------------------------
+
+/**
+ * Authoritative per-room scene snapshots. When a data directory is given,
+ * snapshots are written to `<dir>/<roomId>.json` (debounced) and reloaded on
+ * startup, so rooms survive both empty periods and server restarts.
+ */
+export class RoomStore {
+  private snapshots = new Map<string, RoomSnapshot>()
+  /** Kept apart from snapshots: a room can be protected before its scene arrives */
+  private passwordHashes = new Map<string, string>()
+  private pendingWrites = new Map<string, ReturnType<typeof setTimeout>>()
+  private readonly dataDir: string | null
+
+  constructor(dataDir: string | null) {
+    this.dataDir = dataDir
+  }
+
+  /** Read persisted snapshots. Unreadable files are logged and skipped. */
+  loadFromDisk(): number {
+    if (!this.dataDir) return 0
+    mkdirSync(this.dataDir, { recursive: true })
+
+    for (const file of readdirSync(this.dataDir)) {
+      if (!file.endsWith('.json')) continue
+      try {
+        const snapshot = JSON.parse(readFileSync(join(this.dataDir, file), 'utf-8')) as RoomSnapshot
+        if (typeof snapshot.roomId !== 'string' || !isSceneJson(snapshot.scene)) {
+          throw new Error('not a room snapshot')
+        }
+        const { passwordHash, ...rest } = snapshot
+        // Snapshots stored before rooms carried a document are seeded from their scene
+        if (!isCrdtDocument(rest.crdt)) rest.crdt = seedFromScene(rest.scene)
+        this.snapshots.set(snapshot.roomId, rest)
+        if (typeof passwordHash === 'string') this.passwordHashes.set(snapshot.roomId, passwordHash)
+      } catch (err) {
+        console.error(`[store] skipping ${file}:`, (err as Error).message)
+      }
+    }
+    return this.snapshots.size
+  }
+
+  get(roomId: string): RoomSnapshot | undefined {
+    return this.snapshots.get(roomId)
+  }
+
+  has(roomId: string): boolean {
+    return this.snapshots.has(roomId)
+  }
+
+  list(): RoomSnapshotSummary[] {
+    return Array.from(this.snapshots.values()).map(s => ({
+      roomId: s.roomId,
+      version: s.version,
+      updatedAt: s.updatedAt,
+      objectCount: Array.isArray(s.scene.objects) ? s.scene.objects.length : 0,
+      passwordProtected: this.passwordHashes.has(s.roomId),
+    }))
+  }
+
+  getPasswordHash(roomId: string): string | undefined {
+    return this.passwordHashes.get(roomId)
+  }
+
+  setPasswordHash(roomId: string, passwordHash: string): void {
+    this.passwordHashes.set(roomId, passwordHash)
+    this.schedulePersist(roomId)
+  }
+
+  /**
+   * Replace the room's scene (from a host's scene-full). The host's document is
+   * merged into the stored one, so edits the host has not seen yet survive.
+   */
+  setScene(roomId: string, scene: SceneJson, crdt?: CrdtDocument): RoomSnapshot {
+    const previous = this.snapshots.get(roomId)
+    const doc = !crdt ? seedFromScene(scene) : previous ? mergeCrdtDocuments(previous.crdt, crdt) : crdt
+    const snapshot: RoomSnapshot = {
+      roomId,
+      scene: materializeScene(scene, doc),
+      crdt: doc,
+      version: (previous?.version ?? 0) + 1,
+      updatedAt: Date.now(),
+    }
+    this.snapshots.set(roomId, snapshot)
+    this.schedulePersist(roomId)
+    return snapshot
+  }
+
+  /**
+   * Apply a scene-diff. Objects and tracks are merged from `crdtOps`; `ops`
+   * patch the rest of the scene. Returns false when the room has no snapshot yet.
+   */
+  applyDiff(roomId: string, ops: unknown[], crdtOps: unknown[] = []): boolean {
+    const snapshot = this.snapshots.get(roomId)
+    if (!snapshot) return false
+
+    const crdt = applyCrdtOps(snapshot.crdt, crdtOps)
+    this.snapshots.set(roomId, {
+      ...snapshot,
+      scene: materializeScene(applySceneDiff(snapshot.scene, ops), crdt),
+      crdt,
+      version: snapshot.version + 1,
+      updatedAt: Date.now(),
+    })
+    this.schedulePersist(roomId)
+    return true
+  }
+
+  /** Write all pending snapshots immediately (used on shutdown) */
+  async flush(): Promise<void> {
+    const roomIds = Array.from(this.pendingWrites.keys())
+    for (const timer of this.pendingWrites.values()) clearTimeout(timer)
+    this.pendingWrites.clear()
+    await Promise.all(roomIds.map(id => this.persist(id)))
+  }
+
+  private schedulePersist(roomId: string): void {
+    if (!this.dataDir || this.pendingWrites.has(roomId)) return
+    this.pendingWrites.set(roomId, setTimeout(() => {
+      this.pendingWrites.delete(roomId)
+      void this.persist(roomId)
+    }, PERSIST_DELAY_MS))
+  }
+
+  private async persist(roomId: string): Promise<void> {
+    const snapshot = this.snapshots.get(roomId)
+    if (!this.dataDir || !snapshot) return
+
+    // Write-then-rename so a crash never leaves a truncated snapshot behind
+    const target = join(this.dataDir, `${roomId}.json`)
+    const temp = `${target}.tmp`
+    try {
+      const passwordHash = this.passwordHashes.get(roomId)
+      await writeFile(temp, JSON.stringify(passwordHash ? { ...snapshot, passwordHash } : snapshot), 'utf-8')
+      await rename(temp, target)
+    } catch (err) {
+      console.error(`[store] failed to persist ${roomId}:`, (err as Error).message)
+    }
+  }
+}
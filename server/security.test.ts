@@ -0,0 +1,123 @@
+import { describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import {
+  type JoinTokenClaims,
+  canEdit,
+  isRole,
+  signJoinToken,
+  verifyJoinToken,
+  hashPassword,
+  verifyPassword,
+  TokenBucket,
+} from './security.js'
+
+const SECRET = 'test-secret'
+const NOW = 1_700_000_000_000
+
+function makeClaims(overrides: Partial<JoinTokenClaims> = {}): JoinTokenClaims {
+  return { roomId: 'canyon', role: 'editor', exp: NOW + 60_000, ...overrides }
+}
+
+// ---------------------------------------------------------------------------
+// Roles
+// ---------------------------------------------------------------------------
+
+describe('roles', () => {
+  it('recognizes the three roles only', () => {
+    assert.equal(isRole('owner'), true)
+    assert.equal(isRole('viewer'), true)
+    assert.equal(isRole('admin'), false)
+    assert.equal(isRole(undefined), false)
+  })
+
+  it('lets owners and editors change the scene, not viewers', () => {
+    assert.equal(canEdit('owner'), true)
+    assert.equal(canEdit('editor'), true)
+    assert.equal(canEdit('viewer'), false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Join tokens
+// ---------------------------------------------------------------------------
+
+describe('join tokens', () => {
+  it('round-trips the claims of a valid token', () => {
+    const claims = makeClaims({ role: 'viewer', userName: 'Dusty' })
+    assert.deepEqual(verifyJoinToken(signJoinToken(claims, SECRET), SECRET, NOW), claims)
+  })
+
+  it('rejects a token signed with another secret', () => {
+    const token = signJoinToken(makeClaims(), 'other-secret')
+    assert.equal(verifyJoinToken(token, SECRET, NOW), null)
+  })
+
+  it('rejects a token whose claims were tampered with', () => {
+    const [, signature] = signJoinToken(makeClaims(), SECRET).split('.')
+    const forged = Buffer.from(JSON.stringify(makeClaims({ role: 'owner' }))).toString('base64url')
+    assert.equal(verifyJoinToken(`${forged}.${signature}`, SECRET, NOW), null)
+  })
+
+  it('rejects an expired token', () => {
+    const token = signJoinToken(makeClaims({ exp: NOW }), SECRET)
+    assert.equal(verifyJoinToken(token, SECRET, NOW), null)
+    assert.notEqual(verifyJoinToken(token, SECRET, NOW - 1), null)
+  })
+
+  it('keeps the room binding, so callers can refuse other rooms', () => {
+    const claims = verifyJoinToken(signJoinToken(makeClaims({ roomId: 'saloon' }), SECRET), SECRET, NOW)
+    assert.equal(claims?.roomId, 'saloon')
+  })
+
+  it('rejects malformed tokens and claims', () => {
+    assert.equal(verifyJoinToken('', SECRET, NOW), null)
+    assert.equal(verifyJoinToken('a.b.c', SECRET, NOW), null)
+    const badRole = signJoinToken({ ...makeClaims(), role: 'admin' } as unknown as JoinTokenClaims, SECRET)
+    assert.equal(verifyJoinToken(badRole, SECRET, NOW), null)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Room passwords
+// ---------------------------------------------------------------------------
+
+describe('room passwords', () => {
+  it('verifies the password it hashed', async () => {
+    const stored = await hashPassword('hunter2')
+    assert.equal(await verifyPassword('hunter2', stored), true)
+    assert.equal(await verifyPassword('hunter3', stored), false)
+  })
+
+  it('salts every hash', async () => {
+    assert.notEqual(await hashPassword('hunter2'), await hashPassword('hunter2'))
+  })
+
+  it('rejects malformed stored hashes', async () => {
+    assert.equal(await verifyPassword('hunter2', 'no-separator'), false)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+
+describe('TokenBucket', () => {
+  it('allows a burst up to its capacity', () => {
+    const bucket = new TokenBucket(3, 1, NOW)
+    assert.deepEqual([1, 2, 3, 4].map(() => bucket.take(NOW)), [true, true, true, false])
+  })
+
+  it('refills at its rate', () => {
+    const bucket = new TokenBucket(2, 4, NOW)
+    bucket.take(NOW)
+    bucket.take(NOW)
+    assert.equal(bucket.take(NOW + 100), false)
+    assert.equal(bucket.take(NOW + 250), true)
+  })
+
+  it('never refills past its capacity', () => {
+    const bucket = new TokenBucket(2, 100, NOW)
+    const later = NOW + 60_000
+    assert.deepEqual([1, 2, 3].map(() => bucket.take(later)), [true, true, false])
+  })
+})
@@ -0,0 +1,134 @@
+import { createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto'
+import { promisify } from 'util'
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: string, keylen: number) => Promise<Buffer>
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export type Role = 'owner' | 'editor' | 'viewer'
+
+export interface JoinTokenClaims {
+  roomId: string
+  role: Role
+  /** Expiry as a Unix timestamp in milliseconds */
+  exp: number
+  /** Optional display name to enforce for the holder */
+  userName?: string
+}
+
+// ---------------------------------------------------------------------------
+// Roles
+// ---------------------------------------------------------------------------
+
+const ROLES: readonly Role[] = ['owner', 'editor', 'viewer']
+
+export function isRole(value: unknown): value is Role {
+  return typeof value === 'string' && (ROLES as readonly string[]).includes(value)
+}
+
+/** Whether a role may change the room's scene (scene-diff / scene-full) */
+export function canEdit(role: Role): boolean {
+  return role !== 'viewer'
+}
+
+// ---------------------------------------------------------------------------
+// Join tokens
+// ---------------------------------------------------------------------------
+
+function sign(payload: string, secret: string): string {
+  return createHmac('sha256', secret).update(payload).digest('base64url')
+}
+
+/**
+ * Create a join token: `base64url(claims).base64url(hmac-sha256(claims))`.
+ * Tokens are bound to one room and carry the holder's role.
+ */
+export function signJoinToken(claims: JoinTokenClaims, secret: string): string {
+  const payload = Buffer.from(JSON.stringify(claims), 'utf-8').toString('base64url')
+  return `${payload}.${sign(payload, secret)}`
+}
+
+/** Returns the token's claims, or null if it is malformed, forged or expired */
+export function verifyJoinToken(
+  token: string,
+  secret: string,
+  now: number = Date.now(),
+): JoinTokenClaims | null {
+  const parts = token.split('.')
+  if (parts.length !== 2) return null
+  const [payload, signature] = parts
+
+  const expected = Buffer.from(sign(payload, secret))
+  const actual = Buffer.from(signature)
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) return null
+
+  let claims: Partial<JoinTokenClaims>
+  try {
+    claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf-8'))
+  } catch {
+    return null
+  }
+
+  if (typeof claims.roomId !== 'string' || !isRole(claims.role) || typeof claims.exp !== 'number') {
+    return null
+  }
+  if (claims.exp <= now) return null
+  return claims as JoinTokenClaims
+}
+
+// ---------------------------------------------------------------------------
+// Room passwords
+// ---------------------------------------------------------------------------
+
+/**
+ * Hash a room password as `salt:scrypt(password, salt)` (hex). scrypt runs on
+ * the libuv pool so a stream of join attempts never stalls the event loop.
+ */
+export async function hashPassword(password: string): Promise<string> {
+  const salt = randomBytes(16).toString('hex')
+  const hash = (await scryptAsync(password, salt, 32)).toString('hex')
+  return `${salt}:${hash}`
+}
+
+export async function verifyPassword(password: string, stored: string): Promise<boolean> {
+  const [salt, hash] = stored.split(':')
+  if (!salt || !hash) return false
+  const expected = Buffer.from(hash, 'hex')
+  const actual = await scryptAsync(password, salt, expected.length)
+  return timingSafeEqual(expected, actual)
+}
+
+// ---------------------------------------------------------------------------
+// Rate limiting
+// ---------------------------------------------------------------------------
+
+/**
+ * Token bucket: holds up to `capacity` messages and refills at
+ * `refillPerSecond`. Each socket gets its own bucket.
+ */
+export class TokenBucket {
+  private tokens: number
+  private lastRefill: number
+  private readonly capacity: number
+  private readonly refillPerSecond: number
+
+  constructor(capacity: number, refillPerSecond: number, now: number = Date.now()) {
+    this.capacity = capacity
+    this.refillPerSecond = refillPerSecond
+    this.tokens = capacity
+    this.lastRefill = now
+  }
+
+  /** Consume one token. Returns false when the bucket is empty. */
+  take(now: number = Date.now()): boolean {
+    const elapsed = Math.max(0, now - this.lastRefill) / 1000
+    this.tokens = Math.min(this.capacity, this.tokens + elapsed * this.refillPerSecond)
+    this.lastRefill = now
+
+    if (this.tokens < 1) return false
+    this.tokens -= 1
+    return true
+  }
+}
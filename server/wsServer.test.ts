@@ -0,0 +1,184 @@
+import { after, before, describe, it } from 'node:test'
+import assert from 'node:assert/strict'
+import type { AddressInfo } from 'net'
+import { WebSocket } from 'ws'
+import { signJoinToken, type Role } from './security.js'
+
+// The server reads its configuration at import time
+const SECRET = 'test-secret'
+process.env.PORT = '0'
+process.env.ROOM_DATA_DIR = ''
+process.env.AUTH_SECRET = SECRET
+
+const { httpServer, wss } = await import('./wsServer.js')
+
+interface Message {
+  type: string
+  roomId: string
+  peerId: string
+  timestamp: number
+  payload: Record<string, unknown>
+}
+
+interface TestClient {
+  ws: WebSocket
+  peerId: string
+  /** Resolves with the first unread message of this type */
+  next: (type: string) => Promise<Message>
+  send: (type: string, payload: unknown) => void
+  closed: Promise<number>
+}
+
+let baseUrl = ''
+let peerCounter = 0
+
+function tokenFor(roomId: string, role: Role): string {
+  return signJoinToken({ roomId, role, exp: Date.now() + 60_000 }, SECRET)
+}
+
+async function connect(roomId: string): Promise<TestClient> {
+  const ws = new WebSocket(`${baseUrl.replace('http', 'ws')}/ws/${roomId}`)
+  const peerId = `peer_${++peerCounter}`
+  const inbox: Message[] = []
+  const waiting: { type: string; resolve: (msg: Message) => void }[] = []
+
+  ws.on('message', (data) => {
+    const msg = JSON.parse(data.toString()) as Message
+    const waiter = waiting.findIndex(w => w.type === msg.type)
+    if (waiter === -1) inbox.push(msg)
+    else waiting.splice(waiter, 1)[0].resolve(msg)
+  })
+  const closed = new Promise<number>(resolve => ws.on('close', code => resolve(code)))
+  await new Promise((resolve, reject) => {
+    ws.once('open', resolve)
+    ws.once('error', reject)
+  })
+
+  return {
+    ws,
+    peerId,
+    closed,
+    next: (type) => {
+      const index = inbox.findIndex(m => m.type === type)
+      if (index !== -1) return Promise.resolve(inbox.splice(index, 1)[0])
+      return new Promise(resolve => waiting.push({ type, resolve }))
+    },
+    send: (type, payload) => ws.send(JSON.stringify({ type, roomId, peerId, timestamp: Date.now(), payload })),
+  }
+}
+
+async function join(roomId: string, role: Role): Promise<TestClient> {
+  const client = await connect(roomId)
+  client.send('join', { userName: role, token: tokenFor(roomId, role) })
+  await client.next('joined')
+  return client
+}
+
+before(async () => {
+  if (!httpServer.listening) await new Promise(resolve => httpServer.once('listening', resolve))
+  baseUrl = `http://localhost:${(httpServer.address() as AddressInfo).port}`
+})
+
+after(async () => {
+  for (const ws of wss.clients) ws.terminate()
+  await new Promise(resolve => wss.close(resolve))
+  await new Promise(resolve => httpServer.close(resolve))
+})
+
+// ---------------------------------------------------------------------------
+// Joining
+// ---------------------------------------------------------------------------
+
+describe('join', () => {
+  it('rejects a token issued for another room', async () => {
+    const client = await connect('corral')
+    client.send('join', { userName: 'Dusty', token: tokenFor('saloon', 'owner') })
+    assert.match(String((await client.next('error')).payload.message), /Invalid or expired/)
+    assert.equal(await client.closed, 4003)
+  })
+
+  it('closes an unjoined socket that sends a large frame, without parsing it', async () => {
+    const client = await connect('corral')
+    client.ws.send('x'.repeat(64 * 1024))
+    assert.equal(await client.closed, 1009)
+  })
+})
+
+// ---------------------------------------------------------------------------
+// Roles
+// ---------------------------------------------------------------------------
+
+describe('roles', () => {
+  it('refuses scene changes from viewers', async () => {
+    const owner = await join('ranch', 'owner')
+    await owner.next('request-full')
+    owner.send('scene-full', { targetPeerId: 'server', scene: { objects: [] } })
+
+    const viewer = await join('ranch', 'viewer')
+    await viewer.next('scene-full')
+
+    viewer.send('scene-diff', { ops: [{ op: 'duration', duration: 99 }] })
+    assert.equal((await viewer.next('error')).payload.message, 'Viewers cannot change the scene')
+    viewer.send('scene-full', { targetPeerId: owner.peerId, scene: { objects: [] } })
+    assert.equal((await viewer.next('error')).payload.message, 'Viewers cannot change the scene')
+
+    // An editor's diff reaches the viewer
+    owner.send('scene-diff', { ops: [{ op: 'duration', duration: 12 }] })
+    assert.deepEqual((await viewer.next('scene-diff')).payload.ops, [{ op: 'duration', duration: 12 }])
+
+    owner.ws.close()
+    viewer.ws.close()
+  })
+
+  it('relays editors\' diffs larger than the message cap', async () => {
+    const owner = await join('quarry', 'owner')
+    await owner.next('request-full')
+    owner.send('scene-full', { targetPeerId: 'server', scene: { objects: [] } })
+    const editor = await join('quarry', 'editor')
+    await editor.next('scene-full')
+
+    // Well over the 256 KB cap for other messages, as after a large import
+    const object = { id: 'boulder', name: 'Boulder', notes: 'x'.repeat(512 * 1024) }
+    const crdtOps = [{ type: 'add', id: object.id, object, ts: { wallTime: 1, counter: 0, peerId: owner.peerId } }]
+    owner.send('scene-diff', { ops: [], crdtOps })
+    const relayed = await editor.next('scene-diff')
+    assert.deepEqual(relayed.payload.crdtOps, crdtOps)
+
+    // The snapshot took the diff too
+    const late = await join('quarry', 'viewer')
+    const { payload } = await late.next('scene-full')
+    assert.deepEqual((payload.scene as { objects: unknown[] }).objects, [object])
+
+    owner.ws.close()
+    editor.ws.close()
+    late.ws.close()
+  })
+
+  it('refuses other messages larger than the message cap', async () => {
+    const owner = await join('mesa', 'owner')
+    owner.send('presence', { userName: 'x'.repeat(300 * 1024), selectedIds: [] })
+    assert.equal((await owner.next('error')).payload.message, 'Message too large')
+    owner.ws.close()
+  })
+})
+
+// ---------------------------------------------------------------------------
+// HTTP
+// ---------------------------------------------------------------------------
+
+describe('GET /rooms', () => {
+  it('lists only the room of the bearer token', async () => {
+    const owner = await join('hideout', 'owner')
+
+    const anonymous = await (await fetch(`${baseUrl}/rooms`)).json() as { rooms: { roomId: string }[] }
+    assert.deepEqual(anonymous.rooms, [])
+
+    const response = await fetch(`${baseUrl}/rooms`, {
+      headers: { Authorization: `Bearer ${tokenFor('hideout', 'viewer')}` },
+    })
+    const { rooms } = await response.json() as { rooms: { roomId: string; clients: number }[] }
+    assert.deepEqual(rooms.map(r => [r.roomId, r.clients]), [['hideout', 1]])
+
+    owner.ws.close()
+  })
+})
@@ -1,5 +1,18 @@
-import { WebSocketServer, WebSocket } from 'ws'
+import { WebSocketServer, WebSocket, type RawData } from 'ws'
 import { createServer, IncomingMessage, ServerResponse } from 'http'
+import { resolve } from 'path'
+import { RoomStore, isSceneJson } from './roomStore.js'
+import { isCrdtDocument } from './crdt.js'
+import { LeaseTable } from './leases.js'
+import {
+  type Role,
+  isRole,
+  canEdit,
+  verifyJoinToken,
+  hashPassword,
+  verifyPassword,
+  TokenBucket,
+} from './security.js'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -9,15 +22,23 @@ interface Room {
   id: string
   clients: Map<string, ClientInfo>
   hostPeerId: string | null
+  leases: LeaseTable
 }
 
 interface ClientInfo {
   ws: WebSocket
   peerId: string
   userName: string
+  role: Role
   joinedAt: number
 }
 
+interface JoinRequest {
+  userName?: unknown
+  token?: unknown
+  password?: unknown
+}
+
 interface WSMessage {
   type: string
   roomId: string
@@ -35,12 +56,46 @@ const MAX_CLIENTS_PER_ROOM = 10
 const HEARTBEAT_TIMEOUT_MS = 60_000
 const HEARTBEAT_INTERVAL_MS = 30_000
 
+/** Where room snapshots are persisted. Set ROOM_DATA_DIR to an empty string to keep them in memory only. */
+const ROOM_DATA_DIR = process.env.ROOM_DATA_DIR ?? resolve('data', 'rooms')
+
+/** peerId used for messages the server sends on its own behalf */
+const SERVER_PEER_ID = 'server'
+
+/** HMAC secret for join tokens. When set, every join must present a valid token. */
+const AUTH_SECRET = process.env.AUTH_SECRET || null
+
+/** Role for joiners without a token (open servers only). Whoever creates a room owns it. */
+const DEFAULT_ROLE: Role = isRole(process.env.DEFAULT_ROLE) ? process.env.DEFAULT_ROLE : 'editor'
+
+const MAX_SCENE_BYTES = 16 * 1024 * 1024 // scene-full and scene-diff messages
+const MAX_MESSAGE_BYTES = 256 * 1024 // every other message
+const MAX_JOIN_BYTES = 8 * 1024 // anything sent before a join succeeds
+const MAX_USER_NAME_LENGTH = 32
+
+// Per-socket token bucket: bursts of 60 messages, 30 messages/s sustained
+const RATE_LIMIT_BURST = 60
+const RATE_LIMIT_PER_SECOND = 30
+/** Dropped messages tolerated before the socket is closed */
+const MAX_RATE_VIOLATIONS = 20
+
+// Edit leases lapse unless the holder renews them (clients renew every few seconds)
+const LEASE_TTL_MS = 10_000
+const LEASE_SWEEP_INTERVAL_MS = 1_000
+const MAX_LEASE_OBJECTS = 500
+
+const CLOSE_UNAUTHORIZED = 4003
+const CLOSE_RATE_LIMITED = 4008
+const CLOSE_MESSAGE_TOO_BIG = 1009
+
 // ---------------------------------------------------------------------------
 // State
 // ---------------------------------------------------------------------------
 
 const rooms = new Map<string, Room>()
 
+const roomStore = new RoomStore(ROOM_DATA_DIR || null)
+
 /**
  * Track liveness per socket. Updated on every pong; checked periodically.
  */
@@ -53,7 +108,7 @@ const alive = new WeakMap<WebSocket, boolean>()
 function getOrCreateRoom(roomId: string): Room {
   let room = rooms.get(roomId)
   if (!room) {
-    room = { id: roomId, clients: new Map(), hostPeerId: null }
+    room = { id: roomId, clients: new Map(), hostPeerId: null, leases: new LeaseTable(LEASE_TTL_MS) }
     rooms.set(roomId, room)
     console.log(`[room] created: ${roomId}`)
   }
@@ -76,18 +131,19 @@ function removeClientFromRoom(peerId: string, roomId: string): void {
     return
   }
 
-  // Reassign host if the leaving client was the host
+  // Reassign host if the leaving client was the host. Viewers cannot send
+  // scene-full, so they are never promoted.
   if (room.hostPeerId === peerId) {
-    const firstClient = room.clients.values().next()
-    if (!firstClient.done) {
-      room.hostPeerId = firstClient.value.peerId
+    const nextHost = Array.from(room.clients.values()).find(c => canEdit(c.role))
+    if (nextHost) {
+      room.hostPeerId = nextHost.peerId
       console.log(`[room] new host for ${roomId}: ${room.hostPeerId}`)
 
       // Notify the new host
-      sendTo(firstClient.value.ws, {
+      sendTo(nextHost.ws, {
         type: 'host-assigned',
         roomId,
-        peerId: firstClient.value.peerId,
+        peerId: nextHost.peerId,
         timestamp: Date.now(),
         payload: null,
       })
@@ -104,6 +160,11 @@ function removeClientFromRoom(peerId: string, roomId: string): void {
     timestamp: Date.now(),
     payload: { peerId },
   })
+
+  // Free whatever the departed peer was editing
+  if (room.leases.releaseAll(peerId)) {
+    broadcastLeases(room)
+  }
 }
 
 function sendTo(ws: WebSocket, msg: WSMessage): void {
@@ -134,6 +195,36 @@ function broadcast(room: Room, excludePeerId: string, msg: WSMessage): void {
   }
 }
 
+/** Send the room's lease table to every client */
+function broadcastLeases(room: Room): void {
+  broadcast(room, SERVER_PEER_ID, {
+    type: 'lease-state',
+    roomId: room.id,
+    peerId: SERVER_PEER_ID,
+    timestamp: Date.now(),
+    payload: { leases: room.leases.list() },
+  })
+}
+
+/** Largest frame a socket may send: only joined editors may send scene changes */
+function getMessageLimit(role: Role | null): number {
+  if (!role) return MAX_JOIN_BYTES
+  return canEdit(role) ? MAX_SCENE_BYTES : MAX_MESSAGE_BYTES
+}
+
+function rawByteLength(data: RawData): number {
+  return Array.isArray(data) ? data.reduce((sum, chunk) => sum + chunk.length, 0) : data.byteLength
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+  res.writeHead(status, {
+    'Content-Type': 'application/json',
+    'Access-Control-Allow-Origin': '*',
+    ...headers,
+  })
+  res.end(JSON.stringify(body))
+}
+
 function parseRoomIdFromUrl(url: string | undefined): string | null {
   if (!url) return null
   // Expect /ws/:roomId
@@ -141,11 +232,65 @@ function parseRoomIdFromUrl(url: string | undefined): string | null {
   return match ? match[1] : null
 }
 
+/**
+ * Decide whether a join may proceed and with which role. A valid join token
+ * is sufficient on its own; without one (open servers only) the room password
+ * is checked and the creator of a new room becomes its owner.
+ */
+async function authorizeJoin(roomId: string, request: JoinRequest): Promise<{ role: Role; userName?: string } | { error: string }> {
+  if (typeof request.token === 'string' && request.token) {
+    if (!AUTH_SECRET) return { error: 'This server does not accept join tokens' }
+    const claims = verifyJoinToken(request.token, AUTH_SECRET)
+    if (!claims || claims.roomId !== roomId) return { error: 'Invalid or expired join token' }
+    return { role: claims.role, userName: claims.userName }
+  }
+  if (AUTH_SECRET) return { error: 'A join token is required' }
+
+  const passwordHash = roomStore.getPasswordHash(roomId)
+  if (passwordHash) {
+    const password = typeof request.password === 'string' ? request.password : ''
+    if (!(await verifyPassword(password, passwordHash))) return { error: 'Incorrect room password' }
+  }
+
+  const isNewRoom = !rooms.has(roomId) && !roomStore.has(roomId) && !passwordHash
+  return { role: isNewRoom ? 'owner' : DEFAULT_ROLE }
+}
+
+function getBearerToken(req: IncomingMessage): string | undefined {
+  return req.headers.authorization?.match(/^Bearer (.+)$/)?.[1]
+}
+
+/** HTTP access to a room's scene: a bearer join token, or the room password on open servers */
+async function authorizeHttp(req: IncomingMessage, roomId: string): Promise<boolean> {
+  const bearer = getBearerToken(req)
+  if (AUTH_SECRET) {
+    const claims = bearer ? verifyJoinToken(bearer, AUTH_SECRET) : null
+    return !!claims && claims.roomId === roomId
+  }
+
+  const passwordHash = roomStore.getPasswordHash(roomId)
+  if (!passwordHash) return true
+  const password = req.headers['x-room-password']
+  return typeof password === 'string' && verifyPassword(password, passwordHash)
+}
+
+/**
+ * Whether GET /rooms may reveal a room: with AUTH_SECRET only the room of the
+ * caller's bearer token, otherwise only rooms without a password.
+ */
+function isListable(req: IncomingMessage, roomId: string): boolean {
+  if (AUTH_SECRET) {
+    const bearer = getBearerToken(req)
+    return !!bearer && verifyJoinToken(bearer, AUTH_SECRET)?.roomId === roomId
+  }
+  return !roomStore.getPasswordHash(roomId)
+}
+
 // ---------------------------------------------------------------------------
 // HTTP server (health check + upgrade)
 // ---------------------------------------------------------------------------
 
-const httpServer = createServer((req: IncomingMessage, res: ServerResponse) => {
+const httpServer = createServer(async (req: IncomingMessage, res: ServerResponse) => {
   if (req.method === 'GET' && req.url === '/health') {
     const body = JSON.stringify({
       status: 'ok',
@@ -160,6 +305,43 @@ const httpServer = createServer((req: IncomingMessage, res: ServerResponse) => {
     return
   }
 
+  // List the active and persisted rooms the caller could open without a password
+  if (req.method === 'GET' && req.url === '/rooms') {
+    const summaries = new Map(roomStore.list().map(s => [s.roomId, s]))
+    const ids = new Set([...rooms.keys(), ...summaries.keys()])
+    const list = Array.from(ids).filter(id => isListable(req, id)).sort().map(id => {
+      const summary = summaries.get(id)
+      return {
+        roomId: id,
+        clients: rooms.get(id)?.clients.size ?? 0,
+        hasSnapshot: !!summary,
+        version: summary?.version ?? 0,
+        updatedAt: summary?.updatedAt ?? null,
+        objectCount: summary?.objectCount ?? 0,
+      }
+    })
+    sendJson(res, 200, { rooms: list })
+    return
+  }
+
+  // Download a room's current scene as JSON
+  const sceneMatch = req.url?.match(/^\/rooms\/([a-zA-Z0-9_-]+)\/scene$/)
+  if (req.method === 'GET' && sceneMatch) {
+    if (!(await authorizeHttp(req, sceneMatch[1]))) {
+      sendJson(res, 401, { error: 'Unauthorized' })
+      return
+    }
+    const snapshot = roomStore.get(sceneMatch[1])
+    if (!snapshot) {
+      sendJson(res, 404, { error: 'Room has no scene' })
+      return
+    }
+    sendJson(res, 200, snapshot.scene, {
+      'Content-Disposition': `attachment; filename="${snapshot.roomId}.json"`,
+    })
+    return
+  }
+
   // Everything else gets a 404
   res.writeHead(404, { 'Content-Type': 'text/plain' })
   res.end('Not Found')
@@ -169,7 +351,8 @@ const httpServer = createServer((req: IncomingMessage, res: ServerResponse) => {
 // WebSocket server
 // ---------------------------------------------------------------------------
 
-const wss = new WebSocketServer({ noServer: true })
+// Hard cap for every frame; tighter per-socket limits are checked per message
+const wss = new WebSocketServer({ noServer: true, maxPayload: MAX_SCENE_BYTES })
 
 httpServer.on('upgrade', (req, socket, head) => {
   const roomId = parseRoomIdFromUrl(req.url)
@@ -197,7 +380,12 @@ wss.on('connection', (ws: WebSocket, _req: IncomingMessage, roomId: string) => {
   // The client must send a 'join' message with their peerId and userName
   // before they can participate. Track the association once joined.
   let clientPeerId: string | null = null
+  let clientRole: Role | null = null
   let clientRoomId: string = roomId
+  // Set while a join is being authorized; the socket may not speak until it settles
+  let joining = false
+  const bucket = new TokenBucket(RATE_LIMIT_BURST, RATE_LIMIT_PER_SECOND)
+  let rateViolations = 0
 
   alive.set(ws, true)
 
@@ -206,16 +394,46 @@ wss.on('connection', (ws: WebSocket, _req: IncomingMessage, roomId: string) => {
   })
 
   ws.on('message', (data) => {
+    if (!bucket.take()) {
+      rateViolations++
+      if (rateViolations < MAX_RATE_VIOLATIONS) {
+        sendError(ws, clientRoomId, clientPeerId ?? 'unknown', 'Rate limit exceeded, message dropped')
+      } else if (rateViolations === MAX_RATE_VIOLATIONS) {
+        console.log(`[ws] closing ${clientPeerId ?? 'unknown'}: rate limit exceeded`)
+        ws.close(CLOSE_RATE_LIMITED, 'Rate limit exceeded')
+      }
+      return
+    }
+
+    // Sized before parsing, so sockets that have not joined cannot make the
+    // server parse anything larger than a join request
+    const size = rawByteLength(data)
+    if (size > getMessageLimit(clientRole)) {
+      if (clientRole) {
+        sendError(ws, clientRoomId, clientPeerId ?? 'unknown', 'Message too large')
+      } else {
+        console.log('[ws] closing unjoined socket: message too large')
+        ws.close(CLOSE_MESSAGE_TOO_BIG, 'Message too large')
+      }
+      return
+    }
+
     let msg: WSMessage
 
     try {
-      const raw = typeof data === 'string' ? data : data.toString('utf-8')
-      msg = JSON.parse(raw) as WSMessage
+      msg = JSON.parse(data.toString()) as WSMessage
     } catch {
       sendError(ws, clientRoomId, clientPeerId ?? 'unknown', 'Invalid JSON')
       return
     }
 
+    // Only scene changes may use the large payload allowance; a diff can be as
+    // large as a scene after a big paste or import
+    if (size > MAX_MESSAGE_BYTES && msg.type !== 'scene-full' && msg.type !== 'scene-diff') {
+      sendError(ws, clientRoomId, clientPeerId ?? 'unknown', 'Message too large')
+      return
+    }
+
     // Basic validation
     if (!msg.type || !msg.peerId) {
       sendError(ws, clientRoomId, clientPeerId ?? 'unknown', 'Missing required fields: type, peerId')
@@ -228,15 +446,36 @@ wss.on('connection', (ws: WebSocket, _req: IncomingMessage, roomId: string) => {
       return
     }
 
+    // A socket speaks only for the peer it joined as
+    if (joining || (msg.type === 'join' ? clientPeerId !== null : msg.peerId !== clientPeerId)) {
+      sendError(ws, clientRoomId, msg.peerId, clientPeerId ? 'peerId does not match this connection' : 'Join the room first')
+      return
+    }
+
     switch (msg.type) {
-      case 'join':
+      case 'join': {
+        joining = true
         handleJoin(ws, clientRoomId, msg)
-        clientPeerId = msg.peerId
+          .then(client => {
+            if (client) {
+              clientPeerId = client.peerId
+              clientRole = client.role
+            }
+          })
+          .catch(err => {
+            console.error(`[room] join failed for ${msg.peerId}:`, (err as Error).message)
+            sendError(ws, clientRoomId, msg.peerId, 'Join failed')
+          })
+          .finally(() => {
+            joining = false
+          })
         break
+      }
 
       case 'leave':
         handleLeave(clientRoomId, msg)
         clientPeerId = null
+        clientRole = null
         break
 
       case 'presence':
@@ -244,17 +483,34 @@ wss.on('connection', (ws: WebSocket, _req: IncomingMessage, roomId: string) => {
         break
 
       case 'scene-diff':
-        handleRelay(clientRoomId, msg)
-        break
-
       case 'scene-full':
-        handleSceneFull(clientRoomId, msg)
+        if (!clientRole || !canEdit(clientRole)) {
+          sendError(ws, clientRoomId, msg.peerId, 'Viewers cannot change the scene')
+          break
+        }
+        if (msg.type === 'scene-diff') {
+          handleSceneDiff(clientRoomId, msg)
+        } else {
+          handleSceneFull(clientRoomId, msg)
+        }
         break
 
       case 'request-full':
         handleRequestFull(ws, clientRoomId, msg)
         break
 
+      case 'lease-acquire':
+        if (!clientRole || !canEdit(clientRole)) {
+          sendError(ws, clientRoomId, msg.peerId, 'Viewers cannot edit objects')
+          break
+        }
+        handleLeaseAcquire(ws, clientRoomId, msg)
+        break
+
+      case 'lease-release':
+        handleLeaseRelease(clientRoomId, msg)
+        break
+
       default:
         sendError(ws, clientRoomId, msg.peerId, `Unknown message type: ${msg.type}`)
     }
@@ -280,41 +536,69 @@ wss.on('connection', (ws: WebSocket, _req: IncomingMessage, roomId: string) => {
 // Message handlers
 // ---------------------------------------------------------------------------
 
-function handleJoin(ws: WebSocket, roomId: string, msg: WSMessage): void {
-  const room = getOrCreateRoom(roomId)
+async function handleJoin(ws: WebSocket, roomId: string, msg: WSMessage): Promise<ClientInfo | null> {
   const { peerId } = msg
-  const userName = (msg.payload as { userName?: string })?.userName ?? 'Anonymous'
+  const request = (msg.payload ?? {}) as JoinRequest
+
+  const access = await authorizeJoin(roomId, request)
+  if ('error' in access) {
+    console.log(`[room] rejected ${peerId} from ${roomId}: ${access.error}`)
+    sendError(ws, roomId, peerId, access.error)
+    ws.close(CLOSE_UNAUTHORIZED, access.error)
+    return null
+  }
+
+  // Hash before touching the room, so everything below runs without yielding
+  const newPasswordHash = access.role === 'owner' && typeof request.password === 'string' && request.password
+    && !roomStore.getPasswordHash(roomId)
+    ? await hashPassword(request.password)
+    : null
+  // The socket may have gone away while the password was being checked
+  if (ws.readyState !== WebSocket.OPEN) return null
+
+  const requestedName = typeof request.userName === 'string' ? request.userName.trim() : ''
+  const userName = (access.userName ?? requestedName).slice(0, MAX_USER_NAME_LENGTH) || 'Anonymous'
+  const { role } = access
+
+  const room = getOrCreateRoom(roomId)
 
   // Reject if room is at capacity (double-check after upgrade)
   if (room.clients.size >= MAX_CLIENTS_PER_ROOM) {
     sendError(ws, roomId, peerId, 'Room is full')
     ws.close(4001, 'Room full')
-    return
+    return null
   }
 
   // Reject duplicate peerId in same room
   if (room.clients.has(peerId)) {
     sendError(ws, roomId, peerId, 'Peer ID already exists in room')
     ws.close(4002, 'Duplicate peer ID')
-    return
+    return null
+  }
+
+  // Owners may protect an unprotected room by joining with a password
+  if (newPasswordHash && !roomStore.getPasswordHash(roomId)) {
+    roomStore.setPasswordHash(roomId, newPasswordHash)
+    console.log(`[room] password set for ${roomId}`)
   }
 
   const clientInfo: ClientInfo = {
     ws,
     peerId,
     userName,
+    role,
     joinedAt: Date.now(),
   }
 
   room.clients.set(peerId, clientInfo)
 
-  // First client becomes the host
-  const isHost = room.hostPeerId === null
+  // First editing client becomes the host
+  const isHost = room.hostPeerId === null && canEdit(role)
   if (isHost) {
     room.hostPeerId = peerId
   }
 
-  console.log(`[room] ${peerId} (${userName}) joined ${roomId} [${room.clients.size} clients, host=${room.hostPeerId}]`)
+  console.log(`[room] ${peerId} (${userName}, ${role}) joined ${roomId} [${room.clients.size} clients, host=${room.hostPeerId}]`)
 
   // Build current peer list for the joiner
   const peers = Array.from(room.clients.entries())
@@ -322,6 +606,7 @@ function handleJoin(ws: WebSocket, roomId: string, msg: WSMessage): void {
     .map(([id, info]) => ({
       peerId: id,
       userName: info.userName,
+      role: info.role,
       isHost: id === room.hostPeerId,
     }))
 
@@ -335,6 +620,10 @@ function handleJoin(ws: WebSocket, roomId: string, msg: WSMessage): void {
       isHost,
       peers,
       hostPeerId: room.hostPeerId,
+      hasSnapshot: roomStore.has(roomId),
+      leases: room.leases.list(),
+      role,
+      userName,
     },
   })
 
@@ -344,11 +633,34 @@ function handleJoin(ws: WebSocket, roomId: string, msg: WSMessage): void {
     roomId,
     peerId,
     timestamp: Date.now(),
-    payload: { peerId, userName },
+    payload: { peerId, userName, role },
   })
 
-  // If this client is not the host, request full scene from the host
-  if (!isHost && room.hostPeerId) {
+  // Serve the room's snapshot directly — this also restores a room to its
+  // first client after it was emptied or the server restarted
+  const snapshot = roomStore.get(roomId)
+  if (snapshot) {
+    sendTo(ws, {
+      type: 'scene-full',
+      roomId,
+      peerId: SERVER_PEER_ID,
+      timestamp: Date.now(),
+      payload: { targetPeerId: peerId, scene: snapshot.scene, crdt: snapshot.crdt },
+    })
+    return clientInfo
+  }
+
+  // No snapshot yet: ask the host. For a brand-new room the host is the
+  // joiner itself, whose reply seeds the snapshot.
+  if (isHost) {
+    sendTo(ws, {
+      type: 'request-full',
+      roomId,
+      peerId: SERVER_PEER_ID,
+      timestamp: Date.now(),
+      payload: { requesterPeerId: SERVER_PEER_ID },
+    })
+  } else if (room.hostPeerId) {
     const hostClient = room.clients.get(room.hostPeerId)
     if (hostClient) {
       sendTo(hostClient.ws, {
@@ -360,6 +672,7 @@ function handleJoin(ws: WebSocket, roomId: string, msg: WSMessage): void {
       })
     }
   }
+  return clientInfo
 }
 
 function handleLeave(roomId: string, msg: WSMessage): void {
@@ -376,14 +689,33 @@ function handleRelay(roomId: string, msg: WSMessage): void {
   broadcast(room, msg.peerId, msg)
 }
 
+function handleSceneDiff(roomId: string, msg: WSMessage): void {
+  const room = rooms.get(roomId)
+  if (!room || !room.clients.has(msg.peerId)) return
+
+  const { ops, crdtOps } = (msg.payload ?? {}) as { ops?: unknown; crdtOps?: unknown }
+  if (Array.isArray(ops)) {
+    roomStore.applyDiff(roomId, ops, Array.isArray(crdtOps) ? crdtOps : [])
+  }
+  broadcast(room, msg.peerId, msg)
+}
+
 function handleSceneFull(roomId: string, msg: WSMessage): void {
   const room = rooms.get(roomId)
   if (!room) return
 
+  // Only the host answers request-full; its scene is authoritative
+  if (msg.peerId !== room.hostPeerId) return
+
   // scene-full is directed at a specific requester
-  const targetPeerId = (msg.payload as { targetPeerId?: string })?.targetPeerId
+  const { targetPeerId, scene, crdt } = (msg.payload ?? {}) as { targetPeerId?: string; scene?: unknown; crdt?: unknown }
   if (!targetPeerId) return
 
+  if (isSceneJson(scene)) {
+    roomStore.setScene(roomId, scene, isCrdtDocument(crdt) ? crdt : undefined)
+  }
+  if (targetPeerId === SERVER_PEER_ID) return
+
   const targetClient = room.clients.get(targetPeerId)
   if (!targetClient) return
 
@@ -415,6 +747,47 @@ function handleRequestFull(ws: WebSocket, roomId: string, msg: WSMessage): void
   })
 }
 
+function parseLeaseObjectIds(payload: unknown): string[] | null {
+  const { objectIds } = (payload ?? {}) as { objectIds?: unknown }
+  if (!Array.isArray(objectIds) || objectIds.length > MAX_LEASE_OBJECTS) return null
+  return objectIds.every(id => typeof id === 'string') ? objectIds as string[] : null
+}
+
+function handleLeaseAcquire(ws: WebSocket, roomId: string, msg: WSMessage): void {
+  const room = rooms.get(roomId)
+  const client = room?.clients.get(msg.peerId)
+  if (!room || !client) return
+
+  const objectIds = parseLeaseObjectIds(msg.payload)
+  if (!objectIds) {
+    sendError(ws, roomId, msg.peerId, 'Invalid lease request')
+    return
+  }
+
+  const result = room.leases.acquire(client.peerId, client.userName, objectIds)
+  if (!result.granted) {
+    sendTo(ws, {
+      type: 'lease-denied',
+      roomId,
+      peerId: SERVER_PEER_ID,
+      timestamp: Date.now(),
+      payload: { objectIds, holderPeerId: result.holder.peerId, holderName: result.holder.userName },
+    })
+    return
+  }
+  if (result.changed) broadcastLeases(room)
+}
+
+function handleLeaseRelease(roomId: string, msg: WSMessage): void {
+  const room = rooms.get(roomId)
+  if (!room) return
+
+  const objectIds = parseLeaseObjectIds(msg.payload)
+  if (objectIds && room.leases.release(msg.peerId, objectIds)) {
+    broadcastLeases(room)
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Heartbeat - detect stale connections
 // ---------------------------------------------------------------------------
@@ -431,8 +804,17 @@ const heartbeatInterval = setInterval(() => {
   }
 }, HEARTBEAT_INTERVAL_MS)
 
+// Lapse leases whose holders stopped renewing them
+const leaseSweepInterval = setInterval(() => {
+  const now = Date.now()
+  for (const room of rooms.values()) {
+    if (room.leases.prune(now)) broadcastLeases(room)
+  }
+}, LEASE_SWEEP_INTERVAL_MS)
+
 wss.on('close', () => {
   clearInterval(heartbeatInterval)
+  clearInterval(leaseSweepInterval)
 })
 
 // ---------------------------------------------------------------------------
@@ -449,8 +831,10 @@ function shutdown(): void {
 
   wss.close(() => {
     httpServer.close(() => {
-      console.log('[server] stopped')
-      process.exit(0)
+      roomStore.flush().finally(() => {
+        console.log('[server] stopped')
+        process.exit(0)
+      })
     })
   })
 
@@ -468,8 +852,16 @@ process.on('SIGTERM', shutdown)
 // Start
 // ---------------------------------------------------------------------------
 
+const restored = roomStore.loadFromDisk()
+
 httpServer.listen(PORT, () => {
   console.log(`Collaboration server running on port ${PORT}`)
   console.log(`  WebSocket: ws://localhost:${PORT}/ws/:roomId`)
   console.log(`  Health:    http://localhost:${PORT}/health`)
+  console.log(`  Rooms:     http://localhost:${PORT}/rooms`)
+  console.log(`  Snapshots: ${ROOM_DATA_DIR || '(memory only)'} [${restored} restored]`)
+  console.log(`  Auth:      ${AUTH_SECRET ? 'join tokens required' : `open (default role: ${DEFAULT_ROLE})`}`)
 })
+
+/** For tests, which start the server with PORT=0 and close it when done */
+export { httpServer, wss }